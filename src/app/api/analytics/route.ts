@@ -0,0 +1,101 @@
+/**
+ * EMMA Healthcare Class Analytics API
+ *
+ * Class-level evaluation analytics for a selected time range with
+ * HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AnalyticsService } from '@/lib/database'
+import {
+  ANALYTICS_TIME_RANGES,
+  AnalyticsTimeRange,
+  ClassAnalyticsReport,
+  resolveAnalyticsPeriod
+} from '@/lib/analytics'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface AnalyticsResponse {
+  success: boolean
+  analytics?: ClassAnalyticsReport
+  error?: string
+}
+
+/**
+ * GET /api/analytics - Class analytics for ?range (current-quarter,
+ * last-quarter, academic-year, or custom with ?from and ?to)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<AnalyticsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canAccessReports) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view analytics'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const range = (searchParams.get('range') || 'current-quarter') as AnalyticsTimeRange
+
+    if (!ANALYTICS_TIME_RANGES.includes(range)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid range. Expected one of: ${ANALYTICS_TIME_RANGES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const period = resolveAnalyticsPeriod(range, {
+      from: searchParams.get('from'),
+      to: searchParams.get('to')
+    })
+
+    if (typeof period === 'string') {
+      return NextResponse.json({
+        success: false,
+        error: period
+      }, { status: 400 })
+    }
+
+    const analytics = await AnalyticsService.getClassAnalytics(institutionId, session.user.id, period)
+
+    return NextResponse.json({
+      success: true,
+      analytics
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Class analytics failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate analytics'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,96 @@
+/**
+ * EMMA Healthcare Audit Log Export API
+ *
+ * CSV and JSON exports of filtered audit entries for compliance reviews.
+ * Every export is itself audited.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { format as formatDate } from 'date-fns'
+import { AuditService } from '@/lib/database'
+import {
+  AUDIT_EXPORT_FORMATS,
+  AuditExportFormat,
+  buildAuditCsv,
+  parseAuditLogFilters
+} from '@/lib/audit-log'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+/**
+ * GET /api/audit/export - Download filtered audit entries as CSV or JSON
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAuditLogs || !session.user.permissions?.canExportData) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to export audit logs'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const exportFormat = (searchParams.get('format') || 'csv') as AuditExportFormat
+    if (!AUDIT_EXPORT_FORMATS.includes(exportFormat)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid format. Expected one of: ${AUDIT_EXPORT_FORMATS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const { filters, error: filterError } = parseAuditLogFilters(searchParams)
+    if (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: filterError
+      }, { status: 400 })
+    }
+
+    const { entries, truncated } = await AuditService.exportAuditLogs(institutionId, session.user.id, filters, {
+      format: exportFormat,
+      includePhi: searchParams.get('includePhi') === 'true'
+    })
+
+    const fileName = `audit-log-${formatDate(new Date(), 'yyyy-MM-dd-HHmm')}.${exportFormat}`
+    const body = exportFormat === 'csv'
+      ? buildAuditCsv(entries)
+      : JSON.stringify({ exportedAt: new Date().toISOString(), institutionId, filters, truncated, entries }, null, 2)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': exportFormat === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+        // Lets clients warn that the date range should be narrowed
+        'X-Export-Truncated': String(truncated)
+      }
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Audit log export failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to export audit logs'
+    }, { status: 500 })
+  }
+}
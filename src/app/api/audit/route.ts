@@ -0,0 +1,103 @@
+/**
+ * EMMA Healthcare Audit Log API
+ *
+ * Filtered, cursor-paginated access to the institution's HIPAA audit log
+ * for compliance review. Every request is itself audited.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AuditService } from '@/lib/database'
+import {
+  AUDIT_LOG_MAX_PAGE_SIZE,
+  AUDIT_LOG_PAGE_SIZE,
+  AuditLogEntry,
+  decodeAuditCursor,
+  parseAuditLogFilters
+} from '@/lib/audit-log'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface AuditLogsResponse {
+  success: boolean
+  entries?: AuditLogEntry[]
+  nextCursor?: string | null
+  error?: string
+}
+
+/**
+ * GET /api/audit - List audit entries with filters and cursor pagination
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<AuditLogsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAuditLogs) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view audit logs'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = request.nextUrl
+    const { filters, error: filterError } = parseAuditLogFilters(searchParams)
+    if (filterError) {
+      return NextResponse.json({
+        success: false,
+        error: filterError
+      }, { status: 400 })
+    }
+
+    const cursor = searchParams.get('cursor') || undefined
+    if (cursor && !decodeAuditCursor(cursor)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid cursor'
+      }, { status: 400 })
+    }
+
+    const pageSize = Number(searchParams.get('pageSize') || AUDIT_LOG_PAGE_SIZE)
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > AUDIT_LOG_MAX_PAGE_SIZE) {
+      return NextResponse.json({
+        success: false,
+        error: `pageSize must be between 1 and ${AUDIT_LOG_MAX_PAGE_SIZE}`
+      }, { status: 400 })
+    }
+
+    const page = await AuditService.getAuditLogs(institutionId, session.user.id, filters, {
+      cursor,
+      pageSize,
+      includePhi: searchParams.get('includePhi') === 'true'
+    })
+
+    return NextResponse.json({
+      success: true,
+      entries: page.entries,
+      nextCursor: page.nextCursor
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Audit log fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retrieve audit logs'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * EMMA Healthcare Audit Chain Verification API
+ *
+ * Walks the institution's hash-chained HIPAA audit log and reports gaps,
+ * modified entries and truncation.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AuditService } from '@/lib/database'
+import type { AuditChainVerification } from '@/lib/audit-chain'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface VerifyAuditChainResponse {
+  success: boolean
+  verification?: AuditChainVerification
+  error?: string
+}
+
+/**
+ * GET /api/audit/verify - Verify the institution's audit chain
+ */
+export async function GET(): Promise<NextResponse<VerifyAuditChainResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAuditLogs) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to verify audit logs'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const verification = await AuditService.verifyAuditChain(institutionId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      verification
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Audit chain verification failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to verify audit chain'
+    }, { status: 500 })
+  }
+}
@@ -11,6 +11,30 @@ import CredentialsProvider from 'next-auth/providers/credentials'
 import { signInWithEmailAndPassword } from 'firebase/auth'
 import { auth } from '@/lib/firebase'
 import { adminDb, logAdminAction } from '@/lib/firebase-admin'
+import { AccountSecurityService, MfaService, UserService } from '@/lib/database'
+import {
+  ACCOUNT_LOCKED_ERROR,
+  CREDENTIAL_ERROR_CODES,
+  PASSWORD_NOT_RECORDED_ERROR,
+  PASSWORD_RESET_REQUIRED_ERROR
+} from '@/lib/password-policy'
+import {
+  MFA_ENROLLMENT_PERMISSIONS,
+  MFA_INVALID_ERROR,
+  MFA_REQUIRED_ERROR,
+  MfaMethod,
+  isMfaRequired
+} from '@/lib/mfa'
+import {
+  SESSION_IDLE_ERROR,
+  SESSION_REVALIDATE_INTERVAL_MS,
+  SESSION_REVOKED_ERROR,
+  getSessionRevocationReason,
+  isSessionIdle
+} from '@/lib/session-policy'
+import { resolvePermissions } from '@/lib/permissions'
+import { getInstitutionAccess, isSuperAdmin, resolveInstitutionPermissions } from '@/lib/institutions'
+import type { ExtendedUser } from '@/types/database'
 import type { UserRole, Department, PGYLevel } from '@/types/user'
 
 const authOptions: NextAuthOptions = {
@@ -20,7 +44,8 @@ const authOptions: NextAuthOptions = {
       name: 'credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        mfaCode: { label: 'Authentication Code', type: 'text' }
       },
       async authorize(credentials, req) {
         if (!credentials?.email || !credentials?.password) {
@@ -34,6 +59,11 @@ const authOptions: NextAuthOptions = {
         }
 
         try {
+          // Locked accounts are rejected before the password is checked
+          if (await AccountSecurityService.getActiveLockout(credentials.email)) {
+            throw new Error(ACCOUNT_LOCKED_ERROR)
+          }
+
           // Authenticate with Firebase Auth
           const userCredential = await signInWithEmailAndPassword(
             auth,
@@ -48,12 +78,16 @@ const authOptions: NextAuthOptions = {
             throw new Error('User profile not found in Firestore')
           }
 
-          const userData = userDoc.data()
+          const userData = { id: userDoc.id, ...userDoc.data() } as ExtendedUser
 
           // Healthcare access control - check if user is active
           const requireEmailVerification = process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION === 'true'
           const allowedStatuses = requireEmailVerification ? ['ACTIVE'] : ['ACTIVE', 'PENDING_VERIFICATION']
-          
+
+          if (userData.status === 'PENDING_APPROVAL') {
+            throw new Error('Your account is awaiting approval by an administrator at your institution')
+          }
+
           if (!userData.isActive && requireEmailVerification) {
             throw new Error('Account is inactive. Please verify your email address.')
           }
@@ -62,6 +96,36 @@ const authOptions: NextAuthOptions = {
             throw new Error('Account is inactive or suspended')
           }
 
+          // Set by an administrator - the user must follow the emailed reset link first
+          if (userData.security?.passwordResetRequired) {
+            throw new Error(PASSWORD_RESET_REQUIRED_ERROR)
+          }
+
+          // Passwords changed outside /api/auth/password-reset skipped the policy and reuse checks
+          if (!(await AccountSecurityService.isRecordedPassword(userData.id, credentials.password))) {
+            throw new Error(PASSWORD_NOT_RECORDED_ERROR)
+          }
+
+          // Second factor for enrolled accounts - the form asks for the code after the password
+          let mfaMethod: MfaMethod | null = null
+          if (userData.mfa?.enabled) {
+            if (!credentials.mfaCode) {
+              throw new Error(MFA_REQUIRED_ERROR)
+            }
+
+            mfaMethod = await MfaService.verifyChallenge(userData, credentials.mfaCode)
+            if (!mfaMethod) {
+              throw new Error(MFA_INVALID_ERROR)
+            }
+          }
+
+          // Roles the institution requires MFA for must enrol before getting any permissions
+          const settings = await AccountSecurityService.getAuthenticationSettings(userData.institutionId)
+          const mfaEnrollmentRequired = !userData.mfa?.enabled && isMfaRequired(userData.role, settings)
+          const sessionPolicy = await AccountSecurityService.getSessionPolicy(userData.institutionId)
+
+          await AccountSecurityService.recordSuccessfulLogin(userData)
+
           // HIPAA audit logging (only if Firebase Admin is configured)
           try {
             await logAdminAction(
@@ -73,6 +137,8 @@ const authOptions: NextAuthOptions = {
                 email: credentials.email,
                 role: userData.role,
                 department: userData.department,
+                mfaMethod,
+                mfaEnrollmentRequired,
                 ipAddress: req.headers?.['x-forwarded-for'] || req.headers?.['x-real-ip']
               }
             )
@@ -88,14 +154,39 @@ const authOptions: NextAuthOptions = {
             lastName: userData.lastName,
             department: userData.department as Department,
             pgyLevel: userData.pgyLevel as PGYLevel,
-            permissions: userData.permissions,
+            permissions: mfaEnrollmentRequired
+              ? MFA_ENROLLMENT_PERMISSIONS
+              : resolvePermissions(userData.role, userData.permissionOverrides),
+            departmentPermissions: mfaEnrollmentRequired ? undefined : userData.departmentPermissions,
+            mfaEnrollmentRequired,
             displayName: `${userData.firstName} ${userData.lastName}`,
             institutionId: userData.institutionId,
-            emailVerified: userCredential.user.emailVerified
+            homeInstitutionId: userData.institutionId,
+            isSuperAdmin: !mfaEnrollmentRequired && isSuperAdmin(userData),
+            emailVerified: userCredential.user.emailVerified,
+            sessionPolicy
           }
         } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+
+          // Password accepted - not a failure, the form asks for the authenticator code
+          if (errorMessage === MFA_REQUIRED_ERROR) {
+            throw error
+          }
+
           console.error('Authentication error:', error)
 
+          let accountLocked = errorMessage === ACCOUNT_LOCKED_ERROR
+
+          // Wrong passwords and authenticator codes count towards the institution's maxLoginAttempts
+          if (errorMessage === MFA_INVALID_ERROR || CREDENTIAL_ERROR_CODES.includes((error as { code?: string })?.code ?? '')) {
+            try {
+              accountLocked = (await AccountSecurityService.recordFailedLogin(credentials.email)).locked
+            } catch (lockoutError) {
+              console.error('[EMMA] Failed login tracking failed:', lockoutError)
+            }
+          }
+
           // HIPAA audit logging for failed attempts (only if Firebase Admin is configured)
           try {
             await logAdminAction(
@@ -105,7 +196,8 @@ const authOptions: NextAuthOptions = {
               undefined,
               {
                 email: credentials.email,
-                error: error instanceof Error ? error.message : 'Unknown error',
+                error: errorMessage,
+                accountLocked,
                 ipAddress: req.headers?.['x-forwarded-for'] || req.headers?.['x-real-ip']
               }
             )
@@ -113,6 +205,15 @@ const authOptions: NextAuthOptions = {
             console.warn('[DEV] Audit logging failed (likely due to missing Firebase Admin config):', auditError)
           }
 
+          // Surfaced to the sign-in form as result.error
+          if (accountLocked) {
+            throw new Error(ACCOUNT_LOCKED_ERROR)
+          }
+
+          if ([MFA_INVALID_ERROR, PASSWORD_RESET_REQUIRED_ERROR, PASSWORD_NOT_RECORDED_ERROR].includes(errorMessage)) {
+            throw error
+          }
+
           return null
         }
       }
@@ -126,7 +227,131 @@ const authOptions: NextAuthOptions = {
   },
 
   callbacks: {
-    async jwt({ token, user, account }) {
+    async jwt({ token, user, account, trigger, session }) {
+      // Sessions idle past the institution's sessionTimeout are rejected and their cookie cleared
+      if (!user && isSessionIdle(token.lastActivityAt, token.sessionPolicy?.idleTimeoutMinutes)) {
+        try {
+          await logAdminAction(
+            'SESSION_IDLE_TIMEOUT',
+            token.sub,
+            'USER_SESSION',
+            token.sub,
+            {
+              institutionId: token.institutionId,
+              role: token.role,
+              lastActivityAt: new Date(token.lastActivityAt!).toISOString(),
+              idleTimeoutMinutes: token.sessionPolicy?.idleTimeoutMinutes,
+            }
+          )
+        } catch (error) {
+          console.error('[HIPAA] Session timeout audit logging failed:', error)
+        }
+        throw new Error(SESSION_IDLE_ERROR)
+      }
+
+      // The browser reports user activity through session updates
+      if (trigger === 'update') {
+        token.lastActivityAt = Date.now()
+      }
+
+      // The institution switcher sends update({ institutionId }); the switch is
+      // only made to an institution the user's current record gives access to
+      let institutionSwitched = false
+      if (
+        !user && token.sub && trigger === 'update' &&
+        typeof session?.institutionId === 'string' && session.institutionId !== token.institutionId
+      ) {
+        let switchUser: ExtendedUser | null = null
+        try {
+          switchUser = await UserService.getUserRecord(token.sub)
+        } catch (error) {
+          console.error('[EMMA] Institution switch lookup failed:', error)
+        }
+
+        institutionSwitched = !!switchUser && !!getInstitutionAccess(switchUser, session.institutionId)
+
+        try {
+          await logAdminAction(
+            institutionSwitched ? 'INSTITUTION_SWITCHED' : 'INSTITUTION_SWITCH_DENIED',
+            token.sub,
+            'USER_SESSION',
+            token.sub,
+            {
+              fromInstitutionId: token.institutionId,
+              institutionId: session.institutionId,
+            }
+          )
+        } catch (error) {
+          console.error('[HIPAA] Institution switch audit logging failed:', error)
+        }
+
+        if (institutionSwitched) {
+          token.institutionId = session.institutionId
+        }
+      }
+
+      // Re-read the user after MFA enrolment (to restore permissions), after an institution
+      // switch and periodically, so role and permission changes, suspensions, forced password
+      // resets and removed institution access reach this session
+      const revalidate = !user && token.sub && (
+        institutionSwitched ||
+        (trigger === 'update' && token.mfaEnrollmentRequired) ||
+        Date.now() - (token.userCheckedAt ?? 0) >= SESSION_REVALIDATE_INTERVAL_MS
+      )
+
+      if (revalidate) {
+        let userData: ExtendedUser | null | undefined
+        try {
+          userData = await UserService.getUserRecord(token.sub!)
+        } catch (error) {
+          // Keep the session through a failed read; the next request tries again
+          console.error('[EMMA] Session revalidation failed:', error)
+        }
+
+        if (userData !== undefined) {
+          const institutionId = token.institutionId ?? userData?.institutionId
+          const revocationReason = getSessionRevocationReason(userData, institutionId)
+          if (revocationReason || !userData) {
+            try {
+              await logAdminAction(
+                'SESSION_REVOKED',
+                token.sub,
+                'USER_SESSION',
+                token.sub,
+                {
+                  institutionId: token.institutionId,
+                  reason: revocationReason,
+                }
+              )
+            } catch (error) {
+              console.error('[HIPAA] Session revocation audit logging failed:', error)
+            }
+            throw new Error(SESSION_REVOKED_ERROR)
+          }
+
+          // Role, permissions and session limits are those of the active institution
+          const access = getInstitutionAccess(userData, institutionId)!
+          const { permissions, departmentPermissions } = resolveInstitutionPermissions(userData, access)
+          const settings = await AccountSecurityService.getAuthenticationSettings(access.institutionId)
+          const mfaEnrollmentRequired = !userData.mfa?.enabled && isMfaRequired(access.role, settings)
+
+          token.role = access.role
+          token.firstName = userData.firstName
+          token.lastName = userData.lastName
+          token.department = access.department
+          token.pgyLevel = userData.pgyLevel
+          token.permissions = mfaEnrollmentRequired ? MFA_ENROLLMENT_PERMISSIONS : permissions
+          token.departmentPermissions = mfaEnrollmentRequired ? undefined : departmentPermissions
+          token.mfaEnrollmentRequired = mfaEnrollmentRequired
+          token.displayName = `${userData.firstName} ${userData.lastName}`
+          token.institutionId = access.institutionId
+          token.homeInstitutionId = userData.institutionId
+          token.isSuperAdmin = !mfaEnrollmentRequired && isSuperAdmin(userData)
+          token.sessionPolicy = await AccountSecurityService.getSessionPolicy(access.institutionId)
+          token.userCheckedAt = Date.now()
+        }
+      }
+
       if (user) {
         token.role = user.role
         token.firstName = user.firstName
@@ -134,9 +359,16 @@ const authOptions: NextAuthOptions = {
         token.department = user.department
         token.pgyLevel = user.pgyLevel
         token.permissions = user.permissions
+        token.departmentPermissions = user.departmentPermissions
+        token.mfaEnrollmentRequired = Boolean(user.mfaEnrollmentRequired)
         token.displayName = user.displayName
         token.institutionId = user.institutionId
+        token.homeInstitutionId = user.homeInstitutionId
+        token.isSuperAdmin = Boolean(user.isSuperAdmin)
         token.emailVerified = Boolean(user.emailVerified)
+        token.sessionPolicy = user.sessionPolicy
+        token.lastActivityAt = Date.now()
+        token.userCheckedAt = Date.now()
       }
       return token
     },
@@ -150,9 +382,14 @@ const authOptions: NextAuthOptions = {
         session.user.department = token.department as Department
         session.user.pgyLevel = token.pgyLevel as PGYLevel
         session.user.permissions = token.permissions as any
+        session.user.departmentPermissions = token.departmentPermissions
+        session.user.mfaEnrollmentRequired = Boolean(token.mfaEnrollmentRequired)
         session.user.displayName = token.displayName as string
         session.user.institutionId = token.institutionId as string
+        session.user.homeInstitutionId = token.homeInstitutionId
+        session.user.isSuperAdmin = Boolean(token.isSuperAdmin)
         session.user.emailVerified = Boolean(token.emailVerified)
+        session.sessionPolicy = token.sessionPolicy
       }
       return session
     },
@@ -0,0 +1,114 @@
+/**
+ * EMMA Healthcare Firebase Client Token API
+ *
+ * Issues a Firebase custom token for the signed-in user so the browser can
+ * open Firestore listeners under the security rules. Claims are read from
+ * the user's current profile rather than the session, for the institution
+ * the session is currently switched into.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { adminAuth, adminDb, logAdminAction } from '@/lib/firebase-admin'
+import { getPermissionClaims } from '@/lib/permissions'
+import { getInstitutionAccess, isSuperAdmin } from '@/lib/institutions'
+import { COLLECTIONS, ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface FirebaseTokenResponse {
+  success: boolean
+  token?: string
+  error?: string
+}
+
+/**
+ * POST /api/auth/firebase-token - Mint a custom token carrying the claims
+ * firestore.rules checks (role, institutionId, isActive, emailVerified,
+ * permissionOverrides, departmentPermissions, superAdmin)
+ */
+export async function POST(): Promise<NextResponse<FirebaseTokenResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    // Until a required MFA enrolment is done the session carries no permissions, so neither may the token
+    if (session.user.mfaEnrollmentRequired) {
+      return NextResponse.json({
+        success: false,
+        error: 'Complete MFA enrolment before connecting to Firestore'
+      }, { status: 403 })
+    }
+
+    const userDoc = await adminDb.collection(COLLECTIONS.USERS).doc(session.user.id).get()
+    const user = userDoc.data() as ExtendedUser | undefined
+
+    if (!user || !user.isActive) {
+      return NextResponse.json({
+        success: false,
+        error: 'Account is inactive or suspended'
+      }, { status: 403 })
+    }
+
+    // Access to the active institution may have been removed since the session switched into it
+    const access = getInstitutionAccess(user, session.user.institutionId ?? user.institutionId)
+    if (!access) {
+      return NextResponse.json({
+        success: false,
+        error: 'No access to this institution'
+      }, { status: 403 })
+    }
+
+    const userRecord = await adminAuth.getUser(session.user.id)
+
+    // Overrides and department grants apply only in the home institution
+    const token = await adminAuth.createCustomToken(session.user.id, {
+      role: access.role,
+      department: access.department ?? null,
+      institutionId: access.institutionId,
+      isActive: user.isActive,
+      emailVerified: userRecord.emailVerified || userRecord.customClaims?.emailVerified === true,
+      superAdmin: isSuperAdmin(user),
+      ...getPermissionClaims(access.home ? user : { role: access.role })
+    })
+
+    await logAdminAction(
+      'FIREBASE_CLIENT_TOKEN_ISSUED',
+      session.user.id,
+      'USER',
+      session.user.id,
+      {
+        role: access.role,
+        homeInstitutionId: user.institutionId,
+        institutionId: access.institutionId
+      }
+    )
+
+    return NextResponse.json({
+      success: true,
+      token
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Firebase token issue failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to issue Firebase token'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * EMMA Healthcare MFA Enrolment API
+ *
+ * Issues a TOTP secret and QR code for the signed-in user to add to an
+ * authenticator app. Open to users whose permissions are withheld until
+ * they enrol.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MfaService, UserService } from '@/lib/database'
+import { MfaEnrollment } from '@/lib/mfa'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface MfaEnrollmentResponse {
+  success: boolean
+  enrollment?: MfaEnrollment
+  error?: string
+}
+
+/**
+ * POST /api/auth/mfa/enroll - Start MFA enrolment for the signed-in user
+ */
+export async function POST(): Promise<NextResponse<MfaEnrollmentResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const user = await UserService.getUserRecord(session.user.id)
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (user.mfa?.enabled) {
+      return NextResponse.json({
+        success: false,
+        error: 'MFA is already enabled for this account'
+      }, { status: 409 })
+    }
+
+    const enrollment = await MfaService.startEnrollment(user)
+
+    return NextResponse.json({
+      success: true,
+      enrollment
+    })
+
+  } catch (error) {
+    console.error('[EMMA] MFA enrolment start failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start MFA enrolment'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * EMMA Healthcare MFA Status API
+ *
+ * Whether the signed-in user has multi-factor authentication enabled and
+ * whether their institution requires it for their role.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MfaService, UserService } from '@/lib/database'
+import { MfaStatus } from '@/lib/mfa'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface MfaStatusResponse {
+  success: boolean
+  status?: MfaStatus
+  error?: string
+}
+
+/**
+ * GET /api/auth/mfa - MFA status for the signed-in user
+ */
+export async function GET(): Promise<NextResponse<MfaStatusResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const user = await UserService.getUserRecord(session.user.id)
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const status = await MfaService.getMfaStatus(user)
+
+    return NextResponse.json({
+      success: true,
+      status
+    })
+
+  } catch (error) {
+    console.error('[EMMA] MFA status fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch MFA status'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * EMMA Healthcare MFA Enrolment Verification API
+ *
+ * Confirms enrolment with the first code from the authenticator app, turns
+ * MFA on and returns the one-time view of the recovery codes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MfaService, UserService } from '@/lib/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface VerifyMfaResponse {
+  success: boolean
+  message?: string
+  recoveryCodes?: string[]
+  error?: string
+}
+
+/**
+ * POST /api/auth/mfa/verify - Complete MFA enrolment with an authenticator code
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<VerifyMfaResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (typeof body?.code !== 'string' || !body.code.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Verification code is required'
+      }, { status: 400 })
+    }
+
+    const user = await UserService.getUserRecord(session.user.id)
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (user.mfa?.enabled) {
+      return NextResponse.json({
+        success: false,
+        error: 'MFA is already enabled for this account'
+      }, { status: 409 })
+    }
+
+    const recoveryCodes = await MfaService.completeEnrollment(user, body.code)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Multi-factor authentication enabled',
+      recoveryCodes
+    })
+
+  } catch (error) {
+    console.error('[EMMA] MFA enrolment verification failed:', error)
+
+    const message = error instanceof Error ? error.message : 'Failed to verify MFA code'
+    const isInvalidCode = message.includes('Invalid verification code') || message.includes('No MFA enrolment in progress')
+
+    return NextResponse.json({
+      success: false,
+      error: message
+    }, { status: isInvalidCode ? 400 : 500 })
+  }
+}
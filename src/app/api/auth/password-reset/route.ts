@@ -0,0 +1,170 @@
+/**
+ * EMMA Healthcare Password Reset API
+ *
+ * Completes a Firebase password reset link on the server so the new
+ * password is checked against the institution's password policy and the
+ * user's recent passwords before it is accepted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { confirmPasswordReset, verifyPasswordResetCode } from 'firebase/auth'
+import { auth } from '@/lib/firebase'
+import { logAdminAction } from '@/lib/firebase-admin'
+import { AccountSecurityService, UserService } from '@/lib/database'
+import { PasswordPolicy } from '@/lib/password-policy'
+import { ExtendedUser } from '@/types/database'
+
+interface PasswordResetRequest {
+  oobCode: string
+  newPassword: string
+}
+
+interface PasswordResetResponse {
+  success: boolean
+  message?: string
+  email?: string
+  passwordPolicy?: PasswordPolicy
+  error?: string
+}
+
+// Firebase errors for reset links that are malformed, used or expired
+const INVALID_CODE_ERRORS = ['auth/invalid-action-code', 'auth/expired-action-code']
+
+const INVALID_CODE_MESSAGE = 'This password reset link is invalid or has expired. Please request a new one.'
+
+/**
+ * Resolve a reset code to the account it was issued for. Returns null when
+ * the code is not valid.
+ */
+async function getResetAccount(oobCode: string): Promise<{ email: string; user: ExtendedUser | null } | null> {
+  try {
+    const email = await verifyPasswordResetCode(auth, oobCode)
+    return { email, user: await UserService.getUserRecordByEmail(email) }
+  } catch (error) {
+    if (INVALID_CODE_ERRORS.includes((error as { code?: string })?.code ?? '')) {
+      return null
+    }
+    throw error
+  }
+}
+
+/**
+ * GET /api/auth/password-reset - Check a reset code and get the password policy it must meet
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<PasswordResetResponse>> {
+  try {
+    const oobCode = request.nextUrl.searchParams.get('oobCode')
+
+    if (!oobCode) {
+      return NextResponse.json({
+        success: false,
+        error: 'oobCode is required'
+      }, { status: 400 })
+    }
+
+    const account = await getResetAccount(oobCode)
+    if (!account?.user) {
+      return NextResponse.json({
+        success: false,
+        error: INVALID_CODE_MESSAGE
+      }, { status: 400 })
+    }
+
+    const { passwordPolicy } = await AccountSecurityService.getAuthenticationSettings(account.user.institutionId)
+
+    return NextResponse.json({
+      success: true,
+      email: account.email,
+      passwordPolicy
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Password reset code check failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check password reset link'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/auth/password-reset - Set a new password with a reset code
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<PasswordResetResponse>> {
+  try {
+    const body: PasswordResetRequest = await request.json()
+
+    if (!body?.oobCode || !body?.newPassword) {
+      return NextResponse.json({
+        success: false,
+        error: 'Missing required fields: oobCode, newPassword'
+      }, { status: 400 })
+    }
+
+    const account = await getResetAccount(body.oobCode)
+    if (!account?.user) {
+      return NextResponse.json({
+        success: false,
+        error: INVALID_CODE_MESSAGE
+      }, { status: 400 })
+    }
+
+    const { user } = account
+    const passwordError = await AccountSecurityService.checkNewPassword(user.institutionId, body.newPassword, user.id)
+
+    if (passwordError) {
+      await logAdminAction(
+        'PASSWORD_RESET_REJECTED',
+        user.id,
+        'USER',
+        user.id,
+        {
+          error: passwordError,
+          institutionId: user.institutionId
+        }
+      )
+
+      return NextResponse.json({
+        success: false,
+        error: passwordError
+      }, { status: 400 })
+    }
+
+    await confirmPasswordReset(auth, body.oobCode, body.newPassword)
+
+    // A completed reset also lifts any sign-in lockout
+    await AccountSecurityService.recordPasswordChange(user.id, user.institutionId, body.newPassword)
+
+    await logAdminAction(
+      'PASSWORD_RESET_COMPLETED',
+      user.id,
+      'USER',
+      user.id,
+      {
+        institutionId: user.institutionId,
+        ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
+      }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your password has been reset. You can now sign in with your new password.'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Password reset failed:', error)
+
+    if (INVALID_CODE_ERRORS.includes((error as { code?: string })?.code ?? '')) {
+      return NextResponse.json({
+        success: false,
+        error: INVALID_CODE_MESSAGE
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset password'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+const mocks = vi.hoisted(() => ({
+  createUserWithEmailAndPassword: vi.fn(),
+  sendEmailVerification: vi.fn(),
+  setCustomUserClaims: vi.fn(),
+  logAdminAction: vi.fn(),
+  createUser: vi.fn(),
+  getInstitutionRecord: vi.fn(),
+  checkNewPassword: vi.fn(),
+  recordPasswordChange: vi.fn(),
+}))
+
+vi.mock('firebase/auth', () => ({
+  createUserWithEmailAndPassword: mocks.createUserWithEmailAndPassword,
+  sendEmailVerification: mocks.sendEmailVerification,
+}))
+
+vi.mock('@/lib/firebase', () => ({ auth: {} }))
+
+vi.mock('@/lib/firebase-admin', () => ({
+  adminAuth: { setCustomUserClaims: mocks.setCustomUserClaims, deleteUser: vi.fn() },
+  logAdminAction: mocks.logAdminAction,
+}))
+
+vi.mock('@/lib/database', () => ({
+  AccountSecurityService: {
+    checkNewPassword: mocks.checkNewPassword,
+    recordPasswordChange: mocks.recordPasswordChange,
+  },
+  InstitutionService: { getInstitutionRecord: mocks.getInstitutionRecord },
+  UserService: { createUser: mocks.createUser },
+}))
+
+import { POST } from './route'
+
+const registration = (overrides: Record<string, unknown> = {}) => ({
+  email: 'jane.doe@hospital.edu',
+  password: 'Str0ng!Passphrase',
+  firstName: 'Jane',
+  lastName: 'Doe',
+  role: 'RESIDENT',
+  department: 'INTERNAL_MEDICINE',
+  pgyLevel: 1,
+  institutionId: 'inst-1',
+  acceptedTerms: true,
+  acceptedHIPAA: true,
+  ...overrides,
+})
+
+const register = (body: Record<string, unknown>) =>
+  POST(new NextRequest('http://localhost/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }))
+
+describe('POST /api/auth/register', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('FIREBASE_PROJECT_ID', 'emma-test')
+    vi.stubEnv('FIREBASE_CLIENT_EMAIL', 'admin@emma-test.iam.gserviceaccount.com')
+    vi.stubEnv('FIREBASE_PRIVATE_KEY', 'test-key')
+    vi.stubEnv('NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION', 'false')
+
+    mocks.getInstitutionRecord.mockResolvedValue({ id: 'inst-1', status: 'ACTIVE' })
+    mocks.checkNewPassword.mockResolvedValue(null)
+    mocks.createUserWithEmailAndPassword.mockResolvedValue({ user: { uid: 'user-1' } })
+    mocks.createUser.mockImplementation(async (data: Record<string, unknown>, _createdBy: string, id: string) => ({ id, ...data }))
+  })
+
+  it.each(['ADMIN', 'COORDINATOR'])('rejects self-registration as %s', async (role) => {
+    const response = await register(registration({ role }))
+
+    expect(response.status).toBe(400)
+    expect((await response.json()).success).toBe(false)
+    expect(mocks.createUserWithEmailAndPassword).not.toHaveBeenCalled()
+    expect(mocks.createUser).not.toHaveBeenCalled()
+  })
+
+  it('creates residents awaiting administrator approval', async () => {
+    const response = await register(registration())
+
+    expect(response.status).toBe(201)
+    expect(mocks.createUser).toHaveBeenCalledWith(
+      expect.objectContaining({ role: 'RESIDENT', status: 'PENDING_APPROVAL', isActive: false }),
+      'SYSTEM',
+      'user-1'
+    )
+    expect(mocks.setCustomUserClaims).toHaveBeenCalledWith('user-1', expect.objectContaining({ isActive: false }))
+  })
+})
@@ -9,7 +9,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createUserWithEmailAndPassword, sendEmailVerification } from 'firebase/auth'
 import { auth } from '@/lib/firebase'
 import { adminAuth, logAdminAction } from '@/lib/firebase-admin'
-import { UserService } from '@/lib/database'
+import { AccountSecurityService, InstitutionService, UserService } from '@/lib/database'
+import { validateInstitutionalEmail } from '@/lib/resident-validation'
+import { SELF_REGISTRATION_ROLES } from '@/lib/user-management'
 import { UserRole, Department, PGYLevel, ROLE_PERMISSIONS } from '@/types/user'
 import { ExtendedUser } from '@/types/database'
 import { Timestamp } from 'firebase/firestore'
@@ -74,6 +76,26 @@ export async function POST(request: NextRequest): Promise<NextResponse<Registrat
       }, { status: 400 })
     }
 
+    // Users can only join institutions that have been onboarded and are active
+    const institution = await InstitutionService.getInstitutionRecord(requestData.institutionId)
+    if (!institution || institution.status !== 'ACTIVE') {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation failed',
+        error: 'Institution not found or not accepting registrations'
+      }, { status: 400 })
+    }
+
+    // Password complexity comes from the institution's SystemSettings
+    const passwordError = await AccountSecurityService.checkNewPassword(requestData.institutionId, requestData.password)
+    if (passwordError) {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation failed',
+        error: passwordError
+      }, { status: 400 })
+    }
+
     // Validate Firebase configuration
     if (!process.env.FIREBASE_PROJECT_ID || !process.env.FIREBASE_CLIENT_EMAIL || !process.env.FIREBASE_PRIVATE_KEY) {
       console.error('[EMMA] Firebase configuration incomplete for registration')
@@ -108,11 +130,11 @@ export async function POST(request: NextRequest): Promise<NextResponse<Registrat
         lastName: requestData.lastName,
         department: requestData.department,
         pgyLevel: requestData.pgyLevel,
-        status: process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION === 'true' ? 'PENDING_VERIFICATION' : 'ACTIVE',
+        status: 'PENDING_APPROVAL', // An institution administrator approves every self-registered account
         institutionId: requestData.institutionId,
         medicalLicenseNumber: requestData.medicalLicenseNumber,
         supervisingFacultyId: requestData.supervisingFacultyId,
-        isActive: process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION !== 'true', // Active immediately if verification disabled
+        isActive: false,
         emailVerified: process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION !== 'true', // Mark as verified if verification disabled
         phoneNumber: requestData.phoneNumber,
         createdBy: 'SELF_REGISTRATION',
@@ -158,6 +180,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<Registrat
       // Create user profile in Firestore using Firebase Auth UID
       const createdUser = await UserService.createUser(userData, 'SYSTEM', userId)
 
+      // Start the password history used to prevent reuse
+      await AccountSecurityService.recordPasswordChange(userId, requestData.institutionId, requestData.password)
+
       // Send email verification only if required
       const requireEmailVerification = process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION === 'true'
       if (requireEmailVerification) {
@@ -170,7 +195,7 @@ export async function POST(request: NextRequest): Promise<NextResponse<Registrat
         department: requestData.department,
         institutionId: requestData.institutionId,
         emailVerified: !requireEmailVerification,
-        isActive: !requireEmailVerification
+        isActive: false
       })
 
       // HIPAA-compliant audit logging
@@ -194,9 +219,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<Registrat
 
       return NextResponse.json({
         success: true,
-        message: requireEmailVerification 
-          ? 'Registration successful. Please check your email to verify your account.'
-          : 'Registration successful. You can now sign in to your account.',
+        message: requireEmailVerification
+          ? 'Registration received. Please verify your email; an administrator at your institution will review your account before you can sign in.'
+          : 'Registration received. An administrator at your institution will review your account before you can sign in.',
         userId: userId,
         emailVerificationSent: requireEmailVerification
       }, { status: 201 })
@@ -318,6 +343,10 @@ function validateRegistrationData(data: RegistrationRequest): string | null {
     return 'Missing required fields: role, institutionId'
   }
 
+  if (!SELF_REGISTRATION_ROLES.includes(data.role)) {
+    return 'Only residents and faculty can self-register; coordinator and administrator accounts are created by invitation'
+  }
+
   if (!data.acceptedTerms || !data.acceptedHIPAA) {
     return 'You must accept the terms of service and HIPAA agreement'
   }
@@ -329,22 +358,9 @@ function validateRegistrationData(data: RegistrationRequest): string | null {
   }
 
   // Healthcare institution email validation
-  const institutionalDomains = ['.edu', '.org', '.gov', '.mil']
-  const hasInstitutionalDomain = institutionalDomains.some(domain => 
-    data.email.toLowerCase().includes(domain)
-  )
-  
-  if (!hasInstitutionalDomain) {
-    return 'Please use your institutional email address (.edu, .org, .gov, or .mil)'
-  }
-
-  // Password strength validation
-  if (data.password.length < 8) {
-    return 'Password must be at least 8 characters long'
-  }
-
-  if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(data.password)) {
-    return 'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+  const institutionalEmailError = validateInstitutionalEmail(data.email)
+  if (institutionalEmailError) {
+    return institutionalEmailError
   }
 
   // Role-specific validation
@@ -0,0 +1,64 @@
+/**
+ * EMMA Healthcare Screen Lock API
+ *
+ * Records the dashboard locking itself after the institution's
+ * screenLockTimeout of inactivity, for the HIPAA audit trail.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { logAdminAction } from '@/lib/firebase-admin'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface ScreenLockResponse {
+  success: boolean
+  error?: string
+}
+
+/**
+ * POST /api/auth/screen-lock - Record that the screen was locked for inactivity
+ */
+export async function POST(): Promise<NextResponse<ScreenLockResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    await logAdminAction(
+      'SESSION_SCREEN_LOCKED',
+      session.user.id,
+      'USER_SESSION',
+      session.user.id,
+      {
+        institutionId: session.user.institutionId,
+        role: session.user.role,
+        screenLockMinutes: session.sessionPolicy?.screenLockMinutes
+      }
+    )
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('[EMMA] Screen lock audit failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to record screen lock'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
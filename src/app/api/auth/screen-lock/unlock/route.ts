@@ -0,0 +1,122 @@
+/**
+ * EMMA Healthcare Screen Unlock API
+ *
+ * Re-authenticates the signed-in user with their password to dismiss the
+ * inactivity screen lock. Wrong passwords count towards the account lockout.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { signInWithEmailAndPassword } from 'firebase/auth'
+import { auth } from '@/lib/firebase'
+import { logAdminAction } from '@/lib/firebase-admin'
+import { AccountSecurityService, UserService } from '@/lib/database'
+import { ACCOUNT_LOCKED_ERROR, CREDENTIAL_ERROR_CODES } from '@/lib/password-policy'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface ScreenUnlockResponse {
+  success: boolean
+  message?: string
+  locked?: boolean // Account locked - the client must sign out
+  error?: string
+}
+
+/**
+ * POST /api/auth/screen-lock/unlock - Dismiss the screen lock with the account password
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ScreenUnlockResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id || !session.user.email) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (typeof body?.password !== 'string' || !body.password) {
+      return NextResponse.json({
+        success: false,
+        error: 'Password is required'
+      }, { status: 400 })
+    }
+
+    if (await AccountSecurityService.getActiveLockout(session.user.email)) {
+      return NextResponse.json({
+        success: false,
+        locked: true,
+        error: ACCOUNT_LOCKED_ERROR
+      }, { status: 403 })
+    }
+
+    try {
+      await signInWithEmailAndPassword(auth, session.user.email, body.password)
+    } catch (signInError) {
+      const code = (signInError as { code?: string })?.code ?? ''
+      if (!CREDENTIAL_ERROR_CODES.includes(code)) {
+        throw signInError
+      }
+
+      const { locked, attempts } = await AccountSecurityService.recordFailedLogin(session.user.email)
+
+      await logAdminAction(
+        'SESSION_UNLOCK_FAILED',
+        session.user.id,
+        'USER_SESSION',
+        session.user.id,
+        {
+          institutionId: session.user.institutionId,
+          failedAttempts: attempts,
+          accountLocked: locked
+        }
+      )
+
+      return NextResponse.json({
+        success: false,
+        locked,
+        error: locked ? ACCOUNT_LOCKED_ERROR : 'Incorrect password'
+      }, { status: locked ? 403 : 400 })
+    }
+
+    const user = await UserService.getUserRecord(session.user.id)
+    if (user) {
+      await AccountSecurityService.recordSuccessfulLogin(user)
+    }
+
+    await logAdminAction(
+      'SESSION_SCREEN_UNLOCKED',
+      session.user.id,
+      'USER_SESSION',
+      session.user.id,
+      {
+        institutionId: session.user.institutionId,
+        role: session.user.role
+      }
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Screen unlocked'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Screen unlock failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to unlock screen'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,69 @@
+/**
+ * EMMA Healthcare Dashboard Summary API
+ *
+ * Headline metrics for the dashboard overview, scoped to the viewer's role.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { DashboardService } from '@/lib/database'
+import { DashboardSummary } from '@/lib/dashboard'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface DashboardSummaryResponse {
+  success: boolean
+  summary?: DashboardSummary
+  error?: string
+}
+
+/**
+ * GET /api/dashboard/summary - Resident, rotation and evaluation metrics
+ * Aggregate counts only, so it is not audited as PHI access
+ */
+export async function GET(): Promise<NextResponse<DashboardSummaryResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const summary = await DashboardService.getSummary(institutionId, {
+      id: session.user.id,
+      role: session.user.role
+    })
+
+    return NextResponse.json({
+      success: true,
+      summary
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Dashboard summary failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load dashboard summary'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
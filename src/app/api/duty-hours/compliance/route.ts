@@ -0,0 +1,108 @@
+/**
+ * EMMA Healthcare Duty Hours Compliance API
+ *
+ * Program-level ACGME duty-hour compliance report with per-resident
+ * violations from planned and logged hours.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { addDays, startOfDay } from 'date-fns'
+import { DutyHoursService } from '@/lib/database'
+import { DutyHoursComplianceReport } from '@/lib/duty-hours'
+import { Department } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+// Longest period a single report may cover
+const MAX_REPORT_DAYS = 366
+
+interface ComplianceReportResponse {
+  success: boolean
+  report?: DutyHoursComplianceReport
+  error?: string
+}
+
+/**
+ * GET /api/duty-hours/compliance - Generate the duty-hour compliance report
+ * Defaults to the previous 4 weeks plus the next 4 weeks of planned hours
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ComplianceReportResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const residentId = searchParams.get('residentId') || undefined
+    const department = searchParams.get('department') as Department | null
+    const today = startOfDay(new Date())
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : addDays(today, -28)
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : addDays(today, 27)
+
+    const canViewProgram = !!(session.user.permissions?.canViewAllResidents || session.user.permissions?.canAccessReports)
+    if (!canViewProgram && residentId !== session.user.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view duty-hour compliance'
+      }, { status: 403 })
+    }
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid reporting period'
+      }, { status: 400 })
+    }
+
+    if ((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) > MAX_REPORT_DAYS) {
+      return NextResponse.json({
+        success: false,
+        error: `Reporting period cannot exceed ${MAX_REPORT_DAYS} days`
+      }, { status: 400 })
+    }
+
+    const report = await DutyHoursService.getComplianceReport(institutionId, session.user.id, {
+      from,
+      to,
+      residentId,
+      department: department || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      report
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Duty hours compliance report failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate compliance report'
+    }, { status: 500 })
+  }
+}
+
+// Only allow GET requests
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,194 @@
+/**
+ * EMMA Healthcare Duty Hours API
+ *
+ * API endpoints for logging and listing actual worked shifts used for
+ * ACGME duty-hour tracking, with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { DutyHoursService, UserService } from '@/lib/database'
+import { DutyShiftRequest, validateDutyShiftData } from '@/lib/duty-hours-validation'
+import { DutyShift } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetDutyShiftsResponse {
+  success: boolean
+  shifts?: DutyShift[]
+  total?: number
+  error?: string
+}
+
+interface LogDutyShiftResponse {
+  success: boolean
+  message?: string
+  shift?: DutyShift
+  error?: string
+}
+
+/**
+ * GET /api/duty-hours - List logged shifts
+ * Residents see their own shifts; staff with resident access can query any resident
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetDutyShiftsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const canViewAll = !!session.user.permissions?.canViewAllResidents
+    const residentId = searchParams.get('residentId') || (canViewAll ? undefined : session.user.id)
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : undefined
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : undefined
+
+    if (residentId !== session.user.id && !canViewAll) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view duty hours'
+      }, { status: 403 })
+    }
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid from or to date'
+      }, { status: 400 })
+    }
+
+    const shifts = await DutyHoursService.getShifts(institutionId, session.user.id, {
+      residentId,
+      from,
+      to
+    })
+
+    return NextResponse.json({
+      success: true,
+      shifts,
+      total: shifts.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Duty shifts fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch duty shifts'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/duty-hours - Log an actual worked shift
+ * Residents log their own shifts; schedule editors can log on a resident's behalf
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<LogDutyShiftResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: DutyShiftRequest = await request.json()
+
+    const validationError = validateDutyShiftData(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const residentId = requestData.residentId || session.user.id
+
+    if (residentId !== session.user.id) {
+      if (!session.user.permissions?.canEditSchedules) {
+        return NextResponse.json({
+          success: false,
+          error: 'Insufficient permissions to log shifts for other residents'
+        }, { status: 403 })
+      }
+
+      const resident = await UserService.getUserRecord(residentId)
+      if (!resident || resident.institutionId !== institutionId || resident.role !== 'RESIDENT') {
+        return NextResponse.json({
+          success: false,
+          error: 'Resident not found'
+        }, { status: 404 })
+      }
+    } else if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Duty hours can only be logged for residents'
+      }, { status: 400 })
+    }
+
+    const shift = await DutyHoursService.logShift({
+      institutionId,
+      residentId,
+      rotationId: requestData.rotationId,
+      type: requestData.type,
+      startTime: Timestamp.fromDate(new Date(requestData.startTime)) as any,
+      endTime: Timestamp.fromDate(new Date(requestData.endTime)) as any,
+      notes: requestData.notes?.trim()
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Shift logged successfully',
+      shift
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Duty shift logging failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to log duty shift'
+    }, { status: 500 })
+  }
+}
+
+// Only allow GET and POST requests
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,154 @@
+/**
+ * EMMA Healthcare Evaluation Template Detail API
+ *
+ * API endpoints for reading and retiring a single evaluation template version.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { EvaluationTemplateService } from '@/lib/database'
+import { canManageEvaluationTemplates } from '@/lib/evaluation-templates'
+import { EvaluationTemplate } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface TemplateResponse {
+  success: boolean
+  message?: string
+  template?: EvaluationTemplate
+  error?: string
+}
+
+/**
+ * Load a template and make sure it belongs to the caller's institution
+ */
+async function getInstitutionTemplate(templateId: string, institutionId?: string): Promise<EvaluationTemplate | null> {
+  const template = await EvaluationTemplateService.getTemplateById(templateId)
+
+  if (!template || template.institutionId !== institutionId) {
+    return null
+  }
+
+  return template
+}
+
+/**
+ * GET /api/evaluation-templates/[id] - Fetch a template version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<TemplateResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllEvaluations && !session.user.permissions?.canCreateEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view evaluation templates'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const template = await getInstitutionTemplate(id, session.user.institutionId)
+
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      template
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation template fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evaluation template'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/evaluation-templates/[id] - Retire a template version (soft delete)
+ * Existing evaluations keep referencing the retired version
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<TemplateResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!canManageEvaluationTemplates(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to manage evaluation templates'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const template = await getInstitutionTemplate(id, session.user.institutionId)
+
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 })
+    }
+
+    if (template.status === 'RETIRED') {
+      return NextResponse.json({
+        success: false,
+        error: 'Template is already retired'
+      }, { status: 409 })
+    }
+
+    await EvaluationTemplateService.retireTemplate(id, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template retired successfully'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation template retire failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to retire evaluation template'
+    }, { status: 500 })
+  }
+}
+
+// Templates are immutable - publish a new version instead of editing
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,201 @@
+/**
+ * EMMA Healthcare Evaluation Templates API
+ *
+ * API endpoints for listing evaluation form templates and publishing new
+ * template versions with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { EvaluationTemplateService } from '@/lib/database'
+import { EVALUATION_TYPES } from '@/lib/evaluation-workflow'
+import {
+  canManageEvaluationTemplates,
+  EvaluationTemplateRequest,
+  toTemplateKey,
+  validateTemplateData
+} from '@/lib/evaluation-templates'
+import { Evaluation, EvaluationTemplate } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetTemplatesResponse {
+  success: boolean
+  templates?: EvaluationTemplate[]
+  total?: number
+  error?: string
+}
+
+interface CreateTemplateResponse {
+  success: boolean
+  message?: string
+  template?: EvaluationTemplate
+  error?: string
+}
+
+/**
+ * GET /api/evaluation-templates - List templates with optional type filter
+ * Retired versions are included with ?includeRetired=true
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetTemplatesResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllEvaluations && !session.user.permissions?.canCreateEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view evaluation templates'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type') as Evaluation['type'] | null
+
+    if (type && !EVALUATION_TYPES.includes(type)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid type. Expected one of: ${EVALUATION_TYPES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const templates = await EvaluationTemplateService.getTemplates(institutionId, {
+      evaluationType: type || undefined,
+      templateKey: searchParams.get('templateKey') || undefined,
+      includeRetired: searchParams.get('includeRetired') === 'true'
+    })
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      total: templates.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation templates fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evaluation templates'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/evaluation-templates - Create a template, or publish a new
+ * version of an existing template when templateKey is given
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<CreateTemplateResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!canManageEvaluationTemplates(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to manage evaluation templates'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: EvaluationTemplateRequest = await request.json()
+
+    const validationError = validateTemplateData(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const templateKey = requestData.templateKey || toTemplateKey(requestData.name)
+    if (!templateKey) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template name must contain letters or numbers'
+      }, { status: 400 })
+    }
+
+    const existingVersions = await EvaluationTemplateService.getTemplates(institutionId, {
+      templateKey,
+      includeRetired: true
+    })
+
+    if (requestData.templateKey && existingVersions.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 })
+    }
+
+    if (!requestData.templateKey && existingVersions.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: `A template named "${existingVersions[0].name}" already exists. Publish a new version instead.`
+      }, { status: 409 })
+    }
+
+    const template = await EvaluationTemplateService.createTemplateVersion(
+      institutionId,
+      { ...requestData, templateKey },
+      session.user.id
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: `Template version ${template.version} published`,
+      template
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation template creation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create evaluation template'
+    }, { status: 500 })
+  }
+}
+
+// Templates are immutable - publish a new version instead of editing
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
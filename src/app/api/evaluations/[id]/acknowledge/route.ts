@@ -0,0 +1,102 @@
+/**
+ * EMMA Healthcare Evaluation Acknowledgement API
+ *
+ * Lets a resident acknowledge a finalized evaluation and leave comments.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { EvaluationService } from '@/lib/database'
+import { EvaluationWithStatus, RESIDENT_VISIBLE_STATUSES, withOverdueStatus } from '@/lib/evaluation-workflow'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface AcknowledgeRequest {
+  comments?: string
+}
+
+interface AcknowledgeResponse {
+  success: boolean
+  message?: string
+  evaluation?: EvaluationWithStatus
+  error?: string
+}
+
+/**
+ * POST /api/evaluations/[id]/acknowledge - Acknowledge an evaluation as its resident
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<AcknowledgeResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evaluation = await EvaluationService.getEvaluationById(id)
+
+    if (
+      !evaluation ||
+      evaluation.institutionId !== session.user.institutionId ||
+      evaluation.evaluateeId !== session.user.id ||
+      !RESIDENT_VISIBLE_STATUSES.includes(evaluation.status)
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation not found'
+      }, { status: 404 })
+    }
+
+    if (evaluation.residentFeedback?.acknowledgedDate) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation has already been acknowledged'
+      }, { status: 409 })
+    }
+
+    const { comments = '' }: AcknowledgeRequest = await request.json()
+
+    if (typeof comments !== 'string' || comments.length > 5000) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comments must be 5000 characters or fewer'
+      }, { status: 400 })
+    }
+
+    const updatedEvaluation = await EvaluationService.acknowledgeEvaluation(id, session.user.id, comments.trim())
+
+    return NextResponse.json({
+      success: true,
+      message: 'Evaluation acknowledged',
+      evaluation: withOverdueStatus(updatedEvaluation)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation acknowledgement failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to acknowledge evaluation'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,213 @@
+/**
+ * EMMA Healthcare Evaluation Detail API
+ *
+ * API endpoints for reading a single evaluation and editing its content
+ * while it is still a draft, with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { EvaluationService, EvaluationTemplateService } from '@/lib/database'
+import {
+  canViewEvaluation,
+  EvaluationRequest,
+  EvaluationWithStatus,
+  validateEvaluationData,
+  withOverdueStatus
+} from '@/lib/evaluation-workflow'
+import { validateDraftRatings } from '@/lib/evaluation-templates'
+import { Evaluation } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface EvaluationResponse {
+  success: boolean
+  message?: string
+  evaluation?: EvaluationWithStatus
+  error?: string
+}
+
+/**
+ * GET /api/evaluations/[id] - Fetch an evaluation the caller may view
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EvaluationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evaluation = await EvaluationService.getEvaluationById(id)
+
+    // Out-of-institution and hidden evaluations are reported as missing
+    if (
+      !evaluation ||
+      evaluation.institutionId !== session.user.institutionId ||
+      !canViewEvaluation(evaluation, session.user)
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      evaluation: withOverdueStatus(evaluation)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evaluation'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/evaluations/[id] - Edit a draft evaluation's content
+ * Only the evaluator may edit, and only while the evaluation is a draft
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<EvaluationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evaluation = await EvaluationService.getEvaluationById(id)
+
+    if (!evaluation || evaluation.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation not found'
+      }, { status: 404 })
+    }
+
+    if (evaluation.evaluatorId !== session.user.id || !session.user.permissions?.canCreateEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only the evaluator can edit this evaluation'
+      }, { status: 403 })
+    }
+
+    if (evaluation.status !== 'DRAFT') {
+      return NextResponse.json({
+        success: false,
+        error: `Cannot edit an evaluation that is ${evaluation.status}`
+      }, { status: 409 })
+    }
+
+    const requestData: Partial<EvaluationRequest> = await request.json()
+
+    if (requestData.evaluateeId !== undefined || requestData.evaluatorId !== undefined) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation participants cannot be changed'
+      }, { status: 400 })
+    }
+
+    const validationError = validateEvaluationData(requestData, true)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    if (evaluation.templateId) {
+      if (requestData.type !== undefined && requestData.type !== evaluation.type) {
+        return NextResponse.json({
+          success: false,
+          error: 'The type of an evaluation created from a template cannot be changed'
+        }, { status: 400 })
+      }
+
+      const template = await EvaluationTemplateService.getTemplateById(evaluation.templateId)
+      const ratingsError = template && requestData.ratings ? validateDraftRatings(requestData.ratings, template) : null
+      if (ratingsError) {
+        return NextResponse.json({
+          success: false,
+          error: ratingsError
+        }, { status: 400 })
+      }
+    }
+
+    const updates: Partial<Evaluation> = {
+      type: requestData.type,
+      ratings: requestData.ratings,
+      overallRating: requestData.overallRating,
+      strengths: requestData.strengths,
+      areasForImprovement: requestData.areasForImprovement,
+      goals: requestData.goals,
+      summaryComments: requestData.summaryComments
+    }
+
+    if (requestData.evaluationPeriod) {
+      updates.evaluationPeriod = {
+        startDate: Timestamp.fromDate(new Date(requestData.evaluationPeriod.startDate)) as any,
+        endDate: Timestamp.fromDate(new Date(requestData.evaluationPeriod.endDate)) as any,
+        rotationName: requestData.evaluationPeriod.rotationName ?? evaluation.evaluationPeriod.rotationName
+      }
+    }
+
+    if (requestData.dueDate) {
+      updates.dueDate = Timestamp.fromDate(new Date(requestData.dueDate)) as any
+    }
+
+    const updatedEvaluation = await EvaluationService.updateEvaluation(id, updates, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Evaluation updated successfully',
+      evaluation: withOverdueStatus(updatedEvaluation)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update evaluation'
+    }, { status: 500 })
+  }
+}
+
+// Status changes go through /api/evaluations/[id]/transition; evaluations are archived, not deleted
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
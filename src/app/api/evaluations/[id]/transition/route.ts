@@ -0,0 +1,137 @@
+/**
+ * EMMA Healthcare Evaluation Workflow API
+ *
+ * Moves an evaluation through the submit, review, approve and archive
+ * workflow, enforcing who may take each step.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { EvaluationService, EvaluationTemplateService } from '@/lib/database'
+import {
+  checkEvaluationTransition,
+  EvaluationAction,
+  EvaluationWithStatus,
+  EVALUATION_ACTIONS,
+  validateEvaluationForSubmission,
+  withOverdueStatus
+} from '@/lib/evaluation-workflow'
+import { validateEvaluationAgainstTemplate } from '@/lib/evaluation-templates'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface TransitionRequest {
+  action: EvaluationAction
+}
+
+interface TransitionResponse {
+  success: boolean
+  message?: string
+  evaluation?: EvaluationWithStatus
+  error?: string
+}
+
+/**
+ * POST /api/evaluations/[id]/transition - Apply a workflow action
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<TransitionResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { action }: TransitionRequest = await request.json()
+
+    if (!action || !EVALUATION_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid action. Expected one of: ${EVALUATION_ACTIONS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const evaluation = await EvaluationService.getEvaluationById(id)
+
+    if (!evaluation || evaluation.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Evaluation not found'
+      }, { status: 404 })
+    }
+
+    const transitionError = checkEvaluationTransition(evaluation, action, session.user)
+    if (transitionError) {
+      return NextResponse.json({
+        success: false,
+        error: transitionError.error
+      }, { status: transitionError.status })
+    }
+
+    if (action === 'SUBMIT') {
+      // Templated evaluations are checked against the exact version they were created from
+      const template = evaluation.templateId
+        ? await EvaluationTemplateService.getTemplateById(evaluation.templateId)
+        : null
+
+      if (evaluation.templateId && !template) {
+        return NextResponse.json({
+          success: false,
+          error: 'Evaluation template not found'
+        }, { status: 409 })
+      }
+
+      const submissionError = template
+        ? validateEvaluationAgainstTemplate(evaluation, template)
+        : validateEvaluationForSubmission(evaluation)
+      if (submissionError) {
+        return NextResponse.json({
+          success: false,
+          error: submissionError
+        }, { status: 400 })
+      }
+    }
+
+    const transition = await EvaluationService.transitionEvaluation(evaluation, action, session.user.id)
+    if (!transition.evaluation) {
+      return NextResponse.json({
+        success: false,
+        error: transition.error
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Evaluation ${transition.evaluation.status.toLowerCase()}`,
+      evaluation: withOverdueStatus(transition.evaluation)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation status change failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update evaluation status'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,292 @@
+/**
+ * EMMA Healthcare Evaluations API
+ *
+ * API endpoints for listing and drafting resident evaluations with
+ * evaluation permission checks and HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { EvaluationService, EvaluationTemplateService, RotationService, UserService } from '@/lib/database'
+import {
+  EvaluationRequest,
+  EvaluationWithStatus,
+  EVALUATION_STATUSES,
+  EVALUATION_TYPES,
+  RESIDENT_VISIBLE_STATUSES,
+  validateEvaluationData,
+  withOverdueStatus
+} from '@/lib/evaluation-workflow'
+import { selectTemplate, validateDraftRatings } from '@/lib/evaluation-templates'
+import { Evaluation, EvaluationTemplate } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetEvaluationsResponse {
+  success: boolean
+  evaluations?: EvaluationWithStatus[]
+  total?: number
+  error?: string
+}
+
+interface CreateEvaluationResponse {
+  success: boolean
+  message?: string
+  evaluation?: EvaluationWithStatus
+  error?: string
+}
+
+/**
+ * GET /api/evaluations - List evaluations with optional filters
+ * Users without canViewAllEvaluations only see their own approved evaluations
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetEvaluationsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as Evaluation['status'] | null
+    const type = searchParams.get('type') as Evaluation['type'] | null
+    const overdueOnly = searchParams.get('overdue') === 'true'
+
+    if (status && !EVALUATION_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${EVALUATION_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (type && !EVALUATION_TYPES.includes(type)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid type. Expected one of: ${EVALUATION_TYPES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const canViewAll = !!session.user.permissions?.canViewAllEvaluations
+
+    if (!canViewAll && status && !RESIDENT_VISIBLE_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view evaluations in this status'
+      }, { status: 403 })
+    }
+
+    const evaluations = await EvaluationService.getEvaluations(institutionId, session.user.id, canViewAll
+      ? {
+          evaluateeId: searchParams.get('residentId') || undefined,
+          evaluatorId: searchParams.get('evaluatorId') || undefined,
+          status: status || undefined,
+          type: type || undefined
+        }
+      : {
+          evaluateeId: session.user.id,
+          status: status || undefined,
+          statuses: RESIDENT_VISIBLE_STATUSES,
+          type: type || undefined
+        })
+
+    const now = new Date()
+    const results = evaluations
+      .map(evaluation => withOverdueStatus(evaluation, now))
+      .filter(evaluation => !overdueOnly || evaluation.isOverdue)
+
+    return NextResponse.json({
+      success: true,
+      evaluations: results,
+      total: results.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluations fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evaluations'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/evaluations - Draft a new evaluation
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<CreateEvaluationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to create evaluations'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: EvaluationRequest = await request.json()
+
+    const validationError = validateEvaluationData(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    // Assigning an evaluation to another evaluator is a coordinator task
+    const evaluatorId = requestData.evaluatorId || session.user.id
+    if (evaluatorId !== session.user.id && !session.user.permissions?.canEditEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to assign evaluations to other evaluators'
+      }, { status: 403 })
+    }
+
+    const evaluatee = await UserService.getUserRecord(requestData.evaluateeId)
+    if (!evaluatee || evaluatee.institutionId !== institutionId || evaluatee.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    if (evaluatorId === requestData.evaluateeId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Residents cannot evaluate themselves'
+      }, { status: 400 })
+    }
+
+    let rotationName = requestData.evaluationPeriod.rotationName
+    if (requestData.rotationId) {
+      const rotation = await RotationService.getRotationById(requestData.rotationId)
+      if (!rotation || rotation.institutionId !== institutionId) {
+        return NextResponse.json({
+          success: false,
+          error: 'Rotation not found'
+        }, { status: 404 })
+      }
+      rotationName = rotation.name
+    }
+
+    // Evaluations are built from the requested template, or the active one for the type and department
+    let template: EvaluationTemplate | null
+    if (requestData.templateId) {
+      template = await EvaluationTemplateService.getTemplateById(requestData.templateId)
+      if (!template || template.institutionId !== institutionId) {
+        return NextResponse.json({
+          success: false,
+          error: 'Evaluation template not found'
+        }, { status: 404 })
+      }
+
+      if (template.status !== 'ACTIVE' || template.evaluationType !== requestData.type) {
+        return NextResponse.json({
+          success: false,
+          error: `Template must be an active ${requestData.type} template`
+        }, { status: 400 })
+      }
+    } else {
+      const templates = await EvaluationTemplateService.getTemplates(institutionId, { evaluationType: requestData.type })
+      template = selectTemplate(templates, requestData.type, evaluatee.department)
+    }
+
+    if (template && requestData.ratings) {
+      const ratingsError = validateDraftRatings(requestData.ratings, template)
+      if (ratingsError) {
+        return NextResponse.json({
+          success: false,
+          error: ratingsError
+        }, { status: 400 })
+      }
+    }
+
+    const periodEnd = new Date(requestData.evaluationPeriod.endDate)
+    const dueDate = requestData.dueDate
+      ? new Date(requestData.dueDate)
+      : await EvaluationService.getDefaultDueDate(institutionId, periodEnd)
+
+    const evaluation = await EvaluationService.createEvaluation({
+      institutionId,
+      type: requestData.type,
+      evaluateeId: requestData.evaluateeId,
+      evaluatorId,
+      rotationId: requestData.rotationId,
+      templateId: template?.id,
+      templateVersion: template?.version,
+      evaluationPeriod: {
+        startDate: Timestamp.fromDate(new Date(requestData.evaluationPeriod.startDate)) as any,
+        endDate: Timestamp.fromDate(periodEnd) as any,
+        rotationName
+      },
+      ratings: requestData.ratings || [],
+      overallRating: requestData.overallRating ?? 0,
+      strengths: requestData.strengths || [],
+      areasForImprovement: requestData.areasForImprovement || [],
+      goals: requestData.goals || [],
+      summaryComments: requestData.summaryComments || '',
+      status: 'DRAFT',
+      dueDate: Timestamp.fromDate(dueDate) as any
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Evaluation drafted successfully',
+      evaluation: withOverdueStatus(evaluation)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Evaluation creation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create evaluation'
+    }, { status: 500 })
+  }
+}
+
+// Only allow GET and POST requests
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
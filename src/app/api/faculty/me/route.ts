@@ -0,0 +1,73 @@
+/**
+ * EMMA Healthcare Faculty Portal API
+ *
+ * The residents the signed-in faculty member supervises or attends, and the
+ * evaluations they still owe. Always scoped to the signed-in user.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { FacultyPortalService } from '@/lib/database'
+import { FacultyPortal } from '@/lib/faculty-portal'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface FacultyPortalResponse {
+  success: boolean
+  portal?: FacultyPortal
+  error?: string
+}
+
+/**
+ * GET /api/faculty/me - Portal overview for the signed-in faculty member
+ */
+export async function GET(): Promise<NextResponse<FacultyPortalResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'FACULTY') {
+      return NextResponse.json({
+        success: false,
+        error: 'The faculty portal is only available to faculty'
+      }, { status: 403 })
+    }
+
+    const portal = await FacultyPortalService.getPortal(institutionId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      portal
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Faculty portal fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load faculty portal'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
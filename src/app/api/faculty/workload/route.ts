@@ -0,0 +1,73 @@
+/**
+ * EMMA Healthcare Faculty Workload API
+ *
+ * Open evaluations per evaluator, so coordinators can spread evaluation
+ * work across the faculty.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { FacultyPortalService } from '@/lib/database'
+import { FacultyWorkloadEntry, canViewFacultyWorkload } from '@/lib/faculty-portal'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface FacultyWorkloadResponse {
+  success: boolean
+  workload?: FacultyWorkloadEntry[]
+  error?: string
+}
+
+/**
+ * GET /api/faculty/workload - Open, overdue and in-review evaluation counts per evaluator
+ */
+export async function GET(): Promise<NextResponse<FacultyWorkloadResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (!canViewFacultyWorkload(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view faculty workload'
+      }, { status: 403 })
+    }
+
+    const workload = await FacultyPortalService.getWorkload(institutionId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      workload
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Faculty workload failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load faculty workload'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
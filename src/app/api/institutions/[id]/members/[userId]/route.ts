@@ -0,0 +1,84 @@
+/**
+ * EMMA Healthcare Institution Member API
+ *
+ * Removes a user's access to an institution other than their own. Sessions
+ * switched into it end on their next revalidation.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { InstitutionService, UserService } from '@/lib/database'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string; userId: string }>
+}
+
+interface RemoveMemberResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * DELETE /api/institutions/[id]/members/[userId] - Remove a user's access to the institution
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<RemoveMemberResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.isSuperAdmin) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only super admins can manage institution access'
+      }, { status: 403 })
+    }
+
+    const { id, userId } = await params
+    const user = await UserService.getUserRecord(userId)
+
+    if (!user || !user.institutionMemberships?.some(entry => entry.institutionId === id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const updatedUser = await InstitutionService.removeInstitutionMember(user, id, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: `${user.firstName} ${user.lastName} no longer has access to this institution`,
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Institution member removal failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove institution member'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
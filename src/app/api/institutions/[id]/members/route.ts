@@ -0,0 +1,165 @@
+/**
+ * EMMA Healthcare Institution Members API
+ *
+ * Users from other institutions given a role in this one, so they can switch
+ * into it. Managed by super admins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { InstitutionService, UserService } from '@/lib/database'
+import { validateMembership } from '@/lib/institutions'
+import { ExtendedUser } from '@/types/database'
+import { Department, UserRole } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface InstitutionMembersResponse {
+  success: boolean
+  message?: string
+  members?: ExtendedUser[]
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * GET /api/institutions/[id]/members - Fetch users with access to the institution through a membership
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<InstitutionMembersResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.isSuperAdmin) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only super admins can manage institution access'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    if (!await InstitutionService.getInstitutionRecord(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      members: await InstitutionService.getInstitutionMembers(id)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Institution members fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve institution members'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/institutions/[id]/members - Give a user from another institution
+ * a role in this one ({ email, role, department })
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<InstitutionMembersResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.isSuperAdmin) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only super admins can manage institution access'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (typeof body?.email !== 'string' || !body.email.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email is required'
+      }, { status: 400 })
+    }
+
+    const validationError = validateMembership(body)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+
+    const institution = await InstitutionService.getInstitutionRecord(id)
+    if (!institution || institution.status !== 'ACTIVE') {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution not found'
+      }, { status: 404 })
+    }
+
+    const user = await UserService.getUserRecordByEmail(body.email.trim().toLowerCase())
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (user.institutionId === id) {
+      return NextResponse.json({
+        success: false,
+        error: 'User already belongs to this institution'
+      }, { status: 409 })
+    }
+
+    const updatedUser = await InstitutionService.addInstitutionMember(user, {
+      institutionId: id,
+      role: body.role as UserRole,
+      department: body.department as Department | undefined
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: `${user.firstName} ${user.lastName} can now switch into ${institution.name}`,
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Institution member update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update institution member'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * EMMA Healthcare Institution Directory API
+ *
+ * Public list of active institutions for the registration form. Only names
+ * and locations are returned.
+ */
+
+import { NextResponse } from 'next/server'
+import { InstitutionService } from '@/lib/database'
+import { InstitutionSummary } from '@/lib/institutions'
+
+interface InstitutionDirectoryResponse {
+  success: boolean
+  institutions?: Pick<InstitutionSummary, 'id' | 'name' | 'city' | 'state'>[]
+  error?: string
+}
+
+/**
+ * GET /api/institutions/directory - Fetch the institutions open to registration
+ */
+export async function GET(): Promise<NextResponse<InstitutionDirectoryResponse>> {
+  try {
+    const institutions = await InstitutionService.listInstitutions('ACTIVE')
+
+    return NextResponse.json({
+      success: true,
+      institutions: institutions.map(({ id, name, city, state }) => ({ id, name, city, state }))
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Institution directory fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve institutions'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
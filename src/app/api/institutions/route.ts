@@ -0,0 +1,183 @@
+/**
+ * EMMA Healthcare Institutions API
+ *
+ * The institutions a user can switch between, and the platform-wide list
+ * and onboarding of new institutions for super admins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { InstitutionService, UserService } from '@/lib/database'
+import {
+  InstitutionOnboardingRequest,
+  InstitutionOnboardingResult,
+  InstitutionSummary,
+  getAccessibleInstitutionIds,
+  toInstitutionId,
+  validateInstitutionOnboarding
+} from '@/lib/institutions'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetInstitutionsResponse {
+  success: boolean
+  institutions?: InstitutionSummary[]
+  activeInstitutionId?: string
+  error?: string
+}
+
+interface OnboardInstitutionResponse {
+  success: boolean
+  message?: string
+  result?: InstitutionOnboardingResult
+  error?: string
+}
+
+/**
+ * GET /api/institutions - Fetch the institutions the user can switch into,
+ * or every institution with ?scope=all (super admins only)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetInstitutionsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope') || 'accessible'
+
+    if (scope !== 'accessible' && scope !== 'all') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid scope. Expected one of: accessible, all'
+      }, { status: 400 })
+    }
+
+    if (scope === 'all') {
+      if (!session.user.isSuperAdmin) {
+        return NextResponse.json({
+          success: false,
+          error: 'Only super admins can list every institution'
+        }, { status: 403 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        institutions: await InstitutionService.listInstitutions(),
+        activeInstitutionId: session.user.institutionId
+      })
+    }
+
+    // Memberships come from the current record, not the session
+    const user = await UserService.getUserRecord(session.user.id)
+    if (!user) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      institutions: await InstitutionService.getInstitutionSummaries(getAccessibleInstitutionIds(user)),
+      activeInstitutionId: session.user.institutionId
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Institutions fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve institutions'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/institutions - Onboard an institution with its system settings
+ * and first administrator (super admins only)
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<OnboardInstitutionResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.isSuperAdmin) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only super admins can onboard institutions'
+      }, { status: 403 })
+    }
+
+    const body = await request.json() as Partial<InstitutionOnboardingRequest>
+
+    const validationError = validateInstitutionOnboarding(body ?? {})
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const onboardingRequest = body as InstitutionOnboardingRequest
+    const institutionId = toInstitutionId(onboardingRequest.name)
+
+    if (await InstitutionService.getInstitutionRecord(institutionId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'An institution with this name already exists'
+      }, { status: 409 })
+    }
+
+    if (await UserService.getUserRecordByEmail(onboardingRequest.admin.email.trim().toLowerCase())) {
+      return NextResponse.json({
+        success: false,
+        error: 'A user with the administrator email address already exists'
+      }, { status: 409 })
+    }
+
+    const result = await InstitutionService.onboardInstitution(onboardingRequest, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: result.invitationSent
+        ? `${result.institution.name} onboarded. The administrator was emailed a link to set their password.`
+        : `${result.institution.name} onboarded, but the administrator invitation could not be sent`,
+      result
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Institution onboarding failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to onboard institution'
+    }, { status: 500 })
+  }
+}
+
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
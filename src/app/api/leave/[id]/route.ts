@@ -0,0 +1,126 @@
+/**
+ * EMMA Healthcare Leave Decision API
+ *
+ * Coordinators approve or deny pending leave - approval publishes a
+ * VACATION schedule entry - and residents or coordinators cancel it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LeaveService } from '@/lib/database'
+import { LEAVE_ACTIONS, LeaveAction, canDecideLeave, checkLeaveAction } from '@/lib/leave'
+import { LeaveRequest } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface LeaveActionRequest {
+  action: LeaveAction
+  comments?: string
+}
+
+interface LeaveActionResponse {
+  success: boolean
+  message?: string
+  request?: LeaveRequest
+  error?: string
+}
+
+const ACTION_MESSAGES: Record<LeaveAction, string> = {
+  APPROVE: 'Leave approved and added to the schedule',
+  DENY: 'Leave denied',
+  CANCEL: 'Leave cancelled'
+}
+
+/**
+ * PATCH /api/leave/[id] - Approve, deny or cancel a leave request
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<LeaveActionResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { action, comments }: LeaveActionRequest = await request.json()
+
+    if (!action || !LEAVE_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid action. Expected one of: ${LEAVE_ACTIONS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (comments !== undefined && (typeof comments !== 'string' || comments.length > 1000)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comments must be 1000 characters or fewer'
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const leaveRequest = await LeaveService.getRequestById(id)
+
+    // Other residents' leave is reported as missing rather than forbidden
+    if (
+      !leaveRequest ||
+      leaveRequest.institutionId !== session.user.institutionId ||
+      (leaveRequest.residentId !== session.user.id && !canDecideLeave(session.user))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Leave request not found'
+      }, { status: 404 })
+    }
+
+    const actionError = checkLeaveAction(leaveRequest, action, session.user)
+    if (actionError) {
+      return NextResponse.json({
+        success: false,
+        error: actionError.error
+      }, { status: actionError.status })
+    }
+
+    // The request's status - and for approval the balance and staffing - are
+    // checked again when the decision is written
+    const updated = await LeaveService.applyAction(leaveRequest, action, session.user.id, comments)
+    if (updated.error) {
+      return NextResponse.json({
+        success: false,
+        error: updated.error
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: ACTION_MESSAGES[action],
+      request: updated.request
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Leave request update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update leave request'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
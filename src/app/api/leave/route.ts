@@ -0,0 +1,173 @@
+/**
+ * EMMA Healthcare Leave API
+ *
+ * Residents request vacation, sick, parental and conference leave; requests
+ * are checked against their balance, rotation minimum staffing and board
+ * eligibility, then wait in the program coordinator's approval queue.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LeaveService, UserService } from '@/lib/database'
+import { LEAVE_STATUSES, LeaveRequestInput, canDecideLeave, validateLeaveRequest } from '@/lib/leave'
+import { LeaveRequest } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface CreateLeaveRequest extends LeaveRequestInput {
+  residentId?: string // Coordinators entering leave on a resident's behalf
+}
+
+interface LeaveResponse {
+  success: boolean
+  message?: string
+  requests?: LeaveRequest[]
+  request?: LeaveRequest
+  error?: string
+}
+
+/**
+ * GET /api/leave - List leave requests: the coordinator queue, or the caller's own
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<LeaveResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as LeaveRequest['status'] | null
+    const residentId = searchParams.get('residentId')
+
+    if (status && !LEAVE_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${LEAVE_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    // Only coordinators see other residents' leave
+    const isApprover = canDecideLeave(session.user)
+    if (residentId && residentId !== session.user.id && !isApprover) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view leave requests'
+      }, { status: 403 })
+    }
+
+    const requests = await LeaveService.getRequests(institutionId, session.user.id, {
+      residentId: isApprover ? residentId || undefined : session.user.id,
+      status: status || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      requests
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Leave request fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve leave requests'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/leave - Request leave for the signed-in resident, or for a resident as a coordinator
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<LeaveResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: CreateLeaveRequest = await request.json()
+    const residentId = requestData.residentId || session.user.id
+
+    if (residentId === session.user.id ? session.user.role !== 'RESIDENT' : !canDecideLeave(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only residents can request leave, or coordinators on their behalf'
+      }, { status: 403 })
+    }
+
+    const validationError = validateLeaveRequest(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const resident = await UserService.getUserById(residentId, session.user.id)
+    if (!resident || resident.role !== 'RESIDENT' || resident.institutionId !== institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    const input: LeaveRequestInput = {
+      type: requestData.type,
+      startDate: requestData.startDate,
+      endDate: requestData.endDate,
+      reason: requestData.reason
+    }
+
+    const assessment = await LeaveService.assessRequest(institutionId, residentId, input)
+    if (assessment.error) {
+      return NextResponse.json({
+        success: false,
+        error: assessment.error
+      }, { status: 409 })
+    }
+
+    const leaveRequest = await LeaveService.createRequest(resident, input, assessment.warnings, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: assessment.warnings.length > 0
+        ? 'Leave requested - the coordinator will review the flagged issues'
+        : 'Leave requested',
+      request: leaveRequest
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Leave request creation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create leave request'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * EMMA Healthcare Leave Summary API
+ *
+ * A resident's leave balances for the current academic year, and the
+ * cumulative leave that counts toward board eligibility with any resulting
+ * training extension.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { LeaveService } from '@/lib/database'
+import { ResidentLeaveSummary, canDecideLeave } from '@/lib/leave'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface LeaveSummaryResponse {
+  success: boolean
+  summary?: ResidentLeaveSummary
+  error?: string
+}
+
+/**
+ * GET /api/leave/summary - Balances and training extension for the caller, or ?residentId= for coordinators
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<LeaveSummaryResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const residentId = searchParams.get('residentId') || session.user.id
+
+    if (residentId === session.user.id ? session.user.role !== 'RESIDENT' : !canDecideLeave(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view leave balances'
+      }, { status: 403 })
+    }
+
+    const summary = await LeaveService.getSummary(institutionId, residentId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      summary
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Leave summary failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load leave summary'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,98 @@
+/**
+ * EMMA Healthcare Clinical Competency Committee Report API
+ *
+ * Semi-annual milestone report for the CCC with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MilestoneService } from '@/lib/database'
+import { getAcademicYear } from '@/lib/date-utils'
+import { CccHalf, CccReport, getCccPeriod } from '@/lib/milestones'
+import { Department } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface CccReportResponse {
+  success: boolean
+  report?: CccReport
+  error?: string
+}
+
+/**
+ * GET /api/milestones/ccc-report - Milestone trajectories for ?academicYear
+ * and ?half (MID or END), defaulting to the current review period
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<CccReportResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canAccessReports || !session.user.permissions?.canViewAllEvaluations) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view the CCC report'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const now = new Date()
+    const academicYear = searchParams.get('academicYear') || getAcademicYear(now)
+    const half = (searchParams.get('half') || (now.getMonth() >= 6 ? 'MID' : 'END')) as CccHalf
+
+    if (half !== 'MID' && half !== 'END') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid half. Expected one of: MID, END'
+      }, { status: 400 })
+    }
+
+    if (!getCccPeriod(academicYear, half)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid academic year. Expected format: 2025-2026'
+      }, { status: 400 })
+    }
+
+    const report = await MilestoneService.getCccReport(institutionId, session.user.id, {
+      academicYear,
+      half,
+      department: (searchParams.get('department') as Department | null) || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      report
+    })
+
+  } catch (error) {
+    console.error('[EMMA] CCC report failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate CCC report'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,166 @@
+/**
+ * EMMA Healthcare Milestones API
+ *
+ * API endpoints for reading and customising a department's ACGME milestone
+ * set with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MilestoneService } from '@/lib/database'
+import { canManageEvaluationTemplates } from '@/lib/evaluation-templates'
+import { validateMilestoneSet } from '@/lib/milestones'
+import { MilestoneSet, MilestoneSubCompetency } from '@/types/database'
+import { Department } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface MilestoneSetResponse {
+  success: boolean
+  message?: string
+  milestoneSet?: MilestoneSet
+  error?: string
+}
+
+interface SaveMilestoneSetRequest {
+  department: Department
+  name: string
+  subCompetencies: MilestoneSubCompetency[]
+}
+
+// Department values are used in milestone set document IDs
+const isDepartmentValue = (value: string): boolean => /^[A-Z_]+$/.test(value)
+
+/**
+ * GET /api/milestones - Get the milestone set for ?department, defaulting to
+ * the user's own department
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<MilestoneSetResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const department = (searchParams.get('department') || session.user.department) as Department | undefined
+
+    if (!department || !isDepartmentValue(department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'A valid department is required'
+      }, { status: 400 })
+    }
+
+    const milestoneSet = await MilestoneService.getMilestoneSet(institutionId, department)
+
+    return NextResponse.json({
+      success: true,
+      milestoneSet
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Milestone set fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch milestone set'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/milestones - Replace a department's milestone set with a custom one
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<MilestoneSetResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!canManageEvaluationTemplates(session.user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to manage milestones'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: SaveMilestoneSetRequest = await request.json()
+
+    if (!requestData.department || !isDepartmentValue(requestData.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'A valid department is required'
+      }, { status: 400 })
+    }
+
+    const validationError = validateMilestoneSet(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const milestoneSet = await MilestoneService.saveMilestoneSet(
+      institutionId,
+      requestData.department,
+      { name: requestData.name, subCompetencies: requestData.subCompetencies },
+      session.user.id
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Milestone set saved',
+      milestoneSet
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Milestone set save failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save milestone set'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
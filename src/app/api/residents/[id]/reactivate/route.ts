@@ -0,0 +1,100 @@
+/**
+ * EMMA Healthcare Resident Reactivation API
+ *
+ * Restores a deactivated resident physician's access: re-enables the
+ * Firebase Auth account and sets the profile back to active.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { hasAnyPermissionScope, hasPermission } from '@/lib/permissions'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ReactivateResidentResponse {
+  success: boolean
+  message?: string
+  resident?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/residents/[id]/reactivate - Reactivate a deactivated resident physician
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ReactivateResidentResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canEditResidents')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to reactivate residents'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const resident = await UserService.getUserRecord(id)
+
+    if (!resident || resident.role !== 'RESIDENT' || resident.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    if (!hasPermission(session.user, 'canEditResidents', resident.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to reactivate residents'
+      }, { status: 403 })
+    }
+
+    if (resident.status !== 'INACTIVE') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only deactivated residents can be reactivated'
+      }, { status: 409 })
+    }
+
+    const reactivatedResident = await UserService.reactivateResidentPhysician(resident, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resident reactivated successfully',
+      resident: reactivatedResident
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident reactivation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reactivate resident'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,301 @@
+/**
+ * EMMA Healthcare Resident Detail API
+ *
+ * API endpoints for reading, updating and deactivating a single resident
+ * physician, with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { ResidentRequest, validateResidentData } from '@/lib/resident-validation'
+import { hasAnyPermissionScope, hasPermission } from '@/lib/permissions'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface DeactivateResidentRequest {
+  reason?: string
+}
+
+interface ResidentResponse {
+  success: boolean
+  message?: string
+  resident?: ExtendedUser
+  error?: string
+}
+
+/**
+ * Load a resident physician and make sure they belong to the caller's institution
+ */
+async function getInstitutionResident(residentId: string, institutionId?: string): Promise<ExtendedUser | null> {
+  const resident = await UserService.getUserRecord(residentId)
+
+  if (!resident || resident.role !== 'RESIDENT' || resident.institutionId !== institutionId) {
+    return null
+  }
+
+  return resident
+}
+
+/**
+ * GET /api/residents/[id] - Fetch a resident physician
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ResidentResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canViewAllResidents')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view resident data'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const resident = await getInstitutionResident(id, session.user.institutionId)
+
+    if (!resident) {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    // Department-scoped grants only cover residents in those departments
+    if (!hasPermission(session.user, 'canViewAllResidents', resident.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view resident data'
+      }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      resident
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch resident'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/residents/[id] - Update resident physician details
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ResidentResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canEditResidents')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit residents'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const resident = await getInstitutionResident(id, session.user.institutionId)
+
+    if (!resident) {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    if (!hasPermission(session.user, 'canEditResidents', resident.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit residents'
+      }, { status: 403 })
+    }
+
+    const requestData: Partial<ResidentRequest> = await request.json()
+
+    const validationError = validateResidentData(requestData, true)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    if (requestData.department && !hasPermission(session.user, 'canEditResidents', requestData.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to move residents to this department'
+      }, { status: 403 })
+    }
+
+    // The email address is the sign-in identity and is not editable here
+    if (requestData.email !== undefined && requestData.email.toLowerCase() !== resident.email.toLowerCase()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email address cannot be changed'
+      }, { status: 400 })
+    }
+
+    const updates: Partial<ExtendedUser> = {
+      firstName: requestData.firstName?.trim(),
+      lastName: requestData.lastName?.trim(),
+      pgyLevel: requestData.pgyLevel,
+      department: requestData.department,
+      medicalLicenseNumber: requestData.medicalLicenseNumber,
+      supervisingFacultyId: requestData.supervisingFacultyId,
+      phoneNumber: requestData.phoneNumber,
+      profile: requestData.profile ? { ...resident.profile, ...requestData.profile } : undefined,
+      education: requestData.education ? { ...resident.education, ...requestData.education } : undefined
+    }
+
+    // Only send the fields present in the request
+    Object.keys(updates).forEach(key => {
+      if (updates[key as keyof ExtendedUser] === undefined) {
+        delete updates[key as keyof ExtendedUser]
+      }
+    })
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No updatable fields provided'
+      }, { status: 400 })
+    }
+
+    const updatedResident = await UserService.updateResidentPhysician(resident, updates, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resident updated successfully',
+      resident: updatedResident
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update resident'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/residents/[id] - Deactivate a resident physician (soft delete)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ResidentResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canEditResidents')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to deactivate residents'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const resident = await getInstitutionResident(id, session.user.institutionId)
+
+    if (!resident) {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident not found'
+      }, { status: 404 })
+    }
+
+    if (!hasPermission(session.user, 'canEditResidents', resident.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to deactivate residents'
+      }, { status: 403 })
+    }
+
+    if (!resident.isActive && resident.status === 'INACTIVE') {
+      return NextResponse.json({
+        success: false,
+        error: 'Resident is already deactivated'
+      }, { status: 409 })
+    }
+
+    // The reason is optional, so the body may be empty
+    const { reason }: DeactivateResidentRequest = await request.json().catch(() => ({}))
+
+    if (reason !== undefined && (typeof reason !== 'string' || reason.length > 500)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Reason must be 500 characters or fewer'
+      }, { status: 400 })
+    }
+
+    await UserService.deactivateResidentPhysician(resident, session.user.id, reason?.trim() || undefined)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Resident deactivated successfully'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident deactivation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to deactivate resident'
+    }, { status: 500 })
+  }
+}
+
+// Residents are updated with PATCH
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
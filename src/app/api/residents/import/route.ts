@@ -0,0 +1,148 @@
+/**
+ * EMMA Healthcare Resident Import API
+ *
+ * Bulk resident onboarding from CSV: template download, dry-run validation
+ * and batched creation with sign-in accounts and invitation emails.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { buildResidentImportTemplate, parseResidentImport, ResidentImportResult } from '@/lib/resident-import'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+// Upper bound on the uploaded CSV text
+const MAX_IMPORT_FILE_LENGTH = 1024 * 1024
+
+interface ImportResidentsRequest {
+  csv: string
+  dryRun?: boolean // Defaults to true - the file is only imported when explicitly requested
+}
+
+interface ImportResidentsResponse {
+  success: boolean
+  message?: string
+  result?: ResidentImportResult
+  error?: string
+}
+
+/**
+ * GET /api/residents/import - Download the CSV import template
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateUsers) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to import residents'
+      }, { status: 403 })
+    }
+
+    return new NextResponse(buildResidentImportTemplate(), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': 'attachment; filename="resident-import-template.csv"'
+      }
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident import template download failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to download import template'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/residents/import - Validate (dry run) or import residents from CSV
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ImportResidentsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateUsers) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to import residents'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { csv, dryRun = true }: ImportResidentsRequest = await request.json()
+
+    if (typeof csv !== 'string' || csv.trim() === '') {
+      return NextResponse.json({
+        success: false,
+        error: 'CSV content is required'
+      }, { status: 400 })
+    }
+
+    if (csv.length > MAX_IMPORT_FILE_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: 'CSV file must be 1 MB or smaller'
+      }, { status: 400 })
+    }
+
+    // Also rejects files with more than RESIDENT_IMPORT_MAX_ROWS (500) resident rows
+    const parsed = parseResidentImport(csv)
+    if (parsed.error) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 })
+    }
+
+    if (!dryRun && !parsed.rows.some(row => row.request)) {
+      return NextResponse.json({
+        success: false,
+        error: 'The file has no valid resident rows to import'
+      }, { status: 400 })
+    }
+
+    const result = await UserService.importResidentPhysicians(parsed.rows, institutionId, session.user.id, !!dryRun)
+
+    return NextResponse.json({
+      success: true,
+      message: dryRun
+        ? `${result.validRows} of ${result.totalRows} rows are ready to import`
+        : `Imported ${result.created} of ${result.totalRows} residents`,
+      result
+    }, { status: dryRun ? 200 : 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Resident import failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import residents'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * EMMA Healthcare Resident Profile API
+ *
+ * Lets a resident change the profile fields they own - preferred name,
+ * phone number and emergency contact - on their own record only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ResidentPortalService } from '@/lib/database'
+import {
+  ResidentPortalProfile,
+  ResidentProfileUpdate,
+  validateResidentProfileUpdate
+} from '@/lib/resident-portal'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface ResidentProfileResponse {
+  success: boolean
+  message?: string
+  profile?: ResidentPortalProfile
+  error?: string
+}
+
+/**
+ * PATCH /api/residents/me/profile - Update the signed-in resident's editable profile fields
+ */
+export async function PATCH(request: NextRequest): Promise<NextResponse<ResidentProfileResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'The resident portal is only available to residents'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Request body must be an object'
+      }, { status: 400 })
+    }
+
+    const validationError = validateResidentProfileUpdate(body)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const profile = await ResidentPortalService.updateOwnProfile(
+      session.user.id,
+      institutionId,
+      body as ResidentProfileUpdate
+    )
+
+    return NextResponse.json({
+      success: true,
+      message: 'Profile updated',
+      profile
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident profile update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update profile'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,169 @@
+/**
+ * EMMA Healthcare Rotation Preferences API
+ *
+ * Lets a resident rank the rotations open to them for the current or next
+ * academic year. The schedule solver reads these rankings when it builds a
+ * rotation schedule.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ResidentPortalService } from '@/lib/database'
+import {
+  ResidentRotationPreferences,
+  getPreferenceAcademicYears,
+  validateRotationRankings
+} from '@/lib/resident-portal'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface SaveRotationPreferencesRequest {
+  academicYear: string
+  rankings: string[] // Rotation IDs, most preferred first
+}
+
+interface RotationPreferencesResponse {
+  success: boolean
+  message?: string
+  preferences?: ResidentRotationPreferences
+  academicYears?: string[]
+  error?: string
+}
+
+/**
+ * GET /api/residents/me/rotation-preferences - The signed-in resident's
+ * rankings for an academic year (defaults to next year)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<RotationPreferencesResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'The resident portal is only available to residents'
+      }, { status: 403 })
+    }
+
+    const academicYears = getPreferenceAcademicYears()
+    const { searchParams } = new URL(request.url)
+    const academicYear = searchParams.get('academicYear') || academicYears[1]
+
+    if (!academicYears.includes(academicYear)) {
+      return NextResponse.json({
+        success: false,
+        error: `Rotations can only be ranked for ${academicYears.join(' or ')}`
+      }, { status: 400 })
+    }
+
+    const preferences = await ResidentPortalService.getRotationPreferences(institutionId, session.user.id, academicYear)
+
+    return NextResponse.json({
+      success: true,
+      preferences,
+      academicYears
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation preference fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve rotation preferences'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/residents/me/rotation-preferences - Replace the signed-in
+ * resident's rankings for an academic year
+ */
+export async function PUT(request: NextRequest): Promise<NextResponse<RotationPreferencesResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'The resident portal is only available to residents'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Request body must be an object'
+      }, { status: 400 })
+    }
+
+    const { academicYear, rankings } = body as SaveRotationPreferencesRequest
+    const academicYears = getPreferenceAcademicYears()
+
+    if (!academicYears.includes(academicYear)) {
+      return NextResponse.json({
+        success: false,
+        error: `Rotations can only be ranked for ${academicYears.join(' or ')}`
+      }, { status: 400 })
+    }
+
+    const current = await ResidentPortalService.getRotationPreferences(institutionId, session.user.id, academicYear)
+    const validationError = validateRotationRankings(rankings, current.rotations.map(rotation => rotation.id))
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    await ResidentPortalService.saveRotationPreferences(institutionId, session.user.id, academicYear, rankings)
+    const preferences = await ResidentPortalService.getRotationPreferences(institutionId, session.user.id, academicYear)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rotation preferences saved',
+      preferences,
+      academicYears
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation preference save failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save rotation preferences'
+    }, { status: 500 })
+  }
+}
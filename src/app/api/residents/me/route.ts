@@ -0,0 +1,73 @@
+/**
+ * EMMA Healthcare Resident Portal API
+ *
+ * A resident's own rotation, upcoming assignments and milestone progress.
+ * Always scoped to the signed-in resident - there is no resident ID to pass.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ResidentPortalService } from '@/lib/database'
+import { ResidentPortal } from '@/lib/resident-portal'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface ResidentPortalResponse {
+  success: boolean
+  portal?: ResidentPortal
+  error?: string
+}
+
+/**
+ * GET /api/residents/me - Portal overview for the signed-in resident
+ */
+export async function GET(): Promise<NextResponse<ResidentPortalResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'The resident portal is only available to residents'
+      }, { status: 403 })
+    }
+
+    const portal = await ResidentPortalService.getPortal(institutionId, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      portal
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Resident portal fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load resident portal'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
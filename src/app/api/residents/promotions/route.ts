@@ -0,0 +1,187 @@
+/**
+ * EMMA Healthcare Resident Promotion API
+ *
+ * Year-end academic rollover: the proposed promotion plan and applying the
+ * coordinator's decisions (promote, graduate or hold) in one transaction.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { PromotionService } from '@/lib/database'
+import { getAcademicYear, getAcademicYearRange } from '@/lib/date-utils'
+import {
+  PromotionAction,
+  PromotionDecision,
+  PromotionPlan,
+  PromotionResult,
+  PROMOTION_MAX_RESIDENTS,
+  resolvePromotionDecisions
+} from '@/lib/promotion'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+const PROMOTION_ACTIONS: PromotionAction[] = ['PROMOTE', 'GRADUATE', 'HOLD']
+
+interface ApplyPromotionsRequest {
+  academicYear: string
+  decisions?: PromotionDecision[]
+}
+
+interface PromotionPlanResponse {
+  success: boolean
+  plan?: PromotionPlan
+  error?: string
+}
+
+interface ApplyPromotionsResponse {
+  success: boolean
+  message?: string
+  result?: PromotionResult
+  error?: string
+}
+
+/**
+ * GET /api/residents/promotions - Proposed year-end promotion plan
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<PromotionPlanResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditResidents) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to manage promotions'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const academicYear = request.nextUrl.searchParams.get('academicYear') || getAcademicYear()
+    if (!getAcademicYearRange(academicYear)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Academic year must be formatted as YYYY-YYYY'
+      }, { status: 400 })
+    }
+
+    const plan = await PromotionService.getPromotionPlan(institutionId, session.user.id, academicYear)
+
+    return NextResponse.json({
+      success: true,
+      plan
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Promotion plan fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build promotion plan'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/residents/promotions - Apply year-end promotion decisions
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ApplyPromotionsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditResidents) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to manage promotions'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { academicYear, decisions = [] }: ApplyPromotionsRequest = await request.json()
+
+    if (!academicYear || !getAcademicYearRange(academicYear)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Academic year must be formatted as YYYY-YYYY'
+      }, { status: 400 })
+    }
+
+    if (!Array.isArray(decisions) || decisions.some(decision =>
+      !decision?.residentId || !PROMOTION_ACTIONS.includes(decision.action)
+    )) {
+      return NextResponse.json({
+        success: false,
+        error: `Each decision needs a residentId and an action of ${PROMOTION_ACTIONS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const plan = await PromotionService.getPromotionPlan(institutionId, session.user.id, academicYear)
+
+    if (plan.proposals.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: `All residents have already been processed for ${academicYear}`
+      }, { status: 409 })
+    }
+
+    if (plan.proposals.length > PROMOTION_MAX_RESIDENTS) {
+      return NextResponse.json({
+        success: false,
+        error: `A single promotion run is limited to ${PROMOTION_MAX_RESIDENTS} residents`
+      }, { status: 400 })
+    }
+
+    const { promotions, error: decisionError } = resolvePromotionDecisions(plan, decisions)
+    if (decisionError) {
+      return NextResponse.json({
+        success: false,
+        error: decisionError
+      }, { status: 400 })
+    }
+
+    const result = await PromotionService.applyPromotions(institutionId, plan, promotions, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: `Promoted ${result.promoted}, graduated ${result.graduated} and held ${result.held} residents`,
+      result
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Applying promotions failed:', error)
+
+    const isConflict = error instanceof Error && error.message.includes('changed since the promotion plan')
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to apply promotions'
+    }, { status: isConflict ? 409 : 500 })
+  }
+}
@@ -11,38 +11,17 @@ import { adminDb, logAdminAction } from '@/lib/firebase-admin'
 import { UserRole, Department, PGYLevel, ROLE_PERMISSIONS } from '@/types/user'
 import { ExtendedUser, COLLECTIONS } from '@/types/database'
 import { Timestamp } from 'firebase-admin/firestore'
+import {
+  ResidentRequest,
+  ResidentStatusFilter,
+  RESIDENT_STATUS_FILTERS,
+  validateResidentData
+} from '@/lib/resident-validation'
+import { getPermissionScope, hasAnyPermissionScope, hasPermission } from '@/lib/permissions'
 
 // Import NextAuth configuration
 import { authOptions } from '@/app/api/auth/[...nextauth]/route'
 
-interface CreateResidentRequest {
-  // Core user information
-  email: string
-  firstName: string
-  lastName: string
-  
-  // Resident-specific fields
-  pgyLevel: PGYLevel
-  department: Department
-  medicalLicenseNumber?: string
-  supervisingFacultyId?: string
-  phoneNumber?: string
-  
-  // Professional information
-  profile?: {
-    title?: string
-    middleName?: string
-    preferredName?: string
-  }
-  
-  // Education information
-  education?: {
-    medicalSchool: string
-    graduationYear: number
-    undergraduateInstitution?: string
-  }
-}
-
 interface CreateResidentResponse {
   success: boolean
   message: string
@@ -71,20 +50,23 @@ export async function GET(request: NextRequest): Promise<NextResponse<GetResiden
       }, { status: 401 })
     }
 
-    // Check permissions for viewing resident data
-    if (!session.user.permissions?.canViewAllResidents) {
+    // Check permissions for viewing resident data; department-scoped grants
+    // limit the listing to those departments
+    const scope = getPermissionScope(session.user, 'canViewAllResidents')
+    if (scope !== 'ALL' && scope.length === 0) {
       return NextResponse.json({
         success: false,
         error: 'Insufficient permissions to view resident data'
       }, { status: 403 })
     }
 
-    // Get query parameters
+    // Get query parameters; the institution is always the session's own
     const { searchParams } = new URL(request.url)
-    const institutionId = searchParams.get('institutionId') || session.user.institutionId
+    const institutionId = session.user.institutionId
     const department = searchParams.get('department') as Department
     const pgyLevel = searchParams.get('pgyLevel') ? parseInt(searchParams.get('pgyLevel')!) as PGYLevel : undefined
     const search = searchParams.get('search')
+    const status = (searchParams.get('status') || 'active') as ResidentStatusFilter
 
     if (!institutionId) {
       return NextResponse.json({
@@ -93,11 +75,29 @@ export async function GET(request: NextRequest): Promise<NextResponse<GetResiden
       }, { status: 400 })
     }
 
+    if (department && scope !== 'ALL' && !scope.includes(department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view residents in this department'
+      }, { status: 403 })
+    }
+
+    if (!RESIDENT_STATUS_FILTERS.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${RESIDENT_STATUS_FILTERS.join(', ')}`
+      }, { status: 400 })
+    }
+
     // Build query for resident physicians
     let query = adminDb.collection(COLLECTIONS.USERS)
       .where('institutionId', '==', institutionId)
       .where('role', '==', 'RESIDENT')
-      .where('isActive', '==', true)
+
+    // Inactive residents are listed so they can be reactivated
+    if (status !== 'all') {
+      query = query.where('isActive', '==', status === 'active')
+    }
 
     // Add additional filters
     if (department) {
@@ -120,7 +120,9 @@ export async function GET(request: NextRequest): Promise<NextResponse<GetResiden
         emp => emp.position === 'Resident Physician'
       )
       
-      if (hasResidentPhysicianPosition) {
+      const inScope = scope === 'ALL' || (!!userData.department && scope.includes(userData.department))
+
+      if (hasResidentPhysicianPosition && inScope) {
         residents.push({
           id: doc.id,
           ...userData
@@ -158,6 +160,7 @@ export async function GET(request: NextRequest): Promise<NextResponse<GetResiden
         filters: {
           department,
           pgyLevel,
+          status,
           search: search ? '[FILTERED]' : undefined
         },
         institutionId
@@ -195,14 +198,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateRes
     }
 
     // Check permissions
-    if (!session.user.permissions?.canCreateUsers) {
+    if (!hasAnyPermissionScope(session.user, 'canCreateUsers')) {
       return NextResponse.json({
         success: false,
         error: 'Insufficient permissions to create residents'
       }, { status: 403 })
     }
 
-    const requestData: CreateResidentRequest = await request.json()
+    const requestData: ResidentRequest = await request.json()
 
     // Validate required fields
     const validationError = validateResidentData(requestData)
@@ -213,6 +216,14 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateRes
       }, { status: 400 })
     }
 
+    if (!hasPermission(session.user, 'canCreateUsers', requestData.department)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Resident not created',
+        error: 'Insufficient permissions to create residents in this department'
+      }, { status: 403 })
+    }
+
     // Check if user with email already exists
     const existingUserQuery = await adminDb.collection(COLLECTIONS.USERS)
       .where('email', '==', requestData.email)
@@ -316,54 +327,6 @@ export async function POST(request: NextRequest): Promise<NextResponse<CreateRes
   }
 }
 
-/**
- * Validate resident physician creation data
- */
-function validateResidentData(data: CreateResidentRequest): string | null {
-  // Required fields validation
-  if (!data.email || !data.firstName || !data.lastName) {
-    return 'Missing required fields: email, firstName, lastName'
-  }
-
-  if (!data.pgyLevel || !data.department) {
-    return 'Missing required fields: pgyLevel, department'
-  }
-
-  // Email validation
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
-  if (!emailRegex.test(data.email)) {
-    return 'Please enter a valid email address'
-  }
-
-  // PGY level validation
-  if (data.pgyLevel < 1 || data.pgyLevel > 7) {
-    return 'PGY level must be between 1 and 7'
-  }
-
-  // Medical license validation
-  if (data.medicalLicenseNumber && data.medicalLicenseNumber.length < 5) {
-    return 'Medical license number must be at least 5 characters'
-  }
-
-  // Phone number validation
-  if (data.phoneNumber) {
-    const phoneRegex = /^\+?[\d\s\-\(\)]{10,}$/
-    if (!phoneRegex.test(data.phoneNumber)) {
-      return 'Please enter a valid phone number'
-    }
-  }
-
-  // Education validation
-  if (data.education?.graduationYear) {
-    const currentYear = new Date().getFullYear()
-    if (data.education.graduationYear < 1950 || data.education.graduationYear > currentYear + 10) {
-      return 'Please enter a valid graduation year'
-    }
-  }
-
-  return null // No validation errors
-}
-
 // Only allow GET and POST requests
 export async function PUT(): Promise<NextResponse> {
   return NextResponse.json(
@@ -0,0 +1,290 @@
+/**
+ * EMMA Healthcare Rotation Detail API
+ *
+ * API endpoints for reading, updating and archiving a single clinical rotation,
+ * including its current capacity and HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { RotationService, RotationCapacity } from '@/lib/database'
+import { RotationRequest, validateRotationData } from '@/lib/rotation-validation'
+import { Rotation } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface RotationResponse {
+  success: boolean
+  message?: string
+  rotation?: Rotation
+  capacity?: RotationCapacity
+  error?: string
+}
+
+/**
+ * Load a rotation and make sure it belongs to the caller's institution
+ */
+async function getInstitutionRotation(rotationId: string, institutionId?: string): Promise<Rotation | null> {
+  const rotation = await RotationService.getRotationById(rotationId)
+
+  if (!rotation || rotation.institutionId !== institutionId) {
+    return null
+  }
+
+  return rotation
+}
+
+/**
+ * GET /api/rotations/[id] - Fetch a rotation with its capacity status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<RotationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view rotations'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const rotation = await getInstitutionRotation(id, session.user.institutionId)
+
+    if (!rotation) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rotation not found'
+      }, { status: 404 })
+    }
+
+    const capacity = await RotationService.getRotationCapacity(rotation)
+
+    return NextResponse.json({
+      success: true,
+      rotation,
+      capacity
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch rotation'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PATCH /api/rotations/[id] - Update rotation details
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<RotationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit rotations'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const rotation = await getInstitutionRotation(id, session.user.institutionId)
+
+    if (!rotation) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rotation not found'
+      }, { status: 404 })
+    }
+
+    const requestData: Partial<RotationRequest> = await request.json()
+
+    const validationError = validateRotationData(requestData, true)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    // Only the editable rotation fields are taken from the request
+    const { schedule } = requestData
+    const updates: Partial<Rotation> = {
+      name: requestData.name?.trim(),
+      department: requestData.department,
+      description: requestData.description,
+      objectives: requestData.objectives,
+      duration: requestData.duration,
+      capacity: requestData.capacity,
+      minimumStaffing: requestData.minimumStaffing,
+      isRequired: requestData.isRequired,
+      pgyLevels: requestData.pgyLevels,
+      attendingPhysicians: requestData.attendingPhysicians,
+      resources: requestData.resources,
+      status: requestData.status,
+      location: requestData.location ? { ...rotation.location, ...requestData.location } : undefined
+    }
+
+    if (schedule) {
+      updates.schedule = {
+        ...rotation.schedule,
+        startDate: Timestamp.fromDate(new Date(schedule.startDate)) as any,
+        endDate: Timestamp.fromDate(new Date(schedule.endDate)) as any,
+        ...(schedule.daysOfWeek !== undefined ? { daysOfWeek: schedule.daysOfWeek } : {}),
+        ...(schedule.startTime !== undefined ? { startTime: schedule.startTime } : {}),
+        ...(schedule.endTime !== undefined ? { endTime: schedule.endTime } : {}),
+        ...(schedule.callSchedule !== undefined ? { callSchedule: schedule.callSchedule } : {})
+      }
+    }
+
+    // Only send the fields present in the request
+    Object.keys(updates).forEach(key => {
+      if (updates[key as keyof Rotation] === undefined) {
+        delete updates[key as keyof Rotation]
+      }
+    })
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No updatable fields provided'
+      }, { status: 400 })
+    }
+
+    if ((updates.minimumStaffing ?? rotation.minimumStaffing ?? 0) > (updates.capacity ?? rotation.capacity)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Minimum staffing cannot be more than the rotation capacity'
+      }, { status: 400 })
+    }
+
+    // Prevent reducing capacity below the number of residents already assigned
+    if (updates.capacity !== undefined) {
+      const currentCapacity = await RotationService.getRotationCapacity(rotation)
+      if (updates.capacity < currentCapacity.assigned) {
+        return NextResponse.json({
+          success: false,
+          error: `Capacity cannot be lower than the ${currentCapacity.assigned} residents already assigned`
+        }, { status: 409 })
+      }
+    }
+
+    const updatedRotation = await RotationService.updateRotation(id, updates, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rotation updated successfully',
+      rotation: updatedRotation
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update rotation'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * DELETE /api/rotations/[id] - Archive a rotation (soft delete)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<RotationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to archive rotations'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const rotation = await getInstitutionRotation(id, session.user.institutionId)
+
+    if (!rotation) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rotation not found'
+      }, { status: 404 })
+    }
+
+    if (rotation.status === 'ARCHIVED') {
+      return NextResponse.json({
+        success: false,
+        error: 'Rotation is already archived'
+      }, { status: 409 })
+    }
+
+    await RotationService.archiveRotation(id, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rotation archived successfully'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation archive failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to archive rotation'
+    }, { status: 500 })
+  }
+}
+
+// Rotations are updated with PATCH
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
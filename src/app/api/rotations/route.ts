@@ -0,0 +1,206 @@
+/**
+ * EMMA Healthcare Rotations API
+ *
+ * API endpoints for listing and creating clinical rotations with schedule
+ * permission checks, capacity reporting and HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { RotationService, RotationCapacity } from '@/lib/database'
+import { RotationRequest, ROTATION_STATUSES, validateRotationData } from '@/lib/rotation-validation'
+import { Department, PGYLevel } from '@/types/user'
+import { Rotation } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetRotationsResponse {
+  success: boolean
+  rotations?: (Rotation & { capacityStatus?: RotationCapacity })[]
+  total?: number
+  error?: string
+}
+
+interface CreateRotationResponse {
+  success: boolean
+  message?: string
+  rotation?: Rotation
+  error?: string
+}
+
+/**
+ * GET /api/rotations - List rotations with optional filters
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetRotationsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view rotations'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const department = searchParams.get('department') as Department | null
+    const pgyLevel = searchParams.get('pgyLevel') ? parseInt(searchParams.get('pgyLevel')!) as PGYLevel : undefined
+    const status = searchParams.get('status') as Rotation['status'] | null
+    const includeCapacity = searchParams.get('includeCapacity') === 'true'
+
+    if (status && !ROTATION_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${ROTATION_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const rotations = await RotationService.getRotations(institutionId, session.user.id, {
+      department: department || undefined,
+      pgyLevel,
+      status: status || undefined
+    })
+
+    if (!includeCapacity) {
+      return NextResponse.json({
+        success: true,
+        rotations,
+        total: rotations.length
+      })
+    }
+
+    const rotationsWithCapacity = await Promise.all(
+      rotations.map(async (rotation) => ({
+        ...rotation,
+        capacityStatus: await RotationService.getRotationCapacity(rotation)
+      }))
+    )
+
+    return NextResponse.json({
+      success: true,
+      rotations: rotationsWithCapacity,
+      total: rotationsWithCapacity.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Rotations fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch rotations'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/rotations - Create a new rotation
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<CreateRotationResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to create rotations'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: RotationRequest = await request.json()
+
+    const validationError = validateRotationData(requestData)
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const rotation = await RotationService.createRotation({
+      name: requestData.name.trim(),
+      department: requestData.department,
+      institutionId,
+      description: requestData.description || '',
+      objectives: requestData.objectives || [],
+      duration: requestData.duration,
+      capacity: requestData.capacity,
+      minimumStaffing: requestData.minimumStaffing,
+      isRequired: requestData.isRequired ?? false,
+      pgyLevels: requestData.pgyLevels,
+      schedule: {
+        startDate: Timestamp.fromDate(new Date(requestData.schedule.startDate)) as any,
+        endDate: Timestamp.fromDate(new Date(requestData.schedule.endDate)) as any,
+        daysOfWeek: requestData.schedule.daysOfWeek || [1, 2, 3, 4, 5],
+        startTime: requestData.schedule.startTime || '08:00',
+        endTime: requestData.schedule.endTime || '17:00',
+        callSchedule: requestData.schedule.callSchedule
+      },
+      attendingPhysicians: requestData.attendingPhysicians || [],
+      location: requestData.location || { building: '' },
+      resources: requestData.resources || {},
+      status: requestData.status || 'ACTIVE'
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rotation created successfully',
+      rotation
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Rotation creation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create rotation'
+    }, { status: 500 })
+  }
+}
+
+// Only allow GET and POST requests
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
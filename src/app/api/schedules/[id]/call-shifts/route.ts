@@ -0,0 +1,128 @@
+/**
+ * EMMA Healthcare Call Shift Reassignment API
+ *
+ * Reassigns or swaps call shifts on a CALL schedule. Every changed shift is
+ * checked against the same eligibility rules as the generator. A published
+ * roster keeps its publication and shows the new assignments straight away.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService } from '@/lib/database'
+import { CallShiftChange } from '@/lib/call-scheduler'
+import { Schedule } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface UpdateCallShiftsRequest {
+  changes: CallShiftChange[]
+}
+
+interface UpdateCallShiftsResponse {
+  success: boolean
+  message?: string
+  schedule?: Schedule
+  error?: string
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * PATCH /api/schedules/[id]/call-shifts - Reassign or swap call shifts
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<UpdateCallShiftsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to edit schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { changes }: UpdateCallShiftsRequest = await request.json()
+
+    if (
+      !Array.isArray(changes) || changes.length === 0 || changes.length > 2 ||
+      !changes.every(change => change?.rotationId && change?.residentId && ISO_DATE_PATTERN.test(change?.date ?? ''))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide one shift to reassign or two shifts to swap, each with rotationId, date (YYYY-MM-DD) and residentId'
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const schedule = await ScheduleService.getScheduleById(id)
+
+    if (!schedule || schedule.institutionId !== institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 })
+    }
+
+    if (schedule.type !== 'CALL' || schedule.status === 'ARCHIVED') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only draft or published call schedules can be reassigned'
+      }, { status: 409 })
+    }
+
+    const eligibility = await ScheduleService.getCallEligibilityInput(institutionId, schedule.academicYear, session.user.id)
+    const result = await ScheduleService.reassignCallShifts(schedule.id, changes, eligibility, session.user.id)
+
+    if (result.error) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: 422 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Call shifts updated',
+      schedule: result.schedule
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Call shift update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update call shifts'
+    }, { status: 500 })
+  }
+}
+
+// Only allow PATCH requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,100 @@
+/**
+ * EMMA Healthcare Schedule Publish API
+ *
+ * Publishes a draft schedule, archiving the published schedule of the same
+ * type and academic year that it replaces.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService } from '@/lib/database'
+import { Schedule } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface PublishScheduleResponse {
+  success: boolean
+  message?: string
+  schedule?: Schedule
+  error?: string
+}
+
+/**
+ * POST /api/schedules/[id]/publish - Publish a draft schedule
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<PublishScheduleResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canEditSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to publish schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const schedule = await ScheduleService.getScheduleById(id)
+
+    if (!schedule || schedule.institutionId !== institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 })
+    }
+
+    if (schedule.status !== 'DRAFT') {
+      return NextResponse.json({
+        success: false,
+        error: `Only draft schedules can be published (this schedule is ${schedule.status.toLowerCase()})`
+      }, { status: 409 })
+    }
+
+    const publishedSchedule = await ScheduleService.publishSchedule(schedule, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule published successfully',
+      schedule: publishedSchedule
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Schedule publish failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to publish schedule'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,159 @@
+/**
+ * EMMA Healthcare Call Schedule API
+ *
+ * Builds the night, weekend and holiday call roster for an academic year from
+ * the published rotation schedule and saves it as a DRAFT call schedule for
+ * coordinator review.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { ScheduleService } from '@/lib/database'
+import { generateCallSchedule, getCallsAround, takesRosteredCall } from '@/lib/call-scheduler'
+import { getAcademicYearRange } from '@/lib/date-utils'
+import { Schedule } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GenerateCallScheduleRequest {
+  academicYear: string
+  holidays?: string[]
+}
+
+interface GenerateCallScheduleResponse {
+  success: boolean
+  message?: string
+  schedule?: Schedule
+  error?: string
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * POST /api/schedules/call - Generate a draft call schedule
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<GenerateCallScheduleResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to generate schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: GenerateCallScheduleRequest = await request.json()
+
+    const yearRange = requestData.academicYear ? getAcademicYearRange(requestData.academicYear) : null
+    if (!yearRange) {
+      return NextResponse.json({
+        success: false,
+        error: 'Academic year must be in the format YYYY-YYYY (e.g. 2025-2026)'
+      }, { status: 400 })
+    }
+
+    if (
+      requestData.holidays !== undefined &&
+      (!Array.isArray(requestData.holidays) || !requestData.holidays.every(day => typeof day === 'string' && ISO_DATE_PATTERN.test(day)))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Holidays must be a list of dates in the format YYYY-MM-DD'
+      }, { status: 400 })
+    }
+
+    const [eligibility, publishedCallSchedules] = await Promise.all([
+      ScheduleService.getCallEligibilityInput(institutionId, requestData.academicYear, session.user.id),
+      ScheduleService.getSchedules(institutionId, session.user.id, { type: 'CALL', status: 'PUBLISHED' })
+    ])
+
+    const callRotations = eligibility.rotations.filter(takesRosteredCall)
+    if (callRotations.length === 0 || eligibility.schedules.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: callRotations.length === 0
+          ? 'No active rotations take weekly or monthly call'
+          : 'Publish a rotation schedule for this academic year before generating call'
+      }, { status: 422 })
+    }
+
+    const result = generateCallSchedule({
+      ...eligibility,
+      startDate: yearRange.startDate,
+      endDate: yearRange.endDate,
+      holidays: requestData.holidays,
+      existingCalls: getCallsAround(publishedCallSchedules, yearRange.startDate, yearRange.endDate)
+    })
+
+    const schedule = await ScheduleService.createSchedule({
+      institutionId,
+      academicYear: requestData.academicYear,
+      name: `${requestData.academicYear} Call Schedule (Draft)`,
+      description: `Generated call roster for ${callRotations.length} rotation${callRotations.length === 1 ? '' : 's'}`,
+      type: 'CALL',
+      status: 'DRAFT',
+      startDate: Timestamp.fromDate(yearRange.startDate) as any,
+      endDate: Timestamp.fromDate(yearRange.endDate) as any,
+      assignments: result.shifts.map(shift => ({
+        residentId: shift.residentId,
+        rotationId: shift.rotationId,
+        callType: shift.callType,
+        startDate: Timestamp.fromDate(shift.startDate) as any,
+        endDate: Timestamp.fromDate(shift.endDate) as any
+      })),
+      callReport: {
+        generatedAt: Timestamp.now() as any,
+        generatedBy: session.user.id,
+        holidays: result.holidays,
+        rotationCount: callRotations.length,
+        residentCount: result.distribution.length,
+        filledNights: result.stats.filledNights,
+        totalNights: result.stats.totalNights,
+        unfilledNights: result.unfilledNights,
+        distribution: result.distribution
+      }
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: result.unfilledNights.length > 0
+        ? `Draft call schedule generated with ${result.unfilledNights.length} unfilled night${result.unfilledNights.length === 1 ? '' : 's'}`
+        : 'Draft call schedule generated successfully',
+      schedule
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Call schedule generation failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate call schedule'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,103 @@
+/**
+ * EMMA Healthcare Schedule Conflicts API
+ *
+ * On-demand conflict scan across published schedules, or for a single
+ * schedule (including drafts), with HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService } from '@/lib/database'
+import { ScheduleConflict, ScheduleConflictType } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface ScheduleConflictsResponse {
+  success: boolean
+  conflicts?: ScheduleConflict[]
+  summary?: Record<ScheduleConflictType, number>
+  checkedAt?: string
+  error?: string
+}
+
+/**
+ * GET /api/schedules/conflicts - Scan schedules for conflicts
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ScheduleConflictsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scheduleId = searchParams.get('scheduleId')
+
+    if (scheduleId) {
+      const schedule = await ScheduleService.getScheduleById(scheduleId)
+      if (!schedule || schedule.institutionId !== institutionId) {
+        return NextResponse.json({
+          success: false,
+          error: 'Schedule not found'
+        }, { status: 404 })
+      }
+    }
+
+    const conflicts = await ScheduleService.detectConflicts(institutionId, session.user.id, {
+      scheduleId: scheduleId || undefined
+    })
+
+    const summary: Record<ScheduleConflictType, number> = {
+      DOUBLE_BOOKING: 0,
+      OVER_CAPACITY: 0,
+      PGY_INELIGIBLE: 0,
+      VACATION_OVERLAP: 0
+    }
+    conflicts.forEach(conflict => {
+      summary[conflict.type] += 1
+    })
+
+    return NextResponse.json({
+      success: true,
+      conflicts,
+      summary,
+      checkedAt: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Schedule conflict scan failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to scan schedule conflicts'
+    }, { status: 500 })
+  }
+}
+
+// Only allow GET requests
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
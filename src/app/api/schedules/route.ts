@@ -0,0 +1,117 @@
+/**
+ * EMMA Healthcare Schedules API
+ *
+ * API endpoint for listing rotation, call and vacation schedules with
+ * schedule permission checks and HIPAA-compliant audit logging.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService } from '@/lib/database'
+import { Schedule } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+const SCHEDULE_TYPES: Schedule['type'][] = ['ROTATION', 'CALL', 'CONFERENCE', 'VACATION', 'RESEARCH']
+const SCHEDULE_STATUSES: Schedule['status'][] = ['DRAFT', 'PUBLISHED', 'ARCHIVED']
+
+interface GetSchedulesResponse {
+  success: boolean
+  schedules?: Schedule[]
+  total?: number
+  error?: string
+}
+
+/**
+ * GET /api/schedules - List schedules with optional filters
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetSchedulesResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canViewAllSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url)
+    const academicYear = searchParams.get('academicYear')
+    const type = searchParams.get('type') as Schedule['type'] | null
+    const status = searchParams.get('status') as Schedule['status'] | null
+
+    if (type && !SCHEDULE_TYPES.includes(type)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid type. Expected one of: ${SCHEDULE_TYPES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (status && !SCHEDULE_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${SCHEDULE_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const schedules = await ScheduleService.getSchedules(institutionId, session.user.id, {
+      academicYear: academicYear || undefined,
+      type: type || undefined,
+      status: status || undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      schedules,
+      total: schedules.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Schedules fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch schedules'
+    }, { status: 500 })
+  }
+}
+
+// Schedules are generated through /api/schedules/solve
+export async function POST(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function PUT(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
+
+export async function DELETE(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
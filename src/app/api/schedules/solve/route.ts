@@ -0,0 +1,172 @@
+/**
+ * EMMA Healthcare Schedule Solver API
+ *
+ * Runs the rotation assignment solver for an academic year and saves the
+ * result as a DRAFT rotation schedule for coordinator review.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { Timestamp } from 'firebase-admin/firestore'
+import { RotationService, ScheduleService, UserService } from '@/lib/database'
+import { DEFAULT_BLOCK_LENGTH_WEEKS, solveRotationSchedule } from '@/lib/schedule-solver'
+import { getAcademicYearRange } from '@/lib/date-utils'
+import { Schedule } from '@/types/database'
+import { Department } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface SolveScheduleRequest {
+  academicYear: string
+  department?: Department
+  blockLengthWeeks?: number
+}
+
+interface SolveScheduleResponse {
+  success: boolean
+  message?: string
+  schedule?: Schedule
+  error?: string
+}
+
+/**
+ * POST /api/schedules/solve - Generate a draft rotation schedule
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<SolveScheduleResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canCreateSchedules) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to generate schedules'
+      }, { status: 403 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const requestData: SolveScheduleRequest = await request.json()
+
+    const yearRange = requestData.academicYear ? getAcademicYearRange(requestData.academicYear) : null
+    if (!yearRange) {
+      return NextResponse.json({
+        success: false,
+        error: 'Academic year must be in the format YYYY-YYYY (e.g. 2025-2026)'
+      }, { status: 400 })
+    }
+
+    const blockLengthWeeks = requestData.blockLengthWeeks ?? DEFAULT_BLOCK_LENGTH_WEEKS
+    if (!Number.isInteger(blockLengthWeeks) || blockLengthWeeks < 1 || blockLengthWeeks > 12) {
+      return NextResponse.json({
+        success: false,
+        error: 'Block length must be a whole number of weeks between 1 and 12'
+      }, { status: 400 })
+    }
+
+    const [residents, rotations, preferences] = await Promise.all([
+      UserService.getResidentPhysicians(institutionId, session.user.id, {
+        department: requestData.department
+      }),
+      RotationService.getRotations(institutionId, session.user.id, {
+        department: requestData.department,
+        status: 'ACTIVE'
+      }),
+      ScheduleService.getRotationPreferences(institutionId, requestData.academicYear)
+    ])
+
+    if (residents.length === 0 || rotations.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: residents.length === 0
+          ? 'No active residents found to schedule'
+          : 'No active rotations found to schedule'
+      }, { status: 422 })
+    }
+
+    const result = solveRotationSchedule({
+      startDate: yearRange.startDate,
+      endDate: yearRange.endDate,
+      residents: residents.map(resident => ({
+        id: resident.id,
+        name: `${resident.firstName} ${resident.lastName}`,
+        pgyLevel: resident.pgyLevel,
+        supervisingFacultyId: resident.supervisingFacultyId
+      })),
+      rotations,
+      preferences,
+      blockLengthWeeks
+    })
+
+    const schedule = await ScheduleService.createSchedule({
+      institutionId,
+      academicYear: requestData.academicYear,
+      name: `${requestData.academicYear} Rotation Schedule (Auto-Match Draft)`,
+      description: requestData.department
+        ? `Solver-generated draft for ${requestData.department}`
+        : 'Solver-generated draft for all departments',
+      type: 'ROTATION',
+      status: 'DRAFT',
+      startDate: Timestamp.fromDate(yearRange.startDate) as any,
+      endDate: Timestamp.fromDate(yearRange.endDate) as any,
+      assignments: result.assignments.map(assignment => ({
+        residentId: assignment.residentId,
+        rotationId: assignment.rotationId,
+        supervisorId: assignment.supervisorId,
+        location: assignment.location,
+        notes: assignment.preferenceRank ? `Preference #${assignment.preferenceRank}` : undefined,
+        startDate: Timestamp.fromDate(assignment.startDate) as any,
+        endDate: Timestamp.fromDate(assignment.endDate) as any
+      })),
+      solverReport: {
+        generatedAt: Timestamp.now() as any,
+        generatedBy: session.user.id,
+        blockLengthWeeks,
+        blockCount: result.blocks.length,
+        residentCount: residents.length,
+        rotationCount: rotations.length,
+        filledBlocks: result.stats.filledBlocks,
+        totalBlocks: result.stats.totalBlocks,
+        preferenceSatisfaction: result.stats.preferenceSatisfaction,
+        unmetConstraints: result.unmetConstraints
+      }
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: result.unmetConstraints.some(constraint => constraint.severity === 'ERROR')
+        ? 'Draft schedule generated with unmet constraints'
+        : 'Draft schedule generated successfully',
+      schedule
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Schedule solve failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate schedule'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
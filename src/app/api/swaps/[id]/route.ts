@@ -0,0 +1,217 @@
+/**
+ * EMMA Healthcare Shift Swap Decision API
+ *
+ * A colleague accepts an open offer - after call eligibility, duty hours and
+ * schedule conflicts are checked - and the coordinator approves or denies it.
+ * Approval rewrites the published call schedule. Offering residents and
+ * coordinators can cancel a swap until it is decided.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService, ShiftSwapService, UserService } from '@/lib/database'
+import {
+  SHIFT_SWAP_ACTIONS,
+  ShiftSwapAction,
+  canDecideShiftSwaps,
+  checkShiftSwapAction,
+  checkSwapSchedule,
+  isShiftInActiveSwap
+} from '@/lib/shift-swaps'
+import { ShiftSwapRequest, SwapShift } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ShiftSwapActionRequest {
+  action: ShiftSwapAction
+  returnShift?: Pick<SwapShift, 'rotationId' | 'date'> // ACCEPT only: one of the caller's shifts in exchange
+  comments?: string
+}
+
+interface ShiftSwapActionResponse {
+  success: boolean
+  message?: string
+  request?: ShiftSwapRequest
+  error?: string
+}
+
+const ACTION_MESSAGES: Record<ShiftSwapAction, string> = {
+  ACCEPT: 'Swap accepted and sent to the coordinator for approval',
+  APPROVE: 'Swap approved and the call schedule updated',
+  DENY: 'Swap denied',
+  CANCEL: 'Swap cancelled'
+}
+
+/**
+ * PATCH /api/swaps/[id] - Accept, approve, deny or cancel a swap
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ShiftSwapActionResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { action, returnShift, comments }: ShiftSwapActionRequest = await request.json()
+
+    if (!action || !SHIFT_SWAP_ACTIONS.includes(action)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid action. Expected one of: ${SHIFT_SWAP_ACTIONS.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (comments !== undefined && (typeof comments !== 'string' || comments.length > 1000)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comments must be 1000 characters or fewer'
+      }, { status: 400 })
+    }
+
+    if (returnShift !== undefined && (action !== 'ACCEPT' || !returnShift?.rotationId || !/^\d{4}-\d{2}-\d{2}$/.test(returnShift?.date ?? ''))) {
+      return NextResponse.json({
+        success: false,
+        error: 'A return shift needs a rotation and date (YYYY-MM-DD) and is only given when accepting'
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const swapRequest = await ShiftSwapService.getRequestById(id)
+
+    // Other residents' decided swaps are reported as missing rather than forbidden
+    if (
+      !swapRequest ||
+      swapRequest.institutionId !== session.user.institutionId ||
+      (swapRequest.status !== 'OPEN' &&
+        swapRequest.offeredBy !== session.user.id &&
+        swapRequest.acceptedBy !== session.user.id &&
+        !canDecideShiftSwaps(session.user))
+    ) {
+      return NextResponse.json({
+        success: false,
+        error: 'Shift swap not found'
+      }, { status: 404 })
+    }
+
+    const actionError = checkShiftSwapAction(swapRequest, action, session.user)
+    if (actionError) {
+      return NextResponse.json({
+        success: false,
+        error: actionError.error
+      }, { status: actionError.status })
+    }
+
+    if (action === 'ACCEPT') {
+      const [schedule, shifts, resident] = await Promise.all([
+        ScheduleService.getScheduleById(swapRequest.scheduleId),
+        returnShift ? ShiftSwapService.getCallShifts(swapRequest.institutionId, session.user.id, session.user.id) : [],
+        UserService.getUserById(session.user.id, session.user.id)
+      ])
+
+      const scheduleError = checkSwapSchedule(swapRequest, schedule, session.user.id)
+      if (scheduleError || !schedule || !resident) {
+        return NextResponse.json({
+          success: false,
+          error: scheduleError ?? 'Resident not found'
+        }, { status: 409 })
+      }
+
+      const offeredReturn = returnShift
+        ? shifts.find(shift =>
+          shift.scheduleId === swapRequest.scheduleId &&
+          shift.rotationId === returnShift.rotationId &&
+          shift.date === returnShift.date
+        )
+        : undefined
+
+      if (returnShift && !offeredReturn) {
+        return NextResponse.json({
+          success: false,
+          error: 'You can only give one of your own upcoming shifts on the same call schedule in return'
+        }, { status: 400 })
+      }
+
+      if (offeredReturn) {
+        const active = await ShiftSwapService.getRequests(swapRequest.institutionId, session.user.id, { participantId: session.user.id })
+        if (isShiftInActiveSwap(active, swapRequest.scheduleId, offeredReturn, swapRequest.id)) {
+          return NextResponse.json({
+            success: false,
+            error: 'The shift you offered in return is already part of an open swap'
+          }, { status: 409 })
+        }
+      }
+
+      const assessment = await ShiftSwapService.assessSwap(
+        schedule,
+        { ...swapRequest, returnShift: offeredReturn },
+        session.user.id,
+        session.user.id
+      )
+      if (assessment.error) {
+        return NextResponse.json({
+          success: false,
+          error: assessment.error
+        }, { status: 422 })
+      }
+
+      const accepted = await ShiftSwapService.acceptOffer(swapRequest, resident, offeredReturn, assessment.warnings)
+      if (accepted.error) {
+        return NextResponse.json({
+          success: false,
+          error: accepted.error
+        }, { status: 409 })
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: assessment.warnings.length > 0
+          ? 'Swap accepted - the coordinator will review the flagged issues'
+          : ACTION_MESSAGES.ACCEPT,
+        request: accepted.request
+      })
+    }
+
+    // The swap's status - and for approval the call schedule - are checked
+    // again when the decision is written
+    const updated = await ShiftSwapService.applyAction(swapRequest, action, session.user.id, comments)
+    if (updated.error) {
+      return NextResponse.json({
+        success: false,
+        error: updated.error
+      }, { status: 409 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: ACTION_MESSAGES[action],
+      request: updated.request
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Shift swap update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update shift swap'
+    }, { status: 500 })
+  }
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,189 @@
+/**
+ * EMMA Healthcare Shift Swaps API
+ *
+ * Residents offer their call shifts to colleagues and browse open offers;
+ * coordinators see every swap. Accepted swaps wait in the coordinator's
+ * approval queue before the published call schedule changes.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ScheduleService, ShiftSwapService, UserService } from '@/lib/database'
+import { SHIFT_SWAP_STATUSES, canDecideShiftSwaps, isShiftInActiveSwap } from '@/lib/shift-swaps'
+import { ShiftSwapRequest } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface OfferShiftRequest {
+  scheduleId: string
+  rotationId: string
+  date: string // ISO date of the call shift
+  note?: string
+}
+
+interface ShiftSwapResponse {
+  success: boolean
+  message?: string
+  requests?: ShiftSwapRequest[]
+  request?: ShiftSwapRequest
+  error?: string
+}
+
+/**
+ * GET /api/swaps - List swaps: every swap for coordinators, or open offers
+ * and the caller's own swaps for residents
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<ShiftSwapResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const isApprover = canDecideShiftSwaps(session.user)
+    if (!isApprover && session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view shift swaps'
+      }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as ShiftSwapRequest['status'] | null
+
+    if (status && !SHIFT_SWAP_STATUSES.includes(status)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${SHIFT_SWAP_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const requests = await ShiftSwapService.getRequests(institutionId, session.user.id, {
+      participantId: isApprover ? undefined : session.user.id,
+      status: status ?? undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      requests
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Shift swap fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve shift swaps'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * POST /api/swaps - Offer one of the caller's call shifts to colleagues
+ */
+export async function POST(request: NextRequest): Promise<NextResponse<ShiftSwapResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only residents can offer their shifts'
+      }, { status: 403 })
+    }
+
+    const requestData: OfferShiftRequest = await request.json()
+
+    if (!requestData.scheduleId || !requestData.rotationId || !/^\d{4}-\d{2}-\d{2}$/.test(requestData.date ?? '')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Schedule, rotation and date (YYYY-MM-DD) of the shift are required'
+      }, { status: 400 })
+    }
+
+    if (requestData.note !== undefined && (typeof requestData.note !== 'string' || requestData.note.length > 500)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Note must be 500 characters or fewer'
+      }, { status: 400 })
+    }
+
+    const shifts = await ShiftSwapService.getCallShifts(institutionId, session.user.id, session.user.id)
+    const shift = shifts.find(option =>
+      option.scheduleId === requestData.scheduleId &&
+      option.rotationId === requestData.rotationId &&
+      option.date === requestData.date
+    )
+
+    if (!shift) {
+      return NextResponse.json({
+        success: false,
+        error: 'You have no upcoming call shift on that date'
+      }, { status: 404 })
+    }
+
+    const existing = await ShiftSwapService.getRequests(institutionId, session.user.id, { participantId: session.user.id })
+    if (isShiftInActiveSwap(existing, shift.scheduleId, shift)) {
+      return NextResponse.json({
+        success: false,
+        error: 'This shift is already part of an open swap'
+      }, { status: 409 })
+    }
+
+    const [resident, schedule] = await Promise.all([
+      UserService.getUserById(session.user.id, session.user.id),
+      ScheduleService.getScheduleById(shift.scheduleId)
+    ])
+
+    if (!resident || !schedule) {
+      return NextResponse.json({
+        success: false,
+        error: 'Schedule not found'
+      }, { status: 404 })
+    }
+
+    const swapRequest = await ShiftSwapService.createOffer(resident, schedule, shift, requestData.note)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Shift offered to your colleagues',
+      request: swapRequest
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('[EMMA] Shift swap offer failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to offer shift'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * EMMA Healthcare Swappable Shifts API
+ *
+ * The signed-in resident's upcoming call shifts on published call schedules -
+ * the shifts they can offer, or give in return for a colleague's.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { ShiftSwapService } from '@/lib/database'
+import { SwapShiftOption } from '@/lib/shift-swaps'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface SwapShiftsResponse {
+  success: boolean
+  shifts?: SwapShiftOption[]
+  error?: string
+}
+
+/**
+ * GET /api/swaps/shifts - The caller's upcoming call shifts
+ */
+export async function GET(): Promise<NextResponse<SwapShiftsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const institutionId = session.user.institutionId
+    if (!institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    if (session.user.role !== 'RESIDENT') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only residents have call shifts to swap'
+      }, { status: 403 })
+    }
+
+    const shifts = await ShiftSwapService.getCallShifts(institutionId, session.user.id, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      shifts
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Call shift fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve call shifts'
+    }, { status: 500 })
+  }
+}
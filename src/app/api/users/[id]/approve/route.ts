@@ -0,0 +1,95 @@
+/**
+ * EMMA Healthcare User Approval API
+ *
+ * Approves a self-registered account so the user can sign in. Registration
+ * only offers the resident and faculty roles; other roles are granted by
+ * invitation or a role change.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { getUserManagementDenial } from '@/lib/user-management'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ApproveUserResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/approve - Approve a self-registered user account
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ApproveUserResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getUserManagementDenial(session.user, user)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    if (user.status !== 'PENDING_APPROVAL') {
+      return NextResponse.json({
+        success: false,
+        error: 'User is not awaiting approval'
+      }, { status: 409 })
+    }
+
+    const updatedUser = await UserService.approveUser(user, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'User approved successfully',
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] User approval failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to approve user'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,101 @@
+/**
+ * EMMA Healthcare MFA Reset API
+ *
+ * Removes a user's multi-factor authentication when they lose their
+ * device, so they can enrol a new one at their next sign-in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { MfaService, UserService } from '@/lib/database'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ResetMfaResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/mfa-reset - Reset a user's MFA (administrators only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ResetMfaResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!session.user.permissions?.canManageSystem) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to reset MFA'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+
+    // A stolen session must not be able to remove its own second factor
+    if (id === session.user.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Another administrator must reset your MFA'
+      }, { status: 403 })
+    }
+
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (!user.mfa?.enabled) {
+      return NextResponse.json({
+        success: false,
+        error: 'MFA is not enabled for this user'
+      }, { status: 409 })
+    }
+
+    const updatedUser = await MfaService.resetMfa(user, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'MFA reset successfully',
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] MFA reset failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to reset MFA'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
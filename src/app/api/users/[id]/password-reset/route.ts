@@ -0,0 +1,88 @@
+/**
+ * EMMA Healthcare Forced Password Reset API
+ *
+ * Requires a user to choose a new password: sign-in is refused and existing
+ * sessions end until they follow the reset link emailed to them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AccountSecurityService, UserService } from '@/lib/database'
+import { getUserManagementDenial } from '@/lib/user-management'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ForcePasswordResetResponse {
+  success: boolean
+  message?: string
+  emailSent?: boolean
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/password-reset - Require a user to reset their password
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ForcePasswordResetResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getUserManagementDenial(session.user, user)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    const { emailSent } = await AccountSecurityService.requirePasswordReset(user, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: emailSent
+        ? 'Password reset required. A reset link has been emailed to the user.'
+        : 'Password reset required, but the reset email could not be sent.',
+      emailSent
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Forced password reset failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to require password reset'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
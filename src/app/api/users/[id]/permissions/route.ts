@@ -0,0 +1,158 @@
+/**
+ * EMMA Healthcare User Permissions API
+ *
+ * Effective permissions for a user, and the per-user overrides and
+ * department-scoped grants layered on top of their role defaults.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import {
+  EffectivePermission,
+  describeEffectivePermissions,
+  hasAnyPermissionScope,
+  hasPermission,
+  validatePermissionChanges
+} from '@/lib/permissions'
+import { getPermissionChangeDenial } from '@/lib/user-management'
+import { ExtendedUser } from '@/types/database'
+import { DepartmentPermissions, UserPermissions } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface UserPermissionsResponse {
+  success: boolean
+  message?: string
+  permissions?: EffectivePermission[]
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * GET /api/users/[id]/permissions - Fetch a user's effective permissions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<UserPermissionsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canViewAllUsers')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view users'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (!hasPermission(session.user, 'canViewAllUsers', user.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view users'
+      }, { status: 403 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      permissions: describeEffectivePermissions(user)
+    })
+
+  } catch (error) {
+    console.error('[EMMA] User permissions fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve user permissions'
+    }, { status: 500 })
+  }
+}
+
+/**
+ * PUT /api/users/[id]/permissions - Replace a user's permission overrides and department grants
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<UserPermissionsResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    const validationError = validatePermissionChanges(body ?? {})
+    if (validationError) {
+      return NextResponse.json({
+        success: false,
+        error: validationError
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getPermissionChangeDenial(session.user, user)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    const updatedUser = await UserService.updateUserPermissions(user, {
+      permissionOverrides: (body.permissionOverrides ?? {}) as Partial<UserPermissions>,
+      departmentPermissions: (body.departmentPermissions ?? {}) as DepartmentPermissions
+    }, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Permissions updated. Active sessions pick them up within five minutes.',
+      permissions: describeEffectivePermissions(updatedUser),
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] User permissions update failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update user permissions'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * EMMA Healthcare User Role API
+ *
+ * Moves a user to a new role. Permissions are recomputed from the role and
+ * the Firebase custom claims re-issued.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { USER_ROLES, getRoleChangeDenial } from '@/lib/user-management'
+import { ExtendedUser } from '@/types/database'
+import { UserRole } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface ChangeRoleResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/role - Change a user's role
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<ChangeRoleResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const role = body?.role as UserRole
+
+    if (!USER_ROLES.includes(role)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid role. Expected one of: ${USER_ROLES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getRoleChangeDenial(session.user, user, role)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    if (user.role === role) {
+      return NextResponse.json({
+        success: false,
+        error: 'User already has this role'
+      }, { status: 409 })
+    }
+
+    const updatedUser = await UserService.changeUserRole(user, role, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Role changed successfully',
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] User role change failed:', error)
+
+    const message = error instanceof Error ? error.message : 'Failed to change user role'
+
+    return NextResponse.json({
+      success: false,
+      error: message
+    }, { status: message.includes('last active administrator') ? 409 : 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,99 @@
+/**
+ * EMMA Healthcare User Suspension API
+ *
+ * Suspends a user: sign-in is disabled and existing sessions end until the
+ * account is reinstated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { getUserManagementDenial } from '@/lib/user-management'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface SuspendUserResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/suspend - Suspend a user account
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<SuspendUserResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const reason = typeof body?.reason === 'string' ? body.reason.trim() || undefined : undefined
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getUserManagementDenial(session.user, user)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    if (user.status === 'SUSPENDED') {
+      return NextResponse.json({
+        success: false,
+        error: 'User is already suspended'
+      }, { status: 409 })
+    }
+
+    const updatedUser = await UserService.suspendUser(user, session.user.id, reason)
+
+    return NextResponse.json({
+      success: true,
+      message: 'User suspended successfully',
+      user: updatedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] User suspension failed:', error)
+
+    const message = error instanceof Error ? error.message : 'Failed to suspend user'
+
+    return NextResponse.json({
+      success: false,
+      error: message
+    }, { status: message.includes('last active administrator') ? 409 : 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
@@ -0,0 +1,101 @@
+/**
+ * EMMA Healthcare Account Unlock API
+ *
+ * Lifts a sign-in lockout caused by too many failed attempts before the
+ * institution's lockout duration has passed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AccountSecurityService, UserService } from '@/lib/database'
+import { isAccountLocked } from '@/lib/password-policy'
+import { hasAnyPermissionScope, hasPermission } from '@/lib/permissions'
+import { ExtendedUser } from '@/types/database'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface UnlockAccountResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/unlock - Unlock an account locked after failed sign-in attempts
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<UnlockAccountResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    if (!hasAnyPermissionScope(session.user, 'canEditUsers')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to unlock accounts'
+      }, { status: 403 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    if (!hasPermission(session.user, 'canEditUsers', user.department)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to unlock accounts'
+      }, { status: 403 })
+    }
+
+    if (!isAccountLocked(user)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Account is not locked'
+      }, { status: 409 })
+    }
+
+    const unlockedUser = await AccountSecurityService.unlockAccount(user, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Account unlocked successfully',
+      user: unlockedUser
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Account unlock failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to unlock account'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
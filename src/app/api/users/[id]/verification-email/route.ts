@@ -0,0 +1,91 @@
+/**
+ * EMMA Healthcare Verification Email API
+ *
+ * Sends a user who has not verified their email address another
+ * verification link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { getUserManagementDenial } from '@/lib/user-management'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+interface VerificationEmailResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+/**
+ * POST /api/users/[id]/verification-email - Resend the email verification link
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: RouteContext
+): Promise<NextResponse<VerificationEmailResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    const { id } = await params
+    const user = await UserService.getUserRecord(id)
+
+    if (!user || user.institutionId !== session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'User not found'
+      }, { status: 404 })
+    }
+
+    const denial = getUserManagementDenial(session.user, user)
+    if (denial) {
+      return NextResponse.json({
+        success: false,
+        error: denial
+      }, { status: 403 })
+    }
+
+    if (user.emailVerified) {
+      return NextResponse.json({
+        success: false,
+        error: 'Email address is already verified'
+      }, { status: 409 })
+    }
+
+    await UserService.resendVerificationEmail(user, session.user.id)
+
+    return NextResponse.json({
+      success: true,
+      message: 'Verification email sent'
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Verification email failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send verification email'
+    }, { status: 500 })
+  }
+}
+
+// Only allow POST requests
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'Method not allowed' },
+    { status: 405 }
+  )
+}
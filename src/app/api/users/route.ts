@@ -0,0 +1,96 @@
+/**
+ * EMMA Healthcare Users API
+ *
+ * Lists an institution's users of every role - administrators, coordinators,
+ * faculty and residents - for the Users console.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { UserService } from '@/lib/database'
+import { USER_ROLES, USER_STATUSES } from '@/lib/user-management'
+import { getPermissionScope } from '@/lib/permissions'
+import { ExtendedUser } from '@/types/database'
+import { UserRole, UserStatus } from '@/types/user'
+
+// Import NextAuth configuration
+import { authOptions } from '@/app/api/auth/[...nextauth]/route'
+
+interface GetUsersResponse {
+  success: boolean
+  users?: ExtendedUser[]
+  total?: number
+  error?: string
+}
+
+/**
+ * GET /api/users - Fetch the institution's users (?role=&status=&search=)
+ */
+export async function GET(request: NextRequest): Promise<NextResponse<GetUsersResponse>> {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 })
+    }
+
+    // Users granted access by department only see those departments
+    const scope = getPermissionScope(session.user, 'canViewAllUsers')
+    if (scope !== 'ALL' && scope.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view users'
+      }, { status: 403 })
+    }
+
+    if (!session.user.institutionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'Institution ID is required'
+      }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const role = searchParams.get('role') || undefined
+    const status = searchParams.get('status') || undefined
+    const search = searchParams.get('search')?.trim() || undefined
+
+    if (role && !USER_ROLES.includes(role as UserRole)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid role. Expected one of: ${USER_ROLES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    if (status && !USER_STATUSES.includes(status as UserStatus)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid status. Expected one of: ${USER_STATUSES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const users = await UserService.getUsersByInstitution(session.user.institutionId, session.user.id, {
+      role: role as UserRole | undefined,
+      status: status as UserStatus | undefined,
+      search,
+      departments: scope === 'ALL' ? undefined : scope
+    })
+
+    return NextResponse.json({
+      success: true,
+      users,
+      total: users.length
+    })
+
+  } catch (error) {
+    console.error('[EMMA] Users fetch failed:', error)
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to retrieve users'
+    }, { status: 500 })
+  }
+}
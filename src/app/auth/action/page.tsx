@@ -8,9 +8,10 @@
 import React, { useEffect, useState } from 'react'
 import { useSearchParams } from 'next/navigation'
 import { auth } from '@/lib/firebase'
-import { applyActionCode, verifyPasswordResetCode, confirmPasswordReset } from 'firebase/auth'
-import { Box, Typography, Alert, CircularProgress, Button } from '@mui/material'
+import { applyActionCode } from 'firebase/auth'
+import { Box, Typography, Alert, CircularProgress, Button, TextField } from '@mui/material'
 import EMMACard from '@/components/emma/EMMACard'
+import { PasswordPolicy, describePasswordPolicy, validatePassword } from '@/lib/password-policy'
 
 type ActionMode = 'verifyEmail' | 'resetPassword' | 'recoverEmail'
 
@@ -20,6 +21,12 @@ export default function AuthActionPage() {
   const [message, setMessage] = useState('')
   const [error, setError] = useState('')
   const [actionMode, setActionMode] = useState<ActionMode | null>(null)
+  const [resetEmail, setResetEmail] = useState('')
+  const [passwordPolicy, setPasswordPolicy] = useState<PasswordPolicy | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [passwordError, setPasswordError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
 
   useEffect(() => {
     const handleAuthAction = async () => {
@@ -41,12 +48,20 @@ export default function AuthActionPage() {
             setMessage('✅ Email verified successfully! You can now sign in to your EMMA account.')
             break
 
-          case 'resetPassword':
-            // Verify the password reset code
-            await verifyPasswordResetCode(auth, actionCode)
-            setMessage('✅ Password reset code verified. Please set your new password.')
-            // You would typically show a password reset form here
+          case 'resetPassword': {
+            // Verify the code server-side and load the institution's password policy
+            const response = await fetch(`/api/auth/password-reset?oobCode=${encodeURIComponent(actionCode)}`)
+            const result = await response.json()
+
+            if (!response.ok || !result.success) {
+              setError(result.error || 'This password reset link is invalid or has expired.')
+              break
+            }
+
+            setResetEmail(result.email)
+            setPasswordPolicy(result.passwordPolicy)
             break
+          }
 
           case 'recoverEmail':
             await applyActionCode(auth, actionCode)
@@ -81,6 +96,50 @@ export default function AuthActionPage() {
     handleAuthAction()
   }, [searchParams])
 
+  const handlePasswordReset = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!passwordPolicy) return
+
+    const policyError = validatePassword(newPassword, passwordPolicy)
+    if (policyError) {
+      setPasswordError(policyError)
+      return
+    }
+
+    if (newPassword !== confirmPassword) {
+      setPasswordError('Passwords do not match')
+      return
+    }
+
+    setPasswordError('')
+    setSubmitting(true)
+
+    try {
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ oobCode: searchParams.get('oobCode'), newPassword }),
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        // Reuse and expired-link errors are only known server-side
+        setPasswordError(result.error || 'Failed to reset password. Please try again.')
+        return
+      }
+
+      setPasswordPolicy(null)
+      setMessage(`✅ ${result.message}`)
+    } catch (resetError) {
+      console.error('Password reset error:', resetError)
+      setPasswordError('Failed to reset password. Please check your connection and try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
   const getTitle = () => {
     switch (actionMode) {
       case 'verifyEmail':
@@ -150,6 +209,47 @@ export default function AuthActionPage() {
               </Alert>
             )}
 
+            {passwordPolicy && (
+              <Box component="form" onSubmit={handlePasswordReset} noValidate>
+                <Typography variant="body2" color="text.secondary" mb={2}>
+                  Set a new password for <strong>{resetEmail}</strong>.
+                </Typography>
+                <TextField
+                  fullWidth
+                  type="password"
+                  label="New Password"
+                  value={newPassword}
+                  onChange={(event) => setNewPassword(event.target.value)}
+                  helperText={describePasswordPolicy(passwordPolicy)}
+                  autoComplete="new-password"
+                  sx={{ mb: 2 }}
+                />
+                <TextField
+                  fullWidth
+                  type="password"
+                  label="Confirm New Password"
+                  value={confirmPassword}
+                  onChange={(event) => setConfirmPassword(event.target.value)}
+                  autoComplete="new-password"
+                  sx={{ mb: 2 }}
+                />
+                {passwordError && (
+                  <Alert severity="error" sx={{ mb: 2 }}>
+                    {passwordError}
+                  </Alert>
+                )}
+                <Button
+                  type="submit"
+                  variant="contained"
+                  color="primary"
+                  fullWidth
+                  disabled={submitting || !newPassword || !confirmPassword}
+                >
+                  {submitting ? 'Resetting...' : 'Reset Password'}
+                </Button>
+              </Box>
+            )}
+
             <Box textAlign="center" mt={3}>
               <Button 
                 variant="contained" 
@@ -13,11 +13,22 @@ import { Box, Typography, Alert, CircularProgress } from '@mui/material'
 import DashboardLayout from '@/components/layout/DashboardLayout'
 import DashboardOverview from '@/components/dashboard/DashboardOverview'
 import ManageResidents from '@/components/dashboard/ManageResidents'
+import UserManagement from '@/components/dashboard/UserManagement'
 import ClassAnalytics from '@/components/dashboard/ClassAnalytics'
 import ScheduleMatching from '@/components/dashboard/ScheduleMatching'
+import Evaluations from '@/components/dashboard/Evaluations'
+import AuditLogViewer from '@/components/dashboard/AuditLogViewer'
+import AccountSecurity from '@/components/dashboard/AccountSecurity'
+import InstitutionManagement from '@/components/dashboard/InstitutionManagement'
+import ResidentPortal from '@/components/dashboard/ResidentPortal'
+import FacultyPortal from '@/components/dashboard/FacultyPortal'
+import LeaveManagement from '@/components/dashboard/LeaveManagement'
+import ShiftSwapBoard from '@/components/dashboard/ShiftSwapBoard'
+import MfaEnrollmentModal from '@/components/modals/MfaEnrollmentModal'
+import { hasAnyPermissionScope } from '@/lib/permissions'
 
 export default function Dashboard() {
-  const { data: session, status } = useSession()
+  const { data: session, status, update } = useSession()
   const [currentSection, setCurrentSection] = useState('dashboard')
 
   if (status === 'loading') {
@@ -39,6 +50,8 @@ export default function Dashboard() {
     )
   }
 
+  const isResident = session?.user?.role === 'RESIDENT'
+
   // Handle section navigation
   const handleSectionChange = (sectionId: string) => {
     setCurrentSection(sectionId)
@@ -49,12 +62,30 @@ export default function Dashboard() {
     switch (currentSection) {
       case 'dashboard':
         return <DashboardOverview />
+      case 'my-portal':
+        return isResident ? <ResidentPortal /> : <DashboardOverview />
+      case 'faculty-portal':
+        return session?.user?.role === 'FACULTY' ? <FacultyPortal /> : <DashboardOverview />
       case 'manage-residents':
-        return <ManageResidents />
+        return isResident ? <ResidentPortal /> : <ManageResidents />
+      case 'users':
+        return hasAnyPermissionScope(session?.user, 'canViewAllUsers') ? <UserManagement /> : <DashboardOverview />
       case 'class-analytics':
-        return <ClassAnalytics />
+        return isResident ? <ResidentPortal /> : <ClassAnalytics />
       case 'schedule-matching':
-        return <ScheduleMatching />
+        return isResident ? <ResidentPortal /> : <ScheduleMatching />
+      case 'leave':
+        return <LeaveManagement />
+      case 'swaps':
+        return <ShiftSwapBoard />
+      case 'evaluations':
+        return <Evaluations />
+      case 'audit-log':
+        return session?.user?.permissions?.canViewAuditLogs ? <AuditLogViewer /> : <DashboardOverview />
+      case 'account-security':
+        return <AccountSecurity />
+      case 'institutions':
+        return session?.user?.isSuperAdmin ? <InstitutionManagement /> : <DashboardOverview />
       default:
         return <DashboardOverview />
     }
@@ -66,6 +97,13 @@ export default function Dashboard() {
       onSectionChange={handleSectionChange}
     >
       {renderCurrentSection()}
+
+      {/* Institution requires MFA for this role - re-issue the session once enrolled */}
+      <MfaEnrollmentModal
+        open={!!session?.user?.mfaEnrollmentRequired}
+        required
+        onEnrolled={() => update()}
+      />
     </DashboardLayout>
   )
 }
\ No newline at end of file
@@ -7,20 +7,38 @@
  * using EMMA design system components with HIPAA-compliant authentication.
  */
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { signIn } from 'next-auth/react'
 import { EMMALoginForm, EMMARegistrationForm } from '@/components/emma'
 import type { RegistrationFormData } from '@/components/emma/EMMARegistrationForm'
+import type { LoginFormData } from '@/types/emma'
+import { ACCOUNT_LOCKED_ERROR, PASSWORD_NOT_RECORDED_ERROR, PASSWORD_RESET_REQUIRED_ERROR } from '@/lib/password-policy'
+import { MFA_INVALID_ERROR, MFA_REQUIRED_ERROR } from '@/lib/mfa'
+import { useInstitutionDirectory } from '@/hooks/useInstitutions'
 
 type AuthMode = 'login' | 'register'
 
+const ACCOUNT_LOCKED_MESSAGE = 'This account is temporarily locked after too many failed sign-in attempts. Try again later, reset your password, or contact an administrator.'
+
 export default function Home() {
   const [authMode, setAuthMode] = useState<AuthMode>('login')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
+  const [mfaRequired, setMfaRequired] = useState(false)
+  const { data: institutions = [] } = useInstitutionDirectory()
+
+  // Sessions ended by the dashboard's inactivity handling return here with a reason
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get('reason')
+    if (reason === 'idle') {
+      setError('Your session ended after a period of inactivity. Please sign in again.')
+    } else if (reason === 'locked') {
+      setError(ACCOUNT_LOCKED_MESSAGE)
+    }
+  }, [])
 
-  const handleLogin = async (formData: { email: string; password: string; rememberMe: boolean }) => {
+  const handleLogin = async (formData: LoginFormData) => {
     setLoading(true)
     setError(null)
 
@@ -28,10 +46,26 @@ export default function Home() {
       const result = await signIn('credentials', {
         email: formData.email,
         password: formData.password,
+        // Second step resubmits the same credentials with the authentication code
+        mfaCode: mfaRequired ? formData.mfaCode : undefined,
         redirect: false,
       })
 
-      if (result?.error) {
+      if (result?.error === MFA_REQUIRED_ERROR) {
+        setMfaRequired(true)
+      } else if (result?.error === MFA_INVALID_ERROR) {
+        setError('Invalid authentication code. Please try again.')
+      } else if (result?.error === PASSWORD_RESET_REQUIRED_ERROR) {
+        setMfaRequired(false)
+        setError('An administrator has required a password reset for this account. Use the link sent to your email to choose a new password.')
+      } else if (result?.error === PASSWORD_NOT_RECORDED_ERROR) {
+        setMfaRequired(false)
+        setError('This password was changed outside EMMA and has not been checked against your institution\'s password policy. Ask an administrator for a password reset link.')
+      } else if (result?.error === ACCOUNT_LOCKED_ERROR) {
+        setMfaRequired(false)
+        setError(ACCOUNT_LOCKED_MESSAGE)
+      } else if (result?.error) {
+        setMfaRequired(false)
         setError('Invalid credentials. Please check your email and password.')
       } else if (result?.ok) {
         // Successful login - redirect will be handled by NextAuth
@@ -97,6 +131,7 @@ export default function Home() {
         loading={loading}
         error={error}
         onSwitchToLogin={switchToLogin}
+        institutions={institutions}
       />
     )
   }
@@ -110,6 +145,11 @@ export default function Home() {
       title="EMMA Healthcare"
       subtitle="Medical Education Administration"
       onSwitchToRegister={switchToRegister}
+      mfaRequired={mfaRequired}
+      onCancelMfa={() => {
+        setMfaRequired(false)
+        setError(null)
+      }}
     />
   )
 }
@@ -0,0 +1,103 @@
+/**
+ * EMMA Healthcare Account Security
+ *
+ * The signed-in user's multi-factor authentication status, with enrolment
+ * of an authenticator app.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+} from '@mui/material'
+import { Security as SecurityIcon } from '@mui/icons-material'
+import { format } from 'date-fns'
+import { EMMACard } from '@/components/emma'
+import MfaEnrollmentModal from '@/components/modals/MfaEnrollmentModal'
+import { useMfaStatus } from '@/hooks/useMfa'
+
+const AccountSecurity: React.FC = () => {
+  const { data: status, isLoading, isError, error } = useMfaStatus()
+  const [enrollOpen, setEnrollOpen] = useState(false)
+
+  if (isLoading) {
+    return (
+      <Box display="flex" alignItems="center" justifyContent="center" py={6}>
+        <CircularProgress size={28} />
+        <Typography sx={{ ml: 2 }}>Loading security settings...</Typography>
+      </Box>
+    )
+  }
+
+  if (isError || !status) {
+    return (
+      <Alert severity="error">
+        {error instanceof Error ? error.message : 'Failed to load security settings'}
+      </Alert>
+    )
+  }
+
+  return (
+    <Box>
+      <EMMACard elevation={2}>
+        <Box display="flex" alignItems="flex-start" gap={2}>
+          <SecurityIcon color="primary" sx={{ fontSize: 32, mt: 0.5 }} />
+          <Box flex={1}>
+            <Box display="flex" alignItems="center" gap={1} mb={1}>
+              <Typography variant="h6" fontWeight="bold">
+                Multi-Factor Authentication
+              </Typography>
+              <Chip
+                label={status.enabled ? 'Enabled' : 'Not Enabled'}
+                color={status.enabled ? 'success' : 'default'}
+                size="small"
+              />
+              {status.required && <Chip label="Required" color="warning" size="small" variant="outlined" />}
+            </Box>
+
+            <Typography variant="body2" color="text.secondary" mb={2}>
+              Sign-in asks for a code from your authenticator app after your password.
+            </Typography>
+
+            {status.enabled ? (
+              <>
+                {status.enrolledAt && (
+                  <Typography variant="body2">
+                    Enrolled on {format(new Date(status.enrolledAt), 'MMM d, yyyy')}
+                  </Typography>
+                )}
+                <Typography variant="body2" mb={2}>
+                  Recovery codes remaining: <strong>{status.recoveryCodesRemaining}</strong>
+                </Typography>
+                {status.recoveryCodesRemaining <= 2 && (
+                  <Alert severity="warning">
+                    You are running out of recovery codes. Ask an administrator to reset MFA so you
+                    can enrol again and receive a new set.
+                  </Alert>
+                )}
+              </>
+            ) : (
+              <Button variant="contained" onClick={() => setEnrollOpen(true)}>
+                Set Up Authenticator App
+              </Button>
+            )}
+          </Box>
+        </Box>
+      </EMMACard>
+
+      <MfaEnrollmentModal
+        open={enrollOpen}
+        onClose={() => setEnrollOpen(false)}
+        onEnrolled={() => setEnrollOpen(false)}
+      />
+    </Box>
+  )
+}
+
+export default AccountSecurity
@@ -0,0 +1,432 @@
+/**
+ * EMMA Healthcare Audit Log Viewer
+ *
+ * Compliance explorer for the HIPAA audit log: filtering, paging through
+ * entries, CSV/JSON export and hash-chain verification.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Tooltip,
+  Collapse,
+} from '@mui/material'
+import {
+  Refresh as RefreshIcon,
+  Download as DownloadIcon,
+  VerifiedUser as VerifyIcon,
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { EMMACard } from '@/components/emma'
+import { getAuditExportUrl, useAuditLogs, useVerifyAuditChain } from '@/hooks/useAuditLogs'
+import {
+  AUDIT_ACTION_CATEGORIES,
+  AUDIT_CATEGORY_LABELS,
+  AUDIT_EXPORT_MAX_ROWS,
+  AuditActionCategory,
+  AuditLogEntry,
+  AuditLogFilters,
+} from '@/lib/audit-log'
+
+// Form state keeps every field as a string until the filters are applied
+interface FilterForm {
+  userId: string
+  action: string
+  actionCategory: AuditActionCategory | ''
+  resourceType: string
+  resourceId: string
+  from: string
+  to: string
+  outcome: '' | 'success' | 'failure'
+}
+
+const EMPTY_FORM: FilterForm = {
+  userId: '',
+  action: '',
+  actionCategory: '',
+  resourceType: '',
+  resourceId: '',
+  from: '',
+  to: '',
+  outcome: '',
+}
+
+const toFilters = (form: FilterForm): AuditLogFilters => ({
+  userId: form.userId.trim() || undefined,
+  action: form.action.trim() || undefined,
+  actionCategory: form.actionCategory || undefined,
+  resourceType: form.resourceType.trim() || undefined,
+  resourceId: form.resourceId.trim() || undefined,
+  from: form.from || undefined,
+  to: form.to || undefined,
+  success: form.outcome === '' ? undefined : form.outcome === 'success',
+})
+
+const formatTimestamp = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+
+const AuditLogViewer: React.FC = () => {
+  const { data: session } = useSession()
+  const canExport = !!session?.user?.permissions?.canExportData
+
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM)
+  // Queries run only on apply - every fetch writes an audit entry
+  const [filters, setFilters] = useState<AuditLogFilters>({})
+  const [includePhi, setIncludePhi] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useAuditLogs(filters, includePhi)
+  const verifyChain = useVerifyAuditChain()
+
+  const entries = data?.pages.flatMap(page => page.entries) ?? []
+
+  const handleFormChange = (field: keyof FilterForm) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(previous => ({ ...previous, [field]: event.target.value }))
+  }
+
+  const handleApply = () => {
+    setExpandedId(null)
+    setFilters(toFilters(form))
+  }
+
+  const handleClear = () => {
+    setForm(EMPTY_FORM)
+    setExpandedId(null)
+    setFilters({})
+  }
+
+  const renderDetails = (entry: AuditLogEntry) => (
+    <Box sx={{ p: 2, bgcolor: 'grey.50', borderRadius: 1 }}>
+      <Grid container spacing={2}>
+        <Grid item xs={12} md={6}>
+          <Typography variant="subtitle2" gutterBottom>Details</Typography>
+          <Box component="pre" sx={{ m: 0, fontSize: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {entry.details && Object.keys(entry.details).length > 0 ? JSON.stringify(entry.details, null, 2) : '—'}
+          </Box>
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <Typography variant="subtitle2" gutterBottom>Protected Details</Typography>
+          {!entry.encrypted && <Typography variant="body2" color="text.secondary">None</Typography>}
+          {entry.encrypted && entry.phiDetails && (
+            <Box component="pre" sx={{ m: 0, fontSize: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+              {JSON.stringify(entry.phiDetails, null, 2)}
+            </Box>
+          )}
+          {entry.encrypted && entry.phiDetails === undefined && (
+            <Typography variant="body2" color="text.secondary">Encrypted - turn on &quot;Show protected details&quot; to view</Typography>
+          )}
+          {entry.encrypted && entry.phiDetails === null && (
+            <Typography variant="body2" color="warning.main">Encrypted with a key that is no longer available</Typography>
+          )}
+          <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 2, wordBreak: 'break-all' }}>
+            Sequence {entry.sequence ?? '—'} · Hash {entry.hash ?? '—'}
+          </Typography>
+        </Grid>
+      </Grid>
+    </Box>
+  )
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" color="primary.main">
+            HIPAA Audit Log
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Viewing and exporting the audit log is itself recorded
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2} alignItems="center">
+          <IconButton
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh audit log"
+            sx={{
+              bgcolor: 'grey.100',
+              '&:hover': { bgcolor: 'grey.200' }
+            }}
+          >
+            <RefreshIcon />
+          </IconButton>
+          <Button
+            variant="outlined"
+            startIcon={verifyChain.isPending ? <CircularProgress size={16} /> : <VerifyIcon />}
+            onClick={() => verifyChain.mutate()}
+            disabled={verifyChain.isPending}
+          >
+            Verify Integrity
+          </Button>
+          {canExport && (
+            <>
+              <Button
+                variant="outlined"
+                startIcon={<DownloadIcon />}
+                href={getAuditExportUrl(filters, 'csv', includePhi)}
+              >
+                CSV
+              </Button>
+              <Button
+                variant="outlined"
+                startIcon={<DownloadIcon />}
+                href={getAuditExportUrl(filters, 'json', includePhi)}
+              >
+                JSON
+              </Button>
+            </>
+          )}
+        </Box>
+      </Box>
+
+      {verifyChain.data && (
+        <Alert
+          severity={verifyChain.data.valid ? 'success' : 'error'}
+          sx={{ mb: 3 }}
+          onClose={() => verifyChain.reset()}
+        >
+          {verifyChain.data.valid
+            ? `Audit chain intact: ${verifyChain.data.entriesChecked} entries verified.`
+            : `Audit chain verification found ${verifyChain.data.issues.length} issue${verifyChain.data.issues.length === 1 ? '' : 's'}:`}
+          {!verifyChain.data.valid && (
+            <Box component="ul" sx={{ m: 0, pl: 2 }}>
+              {verifyChain.data.issues.slice(0, 10).map(issue => (
+                <li key={`${issue.type}-${issue.sequence}-${issue.entryId}`}>{issue.message}</li>
+              ))}
+            </Box>
+          )}
+        </Alert>
+      )}
+
+      {verifyChain.isError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => verifyChain.reset()}>
+          {verifyChain.error instanceof Error ? verifyChain.error.message : 'Failed to verify audit chain'}
+        </Alert>
+      )}
+
+      <EMMACard elevation={2} sx={{ mb: 3 }}>
+        <Grid container spacing={2}>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField fullWidth size="small" label="User ID" value={form.userId} onChange={handleFormChange('userId')} />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Action"
+              placeholder="e.g. LOGIN_FAILED"
+              value={form.action}
+              onChange={handleFormChange('action')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Category"
+              value={form.actionCategory}
+              onChange={handleFormChange('actionCategory')}
+            >
+              <MenuItem value="">All Categories</MenuItem>
+              {AUDIT_ACTION_CATEGORIES.map(category => (
+                <MenuItem key={category} value={category}>
+                  {AUDIT_CATEGORY_LABELS[category]}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Outcome"
+              value={form.outcome}
+              onChange={handleFormChange('outcome')}
+            >
+              <MenuItem value="">All Outcomes</MenuItem>
+              <MenuItem value="success">Success</MenuItem>
+              <MenuItem value="failure">Failure</MenuItem>
+            </TextField>
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Resource Type"
+              placeholder="e.g. USER"
+              value={form.resourceType}
+              onChange={handleFormChange('resourceType')}
+            />
+          </Grid>
+          <Grid item xs={12} sm={6} md={3}>
+            <TextField fullWidth size="small" label="Resource ID" value={form.resourceId} onChange={handleFormChange('resourceId')} />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="From"
+              value={form.from}
+              onChange={handleFormChange('from')}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="To"
+              value={form.to}
+              onChange={handleFormChange('to')}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+        </Grid>
+        <Box display="flex" justifyContent="space-between" alignItems="center" mt={2}>
+          <Tooltip title="Decrypt names, emails and other protected fields. Access is recorded in the audit log.">
+            <FormControlLabel
+              control={<Switch checked={includePhi} onChange={(event) => setIncludePhi(event.target.checked)} />}
+              label="Show protected details"
+            />
+          </Tooltip>
+          <Box display="flex" gap={1}>
+            <Button onClick={handleClear}>Clear</Button>
+            <Button variant="contained" onClick={handleApply}>Apply Filters</Button>
+          </Box>
+        </Box>
+      </EMMACard>
+
+      {canExport && (
+        <Typography variant="caption" color="text.secondary" display="block" sx={{ mb: 1 }}>
+          Exports include up to {AUDIT_EXPORT_MAX_ROWS.toLocaleString()} entries matching the current filters.
+        </Typography>
+      )}
+
+      <EMMACard elevation={2}>
+        {isLoading ? (
+          <Box display="flex" alignItems="center" justifyContent="center" py={6}>
+            <CircularProgress size={28} />
+            <Typography sx={{ ml: 2 }}>Loading audit log...</Typography>
+          </Box>
+        ) : isError ? (
+          <Alert severity="error">
+            {error instanceof Error ? error.message : 'Failed to load audit log'}
+          </Alert>
+        ) : entries.length === 0 ? (
+          <Box textAlign="center" py={6}>
+            <Typography color="text.secondary">No audit entries match these filters</Typography>
+          </Box>
+        ) : (
+          <>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell width={40} />
+                    <TableCell>Time</TableCell>
+                    <TableCell>Action</TableCell>
+                    <TableCell>Category</TableCell>
+                    <TableCell>Outcome</TableCell>
+                    <TableCell>User</TableCell>
+                    <TableCell>Resource</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {entries.map(entry => (
+                    <React.Fragment key={entry.id}>
+                      <TableRow hover>
+                        <TableCell>
+                          <IconButton
+                            size="small"
+                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          >
+                            {expandedId === entry.id ? <CollapseIcon fontSize="small" /> : <ExpandIcon fontSize="small" />}
+                          </IconButton>
+                        </TableCell>
+                        <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTimestamp(entry.timestamp)}</TableCell>
+                        <TableCell>
+                          <Typography variant="body2" fontFamily="monospace">{entry.action}</Typography>
+                        </TableCell>
+                        <TableCell>{AUDIT_CATEGORY_LABELS[entry.actionCategory]}</TableCell>
+                        <TableCell>
+                          <Chip
+                            label={entry.success ? 'Success' : 'Failure'}
+                            color={entry.success ? 'success' : 'error'}
+                            size="small"
+                            variant="outlined"
+                          />
+                        </TableCell>
+                        <TableCell>{entry.userId || '—'}</TableCell>
+                        <TableCell>
+                          {entry.resourceType ? `${entry.resourceType}${entry.resourceId ? ` · ${entry.resourceId}` : ''}` : '—'}
+                        </TableCell>
+                      </TableRow>
+                      <TableRow>
+                        <TableCell colSpan={7} sx={{ py: 0, borderBottom: expandedId === entry.id ? undefined : 'none' }}>
+                          <Collapse in={expandedId === entry.id} unmountOnExit>
+                            <Box sx={{ py: 2 }}>{renderDetails(entry)}</Box>
+                          </Collapse>
+                        </TableCell>
+                      </TableRow>
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            {hasNextPage && (
+              <Box textAlign="center" mt={2}>
+                <Button onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                  {isFetchingNextPage ? 'Loading...' : 'Load More'}
+                </Button>
+              </Box>
+            )}
+          </>
+        )}
+      </EMMACard>
+    </Box>
+  )
+}
+
+export default AuditLogViewer
@@ -0,0 +1,386 @@
+/**
+ * EMMA Healthcare Call Schedule Panel
+ *
+ * Generates the night, weekend and holiday call roster for an academic year,
+ * shows how evenly call is shared, and lets coordinators reassign shifts and
+ * publish the roster.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stack,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material'
+import { NightsStay as CallIcon, Publish as PublishIcon } from '@mui/icons-material'
+import { format } from 'date-fns'
+import { useSession } from 'next-auth/react'
+import { EMMAButton } from '@/components/emma'
+import {
+  useGenerateCallSchedule,
+  usePublishSchedule,
+  useSchedules,
+  useUpdateCallShifts,
+} from '@/hooks/useSchedules'
+import { useResidents } from '@/hooks/useResidents'
+import { CALL_TYPE_LABELS, getCallShiftDate } from '@/lib/call-scheduler'
+import { formatDate, getAcademicYear } from '@/lib/date-utils'
+import { CallType, Rotation, ScheduleAssignment } from '@/types/database'
+
+interface CallSchedulePanelProps {
+  rotations: Rotation[]
+}
+
+const CALL_TYPE_COLORS: Record<CallType, 'default' | 'info' | 'warning'> = {
+  NIGHT: 'default',
+  WEEKEND: 'info',
+  HOLIDAY: 'warning',
+}
+
+interface ShiftRow {
+  assignment: ScheduleAssignment
+  date: string
+}
+
+const CallSchedulePanel: React.FC<CallSchedulePanelProps> = ({ rotations }) => {
+  const { data: session } = useSession()
+  const currentYear = getAcademicYear()
+  const nextYear = getAcademicYear(new Date(new Date().getFullYear() + 1, new Date().getMonth(), 1))
+  const [academicYear, setAcademicYear] = useState(currentYear)
+  const [month, setMonth] = useState('')
+  const [reassigning, setReassigning] = useState<ShiftRow | null>(null)
+  const [reassignTo, setReassignTo] = useState('')
+
+  const { data: schedules = [], isLoading: schedulesLoading } = useSchedules({ academicYear, type: 'CALL' })
+  const { data: residents = [] } = useResidents()
+  const generateCallSchedule = useGenerateCallSchedule()
+  const updateCallShifts = useUpdateCallShifts()
+  const publishSchedule = usePublishSchedule()
+
+  const canCreate = !!session?.user?.permissions?.canCreateSchedules
+  const canEdit = !!session?.user?.permissions?.canEditSchedules
+
+  // Review the newest draft if there is one, otherwise the live roster
+  const draftSchedule = schedules.find(schedule => schedule.status === 'DRAFT')
+  const publishedSchedule = schedules.find(schedule => schedule.status === 'PUBLISHED')
+  const schedule = draftSchedule ?? publishedSchedule
+  const report = schedule?.callReport
+
+  const rotationNames = useMemo(
+    () => new Map(rotations.map(rotation => [rotation.id, rotation.name])),
+    [rotations]
+  )
+  const residentNames = useMemo(
+    () => new Map(residents.map(resident => [resident.id, `${resident.firstName} ${resident.lastName}`])),
+    [residents]
+  )
+
+  const shifts = useMemo<ShiftRow[]>(() => {
+    if (!schedule) return []
+    return schedule.assignments
+      .map(assignment => ({ assignment, date: getCallShiftDate(assignment) ?? '' }))
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.assignment.rotationId ?? '').localeCompare(b.assignment.rotationId ?? ''))
+  }, [schedule])
+
+  const months = useMemo(
+    () => Array.from(new Set(shifts.map(shift => shift.date.slice(0, 7)))),
+    [shifts]
+  )
+  const selectedMonth = months.includes(month) ? month : months[0] ?? ''
+  const monthShifts = shifts.filter(shift => shift.date.startsWith(selectedMonth))
+
+  const handleGenerate = () => {
+    generateCallSchedule.mutate({ academicYear })
+  }
+
+  const handlePublish = () => {
+    if (draftSchedule) publishSchedule.mutate(draftSchedule.id)
+  }
+
+  const openReassign = (shift: ShiftRow) => {
+    updateCallShifts.reset()
+    setReassigning(shift)
+    setReassignTo('')
+  }
+
+  const handleReassign = () => {
+    if (!schedule || !reassigning?.assignment.rotationId || !reassignTo) return
+
+    updateCallShifts.mutate(
+      {
+        scheduleId: schedule.id,
+        changes: [{ rotationId: reassigning.assignment.rotationId, date: reassigning.date, residentId: reassignTo }]
+      },
+      { onSuccess: () => setReassigning(null) }
+    )
+  }
+
+  const mutationError = generateCallSchedule.error ?? publishSchedule.error
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Call Schedule
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Build a fair call roster from the published rotation schedule, honouring call limits, PGY rules, leave and post-call days off
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Academic Year</InputLabel>
+            <Select
+              value={academicYear}
+              onChange={(e) => setAcademicYear(e.target.value as string)}
+              label="Academic Year"
+            >
+              <MenuItem value={currentYear}>{currentYear}</MenuItem>
+              <MenuItem value={nextYear}>{nextYear}</MenuItem>
+            </Select>
+          </FormControl>
+          {canCreate && (
+            <EMMAButton
+              emmaVariant="medical-primary"
+              startIcon={generateCallSchedule.isPending ? <CircularProgress size={16} color="inherit" /> : <CallIcon />}
+              onClick={handleGenerate}
+              disabled={generateCallSchedule.isPending}
+            >
+              {generateCallSchedule.isPending ? 'Generating...' : 'Generate Call'}
+            </EMMAButton>
+          )}
+          {canEdit && draftSchedule && (
+            <EMMAButton
+              emmaVariant="medical-secondary"
+              startIcon={publishSchedule.isPending ? <CircularProgress size={16} color="inherit" /> : <PublishIcon />}
+              onClick={handlePublish}
+              disabled={publishSchedule.isPending}
+            >
+              Publish
+            </EMMAButton>
+          )}
+        </Box>
+      </Box>
+
+      {mutationError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {mutationError instanceof Error ? mutationError.message : 'Failed to update call schedule'}
+        </Alert>
+      )}
+
+      {schedulesLoading && (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={32} />
+          <Typography sx={{ ml: 2 }}>Loading call schedule...</Typography>
+        </Box>
+      )}
+
+      {!schedulesLoading && !schedule && (
+        <Typography variant="body1" color="text.secondary" textAlign="center" py={6}>
+          No call schedule exists for {academicYear}. Generate one once the rotation schedule is published.
+        </Typography>
+      )}
+
+      {schedule && (
+        <>
+          <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
+            <Chip
+              label={schedule.status === 'DRAFT' ? 'Draft' : 'Published'}
+              color={schedule.status === 'DRAFT' ? 'default' : 'success'}
+              size="small"
+            />
+            {report && (
+              <>
+                <Chip
+                  label={`${report.filledNights} of ${report.totalNights} nights covered`}
+                  color={report.unfilledNights.length > 0 ? 'warning' : 'primary'}
+                  size="small"
+                />
+                <Chip label={`${report.rotationCount} call rotations`} size="small" />
+                <Chip label={`${report.holidays.length} holidays`} size="small" />
+                <Chip label={`Generated ${formatDate(report.generatedAt)}`} variant="outlined" size="small" />
+              </>
+            )}
+            {schedule.conflicts && schedule.conflicts.length > 0 && (
+              <Chip label={`${schedule.conflicts.length} schedule conflicts`} color="error" variant="outlined" size="small" />
+            )}
+          </Box>
+
+          {report && report.unfilledNights.length > 0 && (
+            <Stack spacing={1} mb={3} sx={{ maxHeight: 240, overflowY: 'auto' }}>
+              {report.unfilledNights.map(night => (
+                <Alert key={`${night.rotationId}-${night.date}`} severity="warning" variant="outlined">
+                  {formatDate(night.date)}: {night.reason}
+                </Alert>
+              ))}
+            </Stack>
+          )}
+
+          {report && report.distribution.length > 0 && (
+            <>
+              <Typography variant="subtitle1" fontWeight="medium" gutterBottom>
+                Call Distribution
+              </Typography>
+              <TableContainer sx={{ mb: 3 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Resident</TableCell>
+                      <TableCell align="right">Total</TableCell>
+                      <TableCell align="right">Weekend</TableCell>
+                      <TableCell align="right">Holiday</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.distribution.map(entry => (
+                      <TableRow key={entry.residentId} hover>
+                        <TableCell>{residentNames.get(entry.residentId) ?? entry.residentId}</TableCell>
+                        <TableCell align="right">{entry.total}</TableCell>
+                        <TableCell align="right">{entry.weekend}</TableCell>
+                        <TableCell align="right">{entry.holiday}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+            <Typography variant="subtitle1" fontWeight="medium">
+              Call Shifts
+            </Typography>
+            {months.length > 0 && (
+              <FormControl size="small" sx={{ minWidth: 160 }}>
+                <InputLabel>Month</InputLabel>
+                <Select
+                  value={selectedMonth}
+                  onChange={(e) => setMonth(e.target.value as string)}
+                  label="Month"
+                >
+                  {months.map(value => (
+                    <MenuItem key={value} value={value}>
+                      {format(new Date(`${value}-01T00:00:00`), 'MMMM yyyy')}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+          </Box>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Rotation</TableCell>
+                  <TableCell>Call</TableCell>
+                  <TableCell>Resident</TableCell>
+                  {canEdit && <TableCell align="right">Actions</TableCell>}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {monthShifts.map(shift => (
+                  <TableRow key={`${shift.assignment.rotationId}-${shift.date}`} hover>
+                    <TableCell>{formatDate(shift.date)}</TableCell>
+                    <TableCell>
+                      {shift.assignment.rotationId ? rotationNames.get(shift.assignment.rotationId) ?? shift.assignment.rotationId : '—'}
+                    </TableCell>
+                    <TableCell>
+                      {shift.assignment.callType && (
+                        <Chip
+                          label={CALL_TYPE_LABELS[shift.assignment.callType]}
+                          color={CALL_TYPE_COLORS[shift.assignment.callType]}
+                          size="small"
+                          variant="outlined"
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>{residentNames.get(shift.assignment.residentId) ?? shift.assignment.residentId}</TableCell>
+                    {canEdit && (
+                      <TableCell align="right">
+                        <Button size="small" onClick={() => openReassign(shift)}>
+                          Reassign
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+
+      {/* Reassign Dialog */}
+      <Dialog open={!!reassigning} onClose={() => setReassigning(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Reassign Call Shift</DialogTitle>
+        <DialogContent>
+          {updateCallShifts.isError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {updateCallShifts.error instanceof Error ? updateCallShifts.error.message : 'Failed to reassign shift'}
+            </Alert>
+          )}
+          {reassigning && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {formatDate(reassigning.date)} {rotationNames.get(reassigning.assignment.rotationId ?? '') ?? ''} call,
+              currently {residentNames.get(reassigning.assignment.residentId) ?? reassigning.assignment.residentId}.
+              {schedule?.status === 'PUBLISHED' && ' The published roster updates immediately.'}
+            </Typography>
+          )}
+          <FormControl fullWidth size="small">
+            <InputLabel>New Resident</InputLabel>
+            <Select
+              value={reassignTo}
+              onChange={(e) => setReassignTo(e.target.value as string)}
+              label="New Resident"
+            >
+              {residents
+                .filter(resident => resident.id !== reassigning?.assignment.residentId)
+                .map(resident => (
+                  <MenuItem key={resident.id} value={resident.id}>
+                    {resident.firstName} {resident.lastName}{resident.pgyLevel ? ` (PGY-${resident.pgyLevel})` : ''}
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setReassigning(null)} disabled={updateCallShifts.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleReassign}
+            disabled={updateCallShifts.isPending || !reassignTo}
+          >
+            Reassign
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default CallSchedulePanel
@@ -0,0 +1,295 @@
+/**
+ * EMMA Healthcare Clinical Competency Committee Report Panel
+ *
+ * Semi-annual milestone review: each resident's level trajectory per
+ * sub-competency, with residents who are not progressing listed first.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Collapse,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import {
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material'
+import { useCccReport } from '@/hooks/useMilestones'
+import { getAcademicYear } from '@/lib/date-utils'
+import {
+  CccHalf,
+  CORE_COMPETENCY_LABELS,
+  MilestoneProgressFlag,
+  ResidentMilestoneReport,
+} from '@/lib/milestones'
+
+const FLAG_LABELS: Record<MilestoneProgressFlag, string> = {
+  BELOW_EXPECTED: 'Below expected',
+  REGRESSION: 'Regression',
+  NO_PROGRESS: 'No progress',
+  NOT_ASSESSED: 'Not assessed',
+}
+
+const FLAG_COLORS: Record<MilestoneProgressFlag, 'error' | 'warning' | 'info' | 'default'> = {
+  BELOW_EXPECTED: 'error',
+  REGRESSION: 'error',
+  NO_PROGRESS: 'warning',
+  NOT_ASSESSED: 'default',
+}
+
+// The current academic year and the two before it
+const getAcademicYearOptions = (): string[] => {
+  const current = getAcademicYear()
+  const startYear = Number(current.slice(0, 4))
+  return [0, 1, 2].map(offset => `${startYear - offset}-${startYear - offset + 1}`)
+}
+
+const formatLevel = (level: number | null): string => (level === null ? '-' : level.toFixed(1))
+
+const formatDepartment = (department?: string): string =>
+  department ? department.replace(/_/g, ' ') : 'Unassigned'
+
+const ResidentRow: React.FC<{ resident: ResidentMilestoneReport; periodCount: number }> = ({ resident, periodCount }) => {
+  const [open, setOpen] = useState(false)
+  const flagged = (Object.keys(resident.flagCounts) as MilestoneProgressFlag[])
+    .filter(flag => flag !== 'NOT_ASSESSED' && resident.flagCounts[flag] > 0)
+
+  return (
+    <>
+      <TableRow hover>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)}>
+            {open ? <CollapseIcon fontSize="small" /> : <ExpandIcon fontSize="small" />}
+          </IconButton>
+        </TableCell>
+        <TableCell>
+          <Typography variant="body2" fontWeight="medium">
+            {resident.name}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {formatDepartment(resident.department)}
+          </Typography>
+        </TableCell>
+        <TableCell>{resident.pgyLevel ? `PGY-${resident.pgyLevel}` : '-'}</TableCell>
+        <TableCell align="center">{formatLevel(resident.expectedLevel)}</TableCell>
+        <TableCell align="center">{resident.evaluationCount}</TableCell>
+        <TableCell>
+          <Box display="flex" gap={0.5} flexWrap="wrap">
+            {resident.notProgressing && <Chip label="Not progressing" color="error" size="small" />}
+            {flagged.map(flag => (
+              <Chip
+                key={flag}
+                label={`${FLAG_LABELS[flag]} (${resident.flagCounts[flag]})`}
+                color={FLAG_COLORS[flag]}
+                size="small"
+                variant="outlined"
+              />
+            ))}
+            {resident.flagCounts.NOT_ASSESSED > 0 && (
+              <Chip
+                label={`${resident.flagCounts.NOT_ASSESSED} of ${resident.subCompetencies.length} not assessed`}
+                size="small"
+                variant="outlined"
+              />
+            )}
+          </Box>
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell colSpan={6} sx={{ py: 0, borderBottom: open ? undefined : 'none' }}>
+          <Collapse in={open} unmountOnExit>
+            <Box sx={{ py: 2 }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Sub-competency</TableCell>
+                    {resident.subCompetencies[0]?.trajectory.map(point => (
+                      <TableCell key={point.periodKey} align="center">
+                        {point.label}
+                      </TableCell>
+                    ))}
+                    <TableCell>Flags</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {resident.subCompetencies.map(progress => (
+                    <TableRow key={progress.milestoneId}>
+                      <TableCell>
+                        <Typography variant="body2">
+                          {progress.milestoneId} - {progress.name}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {CORE_COMPETENCY_LABELS[progress.competency]}
+                        </Typography>
+                      </TableCell>
+                      {progress.trajectory.map((point, index) => (
+                        <TableCell
+                          key={point.periodKey}
+                          align="center"
+                          sx={{ fontWeight: index === periodCount - 1 ? 'bold' : undefined }}
+                        >
+                          {formatLevel(point.level)}
+                        </TableCell>
+                      ))}
+                      <TableCell>
+                        <Box display="flex" gap={0.5} flexWrap="wrap">
+                          {progress.flags.map(flag => (
+                            <Chip key={flag} label={FLAG_LABELS[flag]} color={FLAG_COLORS[flag]} size="small" />
+                          ))}
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  )
+}
+
+const CccReportPanel: React.FC = () => {
+  const academicYearOptions = useMemo(() => getAcademicYearOptions(), [])
+  const [academicYear, setAcademicYear] = useState(academicYearOptions[0])
+  const [half, setHalf] = useState<CccHalf>(new Date().getMonth() >= 6 ? 'MID' : 'END')
+  const [department, setDepartment] = useState('')
+  const [notProgressingOnly, setNotProgressingOnly] = useState(false)
+
+  const { data: report, isLoading, isError, error, refetch } = useCccReport({ academicYear, half })
+
+  const departments = useMemo(
+    () => Array.from(new Set((report?.residents ?? []).map(resident => resident.department ?? ''))).sort(),
+    [report]
+  )
+
+  const residents = useMemo(
+    () => (report?.residents ?? []).filter(resident =>
+      (!department || (resident.department ?? '') === department) &&
+      (!notProgressingOnly || resident.notProgressing)
+    ),
+    [report, department, notProgressingOnly]
+  )
+
+  const periodCount = report?.residents[0]?.subCompetencies[0]?.trajectory.length ?? 0
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" flexWrap="wrap" gap={2} mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Clinical Competency Committee Report
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Milestone levels from approved evaluations, compared with the level expected for each resident&apos;s PGY year
+          </Typography>
+        </Box>
+        <Box display="flex" alignItems="center" gap={2} flexWrap="wrap">
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <InputLabel>Academic Year</InputLabel>
+            <Select label="Academic Year" value={academicYear} onChange={(e) => setAcademicYear(e.target.value)}>
+              {academicYearOptions.map(option => (
+                <MenuItem key={option} value={option}>{option}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 130 }}>
+            <InputLabel>Review</InputLabel>
+            <Select label="Review" value={half} onChange={(e) => setHalf(e.target.value as CccHalf)}>
+              <MenuItem value="MID">Mid-Year</MenuItem>
+              <MenuItem value="END">Year-End</MenuItem>
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel>Department</InputLabel>
+            <Select label="Department" value={department} onChange={(e) => setDepartment(e.target.value)}>
+              <MenuItem value="">All Departments</MenuItem>
+              {departments.map(option => (
+                <MenuItem key={option || 'none'} value={option}>{formatDepartment(option)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControlLabel
+            control={<Switch checked={notProgressingOnly} onChange={(e) => setNotProgressingOnly(e.target.checked)} />}
+            label="Not progressing only"
+          />
+        </Box>
+      </Box>
+
+      {isLoading ? (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={32} />
+          <Typography sx={{ ml: 2 }}>Building CCC report...</Typography>
+        </Box>
+      ) : isError ? (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load CCC report: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      ) : report && (
+        <>
+          <Alert severity={report.notProgressingCount > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+            {report.periodLabel}: {report.notProgressingCount} of {report.residentCount} residents flagged as not progressing
+          </Alert>
+
+          {residents.length === 0 ? (
+            <Box py={6} textAlign="center">
+              <Typography variant="body2" color="text.secondary">
+                No residents match the selected filters
+              </Typography>
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell padding="checkbox" />
+                    <TableCell>Resident</TableCell>
+                    <TableCell>PGY</TableCell>
+                    <TableCell align="center">Expected Level</TableCell>
+                    <TableCell align="center">Evaluations</TableCell>
+                    <TableCell>Flags</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {residents.map(resident => (
+                    <ResidentRow key={resident.residentId} resident={resident} periodCount={periodCount} />
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </>
+      )}
+    </Box>
+  )
+}
+
+export default CccReportPanel
@@ -28,36 +28,84 @@ import {
   TableRow,
   Tabs,
   Tab,
+  TextField,
+  Alert,
+  Button,
+  CircularProgress,
 } from '@mui/material'
 import {
   TrendingUp as TrendingUpIcon,
   TrendingDown as TrendingDownIcon,
+  TrendingFlat as TrendingFlatIcon,
   Assessment as AssessmentIcon,
   School as SchoolIcon,
 } from '@mui/icons-material'
 import { EMMACard } from '@/components/emma'
+import { useClassAnalytics } from '@/hooks/useAnalytics'
+import { formatDate } from '@/lib/date-utils'
+import type { AnalyticsTheme, AnalyticsTimeRange } from '@/lib/analytics'
+import { Department } from '@/types/user'
 
-// Mock analytics data
-const mockAnalytics = {
-  classPerformance: {
-    averageScore: 87.3,
-    trend: '+2.1%',
-    totalEvaluations: 234,
-    completionRate: 89.2,
-  },
-  departmentStats: [
-    { department: 'Emergency Medicine', avgScore: 88.1, residents: 23, color: '#ef4444' },
-    { department: 'Internal Medicine', avgScore: 86.7, residents: 31, color: '#f59e0b' },
-    { department: 'Surgery', avgScore: 89.4, residents: 18, color: '#10b981' },
-    { department: 'Pediatrics', avgScore: 85.9, residents: 22, color: '#3b82f6' },
-    { department: 'Psychiatry', avgScore: 87.2, residents: 15, color: '#8b5cf6' },
-  ],
-  pgyLevelStats: [
-    { level: 1, avgScore: 82.1, count: 45, improvement: '+1.2%' },
-    { level: 2, avgScore: 86.3, count: 38, improvement: '+2.7%' },
-    { level: 3, avgScore: 89.7, count: 31, improvement: '+0.8%' },
-    { level: 4, avgScore: 91.2, count: 15, improvement: '+1.9%' },
-  ],
+// Overall ratings are on the 1-9 evaluation scale
+const RATING_SCALE_MAX = 9
+
+const DEPARTMENT_COLORS: Partial<Record<Department, string>> = {
+  EMERGENCY_MEDICINE: '#ef4444',
+  INTERNAL_MEDICINE: '#f59e0b',
+  SURGERY: '#10b981',
+  PEDIATRICS: '#3b82f6',
+  PSYCHIATRY: '#8b5cf6',
+  FAMILY_MEDICINE: '#ec4899',
+}
+
+const DEFAULT_DEPARTMENT_COLOR = '#64748b'
+
+const formatDepartment = (department: Department): string =>
+  department.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+
+const formatRating = (rating: number | null): string => (rating === null ? '—' : rating.toFixed(1))
+
+const toPercent = (rating: number | null): number => (rating === null ? 0 : (rating / RATING_SCALE_MAX) * 100)
+
+const TrendChip: React.FC<{ trend: number | null }> = ({ trend }) => {
+  if (trend === null) {
+    return <Chip label="No prior data" size="small" variant="outlined" />
+  }
+
+  return (
+    <Chip
+      icon={trend > 0 ? <TrendingUpIcon /> : trend < 0 ? <TrendingDownIcon /> : <TrendingFlatIcon />}
+      label={`${trend > 0 ? '+' : ''}${trend}%`}
+      color={trend > 0 ? 'success' : trend < 0 ? 'warning' : 'default'}
+      size="small"
+    />
+  )
+}
+
+const ThemeList: React.FC<{ themes: AnalyticsTheme[]; emptyMessage: string }> = ({ themes, emptyMessage }) => {
+  if (themes.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" py={1}>
+        {emptyMessage}
+      </Typography>
+    )
+  }
+
+  return (
+    <Box>
+      {themes.map(theme => (
+        <Box key={theme.theme} display="flex" justifyContent="space-between" alignItems="center" py={1}>
+          <Typography variant="body2">{theme.theme}</Typography>
+          <Box display="flex" gap={1} alignItems="center">
+            <Typography variant="caption" color="text.secondary">
+              {theme.previousCount > 0 ? `${theme.previousCount} last period` : 'New'}
+            </Typography>
+            <Chip label={`${theme.count} evaluation${theme.count === 1 ? '' : 's'}`} size="small" variant="outlined" />
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  )
 }
 
 interface TabPanelProps {
@@ -75,348 +123,411 @@ function TabPanel({ children, value, index }: TabPanelProps) {
 }
 
 const ClassAnalytics: React.FC = () => {
-  const [timeRange, setTimeRange] = useState('current-quarter')
+  const [timeRange, setTimeRange] = useState<AnalyticsTimeRange>('current-quarter')
+  const [customFrom, setCustomFrom] = useState('')
+  const [customTo, setCustomTo] = useState('')
   const [selectedTab, setSelectedTab] = useState(0)
 
+  const {
+    data: analytics,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useClassAnalytics({ range: timeRange, from: customFrom, to: customTo })
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setSelectedTab(newValue)
   }
 
-  return (
-    <Box sx={{ p: 3 }}>
-      {/* Header and Controls */}
-      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
-        <Box>
-          <Typography variant="h5" fontWeight="bold" gutterBottom>
-            Class Analytics
-          </Typography>
-          <Typography variant="body2" color="text.secondary">
-            Performance insights and trends analysis
-          </Typography>
+  const summary = analytics?.summary
+
+  const renderContent = () => {
+    if (timeRange === 'custom' && (!customFrom || !customTo)) {
+      return (
+        <Alert severity="info">
+          Choose a start and end date to see analytics for a custom range
+        </Alert>
+      )
+    }
+
+    if (isLoading) {
+      return (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={32} />
+          <Typography sx={{ ml: 2 }}>Calculating analytics...</Typography>
         </Box>
-        <FormControl variant="outlined" sx={{ minWidth: 200 }}>
-          <InputLabel>Time Range</InputLabel>
-          <Select
-            value={timeRange}
-            onChange={(e) => setTimeRange(e.target.value as string)}
-            label="Time Range"
-          >
-            <MenuItem value="current-quarter">Current Quarter</MenuItem>
-            <MenuItem value="last-quarter">Last Quarter</MenuItem>
-            <MenuItem value="academic-year">Academic Year</MenuItem>
-            <MenuItem value="custom">Custom Range</MenuItem>
-          </Select>
-        </FormControl>
-      </Box>
+      )
+    }
 
-      {/* Key Metrics Row */}
-      <Grid container spacing={3} sx={{ mb: 4 }}>
-        <Grid item xs={12} md={3}>
-          <EMMACard emmaVariant="dashboard-metric" elevation={2}>
-            <Box textAlign="center">
-              <AssessmentIcon sx={{ fontSize: 40, color: 'primary.main', mb: 2 }} />
-              <Typography variant="h3" fontWeight="bold" color="primary.main">
-                {mockAnalytics.classPerformance.averageScore}
-              </Typography>
-              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                Average Score
-              </Typography>
-              <Chip
-                icon={<TrendingUpIcon />}
-                label={mockAnalytics.classPerformance.trend}
-                color="success"
-                size="small"
-              />
-            </Box>
-          </EMMACard>
+    if (isError || !analytics || !summary) {
+      return (
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load analytics: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      )
+    }
+
+    return (
+      <>
+        {/* Key Metrics Row */}
+        <Grid container spacing={3} sx={{ mb: 4 }}>
+          <Grid item xs={12} md={3}>
+            <EMMACard emmaVariant="dashboard-metric" elevation={2}>
+              <Box textAlign="center">
+                <AssessmentIcon sx={{ fontSize: 40, color: 'primary.main', mb: 2 }} />
+                <Typography variant="h3" fontWeight="bold" color="primary.main">
+                  {formatRating(summary.averageRating)}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  Average Overall Rating (of {RATING_SCALE_MAX})
+                </Typography>
+                <TrendChip trend={summary.trend} />
+              </Box>
+            </EMMACard>
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <EMMACard emmaVariant="dashboard-metric" elevation={2}>
+              <Box textAlign="center">
+                <SchoolIcon sx={{ fontSize: 40, color: 'success.main', mb: 2 }} />
+                <Typography variant="h3" fontWeight="bold" color="success.main">
+                  {summary.totalEvaluations}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Completed Evaluations
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+                  {formatDate(analytics.periodStart)} – {formatDate(analytics.periodEnd)}
+                </Typography>
+              </Box>
+            </EMMACard>
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <EMMACard emmaVariant="dashboard-metric" elevation={2}>
+              <Box textAlign="center">
+                <Typography variant="h3" fontWeight="bold" color="info.main" sx={{ mb: 1 }}>
+                  {summary.completionRate === null ? '—' : `${summary.completionRate}%`}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                  On-Time Completion ({summary.completedOnTime}/{summary.dueEvaluations} due)
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={summary.completionRate ?? 0}
+                  sx={{
+                    height: 8,
+                    borderRadius: 4,
+                    backgroundColor: 'grey.200',
+                    '& .MuiLinearProgress-bar': {
+                      borderRadius: 4,
+                      backgroundColor: 'info.main',
+                    },
+                  }}
+                />
+              </Box>
+            </EMMACard>
+          </Grid>
+
+          <Grid item xs={12} md={3}>
+            <EMMACard emmaVariant="dashboard-metric" elevation={2}>
+              <Box textAlign="center">
+                <Typography variant="h3" fontWeight="bold" color="warning.main" sx={{ mb: 1 }}>
+                  {summary.residentsNeedingAttention}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  Residents with Areas for Improvement
+                </Typography>
+                <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
+                  {summary.overdueCount} evaluation{summary.overdueCount === 1 ? '' : 's'} overdue
+                </Typography>
+              </Box>
+            </EMMACard>
+          </Grid>
         </Grid>
 
-        <Grid item xs={12} md={3}>
-          <EMMACard emmaVariant="dashboard-metric" elevation={2}>
-            <Box textAlign="center">
-              <SchoolIcon sx={{ fontSize: 40, color: 'success.main', mb: 2 }} />
-              <Typography variant="h3" fontWeight="bold" color="success.main">
-                {mockAnalytics.classPerformance.totalEvaluations}
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Total Evaluations
+        {/* Content Tabs */}
+        <EMMACard elevation={2}>
+          <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+            <Tabs value={selectedTab} onChange={handleTabChange}>
+              <Tab label="Department Performance" />
+              <Tab label="PGY Level Analysis" />
+              <Tab label="Trending Topics" />
+              <Tab label="Detailed Reports" />
+            </Tabs>
+          </Box>
+
+          {/* Department Performance */}
+          <TabPanel value={selectedTab} index={0}>
+            <Box sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Performance by Department
               </Typography>
-              <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                This quarter
+              <Typography variant="body2" color="text.secondary" mb={3}>
+                Compare average overall ratings and resident counts across departments
               </Typography>
+
+              {analytics.departments.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" textAlign="center" py={4}>
+                  No residents have a department assigned
+                </Typography>
+              ) : (
+                <Grid container spacing={3}>
+                  {analytics.departments.map((dept) => {
+                    const color = DEPARTMENT_COLORS[dept.key] ?? DEFAULT_DEPARTMENT_COLOR
+
+                    return (
+                      <Grid item xs={12} md={6} lg={4} key={dept.key}>
+                        <Card
+                          sx={{
+                            borderLeft: `4px solid ${color}`,
+                            transition: 'transform 0.2s ease',
+                            '&:hover': {
+                              transform: 'translateY(-2px)',
+                              boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
+                            },
+                          }}
+                        >
+                          <CardContent>
+                            <Typography variant="h6" fontWeight="medium" gutterBottom>
+                              {formatDepartment(dept.key)}
+                            </Typography>
+                            <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                              <Typography variant="h4" fontWeight="bold" sx={{ color }}>
+                                {formatRating(dept.averageRating)}
+                              </Typography>
+                              <Box display="flex" gap={1}>
+                                <TrendChip trend={dept.trend} />
+                                <Chip
+                                  label={`${dept.residentCount} residents`}
+                                  size="small"
+                                  variant="outlined"
+                                />
+                              </Box>
+                            </Box>
+                            <LinearProgress
+                              variant="determinate"
+                              value={toPercent(dept.averageRating)}
+                              sx={{
+                                height: 6,
+                                borderRadius: 3,
+                                backgroundColor: 'grey.200',
+                                '& .MuiLinearProgress-bar': {
+                                  borderRadius: 3,
+                                  backgroundColor: color,
+                                },
+                              }}
+                            />
+                            <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
+                              Average overall rating from {dept.evaluationCount} evaluation{dept.evaluationCount === 1 ? '' : 's'}
+                            </Typography>
+                          </CardContent>
+                        </Card>
+                      </Grid>
+                    )
+                  })}
+                </Grid>
+              )}
             </Box>
-          </EMMACard>
-        </Grid>
+          </TabPanel>
 
-        <Grid item xs={12} md={3}>
-          <EMMACard emmaVariant="dashboard-metric" elevation={2}>
-            <Box textAlign="center">
-              <Typography variant="h3" fontWeight="bold" color="info.main" sx={{ mb: 1 }}>
-                {mockAnalytics.classPerformance.completionRate}%
+          {/* PGY Level Analysis */}
+          <TabPanel value={selectedTab} index={1}>
+            <Box sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Performance by PGY Level
               </Typography>
-              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
-                Completion Rate
+              <Typography variant="body2" color="text.secondary" mb={3}>
+                Track progression and change from the previous period across residency years
               </Typography>
-              <LinearProgress
-                variant="determinate"
-                value={mockAnalytics.classPerformance.completionRate}
-                sx={{
-                  height: 8,
-                  borderRadius: 4,
-                  backgroundColor: 'grey.200',
-                  '& .MuiLinearProgress-bar': {
-                    borderRadius: 4,
-                    backgroundColor: 'info.main',
-                  },
-                }}
-              />
+
+              <TableContainer>
+                <Table>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>PGY Level</TableCell>
+                      <TableCell align="center">Resident Count</TableCell>
+                      <TableCell align="center">Average Rating</TableCell>
+                      <TableCell align="center">Change</TableCell>
+                      <TableCell>Performance Trend</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {analytics.pgyLevels.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} align="center">
+                          <Typography variant="body2" color="text.secondary" py={2}>
+                            No residents have a PGY level assigned
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : analytics.pgyLevels.map((pgy) => (
+                      <TableRow key={pgy.key} hover>
+                        <TableCell>
+                          <Chip
+                            label={`PGY-${pgy.key}`}
+                            sx={{
+                              bgcolor: `var(--emma-pgy-${pgy.key})`,
+                              color: 'white',
+                              fontWeight: 600,
+                            }}
+                          />
+                        </TableCell>
+                        <TableCell align="center">
+                          <Typography variant="body2" fontWeight="medium">
+                            {pgy.residentCount}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="center">
+                          <Typography variant="body1" fontWeight="bold">
+                            {formatRating(pgy.averageRating)}
+                          </Typography>
+                        </TableCell>
+                        <TableCell align="center">
+                          <TrendChip trend={pgy.trend} />
+                        </TableCell>
+                        <TableCell>
+                          <LinearProgress
+                            variant="determinate"
+                            value={toPercent(pgy.averageRating)}
+                            sx={{
+                              width: 100,
+                              height: 6,
+                              borderRadius: 3,
+                              backgroundColor: 'grey.200',
+                              '& .MuiLinearProgress-bar': {
+                                borderRadius: 3,
+                                backgroundColor: `var(--emma-pgy-${pgy.key})`,
+                              },
+                            }}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
             </Box>
-          </EMMACard>
-        </Grid>
+          </TabPanel>
 
-        <Grid item xs={12} md={3}>
-          <EMMACard emmaVariant="dashboard-metric" elevation={2}>
-            <Box textAlign="center">
-              <Typography variant="h3" fontWeight="bold" color="warning.main" sx={{ mb: 1 }}>
-                15
-              </Typography>
-              <Typography variant="body2" color="text.secondary">
-                Areas for Improvement
+          {/* Trending Topics */}
+          <TabPanel value={selectedTab} index={2}>
+            <Box sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Trending Topics & Skills
               </Typography>
-              <Typography variant="caption" color="warning.main" sx={{ mt: 1, display: 'block' }}>
-                Requires attention
+              <Typography variant="body2" color="text.secondary" mb={3}>
+                Most common strengths and areas for improvement recorded in evaluations this period
               </Typography>
-            </Box>
-          </EMMACard>
-        </Grid>
-      </Grid>
-
-      {/* Content Tabs */}
-      <EMMACard elevation={2}>
-        <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
-          <Tabs value={selectedTab} onChange={handleTabChange}>
-            <Tab label="Department Performance" />
-            <Tab label="PGY Level Analysis" />
-            <Tab label="Trending Topics" />
-            <Tab label="Detailed Reports" />
-          </Tabs>
-        </Box>
-
-        {/* Department Performance */}
-        <TabPanel value={selectedTab} index={0}>
-          <Box sx={{ p: 3 }}>
-            <Typography variant="h6" gutterBottom>
-              Performance by Department
-            </Typography>
-            <Typography variant="body2" color="text.secondary" mb={3}>
-              Compare average scores and resident counts across departments
-            </Typography>
 
-            <Grid container spacing={3}>
-              {mockAnalytics.departmentStats.map((dept, index) => (
-                <Grid item xs={12} md={6} lg={4} key={dept.department}>
-                  <Card
-                    sx={{
-                      borderLeft: `4px solid ${dept.color}`,
-                      transition: 'transform 0.2s ease',
-                      '&:hover': {
-                        transform: 'translateY(-2px)',
-                        boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
-                      },
-                    }}
-                  >
+              <Grid container spacing={3}>
+                <Grid item xs={12} md={6}>
+                  <Card>
                     <CardContent>
-                      <Typography variant="h6" fontWeight="medium" gutterBottom>
-                        {dept.department}
-                      </Typography>
-                      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-                        <Typography variant="h4" fontWeight="bold" sx={{ color: dept.color }}>
-                          {dept.avgScore}
-                        </Typography>
-                        <Chip
-                          label={`${dept.residents} residents`}
-                          size="small"
-                          variant="outlined"
-                        />
-                      </Box>
-                      <LinearProgress
-                        variant="determinate"
-                        value={dept.avgScore}
-                        sx={{
-                          height: 6,
-                          borderRadius: 3,
-                          backgroundColor: 'grey.200',
-                          '& .MuiLinearProgress-bar': {
-                            borderRadius: 3,
-                            backgroundColor: dept.color,
-                          },
-                        }}
-                      />
-                      <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
-                        Average evaluation score
+                      <Typography variant="subtitle1" fontWeight="medium" gutterBottom color="success.main">
+                        📈 Top Strengths
                       </Typography>
+                      <ThemeList themes={analytics.strengths} emptyMessage="No strengths recorded this period" />
                     </CardContent>
                   </Card>
                 </Grid>
-              ))}
-            </Grid>
-          </Box>
-        </TabPanel>
-
-        {/* PGY Level Analysis */}
-        <TabPanel value={selectedTab} index={1}>
-          <Box sx={{ p: 3 }}>
-            <Typography variant="h6" gutterBottom>
-              Performance by PGY Level
-            </Typography>
-            <Typography variant="body2" color="text.secondary" mb={3}>
-              Track progression and improvement across residency years
-            </Typography>
 
-            <TableContainer>
-              <Table>
-                <TableHead>
-                  <TableRow>
-                    <TableCell>PGY Level</TableCell>
-                    <TableCell align="center">Resident Count</TableCell>
-                    <TableCell align="center">Average Score</TableCell>
-                    <TableCell align="center">Improvement</TableCell>
-                    <TableCell>Performance Trend</TableCell>
-                  </TableRow>
-                </TableHead>
-                <TableBody>
-                  {mockAnalytics.pgyLevelStats.map((pgy) => (
-                    <TableRow key={pgy.level} hover>
-                      <TableCell>
-                        <Chip
-                          label={`PGY-${pgy.level}`}
-                          sx={{
-                            bgcolor: `var(--emma-pgy-${pgy.level})`,
-                            color: 'white',
-                            fontWeight: 600,
-                          }}
-                        />
-                      </TableCell>
-                      <TableCell align="center">
-                        <Typography variant="body2" fontWeight="medium">
-                          {pgy.count}
-                        </Typography>
-                      </TableCell>
-                      <TableCell align="center">
-                        <Typography variant="body1" fontWeight="bold">
-                          {pgy.avgScore}
-                        </Typography>
-                      </TableCell>
-                      <TableCell align="center">
-                        <Chip
-                          icon={<TrendingUpIcon />}
-                          label={pgy.improvement}
-                          color="success"
-                          size="small"
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <LinearProgress
-                          variant="determinate"
-                          value={pgy.avgScore}
-                          sx={{
-                            width: 100,
-                            height: 6,
-                            borderRadius: 3,
-                            backgroundColor: 'grey.200',
-                            '& .MuiLinearProgress-bar': {
-                              borderRadius: 3,
-                              backgroundColor: `var(--emma-pgy-${pgy.level})`,
-                            },
-                          }}
-                        />
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-          </Box>
-        </TabPanel>
+                <Grid item xs={12} md={6}>
+                  <Card>
+                    <CardContent>
+                      <Typography variant="subtitle1" fontWeight="medium" gutterBottom color="warning.main">
+                        📉 Needs Attention
+                      </Typography>
+                      <ThemeList themes={analytics.improvements} emptyMessage="No areas for improvement recorded this period" />
+                    </CardContent>
+                  </Card>
+                </Grid>
+              </Grid>
+            </Box>
+          </TabPanel>
 
-        {/* Trending Topics */}
-        <TabPanel value={selectedTab} index={2}>
-          <Box sx={{ p: 3 }}>
-            <Typography variant="h6" gutterBottom>
-              Trending Topics & Skills
-            </Typography>
-            <Typography variant="body2" color="text.secondary" mb={3}>
-              Areas showing significant improvement or requiring attention
-            </Typography>
+          {/* Detailed Reports */}
+          <TabPanel value={selectedTab} index={3}>
+            <Box sx={{ p: 3 }}>
+              <Typography variant="h6" gutterBottom>
+                Detailed Analytics Reports
+              </Typography>
+              <Typography variant="body2" color="text.secondary" mb={3}>
+                Comprehensive reports and data exports
+              </Typography>
 
-            <Grid container spacing={3}>
-              <Grid item xs={12} md={6}>
-                <Card>
-                  <CardContent>
-                    <Typography variant="subtitle1" fontWeight="medium" gutterBottom color="success.main">
-                      📈 Improving Areas
-                    </Typography>
-                    <Box>
-                      {['Clinical Decision Making', 'Patient Communication', 'Procedure Skills'].map((skill) => (
-                        <Box key={skill} display="flex" justifyContent="space-between" alignItems="center" py={1}>
-                          <Typography variant="body2">{skill}</Typography>
-                          <Chip
-                            icon={<TrendingUpIcon />}
-                            label="+3.2%"
-                            color="success"
-                            size="small"
-                          />
-                        </Box>
-                      ))}
-                    </Box>
-                  </CardContent>
-                </Card>
-              </Grid>
+              <Typography variant="body1" color="text.secondary" textAlign="center" py={4}>
+                Advanced reporting features coming soon...
+              </Typography>
+            </Box>
+          </TabPanel>
+        </EMMACard>
+      </>
+    )
+  }
 
-              <Grid item xs={12} md={6}>
-                <Card>
-                  <CardContent>
-                    <Typography variant="subtitle1" fontWeight="medium" gutterBottom color="warning.main">
-                      📉 Needs Attention
-                    </Typography>
-                    <Box>
-                      {['Time Management', 'Documentation', 'Team Collaboration'].map((skill) => (
-                        <Box key={skill} display="flex" justifyContent="space-between" alignItems="center" py={1}>
-                          <Typography variant="body2">{skill}</Typography>
-                          <Chip
-                            icon={<TrendingDownIcon />}
-                            label="-1.1%"
-                            color="warning"
-                            size="small"
-                          />
-                        </Box>
-                      ))}
-                    </Box>
-                  </CardContent>
-                </Card>
-              </Grid>
-            </Grid>
-          </Box>
-        </TabPanel>
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header and Controls */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Class Analytics
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Performance insights and trends analysis
+            {isFetching && !isLoading ? ' · Refreshing...' : ''}
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2} alignItems="center">
+          {timeRange === 'custom' && (
+            <>
+              <TextField
+                type="date"
+                label="From"
+                size="small"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+              <TextField
+                type="date"
+                label="To"
+                size="small"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                InputLabelProps={{ shrink: true }}
+              />
+            </>
+          )}
+          <FormControl variant="outlined" sx={{ minWidth: 200 }}>
+            <InputLabel>Time Range</InputLabel>
+            <Select
+              value={timeRange}
+              onChange={(e) => setTimeRange(e.target.value as AnalyticsTimeRange)}
+              label="Time Range"
+            >
+              <MenuItem value="current-quarter">Current Quarter</MenuItem>
+              <MenuItem value="last-quarter">Last Quarter</MenuItem>
+              <MenuItem value="academic-year">Academic Year</MenuItem>
+              <MenuItem value="custom">Custom Range</MenuItem>
+            </Select>
+          </FormControl>
+        </Box>
+      </Box>
 
-        {/* Detailed Reports */}
-        <TabPanel value={selectedTab} index={3}>
-          <Box sx={{ p: 3 }}>
-            <Typography variant="h6" gutterBottom>
-              Detailed Analytics Reports
-            </Typography>
-            <Typography variant="body2" color="text.secondary" mb={3}>
-              Comprehensive reports and data exports
-            </Typography>
-            
-            <Typography variant="body1" color="text.secondary" textAlign="center" py={4}>
-              Advanced reporting features coming soon...
-            </Typography>
-          </Box>
-        </TabPanel>
-      </EMMACard>
+      {renderContent()}
     </Box>
   )
 }
 
-export default ClassAnalytics
\ No newline at end of file
+export default ClassAnalytics
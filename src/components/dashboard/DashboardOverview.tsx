@@ -7,11 +7,9 @@
 
 'use client'
 
-import React from 'react'
+import React, { useEffect, useState } from 'react'
 import {
   Grid,
-  Card,
-  CardContent,
   Typography,
   Box,
   LinearProgress,
@@ -22,54 +20,72 @@ import {
   ListItemAvatar,
   ListItemText,
   Divider,
+  Alert,
+  CircularProgress,
 } from '@mui/material'
 import {
   People as PeopleIcon,
   Schedule as ScheduleIcon,
-  Assessment as AssessmentIcon,
   TrendingUp as TrendingUpIcon,
   Assignment as AssignmentIcon,
-  Notifications as NotificationsIcon,
+  PersonAdd as PersonAddIcon,
 } from '@mui/icons-material'
+import { useQueryClient } from '@tanstack/react-query'
 import { EMMACard } from '@/components/emma'
+import { useActivityFeed, useDashboardSummary } from '@/hooks/useDashboard'
+import { ActivityKind, formatActivityTime } from '@/lib/activity-feed'
+import { toDate } from '@/lib/date-utils'
 
-// Mock data for demonstration
-const mockMetrics = {
-  totalResidents: 127,
-  activeRotations: 23,
-  pendingEvaluations: 15,
-  completionRate: 87,
+const ACTIVITY_COLORS: Record<ActivityKind, string> = {
+  evaluation: 'success.main',
+  schedule: 'info.main',
+  resident: 'primary.main',
+  user: 'secondary.main',
 }
 
-const mockRecentActivities = [
-  {
-    id: 1,
-    type: 'evaluation',
-    title: 'New evaluation submitted',
-    description: 'Dr. Sarah Johnson completed evaluation for John Smith (PGY-2)',
-    timestamp: '2 minutes ago',
-    pgyLevel: 2,
-  },
-  {
-    id: 2,
-    type: 'schedule',
-    title: 'Schedule update',
-    description: 'Emergency Medicine rotation schedule updated for next month',
-    timestamp: '15 minutes ago',
-  },
-  {
-    id: 3,
-    type: 'resident',
-    title: 'New resident registered',
-    description: 'Michael Chen (PGY-1) has been added to the system',
-    timestamp: '1 hour ago',
-    pgyLevel: 1,
-  },
-]
+const ACTIVITY_ICONS: Record<ActivityKind, React.ReactNode> = {
+  evaluation: <AssignmentIcon />,
+  schedule: <ScheduleIcon />,
+  resident: <PeopleIcon />,
+  user: <PersonAddIcon />,
+}
+
+const PENDING_LABELS = {
+  INSTITUTION: 'Pending Evaluations',
+  EVALUATOR: 'Your Draft Evaluations',
+  RESIDENT: 'Awaiting Your Acknowledgement',
+}
+
+const formatCount = (value: number | undefined): string => (value === undefined ? '—' : String(value))
 
 const DashboardOverview: React.FC = () => {
+  const queryClient = useQueryClient()
+  const { data: summary, isError: summaryError } = useDashboardSummary()
+  const { activities, isLoading: feedLoading, error: feedError } = useActivityFeed()
+
+  // Re-render relative times every minute
+  const [now, setNow] = useState(() => new Date())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // New activity usually changes the headline figures
+  const latestActivityId = activities[0]?.id
+  useEffect(() => {
+    if (latestActivityId) {
+      queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] })
+    }
+  }, [latestActivityId, queryClient])
+
   return (
     <Box sx={{ p: 3 }}>
+      {summaryError && (
+        <Alert severity="warning" sx={{ mb: 3 }}>
+          Dashboard metrics are temporarily unavailable
+        </Alert>
+      )}
+
       {/* Metrics Cards Row */}
       <Grid container spacing={3} sx={{ mb: 4 }}>
         {/* Total Residents */}
@@ -88,13 +104,13 @@ const DashboardOverview: React.FC = () => {
                 <PeopleIcon sx={{ fontSize: 28 }} />
               </Avatar>
               <Typography variant="h4" fontWeight="bold" color="primary.main" gutterBottom>
-                {mockMetrics.totalResidents}
+                {formatCount(summary?.totalResidents)}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Total Residents
               </Typography>
               <Chip
-                label="+5 this month"
+                label={`+${summary?.newResidentsThisMonth ?? 0} this month`}
                 size="small"
                 color="success"
                 sx={{ mt: 1, fontSize: '0.7rem' }}
@@ -119,13 +135,13 @@ const DashboardOverview: React.FC = () => {
                 <ScheduleIcon sx={{ fontSize: 28 }} />
               </Avatar>
               <Typography variant="h4" fontWeight="bold" color="success.main" gutterBottom>
-                {mockMetrics.activeRotations}
+                {formatCount(summary?.activeRotations)}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Active Rotations
               </Typography>
               <Chip
-                label="Current cycle"
+                label={`${summary?.activeAssignments ?? 0} residents assigned today`}
                 size="small"
                 color="success"
                 variant="outlined"
@@ -152,15 +168,15 @@ const DashboardOverview: React.FC = () => {
                 <AssignmentIcon sx={{ fontSize: 28 }} />
               </Avatar>
               <Typography variant="h4" fontWeight="bold" color="warning.dark" gutterBottom>
-                {mockMetrics.pendingEvaluations}
+                {formatCount(summary?.pendingEvaluations)}
               </Typography>
               <Typography variant="body2" color="text.secondary">
-                Pending Evaluations
+                {PENDING_LABELS[summary?.evaluationScope ?? 'INSTITUTION']}
               </Typography>
               <Chip
-                label="Needs attention"
+                label={summary?.overdueEvaluations ? `${summary.overdueEvaluations} overdue` : 'None overdue'}
                 size="small"
-                color="warning"
+                color={summary?.overdueEvaluations ? 'warning' : 'success'}
                 sx={{ mt: 1, fontSize: '0.7rem' }}
               />
             </Box>
@@ -183,14 +199,14 @@ const DashboardOverview: React.FC = () => {
                 <TrendingUpIcon sx={{ fontSize: 28 }} />
               </Avatar>
               <Typography variant="h4" fontWeight="bold" color="info.main" gutterBottom>
-                {mockMetrics.completionRate}%
+                {summary?.completionRate === null || summary?.completionRate === undefined ? '—' : `${summary.completionRate}%`}
               </Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
                 Completion Rate
               </Typography>
               <LinearProgress
                 variant="determinate"
-                value={mockMetrics.completionRate}
+                value={summary?.completionRate ?? 0}
                 sx={{
                   height: 6,
                   borderRadius: 3,
@@ -215,65 +231,71 @@ const DashboardOverview: React.FC = () => {
             subtitle="Latest updates and notifications"
             elevation={2}
           >
-            <List sx={{ pt: 0 }}>
-              {mockRecentActivities.map((activity, index) => (
-                <React.Fragment key={activity.id}>
-                  <ListItem alignItems="flex-start" sx={{ px: 0 }}>
-                    <ListItemAvatar>
-                      <Avatar
-                        sx={{
-                          bgcolor: activity.type === 'evaluation' 
-                            ? 'success.main' 
-                            : activity.type === 'schedule'
-                            ? 'info.main'
-                            : 'primary.main',
-                          width: 40,
-                          height: 40,
-                        }}
-                      >
-                        {activity.type === 'evaluation' && <AssignmentIcon />}
-                        {activity.type === 'schedule' && <ScheduleIcon />}
-                        {activity.type === 'resident' && <PeopleIcon />}
-                      </Avatar>
-                    </ListItemAvatar>
-                    <ListItemText
-                      primary={
-                        <Box display="flex" alignItems="center" gap={1}>
-                          <Typography variant="subtitle2" fontWeight="medium">
-                            {activity.title}
-                          </Typography>
-                          {activity.pgyLevel && (
-                            <Chip
-                              label={`PGY-${activity.pgyLevel}`}
-                              size="small"
-                              sx={{
-                                bgcolor: `var(--emma-pgy-${activity.pgyLevel})`,
-                                color: 'white',
-                                fontSize: '0.7rem',
-                                height: 20,
-                              }}
-                            />
-                          )}
-                        </Box>
-                      }
-                      secondary={
-                        <Box sx={{ mt: 0.5 }}>
-                          <Typography variant="body2" color="text.primary" sx={{ mb: 0.5 }} component="div">
-                            {activity.description}
-                          </Typography>
-                          <Typography variant="caption" color="text.secondary" component="div">
-                            {activity.timestamp}
-                          </Typography>
-                        </Box>
-                      }
-                    />
-                  </ListItem>
-                  {index < mockRecentActivities.length - 1 && (
-                    <Divider variant="inset" component="li" />
-                  )}
-                </React.Fragment>
-              ))}
-            </List>
+            {feedError ? (
+              <Alert severity="warning">Live activity is unavailable right now</Alert>
+            ) : feedLoading ? (
+              <Box display="flex" justifyContent="center" py={4}>
+                <CircularProgress size={28} />
+              </Box>
+            ) : activities.length === 0 ? (
+              <Typography variant="body2" color="text.secondary" textAlign="center" py={4}>
+                No recent activity
+              </Typography>
+            ) : (
+              <List sx={{ pt: 0 }}>
+                {activities.map((activity, index) => (
+                  <React.Fragment key={activity.id}>
+                    <ListItem alignItems="flex-start" sx={{ px: 0 }}>
+                      <ListItemAvatar>
+                        <Avatar
+                          sx={{
+                            bgcolor: ACTIVITY_COLORS[activity.kind],
+                            width: 40,
+                            height: 40,
+                          }}
+                        >
+                          {ACTIVITY_ICONS[activity.kind]}
+                        </Avatar>
+                      </ListItemAvatar>
+                      <ListItemText
+                        primary={
+                          <Box display="flex" alignItems="center" gap={1}>
+                            <Typography variant="subtitle2" fontWeight="medium">
+                              {activity.title}
+                            </Typography>
+                            {activity.pgyLevel && (
+                              <Chip
+                                label={`PGY-${activity.pgyLevel}`}
+                                size="small"
+                                sx={{
+                                  bgcolor: `var(--emma-pgy-${activity.pgyLevel})`,
+                                  color: 'white',
+                                  fontSize: '0.7rem',
+                                  height: 20,
+                                }}
+                              />
+                            )}
+                          </Box>
+                        }
+                        secondary={
+                          <Box sx={{ mt: 0.5 }}>
+                            <Typography variant="body2" color="text.primary" sx={{ mb: 0.5 }} component="div">
+                              {activity.description}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary" component="div">
+                              {formatActivityTime(toDate(activity.timestamp), now)}
+                            </Typography>
+                          </Box>
+                        }
+                      />
+                    </ListItem>
+                    {index < activities.length - 1 && (
+                      <Divider variant="inset" component="li" />
+                    )}
+                  </React.Fragment>
+                ))}
+              </List>
+            )}
           </EMMACard>
         </Grid>
 
@@ -0,0 +1,176 @@
+/**
+ * EMMA Healthcare Duty Hours Report Panel
+ *
+ * Program-level ACGME duty-hour compliance summary with the residents
+ * whose planned or logged hours break a limit.
+ */
+
+'use client'
+
+import React from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stack,
+} from '@mui/material'
+import { CheckCircle as CheckCircleIcon } from '@mui/icons-material'
+import { EMMACard } from '@/components/emma'
+import { DutyHourViolationType } from '@/types/database'
+import { formatDate } from '@/lib/date-utils'
+import type { DutyHoursComplianceReport } from '@/lib/duty-hours'
+
+export const DUTY_VIOLATION_LABELS: Record<DutyHourViolationType, string> = {
+  WEEKLY_HOURS_AVERAGE: '80-Hour Average',
+  CONTINUOUS_DUTY: '24+4 Continuous',
+  DAY_OFF_IN_SEVEN: '1 Day Off in 7',
+  CALL_FREQUENCY: 'Call Frequency',
+}
+
+interface DutyHoursReportPanelProps {
+  report?: DutyHoursComplianceReport
+  isLoading: boolean
+  error?: Error | null
+  onRetry: () => void
+}
+
+const DutyHoursReportPanel: React.FC<DutyHoursReportPanelProps> = ({ report, isLoading, error, onRetry }) => {
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+        <CircularProgress size={32} />
+        <Typography sx={{ ml: 2 }}>Calculating duty hours...</Typography>
+      </Box>
+    )
+  }
+
+  if (error || !report) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={onRetry}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load duty-hour compliance: {error?.message || 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  const residentsWithViolations = report.residents.filter(resident => resident.violations.length > 0)
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        ACGME Duty Hour Compliance
+      </Typography>
+      <Typography variant="body2" color="text.secondary" mb={3}>
+        Planned and logged hours from {formatDate(report.periodStart)} to {formatDate(report.periodEnd)}
+      </Typography>
+
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={4}>
+          <EMMACard emmaVariant="dashboard-metric" elevation={1}>
+            <Box textAlign="center">
+              <Typography variant="h3" fontWeight="bold" color={report.complianceRate === 100 ? 'success.main' : 'warning.dark'}>
+                {report.complianceRate}%
+              </Typography>
+              <Typography variant="body2" color="text.secondary">
+                {report.compliantResidents} of {report.residentCount} residents compliant
+              </Typography>
+            </Box>
+          </EMMACard>
+        </Grid>
+        <Grid item xs={12} md={8}>
+          <EMMACard emmaVariant="dashboard-metric" elevation={1}>
+            <Box display="flex" gap={1} flexWrap="wrap" justifyContent="center">
+              {(Object.keys(DUTY_VIOLATION_LABELS) as DutyHourViolationType[]).map(type => (
+                <Chip
+                  key={type}
+                  label={`${DUTY_VIOLATION_LABELS[type]}: ${report.violationCounts[type]}`}
+                  color={report.violationCounts[type] > 0 ? 'error' : 'default'}
+                  variant={report.violationCounts[type] > 0 ? 'filled' : 'outlined'}
+                />
+              ))}
+            </Box>
+          </EMMACard>
+        </Grid>
+      </Grid>
+
+      {residentsWithViolations.length === 0 ? (
+        <Box display="flex" justifyContent="center" alignItems="center" py={4}>
+          <Box textAlign="center">
+            <CheckCircleIcon sx={{ fontSize: 64, color: 'success.main', mb: 2 }} />
+            <Typography variant="h6" color="success.main">
+              No Duty Hour Violations
+            </Typography>
+          </Box>
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Resident</TableCell>
+                <TableCell align="right">Avg Hours/Week</TableCell>
+                <TableCell>Violations</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {residentsWithViolations.map(resident => (
+                <TableRow key={resident.residentId} hover>
+                  <TableCell sx={{ verticalAlign: 'top' }}>
+                    <Typography variant="body2" fontWeight="medium">
+                      {resident.name}
+                    </Typography>
+                    {resident.pgyLevel && (
+                      <Typography variant="caption" color="text.secondary">
+                        PGY-{resident.pgyLevel}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell align="right" sx={{ verticalAlign: 'top' }}>
+                    {resident.averageWeeklyHours}
+                  </TableCell>
+                  <TableCell>
+                    <Stack spacing={0.5}>
+                      {resident.violations.map(violation => (
+                        <Box key={violation.id} display="flex" alignItems="center" gap={1}>
+                          <Chip
+                            label={violation.source === 'LOGGED' ? 'Logged' : 'Planned'}
+                            color={violation.source === 'LOGGED' ? 'error' : 'warning'}
+                            size="small"
+                            variant="outlined"
+                          />
+                          <Typography variant="body2">
+                            {DUTY_VIOLATION_LABELS[violation.type]}: {violation.message}
+                          </Typography>
+                        </Box>
+                      ))}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  )
+}
+
+export default DutyHoursReportPanel
@@ -0,0 +1,296 @@
+/**
+ * EMMA Healthcare Evaluation Templates Panel
+ *
+ * Lists evaluation form templates and their versions, and lets coordinators
+ * publish new versions or retire old ones.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControlLabel,
+  Switch,
+} from '@mui/material'
+import { Add as AddIcon } from '@mui/icons-material'
+import {
+  useEvaluationTemplates,
+  usePublishEvaluationTemplate,
+  useRetireEvaluationTemplate,
+} from '@/hooks/useEvaluationTemplates'
+import { formatDate } from '@/lib/date-utils'
+import type { EvaluationTemplateRequest } from '@/lib/evaluation-templates'
+import { EvaluationTemplate } from '@/types/database'
+
+// Starting point for a new template: one required question with a comment below "meets expectations"
+const STARTER_TEMPLATE: EvaluationTemplateRequest = {
+  name: 'Rotation Evaluation',
+  evaluationType: 'ROTATION',
+  departments: [],
+  overallScale: { min: 1, max: 9 },
+  summaryCommentsRequired: true,
+  sections: [
+    {
+      id: 'patient-care',
+      title: 'Patient Care',
+      questions: [
+        {
+          id: 'pc-1',
+          category: 'Patient Care',
+          prompt: 'Gathers essential and accurate information about the patient',
+          scale: { min: 1, max: 9, labels: { '1': 'Novice', '5': 'Competent', '9': 'Expert' } },
+          required: true,
+          commentRequiredBelow: 4,
+        },
+      ],
+    },
+  ],
+}
+
+const toRequest = (template: EvaluationTemplate): EvaluationTemplateRequest => ({
+  templateKey: template.templateKey,
+  name: template.name,
+  description: template.description,
+  evaluationType: template.evaluationType,
+  departments: template.departments,
+  overallScale: template.overallScale,
+  summaryCommentsRequired: template.summaryCommentsRequired,
+  sections: template.sections,
+})
+
+const countQuestions = (template: EvaluationTemplate): number =>
+  template.sections.reduce((total, section) => total + section.questions.length, 0)
+
+const EvaluationTemplatesPanel: React.FC = () => {
+  const [showRetired, setShowRetired] = useState(false)
+  const [editorOpen, setEditorOpen] = useState(false)
+  const [editorTitle, setEditorTitle] = useState('')
+  const [editorValue, setEditorValue] = useState('')
+  const [editorError, setEditorError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const {
+    data: templates = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useEvaluationTemplates({ includeRetired: showRetired })
+  const publishTemplate = usePublishEvaluationTemplate()
+  const retireTemplate = useRetireEvaluationTemplate()
+
+  const openEditor = (title: string, request: EvaluationTemplateRequest) => {
+    setEditorTitle(title)
+    setEditorValue(JSON.stringify(request, null, 2))
+    setEditorError(null)
+    setEditorOpen(true)
+  }
+
+  const handlePublish = async () => {
+    let request: EvaluationTemplateRequest
+    try {
+      request = JSON.parse(editorValue)
+    } catch {
+      setEditorError('Template definition is not valid JSON')
+      return
+    }
+
+    setEditorError(null)
+    try {
+      await publishTemplate.mutateAsync(request)
+      setEditorOpen(false)
+    } catch (publishError) {
+      setEditorError(publishError instanceof Error ? publishError.message : 'Failed to publish template')
+    }
+  }
+
+  const handleRetire = async (template: EvaluationTemplate) => {
+    setActionError(null)
+    try {
+      await retireTemplate.mutateAsync(template.id)
+    } catch (retireError) {
+      setActionError(retireError instanceof Error ? retireError.message : 'Failed to retire template')
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+        <CircularProgress size={32} />
+        <Typography sx={{ ml: 2 }}>Loading templates...</Typography>
+      </Box>
+    )
+  }
+
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load evaluation templates: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Evaluation Templates
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Publishing a change creates a new version; evaluations keep the version they were started on
+          </Typography>
+        </Box>
+        <Box display="flex" alignItems="center" gap={2}>
+          <FormControlLabel
+            control={<Switch checked={showRetired} onChange={(e) => setShowRetired(e.target.checked)} />}
+            label="Show retired"
+          />
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<AddIcon />}
+            onClick={() => openEditor('New Template', STARTER_TEMPLATE)}
+          >
+            New Template
+          </Button>
+        </Box>
+      </Box>
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {templates.length === 0 ? (
+        <Box py={6} textAlign="center">
+          <Typography variant="body2" color="text.secondary">
+            No templates yet - evaluations will rate the core competencies on a 1-9 scale
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Template</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Departments</TableCell>
+                <TableCell align="center">Questions</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {templates.map(template => (
+                <TableRow key={template.id} hover>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight="medium">
+                      {template.name} (v{template.version})
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Published {formatDate(template.createdAt)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{template.evaluationType}</TableCell>
+                  <TableCell>
+                    {template.departments.length > 0 ? template.departments.join(', ') : 'All'}
+                  </TableCell>
+                  <TableCell align="center">{countQuestions(template)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={template.status === 'ACTIVE' ? 'Active' : `Retired ${formatDate(template.retiredAt)}`}
+                      color={template.status === 'ACTIVE' ? 'success' : 'default'}
+                      size="small"
+                    />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Box display="flex" gap={1} justifyContent="flex-end">
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => openEditor(`New Version of ${template.name}`, toRequest(template))}
+                      >
+                        New Version
+                      </Button>
+                      {template.status === 'ACTIVE' && (
+                        <Button
+                          size="small"
+                          color="warning"
+                          disabled={retireTemplate.isPending}
+                          onClick={() => handleRetire(template)}
+                        >
+                          Retire
+                        </Button>
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      <Dialog open={editorOpen} onClose={() => setEditorOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>{editorTitle}</DialogTitle>
+        <DialogContent>
+          {editorError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {editorError}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Define sections, questions, scales (within 1-9), required comments and conditions.
+            A question with a condition is only asked when an earlier question&apos;s score matches it.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            minRows={16}
+            value={editorValue}
+            onChange={(e) => setEditorValue(e.target.value)}
+            inputProps={{ spellCheck: false, style: { fontFamily: 'monospace', fontSize: 13 } }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditorOpen(false)} disabled={publishTemplate.isPending}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handlePublish} disabled={publishTemplate.isPending}>
+            Publish
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default EvaluationTemplatesPanel
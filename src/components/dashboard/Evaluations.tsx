@@ -0,0 +1,488 @@
+/**
+ * EMMA Healthcare Evaluations
+ *
+ * Evaluation workflow for faculty and coordinators - drafting, submitting,
+ * reviewing and approving - plus the resident view for acknowledging
+ * finalized evaluations.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Tooltip,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Edit as EditIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { EMMACard, EMMAButton } from '@/components/emma'
+import EvaluationFormModal from '@/components/modals/EvaluationFormModal'
+import EvaluationTemplatesPanel from './EvaluationTemplatesPanel'
+import CccReportPanel from './CccReportPanel'
+import FacultyWorkloadPanel from './FacultyWorkloadPanel'
+import {
+  useEvaluations,
+  useTransitionEvaluation,
+  useAcknowledgeEvaluation,
+} from '@/hooks/useEvaluations'
+import { useResidents } from '@/hooks/useResidents'
+import { formatDate } from '@/lib/date-utils'
+import { canManageEvaluationTemplates } from '@/lib/evaluation-templates'
+import { canViewFacultyWorkload } from '@/lib/faculty-portal'
+import {
+  EvaluationAction,
+  EvaluationWithStatus,
+  getAvailableEvaluationActions,
+} from '@/lib/evaluation-workflow'
+import { Evaluation } from '@/types/database'
+
+const STATUS_COLORS: Record<Evaluation['status'], 'default' | 'info' | 'warning' | 'success' | 'secondary'> = {
+  DRAFT: 'default',
+  SUBMITTED: 'info',
+  REVIEWED: 'warning',
+  APPROVED: 'success',
+  ARCHIVED: 'secondary',
+}
+
+const ACTION_LABELS: Record<EvaluationAction, string> = {
+  SUBMIT: 'Submit',
+  RETURN: 'Return',
+  REVIEW: 'Mark Reviewed',
+  APPROVE: 'Approve',
+  ARCHIVE: 'Archive',
+}
+
+const formatLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase()
+
+interface TabPanelProps {
+  children?: React.ReactNode
+  index: number
+  value: number
+}
+
+function TabPanel({ children, value, index }: TabPanelProps) {
+  return (
+    <div role="tabpanel" hidden={value !== index}>
+      {value === index && <Box>{children}</Box>}
+    </div>
+  )
+}
+
+const Evaluations: React.FC = () => {
+  const { data: session } = useSession()
+  const userId = session?.user?.id
+  const permissions = session?.user?.permissions
+  const isStaffView = !!permissions?.canViewAllEvaluations
+  const canManageTemplates = !!session?.user && canManageEvaluationTemplates(session.user)
+  const canViewCccReport = isStaffView && !!permissions?.canAccessReports
+  const canViewWorkload = !!session?.user && canViewFacultyWorkload(session.user)
+  // Tabs only count the ones rendered, so the CCC tab shifts when Templates is hidden
+  const cccTabIndex = canManageTemplates ? 4 : 3
+  const workloadTabIndex = canViewCccReport ? cccTabIndex + 1 : cccTabIndex
+
+  const [selectedTab, setSelectedTab] = useState(0)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingEvaluation, setEditingEvaluation] = useState<EvaluationWithStatus | undefined>()
+  const [acknowledging, setAcknowledging] = useState<EvaluationWithStatus | null>(null)
+  const [acknowledgeComments, setAcknowledgeComments] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const {
+    data: evaluations = [],
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useEvaluations()
+  const { data: residents = [] } = useResidents()
+  const transitionEvaluation = useTransitionEvaluation()
+  const acknowledgeEvaluation = useAcknowledgeEvaluation()
+
+  const residentNames = useMemo(
+    () => new Map(residents.map(resident => [resident.id, `${resident.firstName} ${resident.lastName}`])),
+    [residents]
+  )
+
+  const myEvaluations = evaluations.filter(evaluation => evaluation.evaluatorId === userId)
+  const reviewQueue = evaluations.filter(evaluation =>
+    evaluation.evaluatorId !== userId && (evaluation.status === 'SUBMITTED' || evaluation.status === 'REVIEWED')
+  )
+
+  const stats = [
+    { label: 'My Drafts', value: myEvaluations.filter(evaluation => evaluation.status === 'DRAFT').length, color: 'primary.main' },
+    { label: 'Overdue', value: evaluations.filter(evaluation => evaluation.isOverdue).length, color: 'error.main' },
+    { label: 'Awaiting Review', value: evaluations.filter(evaluation => evaluation.status === 'SUBMITTED').length, color: 'info.main' },
+    { label: 'Awaiting Approval', value: evaluations.filter(evaluation => evaluation.status === 'REVIEWED').length, color: 'warning.dark' },
+  ]
+
+  const handleAction = async (evaluation: EvaluationWithStatus, action: EvaluationAction) => {
+    setActionError(null)
+    try {
+      await transitionEvaluation.mutateAsync({ id: evaluation.id, action })
+    } catch (transitionError) {
+      setActionError(transitionError instanceof Error ? transitionError.message : 'Failed to update evaluation')
+    }
+  }
+
+  const handleOpenForm = (evaluation?: EvaluationWithStatus) => {
+    setEditingEvaluation(evaluation)
+    setFormOpen(true)
+  }
+
+  const handleAcknowledge = async () => {
+    if (!acknowledging) return
+    setActionError(null)
+    try {
+      await acknowledgeEvaluation.mutateAsync({ id: acknowledging.id, comments: acknowledgeComments })
+      setAcknowledging(null)
+      setAcknowledgeComments('')
+    } catch (acknowledgeError) {
+      setActionError(acknowledgeError instanceof Error ? acknowledgeError.message : 'Failed to acknowledge evaluation')
+    }
+  }
+
+  const renderStatus = (evaluation: EvaluationWithStatus) => (
+    <Box display="flex" gap={0.5} flexWrap="wrap">
+      <Chip label={formatLabel(evaluation.status)} color={STATUS_COLORS[evaluation.status]} size="small" />
+      {evaluation.isOverdue && <Chip label="Overdue" color="error" size="small" variant="outlined" />}
+    </Box>
+  )
+
+  const renderActions = (evaluation: EvaluationWithStatus) => {
+    const actions = userId ? getAvailableEvaluationActions(evaluation, { id: userId, permissions }) : []
+    const canEdit = evaluation.status === 'DRAFT' && evaluation.evaluatorId === userId
+
+    return (
+      <Box display="flex" gap={1} justifyContent="flex-end" alignItems="center">
+        {canEdit && (
+          <Tooltip title="Edit draft">
+            <IconButton size="small" onClick={() => handleOpenForm(evaluation)}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {actions.map(action => (
+          <Button
+            key={action}
+            size="small"
+            variant={action === 'RETURN' ? 'text' : 'outlined'}
+            color={action === 'RETURN' ? 'warning' : 'primary'}
+            disabled={transitionEvaluation.isPending}
+            onClick={() => handleAction(evaluation, action)}
+          >
+            {ACTION_LABELS[action]}
+          </Button>
+        ))}
+      </Box>
+    )
+  }
+
+  const renderTable = (rows: EvaluationWithStatus[], emptyMessage: string) => {
+    if (rows.length === 0) {
+      return (
+        <Box py={6} textAlign="center">
+          <Typography variant="body2" color="text.secondary">
+            {emptyMessage}
+          </Typography>
+        </Box>
+      )
+    }
+
+    return (
+      <TableContainer>
+        <Table>
+          <TableHead>
+            <TableRow>
+              <TableCell>Resident</TableCell>
+              <TableCell>Type</TableCell>
+              <TableCell>Period</TableCell>
+              <TableCell>Due</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map(evaluation => (
+              <TableRow key={evaluation.id} hover>
+                <TableCell>
+                  <Typography variant="body2" fontWeight="medium">
+                    {residentNames.get(evaluation.evaluateeId) || evaluation.evaluateeId}
+                  </Typography>
+                  {evaluation.evaluationPeriod.rotationName && (
+                    <Typography variant="caption" color="text.secondary">
+                      {evaluation.evaluationPeriod.rotationName}
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{formatLabel(evaluation.type)}</TableCell>
+                <TableCell>
+                  {formatDate(evaluation.evaluationPeriod.startDate)} – {formatDate(evaluation.evaluationPeriod.endDate)}
+                </TableCell>
+                <TableCell>{formatDate(evaluation.dueDate)}</TableCell>
+                <TableCell>{renderStatus(evaluation)}</TableCell>
+                <TableCell align="right">{renderActions(evaluation)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    )
+  }
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading evaluations...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  // Show error state
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load evaluations: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            {isStaffView ? 'Resident Evaluations' : 'My Evaluations'}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {evaluations.length} evaluation{evaluations.length === 1 ? '' : 's'}
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2}>
+          <IconButton
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh evaluations"
+            sx={{
+              bgcolor: 'grey.100',
+              '&:hover': { bgcolor: 'grey.200' }
+            }}
+          >
+            <RefreshIcon />
+          </IconButton>
+          {permissions?.canCreateEvaluations && (
+            <EMMAButton
+              emmaVariant="medical-primary"
+              startIcon={<AddIcon />}
+              emmaSize="medium"
+              onClick={() => handleOpenForm()}
+            >
+              New Evaluation
+            </EMMAButton>
+          )}
+        </Box>
+      </Box>
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {isStaffView ? (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            {stats.map(stat => (
+              <Grid item xs={6} md={3} key={stat.label}>
+                <EMMACard emmaVariant="dashboard-metric" elevation={1}>
+                  <Box textAlign="center">
+                    <Typography variant="h3" fontWeight="bold" color={stat.value > 0 ? stat.color : 'text.secondary'}>
+                      {stat.value}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {stat.label}
+                    </Typography>
+                  </Box>
+                </EMMACard>
+              </Grid>
+            ))}
+          </Grid>
+
+          <EMMACard elevation={2}>
+            <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+              <Tabs value={selectedTab} onChange={(event, newValue) => setSelectedTab(newValue)}>
+                <Tab label={`My Evaluations (${myEvaluations.length})`} />
+                <Tab label={`Review Queue (${reviewQueue.length})`} />
+                <Tab label="All Evaluations" />
+                {canManageTemplates && <Tab label="Templates" />}
+                {canViewCccReport && <Tab label="CCC Report" />}
+                {canViewWorkload && <Tab label="Faculty Workload" />}
+              </Tabs>
+            </Box>
+
+            <TabPanel value={selectedTab} index={0}>
+              {renderTable(myEvaluations, 'You have no evaluations assigned')}
+            </TabPanel>
+            <TabPanel value={selectedTab} index={1}>
+              {renderTable(reviewQueue, 'No evaluations are waiting for review')}
+            </TabPanel>
+            <TabPanel value={selectedTab} index={2}>
+              {renderTable(evaluations, 'No evaluations have been created yet')}
+            </TabPanel>
+            {canManageTemplates && (
+              <TabPanel value={selectedTab} index={3}>
+                <EvaluationTemplatesPanel />
+              </TabPanel>
+            )}
+            {canViewCccReport && (
+              <TabPanel value={selectedTab} index={cccTabIndex}>
+                <CccReportPanel />
+              </TabPanel>
+            )}
+            {canViewWorkload && (
+              <TabPanel value={selectedTab} index={workloadTabIndex}>
+                <FacultyWorkloadPanel />
+              </TabPanel>
+            )}
+          </EMMACard>
+        </>
+      ) : (
+        <EMMACard elevation={2}>
+          {evaluations.length === 0 ? (
+            <Box py={6} textAlign="center">
+              <Typography variant="body2" color="text.secondary">
+                You have no finalized evaluations yet
+              </Typography>
+            </Box>
+          ) : (
+            <TableContainer>
+              <Table>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Evaluation</TableCell>
+                    <TableCell>Period</TableCell>
+                    <TableCell align="center">Overall</TableCell>
+                    <TableCell>Summary</TableCell>
+                    <TableCell align="right">Acknowledgement</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {evaluations.map(evaluation => (
+                    <TableRow key={evaluation.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="medium">
+                          {formatLabel(evaluation.type)}
+                        </Typography>
+                        {evaluation.evaluationPeriod.rotationName && (
+                          <Typography variant="caption" color="text.secondary">
+                            {evaluation.evaluationPeriod.rotationName}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {formatDate(evaluation.evaluationPeriod.startDate)} – {formatDate(evaluation.evaluationPeriod.endDate)}
+                      </TableCell>
+                      <TableCell align="center">{evaluation.overallRating}/9</TableCell>
+                      <TableCell sx={{ maxWidth: 360 }}>
+                        <Typography variant="body2" noWrap title={evaluation.summaryComments}>
+                          {evaluation.summaryComments}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        {evaluation.residentFeedback?.acknowledgedDate ? (
+                          <Chip
+                            label={`Acknowledged ${formatDate(evaluation.residentFeedback.acknowledgedDate)}`}
+                            color="success"
+                            size="small"
+                            variant="outlined"
+                          />
+                        ) : (
+                          <Button size="small" variant="outlined" onClick={() => setAcknowledging(evaluation)}>
+                            Acknowledge
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </EMMACard>
+      )}
+
+      <EvaluationFormModal
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        evaluation={editingEvaluation}
+      />
+
+      <Dialog open={!!acknowledging} onClose={() => setAcknowledging(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Acknowledge Evaluation</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Acknowledging confirms you have read this evaluation. You may add comments for your program.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Comments (optional)"
+            value={acknowledgeComments}
+            onChange={(e) => setAcknowledgeComments(e.target.value)}
+            inputProps={{ maxLength: 5000 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAcknowledging(null)} disabled={acknowledgeEvaluation.isPending}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleAcknowledge} disabled={acknowledgeEvaluation.isPending}>
+            Acknowledge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default Evaluations
@@ -0,0 +1,307 @@
+/**
+ * EMMA Healthcare Faculty Portal
+ *
+ * The faculty member's own view: residents they supervise, advise or attend
+ * this block, and the evaluations they still owe, soonest due first, with
+ * shortcuts to write and submit them.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+} from '@mui/material'
+import {
+  Edit as EditIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material'
+import { EMMACard } from '@/components/emma'
+import EvaluationFormModal from '@/components/modals/EvaluationFormModal'
+import { useFacultyPortal } from '@/hooks/useFacultyPortal'
+import { useTransitionEvaluation } from '@/hooks/useEvaluations'
+import { useResidents } from '@/hooks/useResidents'
+import { formatDate } from '@/lib/date-utils'
+import { EvaluationWithStatus } from '@/lib/evaluation-workflow'
+import { FACULTY_RELATIONSHIP_LABELS } from '@/lib/faculty-portal'
+
+const formatLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase()
+
+const FacultyPortal: React.FC = () => {
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingEvaluation, setEditingEvaluation] = useState<EvaluationWithStatus | undefined>()
+  const [newEvaluateeId, setNewEvaluateeId] = useState<string | undefined>()
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const { data: portal, isLoading, isFetching, isError, error, refetch } = useFacultyPortal()
+  const { data: residents = [] } = useResidents()
+  const transitionEvaluation = useTransitionEvaluation()
+
+  const residentNames = useMemo(
+    () => new Map(residents.map(resident => [resident.id, `${resident.firstName} ${resident.lastName}`])),
+    [residents]
+  )
+
+  const handleOpenForm = (evaluation?: EvaluationWithStatus, evaluateeId?: string) => {
+    setEditingEvaluation(evaluation)
+    setNewEvaluateeId(evaluateeId)
+    setFormOpen(true)
+  }
+
+  const handleSubmit = async (evaluation: EvaluationWithStatus) => {
+    setActionError(null)
+    try {
+      await transitionEvaluation.mutateAsync({ id: evaluation.id, action: 'SUBMIT' })
+    } catch (submitError) {
+      setActionError(submitError instanceof Error ? submitError.message : 'Failed to submit evaluation')
+    }
+  }
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading your portal...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  // Show error state
+  if (isError || !portal) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load your portal: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  const stats = [
+    { label: 'My Residents', value: portal.residents.length, color: 'primary.main' },
+    { label: 'Attending This Block', value: portal.residents.filter(resident => resident.relationships.includes('ATTENDING')).length, color: 'info.main' },
+    { label: 'Evaluations Owed', value: portal.pendingEvaluations.length, color: 'warning.dark' },
+    { label: 'Overdue', value: portal.overdueCount, color: 'error.main' },
+  ]
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Faculty Portal
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Residents you supervise or attend, and the evaluations you owe them
+          </Typography>
+        </Box>
+        <IconButton
+          onClick={() => refetch()}
+          disabled={isFetching}
+          title="Refresh portal"
+          sx={{
+            bgcolor: 'grey.100',
+            '&:hover': { bgcolor: 'grey.200' }
+          }}
+        >
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        {stats.map(stat => (
+          <Grid item xs={6} md={3} key={stat.label}>
+            <EMMACard emmaVariant="dashboard-metric" elevation={1}>
+              <Box textAlign="center">
+                <Typography variant="h3" fontWeight="bold" color={stat.value > 0 ? stat.color : 'text.secondary'}>
+                  {stat.value}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {stat.label}
+                </Typography>
+              </Box>
+            </EMMACard>
+          </Grid>
+        ))}
+      </Grid>
+
+      {/* Pending Evaluations */}
+      <EMMACard elevation={2} sx={{ mb: 3 }}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          Evaluations to Complete
+        </Typography>
+        {portal.pendingEvaluations.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            You have no draft evaluations outstanding
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Resident</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Period</TableCell>
+                  <TableCell>Due</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {portal.pendingEvaluations.map(evaluation => (
+                  <TableRow key={evaluation.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">
+                        {residentNames.get(evaluation.evaluateeId) || evaluation.evaluateeId}
+                      </Typography>
+                      {evaluation.evaluationPeriod.rotationName && (
+                        <Typography variant="caption" color="text.secondary">
+                          {evaluation.evaluationPeriod.rotationName}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatLabel(evaluation.type)}</TableCell>
+                    <TableCell>
+                      {formatDate(evaluation.evaluationPeriod.startDate)} – {formatDate(evaluation.evaluationPeriod.endDate)}
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        {formatDate(evaluation.dueDate)}
+                        {evaluation.isOverdue && <Chip label="Overdue" color="error" size="small" variant="outlined" />}
+                      </Box>
+                    </TableCell>
+                    <TableCell align="right">
+                      <Box display="flex" gap={1} justifyContent="flex-end" alignItems="center">
+                        <Tooltip title="Edit draft">
+                          <IconButton size="small" onClick={() => handleOpenForm(evaluation)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={transitionEvaluation.isPending}
+                          onClick={() => handleSubmit(evaluation)}
+                        >
+                          Submit
+                        </Button>
+                      </Box>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </EMMACard>
+
+      {/* Residents */}
+      <EMMACard elevation={2}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          My Residents
+        </Typography>
+        {portal.residents.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No residents are assigned to you as supervisor, advisor or attending
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Resident</TableCell>
+                  <TableCell>Role</TableCell>
+                  <TableCell>This Block</TableCell>
+                  <TableCell align="center">Drafts Owed</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {portal.residents.map(resident => (
+                  <TableRow key={resident.id} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">
+                        {resident.name}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {resident.department ? resident.department.replace(/_/g, ' ') : 'Unassigned'}
+                        {resident.pgyLevel ? ` · PGY-${resident.pgyLevel}` : ''}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Box display="flex" gap={0.5} flexWrap="wrap">
+                        {resident.relationships.map(relationship => (
+                          <Chip key={relationship} label={FACULTY_RELATIONSHIP_LABELS[relationship]} size="small" variant="outlined" />
+                        ))}
+                      </Box>
+                    </TableCell>
+                    <TableCell>
+                      {resident.rotationName ? (
+                        <>
+                          <Typography variant="body2">{resident.rotationName}</Typography>
+                          {resident.blockEndDate && (
+                            <Typography variant="caption" color="text.secondary">
+                              Until {formatDate(resident.blockEndDate)}
+                            </Typography>
+                          )}
+                        </>
+                      ) : (
+                        <Typography variant="body2" color="text.secondary">—</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="center">{resident.openEvaluationCount}</TableCell>
+                    <TableCell align="right">
+                      <Button size="small" variant="outlined" onClick={() => handleOpenForm(undefined, resident.id)}>
+                        Start Evaluation
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </EMMACard>
+
+      <EvaluationFormModal
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        evaluation={editingEvaluation}
+        evaluateeId={newEvaluateeId}
+      />
+    </Box>
+  )
+}
+
+export default FacultyPortal
@@ -0,0 +1,106 @@
+/**
+ * EMMA Healthcare Faculty Workload Panel
+ *
+ * Open evaluations per evaluator - drafts owed, overdue and waiting on
+ * review - so coordinators can see who is carrying the evaluation load.
+ */
+
+'use client'
+
+import React from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import { useFacultyWorkload } from '@/hooks/useFacultyPortal'
+import { formatDate } from '@/lib/date-utils'
+import { ROLE_LABELS } from '@/lib/user-management'
+
+const FacultyWorkloadPanel: React.FC = () => {
+  const { data: workload = [], isLoading, isError, error, refetch } = useFacultyWorkload()
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+        <CircularProgress size={32} />
+        <Typography sx={{ ml: 2 }}>Loading faculty workload...</Typography>
+      </Box>
+    )
+  }
+
+  if (isError) {
+    return (
+      <Box p={3}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load faculty workload: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  if (workload.length === 0) {
+    return (
+      <Box py={6} textAlign="center">
+        <Typography variant="body2" color="text.secondary">
+          No active faculty or open evaluations
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <TableContainer>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell>Evaluator</TableCell>
+            <TableCell align="center">Open</TableCell>
+            <TableCell align="center">Overdue</TableCell>
+            <TableCell align="center">Awaiting Review</TableCell>
+            <TableCell>Next Due</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {workload.map(entry => (
+            <TableRow key={entry.evaluatorId} hover>
+              <TableCell>
+                <Typography variant="body2" fontWeight="medium">
+                  {entry.name}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {entry.role ? ROLE_LABELS[entry.role] : 'Unknown user'}
+                  {entry.department ? ` · ${entry.department.replace(/_/g, ' ')}` : ''}
+                </Typography>
+              </TableCell>
+              <TableCell align="center">{entry.open}</TableCell>
+              <TableCell align="center">
+                {entry.overdue > 0 ? <Chip label={entry.overdue} color="error" size="small" /> : 0}
+              </TableCell>
+              <TableCell align="center">{entry.awaitingReview}</TableCell>
+              <TableCell>{formatDate(entry.nextDueDate)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  )
+}
+
+export default FacultyWorkloadPanel
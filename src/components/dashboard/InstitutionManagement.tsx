@@ -0,0 +1,383 @@
+/**
+ * EMMA Healthcare Institution Management
+ *
+ * Super-admin console for the platform: every onboarded institution, the
+ * onboarding flow for new programs, and which users from other institutions
+ * may switch into each one.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  CardContent,
+  Grid,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  IconButton,
+  Alert,
+  Button,
+  CircularProgress,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  PersonRemove as RemoveIcon,
+} from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { EMMACard } from '@/components/emma'
+import InstitutionOnboardingModal from '@/components/modals/InstitutionOnboardingModal'
+import {
+  useAllInstitutions,
+  useInstitutionMembers,
+  useAddInstitutionMember,
+  useRemoveInstitutionMember,
+} from '@/hooks/useInstitutions'
+import { INSTITUTION_TYPE_LABELS, InstitutionSummary } from '@/lib/institutions'
+import { RESIDENT_DEPARTMENTS } from '@/lib/resident-validation'
+import { ROLE_LABELS, USER_ROLES } from '@/lib/user-management'
+import { Department, UserRole } from '@/types/user'
+
+const STATUS_COLORS: Record<InstitutionSummary['status'], 'success' | 'warning' | 'default'> = {
+  ACTIVE: 'success',
+  SUSPENDED: 'warning',
+  INACTIVE: 'default',
+}
+
+const formatDepartmentName = (department?: string): string =>
+  department
+    ? department.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+    : '—'
+
+const InstitutionManagement: React.FC = () => {
+  const { data: session } = useSession()
+  const [onboardingOpen, setOnboardingOpen] = useState(false)
+  const [selectedInstitution, setSelectedInstitution] = useState<InstitutionSummary | null>(null)
+  const [memberEmail, setMemberEmail] = useState('')
+  const [memberRole, setMemberRole] = useState<UserRole>('FACULTY')
+  const [memberDepartment, setMemberDepartment] = useState<Department | ''>('')
+  const [actionMessage, setActionMessage] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const {
+    data: institutions = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useAllInstitutions()
+  const { data: members = [], isLoading: membersLoading } = useInstitutionMembers(selectedInstitution?.id ?? null)
+  const addMember = useAddInstitutionMember()
+  const removeMember = useRemoveInstitutionMember()
+
+  // Run a membership change and report its outcome above the table
+  const runAction = async (action: () => Promise<{ message?: string }>, fallbackError: string) => {
+    setActionError(null)
+    setActionMessage(null)
+    try {
+      const result = await action()
+      setActionMessage(result.message ?? null)
+    } catch (actionFailure) {
+      setActionError(actionFailure instanceof Error ? actionFailure.message : fallbackError)
+    }
+  }
+
+  const handleAddMember = async () => {
+    if (!selectedInstitution || !memberEmail.trim()) return
+    await runAction(() => addMember.mutateAsync({
+      institutionId: selectedInstitution.id,
+      email: memberEmail.trim(),
+      role: memberRole,
+      department: memberDepartment || undefined,
+    }), 'Failed to add institution member')
+    setMemberEmail('')
+  }
+
+  if (!session?.user?.isSuperAdmin) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="warning">Only super admins can manage institutions.</Alert>
+      </Box>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading institutions...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          <Typography variant="body2">
+            Failed to load institutions: {error instanceof Error ? error.message : 'Unknown error'}
+          </Typography>
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Institutions
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {institutions.length} institutions on the platform
+          </Typography>
+        </Box>
+        <Box display="flex" gap={1}>
+          <IconButton
+            onClick={() => refetch()}
+            title="Refresh institutions"
+            sx={{
+              bgcolor: 'grey.100',
+              '&:hover': { bgcolor: 'grey.200' }
+            }}
+          >
+            <RefreshIcon />
+          </IconButton>
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => setOnboardingOpen(true)}>
+            Onboard Institution
+          </Button>
+        </Box>
+      </Box>
+
+      {actionMessage && (
+        <Alert severity="success" onClose={() => setActionMessage(null)} sx={{ mb: 3 }}>
+          {actionMessage}
+        </Alert>
+      )}
+
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 3 }}>
+          {actionError}
+        </Alert>
+      )}
+
+      {/* Institutions Table */}
+      <EMMACard elevation={2} sx={{ mb: 3 }}>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>Institution</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Location</TableCell>
+                <TableCell>Programs</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {institutions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} align="center" sx={{ py: 6 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      No institutions have been onboarded
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : institutions.map(institution => (
+                <TableRow
+                  key={institution.id}
+                  hover
+                  selected={institution.id === selectedInstitution?.id}
+                  onClick={() => setSelectedInstitution(institution)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell>
+                    <Typography variant="subtitle2" fontWeight="medium">
+                      {institution.name}
+                      {institution.id === session.user.institutionId && ' (current)'}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {institution.id}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{INSTITUTION_TYPE_LABELS[institution.type] ?? institution.type}</TableCell>
+                  <TableCell>{[institution.city, institution.state].filter(Boolean).join(', ') || '—'}</TableCell>
+                  <TableCell>{institution.activePrograms.map(formatDepartmentName).join(', ') || '—'}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={institution.status}
+                      color={STATUS_COLORS[institution.status] ?? 'default'}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </EMMACard>
+
+      {/* Institution Access */}
+      {selectedInstitution && (
+        <EMMACard elevation={2}>
+          <CardContent>
+            <Typography variant="h6" fontWeight="bold" gutterBottom>
+              Access to {selectedInstitution.name}
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Users from other institutions listed here can switch into {selectedInstitution.name} with
+              the role given. Their overrides and department grants stay with their own institution.
+            </Typography>
+
+            <Grid container spacing={2} alignItems="center" sx={{ mb: 2 }}>
+              <Grid item xs={12} md={5}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="User email"
+                  type="email"
+                  value={memberEmail}
+                  onChange={(e) => setMemberEmail(e.target.value)}
+                />
+              </Grid>
+              <Grid item xs={6} md={2}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Role</InputLabel>
+                  <Select value={memberRole} label="Role" onChange={(e) => setMemberRole(e.target.value as UserRole)}>
+                    {USER_ROLES.map(role => (
+                      <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={6} md={3}>
+                <FormControl fullWidth size="small">
+                  <InputLabel>Department</InputLabel>
+                  <Select
+                    value={memberDepartment}
+                    label="Department"
+                    onChange={(e) => setMemberDepartment(e.target.value as Department | '')}
+                  >
+                    <MenuItem value="">None</MenuItem>
+                    {RESIDENT_DEPARTMENTS.map(department => (
+                      <MenuItem key={department} value={department}>{formatDepartmentName(department)}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+              <Grid item xs={12} md={2}>
+                <Button
+                  fullWidth
+                  variant="outlined"
+                  onClick={handleAddMember}
+                  disabled={!memberEmail.trim() || addMember.isPending}
+                >
+                  Give Access
+                </Button>
+              </Grid>
+            </Grid>
+
+            {membersLoading ? (
+              <Box display="flex" justifyContent="center" py={3}>
+                <CircularProgress size={24} />
+              </Box>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>User</TableCell>
+                      <TableCell>Home Institution</TableCell>
+                      <TableCell>Role Here</TableCell>
+                      <TableCell>Department</TableCell>
+                      <TableCell align="center">Actions</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {members.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5} align="center" sx={{ py: 3 }}>
+                          <Typography variant="body2" color="text.secondary">
+                            No users from other institutions have access
+                          </Typography>
+                        </TableCell>
+                      </TableRow>
+                    ) : members.map(member => {
+                      const membership = member.institutionMemberships?.find(
+                        entry => entry.institutionId === selectedInstitution.id
+                      )
+                      return (
+                        <TableRow key={member.id} hover>
+                          <TableCell>
+                            <Typography variant="body2" fontWeight="medium">
+                              {member.firstName} {member.lastName}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              {member.email}
+                            </Typography>
+                          </TableCell>
+                          <TableCell>{member.institutionId}</TableCell>
+                          <TableCell>{membership ? ROLE_LABELS[membership.role] : '—'}</TableCell>
+                          <TableCell>{formatDepartmentName(membership?.department)}</TableCell>
+                          <TableCell align="center">
+                            <IconButton
+                              size="small"
+                              title="Remove access"
+                              disabled={removeMember.isPending}
+                              onClick={() => runAction(
+                                () => removeMember.mutateAsync({ institutionId: selectedInstitution.id, userId: member.id }),
+                                'Failed to remove institution member'
+                              )}
+                            >
+                              <RemoveIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </CardContent>
+        </EMMACard>
+      )}
+
+      <InstitutionOnboardingModal
+        open={onboardingOpen}
+        onClose={() => setOnboardingOpen(false)}
+        onOnboarded={(message) => {
+          setOnboardingOpen(false)
+          setActionError(null)
+          setActionMessage(message)
+        }}
+      />
+    </Box>
+  )
+}
+
+export default InstitutionManagement
@@ -0,0 +1,553 @@
+/**
+ * EMMA Healthcare Leave Management
+ *
+ * Residents request leave and follow their balances and any training
+ * extension; coordinators work the approval queue, seeing the balance,
+ * staffing and board eligibility issues flagged on each request.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material'
+import {
+  Add as AddIcon,
+  Refresh as RefreshIcon,
+  Warning as WarningIcon,
+} from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { EMMACard } from '@/components/emma'
+import { useLeaveAction, useLeaveRequests, useLeaveSummary, useRequestLeave } from '@/hooks/useLeave'
+import { useResidents } from '@/hooks/useResidents'
+import { formatDate, toDate } from '@/lib/date-utils'
+import { LEAVE_TYPES, LEAVE_TYPE_LABELS, LeaveAction, canDecideLeave } from '@/lib/leave'
+import { LeaveRequest, LeaveType } from '@/types/database'
+
+interface LeaveForm {
+  residentId: string
+  type: LeaveType
+  startDate: string
+  endDate: string
+  reason: string
+}
+
+const EMPTY_FORM: LeaveForm = { residentId: '', type: 'VACATION', startDate: '', endDate: '', reason: '' }
+
+const STATUS_COLORS: Record<LeaveRequest['status'], 'warning' | 'success' | 'error' | 'default'> = {
+  PENDING: 'warning',
+  APPROVED: 'success',
+  DENIED: 'error',
+  CANCELLED: 'default'
+}
+
+const formatLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase()
+
+const LeaveManagement: React.FC = () => {
+  const { data: session } = useSession()
+  const isApprover = !!session?.user && canDecideLeave(session.user)
+  const isResident = session?.user?.role === 'RESIDENT'
+
+  const [formOpen, setFormOpen] = useState(false)
+  const [form, setForm] = useState<LeaveForm>(EMPTY_FORM)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [deciding, setDeciding] = useState<{ request: LeaveRequest; action: LeaveAction } | null>(null)
+  const [comments, setComments] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const { data: requests = [], isLoading, isFetching, isError, error, refetch } = useLeaveRequests()
+  const { data: summary } = useLeaveSummary()
+  const { data: residents = [] } = useResidents()
+  const requestLeave = useRequestLeave()
+  const leaveAction = useLeaveAction()
+
+  const pendingRequests = requests.filter(request => request.status === 'PENDING')
+
+  const handleOpenForm = () => {
+    setForm(EMPTY_FORM)
+    setFormError(null)
+    setFormOpen(true)
+  }
+
+  const handleSubmitRequest = async () => {
+    setFormError(null)
+    try {
+      const result = await requestLeave.mutateAsync({
+        residentId: isApprover ? form.residentId || undefined : undefined,
+        type: form.type,
+        startDate: form.startDate,
+        endDate: form.endDate,
+        reason: form.reason.trim() || undefined
+      })
+      setNotice(result.message ?? null)
+      setFormOpen(false)
+    } catch (submitError) {
+      setFormError(submitError instanceof Error ? submitError.message : 'Failed to request leave')
+    }
+  }
+
+  const handleOpenAction = (request: LeaveRequest, action: LeaveAction) => {
+    setComments('')
+    setDeciding({ request, action })
+  }
+
+  const handleConfirmAction = async () => {
+    if (!deciding) return
+    setActionError(null)
+    try {
+      const result = await leaveAction.mutateAsync({
+        id: deciding.request.id,
+        action: deciding.action,
+        comments: comments.trim() || undefined
+      })
+      setNotice(result.message ?? null)
+    } catch (updateError) {
+      setActionError(updateError instanceof Error ? updateError.message : 'Failed to update leave request')
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  // Residents can withdraw their own leave until it starts; coordinators at any time
+  const canCancel = (request: LeaveRequest): boolean => {
+    if (request.status === 'PENDING') return true
+    if (request.status !== 'APPROVED') return false
+    const startDate = toDate(request.startDate)
+    return isApprover || (!!startDate && startDate > new Date())
+  }
+
+  const renderWarnings = (request: LeaveRequest) => (
+    request.warnings.length > 0 ? (
+      <Box display="flex" flexDirection="column" gap={0.5}>
+        {request.warnings.map((warning, index) => (
+          <Tooltip key={index} title={warning.message}>
+            <Chip
+              icon={<WarningIcon />}
+              label={warning.type === 'BELOW_MINIMUM_STAFFING'
+                ? 'Staffing'
+                : warning.type === 'BALANCE_EXCEEDED' ? 'Over balance' : 'Extends training'}
+              color="warning"
+              size="small"
+              variant="outlined"
+            />
+          </Tooltip>
+        ))}
+      </Box>
+    ) : (
+      <Typography variant="body2" color="text.secondary">—</Typography>
+    )
+  )
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading leave...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  // Show error state
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load leave requests: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Leave
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {isApprover
+              ? 'Review leave requests against balances, rotation staffing and board eligibility'
+              : 'Request time off and track your leave balances'}
+          </Typography>
+        </Box>
+        <Box display="flex" gap={1}>
+          <IconButton
+            onClick={() => refetch()}
+            disabled={isFetching}
+            title="Refresh leave"
+            sx={{
+              bgcolor: 'grey.100',
+              '&:hover': { bgcolor: 'grey.200' }
+            }}
+          >
+            <RefreshIcon />
+          </IconButton>
+          {(isResident || isApprover) && (
+            <Button variant="contained" startIcon={<AddIcon />} onClick={handleOpenForm}>
+              Request Leave
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {notice && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {/* Balances */}
+      {summary && (
+        <>
+          <Grid container spacing={3} sx={{ mb: 3 }}>
+            {summary.balances.map(balance => (
+              <Grid item xs={6} md={3} key={balance.type}>
+                <EMMACard emmaVariant="dashboard-metric" elevation={1}>
+                  <Box textAlign="center">
+                    <Typography variant="h3" fontWeight="bold" color={balance.remaining > 0 ? 'primary.main' : 'text.secondary'}>
+                      {balance.remaining}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {LEAVE_TYPE_LABELS[balance.type]} days left of {balance.allowance}
+                    </Typography>
+                    {balance.pending > 0 && (
+                      <Typography variant="caption" color="text.secondary">
+                        {balance.pending} pending
+                      </Typography>
+                    )}
+                  </Box>
+                </EMMACard>
+              </Grid>
+            ))}
+          </Grid>
+
+          <Alert severity={summary.extension.extensionDays > 0 ? 'warning' : 'info'} sx={{ mb: 3 }}>
+            {summary.extension.boardLeaveDays} working days of leave count toward board eligibility
+            (allowance {summary.settings.boardEligibilityDays} per academic year).
+            {summary.extension.extensionDays > 0 && (
+              <> Training is extended by {summary.extension.extensionDays} working days
+                {summary.extension.extendedGraduationDate
+                  ? `, to ${formatDate(summary.extension.extendedGraduationDate)}`
+                  : ''}.</>
+            )}
+          </Alert>
+        </>
+      )}
+
+      {/* Approval Queue */}
+      {isApprover && (
+        <EMMACard elevation={2} sx={{ mb: 3 }}>
+          <Typography variant="h6" fontWeight="bold" gutterBottom>
+            Pending Approval
+          </Typography>
+          {pendingRequests.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No leave requests are waiting for a decision
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Resident</TableCell>
+                    <TableCell>Type</TableCell>
+                    <TableCell>Dates</TableCell>
+                    <TableCell align="center">Working Days</TableCell>
+                    <TableCell>Flags</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {pendingRequests.map(request => (
+                    <TableRow key={request.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="medium">
+                          {request.residentName}
+                        </Typography>
+                        {request.department && (
+                          <Typography variant="caption" color="text.secondary">
+                            {request.department.replace(/_/g, ' ')}
+                          </Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{LEAVE_TYPE_LABELS[request.type]}</TableCell>
+                      <TableCell>
+                        {formatDate(request.startDate)} – {formatDate(request.endDate)}
+                      </TableCell>
+                      <TableCell align="center">{request.workingDays}</TableCell>
+                      <TableCell>{renderWarnings(request)}</TableCell>
+                      <TableCell align="right">
+                        <Box display="flex" gap={1} justifyContent="flex-end">
+                          <Button
+                            size="small"
+                            variant="contained"
+                            disabled={leaveAction.isPending || request.residentId === session?.user?.id}
+                            onClick={() => handleOpenAction(request, 'APPROVE')}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            color="error"
+                            disabled={leaveAction.isPending || request.residentId === session?.user?.id}
+                            onClick={() => handleOpenAction(request, 'DENY')}
+                          >
+                            Deny
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </EMMACard>
+      )}
+
+      {/* Requests */}
+      <EMMACard elevation={2}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          {isApprover ? 'All Leave Requests' : 'My Leave Requests'}
+        </Typography>
+        {requests.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No leave has been requested
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  {isApprover && <TableCell>Resident</TableCell>}
+                  <TableCell>Type</TableCell>
+                  <TableCell>Dates</TableCell>
+                  <TableCell align="center">Working Days</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Comments</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {requests.map(request => (
+                  <TableRow key={request.id} hover>
+                    {isApprover && <TableCell>{request.residentName}</TableCell>}
+                    <TableCell>{LEAVE_TYPE_LABELS[request.type]}</TableCell>
+                    <TableCell>
+                      {formatDate(request.startDate)} – {formatDate(request.endDate)}
+                    </TableCell>
+                    <TableCell align="center">{request.workingDays}</TableCell>
+                    <TableCell>
+                      <Chip label={formatLabel(request.status)} color={STATUS_COLORS[request.status]} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {request.decision?.comments || '—'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      {canCancel(request) && (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={leaveAction.isPending}
+                          onClick={() => handleOpenAction(request, 'CANCEL')}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </EMMACard>
+
+      {/* Request Dialog */}
+      <Dialog open={formOpen} onClose={() => setFormOpen(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Request Leave</DialogTitle>
+        <DialogContent>
+          {formError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {formError}
+            </Alert>
+          )}
+          <Grid container spacing={2} sx={{ mt: 0 }}>
+            {isApprover && (
+              <Grid item xs={12}>
+                <FormControl fullWidth>
+                  <InputLabel>Resident</InputLabel>
+                  <Select
+                    value={form.residentId}
+                    onChange={(e) => setForm({ ...form, residentId: e.target.value })}
+                    label="Resident"
+                  >
+                    {residents.map(resident => (
+                      <MenuItem key={resident.id} value={resident.id}>
+                        {resident.firstName} {resident.lastName}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            )}
+            <Grid item xs={12}>
+              <FormControl fullWidth>
+                <InputLabel>Leave Type</InputLabel>
+                <Select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as LeaveType })}
+                  label="Leave Type"
+                >
+                  {LEAVE_TYPES.map(type => (
+                    <MenuItem key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={6}>
+              <TextField
+                fullWidth
+                type="date"
+                label="First Day"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={6}>
+              <TextField
+                fullWidth
+                type="date"
+                label="Last Day"
+                value={form.endDate}
+                onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+                InputLabelProps={{ shrink: true }}
+              />
+            </Grid>
+            <Grid item xs={12}>
+              <TextField
+                fullWidth
+                multiline
+                minRows={2}
+                label="Reason (optional)"
+                helperText="Visible to program coordinators only"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                inputProps={{ maxLength: 1000 }}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setFormOpen(false)} disabled={requestLeave.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSubmitRequest}
+            disabled={requestLeave.isPending || !form.startDate || !form.endDate || (isApprover && !form.residentId)}
+          >
+            Submit Request
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Decision Dialog */}
+      <Dialog open={!!deciding} onClose={() => setDeciding(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {deciding?.action === 'APPROVE' ? 'Approve Leave' : deciding?.action === 'DENY' ? 'Deny Leave' : 'Cancel Leave'}
+        </DialogTitle>
+        <DialogContent>
+          {deciding && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {LEAVE_TYPE_LABELS[deciding.request.type]} leave for {deciding.request.residentName},{' '}
+              {formatDate(deciding.request.startDate)} – {formatDate(deciding.request.endDate)}
+              {' '}({deciding.request.workingDays} working days).
+              {deciding.action === 'APPROVE' && ' It will be added to the published schedule.'}
+            </Typography>
+          )}
+          {deciding?.request.warnings.map((warning, index) => (
+            <Alert key={index} severity="warning" sx={{ mb: 1 }}>
+              {warning.message}
+            </Alert>
+          ))}
+          {deciding?.action !== 'CANCEL' && (
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label="Comments (optional)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              inputProps={{ maxLength: 1000 }}
+              sx={{ mt: 1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeciding(null)} disabled={leaveAction.isPending}>
+            Back
+          </Button>
+          <Button
+            variant="contained"
+            color={deciding?.action === 'APPROVE' ? 'primary' : 'error'}
+            onClick={handleConfirmAction}
+            disabled={leaveAction.isPending}
+          >
+            {deciding?.action === 'APPROVE' ? 'Approve' : deciding?.action === 'DENY' ? 'Deny' : 'Cancel Leave'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default LeaveManagement
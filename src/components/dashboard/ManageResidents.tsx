@@ -37,6 +37,11 @@ import {
   InputLabel,
   Select,
   SelectChangeEvent,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
 } from '@mui/material'
 import {
   Search as SearchIcon,
@@ -44,14 +49,33 @@ import {
   MoreVert as MoreVertIcon,
   Edit as EditIcon,
   Visibility as ViewIcon,
-  Assessment as AssessmentIcon,
   Refresh as RefreshIcon,
+  PersonOff as DeactivateIcon,
+  PersonAdd as ReactivateIcon,
+  UploadFile as UploadIcon,
+  School as SchoolIcon,
+  LockOpen as UnlockIcon,
+  PhonelinkErase as ResetMfaIcon,
 } from '@mui/icons-material'
 import { useSession } from 'next-auth/react'
 import { EMMACard, EMMAButton } from '@/components/emma'
 import AddResidentModal from '@/components/modals/AddResidentModal'
-import { useResidents, useInvalidateResidents } from '@/hooks/useResidents'
+import EditResidentModal from '@/components/modals/EditResidentModal'
+import ImportResidentsModal from '@/components/modals/ImportResidentsModal'
+import PromotionWizardModal from '@/components/modals/PromotionWizardModal'
+import {
+  useResidents,
+  useInvalidateResidents,
+  useDeactivateResident,
+  useReactivateResident,
+} from '@/hooks/useResidents'
+import { useDutyHoursCompliance } from '@/hooks/useDutyHours'
+import { useResetMfa, useUnlockAccount } from '@/hooks/useUsers'
+import DutyHoursReportPanel, { DUTY_VIOLATION_LABELS } from './DutyHoursReportPanel'
 import { ExtendedUser } from '@/types/database'
+import { ResidentStatusFilter } from '@/lib/resident-validation'
+import { isAccountLocked } from '@/lib/password-policy'
+import { hasPermission } from '@/lib/permissions'
 // import { Department, PGYLevel } from '@/types/user'
 
 // Temporary type definitions
@@ -100,6 +124,13 @@ const pgyLevelOptions = [
   { value: 7, label: 'PGY-7' },
 ]
 
+// Account status options for filtering
+const statusOptions: { value: ResidentStatusFilter; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'inactive', label: 'Inactive' },
+  { value: 'all', label: 'All Statuses' },
+]
+
 interface TabPanelProps {
   children?: React.ReactNode
   index: number
@@ -119,12 +150,24 @@ const ManageResidents: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedTab, setSelectedTab] = useState(0)
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
-  const [selectedResident, setSelectedResident] = useState<string | null>(null)
+  const [selectedResident, setSelectedResident] = useState<ExtendedUser | null>(null)
   const [addResidentModalOpen, setAddResidentModalOpen] = useState(false)
+  const [importModalOpen, setImportModalOpen] = useState(false)
+  const [promotionWizardOpen, setPromotionWizardOpen] = useState(false)
+  const [editingResident, setEditingResident] = useState<ExtendedUser | null>(null)
+  const [deactivatingResident, setDeactivatingResident] = useState<ExtendedUser | null>(null)
+  const [deactivationReason, setDeactivationReason] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
   const [departmentFilter, setDepartmentFilter] = useState<Department | ''>('')
   const [pgyLevelFilter, setPgyLevelFilter] = useState<PGYLevel | ''>('')
+  const [statusFilter, setStatusFilter] = useState<ResidentStatusFilter>('active')
 
   const invalidateResidents = useInvalidateResidents()
+  const deactivateResident = useDeactivateResident()
+  const reactivateResident = useReactivateResident()
+  const unlockAccount = useUnlockAccount()
+  const resetMfa = useResetMfa()
+  const canManageSystem = !!session?.user?.permissions?.canManageSystem
 
   // Fetch residents with current filters
   const { 
@@ -137,8 +180,24 @@ const ManageResidents: React.FC = () => {
     department: departmentFilter || undefined,
     pgyLevel: pgyLevelFilter || undefined,
     search: searchTerm || undefined,
+    status: statusFilter,
+  })
+
+  // ACGME duty-hour compliance for the same department filter
+  const {
+    data: dutyHoursReport,
+    isLoading: dutyHoursLoading,
+    error: dutyHoursError,
+    refetch: refetchDutyHours,
+  } = useDutyHoursCompliance({
+    department: departmentFilter || undefined,
   })
 
+  const dutyHoursByResident = useMemo(
+    () => new Map((dutyHoursReport?.residents ?? []).map(summary => [summary.residentId, summary])),
+    [dutyHoursReport]
+  )
+
   // Filter residents client-side for search (API also supports search but this provides instant feedback)
   const filteredResidents = useMemo(() => {
     if (!residents) return []
@@ -155,9 +214,9 @@ const ManageResidents: React.FC = () => {
     )
   }, [residents, searchTerm])
 
-  const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, residentId: string) => {
+  const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, resident: ExtendedUser) => {
     setAnchorEl(event.currentTarget)
-    setSelectedResident(residentId)
+    setSelectedResident(resident)
   }
 
   const handleMenuClose = () => {
@@ -177,6 +236,76 @@ const ManageResidents: React.FC = () => {
     setPgyLevelFilter(event.target.value === '' ? '' : Number(event.target.value) as PGYLevel)
   }
 
+  const handleStatusFilterChange = (event: SelectChangeEvent<string>) => {
+    setStatusFilter(event.target.value as ResidentStatusFilter)
+  }
+
+  const handleEditResident = () => {
+    setEditingResident(selectedResident)
+    handleMenuClose()
+  }
+
+  const handleDeactivateResident = () => {
+    setDeactivationReason('')
+    setDeactivatingResident(selectedResident)
+    handleMenuClose()
+  }
+
+  const handleConfirmDeactivate = async () => {
+    if (!deactivatingResident) return
+
+    setActionError(null)
+    try {
+      await deactivateResident.mutateAsync({
+        residentId: deactivatingResident.id,
+        reason: deactivationReason.trim() || undefined,
+      })
+    } catch (deactivateError) {
+      setActionError(deactivateError instanceof Error ? deactivateError.message : 'Failed to deactivate resident')
+    } finally {
+      setDeactivatingResident(null)
+    }
+  }
+
+  const handleReactivateResident = async () => {
+    const resident = selectedResident
+    handleMenuClose()
+    if (!resident) return
+
+    setActionError(null)
+    try {
+      await reactivateResident.mutateAsync(resident.id)
+    } catch (reactivateError) {
+      setActionError(reactivateError instanceof Error ? reactivateError.message : 'Failed to reactivate resident')
+    }
+  }
+
+  const handleUnlockAccount = async () => {
+    const resident = selectedResident
+    handleMenuClose()
+    if (!resident) return
+
+    setActionError(null)
+    try {
+      await unlockAccount.mutateAsync(resident.id)
+    } catch (unlockError) {
+      setActionError(unlockError instanceof Error ? unlockError.message : 'Failed to unlock account')
+    }
+  }
+
+  const handleResetMfa = async () => {
+    const resident = selectedResident
+    handleMenuClose()
+    if (!resident) return
+
+    setActionError(null)
+    try {
+      await resetMfa.mutateAsync(resident.id)
+    } catch (resetError) {
+      setActionError(resetError instanceof Error ? resetError.message : 'Failed to reset MFA')
+    }
+  }
+
   const handleAddResidentSuccess = (newResident: ExtendedUser) => {
     // Invalidate and refetch residents to include the new one
     invalidateResidents()
@@ -198,19 +327,57 @@ const ManageResidents: React.FC = () => {
     return `${resident.firstName.charAt(0)}${resident.lastName.charAt(0)}`.toUpperCase()
   }
 
-  const getStatusColor = (isActive: boolean, emailVerified: boolean) => {
+  // Deactivated residents have status INACTIVE regardless of verification
+  const isDeactivated = (resident: ExtendedUser): boolean => resident.status === 'INACTIVE'
+
+  const getStatusColor = (resident: ExtendedUser) => {
+    const { isActive, emailVerified } = resident
+    if (isDeactivated(resident)) return 'default'
     if (isActive && emailVerified) return 'success'
     if (!emailVerified) return 'warning'
     return 'default'
   }
 
-  const getStatusLabel = (isActive: boolean, emailVerified: boolean) => {
+  const getStatusLabel = (resident: ExtendedUser) => {
+    const { isActive, emailVerified } = resident
+    if (isDeactivated(resident)) return 'Deactivated'
     if (isActive && emailVerified) return 'Active'
     if (!emailVerified) return 'Pending Verification'
     if (!isActive) return 'Inactive'
     return 'Unknown'
   }
 
+  const renderDutyHoursStatus = (residentId: string) => {
+    const dutyHours = dutyHoursByResident.get(residentId)
+    if (!dutyHours) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          {dutyHoursLoading ? '…' : '—'}
+        </Typography>
+      )
+    }
+
+    const { violations } = dutyHours
+    const hasLoggedViolation = violations.some(violation => violation.source === 'LOGGED')
+
+    return (
+      <Tooltip
+        title={violations.length > 0
+          ? violations.map(violation => `${DUTY_VIOLATION_LABELS[violation.type]}: ${violation.message}`).join(' • ')
+          : `${dutyHours.averageWeeklyHours} hrs/week average`}
+      >
+        <Chip
+          label={violations.length > 0
+            ? `${violations.length} violation${violations.length === 1 ? '' : 's'}`
+            : 'Compliant'}
+          color={hasLoggedViolation ? 'error' : violations.length > 0 ? 'warning' : 'success'}
+          size="small"
+          variant="outlined"
+        />
+      </Tooltip>
+    )
+  }
+
   // Show loading state
   if (isLoading) {
     return (
@@ -253,7 +420,7 @@ const ManageResidents: React.FC = () => {
           </Typography>
           <Typography variant="body2" color="text.secondary">
             {residents.length} resident physicians found
-            {(departmentFilter || pgyLevelFilter) && ' (filtered)'}
+            {(departmentFilter || pgyLevelFilter || statusFilter !== 'active') && ' (filtered)'}
           </Typography>
         </Box>
         <Box display="flex" gap={2}>
@@ -268,6 +435,26 @@ const ManageResidents: React.FC = () => {
           >
             <RefreshIcon />
           </IconButton>
+          {session?.user?.permissions?.canCreateUsers && (
+            <EMMAButton
+              emmaVariant="medical-secondary"
+              startIcon={<UploadIcon />}
+              emmaSize="medium"
+              onClick={() => setImportModalOpen(true)}
+            >
+              Import CSV
+            </EMMAButton>
+          )}
+          {session?.user?.permissions?.canEditResidents && (
+            <EMMAButton
+              emmaVariant="medical-secondary"
+              startIcon={<SchoolIcon />}
+              emmaSize="medium"
+              onClick={() => setPromotionWizardOpen(true)}
+            >
+              Year-End Promotions
+            </EMMAButton>
+          )}
           <EMMAButton
             emmaVariant="medical-primary"
             startIcon={<AddIcon />}
@@ -279,11 +466,17 @@ const ManageResidents: React.FC = () => {
         </Box>
       </Box>
 
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 3 }}>
+          {actionError}
+        </Alert>
+      )}
+
       {/* Search and Filters */}
       <EMMACard elevation={2} sx={{ mb: 3 }}>
         <CardContent>
           <Grid container spacing={3} alignItems="center">
-            <Grid item xs={12} md={6}>
+            <Grid item xs={12} md={5}>
               <TextField
                 fullWidth
                 placeholder="Search residents by name, email, or department..."
@@ -315,7 +508,7 @@ const ManageResidents: React.FC = () => {
                 </Select>
               </FormControl>
             </Grid>
-            <Grid item xs={12} md={3}>
+            <Grid item xs={12} md={2}>
               <FormControl fullWidth size="small">
                 <InputLabel>PGY Level</InputLabel>
                 <Select
@@ -331,6 +524,22 @@ const ManageResidents: React.FC = () => {
                 </Select>
               </FormControl>
             </Grid>
+            <Grid item xs={12} md={2}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Status</InputLabel>
+                <Select
+                  value={statusFilter}
+                  onChange={handleStatusFilterChange}
+                  label="Status"
+                >
+                  {statusOptions.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
           </Grid>
         </CardContent>
       </EMMACard>
@@ -342,6 +551,7 @@ const ManageResidents: React.FC = () => {
             <Tab label="All Residents" />
             <Tab label="Performance Overview" />
             <Tab label="Rotation Status" />
+            <Tab label="Duty Hours" />
           </Tabs>
         </Box>
 
@@ -356,6 +566,7 @@ const ManageResidents: React.FC = () => {
                   <TableCell>Department</TableCell>
                   <TableCell>Current Rotation</TableCell>
                   <TableCell align="center">Evaluations</TableCell>
+                  <TableCell align="center">Duty Hours</TableCell>
                   <TableCell>Status</TableCell>
                   <TableCell align="center">Actions</TableCell>
                 </TableRow>
@@ -400,10 +611,13 @@ const ManageResidents: React.FC = () => {
                         Evaluation data coming soon
                       </Typography>
                     </TableCell>
+                    <TableCell align="center">
+                      {renderDutyHoursStatus(resident.id)}
+                    </TableCell>
                     <TableCell>
                       <Chip
-                        label={getStatusLabel(resident.isActive, resident.emailVerified)}
-                        color={getStatusColor(resident.isActive, resident.emailVerified)}
+                        label={getStatusLabel(resident)}
+                        color={getStatusColor(resident)}
                         size="small"
                         variant="outlined"
                       />
@@ -411,7 +625,8 @@ const ManageResidents: React.FC = () => {
                     <TableCell align="center">
                       <IconButton
                         size="small"
-                        onClick={(e) => handleMenuOpen(e, resident.id)}
+                        disabled={!hasPermission(session?.user, 'canEditResidents', resident.department)}
+                        onClick={(e) => handleMenuOpen(e, resident)}
                       >
                         <MoreVertIcon />
                       </IconButton>
@@ -441,7 +656,7 @@ const ManageResidents: React.FC = () => {
                           Profile Status
                         </Typography>
                         <Typography variant="body2" fontWeight="medium">
-                          {getStatusLabel(resident.isActive, resident.emailVerified)}
+                          {getStatusLabel(resident)}
                         </Typography>
                       </Box>
                       
@@ -456,6 +671,9 @@ const ManageResidents: React.FC = () => {
                           color={resident.isActive ? 'success' : 'default'}
                           size="small"
                         />
+                        {isAccountLocked(resident) && (
+                          <Chip label="Locked" color="error" size="small" />
+                        )}
                       </Box>
 
                       <Typography variant="body2" color="text.secondary" mb={1}>
@@ -499,6 +717,16 @@ const ManageResidents: React.FC = () => {
             </Typography>
           </Box>
         </TabPanel>
+
+        {/* Duty Hours */}
+        <TabPanel value={selectedTab} index={3}>
+          <DutyHoursReportPanel
+            report={dutyHoursReport}
+            isLoading={dutyHoursLoading}
+            error={dutyHoursError}
+            onRetry={() => refetchDutyHours()}
+          />
+        </TabPanel>
       </EMMACard>
 
       {/* Action Menu */}
@@ -509,26 +737,99 @@ const ManageResidents: React.FC = () => {
         transformOrigin={{ horizontal: 'right', vertical: 'top' }}
         anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
       >
-        <MenuItem onClick={handleMenuClose}>
-          <ViewIcon sx={{ mr: 1 }} />
-          View Profile
-        </MenuItem>
-        <MenuItem onClick={handleMenuClose}>
+        <MenuItem onClick={handleEditResident}>
           <EditIcon sx={{ mr: 1 }} />
           Edit Resident
         </MenuItem>
-        <MenuItem onClick={handleMenuClose}>
-          <AssessmentIcon sx={{ mr: 1 }} />
-          View Evaluations
-        </MenuItem>
+        {selectedResident && isDeactivated(selectedResident) ? (
+          <MenuItem onClick={handleReactivateResident}>
+            <ReactivateIcon sx={{ mr: 1 }} />
+            Reactivate Resident
+          </MenuItem>
+        ) : (
+          <MenuItem onClick={handleDeactivateResident} sx={{ color: 'error.main' }}>
+            <DeactivateIcon sx={{ mr: 1 }} />
+            Deactivate Resident
+          </MenuItem>
+        )}
+        {selectedResident && isAccountLocked(selectedResident) &&
+          hasPermission(session?.user, 'canEditUsers', selectedResident.department) && (
+          <MenuItem onClick={handleUnlockAccount}>
+            <UnlockIcon sx={{ mr: 1 }} />
+            Unlock Account
+          </MenuItem>
+        )}
+        {canManageSystem && selectedResident?.mfa?.enabled && selectedResident.id !== session?.user?.id && (
+          <MenuItem onClick={handleResetMfa}>
+            <ResetMfaIcon sx={{ mr: 1 }} />
+            Reset MFA
+          </MenuItem>
+        )}
       </Menu>
 
+      {/* Edit Resident Modal */}
+      <EditResidentModal
+        open={!!editingResident}
+        resident={editingResident}
+        onClose={() => setEditingResident(null)}
+      />
+
+      {/* Deactivation Confirmation */}
+      <Dialog
+        open={!!deactivatingResident}
+        onClose={() => setDeactivatingResident(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Deactivate Resident</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {deactivatingResident?.firstName} {deactivatingResident?.lastName} will no longer be able to sign in.
+            Their schedules, evaluations and history are kept, and they can be reactivated later.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Reason (optional)"
+            value={deactivationReason}
+            onChange={(e) => setDeactivationReason(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeactivatingResident(null)} disabled={deactivateResident.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={handleConfirmDeactivate}
+            disabled={deactivateResident.isPending}
+          >
+            Deactivate
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       {/* Add Resident Modal */}
       <AddResidentModal
         open={addResidentModalOpen}
         onClose={() => setAddResidentModalOpen(false)}
         onSuccess={handleAddResidentSuccess}
       />
+
+      {/* Bulk Import Modal */}
+      <ImportResidentsModal
+        open={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+      />
+
+      {/* Year-End Promotion Wizard */}
+      <PromotionWizardModal
+        open={promotionWizardOpen}
+        onClose={() => setPromotionWizardOpen(false)}
+      />
     </Box>
   )
 }
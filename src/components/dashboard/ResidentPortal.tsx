@@ -0,0 +1,603 @@
+/**
+ * EMMA Healthcare Resident Portal
+ *
+ * The resident's own view: current rotation, upcoming assignments,
+ * evaluations waiting for acknowledgement, milestone progress, rotation
+ * rankings for the schedule solver and the profile fields they can keep up
+ * to date themselves.
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Grid,
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  MenuItem,
+} from '@mui/material'
+import {
+  Refresh as RefreshIcon,
+  LocationOn as LocationIcon,
+  ArrowUpward as MoveUpIcon,
+  ArrowDownward as MoveDownIcon,
+  Close as RemoveIcon,
+} from '@mui/icons-material'
+import { EMMACard } from '@/components/emma'
+import {
+  useResidentPortal,
+  useUpdateResidentProfile,
+  useRotationPreferences,
+  useSaveRotationPreferences
+} from '@/hooks/useResidentPortal'
+import { useEvaluations, useAcknowledgeEvaluation } from '@/hooks/useEvaluations'
+import { formatDate } from '@/lib/date-utils'
+import { EvaluationWithStatus } from '@/lib/evaluation-workflow'
+import { CORE_COMPETENCY_LABELS, MILESTONE_LEVEL_RANGE } from '@/lib/milestones'
+import { ResidentPortalProfile } from '@/lib/resident-portal'
+
+interface ProfileForm {
+  preferredName: string
+  phoneNumber: string
+  contactName: string
+  contactRelationship: string
+  contactPhone: string
+  contactEmail: string
+}
+
+const toProfileForm = (profile: ResidentPortalProfile): ProfileForm => ({
+  preferredName: profile.preferredName ?? '',
+  phoneNumber: profile.phoneNumber ?? '',
+  contactName: profile.emergencyContact?.name ?? '',
+  contactRelationship: profile.emergencyContact?.relationship ?? '',
+  contactPhone: profile.emergencyContact?.phone ?? '',
+  contactEmail: profile.emergencyContact?.email ?? '',
+})
+
+const formatLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase()
+
+const formatLevel = (level: number | null): string => (level === null ? '-' : level.toFixed(1))
+
+const ResidentPortal: React.FC = () => {
+  const [form, setForm] = useState<ProfileForm | null>(null)
+  const [acknowledging, setAcknowledging] = useState<EvaluationWithStatus | null>(null)
+  const [acknowledgeComments, setAcknowledgeComments] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [profileMessage, setProfileMessage] = useState<string | null>(null)
+  const [preferenceYear, setPreferenceYear] = useState<string | undefined>(undefined)
+  const [rankings, setRankings] = useState<string[]>([])
+  const [preferenceMessage, setPreferenceMessage] = useState<string | null>(null)
+
+  const { data: portal, isLoading, isFetching, isError, error, refetch } = useResidentPortal()
+  const { data: evaluations = [] } = useEvaluations()
+  const acknowledgeEvaluation = useAcknowledgeEvaluation()
+  const updateProfile = useUpdateResidentProfile()
+  const { data: preferenceData } = useRotationPreferences(preferenceYear)
+  const saveRotationPreferences = useSaveRotationPreferences()
+
+  // Reset the form whenever a fresh profile arrives
+  useEffect(() => {
+    if (portal) setForm(toProfileForm(portal.profile))
+  }, [portal])
+
+  // Reset the rankings whenever a fresh submission arrives
+  useEffect(() => {
+    if (preferenceData?.preferences) setRankings(preferenceData.preferences.rankings)
+  }, [preferenceData])
+
+  const awaitingAcknowledgement = evaluations.filter(evaluation => !evaluation.residentFeedback?.acknowledgedDate)
+
+  const handleFieldChange = (field: keyof ProfileForm) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => prev && { ...prev, [field]: event.target.value })
+  }
+
+  const handleSaveProfile = async () => {
+    if (!form) return
+    setActionError(null)
+    setProfileMessage(null)
+
+    const hasContact = !!(form.contactName.trim() || form.contactRelationship.trim() || form.contactPhone.trim())
+    try {
+      const result = await updateProfile.mutateAsync({
+        preferredName: form.preferredName,
+        phoneNumber: form.phoneNumber,
+        emergencyContact: hasContact
+          ? {
+            name: form.contactName,
+            relationship: form.contactRelationship,
+            phone: form.contactPhone,
+            email: form.contactEmail,
+          }
+          : null,
+      })
+      setProfileMessage(result.message ?? 'Profile updated')
+    } catch (saveError) {
+      setActionError(saveError instanceof Error ? saveError.message : 'Failed to update profile')
+    }
+  }
+
+  const moveRanking = (index: number, offset: number) => {
+    setRankings(prev => {
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(index + offset, 0, moved)
+      return next
+    })
+  }
+
+  const handleSavePreferences = async () => {
+    if (!preferenceData?.preferences) return
+    setActionError(null)
+    setPreferenceMessage(null)
+    try {
+      const result = await saveRotationPreferences.mutateAsync({
+        academicYear: preferenceData.preferences.academicYear,
+        rankings,
+      })
+      setPreferenceMessage(result.message ?? 'Rotation preferences saved')
+    } catch (saveError) {
+      setActionError(saveError instanceof Error ? saveError.message : 'Failed to save rotation preferences')
+    }
+  }
+
+  const handleAcknowledge = async () => {
+    if (!acknowledging) return
+    setActionError(null)
+    try {
+      await acknowledgeEvaluation.mutateAsync({ id: acknowledging.id, comments: acknowledgeComments })
+      setAcknowledging(null)
+      setAcknowledgeComments('')
+    } catch (acknowledgeError) {
+      setActionError(acknowledgeError instanceof Error ? acknowledgeError.message : 'Failed to acknowledge evaluation')
+    }
+  }
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading your portal...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  // Show error state
+  if (isError || !portal) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load your portal: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  const { profile, currentRotation, upcomingAssignments, milestones } = portal
+  const preferences = preferenceData?.preferences
+  const rotationNames = new Map(preferences?.rotations.map(rotation => [rotation.id, rotation.name]))
+  const unrankedRotations = preferences?.rotations.filter(rotation => !rankings.includes(rotation.id)) ?? []
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Welcome, {profile.preferredName || profile.firstName}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {profile.department ? profile.department.replace(/_/g, ' ') : 'No department'}
+            {profile.pgyLevel ? ` · PGY-${profile.pgyLevel}` : ''}
+          </Typography>
+        </Box>
+        <IconButton
+          onClick={() => refetch()}
+          disabled={isFetching}
+          title="Refresh portal"
+          sx={{
+            bgcolor: 'grey.100',
+            '&:hover': { bgcolor: 'grey.200' }
+          }}
+        >
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      <Grid container spacing={3}>
+        {/* Current Rotation */}
+        <Grid item xs={12} md={5}>
+          <EMMACard elevation={2} sx={{ height: '100%' }}>
+            <Typography variant="h6" fontWeight="bold" gutterBottom>
+              Current Rotation
+            </Typography>
+            {currentRotation ? (
+              <Box>
+                <Typography variant="h5" color="primary.main" fontWeight="medium">
+                  {currentRotation.name}
+                </Typography>
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  {formatDate(currentRotation.startDate)} – {formatDate(currentRotation.endDate)}
+                </Typography>
+                {currentRotation.location && (
+                  <Box display="flex" alignItems="center" gap={0.5} mt={1}>
+                    <LocationIcon fontSize="small" color="action" />
+                    <Typography variant="body2">{currentRotation.location}</Typography>
+                  </Box>
+                )}
+              </Box>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                You are not on a rotation right now
+              </Typography>
+            )}
+          </EMMACard>
+        </Grid>
+
+        {/* Evaluations awaiting acknowledgement */}
+        <Grid item xs={12} md={7}>
+          <EMMACard elevation={2} sx={{ height: '100%' }}>
+            <Typography variant="h6" fontWeight="bold" gutterBottom>
+              Evaluations to Acknowledge
+            </Typography>
+            {awaitingAcknowledgement.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                You are up to date with your evaluations
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableBody>
+                  {awaitingAcknowledgement.map(evaluation => (
+                    <TableRow key={evaluation.id} hover>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight="medium">
+                          {formatLabel(evaluation.type)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {evaluation.evaluationPeriod.rotationName || formatDate(evaluation.evaluationPeriod.endDate)}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="center">{evaluation.overallRating}/9</TableCell>
+                      <TableCell align="right">
+                        <Button size="small" variant="outlined" onClick={() => setAcknowledging(evaluation)}>
+                          Acknowledge
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </EMMACard>
+        </Grid>
+
+        {/* Upcoming Assignments */}
+        <Grid item xs={12}>
+          <EMMACard elevation={2}>
+            <Typography variant="h6" fontWeight="bold" gutterBottom>
+              Upcoming Schedule
+            </Typography>
+            {upcomingAssignments.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No published assignments ahead
+              </Typography>
+            ) : (
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Assignment</TableCell>
+                      <TableCell>Type</TableCell>
+                      <TableCell>Dates</TableCell>
+                      <TableCell>Location</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {upcomingAssignments.map(assignment => (
+                      <TableRow key={`${assignment.scheduleId}-${assignment.startDate}`} hover>
+                        <TableCell>
+                          <Box display="flex" alignItems="center" gap={1}>
+                            <Typography variant="body2" fontWeight="medium">
+                              {assignment.rotationName || assignment.scheduleName}
+                            </Typography>
+                            {assignment.current && <Chip label="Now" color="success" size="small" />}
+                          </Box>
+                          {assignment.notes && (
+                            <Typography variant="caption" color="text.secondary">
+                              {assignment.notes}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell>{formatLabel(assignment.type)}</TableCell>
+                        <TableCell>
+                          {formatDate(assignment.startDate)} – {formatDate(assignment.endDate)}
+                        </TableCell>
+                        <TableCell>{assignment.location || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </EMMACard>
+        </Grid>
+
+        {/* Milestone Progress */}
+        <Grid item xs={12} md={7}>
+          <EMMACard elevation={2}>
+            <Box display="flex" justifyContent="space-between" alignItems="baseline" mb={2}>
+              <Typography variant="h6" fontWeight="bold">
+                Milestone Progress
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {portal.milestonePeriod}
+                {milestones?.expectedLevel !== null && milestones?.expectedLevel !== undefined
+                  ? ` · Expected level ${formatLevel(milestones.expectedLevel)}`
+                  : ''}
+              </Typography>
+            </Box>
+            {!milestones || milestones.evaluationCount === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No milestone ratings from approved evaluations this period yet
+              </Typography>
+            ) : (
+              milestones.subCompetencies.map(subCompetency => (
+                <Box key={subCompetency.milestoneId} mb={2}>
+                  <Box display="flex" justifyContent="space-between">
+                    <Typography variant="body2">
+                      {subCompetency.name}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {' '}· {CORE_COMPETENCY_LABELS[subCompetency.competency]}
+                      </Typography>
+                    </Typography>
+                    <Typography variant="body2" fontWeight="medium">
+                      {formatLevel(subCompetency.currentLevel)}
+                    </Typography>
+                  </Box>
+                  <LinearProgress
+                    variant="determinate"
+                    value={((subCompetency.currentLevel ?? 0) / MILESTONE_LEVEL_RANGE.max) * 100}
+                    sx={{ height: 6, borderRadius: 3, mt: 0.5 }}
+                  />
+                </Box>
+              ))
+            )}
+          </EMMACard>
+        </Grid>
+
+        {/* Profile */}
+        <Grid item xs={12} md={5}>
+          <EMMACard elevation={2}>
+            <Typography variant="h6" fontWeight="bold" gutterBottom>
+              My Profile
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Other details are managed by your program coordinator.
+            </Typography>
+            {profileMessage && (
+              <Alert severity="success" sx={{ mb: 2 }} onClose={() => setProfileMessage(null)}>
+                {profileMessage}
+              </Alert>
+            )}
+            {form && (
+              <Box display="flex" flexDirection="column" gap={2}>
+                <TextField
+                  label="Preferred Name"
+                  size="small"
+                  value={form.preferredName}
+                  onChange={handleFieldChange('preferredName')}
+                  inputProps={{ maxLength: 100 }}
+                />
+                <TextField
+                  label="Phone Number"
+                  size="small"
+                  value={form.phoneNumber}
+                  onChange={handleFieldChange('phoneNumber')}
+                />
+                <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                  Emergency Contact
+                </Typography>
+                <TextField label="Name" size="small" value={form.contactName} onChange={handleFieldChange('contactName')} />
+                <TextField
+                  label="Relationship"
+                  size="small"
+                  value={form.contactRelationship}
+                  onChange={handleFieldChange('contactRelationship')}
+                />
+                <TextField label="Phone" size="small" value={form.contactPhone} onChange={handleFieldChange('contactPhone')} />
+                <TextField
+                  label="Email (optional)"
+                  size="small"
+                  value={form.contactEmail}
+                  onChange={handleFieldChange('contactEmail')}
+                />
+                <Box display="flex" justifyContent="flex-end" gap={1}>
+                  <Button onClick={() => setForm(toProfileForm(profile))} disabled={updateProfile.isPending}>
+                    Reset
+                  </Button>
+                  <Button
+                    variant="contained"
+                    onClick={handleSaveProfile}
+                    disabled={updateProfile.isPending}
+                    startIcon={updateProfile.isPending ? <CircularProgress size={16} /> : undefined}
+                  >
+                    Save Profile
+                  </Button>
+                </Box>
+              </Box>
+            )}
+          </EMMACard>
+        </Grid>
+
+        {/* Rotation Preferences */}
+        <Grid item xs={12}>
+          <EMMACard elevation={2}>
+            <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+              <Typography variant="h6" fontWeight="bold">
+                Rotation Preferences
+              </Typography>
+              {preferenceData?.academicYears && preferences && (
+                <TextField
+                  select
+                  size="small"
+                  label="Academic Year"
+                  value={preferences.academicYear}
+                  onChange={(e) => setPreferenceYear(e.target.value)}
+                  sx={{ minWidth: 160 }}
+                >
+                  {preferenceData.academicYears.map(year => (
+                    <MenuItem key={year} value={year}>{year}</MenuItem>
+                  ))}
+                </TextField>
+              )}
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Rank the rotations you would most like, first choice at the top. Your program uses these
+              rankings when it builds the rotation schedule.
+              {preferences?.submittedAt ? ` Last submitted ${formatDate(preferences.submittedAt)}.` : ''}
+            </Typography>
+            {preferenceMessage && (
+              <Alert severity="success" sx={{ mb: 2 }} onClose={() => setPreferenceMessage(null)}>
+                {preferenceMessage}
+              </Alert>
+            )}
+            {!preferences ? (
+              <CircularProgress size={24} />
+            ) : preferences.rotations.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No rotations are open for ranking at your PGY level
+              </Typography>
+            ) : (
+              <Box display="flex" flexDirection="column" gap={2}>
+                {rankings.length > 0 && (
+                  <Table size="small">
+                    <TableBody>
+                      {rankings.map((rotationId, index) => (
+                        <TableRow key={rotationId} hover>
+                          <TableCell sx={{ width: 48 }}>{index + 1}</TableCell>
+                          <TableCell>{rotationNames.get(rotationId) ?? rotationId}</TableCell>
+                          <TableCell align="right">
+                            <IconButton size="small" title="Move up" disabled={index === 0} onClick={() => moveRanking(index, -1)}>
+                              <MoveUpIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              title="Move down"
+                              disabled={index === rankings.length - 1}
+                              onClick={() => moveRanking(index, 1)}
+                            >
+                              <MoveDownIcon fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                              size="small"
+                              title="Remove"
+                              onClick={() => setRankings(prev => prev.filter(id => id !== rotationId))}
+                            >
+                              <RemoveIcon fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                <Box display="flex" justifyContent="space-between" alignItems="center" gap={2}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Add a rotation"
+                    value=""
+                    onChange={(e) => setRankings(prev => [...prev, e.target.value])}
+                    disabled={unrankedRotations.length === 0}
+                    sx={{ minWidth: 240 }}
+                  >
+                    {unrankedRotations.map(rotation => (
+                      <MenuItem key={rotation.id} value={rotation.id}>{rotation.name}</MenuItem>
+                    ))}
+                  </TextField>
+                  <Box display="flex" gap={1}>
+                    <Button onClick={() => setRankings(preferences.rankings)} disabled={saveRotationPreferences.isPending}>
+                      Reset
+                    </Button>
+                    <Button
+                      variant="contained"
+                      onClick={handleSavePreferences}
+                      disabled={saveRotationPreferences.isPending}
+                      startIcon={saveRotationPreferences.isPending ? <CircularProgress size={16} /> : undefined}
+                    >
+                      Save Rankings
+                    </Button>
+                  </Box>
+                </Box>
+              </Box>
+            )}
+          </EMMACard>
+        </Grid>
+      </Grid>
+
+      <Dialog open={!!acknowledging} onClose={() => setAcknowledging(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Acknowledge Evaluation</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {acknowledging?.summaryComments}
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Acknowledging confirms you have read this evaluation. You may add comments for your program.
+          </Typography>
+          <TextField
+            fullWidth
+            multiline
+            minRows={3}
+            label="Comments (optional)"
+            value={acknowledgeComments}
+            onChange={(e) => setAcknowledgeComments(e.target.value)}
+            inputProps={{ maxLength: 5000 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAcknowledging(null)} disabled={acknowledgeEvaluation.isPending}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleAcknowledge} disabled={acknowledgeEvaluation.isPending}>
+            Acknowledge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default ResidentPortal
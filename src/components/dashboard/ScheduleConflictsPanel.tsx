@@ -0,0 +1,156 @@
+/**
+ * EMMA Healthcare Schedule Conflicts Panel
+ *
+ * Lists double bookings, over-capacity rotations, PGY eligibility violations
+ * and vacation overlaps found across published schedules.
+ */
+
+'use client'
+
+import React from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import {
+  CheckCircle as CheckCircleIcon,
+  Refresh as RefreshIcon,
+} from '@mui/icons-material'
+import { useScheduleConflicts } from '@/hooks/useSchedules'
+import { ScheduleConflictType } from '@/types/database'
+import { formatDate } from '@/lib/date-utils'
+
+const CONFLICT_LABELS: Record<ScheduleConflictType, string> = {
+  DOUBLE_BOOKING: 'Double Booking',
+  OVER_CAPACITY: 'Over Capacity',
+  PGY_INELIGIBLE: 'PGY Ineligible',
+  VACATION_OVERLAP: 'Vacation Overlap',
+}
+
+const ScheduleConflictsPanel: React.FC = () => {
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+  } = useScheduleConflicts()
+
+  const conflicts = data?.conflicts ?? []
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Schedule Conflicts
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Identify and resolve scheduling conflicts and issues
+          </Typography>
+        </Box>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={isFetching ? <CircularProgress size={16} /> : <RefreshIcon />}
+          onClick={() => refetch()}
+          disabled={isFetching}
+        >
+          Re-scan
+        </Button>
+      </Box>
+
+      {isLoading && (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={32} />
+          <Typography sx={{ ml: 2 }}>Scanning schedules...</Typography>
+        </Box>
+      )}
+
+      {isError && (
+        <Alert severity="error">
+          Failed to scan schedules: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      )}
+
+      {data && conflicts.length === 0 && (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <Box textAlign="center">
+            <CheckCircleIcon sx={{ fontSize: 64, color: 'success.main', mb: 2 }} />
+            <Typography variant="h6" color="success.main" gutterBottom>
+              No Conflicts Detected
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              All current assignments are conflict-free
+            </Typography>
+          </Box>
+        </Box>
+      )}
+
+      {data && conflicts.length > 0 && (
+        <>
+          <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
+            {(Object.keys(CONFLICT_LABELS) as ScheduleConflictType[]).map(type => (
+              <Chip
+                key={type}
+                label={`${CONFLICT_LABELS[type]}: ${data.summary[type]}`}
+                color={data.summary[type] > 0 ? (type === 'VACATION_OVERLAP' ? 'warning' : 'error') : 'default'}
+                size="small"
+                variant={data.summary[type] > 0 ? 'filled' : 'outlined'}
+              />
+            ))}
+            <Chip label={`Scanned ${formatDate(data.checkedAt)}`} variant="outlined" size="small" />
+          </Box>
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Details</TableCell>
+                  <TableCell>Dates</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {conflicts.map(conflict => (
+                  <TableRow key={conflict.id} hover>
+                    <TableCell>
+                      <Chip
+                        label={CONFLICT_LABELS[conflict.type]}
+                        color={conflict.severity === 'ERROR' ? 'error' : 'warning'}
+                        size="small"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{conflict.message}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {conflict.overlapStart
+                          ? `${formatDate(conflict.overlapStart)} – ${formatDate(conflict.overlapEnd)}`
+                          : 'Entire assignment'}
+                      </Typography>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  )
+}
+
+export default ScheduleConflictsPanel
@@ -31,6 +31,8 @@ import {
   Avatar,
   IconButton,
   Tooltip,
+  Alert,
+  CircularProgress,
 } from '@mui/material'
 import {
   CalendarToday as CalendarIcon,
@@ -41,47 +43,13 @@ import {
   CheckCircle as CheckCircleIcon,
 } from '@mui/icons-material'
 import { EMMACard, EMMAButton } from '@/components/emma'
+import { useRotations, RotationWithCapacity } from '@/hooks/useRotations'
+import { toDate, formatDate } from '@/lib/date-utils'
+import ScheduleSolverPanel from './ScheduleSolverPanel'
+import CallSchedulePanel from './CallSchedulePanel'
+import ScheduleConflictsPanel from './ScheduleConflictsPanel'
 
-// Mock schedule data
-const mockRotations = [
-  {
-    id: 1,
-    name: 'Emergency Medicine',
-    capacity: 6,
-    assigned: 5,
-    startDate: '2024-03-01',
-    endDate: '2024-03-31',
-    status: 'active',
-  },
-  {
-    id: 2,
-    name: 'Internal Medicine',
-    capacity: 8,
-    assigned: 8,
-    startDate: '2024-03-01',
-    endDate: '2024-03-31',
-    status: 'full',
-  },
-  {
-    id: 3,
-    name: 'Surgery',
-    capacity: 4,
-    assigned: 3,
-    startDate: '2024-04-01',
-    endDate: '2024-04-30',
-    status: 'upcoming',
-  },
-  {
-    id: 4,
-    name: 'Pediatrics',
-    capacity: 6,
-    assigned: 2,
-    startDate: '2024-04-01',
-    endDate: '2024-04-30',
-    status: 'needs-residents',
-  },
-]
-
+// Mock assignment data
 const mockAssignments = [
   {
     id: 1,
@@ -121,6 +89,21 @@ const mockAssignments = [
   },
 ]
 
+type RotationDisplayStatus = 'active' | 'full' | 'upcoming' | 'needs-residents'
+
+/**
+ * Derive the overview card status from the rotation window and filled seats
+ */
+function getRotationDisplayStatus(rotation: RotationWithCapacity): RotationDisplayStatus {
+  const startDate = toDate(rotation.schedule?.startDate as any)
+  const assigned = rotation.capacityStatus?.assigned ?? 0
+
+  if (startDate && startDate > new Date()) return 'upcoming'
+  if (assigned >= rotation.capacity) return 'full'
+  if (assigned < rotation.capacity / 2) return 'needs-residents'
+  return 'active'
+}
+
 interface TabPanelProps {
   children?: React.ReactNode
   index: number
@@ -139,6 +122,17 @@ const ScheduleMatching: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState('current')
   const [selectedTab, setSelectedTab] = useState(0)
 
+  const {
+    data: rotations = [],
+    isLoading: rotationsLoading,
+    isError: rotationsError,
+    error: rotationsErrorDetail,
+    refetch: refetchRotations,
+  } = useRotations({ status: 'ACTIVE', includeCapacity: true })
+
+  const totalCapacity = rotations.reduce((sum, rotation) => sum + rotation.capacity, 0)
+  const totalAssigned = rotations.reduce((sum, rotation) => sum + (rotation.capacityStatus?.assigned ?? 0), 0)
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setSelectedTab(newValue)
   }
@@ -214,7 +208,7 @@ const ScheduleMatching: React.FC = () => {
             <Box textAlign="center">
               <CalendarIcon sx={{ fontSize: 40, color: 'primary.main', mb: 2 }} />
               <Typography variant="h3" fontWeight="bold" color="primary.main">
-                {mockRotations.length}
+                {rotations.length}
               </Typography>
               <Typography variant="body2" color="text.secondary">
                 Active Rotations
@@ -233,7 +227,7 @@ const ScheduleMatching: React.FC = () => {
                 Confirmed Assignments
               </Typography>
               <Chip
-                label="85% filled"
+                label={`${totalCapacity > 0 ? Math.round((totalAssigned / totalCapacity) * 100) : 0}% filled`}
                 color="success"
                 size="small"
               />
@@ -263,7 +257,7 @@ const ScheduleMatching: React.FC = () => {
           <EMMACard emmaVariant="dashboard-metric" elevation={2}>
             <Box textAlign="center">
               <Typography variant="h3" fontWeight="bold" color="info.main">
-                24
+                {totalCapacity}
               </Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
                 Total Capacity
@@ -282,6 +276,8 @@ const ScheduleMatching: React.FC = () => {
           <Tabs value={selectedTab} onChange={handleTabChange}>
             <Tab label="Rotation Overview" />
             <Tab label="Current Assignments" />
+            <Tab label="Auto-Match" />
+            <Tab label="Call Schedule" />
             <Tab label="Schedule Conflicts" />
             <Tab label="Calendar View" />
           </Tabs>
@@ -297,73 +293,104 @@ const ScheduleMatching: React.FC = () => {
               Overview of all clinical rotations and their current status
             </Typography>
 
+            {rotationsLoading && (
+              <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+                <CircularProgress size={32} />
+                <Typography sx={{ ml: 2 }}>Loading rotations...</Typography>
+              </Box>
+            )}
+
+            {rotationsError && (
+              <Alert
+                severity="error"
+                action={
+                  <Button color="inherit" size="small" onClick={() => refetchRotations()}>
+                    Retry
+                  </Button>
+                }
+              >
+                Failed to load rotations: {rotationsErrorDetail instanceof Error ? rotationsErrorDetail.message : 'Unknown error'}
+              </Alert>
+            )}
+
+            {!rotationsLoading && !rotationsError && rotations.length === 0 && (
+              <Typography variant="body1" color="text.secondary" textAlign="center" py={6}>
+                No active rotations have been set up yet.
+              </Typography>
+            )}
+
             <Grid container spacing={3}>
-              {mockRotations.map((rotation) => (
-                <Grid item xs={12} md={6} key={rotation.id}>
-                  <Card
-                    sx={{
-                      borderLeft: `4px solid ${
-                        rotation.status === 'full' ? '#f59e0b' :
-                        rotation.status === 'needs-residents' ? '#ef4444' :
-                        rotation.status === 'active' ? '#10b981' : '#3b82f6'
-                      }`,
-                      transition: 'transform 0.2s ease',
-                      '&:hover': {
-                        transform: 'translateY(-2px)',
-                        boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
-                      },
-                    }}
-                  >
-                    <CardContent>
-                      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
-                        <Typography variant="h6" fontWeight="medium">
-                          {rotation.name}
-                        </Typography>
-                        <Chip
-                          label={rotation.status.replace('-', ' ')}
-                          color={getStatusColor(rotation.status) as any}
-                          size="small"
-                          sx={{ textTransform: 'capitalize' }}
-                        />
-                      </Box>
+              {rotations.map((rotation) => {
+                const status = getRotationDisplayStatus(rotation)
+                const assigned = rotation.capacityStatus?.assigned ?? 0
+
+                return (
+                  <Grid item xs={12} md={6} key={rotation.id}>
+                    <Card
+                      sx={{
+                        borderLeft: `4px solid ${
+                          status === 'full' ? '#f59e0b' :
+                          status === 'needs-residents' ? '#ef4444' :
+                          status === 'active' ? '#10b981' : '#3b82f6'
+                        }`,
+                        transition: 'transform 0.2s ease',
+                        '&:hover': {
+                          transform: 'translateY(-2px)',
+                          boxShadow: '0 4px 20px rgba(0,0,0,0.1)',
+                        },
+                      }}
+                    >
+                      <CardContent>
+                        <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={2}>
+                          <Typography variant="h6" fontWeight="medium">
+                            {rotation.name}
+                          </Typography>
+                          <Chip
+                            label={status.replace('-', ' ')}
+                            color={getStatusColor(status) as any}
+                            size="small"
+                            sx={{ textTransform: 'capitalize' }}
+                          />
+                        </Box>
                       
-                      <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
-                        <Typography variant="body2" color="text.secondary">
-                          {rotation.startDate} - {rotation.endDate}
-                        </Typography>
-                        <Typography variant="body2" fontWeight="medium">
-                          {rotation.assigned} / {rotation.capacity} residents
-                        </Typography>
-                      </Box>
-
-                      <Box display="flex" justifyContent="space-between" alignItems="center">
-                        <Typography
-                          variant="body2"
-                          color={
-                            rotation.assigned === rotation.capacity ? 'success.main' :
-                            rotation.assigned < rotation.capacity / 2 ? 'error.main' :
-                            'warning.main'
-                          }
-                        >
-                          {Math.round((rotation.assigned / rotation.capacity) * 100)}% filled
-                        </Typography>
-                        <Box display="flex" gap={1}>
-                          <Tooltip title="Edit Rotation">
-                            <IconButton size="small">
-                              <EditIcon />
-                            </IconButton>
-                          </Tooltip>
-                          <Tooltip title="Manage Assignments">
-                            <IconButton size="small">
-                              <SwapIcon />
-                            </IconButton>
-                          </Tooltip>
+                        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+                          <Typography variant="body2" color="text.secondary">
+                            {formatDate(rotation.schedule?.startDate as any)} - {formatDate(rotation.schedule?.endDate as any)}
+                          </Typography>
+                          <Typography variant="body2" fontWeight="medium">
+                            {assigned} / {rotation.capacity} residents
+                          </Typography>
                         </Box>
-                      </Box>
-                    </CardContent>
-                  </Card>
-                </Grid>
-              ))}
+
+                        <Box display="flex" justifyContent="space-between" alignItems="center">
+                          <Typography
+                            variant="body2"
+                            color={
+                              assigned === rotation.capacity ? 'success.main' :
+                              assigned < rotation.capacity / 2 ? 'error.main' :
+                              'warning.main'
+                            }
+                          >
+                            {rotation.capacityStatus?.utilization ?? 0}% filled
+                          </Typography>
+                          <Box display="flex" gap={1}>
+                            <Tooltip title="Edit Rotation">
+                              <IconButton size="small">
+                                <EditIcon />
+                              </IconButton>
+                            </Tooltip>
+                            <Tooltip title="Manage Assignments">
+                              <IconButton size="small">
+                                <SwapIcon />
+                              </IconButton>
+                            </Tooltip>
+                          </Box>
+                        </Box>
+                      </CardContent>
+                    </Card>
+                  </Grid>
+                )
+              })}
             </Grid>
           </Box>
         </TabPanel>
@@ -455,32 +482,23 @@ const ScheduleMatching: React.FC = () => {
           </Box>
         </TabPanel>
 
-        {/* Schedule Conflicts */}
+        {/* Auto-Match */}
         <TabPanel value={selectedTab} index={2}>
-          <Box sx={{ p: 3 }}>
-            <Typography variant="h6" gutterBottom>
-              Schedule Conflicts
-            </Typography>
-            <Typography variant="body2" color="text.secondary" mb={3}>
-              Identify and resolve scheduling conflicts and issues
-            </Typography>
-            
-            <Box display="flex" justifyContent="center" alignItems="center" py={6}>
-              <Box textAlign="center">
-                <CheckCircleIcon sx={{ fontSize: 64, color: 'success.main', mb: 2 }} />
-                <Typography variant="h6" color="success.main" gutterBottom>
-                  No Conflicts Detected
-                </Typography>
-                <Typography variant="body2" color="text.secondary">
-                  All current assignments are conflict-free
-                </Typography>
-              </Box>
-            </Box>
-          </Box>
+          <ScheduleSolverPanel rotations={rotations} />
         </TabPanel>
 
-        {/* Calendar View */}
+        {/* Call Schedule */}
         <TabPanel value={selectedTab} index={3}>
+          <CallSchedulePanel rotations={rotations} />
+        </TabPanel>
+
+        {/* Schedule Conflicts */}
+        <TabPanel value={selectedTab} index={4}>
+          <ScheduleConflictsPanel />
+        </TabPanel>
+
+        {/* Calendar View */}
+        <TabPanel value={selectedTab} index={5}>
           <Box sx={{ p: 3 }}>
             <Typography variant="h6" gutterBottom>
               Calendar View
@@ -0,0 +1,265 @@
+/**
+ * EMMA Healthcare Schedule Solver Panel
+ *
+ * Runs the automated rotation matcher for an academic year and shows the
+ * proposed draft next to the currently published schedule.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Chip,
+  Alert,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Stack,
+} from '@mui/material'
+import { AutoFixHigh as AutoMatchIcon } from '@mui/icons-material'
+import { EMMAButton } from '@/components/emma'
+import { useSchedules, useSolveSchedule } from '@/hooks/useSchedules'
+import { useResidents } from '@/hooks/useResidents'
+import { Rotation, Schedule, ScheduleAssignment, UnmetConstraint } from '@/types/database'
+import { formatDate, getAcademicYear, toDate } from '@/lib/date-utils'
+
+interface ScheduleSolverPanelProps {
+  rotations: Rotation[]
+}
+
+const SEVERITY_TO_ALERT: Record<UnmetConstraint['severity'], 'error' | 'warning' | 'info'> = {
+  ERROR: 'error',
+  WARNING: 'warning',
+  INFO: 'info',
+}
+
+/**
+ * Group schedule assignments by resident, ordered by start date
+ */
+function groupByResident(schedule?: Schedule): Map<string, ScheduleAssignment[]> {
+  const grouped = new Map<string, ScheduleAssignment[]>()
+  if (!schedule) return grouped
+
+  schedule.assignments.forEach(assignment => {
+    grouped.set(assignment.residentId, [...(grouped.get(assignment.residentId) ?? []), assignment])
+  })
+
+  grouped.forEach(assignments => {
+    assignments.sort((a, b) =>
+      (toDate(a.startDate ?? schedule.startDate)?.getTime() ?? 0) -
+      (toDate(b.startDate ?? schedule.startDate)?.getTime() ?? 0)
+    )
+  })
+
+  return grouped
+}
+
+const ScheduleSolverPanel: React.FC<ScheduleSolverPanelProps> = ({ rotations }) => {
+  const currentYear = getAcademicYear()
+  const nextYear = getAcademicYear(new Date(new Date().getFullYear() + 1, new Date().getMonth(), 1))
+  const [academicYear, setAcademicYear] = useState(currentYear)
+
+  const { data: schedules = [], isLoading: schedulesLoading } = useSchedules({ academicYear, type: 'ROTATION' })
+  const { data: residents = [] } = useResidents()
+  const solveSchedule = useSolveSchedule()
+
+  const currentSchedule = schedules.find(schedule => schedule.status === 'PUBLISHED')
+  const draftSchedule = schedules.find(schedule => schedule.status === 'DRAFT' && schedule.solverReport)
+
+  const rotationNames = useMemo(
+    () => new Map(rotations.map(rotation => [rotation.id, rotation.name])),
+    [rotations]
+  )
+  const residentNames = useMemo(
+    () => new Map(residents.map(resident => [resident.id, `${resident.firstName} ${resident.lastName}`])),
+    [residents]
+  )
+
+  const currentByResident = useMemo(() => groupByResident(currentSchedule), [currentSchedule])
+  const draftByResident = useMemo(() => groupByResident(draftSchedule), [draftSchedule])
+
+  const residentIds = useMemo(() => {
+    const ids = new Set(Array.from(currentByResident.keys()).concat(Array.from(draftByResident.keys())))
+    return Array.from(ids).sort((a, b) =>
+      (residentNames.get(a) ?? a).localeCompare(residentNames.get(b) ?? b)
+    )
+  }, [currentByResident, draftByResident, residentNames])
+
+  const report = draftSchedule?.solverReport
+  const errorCount = report?.unmetConstraints.filter(constraint => constraint.severity === 'ERROR').length ?? 0
+  const warningCount = report?.unmetConstraints.filter(constraint => constraint.severity === 'WARNING').length ?? 0
+
+  const handleRunSolver = () => {
+    solveSchedule.mutate({ academicYear })
+  }
+
+  const renderAssignments = (assignments: ScheduleAssignment[] | undefined, schedule?: Schedule) => {
+    if (!assignments || assignments.length === 0) {
+      return (
+        <Typography variant="body2" color="text.secondary">
+          Not scheduled
+        </Typography>
+      )
+    }
+
+    return (
+      <Stack spacing={0.5}>
+        {assignments.map((assignment, index) => (
+          <Box key={`${assignment.rotationId}-${index}`} display="flex" alignItems="center" gap={1}>
+            <Chip
+              label={assignment.rotationId ? rotationNames.get(assignment.rotationId) ?? assignment.rotationId : 'Unassigned'}
+              size="small"
+              variant="outlined"
+            />
+            <Typography variant="caption" color="text.secondary">
+              {formatDate(assignment.startDate ?? schedule?.startDate)} – {formatDate(assignment.endDate ?? schedule?.endDate)}
+            </Typography>
+          </Box>
+        ))}
+      </Stack>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Box display="flex" justifyContent="space-between" alignItems="flex-start" mb={3}>
+        <Box>
+          <Typography variant="h6" gutterBottom>
+            Auto-Match
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            Generate a draft schedule from capacity, PGY eligibility, required rotations and resident preferences
+          </Typography>
+        </Box>
+        <Box display="flex" gap={2}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Academic Year</InputLabel>
+            <Select
+              value={academicYear}
+              onChange={(e) => setAcademicYear(e.target.value as string)}
+              label="Academic Year"
+            >
+              <MenuItem value={currentYear}>{currentYear}</MenuItem>
+              <MenuItem value={nextYear}>{nextYear}</MenuItem>
+            </Select>
+          </FormControl>
+          <EMMAButton
+            emmaVariant="medical-primary"
+            startIcon={solveSchedule.isPending ? <CircularProgress size={16} color="inherit" /> : <AutoMatchIcon />}
+            onClick={handleRunSolver}
+            disabled={solveSchedule.isPending}
+          >
+            {solveSchedule.isPending ? 'Matching...' : 'Run Auto-Match'}
+          </EMMAButton>
+        </Box>
+      </Box>
+
+      {solveSchedule.isError && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {solveSchedule.error instanceof Error ? solveSchedule.error.message : 'Failed to generate schedule'}
+        </Alert>
+      )}
+
+      {schedulesLoading && (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={32} />
+          <Typography sx={{ ml: 2 }}>Loading schedules...</Typography>
+        </Box>
+      )}
+
+      {!schedulesLoading && !draftSchedule && (
+        <Typography variant="body1" color="text.secondary" textAlign="center" py={6}>
+          No draft has been generated for {academicYear}. Run Auto-Match to propose one.
+        </Typography>
+      )}
+
+      {report && (
+        <>
+          <Box display="flex" gap={1} flexWrap="wrap" mb={2}>
+            <Chip
+              label={`${report.totalBlocks > 0 ? Math.round((report.filledBlocks / report.totalBlocks) * 100) : 0}% of blocks filled`}
+              color="primary"
+              size="small"
+            />
+            <Chip
+              label={`${report.preferenceSatisfaction}% got first choice`}
+              color="success"
+              size="small"
+            />
+            <Chip
+              label={`${report.blockCount} × ${report.blockLengthWeeks}-week blocks`}
+              size="small"
+            />
+            {errorCount > 0 && <Chip label={`${errorCount} errors`} color="error" size="small" />}
+            {warningCount > 0 && <Chip label={`${warningCount} warnings`} color="warning" size="small" />}
+            {draftSchedule?.conflicts && draftSchedule.conflicts.length > 0 && (
+              <Chip label={`${draftSchedule.conflicts.length} schedule conflicts`} color="error" variant="outlined" size="small" />
+            )}
+            <Chip
+              label={`Generated ${formatDate(report.generatedAt)}`}
+              variant="outlined"
+              size="small"
+            />
+          </Box>
+
+          {report.unmetConstraints.length > 0 && (
+            <Stack spacing={1} mb={3} sx={{ maxHeight: 240, overflowY: 'auto' }}>
+              {report.unmetConstraints.map((constraint, index) => (
+                <Alert key={index} severity={SEVERITY_TO_ALERT[constraint.severity]} variant="outlined">
+                  {constraint.message}
+                </Alert>
+              ))}
+            </Stack>
+          )}
+
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Resident</TableCell>
+                  <TableCell>Current Schedule</TableCell>
+                  <TableCell>Proposed Draft</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {residentIds.map(residentId => (
+                  <TableRow key={residentId} hover>
+                    <TableCell sx={{ verticalAlign: 'top' }}>
+                      <Typography variant="body2" fontWeight="medium">
+                        {residentNames.get(residentId) ?? residentId}
+                      </Typography>
+                    </TableCell>
+                    <TableCell sx={{ verticalAlign: 'top' }}>
+                      {currentSchedule
+                        ? renderAssignments(currentByResident.get(residentId), currentSchedule)
+                        : (
+                          <Typography variant="body2" color="text.secondary">
+                            No published schedule
+                          </Typography>
+                        )}
+                    </TableCell>
+                    <TableCell sx={{ verticalAlign: 'top' }}>
+                      {renderAssignments(draftByResident.get(residentId), draftSchedule)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  )
+}
+
+export default ScheduleSolverPanel
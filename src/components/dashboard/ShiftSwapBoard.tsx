@@ -0,0 +1,607 @@
+/**
+ * EMMA Healthcare Shift Swap Board
+ *
+ * Residents offer their call shifts, browse colleagues' offers and accept
+ * them, optionally giving a shift back; coordinators approve accepted swaps,
+ * seeing the duty-hour and schedule conflict issues flagged on each.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Box,
+  Typography,
+  Chip,
+  Alert,
+  Button,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material'
+import {
+  Refresh as RefreshIcon,
+  Warning as WarningIcon,
+} from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { EMMACard } from '@/components/emma'
+import { useOfferShift, useShiftSwapAction, useShiftSwaps, useSwapShifts } from '@/hooks/useShiftSwaps'
+import { CALL_TYPE_LABELS } from '@/lib/call-scheduler'
+import { formatDate } from '@/lib/date-utils'
+import { ShiftSwapAction, SwapShiftOption, canDecideShiftSwaps, isShiftInActiveSwap } from '@/lib/shift-swaps'
+import { ShiftSwapRequest, SwapShift } from '@/types/database'
+
+const STATUS_COLORS: Record<ShiftSwapRequest['status'], 'info' | 'warning' | 'success' | 'error' | 'default'> = {
+  OPEN: 'info',
+  PENDING_APPROVAL: 'warning',
+  APPROVED: 'success',
+  DENIED: 'error',
+  CANCELLED: 'default'
+}
+
+const formatLabel = (value: string): string =>
+  value.charAt(0) + value.slice(1).toLowerCase().replace(/_/g, ' ')
+
+const describeShift = (shift: SwapShift): string =>
+  `${formatDate(shift.date)} ${shift.rotationName}${shift.callType ? ` (${CALL_TYPE_LABELS[shift.callType]})` : ''}`
+
+const shiftKey = (shift: Pick<SwapShift, 'rotationId' | 'date'>): string => `${shift.rotationId}:${shift.date}`
+
+const ACTION_TITLES: Record<Exclude<ShiftSwapAction, 'ACCEPT'>, string> = {
+  APPROVE: 'Approve Swap',
+  DENY: 'Deny Swap',
+  CANCEL: 'Cancel Swap'
+}
+
+const ShiftSwapBoard: React.FC = () => {
+  const { data: session } = useSession()
+  const isApprover = !!session?.user && canDecideShiftSwaps(session.user)
+  const isResident = session?.user?.role === 'RESIDENT'
+  const userId = session?.user?.id
+
+  const [offering, setOffering] = useState<SwapShiftOption | null>(null)
+  const [note, setNote] = useState('')
+  const [accepting, setAccepting] = useState<ShiftSwapRequest | null>(null)
+  const [returnShiftKey, setReturnShiftKey] = useState('')
+  const [deciding, setDeciding] = useState<{ request: ShiftSwapRequest; action: Exclude<ShiftSwapAction, 'ACCEPT'> } | null>(null)
+  const [comments, setComments] = useState('')
+  const [dialogError, setDialogError] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const { data: requests = [], isLoading, isFetching, isError, error, refetch } = useShiftSwaps()
+  const { data: myShifts = [] } = useSwapShifts()
+  const offerShift = useOfferShift()
+  const swapAction = useShiftSwapAction()
+
+  const openOffers = requests.filter(request => request.status === 'OPEN' && request.offeredBy !== userId)
+  const pendingRequests = requests.filter(request => request.status === 'PENDING_APPROVAL')
+  const ownRequests = isApprover
+    ? requests
+    : requests.filter(request => request.offeredBy === userId || request.acceptedBy === userId)
+
+  const isShiftTaken = (shift: SwapShiftOption, excludeRequestId?: string) =>
+    isShiftInActiveSwap(requests, shift.scheduleId, shift, excludeRequestId)
+
+  const returnOptions = accepting
+    ? myShifts.filter(shift => shift.scheduleId === accepting.scheduleId && !isShiftTaken(shift, accepting.id))
+    : []
+
+  const handleOpenOffer = (shift: SwapShiftOption) => {
+    setNote('')
+    setDialogError(null)
+    setOffering(shift)
+  }
+
+  const handleSubmitOffer = async () => {
+    if (!offering) return
+    setDialogError(null)
+    try {
+      const result = await offerShift.mutateAsync({
+        scheduleId: offering.scheduleId,
+        rotationId: offering.rotationId,
+        date: offering.date,
+        note: note.trim() || undefined
+      })
+      setNotice(result.message ?? null)
+      setOffering(null)
+    } catch (submitError) {
+      setDialogError(submitError instanceof Error ? submitError.message : 'Failed to offer shift')
+    }
+  }
+
+  const handleOpenAccept = (request: ShiftSwapRequest) => {
+    setReturnShiftKey('')
+    setDialogError(null)
+    setAccepting(request)
+  }
+
+  const handleSubmitAccept = async () => {
+    if (!accepting) return
+    setDialogError(null)
+    const returnShift = returnOptions.find(shift => shiftKey(shift) === returnShiftKey)
+    try {
+      const result = await swapAction.mutateAsync({
+        id: accepting.id,
+        action: 'ACCEPT',
+        returnShift: returnShift ? { rotationId: returnShift.rotationId, date: returnShift.date } : undefined
+      })
+      setNotice(result.message ?? null)
+      setAccepting(null)
+    } catch (acceptError) {
+      // Eligibility failures are explained in the dialog so the resident can pick another return shift
+      setDialogError(acceptError instanceof Error ? acceptError.message : 'Failed to accept swap')
+    }
+  }
+
+  const handleOpenAction = (request: ShiftSwapRequest, action: Exclude<ShiftSwapAction, 'ACCEPT'>) => {
+    setComments('')
+    setDeciding({ request, action })
+  }
+
+  const handleConfirmAction = async () => {
+    if (!deciding) return
+    setActionError(null)
+    try {
+      const result = await swapAction.mutateAsync({
+        id: deciding.request.id,
+        action: deciding.action,
+        comments: comments.trim() || undefined
+      })
+      setNotice(result.message ?? null)
+    } catch (updateError) {
+      setActionError(updateError instanceof Error ? updateError.message : 'Failed to update swap')
+    } finally {
+      setDeciding(null)
+    }
+  }
+
+  const canCancel = (request: ShiftSwapRequest): boolean =>
+    (request.status === 'OPEN' || request.status === 'PENDING_APPROVAL') &&
+    (isApprover || request.offeredBy === userId)
+
+  const renderWarnings = (request: ShiftSwapRequest) => (
+    request.warnings.length > 0 ? (
+      <Box display="flex" flexDirection="column" gap={0.5}>
+        {request.warnings.map((warning, index) => (
+          <Tooltip key={index} title={warning.message}>
+            <Chip
+              icon={<WarningIcon />}
+              label={warning.type === 'DUTY_HOURS' ? 'Duty hours' : 'Conflict'}
+              color="warning"
+              size="small"
+              variant="outlined"
+            />
+          </Tooltip>
+        ))}
+      </Box>
+    ) : (
+      <Typography variant="body2" color="text.secondary">—</Typography>
+    )
+  )
+
+  // Show loading state
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading shift swaps...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  // Show error state
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          Failed to load shift swaps: {error instanceof Error ? error.message : 'Unknown error'}
+        </Alert>
+      </Box>
+    )
+  }
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Shift Swaps
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {isApprover
+              ? 'Approve call shift swaps checked against call eligibility, duty hours and schedule conflicts'
+              : 'Offer your call shifts to colleagues and pick up theirs'}
+          </Typography>
+        </Box>
+        <IconButton
+          onClick={() => refetch()}
+          disabled={isFetching}
+          title="Refresh swaps"
+          sx={{
+            bgcolor: 'grey.100',
+            '&:hover': { bgcolor: 'grey.200' }
+          }}
+        >
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {notice && (
+        <Alert severity="success" sx={{ mb: 3 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {actionError && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setActionError(null)}>
+          {actionError}
+        </Alert>
+      )}
+
+      {/* My Call Shifts */}
+      {isResident && (
+        <EMMACard elevation={2} sx={{ mb: 3 }}>
+          <Typography variant="h6" fontWeight="bold" gutterBottom>
+            My Upcoming Call Shifts
+          </Typography>
+          {myShifts.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              You have no upcoming call shifts on a published call schedule
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Date</TableCell>
+                    <TableCell>Rotation</TableCell>
+                    <TableCell>Call</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {myShifts.map(shift => (
+                    <TableRow key={`${shift.scheduleId}:${shiftKey(shift)}`} hover>
+                      <TableCell>{formatDate(shift.date)}</TableCell>
+                      <TableCell>{shift.rotationName}</TableCell>
+                      <TableCell>{shift.callType ? CALL_TYPE_LABELS[shift.callType] : '—'}</TableCell>
+                      <TableCell align="right">
+                        {isShiftTaken(shift) ? (
+                          <Chip label="In a swap" size="small" variant="outlined" />
+                        ) : (
+                          <Button size="small" variant="outlined" onClick={() => handleOpenOffer(shift)}>
+                            Offer
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </EMMACard>
+      )}
+
+      {/* Open Offers */}
+      {isResident && (
+        <EMMACard elevation={2} sx={{ mb: 3 }}>
+          <Typography variant="h6" fontWeight="bold" gutterBottom>
+            Open Offers
+          </Typography>
+          {openOffers.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No colleagues are offering shifts right now
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Shift</TableCell>
+                    <TableCell>Offered By</TableCell>
+                    <TableCell>Note</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {openOffers.map(request => (
+                    <TableRow key={request.id} hover>
+                      <TableCell>{describeShift(request.offeredShift)}</TableCell>
+                      <TableCell>{request.offeredByName}</TableCell>
+                      <TableCell>
+                        <Typography variant="body2" color="text.secondary">
+                          {request.note || '—'}
+                        </Typography>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Button
+                          size="small"
+                          variant="contained"
+                          disabled={swapAction.isPending}
+                          onClick={() => handleOpenAccept(request)}
+                        >
+                          Accept
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </EMMACard>
+      )}
+
+      {/* Approval Queue */}
+      {isApprover && (
+        <EMMACard elevation={2} sx={{ mb: 3 }}>
+          <Typography variant="h6" fontWeight="bold" gutterBottom>
+            Pending Approval
+          </Typography>
+          {pendingRequests.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No swaps are waiting for a decision
+            </Typography>
+          ) : (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Shift</TableCell>
+                    <TableCell>From</TableCell>
+                    <TableCell>To</TableCell>
+                    <TableCell>In Return</TableCell>
+                    <TableCell>Flags</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {pendingRequests.map(request => (
+                    <TableRow key={request.id} hover>
+                      <TableCell>{describeShift(request.offeredShift)}</TableCell>
+                      <TableCell>{request.offeredByName}</TableCell>
+                      <TableCell>{request.acceptedByName}</TableCell>
+                      <TableCell>{request.returnShift ? describeShift(request.returnShift) : '—'}</TableCell>
+                      <TableCell>{renderWarnings(request)}</TableCell>
+                      <TableCell align="right">
+                        <Box display="flex" gap={1} justifyContent="flex-end">
+                          <Button
+                            size="small"
+                            variant="contained"
+                            disabled={swapAction.isPending}
+                            onClick={() => handleOpenAction(request, 'APPROVE')}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            color="error"
+                            disabled={swapAction.isPending}
+                            onClick={() => handleOpenAction(request, 'DENY')}
+                          >
+                            Deny
+                          </Button>
+                        </Box>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </EMMACard>
+      )}
+
+      {/* Swaps */}
+      <EMMACard elevation={2}>
+        <Typography variant="h6" fontWeight="bold" gutterBottom>
+          {isApprover ? 'All Swaps' : 'My Swaps'}
+        </Typography>
+        {ownRequests.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No shifts have been swapped
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Shift</TableCell>
+                  <TableCell>Offered By</TableCell>
+                  <TableCell>Taken By</TableCell>
+                  <TableCell>In Return</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Comments</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {ownRequests.map(request => (
+                  <TableRow key={request.id} hover>
+                    <TableCell>{describeShift(request.offeredShift)}</TableCell>
+                    <TableCell>{request.offeredByName}</TableCell>
+                    <TableCell>{request.acceptedByName || '—'}</TableCell>
+                    <TableCell>{request.returnShift ? describeShift(request.returnShift) : '—'}</TableCell>
+                    <TableCell>
+                      <Chip label={formatLabel(request.status)} color={STATUS_COLORS[request.status]} size="small" />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {request.decision?.comments || '—'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell align="right">
+                      {canCancel(request) && (
+                        <Button
+                          size="small"
+                          variant="outlined"
+                          disabled={swapAction.isPending}
+                          onClick={() => handleOpenAction(request, 'CANCEL')}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </EMMACard>
+
+      {/* Offer Dialog */}
+      <Dialog open={!!offering} onClose={() => setOffering(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Offer Shift</DialogTitle>
+        <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          {offering && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {describeShift(offering)} will be offered to your colleagues. It stays yours until a
+              coordinator approves a swap.
+            </Typography>
+          )}
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            inputProps={{ maxLength: 500 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOffering(null)} disabled={offerShift.isPending}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSubmitOffer} disabled={offerShift.isPending}>
+            Offer Shift
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Accept Dialog */}
+      <Dialog open={!!accepting} onClose={() => setAccepting(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Accept Shift</DialogTitle>
+        <DialogContent>
+          {dialogError && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {dialogError}
+            </Alert>
+          )}
+          {accepting && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              You will take {describeShift(accepting.offeredShift)} from {accepting.offeredByName}. Your call
+              eligibility, duty hours and schedule conflicts are checked before it goes to the coordinator.
+            </Typography>
+          )}
+          <FormControl fullWidth size="small">
+            <InputLabel>Give a shift in return (optional)</InputLabel>
+            <Select
+              value={returnShiftKey}
+              onChange={(e) => setReturnShiftKey(e.target.value as string)}
+              label="Give a shift in return (optional)"
+            >
+              <MenuItem value="">
+                <em>None - take the shift</em>
+              </MenuItem>
+              {returnOptions.map(shift => (
+                <MenuItem key={shiftKey(shift)} value={shiftKey(shift)}>
+                  {describeShift(shift)}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setAccepting(null)} disabled={swapAction.isPending}>
+            Cancel
+          </Button>
+          <Button variant="contained" onClick={handleSubmitAccept} disabled={swapAction.isPending}>
+            Accept
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Decision Dialog */}
+      <Dialog open={!!deciding} onClose={() => setDeciding(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>{deciding ? ACTION_TITLES[deciding.action] : ''}</DialogTitle>
+        <DialogContent>
+          {deciding && (
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              {describeShift(deciding.request.offeredShift)} from {deciding.request.offeredByName}
+              {deciding.request.acceptedByName ? ` to ${deciding.request.acceptedByName}` : ''}
+              {deciding.request.returnShift ? `, in return for ${describeShift(deciding.request.returnShift)}` : ''}.
+              {deciding.action === 'APPROVE' && ' The published call schedule will be updated.'}
+            </Typography>
+          )}
+          {deciding?.request.warnings.map((warning, index) => (
+            <Alert key={index} severity="warning" sx={{ mb: 1 }}>
+              {warning.message}
+            </Alert>
+          ))}
+          {deciding?.action !== 'CANCEL' && (
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              label="Comments (optional)"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              inputProps={{ maxLength: 1000 }}
+              sx={{ mt: 1 }}
+            />
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDeciding(null)} disabled={swapAction.isPending}>
+            Back
+          </Button>
+          <Button
+            variant="contained"
+            color={deciding?.action === 'APPROVE' ? 'primary' : 'error'}
+            onClick={handleConfirmAction}
+            disabled={swapAction.isPending}
+          >
+            {deciding?.action === 'APPROVE' ? 'Approve' : deciding?.action === 'DENY' ? 'Deny' : 'Cancel Swap'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default ShiftSwapBoard
@@ -0,0 +1,601 @@
+/**
+ * EMMA Healthcare User Management
+ *
+ * Administrator console for every account in the institution: listing with
+ * role and status filters, role changes, effective permissions, suspension,
+ * forced password resets, verification emails, lockout and MFA resets.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Box,
+  Typography,
+  CardContent,
+  Grid,
+  TextField,
+  InputAdornment,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Menu,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Avatar,
+  Chip,
+  IconButton,
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material'
+import {
+  Search as SearchIcon,
+  Refresh as RefreshIcon,
+  MoreVert as MoreVertIcon,
+  ManageAccounts as RoleIcon,
+  Block as SuspendIcon,
+  HowToReg as ReinstateIcon,
+  VerifiedUser as ApproveIcon,
+  LockReset as PasswordResetIcon,
+  MarkEmailRead as VerificationIcon,
+  LockOpen as UnlockIcon,
+  PhonelinkErase as ResetMfaIcon,
+  AdminPanelSettings as PermissionsIcon,
+} from '@mui/icons-material'
+import { format } from 'date-fns'
+import { useSession } from 'next-auth/react'
+import { EMMACard } from '@/components/emma'
+import UserPermissionsModal from '@/components/modals/UserPermissionsModal'
+import {
+  useUsers,
+  useChangeUserRole,
+  useSuspendUser,
+  useReinstateUser,
+  useApproveUser,
+  useForcePasswordReset,
+  useResendVerificationEmail,
+  useUnlockAccount,
+  useResetMfa,
+} from '@/hooks/useUsers'
+import {
+  ROLE_LABELS,
+  USER_ROLES,
+  USER_STATUSES,
+  USER_STATUS_LABELS,
+  getPermissionChangeDenial,
+  getRoleChangeDenial,
+  getUserManagementDenial,
+  matchesUserSearch,
+} from '@/lib/user-management'
+import { isAccountLocked } from '@/lib/password-policy'
+import { toDate } from '@/lib/date-utils'
+import { ExtendedUser } from '@/types/database'
+import { UserRole, UserStatus } from '@/types/user'
+
+const ROLE_COLORS: Record<UserRole, 'error' | 'warning' | 'info' | 'primary'> = {
+  ADMIN: 'error',
+  COORDINATOR: 'warning',
+  FACULTY: 'info',
+  RESIDENT: 'primary',
+}
+
+const STATUS_COLORS: Record<UserStatus, 'success' | 'warning' | 'error' | 'default'> = {
+  ACTIVE: 'success',
+  PENDING_VERIFICATION: 'warning',
+  PENDING_APPROVAL: 'warning',
+  SUSPENDED: 'error',
+  INACTIVE: 'default',
+}
+
+type UserDialog = 'role' | 'suspend' | 'password-reset' | 'permissions' | null
+
+const formatDepartmentName = (department?: string): string =>
+  department
+    ? department.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+    : '—'
+
+const UserManagement: React.FC = () => {
+  const { data: session } = useSession()
+  const [searchTerm, setSearchTerm] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('')
+  const [statusFilter, setStatusFilter] = useState<UserStatus | ''>('')
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null)
+  const [selectedUser, setSelectedUser] = useState<ExtendedUser | null>(null)
+  const [dialog, setDialog] = useState<UserDialog>(null)
+  const [newRole, setNewRole] = useState<UserRole>('RESIDENT')
+  const [suspensionReason, setSuspensionReason] = useState('')
+  const [actionMessage, setActionMessage] = useState<string | null>(null)
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  const changeRole = useChangeUserRole()
+  const suspendUser = useSuspendUser()
+  const reinstateUser = useReinstateUser()
+  const approveUser = useApproveUser()
+  const forcePasswordReset = useForcePasswordReset()
+  const resendVerification = useResendVerificationEmail()
+  const unlockAccount = useUnlockAccount()
+  const resetMfa = useResetMfa()
+
+  const actor = {
+    id: session?.user?.id ?? '',
+    permissions: session?.user?.permissions,
+    departmentPermissions: session?.user?.departmentPermissions,
+  }
+  const canManageSystem = !!session?.user?.permissions?.canManageSystem
+
+  // Role and status are filtered by the API; search is instant on the client
+  const {
+    data: users = [],
+    isLoading,
+    isError,
+    error,
+    refetch,
+  } = useUsers({
+    role: roleFilter || undefined,
+    status: statusFilter || undefined,
+  })
+
+  const filteredUsers = useMemo(
+    () => (searchTerm ? users.filter(user => matchesUserSearch(user, searchTerm)) : users),
+    [users, searchTerm]
+  )
+
+  const handleMenuOpen = (event: React.MouseEvent<HTMLElement>, user: ExtendedUser) => {
+    setAnchorEl(event.currentTarget)
+    setSelectedUser(user)
+  }
+
+  // The selected user stays set while a dialog is open
+  const handleMenuClose = () => {
+    setAnchorEl(null)
+  }
+
+  const openDialog = (nextDialog: Exclude<UserDialog, null>) => {
+    handleMenuClose()
+    if (nextDialog === 'role' && selectedUser) setNewRole(selectedUser.role)
+    if (nextDialog === 'suspend') setSuspensionReason('')
+    setDialog(nextDialog)
+  }
+
+  const closeDialog = () => {
+    setDialog(null)
+    setSelectedUser(null)
+  }
+
+  // Run an account action and report its outcome above the table
+  const runAction = async (action: () => Promise<{ message?: string }>, fallbackError: string) => {
+    handleMenuClose()
+    setDialog(null)
+    setActionError(null)
+    setActionMessage(null)
+    try {
+      const result = await action()
+      setActionMessage(result.message ?? null)
+    } catch (actionFailure) {
+      setActionError(actionFailure instanceof Error ? actionFailure.message : fallbackError)
+    } finally {
+      setSelectedUser(null)
+    }
+  }
+
+  const renderStatus = (user: ExtendedUser) => (
+    <Box display="flex" gap={1} flexWrap="wrap">
+      <Chip
+        label={USER_STATUS_LABELS[user.status] ?? user.status}
+        color={STATUS_COLORS[user.status] ?? 'default'}
+        size="small"
+        variant="outlined"
+      />
+      {isAccountLocked(user) && <Chip label="Locked" color="error" size="small" />}
+      {user.security?.passwordResetRequired && <Chip label="Reset Required" color="warning" size="small" />}
+    </Box>
+  )
+
+  const renderLastLogin = (user: ExtendedUser) => {
+    const lastLogin = toDate(user.lastLogin)
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {lastLogin ? format(lastLogin, 'MMM d, yyyy') : 'Never'}
+      </Typography>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Box display="flex" justifyContent="center" alignItems="center" minHeight="400px">
+          <CircularProgress size={40} />
+          <Typography sx={{ ml: 2 }}>Loading users...</Typography>
+        </Box>
+      </Box>
+    )
+  }
+
+  if (isError) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert
+          severity="error"
+          action={
+            <Button color="inherit" size="small" onClick={() => refetch()}>
+              Retry
+            </Button>
+          }
+        >
+          <Typography variant="body2">
+            Failed to load users: {error instanceof Error ? error.message : 'Unknown error'}
+          </Typography>
+        </Alert>
+      </Box>
+    )
+  }
+
+  const managementDenial = selectedUser ? getUserManagementDenial(actor, selectedUser) : null
+
+  return (
+    <Box sx={{ p: 3 }}>
+      {/* Header Actions */}
+      <Box display="flex" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+        <Box>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            User Management
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {filteredUsers.length} users found
+            {(roleFilter || statusFilter || searchTerm) && ' (filtered)'}
+          </Typography>
+        </Box>
+        <IconButton
+          onClick={() => refetch()}
+          title="Refresh users"
+          sx={{
+            bgcolor: 'grey.100',
+            '&:hover': { bgcolor: 'grey.200' }
+          }}
+        >
+          <RefreshIcon />
+        </IconButton>
+      </Box>
+
+      {actionMessage && (
+        <Alert severity="success" onClose={() => setActionMessage(null)} sx={{ mb: 3 }}>
+          {actionMessage}
+        </Alert>
+      )}
+
+      {actionError && (
+        <Alert severity="error" onClose={() => setActionError(null)} sx={{ mb: 3 }}>
+          {actionError}
+        </Alert>
+      )}
+
+      {/* Search and Filters */}
+      <EMMACard elevation={2} sx={{ mb: 3 }}>
+        <CardContent>
+          <Grid container spacing={3} alignItems="center">
+            <Grid item xs={12} md={6}>
+              <TextField
+                fullWidth
+                placeholder="Search users by name, email, or department..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                InputProps={{
+                  startAdornment: (
+                    <InputAdornment position="start">
+                      <SearchIcon color="action" />
+                    </InputAdornment>
+                  ),
+                }}
+                sx={{ backgroundColor: 'background.default', borderRadius: 1 }}
+              />
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Role</InputLabel>
+                <Select
+                  value={roleFilter}
+                  onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+                  label="Role"
+                >
+                  <MenuItem value="">All Roles</MenuItem>
+                  {USER_ROLES.map(role => (
+                    <MenuItem key={role} value={role}>{ROLE_LABELS[role]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+            <Grid item xs={12} md={3}>
+              <FormControl fullWidth size="small">
+                <InputLabel>Status</InputLabel>
+                <Select
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as UserStatus | '')}
+                  label="Status"
+                >
+                  <MenuItem value="">All Statuses</MenuItem>
+                  {USER_STATUSES.map(status => (
+                    <MenuItem key={status} value={status}>{USER_STATUS_LABELS[status]}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Grid>
+          </Grid>
+        </CardContent>
+      </EMMACard>
+
+      {/* Users Table */}
+      <EMMACard elevation={2}>
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell>User</TableCell>
+                <TableCell>Role</TableCell>
+                <TableCell>Department</TableCell>
+                <TableCell>Status</TableCell>
+                <TableCell>MFA</TableCell>
+                <TableCell>Last Sign-In</TableCell>
+                <TableCell align="center">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {filteredUsers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center" sx={{ py: 6 }}>
+                    <Typography variant="body2" color="text.secondary">
+                      No users match the current filters
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              ) : filteredUsers.map(user => (
+                <TableRow key={user.id} hover>
+                  <TableCell>
+                    <Box display="flex" alignItems="center" gap={2}>
+                      <Avatar sx={{ width: 40, height: 40, bgcolor: 'primary.main' }}>
+                        {user.firstName.charAt(0) + user.lastName.charAt(0)}
+                      </Avatar>
+                      <Box>
+                        <Typography variant="subtitle2" fontWeight="medium">
+                          {user.firstName} {user.lastName}
+                          {user.id === session?.user?.id && ' (you)'}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {user.email}
+                        </Typography>
+                      </Box>
+                    </Box>
+                  </TableCell>
+                  <TableCell>
+                    <Box display="flex" gap={1} flexWrap="wrap">
+                      <Chip label={ROLE_LABELS[user.role]} color={ROLE_COLORS[user.role]} size="small" />
+                      {(user.permissionOverrides || user.departmentPermissions) && (
+                        <Chip label="Custom" size="small" variant="outlined" title="Has permission overrides or department grants" />
+                      )}
+                    </Box>
+                  </TableCell>
+                  <TableCell>{formatDepartmentName(user.department)}</TableCell>
+                  <TableCell>{renderStatus(user)}</TableCell>
+                  <TableCell>
+                    <Chip
+                      label={user.mfa?.enabled ? 'Enabled' : 'Off'}
+                      color={user.mfa?.enabled ? 'success' : 'default'}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </TableCell>
+                  <TableCell>{renderLastLogin(user)}</TableCell>
+                  <TableCell align="center">
+                    <IconButton
+                      size="small"
+                      onClick={(e) => handleMenuOpen(e, user)}
+                    >
+                      <MoreVertIcon />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </EMMACard>
+
+      {/* Action Menu */}
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => {
+          handleMenuClose()
+          setSelectedUser(null)
+        }}
+        transformOrigin={{ horizontal: 'right', vertical: 'top' }}
+        anchorOrigin={{ horizontal: 'right', vertical: 'bottom' }}
+      >
+        <MenuItem onClick={() => openDialog('permissions')}>
+          <PermissionsIcon sx={{ mr: 1 }} />
+          Permissions
+        </MenuItem>
+        {selectedUser && !managementDenial && [
+          <MenuItem key="role" onClick={() => openDialog('role')}>
+            <RoleIcon sx={{ mr: 1 }} />
+            Change Role
+          </MenuItem>,
+          selectedUser.status === 'PENDING_APPROVAL' && (
+            <MenuItem
+              key="approve"
+              onClick={() => runAction(() => approveUser.mutateAsync(selectedUser.id), 'Failed to approve user')}
+            >
+              <ApproveIcon sx={{ mr: 1 }} />
+              Approve User
+            </MenuItem>
+          ),
+          selectedUser.status === 'SUSPENDED' ? (
+            <MenuItem
+              key="reinstate"
+              onClick={() => runAction(() => reinstateUser.mutateAsync(selectedUser.id), 'Failed to reinstate user')}
+            >
+              <ReinstateIcon sx={{ mr: 1 }} />
+              Reinstate User
+            </MenuItem>
+          ) : (
+            <MenuItem key="suspend" onClick={() => openDialog('suspend')} sx={{ color: 'error.main' }}>
+              <SuspendIcon sx={{ mr: 1 }} />
+              Suspend User
+            </MenuItem>
+          ),
+          <MenuItem key="password-reset" onClick={() => openDialog('password-reset')}>
+            <PasswordResetIcon sx={{ mr: 1 }} />
+            Force Password Reset
+          </MenuItem>,
+          !selectedUser.emailVerified && (
+            <MenuItem
+              key="verification"
+              onClick={() => runAction(() => resendVerification.mutateAsync(selectedUser.id), 'Failed to send verification email')}
+            >
+              <VerificationIcon sx={{ mr: 1 }} />
+              Resend Verification Email
+            </MenuItem>
+          ),
+          isAccountLocked(selectedUser) && (
+            <MenuItem
+              key="unlock"
+              onClick={() => runAction(() => unlockAccount.mutateAsync(selectedUser.id), 'Failed to unlock account')}
+            >
+              <UnlockIcon sx={{ mr: 1 }} />
+              Unlock Account
+            </MenuItem>
+          ),
+          canManageSystem && selectedUser.mfa?.enabled && (
+            <MenuItem
+              key="mfa-reset"
+              onClick={() => runAction(() => resetMfa.mutateAsync(selectedUser.id), 'Failed to reset MFA')}
+            >
+              <ResetMfaIcon sx={{ mr: 1 }} />
+              Reset MFA
+            </MenuItem>
+          ),
+        ]}
+      </Menu>
+
+      {/* Effective Permissions */}
+      <UserPermissionsModal
+        open={dialog === 'permissions'}
+        user={selectedUser}
+        canEdit={!!selectedUser && !getPermissionChangeDenial(actor, selectedUser)}
+        onClose={closeDialog}
+        onSaved={(message) => {
+          closeDialog()
+          setActionError(null)
+          setActionMessage(message)
+        }}
+      />
+
+      {/* Change Role Dialog */}
+      <Dialog open={dialog === 'role'} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>Change Role</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            Permissions for {selectedUser?.firstName} {selectedUser?.lastName} will be reset to the
+            defaults for the new role, clearing any overrides and department grants. Their current
+            sessions are signed out of Firebase.
+          </DialogContentText>
+          <FormControl fullWidth size="small">
+            <InputLabel>Role</InputLabel>
+            <Select value={newRole} onChange={(e) => setNewRole(e.target.value as UserRole)} label="Role">
+              {USER_ROLES.map(role => (
+                <MenuItem
+                  key={role}
+                  value={role}
+                  disabled={!!selectedUser && !!getRoleChangeDenial(actor, selectedUser, role)}
+                >
+                  {ROLE_LABELS[role]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            variant="contained"
+            disabled={!selectedUser || newRole === selectedUser.role}
+            onClick={() => selectedUser && runAction(
+              () => changeRole.mutateAsync({ userId: selectedUser.id, role: newRole }),
+              'Failed to change role'
+            )}
+          >
+            Change Role
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Suspend Dialog */}
+      <Dialog open={dialog === 'suspend'} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>Suspend User</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {selectedUser?.firstName} {selectedUser?.lastName} will be signed out and unable to
+            sign in until reinstated.
+          </DialogContentText>
+          <TextField
+            fullWidth
+            multiline
+            minRows={2}
+            label="Reason (optional)"
+            value={suspensionReason}
+            onChange={(e) => setSuspensionReason(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="error"
+            onClick={() => selectedUser && runAction(
+              () => suspendUser.mutateAsync({ userId: selectedUser.id, reason: suspensionReason.trim() || undefined }),
+              'Failed to suspend user'
+            )}
+          >
+            Suspend
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Force Password Reset Dialog */}
+      <Dialog open={dialog === 'password-reset'} onClose={closeDialog} maxWidth="xs" fullWidth>
+        <DialogTitle>Force Password Reset</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {selectedUser?.firstName} {selectedUser?.lastName} will be signed out and emailed a link to
+            choose a new password. They cannot sign in until they do.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialog}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="warning"
+            onClick={() => selectedUser && runAction(
+              () => forcePasswordReset.mutateAsync(selectedUser.id),
+              'Failed to require password reset'
+            )}
+          >
+            Require Reset
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  )
+}
+
+export default UserManagement
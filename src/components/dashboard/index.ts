@@ -6,5 +6,14 @@
 
 export { default as DashboardOverview } from './DashboardOverview'
 export { default as ManageResidents } from './ManageResidents'
+export { default as UserManagement } from './UserManagement'
 export { default as ClassAnalytics } from './ClassAnalytics'
-export { default as ScheduleMatching } from './ScheduleMatching'
\ No newline at end of file
+export { default as ScheduleMatching } from './ScheduleMatching'
+export { default as Evaluations } from './Evaluations'
+export { default as AuditLogViewer } from './AuditLogViewer'
+export { default as AccountSecurity } from './AccountSecurity'
+export { default as InstitutionManagement } from './InstitutionManagement'
+export { default as ResidentPortal } from './ResidentPortal'
+export { default as FacultyPortal } from './FacultyPortal'
+export { default as LeaveManagement } from './LeaveManagement'
+export { default as ShiftSwapBoard } from './ShiftSwapBoard'
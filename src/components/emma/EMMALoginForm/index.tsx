@@ -22,6 +22,7 @@ import {
   Email,
   Lock,
   LocalHospital,
+  Security,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
 
@@ -76,11 +77,14 @@ const EMMALoginForm: React.FC<EMMALoginFormProps> = ({
   title = 'EMMA Healthcare',
   subtitle = 'Medical Education Administration',
   onSwitchToRegister,
+  mfaRequired = false,
+  onCancelMfa,
 }) => {
   const [formData, setFormData] = useState<LoginFormData>({
     email: '',
     password: '',
     rememberMe: false,
+    mfaCode: '',
   });
 
   const [showPassword, setShowPassword] = useState(false);
@@ -108,6 +112,16 @@ const EMMALoginForm: React.FC<EMMALoginFormProps> = ({
   const validateForm = (): boolean => {
     const errors: ValidationErrors = {};
 
+    // Second step only asks for the authentication code
+    if (mfaRequired) {
+      if (!formData.mfaCode?.trim()) {
+        errors.mfaCode = 'Authentication code is required';
+      }
+
+      setValidationErrors(errors);
+      return Object.keys(errors).length === 0;
+    }
+
     // Email validation
     if (!formData.email) {
       errors.email = 'Email address is required';
@@ -169,8 +183,66 @@ const EMMALoginForm: React.FC<EMMALoginFormProps> = ({
           </Alert>
         )}
 
+        {/* Authentication Code Step */}
+        {mfaRequired && (
+          <Box component="form" onSubmit={handleSubmit} noValidate>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </Typography>
+
+            <EMMAInput
+              fullWidth
+              label="Authentication Code"
+              required
+              autoFocus
+              autoComplete="one-time-code"
+              value={formData.mfaCode}
+              onChange={handleInputChange('mfaCode')}
+              error={!!validationErrors.mfaCode}
+              helperText={validationErrors.mfaCode}
+              startAdornment={<Security />}
+              sx={{ mb: 3 }}
+            />
+
+            <EMMAButton
+              type="submit"
+              fullWidth
+              emmaVariant="medical-primary"
+              emmaSize="large"
+              loading={loading}
+              disabled={loading}
+              sx={{ mb: 2 }}
+            >
+              {loading ? 'Verifying...' : 'Verify'}
+            </EMMAButton>
+
+            {onCancelMfa && (
+              <Box textAlign="center">
+                <Link
+                  component="button"
+                  type="button"
+                  variant="body2"
+                  onClick={() => {
+                    setFormData(prev => ({ ...prev, mfaCode: '' }));
+                    onCancelMfa();
+                  }}
+                  sx={{
+                    fontWeight: 500,
+                    textDecoration: 'none',
+                    '&:hover': {
+                      textDecoration: 'underline',
+                    },
+                  }}
+                >
+                  Back to sign in
+                </Link>
+              </Box>
+            )}
+          </Box>
+        )}
+
         {/* Login Form */}
-        <Box component="form" onSubmit={handleSubmit} noValidate>
+        <Box component="form" onSubmit={handleSubmit} noValidate sx={{ display: mfaRequired ? 'none' : 'block' }}>
           {/* Email Input */}
           <EMMAInput
             fullWidth
@@ -5,7 +5,7 @@
  * with role-based fields, institutional validation, and HIPAA compliance.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -34,6 +34,7 @@ import {
   School,
   Badge,
   Phone,
+  Business,
 } from '@mui/icons-material';
 import { styled } from '@mui/material/styles';
 
@@ -41,6 +42,7 @@ import EMMACard from '../EMMACard';
 import EMMAInput from '../EMMAInput';
 import EMMAButton from '../EMMAButton';
 import { UserRole, Department, PGYLevel } from '@/types/user';
+import type { InstitutionDirectoryEntry } from '@/hooks/useInstitutions';
 
 // ===== TYPES =====
 
@@ -74,6 +76,7 @@ export interface EMMARegistrationFormProps {
   loading?: boolean
   error?: string | null
   onSwitchToLogin: () => void
+  institutions?: InstitutionDirectoryEntry[] // Active institutions users can register with
 }
 
 interface ValidationErrors {
@@ -99,6 +102,7 @@ const DEPARTMENTS: { value: Department; label: string }[] = [
   { value: 'OTHER', label: 'Other' },
 ]
 
+// Coordinator and administrator accounts are created by invitation, not self-registration
 const ROLES: { value: UserRole; label: string; description: string }[] = [
   { 
     value: 'RESIDENT', 
@@ -110,16 +114,6 @@ const ROLES: { value: UserRole; label: string; description: string }[] = [
     label: 'Faculty Member', 
     description: 'Attending physician or teaching staff' 
   },
-  { 
-    value: 'COORDINATOR', 
-    label: 'Program Coordinator', 
-    description: 'Administrative coordinator for residency program' 
-  },
-  { 
-    value: 'ADMIN', 
-    label: 'System Administrator', 
-    description: 'System administrator with full access' 
-  },
 ]
 
 const TITLES = [
@@ -169,6 +163,7 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
   loading = false,
   error = null,
   onSwitchToLogin,
+  institutions = [],
 }) => {
   const [activeStep, setActiveStep] = useState(0)
   const [showPassword, setShowPassword] = useState(false)
@@ -188,13 +183,20 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
     role: 'RESIDENT',
     department: undefined,
     pgyLevel: undefined,
-    institutionId: 'allegheny-general', // Default institution
+    institutionId: '',
     medicalLicenseNumber: '',
     supervisingFacultyId: '',
     acceptedTerms: false,
     acceptedHIPAA: false,
   })
 
+  // Preselect the institution when only one is open to registration
+  useEffect(() => {
+    if (institutions.length === 1 && !formData.institutionId) {
+      setFormData(prev => ({ ...prev, institutionId: institutions[0].id }))
+    }
+  }, [institutions, formData.institutionId])
+
   // Handle input changes
   const handleInputChange = (field: keyof RegistrationFormData) => (
     event: React.ChangeEvent<HTMLInputElement>
@@ -242,12 +244,9 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
         errors.email = 'Please use your institutional email address'
       }
 
+      // Complexity is checked server-side against the institution's password policy
       if (!formData.password) {
         errors.password = 'Password is required'
-      } else if (formData.password.length < 8) {
-        errors.password = 'Password must be at least 8 characters'
-      } else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.password)) {
-        errors.password = 'Password must contain uppercase, lowercase, and number'
       }
 
       if (!formData.confirmPassword) {
@@ -271,6 +270,10 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
 
     if (step === 1) {
       // Professional Information validation
+      if (!formData.institutionId) {
+        errors.institutionId = 'Institution is required'
+      }
+
       if (formData.role === 'RESIDENT') {
         if (!formData.department) {
           errors.department = 'Department is required for residents'
@@ -422,7 +425,7 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
                   value={formData.password}
                   onChange={handleInputChange('password')}
                   error={!!validationErrors.password}
-                  helperText={validationErrors.password}
+                  helperText={validationErrors.password || "Must meet your institution's password policy"}
                   startAdornment={<Lock />}
                   endAdornment={
                     <IconButton
@@ -483,9 +486,33 @@ const EMMARegistrationForm: React.FC<EMMARegistrationFormProps> = ({
                   </Grid>
                 ))}
               </Grid>
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                Program coordinators and administrators are invited by their institution.
+              </Typography>
             </Box>
 
             <Grid container spacing={3}>
+              <Grid item xs={12}>
+                <EMMAInput
+                  select
+                  fullWidth
+                  label="Institution"
+                  required
+                  value={formData.institutionId}
+                  onChange={handleInputChange('institutionId')}
+                  error={!!validationErrors.institutionId}
+                  helperText={validationErrors.institutionId}
+                  startAdornment={<Business />}
+                >
+                  {institutions.map((institution) => (
+                    <MenuItem key={institution.id} value={institution.id}>
+                      {institution.name}
+                      {institution.city && ` (${[institution.city, institution.state].filter(Boolean).join(', ')})`}
+                    </MenuItem>
+                  ))}
+                </EMMAInput>
+              </Grid>
+
               {(formData.role === 'RESIDENT' || formData.role === 'FACULTY') && (
                 <Grid item xs={12} sm={6}>
                   <EMMAInput
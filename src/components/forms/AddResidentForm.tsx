@@ -3,6 +3,7 @@
  * 
  * Comprehensive form for creating new resident physicians with healthcare-specific
  * validation, EMMA design system integration, and proper medical field validation.
+ * Also used in edit mode, pre-filled from an existing resident.
  */
 
 'use client'
@@ -25,7 +26,7 @@ import {
   Button,
   CircularProgress,
 } from '@mui/material'
-import { Add as AddIcon } from '@mui/icons-material'
+import { Add as AddIcon, Save as SaveIcon } from '@mui/icons-material'
 // import { Department, PGYLevel } from '@/types/user'
 
 // Temporary type definitions
@@ -125,13 +126,21 @@ const residentSchema = z.object({
     .or(z.literal(''))
 })
 
-type ResidentFormData = z.infer<typeof residentSchema>
+// The email address cannot be changed once created, so existing addresses
+// are not held to the institutional domain rule
+const editResidentSchema = residentSchema.extend({
+  email: z.string().email('Please enter a valid email address'),
+})
+
+export type ResidentFormData = z.infer<typeof residentSchema>
 
 interface AddResidentFormProps {
   onSubmit: (data: ResidentFormData) => Promise<void>
   loading?: boolean
   error?: string | null
   onCancel?: () => void
+  mode?: 'create' | 'edit'
+  initialValues?: Partial<ResidentFormData>
 }
 
 // Department options for healthcare
@@ -154,8 +163,11 @@ const AddResidentForm: React.FC<AddResidentFormProps> = ({
   onSubmit,
   loading = false,
   error,
-  onCancel
+  onCancel,
+  mode = 'create',
+  initialValues,
 }) => {
+  const isEdit = mode === 'edit'
   const {
     control,
     handleSubmit,
@@ -163,18 +175,21 @@ const AddResidentForm: React.FC<AddResidentFormProps> = ({
     watch,
     reset
   } = useForm<ResidentFormData>({
-    resolver: zodResolver(residentSchema),
+    resolver: zodResolver(isEdit ? editResidentSchema : residentSchema),
     defaultValues: {
       title: 'Dr.',
       pgyLevel: 1,
-      graduationYear: new Date().getFullYear() - 1
+      graduationYear: new Date().getFullYear() - 1,
+      ...initialValues
     }
   })
 
   const handleFormSubmit = async (data: ResidentFormData) => {
     try {
       await onSubmit(data)
-      reset() // Clear form on successful submission
+      if (!isEdit) {
+        reset() // Clear form on successful submission
+      }
     } catch (error) {
       // Error handling is managed by parent component
       console.error('Form submission error:', error)
@@ -307,8 +322,9 @@ const AddResidentForm: React.FC<AddResidentFormProps> = ({
                 medicalType="email-medical"
                 emmaVariant={errors.email ? 'medical-error' : 'medical-required'}
                 required
+                disabled={isEdit}
                 error={!!errors.email}
-                helperText={errors.email?.message}
+                helperText={errors.email?.message || (isEdit ? 'Email address cannot be changed' : undefined)}
                 fullWidth
               />
             )}
@@ -485,7 +501,7 @@ const AddResidentForm: React.FC<AddResidentFormProps> = ({
           type="submit"
           variant="contained"
           disabled={!isValid || loading}
-          startIcon={loading ? <CircularProgress size={20} color="inherit" /> : <AddIcon />}
+          startIcon={loading ? <CircularProgress size={20} color="inherit" /> : isEdit ? <SaveIcon /> : <AddIcon />}
           sx={{
             minWidth: 160,
             background: `linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)`,
@@ -497,7 +513,9 @@ const AddResidentForm: React.FC<AddResidentFormProps> = ({
             }
           }}
         >
-          {loading ? 'Creating...' : 'Create Resident'}
+          {isEdit
+            ? (loading ? 'Saving...' : 'Save Changes')
+            : (loading ? 'Creating...' : 'Create Resident')}
         </Button>
       </Box>
     </Box>
@@ -12,6 +12,8 @@ import { Box, AppBar, Toolbar, Typography, IconButton, useMediaQuery, useTheme }
 import { Menu as MenuIcon, Notifications as NotificationsIcon } from '@mui/icons-material'
 import { useSession } from 'next-auth/react'
 import DashboardSidebar from './DashboardSidebar'
+import ScreenLock from './ScreenLock'
+import { signOutFromScreenLock, useScreenLock } from '@/hooks/useScreenLock'
 import { styled } from '@mui/material/styles'
 
 const SIDEBAR_WIDTH = 280
@@ -66,6 +68,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('md'))
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  const { locked, unlock } = useScreenLock()
 
   // Handle mobile menu toggle
   const handleMobileMenuToggle = () => {
@@ -84,7 +87,15 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
   }
 
   return (
-    <Box sx={{ display: 'flex', minHeight: '100vh' }}>
+    // PHI is blurred and hidden from assistive technology while the screen is locked
+    <Box
+      aria-hidden={locked}
+      sx={{
+        display: 'flex',
+        minHeight: '100vh',
+        ...(locked && { filter: 'blur(12px)', pointerEvents: 'none', userSelect: 'none' }),
+      }}
+    >
       {/* Mobile AppBar */}
       <DashboardAppBar position="fixed" sidebarOpen={!isMobile}>
         <Toolbar>
@@ -198,6 +209,15 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
           </Box>
         </Box>
       </MainContent>
+
+      {/* Rendered in a portal, so not blurred */}
+      <ScreenLock
+        open={locked}
+        loading={unlock.isPending}
+        error={unlock.error?.message}
+        onUnlock={(password) => unlock.mutate(password)}
+        onSignOut={() => signOutFromScreenLock()}
+      />
     </Box>
   )
 }
@@ -206,9 +226,17 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({
 function getSectionTitle(sectionId: string): string {
   const titles = {
     dashboard: 'Dashboard Overview',
+    'my-portal': 'My Portal',
+    'faculty-portal': 'My Residents',
+    'leave': 'Leave',
+    'swaps': 'Shift Swaps',
     'manage-residents': 'Manage Residents',
+    'users': 'Users',
     'class-analytics': 'Class Analytics',
     'schedule-matching': 'Schedule Matching',
+    'evaluations': 'Evaluations',
+    'audit-log': 'Audit Log',
+    'account-security': 'Account Security',
   }
   return titles[sectionId as keyof typeof titles] || 'Dashboard'
 }
@@ -216,9 +244,17 @@ function getSectionTitle(sectionId: string): string {
 function getSectionDescription(sectionId: string): string {
   const descriptions = {
     dashboard: 'Overview of key metrics and recent activities',
+    'my-portal': 'Your rotation, schedule, evaluations, milestones and profile',
+    'faculty-portal': 'Residents you supervise or attend, and the evaluations you owe them',
+    'leave': 'Leave requests, balances and coordinator approvals',
+    'swaps': 'Offer, trade and approve call shifts',
     'manage-residents': 'Manage resident profiles, evaluations, and academic progress',
+    'users': 'Manage accounts, roles and access for everyone in your institution',
     'class-analytics': 'Analyze class performance, trends, and insights',
     'schedule-matching': 'Manage clinical rotation schedules and assignments',
+    'evaluations': 'Draft, review and approve resident evaluations',
+    'audit-log': 'Review, export and verify the HIPAA audit trail',
+    'account-security': 'Manage multi-factor authentication for your account',
   }
   return descriptions[sectionId as keyof typeof descriptions] || 'Healthcare administration dashboard'
 }
@@ -26,14 +26,26 @@ import {
 import {
   Dashboard as DashboardIcon,
   People as PeopleIcon,
+  ManageAccounts as ManageAccountsIcon,
   Analytics as AnalyticsIcon,
   Schedule as ScheduleIcon,
+  Assignment as AssignmentIcon,
+  Policy as PolicyIcon,
+  Domain as DomainIcon,
+  Badge as BadgeIcon,
+  BeachAccess as LeaveIcon,
+  SwapHoriz as SwapIcon,
+  SupervisorAccount as SupervisorAccountIcon,
   LocalHospital as HospitalIcon,
   Settings as SettingsIcon,
   ExitToApp as LogoutIcon,
 } from '@mui/icons-material'
 import { useSession, signOut } from 'next-auth/react'
+import { endFirebaseSession } from '@/lib/firebase-session'
 import { styled } from '@mui/material/styles'
+import { hasAnyPermissionScope } from '@/lib/permissions'
+import { UserPermissions, UserRole } from '@/types/user'
+import InstitutionSwitcher from './InstitutionSwitcher'
 
 const SIDEBAR_WIDTH = 280
 
@@ -52,8 +64,22 @@ const EMMADrawer = styled(Drawer)(({ theme }) => ({
   },
 }))
 
+interface NavigationItem {
+  id: string
+  label: string
+  icon: React.ReactNode
+  href: string
+  description: string
+  permission?: keyof UserPermissions // Hidden unless the user holds this permission, in any department
+  superAdminOnly?: boolean // Platform administration, not tied to an institution's permissions
+  roles?: UserRole[] // Hidden for other roles
+}
+
+// Program administration views; residents get their own portal instead
+const STAFF_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR', 'FACULTY']
+
 // Healthcare navigation items
-const navigationItems = [
+const navigationItems: NavigationItem[] = [
   {
     id: 'dashboard',
     label: 'Dashboard Overview',
@@ -61,12 +87,37 @@ const navigationItems = [
     href: '/dashboard',
     description: 'Main dashboard with key metrics',
   },
+  {
+    id: 'my-portal',
+    label: 'My Portal',
+    icon: <BadgeIcon />,
+    href: '/dashboard/me',
+    description: 'Your rotation, schedule, milestones and profile',
+    roles: ['RESIDENT'],
+  },
+  {
+    id: 'faculty-portal',
+    label: 'My Residents',
+    icon: <SupervisorAccountIcon />,
+    href: '/dashboard/faculty',
+    description: 'Residents you supervise and evaluations you owe',
+    roles: ['FACULTY'],
+  },
   {
     id: 'manage-residents',
     label: 'Manage Residents',
     icon: <PeopleIcon />,
     href: '/dashboard/residents',
     description: 'Resident profiles and management',
+    roles: STAFF_ROLES,
+  },
+  {
+    id: 'users',
+    label: 'Users',
+    icon: <ManageAccountsIcon />,
+    href: '/dashboard/users',
+    description: 'Accounts, roles and access for all staff',
+    permission: 'canViewAllUsers',
   },
   {
     id: 'class-analytics',
@@ -74,6 +125,7 @@ const navigationItems = [
     icon: <AnalyticsIcon />,
     href: '/dashboard/analytics',
     description: 'Performance analytics and insights',
+    roles: STAFF_ROLES,
   },
   {
     id: 'schedule-matching',
@@ -81,6 +133,46 @@ const navigationItems = [
     icon: <ScheduleIcon />,
     href: '/dashboard/schedules',
     description: 'Clinical rotation scheduling',
+    roles: STAFF_ROLES,
+  },
+  {
+    id: 'leave',
+    label: 'Leave',
+    icon: <LeaveIcon />,
+    href: '/dashboard/leave',
+    description: 'Leave requests, balances and approvals',
+    roles: ['RESIDENT', 'COORDINATOR', 'ADMIN'],
+  },
+  {
+    id: 'swaps',
+    label: 'Shift Swaps',
+    icon: <SwapIcon />,
+    href: '/dashboard/swaps',
+    description: 'Call shift offers, swaps and approvals',
+    roles: ['RESIDENT', 'COORDINATOR', 'ADMIN'],
+  },
+  {
+    id: 'evaluations',
+    label: 'Evaluations',
+    icon: <AssignmentIcon />,
+    href: '/dashboard/evaluations',
+    description: 'Resident evaluations and reviews',
+  },
+  {
+    id: 'audit-log',
+    label: 'Audit Log',
+    icon: <PolicyIcon />,
+    href: '/dashboard/audit',
+    description: 'HIPAA access and change history',
+    permission: 'canViewAuditLogs',
+  },
+  {
+    id: 'institutions',
+    label: 'Institutions',
+    icon: <DomainIcon />,
+    href: '/dashboard/institutions',
+    description: 'Onboard institutions and manage access',
+    superAdminOnly: true,
   },
 ]
 
@@ -91,6 +183,11 @@ interface DashboardSidebarProps {
 const DashboardSidebar: React.FC<DashboardSidebarProps> = ({ onNavigate }) => {
   const { data: session } = useSession()
   const pathname = usePathname()
+  const visibleItems = navigationItems.filter(item =>
+    (!item.permission || hasAnyPermissionScope(session?.user, item.permission)) &&
+    (!item.superAdminOnly || session?.user?.isSuperAdmin) &&
+    (!item.roles || (!!session?.user?.role && item.roles.includes(session.user.role)))
+  )
 
   const handleNavigation = (itemId: string, href: string) => {
     if (onNavigate) {
@@ -100,6 +197,7 @@ const DashboardSidebar: React.FC<DashboardSidebarProps> = ({ onNavigate }) => {
   }
 
   const handleSignOut = async () => {
+    await endFirebaseSession()
     await signOut({ callbackUrl: '/' })
   }
 
@@ -171,6 +269,7 @@ const DashboardSidebar: React.FC<DashboardSidebarProps> = ({ onNavigate }) => {
             </Box>
           </Box>
         </Box>
+        <InstitutionSwitcher />
       </Box>
 
       <Divider sx={{ backgroundColor: 'rgba(255, 255, 255, 0.2)', mx: 2, mb: 2 }} />
@@ -193,7 +292,7 @@ const DashboardSidebar: React.FC<DashboardSidebarProps> = ({ onNavigate }) => {
         </Typography>
 
         <List sx={{ pt: 0 }}>
-          {navigationItems.map((item) => (
+          {visibleItems.map((item) => (
             <ListItem key={item.id} disablePadding sx={{ mb: 0.5 }}>
               <ListItemButton
                 onClick={() => handleNavigation(item.id, item.href)}
@@ -250,6 +349,7 @@ const DashboardSidebar: React.FC<DashboardSidebarProps> = ({ onNavigate }) => {
         <List>
           <ListItem disablePadding>
             <ListItemButton
+              onClick={() => handleNavigation('account-security', '/dashboard/security')}
               sx={{
                 borderRadius: 2,
                 py: 1.5,
@@ -0,0 +1,81 @@
+/**
+ * EMMA Healthcare Institution Switcher
+ *
+ * Shows the institution the session is working in and, for users with
+ * access to several, switches between them. Role and permissions follow
+ * the access held in the institution switched into.
+ */
+
+'use client'
+
+import React from 'react'
+import {
+  Box,
+  Typography,
+  Select,
+  MenuItem,
+  FormControl,
+  CircularProgress,
+  Tooltip,
+} from '@mui/material'
+import { Business as InstitutionIcon } from '@mui/icons-material'
+import { useSession } from 'next-auth/react'
+import { useAccessibleInstitutions, useSwitchInstitution } from '@/hooks/useInstitutions'
+
+const InstitutionSwitcher: React.FC = () => {
+  const { data: session } = useSession()
+  const { data: institutions = [] } = useAccessibleInstitutions()
+  const switchInstitution = useSwitchInstitution()
+
+  const activeInstitutionId = session?.user?.institutionId
+  const activeInstitution = institutions.find(institution => institution.id === activeInstitutionId)
+
+  if (!activeInstitution) return null
+
+  if (institutions.length <= 1) {
+    return (
+      <Box display="flex" alignItems="center" gap={1} sx={{ color: 'rgba(255, 255, 255, 0.8)' }}>
+        <InstitutionIcon fontSize="small" />
+        <Typography variant="caption" noWrap>
+          {activeInstitution.name}
+        </Typography>
+      </Box>
+    )
+  }
+
+  return (
+    <Tooltip
+      title={switchInstitution.error?.message ?? 'Switch institution'}
+      open={switchInstitution.isError ? true : undefined}
+      placement="right"
+    >
+      <FormControl fullWidth size="small">
+        <Select
+          value={activeInstitution.id}
+          disabled={switchInstitution.isPending}
+          onChange={(e) => switchInstitution.mutate(e.target.value)}
+          aria-label="Active institution"
+          startAdornment={switchInstitution.isPending
+            ? <CircularProgress size={16} sx={{ color: '#ffffff', mr: 1 }} />
+            : <InstitutionIcon fontSize="small" sx={{ mr: 1 }} />}
+          sx={{
+            color: '#ffffff',
+            fontSize: '0.8rem',
+            backgroundColor: 'rgba(255, 255, 255, 0.1)',
+            '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.3)' },
+            '&:hover .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.5)' },
+            '& .MuiSvgIcon-root': { color: '#ffffff' },
+          }}
+        >
+          {institutions.map(institution => (
+            <MenuItem key={institution.id} value={institution.id}>
+              {institution.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+    </Tooltip>
+  )
+}
+
+export default InstitutionSwitcher
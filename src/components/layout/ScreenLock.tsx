@@ -0,0 +1,98 @@
+/**
+ * EMMA Healthcare Screen Lock
+ *
+ * Re-authentication prompt shown over the blurred dashboard after the
+ * institution's screenLockTimeout of inactivity.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Avatar,
+} from '@mui/material'
+import { Lock as LockIcon } from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useSession } from 'next-auth/react'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 400,
+    width: '100%',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+interface ScreenLockProps {
+  open: boolean
+  loading?: boolean
+  error?: string | null
+  onUnlock: React.Dispatch<string> // Receives the entered password
+  onSignOut: () => void
+}
+
+const ScreenLock: React.FC<ScreenLockProps> = ({ open, loading = false, error = null, onUnlock, onSignOut }) => {
+  const { data: session } = useSession()
+  const [password, setPassword] = useState('')
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!password) return
+    onUnlock(password)
+    setPassword('')
+  }
+
+  return (
+    <StyledDialog open={open} disableEscapeKeyDown>
+      <DialogContent sx={{ p: 4 }}>
+        <Box component="form" onSubmit={handleSubmit} textAlign="center">
+          <Avatar sx={{ bgcolor: 'primary.main', width: 56, height: 56, mx: 'auto', mb: 2 }}>
+            <LockIcon />
+          </Avatar>
+          <Typography variant="h5" fontWeight="bold" gutterBottom>
+            Screen Locked
+          </Typography>
+          <Typography variant="body2" color="text.secondary" mb={3}>
+            Locked after a period of inactivity to protect patient information.
+            Enter the password for {session?.user?.email ?? 'your account'} to continue.
+          </Typography>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2, textAlign: 'left' }}>
+              {error}
+            </Alert>
+          )}
+
+          <TextField
+            fullWidth
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="current-password"
+            autoFocus
+            sx={{ mb: 3 }}
+          />
+
+          <Button type="submit" variant="contained" fullWidth size="large" disabled={!password || loading} sx={{ mb: 1 }}>
+            {loading ? 'Unlocking...' : 'Unlock'}
+          </Button>
+          <Button fullWidth onClick={onSignOut} disabled={loading}>
+            Sign Out
+          </Button>
+        </Box>
+      </DialogContent>
+    </StyledDialog>
+  )
+}
+
+export default ScreenLock
@@ -0,0 +1,180 @@
+/**
+ * EMMA Healthcare Edit Resident Modal
+ *
+ * Edits an existing resident physician's profile using the add-resident
+ * form in edit mode.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  IconButton,
+  Typography,
+  Box,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  Edit as EditIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import AddResidentForm, { ResidentFormData } from '@/components/forms/AddResidentForm'
+import { useUpdateResident } from '@/hooks/useResidents'
+import { ExtendedUser } from '@/types/database'
+import { PGYLevel } from '@/types/user'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 800,
+    width: '100%',
+    maxHeight: '90vh',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+const FORM_TITLES = ['Dr.', 'Mr.', 'Ms.', 'Mrs.'] as const
+
+interface EditResidentModalProps {
+  open: boolean
+  resident: ExtendedUser | null
+  onClose: () => void
+}
+
+/**
+ * Pre-fill the form from the stored resident profile
+ */
+const toFormValues = (resident: ExtendedUser): Partial<ResidentFormData> => ({
+  title: FORM_TITLES.find(title => title === resident.profile?.title),
+  firstName: resident.firstName,
+  lastName: resident.lastName,
+  middleName: resident.profile?.middleName || '',
+  preferredName: resident.profile?.preferredName || '',
+  email: resident.email,
+  phoneNumber: resident.phoneNumber || '',
+  department: resident.department as ResidentFormData['department'],
+  pgyLevel: resident.pgyLevel,
+  medicalLicenseNumber: resident.medicalLicenseNumber || '',
+  supervisingFacultyId: resident.supervisingFacultyId,
+  medicalSchool: resident.education?.medicalSchool || '',
+  graduationYear: resident.education?.graduationYear,
+  undergraduateInstitution: resident.education?.undergraduateInstitution || '',
+})
+
+const EditResidentModal: React.FC<EditResidentModalProps> = ({
+  open,
+  resident,
+  onClose,
+}) => {
+  const updateResident = useUpdateResident()
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (formData: ResidentFormData) => {
+    if (!resident) return
+
+    setError(null)
+
+    try {
+      await updateResident.mutateAsync({
+        residentId: resident.id,
+        updates: {
+          firstName: formData.firstName,
+          lastName: formData.lastName,
+          phoneNumber: formData.phoneNumber,
+          department: formData.department,
+          pgyLevel: formData.pgyLevel as PGYLevel,
+          medicalLicenseNumber: formData.medicalLicenseNumber,
+          supervisingFacultyId: formData.supervisingFacultyId,
+          profile: {
+            title: formData.title,
+            middleName: formData.middleName,
+            preferredName: formData.preferredName,
+          },
+          education: formData.medicalSchool || formData.graduationYear || formData.undergraduateInstitution ? {
+            medicalSchool: formData.medicalSchool || '',
+            graduationYear: formData.graduationYear || new Date().getFullYear(),
+            undergraduateInstitution: formData.undergraduateInstitution,
+          } : undefined,
+        },
+      })
+
+      onClose()
+    } catch (updateError) {
+      console.error('[EditResidentModal] Update failed:', updateError)
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update resident physician')
+    }
+  }
+
+  const handleClose = () => {
+    if (updateResident.isPending) return // Prevent closing during submission
+
+    setError(null)
+    onClose()
+  }
+
+  return (
+    <StyledDialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      disableEscapeKeyDown={updateResident.isPending}
+    >
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={2}>
+          <EditIcon sx={{ fontSize: 28 }} />
+          <Box>
+            <Typography variant="h5" component="div" fontWeight="bold">
+              Edit Resident Physician
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.9 }}>
+              {resident ? `${resident.firstName} ${resident.lastName}` : ''}
+            </Typography>
+          </Box>
+        </Box>
+
+        <IconButton onClick={handleClose} disabled={updateResident.isPending}>
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        {resident && (
+          // Keyed by resident so the form re-initializes when another resident is opened
+          <AddResidentForm
+            key={resident.id}
+            mode="edit"
+            initialValues={toFormValues(resident)}
+            onSubmit={handleSubmit}
+            loading={updateResident.isPending}
+            error={error}
+            onCancel={handleClose}
+          />
+        )}
+      </DialogContent>
+    </StyledDialog>
+  )
+}
+
+export default EditResidentModal
@@ -0,0 +1,661 @@
+/**
+ * EMMA Healthcare Evaluation Form Modal
+ *
+ * Drafts a new resident evaluation or edits an existing draft. Questions,
+ * scales and required comments come from the evaluation template; without
+ * one the ACGME core competencies are rated on the 1-9 scale.
+ */
+
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Grid,
+  TextField,
+  MenuItem,
+  Divider,
+  Button,
+  CircularProgress,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  Assignment as AssignmentIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { format } from 'date-fns'
+import { EMMAButton } from '@/components/emma'
+import { useResidents } from '@/hooks/useResidents'
+import { useCreateEvaluation, useUpdateEvaluation } from '@/hooks/useEvaluations'
+import { useEvaluationTemplates } from '@/hooks/useEvaluationTemplates'
+import { toDate, TimestampLike } from '@/lib/date-utils'
+import { EVALUATION_TYPES, EvaluationRequest, EvaluationWithStatus } from '@/lib/evaluation-workflow'
+import { isCommentRequired, isQuestionActive, selectTemplate } from '@/lib/evaluation-templates'
+import { Evaluation, EvaluationScale, EvaluationTemplate } from '@/types/database'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 900,
+    width: '100%',
+    maxHeight: '90vh',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+// ACGME core competencies used as the default rating categories
+const DEFAULT_RATING_CATEGORIES = [
+  'Patient Care',
+  'Medical Knowledge',
+  'Practice-Based Learning and Improvement',
+  'Interpersonal and Communication Skills',
+  'Professionalism',
+  'Systems-Based Practice',
+]
+
+const DEFAULT_SCALE: EvaluationScale = { min: 1, max: 9 }
+
+const MILESTONE_LEVELS = [1, 2, 3, 4, 5]
+
+interface EvaluationFormModalProps {
+  open: boolean
+  onClose: () => void
+  evaluation?: EvaluationWithStatus // Draft to edit; omit to create a new evaluation
+  evaluateeId?: string // Resident to preselect for a new evaluation
+}
+
+interface RatingFormState {
+  questionId?: string
+  milestoneId?: string
+  category: string
+  subcategory?: string
+  score: number | ''
+  comments: string
+  milestoneLevel: number | ''
+}
+
+interface EvaluationFormState {
+  evaluateeId: string
+  type: Evaluation['type']
+  templateId: string
+  startDate: string
+  endDate: string
+  dueDate: string
+  ratings: RatingFormState[]
+  overallRating: number | ''
+  strengths: string
+  areasForImprovement: string
+  goals: string
+  summaryComments: string
+}
+
+const toInputDate = (value: TimestampLike): string => {
+  const date = toDate(value)
+  return date ? format(date, 'yyyy-MM-dd') : ''
+}
+
+const toLines = (value: string): string[] =>
+  value.split('\n').map(line => line.trim()).filter(Boolean)
+
+/**
+ * One row per template question, or per core competency without a template,
+ * prefilled from any ratings already saved on the draft
+ */
+const buildRatingRows = (template: EvaluationTemplate | undefined, ratings: Evaluation['ratings'] = []): RatingFormState[] => {
+  const toRow = (rating?: Evaluation['ratings'][number]) => ({
+    score: rating?.score ?? ('' as const),
+    comments: rating?.comments || '',
+    milestoneLevel: rating?.milestoneLevel ?? ('' as const),
+  })
+
+  if (template) {
+    return template.sections.flatMap(section => section.questions).map(question => ({
+      questionId: question.id,
+      milestoneId: question.milestoneId,
+      category: question.category,
+      subcategory: question.subcategory,
+      ...toRow(ratings.find(rating => rating.questionId === question.id)),
+    }))
+  }
+
+  const ratedCategories = new Set(ratings.map(rating => rating.category))
+
+  return [
+    ...ratings.map(rating => ({ category: rating.category, subcategory: rating.subcategory, ...toRow(rating) })),
+    ...DEFAULT_RATING_CATEGORIES
+      .filter(category => !ratedCategories.has(category))
+      .map(category => ({ category, ...toRow() })),
+  ]
+}
+
+const buildInitialState = (evaluation?: EvaluationWithStatus, evaluateeId = ''): EvaluationFormState => {
+  if (!evaluation) {
+    return {
+      evaluateeId,
+      type: 'ROTATION',
+      templateId: '',
+      startDate: '',
+      endDate: '',
+      dueDate: '',
+      ratings: buildRatingRows(undefined),
+      overallRating: '',
+      strengths: '',
+      areasForImprovement: '',
+      goals: '',
+      summaryComments: '',
+    }
+  }
+
+  return {
+    evaluateeId: evaluation.evaluateeId,
+    type: evaluation.type,
+    templateId: evaluation.templateId || '',
+    startDate: toInputDate(evaluation.evaluationPeriod.startDate),
+    endDate: toInputDate(evaluation.evaluationPeriod.endDate),
+    dueDate: toInputDate(evaluation.dueDate),
+    ratings: buildRatingRows(undefined, evaluation.ratings),
+    overallRating: evaluation.overallRating || '',
+    strengths: evaluation.strengths.join('\n'),
+    areasForImprovement: evaluation.areasForImprovement.join('\n'),
+    goals: evaluation.goals.join('\n'),
+    summaryComments: evaluation.summaryComments,
+  }
+}
+
+const scaleOptions = (scale: EvaluationScale): number[] =>
+  Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i)
+
+const formatTypeLabel = (type: string): string =>
+  type.charAt(0) + type.slice(1).toLowerCase()
+
+const EvaluationFormModal: React.FC<EvaluationFormModalProps> = ({ open, onClose, evaluation, evaluateeId }) => {
+  const isEditing = !!evaluation
+  const [form, setForm] = useState<EvaluationFormState>(() => buildInitialState(evaluation, evaluateeId))
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: residents = [] } = useResidents()
+  // Retired versions are included so older drafts render with their own questions
+  const { data: templatesData, isLoading: templatesLoading } = useEvaluationTemplates({ includeRetired: true })
+  const templates = useMemo(() => templatesData ?? [], [templatesData])
+  const createEvaluation = useCreateEvaluation()
+  const updateEvaluation = useUpdateEvaluation()
+  const saving = createEvaluation.isPending || updateEvaluation.isPending
+
+  const template = templates.find(candidate => candidate.id === form.templateId)
+  const activeTemplates = templates.filter(candidate =>
+    candidate.status === 'ACTIVE' && candidate.evaluationType === form.type
+  )
+  const evaluateeDepartment = residents.find(resident => resident.id === form.evaluateeId)?.department
+  const evaluationTemplate = templates.find(candidate => candidate.id === evaluation?.templateId)
+
+  useEffect(() => {
+    if (open) {
+      setForm(buildInitialState(evaluation, evaluateeId))
+      setError(null)
+    }
+  }, [open, evaluation, evaluateeId])
+
+  // Drafts show their own template version's questions once templates have loaded
+  useEffect(() => {
+    if (!open || !evaluation || !evaluationTemplate) return
+    setForm(current => ({ ...current, ratings: buildRatingRows(evaluationTemplate, evaluation.ratings) }))
+  }, [open, evaluation, evaluationTemplate])
+
+  // New evaluations default to the active template for the type and the resident's department
+  useEffect(() => {
+    if (!open || evaluation) return
+    const defaultTemplate = selectTemplate(templates, form.type, evaluateeDepartment) ?? undefined
+    setForm(current => ({
+      ...current,
+      templateId: defaultTemplate?.id || '',
+      ratings: buildRatingRows(defaultTemplate),
+    }))
+  }, [open, evaluation, templates, form.type, evaluateeDepartment])
+
+  const scores = useMemo(
+    () => new Map(
+      form.ratings
+        .filter(rating => rating.questionId && rating.score !== '')
+        .map(rating => [rating.questionId!, Number(rating.score)])
+    ),
+    [form.ratings]
+  )
+
+  const questionsById = useMemo(
+    () => new Map((template?.sections ?? []).flatMap(section => section.questions).map(question => [question.id, question])),
+    [template]
+  )
+
+  const isRowActive = (rating: RatingFormState): boolean => {
+    const question = rating.questionId ? questionsById.get(rating.questionId) : undefined
+    return !question || isQuestionActive(question, scores)
+  }
+
+  const setField = <K extends keyof EvaluationFormState>(field: K, value: EvaluationFormState[K]) => {
+    setForm(current => ({ ...current, [field]: value }))
+  }
+
+  const handleTemplateChange = (templateId: string) => {
+    const selected = templates.find(candidate => candidate.id === templateId)
+    setForm(current => ({ ...current, templateId, ratings: buildRatingRows(selected) }))
+  }
+
+  const setRating = (index: number, changes: Partial<RatingFormState>) => {
+    setForm(current => ({
+      ...current,
+      ratings: current.ratings.map((rating, i) => (i === index ? { ...rating, ...changes } : rating)),
+    }))
+  }
+
+  const renderScoreSelect = (index: number, scale: EvaluationScale) => (
+    <TextField
+      select
+      fullWidth
+      size="small"
+      label="Score"
+      value={form.ratings[index].score}
+      onChange={(e) => setRating(index, { score: e.target.value === '' ? '' : Number(e.target.value) })}
+    >
+      <MenuItem value="">—</MenuItem>
+      {scaleOptions(scale).map(score => (
+        <MenuItem key={score} value={score}>
+          {score}{scale.labels?.[score] ? ` - ${scale.labels[score]}` : ''}
+        </MenuItem>
+      ))}
+    </TextField>
+  )
+
+  const handleClose = () => {
+    if (saving) return // Prevent closing during submission
+    onClose()
+  }
+
+  const handleSave = async () => {
+    if (!form.evaluateeId || !form.startDate || !form.endDate) {
+      setError('Resident and evaluation period are required')
+      return
+    }
+
+    setError(null)
+
+    const payload: Partial<EvaluationRequest> = {
+      type: form.type,
+      evaluationPeriod: {
+        startDate: form.startDate,
+        endDate: form.endDate,
+      },
+      dueDate: form.dueDate || undefined,
+      // Unscored and skipped questions are left out so a draft can be saved part-way through
+      ratings: form.ratings
+        .filter(rating => rating.score !== '' && isRowActive(rating))
+        .map(rating => ({
+          questionId: rating.questionId,
+          milestoneId: rating.milestoneId,
+          category: rating.category,
+          subcategory: rating.subcategory,
+          score: Number(rating.score),
+          comments: rating.comments.trim() || undefined,
+          milestoneLevel: rating.milestoneLevel === '' ? undefined : Number(rating.milestoneLevel),
+        })),
+      overallRating: form.overallRating === '' ? undefined : Number(form.overallRating),
+      strengths: toLines(form.strengths),
+      areasForImprovement: toLines(form.areasForImprovement),
+      goals: toLines(form.goals),
+      summaryComments: form.summaryComments,
+    }
+
+    try {
+      if (evaluation) {
+        await updateEvaluation.mutateAsync({ id: evaluation.id, updates: payload })
+      } else {
+        await createEvaluation.mutateAsync({
+          ...payload,
+          type: form.type,
+          evaluateeId: form.evaluateeId,
+          templateId: form.templateId || undefined,
+          evaluationPeriod: payload.evaluationPeriod!,
+        })
+      }
+      onClose()
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save evaluation')
+    }
+  }
+
+  return (
+    <StyledDialog
+      open={open}
+      onClose={handleClose}
+      maxWidth="md"
+      fullWidth
+      disableEscapeKeyDown={saving}
+    >
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={2}>
+          <AssignmentIcon sx={{ fontSize: 28 }} />
+          <Box>
+            <Typography variant="h5" component="div" fontWeight="bold">
+              {isEditing ? 'Edit Evaluation Draft' : 'New Evaluation'}
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.9 }}>
+              {template
+                ? `${template.name} (v${template.version}) - drafts can be saved before every question is answered`
+                : 'Scores use the 1-9 scale; drafts can be saved before every category is rated'}
+            </Typography>
+          </Box>
+        </Box>
+
+        <IconButton onClick={handleClose} disabled={saving}>
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        {error && (
+          <Alert severity="error" sx={{ mb: 3, mt: 1 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Grid container spacing={2} sx={{ mt: 0 }}>
+          <Grid item xs={12} md={6}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Resident"
+              value={form.evaluateeId}
+              onChange={(e) => setField('evaluateeId', e.target.value)}
+              disabled={isEditing}
+            >
+              {residents.map(resident => (
+                <MenuItem key={resident.id} value={resident.id}>
+                  {resident.firstName} {resident.lastName}
+                  {resident.pgyLevel ? ` (PGY-${resident.pgyLevel})` : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={6}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Evaluation Type"
+              value={form.type}
+              onChange={(e) => setField('type', e.target.value as Evaluation['type'])}
+              disabled={isEditing && !!evaluation?.templateId}
+            >
+              {EVALUATION_TYPES.map(type => (
+                <MenuItem key={type} value={type}>
+                  {formatTypeLabel(type)}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Template"
+              value={form.templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={isEditing || templatesLoading}
+              helperText={!form.templateId ? 'No active template for this type - core competencies will be rated' : undefined}
+            >
+              <MenuItem value="">No template</MenuItem>
+              {(isEditing && template ? [template] : activeTemplates).map(candidate => (
+                <MenuItem key={candidate.id} value={candidate.id}>
+                  {candidate.name} (v{candidate.version})
+                  {candidate.departments.length > 0 ? ` - ${candidate.departments.map(formatTypeLabel).join(', ')}` : ''}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Period Start"
+              value={form.startDate}
+              onChange={(e) => setField('startDate', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Period End"
+              value={form.endDate}
+              onChange={(e) => setField('endDate', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Due Date"
+              value={form.dueDate}
+              onChange={(e) => setField('dueDate', e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              helperText={isEditing ? undefined : 'Defaults to the program deadline'}
+            />
+          </Grid>
+        </Grid>
+
+        <Divider sx={{ my: 3 }} />
+
+        {template ? (
+          template.sections.map(section => (
+            <Box key={section.id} sx={{ mb: 3 }}>
+              <Typography variant="subtitle1" fontWeight="bold">
+                {section.title}
+              </Typography>
+              {section.description && (
+                <Typography variant="body2" color="text.secondary" gutterBottom>
+                  {section.description}
+                </Typography>
+              )}
+              <Grid container spacing={2} sx={{ mt: 0 }}>
+                {section.questions.map(question => {
+                  const index = form.ratings.findIndex(rating => rating.questionId === question.id)
+                  const rating = form.ratings[index]
+                  if (!rating || !isQuestionActive(question, scores)) return null
+                  const commentRequired = isCommentRequired(question, rating.score === '' ? undefined : rating.score)
+                  // Questions mapped to a sub-competency always offer a milestone level for the CCC roll-up
+                  const showMilestone = !!question.milestoneLevelRequired || !!question.milestoneId
+
+                  return (
+                    <React.Fragment key={question.id}>
+                      <Grid item xs={12} md={showMilestone ? 4 : 5}>
+                        <Typography variant="body2" sx={{ mt: 1 }}>
+                          {question.prompt}{question.required ? ' *' : ''}
+                        </Typography>
+                        {question.description && (
+                          <Typography variant="caption" color="text.secondary">
+                            {question.description}
+                          </Typography>
+                        )}
+                      </Grid>
+                      <Grid item xs={4} md={2}>
+                        {renderScoreSelect(index, question.scale)}
+                      </Grid>
+                      {showMilestone && (
+                        <Grid item xs={4} md={2}>
+                          <TextField
+                            select
+                            fullWidth
+                            size="small"
+                            label={question.milestoneId ? `Milestone ${question.milestoneId}` : 'Milestone'}
+                            value={rating.milestoneLevel}
+                            onChange={(e) => setRating(index, { milestoneLevel: e.target.value === '' ? '' : Number(e.target.value) })}
+                          >
+                            <MenuItem value="">—</MenuItem>
+                            {MILESTONE_LEVELS.map(level => (
+                              <MenuItem key={level} value={level}>Level {level}</MenuItem>
+                            ))}
+                          </TextField>
+                        </Grid>
+                      )}
+                      <Grid item xs={showMilestone ? 4 : 8} md={showMilestone ? 4 : 5}>
+                        <TextField
+                          fullWidth
+                          size="small"
+                          label={commentRequired ? 'Comments (required)' : 'Comments'}
+                          value={rating.comments}
+                          onChange={(e) => setRating(index, { comments: e.target.value })}
+                        />
+                      </Grid>
+                    </React.Fragment>
+                  )
+                })}
+              </Grid>
+            </Box>
+          ))
+        ) : (
+          <>
+            <Typography variant="subtitle1" fontWeight="bold" gutterBottom>
+              Competency Ratings
+            </Typography>
+            <Grid container spacing={2}>
+              {form.ratings.map((rating, index) => (
+                <React.Fragment key={rating.category}>
+                  <Grid item xs={12} md={5}>
+                    <Typography variant="body2" sx={{ mt: 1 }}>
+                      {rating.category}
+                    </Typography>
+                  </Grid>
+                  <Grid item xs={4} md={2}>
+                    {renderScoreSelect(index, DEFAULT_SCALE)}
+                  </Grid>
+                  <Grid item xs={8} md={5}>
+                    <TextField
+                      fullWidth
+                      size="small"
+                      label="Comments"
+                      value={rating.comments}
+                      onChange={(e) => setRating(index, { comments: e.target.value })}
+                    />
+                  </Grid>
+                </React.Fragment>
+              ))}
+            </Grid>
+          </>
+        )}
+
+        <Divider sx={{ my: 3 }} />
+
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Overall Rating"
+              value={form.overallRating}
+              onChange={(e) => setField('overallRating', e.target.value === '' ? '' : Number(e.target.value))}
+            >
+              <MenuItem value="">—</MenuItem>
+              {scaleOptions(template?.overallScale ?? DEFAULT_SCALE).map(score => (
+                <MenuItem key={score} value={score}>{score}</MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label="Strengths (one per line)"
+              value={form.strengths}
+              onChange={(e) => setField('strengths', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label="Areas for Improvement (one per line)"
+              value={form.areasForImprovement}
+              onChange={(e) => setField('areasForImprovement', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={2}
+              size="small"
+              label="Goals (one per line)"
+              value={form.goals}
+              onChange={(e) => setField('goals', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              multiline
+              minRows={3}
+              size="small"
+              label={template?.summaryCommentsRequired === false ? 'Summary Comments' : 'Summary Comments (required to submit)'}
+              value={form.summaryComments}
+              onChange={(e) => setField('summaryComments', e.target.value)}
+              inputProps={{ maxLength: 5000 }}
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+
+      <DialogActions sx={{ px: 4, pb: 3 }}>
+        <Button onClick={handleClose} disabled={saving}>
+          Cancel
+        </Button>
+        <EMMAButton
+          emmaVariant="medical-primary"
+          emmaSize="medium"
+          onClick={handleSave}
+          disabled={saving}
+          startIcon={saving ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          Save Draft
+        </EMMAButton>
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default EvaluationFormModal
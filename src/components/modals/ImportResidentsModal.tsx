@@ -0,0 +1,294 @@
+/**
+ * EMMA Healthcare Import Residents Modal
+ *
+ * Bulk resident onboarding from a CSV file: the file is first validated as
+ * a dry run with per-row errors, then the valid rows are imported.
+ */
+
+'use client'
+
+import React, { useRef, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  UploadFile as UploadIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useImportResidents } from '@/hooks/useResidents'
+import { RESIDENT_IMPORT_MAX_ROWS, ResidentImportResult, ResidentImportRowStatus } from '@/lib/resident-import'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 960,
+    width: '100%',
+    maxHeight: '90vh',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+const STATUS_LABELS: Record<ResidentImportRowStatus, string> = {
+  VALID: 'Ready',
+  INVALID: 'Invalid',
+  CREATED: 'Created',
+  FAILED: 'Failed',
+}
+
+const STATUS_COLORS: Record<ResidentImportRowStatus, 'success' | 'error' | 'warning' | 'default'> = {
+  VALID: 'success',
+  INVALID: 'error',
+  CREATED: 'success',
+  FAILED: 'error',
+}
+
+interface ImportResidentsModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+const ImportResidentsModal: React.FC<ImportResidentsModalProps> = ({ open, onClose }) => {
+  const importResidents = useImportResidents()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [csv, setCsv] = useState<string | null>(null)
+  const [result, setResult] = useState<ResidentImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const reset = () => {
+    setFileName(null)
+    setCsv(null)
+    setResult(null)
+    setError(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleClose = () => {
+    if (importResidents.isPending) return // Prevent closing during import
+
+    reset()
+    onClose()
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    reset()
+    setFileName(file.name)
+
+    try {
+      const text = await file.text()
+      setCsv(text)
+      setResult(await importResidents.mutateAsync({ csv: text, dryRun: true }))
+    } catch (validateError) {
+      setError(validateError instanceof Error ? validateError.message : 'Failed to validate file')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!csv) return
+
+    setError(null)
+    try {
+      setResult(await importResidents.mutateAsync({ csv, dryRun: false }))
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Failed to import residents')
+    }
+  }
+
+  const isComplete = !!result && !result.dryRun
+  // After the import only the rows that need attention are listed
+  const rows = result
+    ? (isComplete ? result.rows.filter(row => row.status !== 'CREATED') : result.rows)
+    : []
+
+  return (
+    <StyledDialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={2}>
+          <UploadIcon sx={{ fontSize: 28 }} />
+          <Box>
+            <Typography variant="h5" component="div" fontWeight="bold">
+              Import Residents
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.9 }}>
+              Add a resident class from a CSV file
+            </Typography>
+          </Box>
+        </Box>
+
+        <IconButton onClick={handleClose} disabled={importResidents.isPending}>
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        {!isComplete && (
+          <Box display="flex" alignItems="center" gap={2} flexWrap="wrap" sx={{ my: 2 }}>
+            <Button
+              variant="outlined"
+              startIcon={<DownloadIcon />}
+              href="/api/residents/import"
+              download="resident-import-template.csv"
+            >
+              Download Template
+            </Button>
+            <Button
+              variant="contained"
+              component="label"
+              startIcon={<UploadIcon />}
+              disabled={importResidents.isPending}
+            >
+              {fileName ? 'Choose Another File' : 'Choose CSV File'}
+              <input ref={fileInputRef} type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+            </Button>
+            {fileName && (
+              <Typography variant="body2" color="text.secondary">
+                {fileName}
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {!result && !error && !importResidents.isPending && (
+          <Typography variant="body2" color="text.secondary">
+            Fill in one resident per row using the template columns (up to {RESIDENT_IMPORT_MAX_ROWS} per file).
+            The file is checked first and nothing is created until you confirm the import. Each resident
+            receives an email invitation to set their password.
+          </Typography>
+        )}
+
+        {importResidents.isPending && (
+          <Box display="flex" alignItems="center" py={4} justifyContent="center">
+            <CircularProgress size={28} />
+            <Typography sx={{ ml: 2 }}>
+              {result ? 'Importing residents...' : 'Checking file...'}
+            </Typography>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {result && !importResidents.isPending && (
+          <>
+            {isComplete ? (
+              <Alert severity={result.failed > 0 ? 'warning' : 'success'} sx={{ mb: 2 }}>
+                Created {result.created} resident{result.created === 1 ? '' : 's'} and sent {result.invitationsSent} invitation
+                {result.invitationsSent === 1 ? '' : 's'}.
+                {result.failed > 0 && ` ${result.failed} row${result.failed === 1 ? '' : 's'} could not be imported.`}
+                {result.invalidRows > 0 && ` ${result.invalidRows} invalid row${result.invalidRows === 1 ? ' was' : 's were'} skipped.`}
+              </Alert>
+            ) : (
+              <Box display="flex" gap={1} sx={{ mb: 2 }}>
+                <Chip label={`${result.totalRows} rows`} size="small" />
+                <Chip label={`${result.validRows} ready`} color="success" size="small" />
+                {result.invalidRows > 0 && (
+                  <Chip label={`${result.invalidRows} with errors`} color="error" size="small" />
+                )}
+              </Box>
+            )}
+
+            {rows.length > 0 && (
+              <TableContainer sx={{ maxHeight: 400 }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>Name</TableCell>
+                      <TableCell>Email</TableCell>
+                      <TableCell>Status</TableCell>
+                      <TableCell>Errors</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {rows.map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>{row.name || '-'}</TableCell>
+                        <TableCell>{row.email || '-'}</TableCell>
+                        <TableCell>
+                          <Chip label={STATUS_LABELS[row.status]} color={STATUS_COLORS[row.status]} size="small" variant="outlined" />
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.map(rowError => (
+                            <Typography key={rowError} variant="caption" color="error" display="block">
+                              {rowError}
+                            </Typography>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            )}
+          </>
+        )}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 4, pb: 3 }}>
+        {isComplete ? (
+          <Button variant="contained" onClick={handleClose}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose} disabled={importResidents.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleImport}
+              disabled={!result || result.validRows === 0 || importResidents.isPending}
+            >
+              Import {result?.validRows ?? 0} Resident{result?.validRows === 1 ? '' : 's'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default ImportResidentsModal
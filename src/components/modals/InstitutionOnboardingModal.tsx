@@ -0,0 +1,339 @@
+/**
+ * EMMA Healthcare Institution Onboarding Modal
+ *
+ * Super-admin form for bringing a new program onto the platform: the
+ * institution, its default system settings and its first administrator,
+ * who is emailed a link to set their password.
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  CircularProgress,
+  FormControl,
+  Grid,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  Domain as DomainIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useOnboardInstitution } from '@/hooks/useInstitutions'
+import {
+  INSTITUTION_TYPES,
+  INSTITUTION_TYPE_LABELS,
+  InstitutionOnboardingRequest,
+  validateInstitutionOnboarding,
+} from '@/lib/institutions'
+import { RESIDENT_DEPARTMENTS } from '@/lib/resident-validation'
+import { Department } from '@/types/user'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 720,
+    width: '100%',
+    maxHeight: '90vh',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+const formatDepartmentName = (department: string): string =>
+  department.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+
+const EMPTY_REQUEST: InstitutionOnboardingRequest = {
+  name: '',
+  type: 'HOSPITAL',
+  address: { street: '', city: '', state: '', zipCode: '', country: 'USA' },
+  contactInfo: { phone: '', email: '', website: '' },
+  timezone: 'America/New_York',
+  activePrograms: [],
+  admin: { email: '', firstName: '', lastName: '' },
+}
+
+interface InstitutionOnboardingModalProps {
+  open: boolean
+  onClose: () => void
+  onOnboarded: React.Dispatch<string> // Receives the confirmation message
+}
+
+const InstitutionOnboardingModal: React.FC<InstitutionOnboardingModalProps> = ({ open, onClose, onOnboarded }) => {
+  const [request, setRequest] = useState<InstitutionOnboardingRequest>(EMPTY_REQUEST)
+  const [error, setError] = useState<string | null>(null)
+
+  const onboardInstitution = useOnboardInstitution()
+
+  // Start from a blank form each time the modal opens
+  useEffect(() => {
+    if (open) {
+      setRequest(EMPTY_REQUEST)
+      setError(null)
+    }
+  }, [open])
+
+  const updateSection = <K extends 'address' | 'contactInfo' | 'admin'>(
+    section: K,
+    field: keyof InstitutionOnboardingRequest[K],
+    value: string
+  ) => {
+    setRequest(prev => ({ ...prev, [section]: { ...prev[section], [field]: value } }))
+  }
+
+  const handleSubmit = async () => {
+    const payload: InstitutionOnboardingRequest = {
+      ...request,
+      contactInfo: { ...request.contactInfo, website: request.contactInfo.website?.trim() || undefined },
+    }
+
+    const validationError = validateInstitutionOnboarding(payload)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setError(null)
+    try {
+      const result = await onboardInstitution.mutateAsync(payload)
+      onOnboarded(result.message ?? 'Institution onboarded')
+    } catch (onboardError) {
+      setError(onboardError instanceof Error ? onboardError.message : 'Failed to onboard institution')
+    }
+  }
+
+  return (
+    <StyledDialog open={open} onClose={onClose} maxWidth={false}>
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={1}>
+          <DomainIcon />
+          <Typography variant="h6" fontWeight="bold">
+            Onboard Institution
+          </Typography>
+        </Box>
+        <IconButton onClick={onClose} aria-label="Close">
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ pt: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2, mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="subtitle2" fontWeight="bold" sx={{ mt: 2, mb: 1 }}>
+          Institution
+        </Typography>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={8}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Name"
+              value={request.name}
+              onChange={(e) => setRequest(prev => ({ ...prev, name: e.target.value }))}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Type</InputLabel>
+              <Select
+                value={request.type}
+                label="Type"
+                onChange={(e) => setRequest(prev => ({ ...prev, type: e.target.value as InstitutionOnboardingRequest['type'] }))}
+              >
+                {INSTITUTION_TYPES.map(type => (
+                  <MenuItem key={type} value={type}>{INSTITUTION_TYPE_LABELS[type]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+          <Grid item xs={12}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Street"
+              value={request.address.street}
+              onChange={(e) => updateSection('address', 'street', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="City"
+              value={request.address.city}
+              onChange={(e) => updateSection('address', 'city', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={6} md={2}>
+            <TextField
+              fullWidth
+              size="small"
+              label="State"
+              value={request.address.state}
+              onChange={(e) => updateSection('address', 'state', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={6} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              label="ZIP Code"
+              value={request.address.zipCode}
+              onChange={(e) => updateSection('address', 'zipCode', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={3}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Country"
+              value={request.address.country}
+              onChange={(e) => updateSection('address', 'country', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Phone"
+              value={request.contactInfo.phone}
+              onChange={(e) => updateSection('contactInfo', 'phone', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Contact Email"
+              type="email"
+              value={request.contactInfo.email}
+              onChange={(e) => updateSection('contactInfo', 'email', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Website (optional)"
+              value={request.contactInfo.website}
+              onChange={(e) => updateSection('contactInfo', 'website', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Timezone"
+              value={request.timezone}
+              onChange={(e) => setRequest(prev => ({ ...prev, timezone: e.target.value }))}
+            />
+          </Grid>
+          <Grid item xs={12} md={8}>
+            <FormControl fullWidth size="small">
+              <InputLabel>Programs</InputLabel>
+              <Select
+                multiple
+                label="Programs"
+                value={request.activePrograms}
+                onChange={(e) => setRequest(prev => ({ ...prev, activePrograms: e.target.value as Department[] }))}
+                renderValue={(selected) => selected.map(formatDepartmentName).join(', ')}
+              >
+                {RESIDENT_DEPARTMENTS.map(department => (
+                  <MenuItem key={department} value={department}>
+                    {formatDepartmentName(department)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        </Grid>
+
+        <Typography variant="subtitle2" fontWeight="bold" sx={{ mt: 3, mb: 1 }}>
+          First Administrator
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Gets the administrator role in the new institution only, and is emailed a link to set
+          their password.
+        </Typography>
+        <Grid container spacing={2}>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="First Name"
+              value={request.admin.firstName}
+              onChange={(e) => updateSection('admin', 'firstName', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Last Name"
+              value={request.admin.lastName}
+              onChange={(e) => updateSection('admin', 'lastName', e.target.value)}
+            />
+          </Grid>
+          <Grid item xs={12} md={4}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Email"
+              type="email"
+              value={request.admin.email}
+              onChange={(e) => updateSection('admin', 'email', e.target.value)}
+            />
+          </Grid>
+        </Grid>
+      </DialogContent>
+
+      <DialogActions sx={{ p: 3 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={handleSubmit}
+          disabled={onboardInstitution.isPending}
+          startIcon={onboardInstitution.isPending ? <CircularProgress size={16} /> : undefined}
+        >
+          Onboard Institution
+        </Button>
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default InstitutionOnboardingModal
@@ -0,0 +1,278 @@
+/**
+ * EMMA Healthcare MFA Enrolment Modal
+ *
+ * Adds an authenticator app to the signed-in account: scan the QR code,
+ * confirm with the first code, then save the one-time recovery codes.
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Checkbox,
+  CircularProgress,
+  FormControlLabel,
+  Stepper,
+  Step,
+  StepLabel,
+  TextField,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  Security as SecurityIcon,
+  ContentCopy as CopyIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useCompleteMfaEnrollment, useStartMfaEnrollment } from '@/hooks/useMfa'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 560,
+    width: '100%',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+const STEPS = ['Scan QR Code', 'Save Recovery Codes']
+
+interface MfaEnrollmentModalProps {
+  open: boolean
+  required?: boolean // Enrolment cannot be dismissed
+  onClose?: () => void
+  onEnrolled: () => void
+}
+
+const MfaEnrollmentModal: React.FC<MfaEnrollmentModalProps> = ({ open, required = false, onClose, onEnrolled }) => {
+  const [code, setCode] = useState('')
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [codesSaved, setCodesSaved] = useState(false)
+  const [copied, setCopied] = useState(false)
+
+  const startEnrollment = useStartMfaEnrollment()
+  const completeEnrollment = useCompleteMfaEnrollment()
+  const enrollment = startEnrollment.data
+
+  // A fresh secret each time the dialog opens
+  useEffect(() => {
+    if (open && !enrollment && !startEnrollment.isPending && !startEnrollment.isError) {
+      startEnrollment.mutate()
+    }
+  }, [open, enrollment, startEnrollment])
+
+  const handleClose = () => {
+    if (required || completeEnrollment.isPending) return
+    setCode('')
+    setRecoveryCodes(null)
+    setCodesSaved(false)
+    startEnrollment.reset()
+    completeEnrollment.reset()
+    onClose?.()
+  }
+
+  const handleVerify = async (event: React.FormEvent) => {
+    event.preventDefault()
+    try {
+      setRecoveryCodes(await completeEnrollment.mutateAsync(code.trim()))
+    } catch {
+      // Error shown from mutation state
+    }
+  }
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'))
+    setCopied(true)
+  }
+
+  const renderScanStep = () => {
+    if (startEnrollment.isError) {
+      return (
+        <Alert
+          severity="error"
+          action={<Button color="inherit" size="small" onClick={() => startEnrollment.reset()}>Retry</Button>}
+        >
+          {startEnrollment.error instanceof Error ? startEnrollment.error.message : 'Failed to start enrolment'}
+        </Alert>
+      )
+    }
+
+    if (!enrollment) {
+      return (
+        <Box display="flex" justifyContent="center" alignItems="center" py={6}>
+          <CircularProgress size={28} />
+          <Typography sx={{ ml: 2 }}>Generating your secret key...</Typography>
+        </Box>
+      )
+    }
+
+    return (
+      <Box component="form" id="mfa-verify-form" onSubmit={handleVerify}>
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          Scan this QR code with an authenticator app such as Google Authenticator, Microsoft
+          Authenticator or 1Password, then enter the 6-digit code it shows.
+        </Typography>
+
+        <Box textAlign="center" mb={2}>
+          <Box
+            component="img"
+            src={enrollment.qrCodeDataUrl}
+            alt="Authenticator QR code"
+            sx={{ width: 200, height: 200 }}
+          />
+        </Box>
+
+        <Typography variant="caption" color="text.secondary" display="block" textAlign="center" mb={3}>
+          Can&apos;t scan? Enter this key manually:{' '}
+          <Box component="span" fontFamily="monospace" fontWeight="bold" sx={{ wordBreak: 'break-all' }}>
+            {enrollment.secret}
+          </Box>
+        </Typography>
+
+        <TextField
+          fullWidth
+          label="Authentication Code"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          inputProps={{ inputMode: 'numeric', autoComplete: 'one-time-code', maxLength: 6 }}
+          autoFocus
+        />
+
+        {completeEnrollment.isError && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {completeEnrollment.error instanceof Error ? completeEnrollment.error.message : 'Failed to verify code'}
+          </Alert>
+        )}
+      </Box>
+    )
+  }
+
+  const renderRecoveryStep = () => (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 2 }}>
+        Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+        your device. They will not be shown again.
+      </Alert>
+
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: 'repeat(2, 1fr)',
+          gap: 1,
+          p: 2,
+          mb: 2,
+          bgcolor: 'grey.50',
+          borderRadius: 1,
+          fontFamily: 'monospace',
+          fontSize: '1rem',
+          textAlign: 'center',
+        }}
+      >
+        {recoveryCodes?.map(recoveryCode => (
+          <Box key={recoveryCode}>{recoveryCode}</Box>
+        ))}
+      </Box>
+
+      <Button startIcon={<CopyIcon />} onClick={handleCopyCodes} sx={{ mb: 1 }}>
+        {copied ? 'Copied' : 'Copy Codes'}
+      </Button>
+
+      <FormControlLabel
+        control={<Checkbox checked={codesSaved} onChange={(event) => setCodesSaved(event.target.checked)} />}
+        label="I have saved my recovery codes"
+        sx={{ display: 'flex' }}
+      />
+    </Box>
+  )
+
+  return (
+    <StyledDialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={2}>
+          <SecurityIcon sx={{ fontSize: 28 }} />
+          <Box>
+            <Typography variant="h5" component="div" fontWeight="bold">
+              Set Up Multi-Factor Authentication
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.9 }}>
+              {required
+                ? 'Your institution requires an authenticator app for your role'
+                : 'Protect your account with an authenticator app'}
+            </Typography>
+          </Box>
+        </Box>
+
+        {!required && (
+          <IconButton onClick={handleClose} disabled={completeEnrollment.isPending}>
+            <CloseIcon />
+          </IconButton>
+        )}
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        <Stepper activeStep={recoveryCodes ? 1 : 0} sx={{ my: 2 }}>
+          {STEPS.map(label => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {recoveryCodes ? renderRecoveryStep() : renderScanStep()}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 4, pb: 3 }}>
+        {recoveryCodes ? (
+          <Button variant="contained" onClick={onEnrolled} disabled={!codesSaved}>
+            Done
+          </Button>
+        ) : (
+          <>
+            {!required && (
+              <Button onClick={handleClose} disabled={completeEnrollment.isPending}>
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="submit"
+              form="mfa-verify-form"
+              variant="contained"
+              disabled={!enrollment || code.trim().length !== 6 || completeEnrollment.isPending}
+            >
+              {completeEnrollment.isPending ? 'Verifying...' : 'Verify & Enable'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default MfaEnrollmentModal
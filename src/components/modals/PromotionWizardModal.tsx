@@ -0,0 +1,494 @@
+/**
+ * EMMA Healthcare Promotion Wizard Modal
+ *
+ * Year-end academic rollover: review the proposed promotions and
+ * graduations, decide on residents held for standing review, then apply
+ * everything in one step.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stepper,
+  Step,
+  StepLabel,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  School as SchoolIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useApplyPromotions, usePromotionPlan } from '@/hooks/useResidents'
+import { formatDate, getAcademicYear } from '@/lib/date-utils'
+import {
+  PromotionAction,
+  PromotionDecision,
+  PromotionProposal,
+  PromotionResult,
+} from '@/lib/promotion'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 960,
+    width: '100%',
+    maxHeight: '90vh',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+const STEPS = ['Review Proposals', 'Standing Review', 'Confirm']
+
+const ACTION_LABELS: Record<PromotionAction, string> = {
+  PROMOTE: 'Promote',
+  GRADUATE: 'Graduate',
+  HOLD: 'Hold',
+}
+
+const ACTION_COLORS: Record<PromotionAction, 'success' | 'primary' | 'warning'> = {
+  PROMOTE: 'success',
+  GRADUATE: 'primary',
+  HOLD: 'warning',
+}
+
+interface PromotionWizardModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+/**
+ * Actions a coordinator may choose for a resident
+ */
+const getAllowedActions = (proposal: PromotionProposal): PromotionAction[] => {
+  if (proposal.standing === 'DISMISSED') return ['HOLD']
+
+  return proposal.currentPGYLevel >= proposal.totalPGYLevels
+    ? ['GRADUATE', 'HOLD']
+    : ['PROMOTE', 'HOLD']
+}
+
+const describeAction = (proposal: PromotionProposal, action: PromotionAction): string => {
+  if (action === 'PROMOTE') return `PGY-${proposal.currentPGYLevel} → PGY-${proposal.currentPGYLevel + 1}`
+  if (action === 'GRADUATE') return 'Graduates'
+  return `Stays PGY-${proposal.currentPGYLevel}`
+}
+
+const PromotionWizardModal: React.FC<PromotionWizardModalProps> = ({ open, onClose }) => {
+  const currentYear = getAcademicYear()
+  const previousYear = `${Number(currentYear.slice(0, 4)) - 1}-${currentYear.slice(0, 4)}`
+
+  const [academicYear, setAcademicYear] = useState(currentYear)
+  const [activeStep, setActiveStep] = useState(0)
+  const [actions, setActions] = useState<Record<string, PromotionAction>>({})
+  const [notes, setNotes] = useState<Record<string, string>>({})
+  const [result, setResult] = useState<PromotionResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const { data: plan, isLoading, error: planError } = usePromotionPlan(academicYear, open && !result)
+  const applyPromotions = useApplyPromotions()
+
+  const proposals = useMemo(() => plan?.proposals ?? [], [plan])
+  const reviewProposals = proposals.filter(proposal => proposal.requiresReview)
+  const unresolvedReviews = reviewProposals.filter(proposal => !actions[proposal.residentId])
+
+  // Review residents have no action until one is chosen explicitly
+  const getAction = (proposal: PromotionProposal): PromotionAction | undefined =>
+    actions[proposal.residentId] ?? (proposal.requiresReview ? undefined : proposal.proposedAction)
+
+  const counts = proposals.reduce((totals, proposal) => {
+    const action = getAction(proposal) ?? 'HOLD'
+    totals[action] += 1
+    return totals
+  }, { PROMOTE: 0, GRADUATE: 0, HOLD: 0 } as Record<PromotionAction, number>)
+
+  const reset = () => {
+    setActiveStep(0)
+    setActions({})
+    setNotes({})
+    setResult(null)
+    setError(null)
+  }
+
+  const handleClose = () => {
+    if (applyPromotions.isPending) return // Prevent closing while applying
+
+    reset()
+    setAcademicYear(currentYear)
+    onClose()
+  }
+
+  const handleYearChange = (year: string) => {
+    reset()
+    setAcademicYear(year)
+  }
+
+  const handleActionChange = (residentId: string, action: PromotionAction) => {
+    setActions(previous => ({ ...previous, [residentId]: action }))
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+
+    // Only overrides and explicit review decisions are sent; everyone else takes the proposal
+    const decisions: PromotionDecision[] = proposals
+      .filter(proposal => proposal.requiresReview || (actions[proposal.residentId] && actions[proposal.residentId] !== proposal.proposedAction))
+      .map(proposal => ({
+        residentId: proposal.residentId,
+        action: getAction(proposal) ?? 'HOLD',
+        note: notes[proposal.residentId]?.trim() || undefined,
+      }))
+
+    setError(null)
+    try {
+      setResult(await applyPromotions.mutateAsync({ academicYear: plan.academicYear, decisions }))
+    } catch (applyError) {
+      setError(applyError instanceof Error ? applyError.message : 'Failed to apply promotions')
+    }
+  }
+
+  const renderActionSelect = (proposal: PromotionProposal) => (
+    <FormControl size="small" sx={{ minWidth: 140 }}>
+      <Select
+        value={getAction(proposal) ?? ''}
+        displayEmpty
+        onChange={(event) => handleActionChange(proposal.residentId, event.target.value as PromotionAction)}
+      >
+        {proposal.requiresReview && (
+          <MenuItem value="" disabled>
+            Decide...
+          </MenuItem>
+        )}
+        {getAllowedActions(proposal).map(action => (
+          <MenuItem key={action} value={action}>
+            {ACTION_LABELS[action]}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  )
+
+  const renderContent = () => {
+    if (result) {
+      const unsynced = result.rows.filter(row => !row.claimsSynced)
+
+      return (
+        <>
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {result.academicYear} rollover complete: promoted {result.promoted}, graduated {result.graduated} and
+            held {result.held} resident{result.held === 1 ? '' : 's'}.
+          </Alert>
+          {unsynced.length > 0 && (
+            <Alert severity="warning">
+              Sign-in access could not be updated for {unsynced.map(row => row.name).join(', ')}. Their records were
+              updated; their access will refresh the next time they sign in.
+            </Alert>
+          )}
+        </>
+      )
+    }
+
+    if (isLoading) {
+      return (
+        <Box display="flex" alignItems="center" py={4} justifyContent="center">
+          <CircularProgress size={28} />
+          <Typography sx={{ ml: 2 }}>Preparing promotion plan...</Typography>
+        </Box>
+      )
+    }
+
+    if (planError) {
+      return (
+        <Alert severity="error">
+          {planError instanceof Error ? planError.message : 'Failed to load promotion plan'}
+        </Alert>
+      )
+    }
+
+    if (!plan) return null
+
+    if (proposals.length === 0) {
+      return (
+        <Alert severity="info">
+          {plan.completedResidentIds.length > 0
+            ? `All residents have already been processed for ${plan.academicYear}.`
+            : 'There are no active residents to promote.'}
+        </Alert>
+      )
+    }
+
+    if (activeStep === 0) {
+      return (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            New PGY levels take effect on {formatDate(plan.effectiveDate)}. Residents on probation or remediation are
+            held for review in the next step.
+            {plan.completedResidentIds.length > 0 &&
+              ` ${plan.completedResidentIds.length} resident${plan.completedResidentIds.length === 1 ? ' was' : 's were'} already processed for this year.`}
+          </Typography>
+          <TableContainer sx={{ maxHeight: 420 }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Resident</TableCell>
+                  <TableCell>Current</TableCell>
+                  <TableCell>Standing</TableCell>
+                  <TableCell>Proposal</TableCell>
+                  <TableCell>Action</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {proposals.map(proposal => (
+                  <TableRow key={proposal.residentId}>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{proposal.name}</Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {proposal.totalPGYLevels}-year program{!proposal.hasProfile && ' (department default)'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>PGY-{proposal.currentPGYLevel}</TableCell>
+                    <TableCell>
+                      <Chip
+                        label={proposal.standing}
+                        size="small"
+                        color={proposal.standing === 'GOOD' ? 'default' : 'warning'}
+                        variant="outlined"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{proposal.reason}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      {proposal.requiresReview ? (
+                        <Chip label="Needs review" size="small" color="warning" />
+                      ) : renderActionSelect(proposal)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )
+    }
+
+    if (activeStep === 1) {
+      if (reviewProposals.length === 0) {
+        return (
+          <Alert severity="success">
+            No residents are on probation or remediation. Continue to confirm the rollover.
+          </Alert>
+        )
+      }
+
+      return (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Choose an outcome for each resident on probation or remediation. The note is kept with the promotion
+            record.
+          </Typography>
+          {reviewProposals.map(proposal => (
+            <Box
+              key={proposal.residentId}
+              display="flex"
+              alignItems="flex-start"
+              gap={2}
+              sx={{ py: 2, borderBottom: 1, borderColor: 'divider' }}
+            >
+              <Box flex={1}>
+                <Typography variant="body2" fontWeight="medium">{proposal.name}</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  PGY-{proposal.currentPGYLevel} · {proposal.standing}
+                </Typography>
+              </Box>
+              {renderActionSelect(proposal)}
+              <TextField
+                size="small"
+                label="Review note"
+                value={notes[proposal.residentId] ?? ''}
+                onChange={(event) => setNotes(previous => ({ ...previous, [proposal.residentId]: event.target.value }))}
+                sx={{ flex: 2 }}
+              />
+            </Box>
+          ))}
+        </>
+      )
+    }
+
+    return (
+      <>
+        <Box display="flex" gap={1} sx={{ mb: 2 }}>
+          {(Object.keys(counts) as PromotionAction[]).map(action => (
+            <Chip
+              key={action}
+              label={`${counts[action]} ${ACTION_LABELS[action].toLowerCase()}`}
+              color={ACTION_COLORS[action]}
+              size="small"
+            />
+          ))}
+        </Box>
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Applying updates every resident listed below at once. Graduates are marked inactive and lose sign-in
+          access. This cannot be undone from this screen.
+        </Alert>
+        <TableContainer sx={{ maxHeight: 320 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Resident</TableCell>
+                <TableCell>Outcome</TableCell>
+                <TableCell>Change</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {proposals.map(proposal => {
+                const action = getAction(proposal) ?? 'HOLD'
+                return (
+                  <TableRow key={proposal.residentId}>
+                    <TableCell>{proposal.name}</TableCell>
+                    <TableCell>
+                      <Chip label={ACTION_LABELS[action]} color={ACTION_COLORS[action]} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell>{describeAction(proposal, action)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </>
+    )
+  }
+
+  const canContinue = !!plan && proposals.length > 0 && (activeStep !== 1 || unresolvedReviews.length === 0)
+
+  return (
+    <StyledDialog open={open} onClose={handleClose} maxWidth="lg" fullWidth>
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={2}>
+          <SchoolIcon sx={{ fontSize: 28 }} />
+          <Box>
+            <Typography variant="h5" component="div" fontWeight="bold">
+              Year-End Promotions
+            </Typography>
+            <Typography variant="body2" sx={{ opacity: 0.9 }}>
+              Advance PGY levels and graduate the final-year class
+            </Typography>
+          </Box>
+        </Box>
+
+        <IconButton onClick={handleClose} disabled={applyPromotions.isPending}>
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ p: 4 }}>
+        {!result && (
+          <Box display="flex" alignItems="center" gap={3} sx={{ my: 2 }}>
+            <FormControl size="small" sx={{ minWidth: 200 }} disabled={activeStep > 0 || applyPromotions.isPending}>
+              <InputLabel>Closing Academic Year</InputLabel>
+              <Select
+                value={academicYear}
+                label="Closing Academic Year"
+                onChange={(event) => handleYearChange(event.target.value)}
+              >
+                <MenuItem value={currentYear}>{currentYear}</MenuItem>
+                <MenuItem value={previousYear}>{previousYear}</MenuItem>
+              </Select>
+            </FormControl>
+            <Stepper activeStep={activeStep} sx={{ flex: 1 }}>
+              {STEPS.map(label => (
+                <Step key={label}>
+                  <StepLabel>{label}</StepLabel>
+                </Step>
+              ))}
+            </Stepper>
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {renderContent()}
+      </DialogContent>
+
+      <DialogActions sx={{ px: 4, pb: 3 }}>
+        {result ? (
+          <Button variant="contained" onClick={handleClose}>
+            Done
+          </Button>
+        ) : (
+          <>
+            <Button onClick={handleClose} disabled={applyPromotions.isPending}>
+              Cancel
+            </Button>
+            {activeStep > 0 && (
+              <Button onClick={() => setActiveStep(step => step - 1)} disabled={applyPromotions.isPending}>
+                Back
+              </Button>
+            )}
+            {activeStep < STEPS.length - 1 ? (
+              <Button variant="contained" onClick={() => setActiveStep(step => step + 1)} disabled={!canContinue}>
+                Next
+              </Button>
+            ) : (
+              <Button
+                variant="contained"
+                onClick={handleApply}
+                disabled={!canContinue || unresolvedReviews.length > 0 || applyPromotions.isPending}
+                startIcon={applyPromotions.isPending ? <CircularProgress size={16} color="inherit" /> : undefined}
+              >
+                {applyPromotions.isPending ? 'Applying...' : 'Apply Promotions'}
+              </Button>
+            )}
+          </>
+        )}
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default PromotionWizardModal
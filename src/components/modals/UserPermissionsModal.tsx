@@ -0,0 +1,286 @@
+/**
+ * EMMA Healthcare User Permissions Modal
+ *
+ * Shows a user's effective permissions - role defaults, per-user overrides
+ * and department-scoped grants - and lets system administrators change the
+ * overrides and grants.
+ */
+
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  IconButton,
+  Typography,
+  Box,
+  Alert,
+  Button,
+  Chip,
+  CircularProgress,
+  FormControl,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material'
+import {
+  Close as CloseIcon,
+  AdminPanelSettings as PermissionsIcon,
+} from '@mui/icons-material'
+import { styled } from '@mui/material/styles'
+import { useUpdateUserPermissions } from '@/hooks/useUsers'
+import {
+  DEPARTMENT_SCOPED_PERMISSIONS,
+  OVERRIDABLE_PERMISSIONS,
+  describeEffectivePermissions,
+} from '@/lib/permissions'
+import { RESIDENT_DEPARTMENTS } from '@/lib/resident-validation'
+import { ROLE_LABELS } from '@/lib/user-management'
+import { ExtendedUser } from '@/types/database'
+import { Department, DepartmentPermissions, PermissionKey, UserPermissions } from '@/types/user'
+
+const StyledDialog = styled(Dialog)(({ theme }) => ({
+  '& .MuiDialog-paper': {
+    borderRadius: 16,
+    maxWidth: 880,
+    width: '100%',
+    margin: theme.spacing(2),
+    boxShadow: '0 20px 60px rgba(0, 0, 0, 0.15)',
+  },
+}))
+
+const StyledDialogTitle = styled(DialogTitle)(({ theme }) => ({
+  background: `linear-gradient(135deg, ${theme.palette.primary.main} 0%, ${theme.palette.primary.dark} 100%)`,
+  color: '#ffffff',
+  padding: theme.spacing(3),
+  position: 'relative',
+  '& .MuiIconButton-root': {
+    position: 'absolute',
+    right: theme.spacing(2),
+    top: '50%',
+    transform: 'translateY(-50%)',
+    color: '#ffffff',
+    '&:hover': {
+      backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    },
+  },
+}))
+
+type OverrideChoice = 'default' | 'grant' | 'deny'
+
+const formatDepartmentName = (department: string): string =>
+  department.split('_').map(word => word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+
+interface UserPermissionsModalProps {
+  open: boolean
+  user: ExtendedUser | null
+  canEdit: boolean // Only system administrators change permissions
+  onClose: () => void
+  onSaved: React.Dispatch<string> // Receives the confirmation message
+}
+
+const UserPermissionsModal: React.FC<UserPermissionsModalProps> = ({ open, user, canEdit, onClose, onSaved }) => {
+  const [overrides, setOverrides] = useState<Partial<UserPermissions>>({})
+  const [departmentPermissions, setDepartmentPermissions] = useState<DepartmentPermissions>({})
+  const [error, setError] = useState<string | null>(null)
+
+  const updatePermissions = useUpdateUserPermissions()
+
+  // Start from the stored overrides each time the modal opens
+  useEffect(() => {
+    if (open && user) {
+      setOverrides(user.permissionOverrides ?? {})
+      setDepartmentPermissions(user.departmentPermissions ?? {})
+      setError(null)
+    }
+  }, [open, user])
+
+  const effectivePermissions = useMemo(
+    () => user ? describeEffectivePermissions({ role: user.role, permissionOverrides: overrides, departmentPermissions }) : [],
+    [user, overrides, departmentPermissions]
+  )
+
+  const handleOverrideChange = (permission: PermissionKey, choice: OverrideChoice) => {
+    setOverrides(prev => {
+      const next = { ...prev }
+      if (choice === 'default') {
+        delete next[permission]
+      } else {
+        next[permission] = choice === 'grant'
+      }
+      return next
+    })
+  }
+
+  const handleDepartmentsChange = (permission: PermissionKey, departments: Department[]) => {
+    setDepartmentPermissions(prev => ({ ...prev, [permission]: departments }))
+  }
+
+  const handleSave = async () => {
+    if (!user) return
+    setError(null)
+    try {
+      const result = await updatePermissions.mutateAsync({
+        userId: user.id,
+        permissionOverrides: overrides,
+        departmentPermissions,
+      })
+      onSaved(result.message ?? 'Permissions updated')
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to update permissions')
+    }
+  }
+
+  const renderEffective = (granted: boolean, departments: Department[]) => {
+    if (granted) return <Chip label="All departments" color="success" size="small" />
+    if (departments.length > 0) {
+      return (
+        <Chip
+          label={`${departments.length} department${departments.length === 1 ? '' : 's'}`}
+          color="info"
+          size="small"
+          title={departments.map(formatDepartmentName).join(', ')}
+        />
+      )
+    }
+    return <Chip label="None" size="small" variant="outlined" />
+  }
+
+  return (
+    <StyledDialog open={open} onClose={onClose} maxWidth={false}>
+      <StyledDialogTitle>
+        <Box display="flex" alignItems="center" gap={1}>
+          <PermissionsIcon />
+          <Box>
+            <Typography variant="h6" fontWeight="bold">
+              Permissions
+            </Typography>
+            {user && (
+              <Typography variant="body2" sx={{ opacity: 0.9 }}>
+                {user.firstName} {user.lastName} · {ROLE_LABELS[user.role]}
+              </Typography>
+            )}
+          </Box>
+        </Box>
+        <IconButton onClick={onClose} aria-label="Close">
+          <CloseIcon />
+        </IconButton>
+      </StyledDialogTitle>
+
+      <DialogContent sx={{ pt: 3 }}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mt: 2, mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2, mb: 2 }}>
+          Overrides replace the {user ? ROLE_LABELS[user.role].toLowerCase() : 'role'} defaults. Department
+          grants give a permission only for users and residents in the chosen departments.
+        </Typography>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Permission</TableCell>
+                <TableCell>Role Default</TableCell>
+                <TableCell>Override</TableCell>
+                <TableCell>Department Grants</TableCell>
+                <TableCell>Effective</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {effectivePermissions.map(({ permission, label, roleDefault, override, granted, departments }) => {
+                const overridable = OVERRIDABLE_PERMISSIONS.includes(permission)
+                const departmentScoped = DEPARTMENT_SCOPED_PERMISSIONS.includes(permission)
+                const choice: OverrideChoice = override === undefined ? 'default' : override ? 'grant' : 'deny'
+
+                return (
+                  <TableRow key={permission} hover>
+                    <TableCell>
+                      <Typography variant="body2" fontWeight="medium">{label}</Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Typography variant="body2" color="text.secondary">
+                        {roleDefault ? 'Allowed' : 'Not allowed'}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      {overridable ? (
+                        <FormControl size="small" sx={{ minWidth: 140 }}>
+                          <Select
+                            value={choice}
+                            disabled={!canEdit}
+                            onChange={(e) => handleOverrideChange(permission, e.target.value as OverrideChoice)}
+                          >
+                            <MenuItem value="default">Role default</MenuItem>
+                            <MenuItem value="grant">Allow</MenuItem>
+                            <MenuItem value="deny">Deny</MenuItem>
+                          </Select>
+                        </FormControl>
+                      ) : (
+                        <Typography variant="caption" color="text.secondary">
+                          Administrator role only
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {departmentScoped ? (
+                        <FormControl size="small" sx={{ minWidth: 200, maxWidth: 240 }}>
+                          <Select
+                            multiple
+                            displayEmpty
+                            value={departmentPermissions[permission] ?? []}
+                            disabled={!canEdit || granted}
+                            onChange={(e) => handleDepartmentsChange(permission, e.target.value as Department[])}
+                            renderValue={(selected) => selected.length === 0
+                              ? <Typography variant="body2" color="text.secondary">None</Typography>
+                              : selected.map(formatDepartmentName).join(', ')}
+                          >
+                            {RESIDENT_DEPARTMENTS.map(department => (
+                              <MenuItem key={department} value={department}>
+                                {formatDepartmentName(department)}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      ) : (
+                        <Typography variant="caption" color="text.secondary">—</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>{renderEffective(granted, departments)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </DialogContent>
+
+      <DialogActions sx={{ p: 3 }}>
+        <Button onClick={onClose}>{canEdit ? 'Cancel' : 'Close'}</Button>
+        {canEdit && (
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={updatePermissions.isPending}
+            startIcon={updatePermissions.isPending ? <CircularProgress size={16} /> : undefined}
+          >
+            Save Permissions
+          </Button>
+        )}
+      </DialogActions>
+    </StyledDialog>
+  )
+}
+
+export default UserPermissionsModal
@@ -0,0 +1,61 @@
+/**
+ * EMMA Healthcare Analytics Hooks
+ *
+ * React Query hooks for class-level evaluation analytics.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import type { AnalyticsTimeRange, ClassAnalyticsReport } from '@/lib/analytics'
+
+interface AnalyticsQueryParams {
+  range: AnalyticsTimeRange
+  from?: string // yyyy-MM-dd, custom range only
+  to?: string
+}
+
+interface AnalyticsResponse {
+  success: boolean
+  analytics?: ClassAnalyticsReport
+  error?: string
+}
+
+/**
+ * Fetch class analytics from API
+ */
+const fetchClassAnalytics = async (params: AnalyticsQueryParams): Promise<ClassAnalyticsReport> => {
+  const searchParams = new URLSearchParams({ range: params.range })
+
+  if (params.range === 'custom') {
+    if (params.from) searchParams.set('from', params.from)
+    if (params.to) searchParams.set('to', params.to)
+  }
+
+  const response = await fetch(`/api/analytics?${searchParams.toString()}`)
+  const data: AnalyticsResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.analytics) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.analytics
+}
+
+/**
+ * Hook to fetch class analytics for a time range. A custom range waits until
+ * both dates are chosen.
+ */
+export const useClassAnalytics = (params: AnalyticsQueryParams) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['class-analytics', params],
+    queryFn: () => fetchClassAnalytics(params),
+    enabled: !!session?.user?.institutionId &&
+      !!session.user.permissions?.canAccessReports &&
+      (params.range !== 'custom' || (!!params.from && !!params.to)),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 1,
+  })
+}
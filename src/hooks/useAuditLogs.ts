@@ -0,0 +1,111 @@
+/**
+ * EMMA Healthcare Audit Log Hooks
+ *
+ * React Query hooks for browsing the HIPAA audit log page by page and
+ * verifying its hash chain.
+ */
+
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import type { AuditExportFormat, AuditLogFilters, AuditLogPage } from '@/lib/audit-log'
+import type { AuditChainVerification } from '@/lib/audit-chain'
+
+interface AuditLogsResponse extends Partial<AuditLogPage> {
+  success: boolean
+  error?: string
+}
+
+interface VerifyAuditChainResponse {
+  success: boolean
+  verification?: AuditChainVerification
+  error?: string
+}
+
+/**
+ * Query string for audit filters (shared by the list and export URLs)
+ */
+const toAuditSearchParams = (filters: AuditLogFilters, includePhi: boolean): URLSearchParams => {
+  const searchParams = new URLSearchParams()
+
+  Object.entries(filters).forEach(([name, value]) => {
+    if (value !== undefined && value !== '') searchParams.set(name, String(value))
+  })
+  if (includePhi) searchParams.set('includePhi', 'true')
+
+  return searchParams
+}
+
+/**
+ * Download URL for an audit export with the current filters
+ */
+export const getAuditExportUrl = (
+  filters: AuditLogFilters,
+  exportFormat: AuditExportFormat,
+  includePhi: boolean
+): string => {
+  const searchParams = toAuditSearchParams(filters, includePhi)
+  searchParams.set('format', exportFormat)
+  return `/api/audit/export?${searchParams.toString()}`
+}
+
+/**
+ * Fetch one page of audit entries from API
+ */
+const fetchAuditLogs = async (
+  filters: AuditLogFilters,
+  includePhi: boolean,
+  cursor?: string
+): Promise<AuditLogPage> => {
+  const searchParams = toAuditSearchParams(filters, includePhi)
+  if (cursor) searchParams.set('cursor', cursor)
+
+  const response = await fetch(`/api/audit?${searchParams.toString()}`)
+  const data: AuditLogsResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.entries) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return { entries: data.entries, nextCursor: data.nextCursor ?? null }
+}
+
+/**
+ * Run audit chain verification
+ */
+const verifyAuditChain = async (): Promise<AuditChainVerification> => {
+  const response = await fetch('/api/audit/verify')
+  const data: VerifyAuditChainResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.verification) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.verification
+}
+
+/**
+ * Hook to browse audit entries newest first, loading further pages on demand
+ */
+export const useAuditLogs = (filters: AuditLogFilters, includePhi: boolean) => {
+  const { data: session } = useSession()
+
+  return useInfiniteQuery({
+    queryKey: ['audit-logs', filters, includePhi],
+    queryFn: ({ pageParam }) => fetchAuditLogs(filters, includePhi, pageParam),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!session?.user?.permissions?.canViewAuditLogs,
+    staleTime: 60 * 1000, // 1 minute - every fetch writes an audit entry
+    gcTime: 5 * 60 * 1000, // 5 minutes cache
+    retry: 1,
+  })
+}
+
+/**
+ * Hook to verify the institution's audit chain on demand
+ */
+export const useVerifyAuditChain = () => {
+  return useMutation({
+    mutationFn: verifyAuditChain,
+  })
+}
@@ -0,0 +1,121 @@
+/**
+ * EMMA Healthcare Dashboard Hooks
+ *
+ * Dashboard summary metrics from the API, and the activity feed kept live
+ * with a Firestore listener.
+ */
+
+import { useEffect, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore'
+import { db } from '@/lib/firebase'
+import { ensureFirebaseSession } from '@/lib/firebase-session'
+import { ACTIVITY_FEED_LIMIT, getViewerAudience } from '@/lib/activity-feed'
+import type { DashboardSummary } from '@/lib/dashboard'
+import { ActivityFeedEntry, COLLECTIONS } from '@/types/database'
+
+interface DashboardSummaryResponse {
+  success: boolean
+  summary?: DashboardSummary
+  error?: string
+}
+
+/**
+ * Fetch the dashboard summary from API
+ */
+const fetchDashboardSummary = async (): Promise<DashboardSummary> => {
+  const response = await fetch('/api/dashboard/summary')
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: DashboardSummaryResponse = await response.json()
+
+  if (!data.success || !data.summary) {
+    throw new Error(data.error || 'Failed to load dashboard summary')
+  }
+
+  return data.summary
+}
+
+/**
+ * Hook to fetch the dashboard summary metrics
+ */
+export const useDashboardSummary = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['dashboard-summary'],
+    queryFn: fetchDashboardSummary,
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to subscribe to the activity feed entries the viewer may see,
+ * newest first
+ */
+export const useActivityFeed = () => {
+  const { data: session } = useSession()
+  const userId = session?.user?.id
+  const role = session?.user?.role
+  const institutionId = session?.user?.institutionId
+
+  const [activities, setActivities] = useState<ActivityFeedEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    if (!userId || !role || !institutionId) return
+
+    let unsubscribe: (() => void) | undefined
+    let cancelled = false
+
+    setIsLoading(true)
+    setError(null)
+
+    ensureFirebaseSession(userId)
+      .then(() => {
+        if (cancelled) return
+
+        const feedQuery = query(
+          collection(db, COLLECTIONS.ACTIVITY_FEED),
+          where('institutionId', '==', institutionId),
+          where('audience', 'array-contains-any', getViewerAudience(role, userId)),
+          orderBy('timestamp', 'desc'),
+          limit(ACTIVITY_FEED_LIMIT)
+        )
+
+        unsubscribe = onSnapshot(
+          feedQuery,
+          (snapshot) => {
+            setActivities(snapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as ActivityFeedEntry)))
+            setIsLoading(false)
+          },
+          (snapshotError) => {
+            console.error('[EMMA] Activity feed listener failed:', snapshotError)
+            setError(snapshotError)
+            setIsLoading(false)
+          }
+        )
+      })
+      .catch((sessionError: Error) => {
+        if (cancelled) return
+        console.error('[EMMA] Activity feed session failed:', sessionError)
+        setError(sessionError)
+        setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [userId, role, institutionId])
+
+  return { activities, isLoading, error }
+}
@@ -0,0 +1,154 @@
+/**
+ * EMMA Healthcare Duty Hours Hooks
+ *
+ * React Query hooks for logged shifts and the ACGME duty-hour
+ * compliance report.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { DutyShift } from '@/types/database'
+import { Department } from '@/types/user'
+import type { DutyHoursComplianceReport } from '@/lib/duty-hours'
+import type { DutyShiftRequest } from '@/lib/duty-hours-validation'
+
+interface DutyShiftsQueryParams {
+  residentId?: string
+  from?: string // ISO date
+  to?: string // ISO date
+}
+
+interface ComplianceQueryParams extends DutyShiftsQueryParams {
+  department?: Department
+}
+
+interface DutyShiftsResponse {
+  success: boolean
+  shifts: DutyShift[]
+  total: number
+  error?: string
+}
+
+interface ComplianceReportResponse {
+  success: boolean
+  report: DutyHoursComplianceReport
+  error?: string
+}
+
+interface LogDutyShiftResponse {
+  success: boolean
+  message?: string
+  shift?: DutyShift
+  error?: string
+}
+
+const buildSearchParams = (params: ComplianceQueryParams): string => {
+  const searchParams = new URLSearchParams()
+
+  if (params.residentId) searchParams.set('residentId', params.residentId)
+  if (params.department) searchParams.set('department', params.department)
+  if (params.from) searchParams.set('from', params.from)
+  if (params.to) searchParams.set('to', params.to)
+
+  return searchParams.toString()
+}
+
+/**
+ * Fetch logged shifts from API
+ */
+const fetchDutyShifts = async (params: DutyShiftsQueryParams): Promise<DutyShift[]> => {
+  const response = await fetch(`/api/duty-hours?${buildSearchParams(params)}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: DutyShiftsResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch duty shifts')
+  }
+
+  return data.shifts
+}
+
+/**
+ * Fetch the duty-hour compliance report from API
+ */
+const fetchComplianceReport = async (params: ComplianceQueryParams): Promise<DutyHoursComplianceReport> => {
+  const response = await fetch(`/api/duty-hours/compliance?${buildSearchParams(params)}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: ComplianceReportResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch compliance report')
+  }
+
+  return data.report
+}
+
+/**
+ * Hook to fetch logged shifts
+ */
+export const useDutyShifts = (params: DutyShiftsQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['duty-hours', 'shifts', params],
+    queryFn: () => fetchDutyShifts(params),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 300 * 1000, // 5 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to fetch the ACGME duty-hour compliance report
+ */
+export const useDutyHoursCompliance = (params: ComplianceQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['duty-hours', 'compliance', params],
+    queryFn: () => fetchComplianceReport(params),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 1,
+  })
+}
+
+/**
+ * Hook to log an actual worked shift
+ */
+export const useLogDutyShift = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (shift: DutyShiftRequest): Promise<LogDutyShiftResponse> => {
+      const response = await fetch('/api/duty-hours', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(shift),
+      })
+
+      const data: LogDutyShiftResponse = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return data
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['duty-hours'] })
+    },
+  })
+}
@@ -0,0 +1,128 @@
+/**
+ * EMMA Healthcare Evaluation Template Hooks
+ *
+ * React Query hooks for listing, publishing and retiring versioned
+ * evaluation form templates.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { Evaluation, EvaluationTemplate } from '@/types/database'
+import type { EvaluationTemplateRequest } from '@/lib/evaluation-templates'
+
+interface TemplatesQueryParams {
+  type?: Evaluation['type']
+  includeRetired?: boolean
+}
+
+interface TemplatesResponse {
+  success: boolean
+  templates: EvaluationTemplate[]
+  total: number
+  error?: string
+}
+
+interface TemplateMutationResponse {
+  success: boolean
+  message?: string
+  template?: EvaluationTemplate
+  error?: string
+}
+
+/**
+ * Fetch evaluation templates from API
+ */
+const fetchTemplates = async (params: TemplatesQueryParams): Promise<EvaluationTemplate[]> => {
+  const searchParams = new URLSearchParams()
+
+  if (params.type) searchParams.set('type', params.type)
+  if (params.includeRetired) searchParams.set('includeRetired', 'true')
+
+  const response = await fetch(`/api/evaluation-templates?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: TemplatesResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch evaluation templates')
+  }
+
+  return data.templates
+}
+
+/**
+ * Hook to fetch evaluation templates. Retired versions are needed to render
+ * evaluations created from an older version.
+ */
+export const useEvaluationTemplates = (params: TemplatesQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['evaluation-templates', params],
+    queryFn: () => fetchTemplates(params),
+    enabled: !!session?.user?.institutionId &&
+      !!(session.user.permissions?.canViewAllEvaluations || session.user.permissions?.canCreateEvaluations),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to create a template or publish a new version of one
+ */
+export const usePublishEvaluationTemplate = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (template: EvaluationTemplateRequest): Promise<TemplateMutationResponse> => {
+      const response = await fetch('/api/evaluation-templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(template),
+      })
+
+      const data: TemplateMutationResponse = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return data
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluation-templates'] })
+    },
+  })
+}
+
+/**
+ * Hook to retire a template version
+ */
+export const useRetireEvaluationTemplate = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (templateId: string): Promise<TemplateMutationResponse> => {
+      const response = await fetch(`/api/evaluation-templates/${templateId}`, {
+        method: 'DELETE',
+      })
+
+      const data: TemplateMutationResponse = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      return data
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluation-templates'] })
+    },
+  })
+}
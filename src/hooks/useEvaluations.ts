@@ -0,0 +1,161 @@
+/**
+ * EMMA Healthcare Evaluations Hooks
+ *
+ * React Query hooks for listing, drafting and moving evaluations through
+ * the review workflow.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { Evaluation } from '@/types/database'
+import type { EvaluationAction, EvaluationRequest, EvaluationWithStatus } from '@/lib/evaluation-workflow'
+
+interface EvaluationsQueryParams {
+  residentId?: string
+  evaluatorId?: string
+  status?: Evaluation['status']
+  type?: Evaluation['type']
+  overdue?: boolean
+}
+
+interface EvaluationsResponse {
+  success: boolean
+  evaluations: EvaluationWithStatus[]
+  total: number
+  error?: string
+}
+
+interface EvaluationMutationResponse {
+  success: boolean
+  message?: string
+  evaluation?: EvaluationWithStatus
+  error?: string
+}
+
+/**
+ * Fetch evaluations from API
+ */
+const fetchEvaluations = async (params: EvaluationsQueryParams): Promise<EvaluationWithStatus[]> => {
+  const searchParams = new URLSearchParams()
+
+  if (params.residentId) searchParams.set('residentId', params.residentId)
+  if (params.evaluatorId) searchParams.set('evaluatorId', params.evaluatorId)
+  if (params.status) searchParams.set('status', params.status)
+  if (params.type) searchParams.set('type', params.type)
+  if (params.overdue) searchParams.set('overdue', 'true')
+
+  const response = await fetch(`/api/evaluations?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: EvaluationsResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch evaluations')
+  }
+
+  return data.evaluations
+}
+
+/**
+ * Send a JSON request to an evaluation endpoint and unwrap the response
+ */
+const sendEvaluationRequest = async (
+  url: string,
+  method: 'POST' | 'PATCH',
+  body: unknown
+): Promise<EvaluationMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  })
+
+  const data: EvaluationMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch evaluations visible to the current user
+ */
+export const useEvaluations = (params: EvaluationsQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['evaluations', params],
+    queryFn: () => fetchEvaluations(params),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 300 * 1000, // 5 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to draft a new evaluation
+ */
+export const useCreateEvaluation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (evaluation: EvaluationRequest) =>
+      sendEvaluationRequest('/api/evaluations', 'POST', evaluation),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluations'] })
+    },
+  })
+}
+
+/**
+ * Hook to edit a draft evaluation
+ */
+export const useUpdateEvaluation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<EvaluationRequest> }) =>
+      sendEvaluationRequest(`/api/evaluations/${id}`, 'PATCH', updates),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluations'] })
+    },
+  })
+}
+
+/**
+ * Hook to submit, return, review, approve or archive an evaluation
+ */
+export const useTransitionEvaluation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: EvaluationAction }) =>
+      sendEvaluationRequest(`/api/evaluations/${id}/transition`, 'POST', { action }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluations'] })
+    },
+  })
+}
+
+/**
+ * Hook for a resident to acknowledge a finalized evaluation
+ */
+export const useAcknowledgeEvaluation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, comments }: { id: string; comments: string }) =>
+      sendEvaluationRequest(`/api/evaluations/${id}/acknowledge`, 'POST', { comments }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['evaluations'] })
+    },
+  })
+}
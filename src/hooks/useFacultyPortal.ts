@@ -0,0 +1,93 @@
+/**
+ * EMMA Healthcare Faculty Portal Hooks
+ *
+ * React Query hooks for the signed-in faculty member's portal and the
+ * faculty evaluation workload coordinators review.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { FacultyPortal, FacultyWorkloadEntry, canViewFacultyWorkload } from '@/lib/faculty-portal'
+
+interface FacultyPortalResponse {
+  success: boolean
+  portal?: FacultyPortal
+  error?: string
+}
+
+interface FacultyWorkloadResponse {
+  success: boolean
+  workload?: FacultyWorkloadEntry[]
+  error?: string
+}
+
+/**
+ * Fetch the faculty portal from API
+ */
+const fetchFacultyPortal = async (): Promise<FacultyPortal> => {
+  const response = await fetch('/api/faculty/me')
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: FacultyPortalResponse = await response.json()
+
+  if (!data.success || !data.portal) {
+    throw new Error(data.error || 'Failed to load faculty portal')
+  }
+
+  return data.portal
+}
+
+/**
+ * Fetch the faculty workload from API
+ */
+const fetchFacultyWorkload = async (): Promise<FacultyWorkloadEntry[]> => {
+  const response = await fetch('/api/faculty/workload')
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: FacultyWorkloadResponse = await response.json()
+
+  if (!data.success || !data.workload) {
+    throw new Error(data.error || 'Failed to load faculty workload')
+  }
+
+  return data.workload
+}
+
+/**
+ * Hook to fetch the signed-in faculty member's portal. Shares the
+ * 'evaluations' key prefix so evaluation mutations refresh it.
+ */
+export const useFacultyPortal = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['evaluations', 'faculty-portal'],
+    queryFn: fetchFacultyPortal,
+    enabled: session?.user?.role === 'FACULTY' && !!session.user.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to fetch open evaluations per evaluator
+ */
+export const useFacultyWorkload = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['evaluations', 'faculty-workload'],
+    queryFn: fetchFacultyWorkload,
+    enabled: !!session?.user?.institutionId && canViewFacultyWorkload(session.user),
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
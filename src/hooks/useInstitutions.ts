@@ -0,0 +1,249 @@
+/**
+ * EMMA Healthcare Institution Hooks
+ *
+ * React Query hooks for the institutions a user can switch between, the
+ * public directory used at registration, and super-admin onboarding and
+ * institution access management.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { ExtendedUser } from '@/types/database'
+import { Department, UserRole } from '@/types/user'
+import type {
+  InstitutionOnboardingRequest,
+  InstitutionOnboardingResult,
+  InstitutionSummary
+} from '@/lib/institutions'
+import { endFirebaseSession } from '@/lib/firebase-session'
+
+export type InstitutionDirectoryEntry = Pick<InstitutionSummary, 'id' | 'name' | 'city' | 'state'>
+
+interface InstitutionsResponse {
+  success: boolean
+  institutions?: InstitutionSummary[]
+  activeInstitutionId?: string
+  error?: string
+}
+
+interface InstitutionDirectoryResponse {
+  success: boolean
+  institutions?: InstitutionDirectoryEntry[]
+  error?: string
+}
+
+interface OnboardInstitutionResponse {
+  success: boolean
+  message?: string
+  result?: InstitutionOnboardingResult
+  error?: string
+}
+
+interface InstitutionMembersResponse {
+  success: boolean
+  message?: string
+  members?: ExtendedUser[]
+  user?: ExtendedUser
+  error?: string
+}
+
+interface AddInstitutionMemberVariables {
+  institutionId: string
+  email: string
+  role: UserRole
+  department?: Department
+}
+
+/**
+ * Read a JSON response, throwing the API's error when it failed
+ */
+const readResponse = async <T extends { success: boolean; error?: string }>(response: Response): Promise<T> => {
+  const data: T = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Fetch institutions from API - the user's own, or every institution for super admins
+ */
+const fetchInstitutions = async (scope: 'accessible' | 'all'): Promise<InstitutionSummary[]> => {
+  const response = await fetch(`/api/institutions?scope=${scope}`)
+  const data = await readResponse<InstitutionsResponse>(response)
+  return data.institutions || []
+}
+
+/**
+ * Fetch the institutions open to registration from API
+ */
+const fetchInstitutionDirectory = async (): Promise<InstitutionDirectoryEntry[]> => {
+  const response = await fetch('/api/institutions/directory')
+  const data = await readResponse<InstitutionDirectoryResponse>(response)
+  return data.institutions || []
+}
+
+/**
+ * Onboard an institution via API
+ */
+const onboardInstitution = async (request: InstitutionOnboardingRequest): Promise<OnboardInstitutionResponse> => {
+  const response = await fetch('/api/institutions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  })
+  return readResponse<OnboardInstitutionResponse>(response)
+}
+
+/**
+ * Fetch the users with access to an institution through a membership from API
+ */
+const fetchInstitutionMembers = async (institutionId: string): Promise<ExtendedUser[]> => {
+  const response = await fetch(`/api/institutions/${institutionId}/members`)
+  const data = await readResponse<InstitutionMembersResponse>(response)
+  return data.members || []
+}
+
+/**
+ * Hook to fetch the institutions the user can switch into
+ */
+export const useAccessibleInstitutions = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['institutions', 'accessible', session?.user?.id],
+    queryFn: () => fetchInstitutions('accessible'),
+    enabled: !!session?.user?.id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+/**
+ * Hook to fetch every institution on the platform (super admins only)
+ */
+export const useAllInstitutions = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['institutions', 'all'],
+    queryFn: () => fetchInstitutions('all'),
+    enabled: !!session?.user?.isSuperAdmin,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+/**
+ * Hook to fetch the institutions open to registration; used before sign-in
+ */
+export const useInstitutionDirectory = () => {
+  return useQuery({
+    queryKey: ['institutions', 'directory'],
+    queryFn: fetchInstitutionDirectory,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+  })
+}
+
+/**
+ * Hook to switch the session into another institution. Cached data from the
+ * previous institution is dropped and the Firebase client signed out, so its
+ * next token carries the new institution's claims.
+ */
+export const useSwitchInstitution = () => {
+  const { data: session, update } = useSession()
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (institutionId: string) => {
+      await endFirebaseSession()
+      const updated = await update({ institutionId })
+
+      if (updated?.user?.institutionId !== institutionId) {
+        throw new Error('You do not have access to this institution')
+      }
+      return updated
+    },
+    onSettled: (updated) => {
+      if (updated?.user?.institutionId !== session?.user?.institutionId) {
+        queryClient.clear()
+      }
+    },
+  })
+}
+
+/**
+ * Hook to onboard an institution with its first administrator
+ */
+export const useOnboardInstitution = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: onboardInstitution,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['institutions'] })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the users given access to an institution
+ */
+export const useInstitutionMembers = (institutionId: string | null) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['institutions', 'members', institutionId],
+    queryFn: () => fetchInstitutionMembers(institutionId!),
+    enabled: !!session?.user?.isSuperAdmin && !!institutionId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+/**
+ * Hook to give a user a role in another institution
+ */
+export const useAddInstitutionMember = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ institutionId, ...body }: AddInstitutionMemberVariables) => {
+      const response = await fetch(`/api/institutions/${institutionId}/members`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+      return readResponse<InstitutionMembersResponse>(response)
+    },
+    onSettled: (_data, _error, { institutionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['institutions', 'members', institutionId] })
+    },
+  })
+}
+
+/**
+ * Hook to remove a user's access to another institution
+ */
+export const useRemoveInstitutionMember = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ institutionId, userId }: { institutionId: string; userId: string }) => {
+      const response = await fetch(`/api/institutions/${institutionId}/members/${userId}`, {
+        method: 'DELETE',
+      })
+      return readResponse<InstitutionMembersResponse>(response)
+    },
+    onSettled: (_data, _error, { institutionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['institutions', 'members', institutionId] })
+    },
+  })
+}
@@ -0,0 +1,190 @@
+/**
+ * EMMA Healthcare Leave Hooks
+ *
+ * React Query hooks for leave requests: a resident's own requests and
+ * balances, the coordinator approval queue, and the request, approve, deny
+ * and cancel mutations.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { LeaveAction, LeaveRequestInput, ResidentLeaveSummary, canDecideLeave } from '@/lib/leave'
+import { LeaveRequest } from '@/types/database'
+
+interface LeaveRequestsResponse {
+  success: boolean
+  requests?: LeaveRequest[]
+  error?: string
+}
+
+interface LeaveRequestResponse {
+  success: boolean
+  message?: string
+  request?: LeaveRequest
+  error?: string
+}
+
+interface LeaveSummaryResponse {
+  success: boolean
+  summary?: ResidentLeaveSummary
+  error?: string
+}
+
+export interface CreateLeaveRequestData extends LeaveRequestInput {
+  residentId?: string
+}
+
+export interface LeaveActionData {
+  id: string
+  action: LeaveAction
+  comments?: string
+}
+
+/**
+ * Fetch leave requests from API
+ */
+const fetchLeaveRequests = async (status?: LeaveRequest['status']): Promise<LeaveRequest[]> => {
+  const searchParams = new URLSearchParams()
+  if (status) searchParams.append('status', status)
+
+  const response = await fetch(`/api/leave${searchParams.toString() ? `?${searchParams.toString()}` : ''}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: LeaveRequestsResponse = await response.json()
+
+  if (!data.success || !data.requests) {
+    throw new Error(data.error || 'Failed to fetch leave requests')
+  }
+
+  return data.requests
+}
+
+/**
+ * Fetch a resident's leave balances and training extension from API
+ */
+const fetchLeaveSummary = async (residentId?: string): Promise<ResidentLeaveSummary> => {
+  const response = await fetch(`/api/leave/summary${residentId ? `?residentId=${encodeURIComponent(residentId)}` : ''}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: LeaveSummaryResponse = await response.json()
+
+  if (!data.success || !data.summary) {
+    throw new Error(data.error || 'Failed to load leave summary')
+  }
+
+  return data.summary
+}
+
+/**
+ * Request leave via API
+ */
+const createLeaveRequest = async (requestData: CreateLeaveRequestData): Promise<LeaveRequestResponse> => {
+  const response = await fetch('/api/leave', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(requestData),
+  })
+
+  const data: LeaveRequestResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Approve, deny or cancel a leave request via API
+ */
+const applyLeaveAction = async ({ id, action, comments }: LeaveActionData): Promise<LeaveRequestResponse> => {
+  const response = await fetch(`/api/leave/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, comments }),
+  })
+
+  const data: LeaveRequestResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch leave requests - the caller's own, or the whole queue for
+ * coordinators
+ */
+export const useLeaveRequests = (status?: LeaveRequest['status']) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['leave', 'requests', status ?? 'all'],
+    queryFn: () => fetchLeaveRequests(status),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to fetch leave balances and training extension - the signed-in
+ * resident's, or a given resident's for coordinators
+ */
+export const useLeaveSummary = (residentId?: string) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['leave', 'summary', residentId ?? 'me'],
+    queryFn: () => fetchLeaveSummary(residentId),
+    enabled: !!session?.user?.institutionId && (residentId
+      ? canDecideLeave(session.user)
+      : session.user.role === 'RESIDENT'),
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to request leave
+ */
+export const useRequestLeave = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: createLeaveRequest,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave'] })
+    },
+  })
+}
+
+/**
+ * Hook to approve, deny or cancel leave. Approval and cancellation change
+ * the published schedules, so those are refreshed too.
+ */
+export const useLeaveAction = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: applyLeaveAction,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['leave'] })
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
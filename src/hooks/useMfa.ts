@@ -0,0 +1,77 @@
+/**
+ * EMMA Healthcare MFA Hooks
+ *
+ * React Query hooks for the signed-in user's multi-factor authentication:
+ * status, enrolment and verification.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import type { MfaEnrollment, MfaStatus } from '@/lib/mfa'
+
+interface MfaResponse {
+  success: boolean
+  status?: MfaStatus
+  enrollment?: MfaEnrollment
+  recoveryCodes?: string[]
+  error?: string
+}
+
+/**
+ * Call an MFA endpoint and unwrap the response
+ */
+const sendMfaRequest = async (url: string, method: 'GET' | 'POST', body?: { code: string }): Promise<MfaResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  const data: MfaResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch the signed-in user's MFA status
+ */
+export const useMfaStatus = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['mfa-status'],
+    queryFn: async () => (await sendMfaRequest('/api/auth/mfa', 'GET')).status as MfaStatus,
+    enabled: !!session?.user?.id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Hook to issue a TOTP secret and QR code
+ */
+export const useStartMfaEnrollment = () => {
+  return useMutation({
+    mutationFn: async () => (await sendMfaRequest('/api/auth/mfa/enroll', 'POST')).enrollment as MfaEnrollment,
+  })
+}
+
+/**
+ * Hook to confirm enrolment with a code; resolves to the recovery codes
+ */
+export const useCompleteMfaEnrollment = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (code: string) =>
+      (await sendMfaRequest('/api/auth/mfa/verify', 'POST', { code })).recoveryCodes ?? [],
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['mfa-status'] })
+    },
+  })
+}
@@ -0,0 +1,113 @@
+/**
+ * EMMA Healthcare Milestone Hooks
+ *
+ * React Query hooks for department milestone sets and the semi-annual
+ * Clinical Competency Committee report.
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { MilestoneSet } from '@/types/database'
+import { Department } from '@/types/user'
+import type { CccHalf, CccReport } from '@/lib/milestones'
+
+interface CccReportQueryParams {
+  academicYear: string
+  half: CccHalf
+  department?: Department
+}
+
+interface MilestoneSetResponse {
+  success: boolean
+  milestoneSet?: MilestoneSet
+  error?: string
+}
+
+interface CccReportResponse {
+  success: boolean
+  report?: CccReport
+  error?: string
+}
+
+/**
+ * Fetch a department's milestone set from API
+ */
+const fetchMilestoneSet = async (department?: Department): Promise<MilestoneSet> => {
+  const searchParams = new URLSearchParams()
+
+  if (department) searchParams.set('department', department)
+
+  const response = await fetch(`/api/milestones?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: MilestoneSetResponse = await response.json()
+
+  if (!data.success || !data.milestoneSet) {
+    throw new Error(data.error || 'Failed to fetch milestone set')
+  }
+
+  return data.milestoneSet
+}
+
+/**
+ * Fetch the CCC report from API
+ */
+const fetchCccReport = async (params: CccReportQueryParams): Promise<CccReport> => {
+  const searchParams = new URLSearchParams({
+    academicYear: params.academicYear,
+    half: params.half,
+  })
+
+  if (params.department) searchParams.set('department', params.department)
+
+  const response = await fetch(`/api/milestones/ccc-report?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: CccReportResponse = await response.json()
+
+  if (!data.success || !data.report) {
+    throw new Error(data.error || 'Failed to fetch CCC report')
+  }
+
+  return data.report
+}
+
+/**
+ * Hook to fetch the milestone set for a department, defaulting to the
+ * user's own department
+ */
+export const useMilestoneSet = (department?: Department) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['milestone-set', department ?? session?.user?.department],
+    queryFn: () => fetchMilestoneSet(department),
+    enabled: !!session?.user?.institutionId && !!(department || session.user.department),
+    staleTime: 30 * 60 * 1000, // 30 minutes - milestone sets rarely change
+    gcTime: 60 * 60 * 1000, // 1 hour cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to fetch the CCC report for a review period
+ */
+export const useCccReport = (params: CccReportQueryParams) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['ccc-report', params],
+    queryFn: () => fetchCccReport(params),
+    enabled: !!session?.user?.institutionId &&
+      !!(session.user.permissions?.canAccessReports && session.user.permissions?.canViewAllEvaluations),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
@@ -0,0 +1,182 @@
+/**
+ * EMMA Healthcare Resident Portal Hooks
+ *
+ * React Query hooks for the signed-in resident's portal, the profile
+ * fields they can change themselves and their rotation rankings.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import type {
+  ResidentPortal,
+  ResidentPortalProfile,
+  ResidentProfileUpdate,
+  ResidentRotationPreferences
+} from '@/lib/resident-portal'
+
+interface ResidentPortalResponse {
+  success: boolean
+  portal?: ResidentPortal
+  error?: string
+}
+
+interface ResidentProfileResponse {
+  success: boolean
+  message?: string
+  profile?: ResidentPortalProfile
+  error?: string
+}
+
+interface RotationPreferencesResponse {
+  success: boolean
+  message?: string
+  preferences?: ResidentRotationPreferences
+  academicYears?: string[]
+  error?: string
+}
+
+export interface SaveRotationPreferencesData {
+  academicYear: string
+  rankings: string[]
+}
+
+/**
+ * Fetch the resident portal from API
+ */
+const fetchResidentPortal = async (): Promise<ResidentPortal> => {
+  const response = await fetch('/api/residents/me')
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: ResidentPortalResponse = await response.json()
+
+  if (!data.success || !data.portal) {
+    throw new Error(data.error || 'Failed to load resident portal')
+  }
+
+  return data.portal
+}
+
+/**
+ * Update the resident's own profile via API
+ */
+const updateResidentProfile = async (changes: ResidentProfileUpdate): Promise<ResidentProfileResponse> => {
+  const response = await fetch('/api/residents/me/profile', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  })
+
+  const data: ResidentProfileResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Fetch the resident's rotation rankings from API
+ */
+const fetchRotationPreferences = async (academicYear?: string): Promise<RotationPreferencesResponse> => {
+  const params = new URLSearchParams()
+  if (academicYear) params.append('academicYear', academicYear)
+
+  const response = await fetch(`/api/residents/me/rotation-preferences?${params.toString()}`)
+
+  const data: RotationPreferencesResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.preferences) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Save the resident's rotation rankings via API
+ */
+const saveRotationPreferences = async (preferences: SaveRotationPreferencesData): Promise<RotationPreferencesResponse> => {
+  const response = await fetch('/api/residents/me/rotation-preferences', {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(preferences),
+  })
+
+  const data: RotationPreferencesResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch the signed-in resident's portal
+ */
+export const useResidentPortal = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['resident-portal'],
+    queryFn: fetchResidentPortal,
+    enabled: session?.user?.role === 'RESIDENT' && !!session.user.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook for a resident to update their preferred name, phone number or
+ * emergency contact
+ */
+export const useUpdateResidentProfile = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: updateResidentProfile,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['resident-portal'] })
+    },
+  })
+}
+
+/**
+ * Hook to fetch the signed-in resident's rotation rankings for an academic
+ * year (the API defaults to next year)
+ */
+export const useRotationPreferences = (academicYear?: string) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['rotation-preferences', academicYear],
+    queryFn: () => fetchRotationPreferences(academicYear),
+    enabled: session?.user?.role === 'RESIDENT' && !!session.user.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook for a resident to submit their rotation rankings
+ */
+export const useSaveRotationPreferences = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: saveRotationPreferences,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotation-preferences'] })
+    },
+  })
+}
@@ -9,12 +9,16 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useSession } from 'next-auth/react'
 import { ExtendedUser } from '@/types/database'
 import { Department, PGYLevel } from '@/types/user'
+import type { ResidentRequest, ResidentStatusFilter } from '@/lib/resident-validation'
+import type { ResidentImportResult } from '@/lib/resident-import'
+import type { PromotionDecision, PromotionPlan, PromotionResult } from '@/lib/promotion'
 
 interface ResidentsQueryParams {
   department?: Department
   pgyLevel?: PGYLevel
   search?: string
   institutionId?: string
+  status?: ResidentStatusFilter
 }
 
 interface CreateResidentData {
@@ -55,6 +59,33 @@ interface CreateResidentResponse {
   error?: string
 }
 
+interface ImportResidentsResponse {
+  success: boolean
+  message?: string
+  result?: ResidentImportResult
+  error?: string
+}
+
+interface PromotionPlanResponse {
+  success: boolean
+  plan?: PromotionPlan
+  error?: string
+}
+
+interface ApplyPromotionsResponse {
+  success: boolean
+  message?: string
+  result?: PromotionResult
+  error?: string
+}
+
+interface ResidentMutationResponse {
+  success: boolean
+  message?: string
+  resident?: ExtendedUser
+  error?: string
+}
+
 /**
  * Fetch resident physicians from API
  */
@@ -65,6 +96,7 @@ const fetchResidents = async (params: ResidentsQueryParams = {}): Promise<Extend
   if (params.department) searchParams.set('department', params.department)
   if (params.pgyLevel) searchParams.set('pgyLevel', params.pgyLevel.toString())
   if (params.search) searchParams.set('search', params.search)
+  if (params.status) searchParams.set('status', params.status)
 
   const response = await fetch(`/api/residents?${searchParams.toString()}`)
   
@@ -107,6 +139,94 @@ const createResident = async (residentData: CreateResidentData): Promise<Extende
   return data.resident
 }
 
+/**
+ * Send a resident mutation request and unwrap the API response
+ */
+const sendResidentRequest = async (
+  url: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: Partial<ResidentRequest> | { reason?: string }
+): Promise<ResidentMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  const data: ResidentMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Validate or import a resident CSV file
+ */
+const importResidents = async ({ csv, dryRun }: { csv: string; dryRun: boolean }): Promise<ResidentImportResult> => {
+  const response = await fetch('/api/residents/import', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ csv, dryRun }),
+  })
+
+  const data: ImportResidentsResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.result) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.result
+}
+
+/**
+ * Fetch the year-end promotion plan from API
+ */
+const fetchPromotionPlan = async (academicYear?: string): Promise<PromotionPlan> => {
+  const searchParams = new URLSearchParams()
+
+  if (academicYear) searchParams.set('academicYear', academicYear)
+
+  const response = await fetch(`/api/residents/promotions?${searchParams.toString()}`)
+  const data: PromotionPlanResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.plan) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.plan
+}
+
+/**
+ * Apply year-end promotion decisions
+ */
+const applyPromotions = async ({ academicYear, decisions }: {
+  academicYear: string
+  decisions: PromotionDecision[]
+}): Promise<PromotionResult> => {
+  const response = await fetch('/api/residents/promotions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ academicYear, decisions }),
+  })
+
+  const data: ApplyPromotionsResponse = await response.json()
+
+  if (!response.ok || !data.success || !data.result) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.result
+}
+
 /**
  * Hook to fetch resident physicians with filtering and caching
  */
@@ -236,6 +356,104 @@ export const useCreateResident = () => {
   })
 }
 
+/**
+ * Hook to update an existing resident physician
+ */
+export const useUpdateResident = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ residentId, updates }: { residentId: string; updates: Partial<ResidentRequest> }) =>
+      sendResidentRequest(`/api/residents/${residentId}`, 'PATCH', updates),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['residents'] })
+    },
+  })
+}
+
+/**
+ * Hook to deactivate a resident physician (soft delete)
+ */
+export const useDeactivateResident = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ residentId, reason }: { residentId: string; reason?: string }) =>
+      sendResidentRequest(`/api/residents/${residentId}`, 'DELETE', { reason }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['residents'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] })
+    },
+  })
+}
+
+/**
+ * Hook to reactivate a deactivated resident physician
+ */
+export const useReactivateResident = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (residentId: string) =>
+      sendResidentRequest(`/api/residents/${residentId}/reactivate`, 'POST'),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['residents'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] })
+    },
+  })
+}
+
+/**
+ * Hook to validate (dry run) or import residents from a CSV file
+ */
+export const useImportResidents = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: importResidents,
+    onSettled: (result) => {
+      // Dry runs create nothing
+      if (result && !result.dryRun) {
+        queryClient.invalidateQueries({ queryKey: ['residents'] })
+        queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] })
+      }
+    },
+  })
+}
+
+/**
+ * Hook to fetch the year-end promotion plan. Only fetched while the
+ * promotion wizard is open.
+ */
+export const usePromotionPlan = (academicYear: string | undefined, enabled: boolean) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['promotion-plan', academicYear],
+    queryFn: () => fetchPromotionPlan(academicYear),
+    enabled: enabled && !!session?.user?.permissions?.canEditResidents,
+    staleTime: 0, // Always re-read before applying year-end changes
+    gcTime: 5 * 60 * 1000, // 5 minutes cache
+    retry: 1,
+  })
+}
+
+/**
+ * Hook to apply year-end promotion decisions
+ */
+export const useApplyPromotions = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: applyPromotions,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['promotion-plan'] })
+      queryClient.invalidateQueries({ queryKey: ['residents'] })
+      queryClient.invalidateQueries({ queryKey: ['dashboard-summary'] })
+    },
+  })
+}
+
 /**
  * Hook to invalidate residents cache (useful for manual refresh)
  */
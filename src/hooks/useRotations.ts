@@ -0,0 +1,148 @@
+/**
+ * EMMA Healthcare Rotations Hooks
+ *
+ * React Query hooks for listing, creating, updating and archiving
+ * clinical rotations through the rotations API.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { Rotation } from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+import type { RotationCapacity } from '@/lib/database'
+import type { RotationRequest } from '@/lib/rotation-validation'
+
+interface RotationsQueryParams {
+  department?: Department
+  pgyLevel?: PGYLevel
+  status?: Rotation['status']
+  includeCapacity?: boolean
+}
+
+export type RotationWithCapacity = Rotation & { capacityStatus?: RotationCapacity }
+
+interface RotationsResponse {
+  success: boolean
+  rotations: RotationWithCapacity[]
+  total: number
+  error?: string
+}
+
+interface RotationMutationResponse {
+  success: boolean
+  message?: string
+  rotation?: Rotation
+  error?: string
+}
+
+/**
+ * Fetch rotations from API
+ */
+const fetchRotations = async (params: RotationsQueryParams = {}): Promise<RotationWithCapacity[]> => {
+  const searchParams = new URLSearchParams()
+
+  if (params.department) searchParams.set('department', params.department)
+  if (params.pgyLevel) searchParams.set('pgyLevel', params.pgyLevel.toString())
+  if (params.status) searchParams.set('status', params.status)
+  if (params.includeCapacity) searchParams.set('includeCapacity', 'true')
+
+  const response = await fetch(`/api/rotations?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: RotationsResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch rotations')
+  }
+
+  return data.rotations
+}
+
+/**
+ * Send a rotation mutation request and unwrap the API response
+ */
+const sendRotationRequest = async (
+  url: string,
+  method: 'POST' | 'PATCH' | 'DELETE',
+  body?: Partial<RotationRequest>
+): Promise<RotationMutationResponse> => {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  const data: RotationMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch rotations with filtering and caching
+ */
+export const useRotations = (params: RotationsQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['rotations', params],
+    queryFn: () => fetchRotations(params),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 300 * 1000, // 5 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to create a new rotation
+ */
+export const useCreateRotation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (rotationData: RotationRequest) =>
+      sendRotationRequest('/api/rotations', 'POST', rotationData),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotations'] })
+    },
+  })
+}
+
+/**
+ * Hook to update an existing rotation
+ */
+export const useUpdateRotation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ rotationId, updates }: { rotationId: string; updates: Partial<RotationRequest> }) =>
+      sendRotationRequest(`/api/rotations/${rotationId}`, 'PATCH', updates),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotations'] })
+    },
+  })
+}
+
+/**
+ * Hook to archive a rotation
+ */
+export const useArchiveRotation = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (rotationId: string) =>
+      sendRotationRequest(`/api/rotations/${rotationId}`, 'DELETE'),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['rotations'] })
+    },
+  })
+}
@@ -0,0 +1,282 @@
+/**
+ * EMMA Healthcare Schedules Hooks
+ *
+ * React Query hooks for listing schedules, scanning them for conflicts,
+ * generating solver-based draft rotation schedules and call rosters,
+ * reassigning call shifts and publishing drafts.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { Schedule, ScheduleConflict, ScheduleConflictType } from '@/types/database'
+import { Department } from '@/types/user'
+import { CallShiftChange } from '@/lib/call-scheduler'
+
+interface SchedulesQueryParams {
+  academicYear?: string
+  type?: Schedule['type']
+  status?: Schedule['status']
+}
+
+interface SolveScheduleParams {
+  academicYear: string
+  department?: Department
+  blockLengthWeeks?: number
+}
+
+interface GenerateCallScheduleParams {
+  academicYear: string
+  holidays?: string[]
+}
+
+interface UpdateCallShiftsParams {
+  scheduleId: string
+  changes: CallShiftChange[]
+}
+
+interface SchedulesResponse {
+  success: boolean
+  schedules: Schedule[]
+  total: number
+  error?: string
+}
+
+interface ScheduleConflictsResponse {
+  success: boolean
+  conflicts: ScheduleConflict[]
+  summary: Record<ScheduleConflictType, number>
+  checkedAt: string
+  error?: string
+}
+
+export interface ScheduleConflictsResult {
+  conflicts: ScheduleConflict[]
+  summary: Record<ScheduleConflictType, number>
+  checkedAt: string
+}
+
+interface ScheduleMutationResponse {
+  success: boolean
+  message?: string
+  schedule?: Schedule
+  error?: string
+}
+
+/**
+ * Fetch schedules from API
+ */
+const fetchSchedules = async (params: SchedulesQueryParams = {}): Promise<Schedule[]> => {
+  const searchParams = new URLSearchParams()
+
+  if (params.academicYear) searchParams.set('academicYear', params.academicYear)
+  if (params.type) searchParams.set('type', params.type)
+  if (params.status) searchParams.set('status', params.status)
+
+  const response = await fetch(`/api/schedules?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: SchedulesResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to fetch schedules')
+  }
+
+  return data.schedules
+}
+
+/**
+ * Run the schedule solver and return the saved draft
+ */
+const solveSchedule = async (params: SolveScheduleParams): Promise<ScheduleMutationResponse> => {
+  const response = await fetch('/api/schedules/solve', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  })
+
+  const data: ScheduleMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Generate a draft call schedule and return it
+ */
+const generateCallSchedule = async (params: GenerateCallScheduleParams): Promise<ScheduleMutationResponse> => {
+  const response = await fetch('/api/schedules/call', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  })
+
+  const data: ScheduleMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Reassign or swap call shifts on a call schedule
+ */
+const updateCallShifts = async ({ scheduleId, changes }: UpdateCallShiftsParams): Promise<ScheduleMutationResponse> => {
+  const response = await fetch(`/api/schedules/${scheduleId}/call-shifts`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ changes }),
+  })
+
+  const data: ScheduleMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Publish a draft schedule
+ */
+const publishSchedule = async (scheduleId: string): Promise<ScheduleMutationResponse> => {
+  const response = await fetch(`/api/schedules/${scheduleId}/publish`, {
+    method: 'POST',
+  })
+
+  const data: ScheduleMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch schedules with filtering and caching
+ */
+export const useSchedules = (params: SchedulesQueryParams = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['schedules', params],
+    queryFn: () => fetchSchedules(params),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 300 * 1000, // 5 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to generate a draft rotation schedule with the solver
+ */
+export const useSolveSchedule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: solveSchedule,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
+
+/**
+ * Hook to generate a draft call schedule from the published rotation schedule
+ */
+export const useGenerateCallSchedule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: generateCallSchedule,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
+
+/**
+ * Hook to reassign or swap call shifts
+ */
+export const useUpdateCallShifts = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: updateCallShifts,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
+
+/**
+ * Hook to publish a draft schedule, archiving the one it replaces
+ */
+export const usePublishSchedule = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: publishSchedule,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
+
+/**
+ * Fetch schedule conflicts from API
+ */
+const fetchScheduleConflicts = async (scheduleId?: string): Promise<ScheduleConflictsResult> => {
+  const searchParams = new URLSearchParams()
+  if (scheduleId) searchParams.set('scheduleId', scheduleId)
+
+  const response = await fetch(`/api/schedules/conflicts?${searchParams.toString()}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: ScheduleConflictsResponse = await response.json()
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to scan schedule conflicts')
+  }
+
+  return {
+    conflicts: data.conflicts,
+    summary: data.summary,
+    checkedAt: data.checkedAt,
+  }
+}
+
+/**
+ * Hook to scan published schedules (or a single schedule) for conflicts
+ */
+export const useScheduleConflicts = (scheduleId?: string) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['schedules', 'conflicts', scheduleId ?? 'published'],
+    queryFn: () => fetchScheduleConflicts(scheduleId),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 300 * 1000, // 5 minutes cache
+    retry: 1,
+  })
+}
@@ -0,0 +1,160 @@
+/**
+ * EMMA Healthcare Screen Lock Hook
+ *
+ * Tracks inactivity in the dashboard against the institution's session
+ * policy: locks the screen after screenLockTimeout, reports activity to the
+ * server so the idle sessionTimeout is measured from real use, and signs
+ * out once the server has expired the session.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useMutation } from '@tanstack/react-query'
+import { getSession, signOut, useSession } from 'next-auth/react'
+import { endFirebaseSession } from '@/lib/firebase-session'
+import {
+  SCREEN_LOCK_STORAGE_KEY,
+  SESSION_ACTIVITY_INTERVAL_MS,
+  isSessionIdle,
+} from '@/lib/session-policy'
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const
+
+// How often inactivity is checked
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000
+
+interface ScreenLockResponse {
+  success: boolean
+  locked?: boolean
+  error?: string
+}
+
+// Unlock errors carry whether the account is now locked out
+type ScreenLockError = Error & { locked?: boolean }
+
+/**
+ * Call a screen lock endpoint and unwrap the response
+ */
+const sendScreenLockRequest = async (url: string, body?: { password: string }): Promise<ScreenLockResponse> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+
+  const data: ScreenLockResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    const error: ScreenLockError = new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+    error.locked = data.locked
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * End the NextAuth and Firebase sessions and return to sign-in
+ */
+export const signOutFromScreenLock = async (reason?: 'idle' | 'locked') => {
+  window.localStorage.removeItem(SCREEN_LOCK_STORAGE_KEY)
+  await endFirebaseSession()
+  await signOut({ callbackUrl: reason ? `/?reason=${reason}` : '/' })
+}
+
+/**
+ * Hook that locks the dashboard after inactivity; returns the lock state
+ * and the mutation that unlocks it with the user's password
+ */
+export const useScreenLock = () => {
+  const { data: session, update } = useSession()
+  const userId = session?.user?.id
+  const idleTimeoutMinutes = session?.sessionPolicy?.idleTimeoutMinutes ?? null
+  const screenLockMinutes = session?.sessionPolicy?.screenLockMinutes ?? null
+
+  const [locked, setLocked] = useState(false)
+  const lastActivityRef = useRef(Date.now())
+  const lastReportRef = useRef(Date.now())
+
+  const recordLock = useMutation({
+    mutationFn: () => sendScreenLockRequest('/api/auth/screen-lock'),
+  })
+
+  const unlock = useMutation<ScreenLockResponse, ScreenLockError, string>({
+    mutationFn: (password) => sendScreenLockRequest('/api/auth/screen-lock/unlock', { password }),
+    onSuccess: async () => {
+      window.localStorage.removeItem(SCREEN_LOCK_STORAGE_KEY)
+      lastActivityRef.current = Date.now()
+      lastReportRef.current = Date.now()
+      setLocked(false)
+      await update()
+    },
+    onError: async (error) => {
+      if (error.locked) {
+        await signOutFromScreenLock('locked')
+      }
+    },
+  })
+  const { mutate: lockScreen } = recordLock
+
+  // A reload keeps the screen locked
+  useEffect(() => {
+    if (userId && window.localStorage.getItem(SCREEN_LOCK_STORAGE_KEY) === userId) {
+      setLocked(true)
+    }
+  }, [userId])
+
+  // Activity behind the lock screen does not count
+  useEffect(() => {
+    if (!userId || locked) return
+
+    const handleActivity = () => {
+      const now = Date.now()
+      lastActivityRef.current = now
+
+      // Session updates tell the server the user is still active
+      if (now - lastReportRef.current >= SESSION_ACTIVITY_INTERVAL_MS) {
+        lastReportRef.current = now
+        update()
+      }
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+    }
+  }, [userId, locked, update])
+
+  const checkInactivity = useCallback(async () => {
+    if (!userId) return
+
+    if (isSessionIdle(lastActivityRef.current, idleTimeoutMinutes)) {
+      // The server expires (and audits) the session; another tab may have kept it alive
+      const currentSession = await getSession()
+      if (!currentSession) {
+        await signOutFromScreenLock('idle')
+        return
+      }
+
+      // Still active elsewhere - check again after another full timeout
+      lastActivityRef.current = Date.now()
+      return
+    }
+
+    if (!locked && isSessionIdle(lastActivityRef.current, screenLockMinutes)) {
+      window.localStorage.setItem(SCREEN_LOCK_STORAGE_KEY, userId)
+      setLocked(true)
+      lockScreen()
+    }
+  }, [userId, locked, idleTimeoutMinutes, screenLockMinutes, lockScreen])
+
+  useEffect(() => {
+    if (!userId || (!idleTimeoutMinutes && !screenLockMinutes)) return
+
+    const interval = window.setInterval(checkInactivity, IDLE_CHECK_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [userId, idleTimeoutMinutes, screenLockMinutes, checkInactivity])
+
+  return { locked, unlock }
+}
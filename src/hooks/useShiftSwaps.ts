@@ -0,0 +1,192 @@
+/**
+ * EMMA Healthcare Shift Swap Hooks
+ *
+ * React Query hooks for the call shift swap board: open offers and the
+ * caller's own swaps, the coordinator approval queue, the resident's
+ * swappable shifts, and the offer, accept, approve, deny and cancel
+ * mutations.
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { ShiftSwapAction, SwapShiftOption } from '@/lib/shift-swaps'
+import { ShiftSwapRequest, SwapShift } from '@/types/database'
+
+interface ShiftSwapsResponse {
+  success: boolean
+  requests?: ShiftSwapRequest[]
+  error?: string
+}
+
+interface ShiftSwapResponse {
+  success: boolean
+  message?: string
+  request?: ShiftSwapRequest
+  error?: string
+}
+
+interface SwapShiftsResponse {
+  success: boolean
+  shifts?: SwapShiftOption[]
+  error?: string
+}
+
+export interface OfferShiftData {
+  scheduleId: string
+  rotationId: string
+  date: string
+  note?: string
+}
+
+export interface ShiftSwapActionData {
+  id: string
+  action: ShiftSwapAction
+  returnShift?: Pick<SwapShift, 'rotationId' | 'date'>
+  comments?: string
+}
+
+/**
+ * Fetch shift swaps from API
+ */
+const fetchShiftSwaps = async (status?: ShiftSwapRequest['status']): Promise<ShiftSwapRequest[]> => {
+  const searchParams = new URLSearchParams()
+  if (status) searchParams.append('status', status)
+
+  const response = await fetch(`/api/swaps${searchParams.toString() ? `?${searchParams.toString()}` : ''}`)
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: ShiftSwapsResponse = await response.json()
+
+  if (!data.success || !data.requests) {
+    throw new Error(data.error || 'Failed to fetch shift swaps')
+  }
+
+  return data.requests
+}
+
+/**
+ * Fetch the signed-in resident's upcoming call shifts from API
+ */
+const fetchSwapShifts = async (): Promise<SwapShiftOption[]> => {
+  const response = await fetch('/api/swaps/shifts')
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data: SwapShiftsResponse = await response.json()
+
+  if (!data.success || !data.shifts) {
+    throw new Error(data.error || 'Failed to fetch call shifts')
+  }
+
+  return data.shifts
+}
+
+/**
+ * Offer a call shift via API
+ */
+const offerShift = async (offerData: OfferShiftData): Promise<ShiftSwapResponse> => {
+  const response = await fetch('/api/swaps', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(offerData),
+  })
+
+  const data: ShiftSwapResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Accept, approve, deny or cancel a swap via API
+ */
+const applyShiftSwapAction = async ({ id, ...actionData }: ShiftSwapActionData): Promise<ShiftSwapResponse> => {
+  const response = await fetch(`/api/swaps/${id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(actionData),
+  })
+
+  const data: ShiftSwapResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch shift swaps - open offers and the caller's own, or every
+ * swap for coordinators
+ */
+export const useShiftSwaps = (status?: ShiftSwapRequest['status']) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['swaps', 'requests', status ?? 'all'],
+    queryFn: () => fetchShiftSwaps(status),
+    enabled: !!session?.user?.institutionId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to fetch the signed-in resident's upcoming call shifts
+ */
+export const useSwapShifts = () => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['swaps', 'shifts'],
+    queryFn: fetchSwapShifts,
+    enabled: !!session?.user?.institutionId && session.user.role === 'RESIDENT',
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes cache
+    retry: 2,
+  })
+}
+
+/**
+ * Hook to offer a call shift to colleagues
+ */
+export const useOfferShift = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: offerShift,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['swaps'] })
+    },
+  })
+}
+
+/**
+ * Hook to accept, approve, deny or cancel a swap. Approval changes the
+ * published call schedule, so schedules are refreshed too.
+ */
+export const useShiftSwapAction = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: applyShiftSwapAction,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['swaps'] })
+      queryClient.invalidateQueries({ queryKey: ['schedules'] })
+    },
+  })
+}
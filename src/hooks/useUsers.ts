@@ -0,0 +1,203 @@
+/**
+ * EMMA Healthcare User Account Hooks
+ *
+ * React Query hooks for listing an institution's users and for
+ * administrative actions on their accounts.
+ */
+
+import { MutationFunction, useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useSession } from 'next-auth/react'
+import { ExtendedUser } from '@/types/database'
+import { DepartmentPermissions, UserPermissions, UserRole } from '@/types/user'
+import type { UserListFilters } from '@/lib/user-management'
+import { hasAnyPermissionScope } from '@/lib/permissions'
+
+interface UsersResponse {
+  success: boolean
+  users?: ExtendedUser[]
+  total?: number
+  error?: string
+}
+
+interface UserMutationResponse {
+  success: boolean
+  message?: string
+  user?: ExtendedUser
+  error?: string
+}
+
+interface UpdateUserPermissionsVariables {
+  userId: string
+  permissionOverrides: Partial<UserPermissions>
+  departmentPermissions: DepartmentPermissions
+}
+
+type UserAction =
+  | 'unlock'
+  | 'mfa-reset'
+  | 'role'
+  | 'suspend'
+  | 'reinstate'
+  | 'approve'
+  | 'password-reset'
+  | 'verification-email'
+
+/**
+ * Fetch the institution's users from API
+ */
+const fetchUsers = async (filters: UserListFilters): Promise<ExtendedUser[]> => {
+  const params = new URLSearchParams()
+
+  if (filters.role) params.append('role', filters.role)
+  if (filters.status) params.append('status', filters.status)
+  if (filters.search) params.append('search', filters.search)
+
+  const response = await fetch(`/api/users?${params.toString()}`)
+  const data: UsersResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data.users || []
+}
+
+/**
+ * Run an account action via API; resolves to the API's message
+ */
+const sendUserAction = async (
+  userId: string,
+  action: UserAction,
+  body?: Record<string, unknown>
+): Promise<UserMutationResponse> => {
+  const response = await fetch(`/api/users/${userId}/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const data: UserMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Replace a user's permission overrides and department grants via API
+ */
+const updateUserPermissions = async ({
+  userId,
+  permissionOverrides,
+  departmentPermissions,
+}: UpdateUserPermissionsVariables): Promise<UserMutationResponse> => {
+  const response = await fetch(`/api/users/${userId}/permissions`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ permissionOverrides, departmentPermissions }),
+  })
+  const data: UserMutationResponse = await response.json()
+
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return data
+}
+
+/**
+ * Hook to fetch the institution's users with filtering
+ */
+export const useUsers = (filters: UserListFilters = {}) => {
+  const { data: session } = useSession()
+
+  return useQuery({
+    queryKey: ['users', filters],
+    queryFn: () => fetchUsers(filters),
+    enabled: hasAnyPermissionScope(session?.user, 'canViewAllUsers'),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+  })
+}
+
+/**
+ * Shared mutation for account actions; user lists are refreshed afterwards
+ */
+const useUserAction = <TVariables>(mutationFn: MutationFunction<UserMutationResponse, TVariables>) => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+      queryClient.invalidateQueries({ queryKey: ['residents'] })
+    },
+  })
+}
+
+/**
+ * Hook to lift a sign-in lockout
+ */
+export const useUnlockAccount = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'unlock'))
+
+/**
+ * Hook to remove a user's MFA after they lose their device
+ */
+export const useResetMfa = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'mfa-reset'))
+
+/**
+ * Hook to move a user to a new role
+ */
+export const useChangeUserRole = () =>
+  useUserAction(({ userId, role }: { userId: string; role: UserRole }) => sendUserAction(userId, 'role', { role }))
+
+/**
+ * Hook to suspend a user account
+ */
+export const useSuspendUser = () =>
+  useUserAction(({ userId, reason }: { userId: string; reason?: string }) => sendUserAction(userId, 'suspend', { reason }))
+
+/**
+ * Hook to reinstate a suspended user account
+ */
+export const useReinstateUser = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'reinstate'))
+
+/**
+ * Hook to approve a self-registered user account
+ */
+export const useApproveUser = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'approve'))
+
+/**
+ * Hook to require a user to reset their password
+ */
+export const useForcePasswordReset = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'password-reset'))
+
+/**
+ * Hook to resend a user's email verification link
+ */
+export const useResendVerificationEmail = () =>
+  useUserAction((userId: string) => sendUserAction(userId, 'verification-email'))
+
+/**
+ * Hook to change a user's permission overrides and department grants
+ */
+export const useUpdateUserPermissions = () => {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: updateUserPermissions,
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] })
+    },
+  })
+}
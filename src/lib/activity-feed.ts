@@ -0,0 +1,159 @@
+/**
+ * EMMA Healthcare Activity Feed
+ *
+ * Which audit log actions appear in the dashboard activity feed, how they
+ * are described, and which roles may see them. Audit logs themselves stay
+ * admin-only; each feed entry is a sanitized projection of one audit entry.
+ */
+
+import { ActivityFeedEntry, Evaluation, Schedule } from '@/types/database'
+import { PGYLevel, UserRole } from '@/types/user'
+
+export type ActivityKind = ActivityFeedEntry['kind']
+
+// Number of entries shown on the dashboard
+export const ACTIVITY_FEED_LIMIT = 20
+
+// Staff roles that see institution-wide evaluation and user activity
+const EVALUATION_STAFF_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR', 'FACULTY']
+const USER_MANAGEMENT_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+const ALL_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR', 'FACULTY', 'RESIDENT']
+
+/**
+ * Audience token for an individual user, alongside role tokens
+ */
+export const userAudience = (userId: string): string => `user:${userId}`
+
+/**
+ * Audience tokens a viewer matches, for querying the feed
+ */
+export function getViewerAudience(role: UserRole, userId: string): string[] {
+  return [role, userAudience(userId)]
+}
+
+export type FeedSource = 'USER' | 'EVALUATION' | 'SCHEDULE'
+
+/**
+ * The record an audit action's feed entry is described from, or null when
+ * the action does not appear in the feed
+ */
+export function getFeedSource(action: string, details: Record<string, any> = {}): FeedSource | null {
+  switch (action) {
+    case 'USER_CREATED':
+    case 'RESIDENT_PHYSICIAN_CREATED':
+      return 'USER'
+    case 'EVALUATION_STATUS_CHANGED':
+      return details.action === 'SUBMIT' || details.action === 'APPROVE' ? 'EVALUATION' : null
+    case 'SCHEDULE_CREATED':
+    case 'SCHEDULE_UPDATED':
+      return details.status === 'PUBLISHED' ? 'SCHEDULE' : null
+    default:
+      return null
+  }
+}
+
+interface FeedPerson {
+  id: string
+  name: string
+  role?: UserRole
+  pgyLevel?: PGYLevel
+}
+
+export interface FeedContext {
+  user?: FeedPerson // USER source: the account created
+  evaluation?: Pick<Evaluation, 'type' | 'evaluatorId' | 'evaluateeId'>
+  evaluator?: FeedPerson
+  evaluatee?: FeedPerson
+  schedule?: Pick<Schedule, 'name' | 'type' | 'academicYear'>
+}
+
+export type ActivityDescription = Pick<ActivityFeedEntry, 'kind' | 'title' | 'description' | 'audience' | 'pgyLevel'>
+
+const formatRole = (role?: UserRole): string => (role ? role.charAt(0) + role.slice(1).toLowerCase() : 'User')
+
+const withPgy = (person?: FeedPerson): string =>
+  person ? `${person.name}${person.pgyLevel ? ` (PGY-${person.pgyLevel})` : ''}` : 'a resident'
+
+/**
+ * Describe an audit action for the feed. Returns null when the records it
+ * refers to could not be found.
+ */
+export function describeActivity(
+  action: string,
+  details: Record<string, any>,
+  context: FeedContext
+): ActivityDescription | null {
+  const source = getFeedSource(action, details)
+
+  if (source === 'USER' && context.user) {
+    const isResident = context.user.role === 'RESIDENT'
+    return {
+      kind: isResident ? 'resident' : 'user',
+      title: isResident ? 'New resident registered' : `New ${formatRole(context.user.role).toLowerCase()} account`,
+      description: `${withPgy(context.user)} has been added to the system`,
+      // Faculty see new residents they may supervise; other accounts are user management
+      audience: isResident ? EVALUATION_STAFF_ROLES : USER_MANAGEMENT_ROLES,
+      pgyLevel: context.user.pgyLevel,
+    }
+  }
+
+  if (source === 'EVALUATION' && context.evaluation) {
+    const evaluator = context.evaluator?.name ?? 'An evaluator'
+    const type = context.evaluation.type.toLowerCase()
+
+    if (details.action === 'SUBMIT') {
+      return {
+        kind: 'evaluation',
+        title: 'New evaluation submitted',
+        description: `${evaluator} completed a ${type} evaluation for ${withPgy(context.evaluatee)}`,
+        // Residents only see evaluations once approved
+        audience: [...USER_MANAGEMENT_ROLES, userAudience(context.evaluation.evaluatorId)],
+        pgyLevel: context.evaluatee?.pgyLevel,
+      }
+    }
+
+    return {
+      kind: 'evaluation',
+      title: 'Evaluation approved',
+      description: `${evaluator}'s ${type} evaluation of ${withPgy(context.evaluatee)} has been approved`,
+      audience: [
+        ...USER_MANAGEMENT_ROLES,
+        userAudience(context.evaluation.evaluatorId),
+        userAudience(context.evaluation.evaluateeId),
+      ],
+      pgyLevel: context.evaluatee?.pgyLevel,
+    }
+  }
+
+  if (source === 'SCHEDULE' && context.schedule) {
+    return {
+      kind: 'schedule',
+      title: 'Schedule published',
+      description: `${context.schedule.name} (${context.schedule.type.toLowerCase()}, ${context.schedule.academicYear}) is now published`,
+      audience: ALL_ROLES,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Relative time for feed entries, e.g. "2 minutes ago"
+ */
+export function formatActivityTime(date: Date | null, now: Date = new Date()): string {
+  if (!date) return ''
+
+  const seconds = Math.max(0, Math.round((now.getTime() - date.getTime()) / 1000))
+  if (seconds < 60) return 'Just now'
+
+  const units: [number, string][] = [[60 * 60 * 24, 'day'], [60 * 60, 'hour'], [60, 'minute']]
+  for (const [size, unit] of units) {
+    if (seconds >= size) {
+      const count = Math.floor(seconds / size)
+      if (unit === 'day' && count > 6) break
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`
+    }
+  }
+
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+}
@@ -0,0 +1,268 @@
+/**
+ * EMMA Healthcare Class Analytics
+ *
+ * Time-range resolution and aggregation of evaluations into class-level
+ * figures: average overall rating, on-time completion, department and PGY
+ * averages with period-over-period trend, and common strength and
+ * improvement themes.
+ */
+
+import { addMilliseconds, endOfQuarter, startOfQuarter, subQuarters } from 'date-fns'
+import { Evaluation } from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+import { getAcademicYear, getAcademicYearRange, toDate } from './date-utils'
+
+export type AnalyticsTimeRange = 'current-quarter' | 'last-quarter' | 'academic-year' | 'custom'
+
+export const ANALYTICS_TIME_RANGES: AnalyticsTimeRange[] = ['current-quarter', 'last-quarter', 'academic-year', 'custom']
+
+// Number of themes returned for strengths and areas for improvement
+const TOP_THEME_COUNT = 5
+
+// Longest custom range, to keep the aggregation bounded
+const MAX_CUSTOM_RANGE_DAYS = 3 * 366
+
+// Statuses in which the evaluator has finished the evaluation
+const COMPLETED_STATUSES: Evaluation['status'][] = ['SUBMITTED', 'REVIEWED', 'APPROVED', 'ARCHIVED']
+
+export interface AnalyticsPeriod {
+  range: AnalyticsTimeRange
+  start: Date
+  end: Date
+  previousStart: Date // Comparison period of the same kind immediately before
+  previousEnd: Date
+}
+
+/**
+ * Resolve a time range selection into the reporting period and the period it
+ * is compared against. Returns an error message for an invalid custom range.
+ */
+export function resolveAnalyticsPeriod(
+  range: AnalyticsTimeRange,
+  custom: { from?: string | null; to?: string | null } = {},
+  now: Date = new Date()
+): AnalyticsPeriod | string {
+  switch (range) {
+    case 'current-quarter':
+    case 'last-quarter': {
+      const quarter = range === 'current-quarter' ? now : subQuarters(now, 1)
+      const previous = subQuarters(quarter, 1)
+      return {
+        range,
+        start: startOfQuarter(quarter),
+        end: endOfQuarter(quarter),
+        previousStart: startOfQuarter(previous),
+        previousEnd: endOfQuarter(previous),
+      }
+    }
+    case 'academic-year': {
+      const startYear = Number(getAcademicYear(now).slice(0, 4))
+      const current = getAcademicYearRange(`${startYear}-${startYear + 1}`)!
+      const previous = getAcademicYearRange(`${startYear - 1}-${startYear}`)!
+      return {
+        range,
+        start: current.startDate,
+        end: current.endDate,
+        previousStart: previous.startDate,
+        previousEnd: previous.endDate,
+      }
+    }
+    case 'custom': {
+      const start = toDate(custom.from)
+      const endDay = toDate(custom.to)
+      if (!start || !endDay) {
+        return 'A custom range requires valid from and to dates'
+      }
+
+      // The to date is inclusive
+      const end = new Date(endDay.getFullYear(), endDay.getMonth(), endDay.getDate(), 23, 59, 59, 999)
+      if (end <= start) {
+        return 'The from date must be before the to date'
+      }
+
+      const length = end.getTime() - start.getTime()
+      if (length > MAX_CUSTOM_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        return `A custom range cannot be longer than ${MAX_CUSTOM_RANGE_DAYS} days`
+      }
+
+      const previousEnd = addMilliseconds(start, -1)
+      return {
+        range,
+        start,
+        end,
+        previousStart: addMilliseconds(previousEnd, -length),
+        previousEnd,
+      }
+    }
+  }
+}
+
+export interface AnalyticsGroupStats<TKey> {
+  key: TKey
+  residentCount: number
+  evaluationCount: number
+  averageRating: number | null
+  previousAverageRating: number | null
+  trend: number | null // Percent change from the previous period
+}
+
+export interface AnalyticsTheme {
+  theme: string
+  count: number
+  previousCount: number
+}
+
+export interface ClassAnalyticsReport {
+  range: AnalyticsTimeRange
+  periodStart: string
+  periodEnd: string
+  previousPeriodStart: string
+  previousPeriodEnd: string
+  generatedAt: string
+  summary: {
+    averageRating: number | null
+    previousAverageRating: number | null
+    trend: number | null
+    totalEvaluations: number // Completed evaluations in the period
+    dueEvaluations: number // Evaluations due in the period, up to now
+    completedOnTime: number
+    completionRate: number | null // Percent of due evaluations submitted by their due date
+    overdueCount: number // Due and still not submitted
+    residentsNeedingAttention: number // Residents with improvement areas recorded in the period
+  }
+  departments: AnalyticsGroupStats<Department>[]
+  pgyLevels: AnalyticsGroupStats<PGYLevel>[]
+  strengths: AnalyticsTheme[]
+  improvements: AnalyticsTheme[]
+}
+
+export interface ClassAnalyticsInput {
+  period: AnalyticsPeriod
+  residents: { id: string; department?: Department; pgyLevel?: PGYLevel }[]
+  evaluations: Evaluation[]
+  now?: Date
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? round1(values.reduce((sum, value) => sum + value, 0) / values.length) : null
+
+const percentChange = (current: number | null, previous: number | null): number | null =>
+  current !== null && previous !== null && previous > 0 ? round1(((current - previous) / previous) * 100) : null
+
+const inPeriod = (date: Date | null, start: Date, end: Date): boolean =>
+  !!date && date >= start && date <= end
+
+// Themes are free text, so group by a normalized form and keep the first spelling seen
+const normalizeTheme = (value: string): string =>
+  value.trim().toLowerCase().replace(/[.;,!]+$/, '').replace(/\s+/g, ' ')
+
+const countThemes = (entries: string[][]): Map<string, { label: string; count: number }> => {
+  const counts = new Map<string, { label: string; count: number }>()
+  entries.forEach(themes => {
+    // Count each theme once per evaluation
+    new Set(themes.map(normalizeTheme).filter(Boolean)).forEach(key => {
+      const existing = counts.get(key)
+      const label = existing?.label ?? themes.find(theme => normalizeTheme(theme) === key)!.trim()
+      counts.set(key, { label, count: (existing?.count ?? 0) + 1 })
+    })
+  })
+  return counts
+}
+
+const topThemes = (current: string[][], previous: string[][]): AnalyticsTheme[] => {
+  const previousCounts = countThemes(previous)
+  return Array.from(countThemes(current).entries())
+    .map(([key, { label, count }]) => ({ theme: label, count, previousCount: previousCounts.get(key)?.count ?? 0 }))
+    .sort((a, b) => b.count - a.count || a.theme.localeCompare(b.theme))
+    .slice(0, TOP_THEME_COUNT)
+}
+
+/**
+ * Aggregate evaluations into class analytics for a period. Ratings count
+ * towards the period their evaluation period ends in; completion is
+ * measured against evaluations whose due date has passed within the period.
+ */
+export function buildClassAnalytics(input: ClassAnalyticsInput): ClassAnalyticsReport {
+  const { period, residents, evaluations } = input
+  const now = input.now ?? new Date()
+  const residentsById = new Map(residents.map(resident => [resident.id, resident]))
+
+  const completed = evaluations.filter(evaluation =>
+    COMPLETED_STATUSES.includes(evaluation.status) && residentsById.has(evaluation.evaluateeId)
+  )
+  const periodEnd = (evaluation: Evaluation) => toDate(evaluation.evaluationPeriod?.endDate)
+  const current = completed.filter(evaluation => inPeriod(periodEnd(evaluation), period.start, period.end))
+  const previous = completed.filter(evaluation => inPeriod(periodEnd(evaluation), period.previousStart, period.previousEnd))
+
+  const ratings = (list: Evaluation[]) => list.map(evaluation => evaluation.overallRating).filter(rating => typeof rating === 'number')
+
+  // Completion: evaluations due in the period, up to today
+  const dueCutoff = period.end < now ? period.end : now
+  const due = evaluations.filter(evaluation =>
+    residentsById.has(evaluation.evaluateeId) && inPeriod(toDate(evaluation.dueDate), period.start, dueCutoff)
+  )
+  const completedOnTime = due.filter(evaluation => {
+    const submitted = toDate(evaluation.submittedDate)
+    const dueDate = toDate(evaluation.dueDate)
+    return COMPLETED_STATUSES.includes(evaluation.status) && !!submitted && !!dueDate && submitted <= dueDate
+  }).length
+  const overdueCount = due.filter(evaluation => !COMPLETED_STATUSES.includes(evaluation.status)).length
+
+  const groupStats = <TKey extends Department | PGYLevel>(field: 'department' | 'pgyLevel'): AnalyticsGroupStats<TKey>[] => {
+    const keyOf = (residentId: string) => residentsById.get(residentId)?.[field] as TKey | undefined
+    const keys = new Set(residents.map(resident => resident[field] as TKey | undefined))
+    keys.delete(undefined)
+
+    return Array.from(keys as Set<TKey>).map(key => {
+      const currentEvaluations = current.filter(evaluation => keyOf(evaluation.evaluateeId) === key)
+      const averageRating = average(ratings(currentEvaluations))
+      const previousAverageRating = average(ratings(previous.filter(evaluation => keyOf(evaluation.evaluateeId) === key)))
+      return {
+        key,
+        residentCount: residents.filter(resident => resident[field] === key).length,
+        evaluationCount: currentEvaluations.length,
+        averageRating,
+        previousAverageRating,
+        trend: percentChange(averageRating, previousAverageRating),
+      }
+    })
+  }
+
+  const averageRating = average(ratings(current))
+  const previousAverageRating = average(ratings(previous))
+
+  return {
+    range: period.range,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    previousPeriodStart: period.previousStart.toISOString(),
+    previousPeriodEnd: period.previousEnd.toISOString(),
+    generatedAt: now.toISOString(),
+    summary: {
+      averageRating,
+      previousAverageRating,
+      trend: percentChange(averageRating, previousAverageRating),
+      totalEvaluations: current.length,
+      dueEvaluations: due.length,
+      completedOnTime,
+      completionRate: due.length > 0 ? round1((completedOnTime / due.length) * 100) : null,
+      overdueCount,
+      residentsNeedingAttention: new Set(
+        current.filter(evaluation => evaluation.areasForImprovement?.length > 0).map(evaluation => evaluation.evaluateeId)
+      ).size,
+    },
+    departments: groupStats<Department>('department')
+      .sort((a, b) => b.residentCount - a.residentCount || a.key.localeCompare(b.key)),
+    pgyLevels: groupStats<PGYLevel>('pgyLevel').sort((a, b) => a.key - b.key),
+    strengths: topThemes(
+      current.map(evaluation => evaluation.strengths ?? []),
+      previous.map(evaluation => evaluation.strengths ?? [])
+    ),
+    improvements: topThemes(
+      current.map(evaluation => evaluation.areasForImprovement ?? []),
+      previous.map(evaluation => evaluation.areasForImprovement ?? [])
+    ),
+  }
+}
@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { randomBytes } from 'crypto'
+import {
+  AUDIT_CHAIN_VERSION,
+  AUDIT_GENESIS_HASH,
+  AuditChainHead,
+  ChainedAuditEntry,
+  canonicalJson,
+  decryptAuditPhi,
+  protectAuditDetails,
+  sealAuditEntry,
+  verifyAuditChainHead,
+  verifyAuditChainSegment,
+} from './audit-chain'
+
+const START = { sequence: 1, previousHash: AUDIT_GENESIS_HASH }
+
+/**
+ * A sealed chain of `length` entries for one institution
+ */
+const buildChain = (length: number): ChainedAuditEntry[] => {
+  const entries: ChainedAuditEntry[] = []
+  let previousHash = AUDIT_GENESIS_HASH
+
+  for (let sequence = 1; sequence <= length; sequence++) {
+    const entry = sealAuditEntry({
+      id: `log-${sequence}`,
+      institutionId: 'inst-1',
+      sequence,
+      timestamp: new Date(Date.UTC(2025, 6, 1, 12, sequence)).toISOString(),
+      action: 'RESIDENT_VIEWED',
+      actionCategory: 'DATA_ACCESS',
+      success: true,
+      userId: 'admin-1',
+      resourceType: 'USER',
+      resourceId: `res-${sequence}`,
+      details: { fields: ['pgyLevel'] },
+      encrypted: false,
+      source: 'server',
+      version: AUDIT_CHAIN_VERSION,
+      previousHash,
+    })
+    entries.push(entry)
+    previousHash = entry.hash
+  }
+
+  return entries
+}
+
+const headFor = (entries: ChainedAuditEntry[]): AuditChainHead => ({
+  institutionId: 'inst-1',
+  sequence: entries[entries.length - 1].sequence,
+  lastHash: entries[entries.length - 1].hash,
+  lastEntryId: entries[entries.length - 1].id,
+})
+
+const issueTypes = (entries: ChainedAuditEntry[], head: AuditChainHead | null = null) => {
+  const { issues, cursor } = verifyAuditChainSegment(entries, START)
+  return [...issues, ...verifyAuditChainHead(head, cursor)].map(issue => `${issue.type}:${issue.sequence}`)
+}
+
+describe('canonicalJson', () => {
+  it('ignores key order and undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: undefined } }))
+      .toBe(canonicalJson({ a: { d: [2, { e: 4, f: 3 }] }, b: 1 }))
+  })
+})
+
+describe('verifyAuditChainSegment', () => {
+  it('accepts an untouched chain', () => {
+    const entries = buildChain(4)
+    expect(issueTypes(entries, headFor(entries))).toEqual([])
+  })
+
+  it('detects an entry edited in place', () => {
+    const entries = buildChain(4)
+    const tampered = entries.map(entry => entry.sequence === 2 ? { ...entry, action: 'LOGIN_SUCCESS' } : entry)
+
+    expect(issueTypes(tampered, headFor(entries))).toEqual(['MODIFIED:2'])
+  })
+
+  it('detects a re-sealed edit at the next entry link', () => {
+    const entries = buildChain(4)
+    const content: Partial<ChainedAuditEntry> = { ...entries[1], resourceId: 'res-9' }
+    delete content.hash
+    const resealed = sealAuditEntry(content as Omit<ChainedAuditEntry, 'hash'>)
+    const tampered = entries.map(entry => entry.sequence === 2 ? resealed : entry)
+
+    expect(issueTypes(tampered, headFor(entries))).toEqual(['BROKEN_LINK:3'])
+  })
+
+  it('detects a deleted entry', () => {
+    const entries = buildChain(4)
+
+    expect(issueTypes(entries.filter(entry => entry.sequence !== 3), headFor(entries))).toEqual(['GAP:3'])
+  })
+
+  it('detects a replayed entry', () => {
+    const entries = buildChain(3)
+
+    expect(issueTypes([entries[0], entries[1], entries[1], entries[2]], headFor(entries))).toEqual(['DUPLICATE:2'])
+  })
+
+  it('detects entries removed from the end against the chain head', () => {
+    const entries = buildChain(4)
+
+    expect(issueTypes(entries.slice(0, 2), headFor(entries))).toEqual(['TRUNCATED:3'])
+  })
+
+  it('detects a last entry that differs from the head', () => {
+    const entries = buildChain(3)
+
+    expect(issueTypes(entries, { ...headFor(entries), lastHash: AUDIT_GENESIS_HASH })).toEqual(['BROKEN_LINK:3'])
+  })
+
+  it('continues across pages with the cursor', () => {
+    const entries = buildChain(6)
+    const first = verifyAuditChainSegment(entries.slice(0, 3), START)
+    const second = verifyAuditChainSegment(entries.slice(3), first.cursor)
+
+    expect([...first.issues, ...second.issues]).toEqual([])
+    expect(second.cursor).toEqual({ sequence: 7, previousHash: entries[5].hash })
+  })
+})
+
+describe('protectAuditDetails', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('encrypts PHI fields and redacts secrets', () => {
+    vi.stubEnv('AUDIT_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+
+    const { details, phi } = protectAuditDetails({
+      email: 'ada@example.org',
+      dob: '1990-01-01',
+      ssn: '123-45-6789',
+      password: 'hunter2',
+      pgyLevel: 2,
+    })
+
+    expect(details).toEqual({ ssn: '[REDACTED]', password: '[REDACTED]', pgyLevel: 2 })
+    expect(JSON.stringify(phi)).not.toContain('ada@example.org')
+    expect(decryptAuditPhi(phi!)).toEqual({ email: 'ada@example.org', dob: '1990-01-01' })
+  })
+
+  it('encrypts PHI and redacts secrets inside nested details', () => {
+    vi.stubEnv('AUDIT_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+
+    const { details, phi } = protectAuditDetails({
+      changes: { phoneNumber: '555-0100', birthDate: '1990-01-01', pgyLevel: 3 },
+      previous: { emergencyContact: { name: 'Grace', phone: '555-0199' } },
+      contacts: [{ email: 'ada@example.org', ssnLast4: '6789' }],
+    })
+
+    expect(details).toEqual({
+      changes: { pgyLevel: 3 },
+      previous: {},
+      contacts: [{ ssnLast4: '[REDACTED]' }],
+    })
+    expect(decryptAuditPhi(phi!)).toEqual({
+      changes: { phoneNumber: '555-0100', birthDate: '1990-01-01' },
+      previous: { emergencyContact: { name: 'Grace', phone: '555-0199' } },
+      contacts: { 0: { email: 'ada@example.org' } },
+    })
+  })
+
+  it('redacts PHI fields when no encryption key is configured', () => {
+    vi.stubEnv('AUDIT_ENCRYPTION_KEY', '')
+
+    expect(protectAuditDetails({ dateOfBirth: '1990-01-01', action: 'view' })).toEqual({
+      details: { dateOfBirth: '[REDACTED]', action: 'view' },
+    })
+  })
+
+  it('redacts nested PHI fields when no encryption key is configured', () => {
+    vi.stubEnv('AUDIT_ENCRYPTION_KEY', '')
+
+    expect(protectAuditDetails({ changes: { lastName: 'Lovelace', department: 'SURGERY' } })).toEqual({
+      details: { changes: { lastName: '[REDACTED]', department: 'SURGERY' } },
+    })
+  })
+
+  it('cannot decrypt a payload that was altered', () => {
+    vi.stubEnv('AUDIT_ENCRYPTION_KEY', randomBytes(32).toString('base64'))
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const { phi } = protectAuditDetails({ email: 'ada@example.org' })
+    const ciphertext = Buffer.from(phi!.ciphertext, 'base64')
+    ciphertext[0] ^= 1
+
+    expect(decryptAuditPhi({ ...phi!, ciphertext: ciphertext.toString('base64') })).toBeNull()
+  })
+})
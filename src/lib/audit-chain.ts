@@ -0,0 +1,359 @@
+/**
+ * EMMA Healthcare Audit Chain
+ *
+ * Tamper evidence and PHI protection for HIPAA audit entries. Each entry is
+ * sealed with a SHA-256 hash over its canonical content and the previous
+ * entry's hash, forming one chain per institution. PHI fields in the entry
+ * details are encrypted with AES-256-GCM using a server-held key, and the
+ * hash covers the ciphertext so the chain can be verified without the key.
+ *
+ * Server-side only (uses Node crypto).
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+export const AUDIT_CHAIN_VERSION = '2.0'
+
+// previousHash of the first entry in every chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64)
+
+// Chain for entries that cannot be attributed to an institution
+export const AUDIT_SYSTEM_CHAIN = 'SYSTEM'
+
+// Detail fields that identify a person or describe their record
+export const AUDIT_PHI_FIELDS = [
+  'email',
+  'userEmail',
+  'firstName',
+  'lastName',
+  'middleName',
+  'preferredName',
+  'phoneNumber',
+  'address',
+  'medicalLicenseNumber',
+  'emergencyContact',
+  'ipAddress',
+  'standing',
+  'reason',
+  'note',
+  'search',
+  'searchTerm',
+]
+
+// Birth dates under any field name (dateOfBirth, birthDate, dob)
+const AUDIT_PHI_FIELD_PATTERN = /birth|^dob$/i
+
+// Detail fields that are never stored, encrypted or not
+const AUDIT_SECRET_FIELDS = ['password', 'currentPassword', 'newPassword', 'token', 'secret']
+
+// Social security numbers under any field name
+const AUDIT_SECRET_FIELD_PATTERN = /^ssn|social.?security/i
+
+const REDACTED = '[REDACTED]'
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm'
+
+export interface EncryptedAuditPayload {
+  keyId: string // Fingerprint of the key used, for rotation
+  iv: string
+  tag: string
+  ciphertext: string
+}
+
+export interface ChainedAuditEntry {
+  id: string
+  institutionId: string
+  sequence: number // 1-based position in the institution's chain
+  timestamp: string
+  action: string
+  actionCategory: string // Stored so the audit log can be filtered by category
+  success: boolean
+  userId?: string
+  resourceType?: string
+  resourceId?: string
+  details?: Record<string, any> // Non-PHI details
+  phi?: EncryptedAuditPayload // Encrypted PHI details
+  encrypted: boolean
+  source: string
+  environment?: string
+  version: string
+  previousHash: string
+  hash: string
+}
+
+export interface AuditChainHead {
+  institutionId: string
+  sequence: number
+  lastHash: string
+  lastEntryId: string
+}
+
+export type AuditChainIssueType = 'MODIFIED' | 'BROKEN_LINK' | 'GAP' | 'DUPLICATE' | 'TRUNCATED'
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType
+  sequence: number
+  entryId?: string
+  message: string
+}
+
+export interface AuditChainVerification {
+  institutionId: string
+  verifiedAt: string
+  entriesChecked: number
+  headSequence: number
+  valid: boolean
+  issues: AuditChainIssue[]
+}
+
+// Position reached while walking a chain page by page
+export interface AuditChainCursor {
+  sequence: number // Next expected sequence
+  previousHash: string
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so the same content
+ * always produces the same hash regardless of key order after storage
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item)).join(',')}]`
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entryValue]) => entryValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${canonicalJson(entryValue)}`).join(',')}}`
+}
+
+/**
+ * SHA-256 over everything in the entry except the hash itself
+ */
+export function computeAuditHash(entry: Omit<ChainedAuditEntry, 'hash'>): string {
+  return createHash('sha256').update(canonicalJson(entry)).digest('hex')
+}
+
+/**
+ * Attach the hash to an entry that already carries its previousHash
+ */
+export function sealAuditEntry(entry: Omit<ChainedAuditEntry, 'hash'>): ChainedAuditEntry {
+  return { ...entry, hash: computeAuditHash(entry) }
+}
+
+/**
+ * Load the 32-byte audit encryption key from AUDIT_ENCRYPTION_KEY (base64)
+ */
+function getAuditEncryptionKey(): { key: Buffer; keyId: string } | null {
+  const encoded = process.env.AUDIT_ENCRYPTION_KEY
+  if (!encoded) return null
+
+  const key = Buffer.from(encoded, 'base64')
+  if (key.length !== 32) {
+    console.error('[EMMA] AUDIT_ENCRYPTION_KEY must be a base64-encoded 32-byte key')
+    return null
+  }
+
+  return { key, keyId: createHash('sha256').update(key).digest('hex').slice(0, 16) }
+}
+
+/**
+ * Encrypt PHI details. Returns null when no key is configured.
+ */
+export function encryptAuditPhi(phi: Record<string, any>): EncryptedAuditPayload | null {
+  const encryptionKey = getAuditEncryptionKey()
+  if (!encryptionKey) return null
+
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ENCRYPTION_ALGORITHM, encryptionKey.key, iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(phi), 'utf8'), cipher.final()])
+
+  return {
+    keyId: encryptionKey.keyId,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+  }
+}
+
+/**
+ * Decrypt PHI details. Returns null when the key is missing, was rotated,
+ * or the payload fails authentication.
+ */
+export function decryptAuditPhi(payload: EncryptedAuditPayload): Record<string, any> | null {
+  const encryptionKey = getAuditEncryptionKey()
+  if (!encryptionKey || encryptionKey.keyId !== payload.keyId) return null
+
+  try {
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, encryptionKey.key, Buffer.from(payload.iv, 'base64'))
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'))
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(payload.ciphertext, 'base64')),
+      decipher.final(),
+    ])
+    return JSON.parse(plaintext.toString('utf8'))
+  } catch (error) {
+    console.error('[EMMA] Audit PHI decryption failed:', error)
+    return null
+  }
+}
+
+const isAuditSecretField = (field: string): boolean =>
+  AUDIT_SECRET_FIELDS.includes(field) || AUDIT_SECRET_FIELD_PATTERN.test(field)
+
+const isAuditPhiField = (field: string): boolean =>
+  AUDIT_PHI_FIELDS.includes(field) || AUDIT_PHI_FIELD_PATTERN.test(field)
+
+/**
+ * Redact secrets and take PHI fields out of `node`, walking into nested
+ * objects and arrays such as the `changes` of a profile update. PHI fields
+ * are deleted, or replaced by `placeholder` when one is given. Returns the
+ * PHI at the same paths, or undefined when there is none.
+ */
+function separateAuditPhi(node: Record<string, any>, placeholder?: string): Record<string, any> | undefined {
+  const phi: Record<string, any> = {}
+
+  Object.keys(node).forEach(field => {
+    const value = node[field]
+
+    if (isAuditSecretField(field)) {
+      node[field] = REDACTED
+    } else if (isAuditPhiField(field)) {
+      phi[field] = value
+      if (placeholder === undefined) {
+        delete node[field]
+      } else {
+        node[field] = placeholder
+      }
+    } else if (value !== null && typeof value === 'object') {
+      const nestedPhi = separateAuditPhi(value, placeholder)
+      if (nestedPhi) phi[field] = nestedPhi
+    }
+  })
+
+  return Object.keys(phi).length > 0 ? phi : undefined
+}
+
+/**
+ * Prepare entry details for storage: secrets are redacted, PHI fields at any
+ * depth are moved into an encrypted payload, and values are normalized to
+ * plain JSON so the hash is stable once the entry is read back. Without an
+ * encryption key PHI fields are redacted rather than stored in plain text.
+ */
+export function protectAuditDetails(details?: Record<string, any>): {
+  details?: Record<string, any>
+  phi?: EncryptedAuditPayload
+} {
+  if (!details) return {}
+
+  const normalized: Record<string, any> = JSON.parse(JSON.stringify(details))
+  const phi = separateAuditPhi(normalized)
+
+  if (!phi) {
+    return { details: normalized }
+  }
+
+  const encryptedPhi = encryptAuditPhi(phi)
+  if (!encryptedPhi) {
+    const redacted: Record<string, any> = JSON.parse(JSON.stringify(details))
+    separateAuditPhi(redacted, REDACTED)
+    return { details: redacted }
+  }
+
+  return { details: normalized, phi: encryptedPhi }
+}
+
+/**
+ * Check one page of a chain, ordered by sequence, continuing from the
+ * cursor left by the previous page. A modified entry is reported once;
+ * the walk continues from its stored hash so later entries are still
+ * checked against their own links.
+ */
+export function verifyAuditChainSegment(
+  entries: ChainedAuditEntry[],
+  cursor: AuditChainCursor
+): { issues: AuditChainIssue[]; cursor: AuditChainCursor } {
+  const issues: AuditChainIssue[] = []
+  let { sequence: expectedSequence, previousHash } = cursor
+
+  entries.forEach(entry => {
+    if (entry.sequence < expectedSequence) {
+      issues.push({
+        type: 'DUPLICATE',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        message: `Sequence ${entry.sequence} appears more than once`,
+      })
+      return
+    }
+
+    const { hash, ...content } = entry
+    if (computeAuditHash(content) !== hash) {
+      issues.push({
+        type: 'MODIFIED',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        message: `Entry ${entry.sequence} does not match its hash`,
+      })
+    }
+
+    if (entry.sequence > expectedSequence) {
+      const missing = entry.sequence - expectedSequence
+      issues.push({
+        type: 'GAP',
+        sequence: expectedSequence,
+        entryId: entry.id,
+        message: missing === 1
+          ? `Entry ${expectedSequence} is missing`
+          : `Entries ${expectedSequence}-${entry.sequence - 1} are missing`,
+      })
+    } else if (entry.previousHash !== previousHash) {
+      issues.push({
+        type: 'BROKEN_LINK',
+        sequence: entry.sequence,
+        entryId: entry.id,
+        message: `Entry ${entry.sequence} does not link to the entry before it`,
+      })
+    }
+
+    expectedSequence = entry.sequence + 1
+    previousHash = hash
+  })
+
+  return { issues, cursor: { sequence: expectedSequence, previousHash } }
+}
+
+/**
+ * Compare the end of the walk with the chain head to detect entries
+ * removed from the end of the chain
+ */
+export function verifyAuditChainHead(head: AuditChainHead | null, cursor: AuditChainCursor): AuditChainIssue[] {
+  if (!head) return []
+
+  const lastSequence = cursor.sequence - 1
+
+  if (head.sequence > lastSequence) {
+    return [{
+      type: 'TRUNCATED',
+      sequence: lastSequence + 1,
+      entryId: head.lastEntryId,
+      message: `The chain ends at entry ${lastSequence} but the head records ${head.sequence}`,
+    }]
+  }
+
+  if (head.sequence === lastSequence && head.lastHash !== cursor.previousHash) {
+    return [{
+      type: 'BROKEN_LINK',
+      sequence: lastSequence,
+      entryId: head.lastEntryId,
+      message: `The last entry does not match the hash recorded in the chain head`,
+    }]
+  }
+
+  return []
+}
@@ -0,0 +1,208 @@
+/**
+ * EMMA Healthcare Audit Log Explorer
+ *
+ * Action categories, query filters, cursor encoding and export formatting
+ * for browsing the HIPAA audit log. Shared by the audit API routes and the
+ * audit log viewer.
+ */
+
+import { HIPAAAuditLog } from '@/types/database'
+import { toCsv } from './csv'
+
+export type AuditActionCategory = HIPAAAuditLog['actionCategory']
+
+export const AUDIT_ACTION_CATEGORIES: AuditActionCategory[] = [
+  'LOGIN',
+  'DATA_ACCESS',
+  'DATA_MODIFICATION',
+  'SYSTEM_CONFIG',
+  'USER_MANAGEMENT',
+]
+
+export const AUDIT_CATEGORY_LABELS: Record<AuditActionCategory, string> = {
+  LOGIN: 'Sign-in & Sessions',
+  DATA_ACCESS: 'Data Access',
+  DATA_MODIFICATION: 'Data Changes',
+  SYSTEM_CONFIG: 'System Configuration',
+  USER_MANAGEMENT: 'User Management',
+}
+
+export type AuditExportFormat = 'csv' | 'json'
+
+export const AUDIT_EXPORT_FORMATS: AuditExportFormat[] = ['csv', 'json']
+
+export const AUDIT_LOG_PAGE_SIZE = 50
+
+export const AUDIT_LOG_MAX_PAGE_SIZE = 200
+
+// Largest export in one request - narrow the date range for more
+export const AUDIT_EXPORT_MAX_ROWS = 10000
+
+// Checked in order; anything unmatched is a data modification
+const CATEGORY_RULES: [RegExp, AuditActionCategory][] = [
+  [/^(LOGIN|LOGOUT|SESSION|ACCOUNT)_|^FIREBASE_CLIENT_TOKEN|PASSWORD|MFA/, 'LOGIN'],
+  [/_(ACCESS|ACCESSED|FETCHED|GENERATED|VIEWED|EXPORTED|SCANNED|VERIFIED)$/, 'DATA_ACCESS'],
+  [/^(INSTITUTION|DATABASE|DEVELOPMENT|SYSTEM|MILESTONE_SET|EVALUATION_TEMPLATE)_/, 'SYSTEM_CONFIG'],
+  [/^(USER|RESIDENT_PHYSICIAN|RESIDENTS_BULK|RESIDENT_PROMOT|RESIDENT_GRADUATED)|_ROLE_|PERMISSION/, 'USER_MANAGEMENT'],
+]
+
+// Account lockouts count as failures; screen locks and unlocks do not
+const FAILURE_PATTERN = /FAILED|DENIED|REJECTED|^ACCOUNT_LOCKED/
+
+export interface AuditLogFilters {
+  userId?: string
+  action?: string
+  actionCategory?: AuditActionCategory
+  resourceType?: string
+  resourceId?: string
+  from?: string // yyyy-MM-dd, inclusive
+  to?: string // yyyy-MM-dd, inclusive
+  success?: boolean
+}
+
+export interface AuditLogEntry {
+  id: string
+  institutionId: string
+  sequence?: number // Missing on entries written before the hash chain
+  timestamp: string
+  action: string
+  actionCategory: AuditActionCategory
+  success: boolean
+  userId?: string
+  resourceType?: string
+  resourceId?: string
+  details?: Record<string, any>
+  encrypted: boolean
+  phiDetails?: Record<string, any> | null // Decrypted PHI when requested; null if it could not be decrypted
+  hash?: string
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[]
+  nextCursor: string | null
+}
+
+// Position after the last entry of a page
+interface AuditLogCursor {
+  timestamp: string
+  sequence: number
+}
+
+/**
+ * Category of an audit action, derived from its name
+ */
+export function categorizeAuditAction(action: string): AuditActionCategory {
+  const rule = CATEGORY_RULES.find(([pattern]) => pattern.test(action))
+  return rule ? rule[1] : 'DATA_MODIFICATION'
+}
+
+/**
+ * Whether an audit action records a successful operation
+ */
+export function isAuditActionSuccess(action: string): boolean {
+  return !FAILURE_PATTERN.test(action)
+}
+
+/**
+ * Opaque cursor for the entry a page ended on
+ */
+export function encodeAuditCursor(entry: { timestamp: string; sequence?: number }): string {
+  const cursor: AuditLogCursor = { timestamp: entry.timestamp, sequence: entry.sequence ?? 0 }
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+export function decodeAuditCursor(cursor: string): AuditLogCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    return typeof decoded?.timestamp === 'string' && typeof decoded?.sequence === 'number' ? decoded : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read audit filters from query parameters
+ */
+export function parseAuditLogFilters(searchParams: URLSearchParams): { filters: AuditLogFilters; error?: string } {
+  const value = (name: string) => searchParams.get(name)?.trim() || undefined
+  const filters: AuditLogFilters = {
+    userId: value('userId'),
+    action: value('action')?.toUpperCase(),
+    resourceType: value('resourceType')?.toUpperCase(),
+    resourceId: value('resourceId'),
+    from: value('from'),
+    to: value('to'),
+  }
+
+  const actionCategory = value('actionCategory')
+  if (actionCategory) {
+    if (!AUDIT_ACTION_CATEGORIES.includes(actionCategory as AuditActionCategory)) {
+      return { filters, error: `Invalid actionCategory. Expected one of: ${AUDIT_ACTION_CATEGORIES.join(', ')}` }
+    }
+    filters.actionCategory = actionCategory as AuditActionCategory
+  }
+
+  const success = value('success')
+  if (success) {
+    if (success !== 'true' && success !== 'false') {
+      return { filters, error: 'success must be true or false' }
+    }
+    filters.success = success === 'true'
+  }
+
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/
+  if ((filters.from && !datePattern.test(filters.from)) || (filters.to && !datePattern.test(filters.to))) {
+    return { filters, error: 'Dates must be formatted as YYYY-MM-DD' }
+  }
+
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { filters, error: 'from must be on or before to' }
+  }
+
+  return { filters }
+}
+
+/**
+ * Filters in a form safe to record in the audit entry for the view itself
+ */
+export function describeAuditFilters(filters: AuditLogFilters): Record<string, string | boolean> {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, filterValue]) => filterValue !== undefined)
+  ) as Record<string, string | boolean>
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'sequence',
+  'action',
+  'actionCategory',
+  'success',
+  'userId',
+  'resourceType',
+  'resourceId',
+  'details',
+  'phiDetails',
+  'hash',
+]
+
+/**
+ * Audit entries as CSV, with details serialized as JSON
+ */
+export function buildAuditCsv(entries: AuditLogEntry[]): string {
+  return toCsv([
+    CSV_COLUMNS,
+    ...entries.map(entry => [
+      entry.timestamp,
+      entry.sequence !== undefined ? String(entry.sequence) : '',
+      entry.action,
+      entry.actionCategory,
+      String(entry.success),
+      entry.userId ?? '',
+      entry.resourceType ?? '',
+      entry.resourceId ?? '',
+      entry.details ? JSON.stringify(entry.details) : '',
+      entry.phiDetails ? JSON.stringify(entry.phiDetails) : entry.encrypted ? '[ENCRYPTED]' : '',
+      entry.hash ?? '',
+    ]),
+  ])
+}
@@ -0,0 +1,211 @@
+import { describe, expect, it } from 'vitest'
+import { differenceInCalendarDays } from 'date-fns'
+import { PGYLevel } from '@/types/user'
+import { Rotation, Schedule, ScheduleAssignment } from '@/types/database'
+import {
+  CALL_INELIGIBILITY_MESSAGES,
+  CallEligibilityInput,
+  CallShift,
+  ExistingCall,
+  applyCallShiftChanges,
+  generateCallSchedule,
+  getCallType,
+  getCallsAround,
+  getDefaultHolidays,
+  summarizeCallDistribution,
+} from './call-scheduler'
+
+const makeRotation = (maxCallsPerMonth = 31): Rotation => ({
+  id: 'icu',
+  name: 'ICU',
+  status: 'ACTIVE',
+  schedule: { startTime: '08:00', callSchedule: { frequency: 'WEEKLY', maxCallsPerMonth } },
+}) as Rotation
+
+const makeInput = (residentIds: string[], options: { pgyLevel?: PGYLevel; maxCallsPerMonth?: number } = {}): CallEligibilityInput => ({
+  residents: residentIds.map(id => ({ id, name: id.toUpperCase(), pgyLevel: options.pgyLevel ?? 2 })),
+  rotations: [makeRotation(options.maxCallsPerMonth)],
+  schedules: [{
+    id: 'rotations',
+    type: 'ROTATION',
+    status: 'PUBLISHED',
+    startDate: new Date(2025, 6, 1),
+    endDate: new Date(2025, 8, 30, 23, 59),
+    assignments: residentIds.map(residentId => ({ residentId, rotationId: 'icu' })),
+  }] as unknown as Schedule[],
+  approvedLeave: [],
+})
+
+const callDates = (shifts: CallShift[], residentId: string) =>
+  shifts.filter(shift => shift.residentId === residentId).map(shift => shift.date)
+
+const callAssignment = (residentId: string, date: string): ScheduleAssignment => ({
+  residentId,
+  rotationId: 'icu',
+  startDate: new Date(`${date}T08:00:00`),
+}) as unknown as ScheduleAssignment
+
+describe('getDefaultHolidays', () => {
+  it('lists the federal holidays that carry holiday call', () => {
+    expect(getDefaultHolidays(new Date(2025, 6, 1), new Date(2025, 11, 31)))
+      .toEqual(['2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25'])
+  })
+
+  it('ranks holidays over weekends over weeknights', () => {
+    const holidays = new Set(['2025-07-04'])
+
+    expect(getCallType(new Date(2025, 6, 4), holidays)).toBe('HOLIDAY')
+    expect(getCallType(new Date(2025, 6, 5), holidays)).toBe('WEEKEND')
+    expect(getCallType(new Date(2025, 6, 7), holidays)).toBe('NIGHT')
+  })
+})
+
+describe('generateCallSchedule', () => {
+  const generate = (input: CallEligibilityInput, endDay = 31, startDay = 1, existingCalls: ExistingCall[] = []) =>
+    generateCallSchedule({
+      ...input,
+      startDate: new Date(2025, 6, startDay),
+      endDate: new Date(2025, 6, endDay),
+      holidays: [],
+      existingCalls,
+    })
+
+  it('keeps every resident to call no more often than every third night', () => {
+    const residentIds = ['res-a', 'res-b', 'res-c', 'res-d']
+    const result = generate(makeInput(residentIds))
+
+    expect(result.stats.filledNights + result.unfilledNights.length).toBe(result.stats.totalNights)
+    residentIds.forEach(residentId => {
+      const dates = callDates(result.shifts, residentId)
+      dates.slice(1).forEach((date, index) => {
+        expect(differenceInCalendarDays(new Date(date), new Date(dates[index]))).toBeGreaterThanOrEqual(3)
+      })
+    })
+  })
+
+  it('leaves nights unfilled rather than break call spacing', () => {
+    const result = generate(makeInput(['res-a', 'res-b']), 6)
+
+    expect(result.stats.filledNights).toBe(4)
+    expect(result.unfilledNights).toHaveLength(2)
+    result.unfilledNights.forEach(night => {
+      expect(night.reason).toContain(CALL_INELIGIBILITY_MESSAGES.CALL_SPACING)
+    })
+  })
+
+  it('holds each resident to the monthly call limit', () => {
+    const result = generate(makeInput(['res-a', 'res-b', 'res-c'], { maxCallsPerMonth: 2 }))
+
+    expect(result.shifts).toHaveLength(6)
+    expect(result.distribution.map(entry => entry.total)).toEqual([2, 2, 2])
+    expect(result.unfilledNights[0].reason).toContain(CALL_INELIGIBILITY_MESSAGES.MONTHLY_LIMIT)
+  })
+
+  it('shares weekend call out evenly', () => {
+    const result = generate(makeInput(['res-a', 'res-b', 'res-c', 'res-d']))
+    const weekends = result.distribution.map(entry => entry.weekend)
+
+    expect(Math.max(...weekends) - Math.min(...weekends)).toBeLessThanOrEqual(1)
+  })
+
+  it('keeps PGY-1 residents off call during orientation', () => {
+    const result = generate(makeInput(['res-a', 'res-b', 'res-c', 'res-d'], { pgyLevel: 1 }))
+
+    expect(result.shifts.every(shift => shift.date >= '2025-07-15')).toBe(true)
+    expect(result.unfilledNights[0].reason).toContain(CALL_INELIGIBILITY_MESSAGES.ORIENTATION)
+  })
+
+  it('keeps residents on approved leave off call', () => {
+    const input = makeInput(['res-a', 'res-b', 'res-c', 'res-d'])
+    input.approvedLeave = [{ residentId: 'res-a', startDate: new Date(2025, 6, 7), endDate: new Date(2025, 6, 13) }] as unknown as CallEligibilityInput['approvedLeave']
+
+    const dates = callDates(generate(input).shifts, 'res-a')
+    expect(dates.some(date => date >= '2025-07-07' && date <= '2025-07-13')).toBe(false)
+  })
+
+  it('spaces calls from published calls just before the range', () => {
+    const result = generate(makeInput(['res-a', 'res-b', 'res-c', 'res-d']), 10, 1, [{ residentId: 'res-a', date: '2025-06-30' }])
+
+    expect(callDates(result.shifts, 'res-a').some(date => date <= '2025-07-02')).toBe(false)
+  })
+
+  it('counts published calls earlier in the month toward the monthly limit', () => {
+    const existingCalls = [{ residentId: 'res-a', date: '2025-07-01' }, { residentId: 'res-a', date: '2025-07-05' }]
+    const result = generate(makeInput(['res-a', 'res-b', 'res-c', 'res-d'], { maxCallsPerMonth: 2 }), 31, 15, existingCalls)
+
+    expect(callDates(result.shifts, 'res-a')).toEqual([])
+  })
+})
+
+describe('getCallsAround', () => {
+  it('keeps published calls near the range and drops those inside or far from it', () => {
+    const schedules = [
+      { type: 'CALL', status: 'PUBLISHED', assignments: ['2025-06-10', '2025-06-29', '2025-07-01', '2026-07-02', '2026-07-20'].map(date => callAssignment('res-a', date)) },
+      { type: 'CALL', status: 'ARCHIVED', assignments: [callAssignment('res-b', '2025-06-30')] },
+    ] as unknown as Schedule[]
+
+    expect(getCallsAround(schedules, new Date(2025, 6, 1), new Date(2026, 5, 30, 23, 59))).toEqual([
+      { residentId: 'res-a', date: '2025-06-29' },
+      { residentId: 'res-a', date: '2026-07-02' },
+    ])
+  })
+})
+
+describe('applyCallShiftChanges', () => {
+  const input = makeInput(['res-a', 'res-b', 'res-c'])
+  const assignments = [
+    callAssignment('res-a', '2025-07-07'),
+    callAssignment('res-b', '2025-07-08'),
+    callAssignment('res-c', '2025-07-09'),
+    callAssignment('res-a', '2025-07-10'),
+  ]
+
+  it('swaps two shifts between residents', () => {
+    const result = applyCallShiftChanges(assignments, [
+      { rotationId: 'icu', date: '2025-07-08', residentId: 'res-c' },
+      { rotationId: 'icu', date: '2025-07-09', residentId: 'res-b' },
+    ], input)
+
+    expect(result.error).toBeNull()
+    expect(result.assignments.map(assignment => assignment.residentId)).toEqual(['res-a', 'res-c', 'res-b', 'res-a'])
+    expect(assignments[1].residentId).toBe('res-b')
+  })
+
+  it('rejects a change that breaks call spacing', () => {
+    const result = applyCallShiftChanges(assignments, [{ rotationId: 'icu', date: '2025-07-08', residentId: 'res-a' }], input)
+
+    expect(result.error).toBe(`RES-A cannot take the 2025-07-08 ICU call: ${CALL_INELIGIBILITY_MESSAGES.CALL_SPACING}`)
+    expect(result.assignments).toBe(assignments)
+  })
+
+  it('rejects a resident already on call that night', () => {
+    const withSecondRotation = { ...input, rotations: [...input.rotations, { ...makeRotation(), id: 'wards', name: 'Wards' }] }
+    withSecondRotation.schedules = [{
+      ...input.schedules[0],
+      assignments: [...input.schedules[0].assignments, { residentId: 'res-b', rotationId: 'wards' }],
+    }]
+    const crossCover = [...assignments, { ...callAssignment('res-c', '2025-07-08'), rotationId: 'wards' }]
+
+    const result = applyCallShiftChanges(crossCover, [{ rotationId: 'wards', date: '2025-07-08', residentId: 'res-b' }], withSecondRotation)
+    expect(result.error).toContain(CALL_INELIGIBILITY_MESSAGES.ALREADY_ON_CALL)
+  })
+
+  it('reports a shift that does not exist', () => {
+    expect(applyCallShiftChanges(assignments, [{ rotationId: 'icu', date: '2025-07-11', residentId: 'res-b' }], input).error)
+      .toBe('No call shift on 2025-07-11 for that rotation')
+  })
+})
+
+describe('summarizeCallDistribution', () => {
+  it('recounts totals and keeps residents who gave all their calls away', () => {
+    const distribution = summarizeCallDistribution(
+      [{ ...callAssignment('res-a', '2025-07-05'), callType: 'WEEKEND' }, { ...callAssignment('res-a', '2025-07-08'), callType: 'NIGHT' }],
+      [{ residentId: 'res-b', total: 1, weekend: 0, holiday: 0 }]
+    )
+
+    expect(distribution).toEqual([
+      { residentId: 'res-a', total: 2, weekend: 1, holiday: 0 },
+      { residentId: 'res-b', total: 0, weekend: 0, holiday: 0 },
+    ])
+  })
+})
@@ -0,0 +1,521 @@
+/**
+ * EMMA Healthcare Call Scheduler
+ *
+ * Builds the in-house call roster for the residents on each call-taking
+ * rotation: every night a rotation has residents on service, one of them is
+ * on call. The scheduler is deterministic and greedy:
+ *   1. Holiday nights are filled first, then weekend nights, then weeknights,
+ *      so the least popular calls are shared out before the rest
+ *   2. Each night goes to the eligible resident with the fewest calls of that
+ *      kind so far this year, then the fewest calls overall
+ * Eligibility - on the rotation that night, not on approved leave, PGY rules,
+ * call no more often than every third night (so the post-call day stays off),
+ * and the rotation's monthly limit - is a hard constraint. Calls already
+ * published just outside the range count toward spacing and monthly limits.
+ * Nights nobody can cover are reported, not forced.
+ */
+
+import {
+  addDays,
+  addHours,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isWeekend,
+  max,
+  min,
+  startOfDay,
+  startOfMonth,
+  subDays
+} from 'date-fns'
+import { CallType, LeaveRequest, Rotation, Schedule, ScheduleAssignment } from '@/types/database'
+import { PGYLevel } from '@/types/user'
+import { getAcademicYear, getAcademicYearRange, toDate } from './date-utils'
+import { ACGME_DUTY_LIMITS } from './duty-hours'
+
+export const CALL_TYPE_LABELS: Record<CallType, string> = {
+  NIGHT: 'Night',
+  WEEKEND: 'Weekend',
+  HOLIDAY: 'Holiday'
+}
+
+export interface CallPgyRules {
+  minimumPgyLevel: PGYLevel // Residents below this level take no call
+  internOrientationDays: number // PGY-1 residents start call this many days into the academic year
+}
+
+export const DEFAULT_CALL_PGY_RULES: CallPgyRules = {
+  minimumPgyLevel: 1,
+  internOrientationDays: 14
+}
+
+// NONE and AS_NEEDED calls are not rostered ahead, matching planned duty hours
+type RosteredFrequency = 'WEEKLY' | 'MONTHLY'
+
+// Calls per calendar month when the rotation sets no maxCallsPerMonth
+const DEFAULT_MAX_CALLS_PER_MONTH: Record<RosteredFrequency, number> = {
+  WEEKLY: 5,
+  MONTHLY: 1
+}
+
+// Hardest nights to fill are rostered first
+const CALL_TYPE_PRIORITY: CallType[] = ['HOLIDAY', 'WEEKEND', 'NIGHT']
+
+export type CallIneligibility =
+  | 'PGY_LEVEL'
+  | 'ORIENTATION'
+  | 'NOT_ON_ROTATION'
+  | 'ON_LEAVE'
+  | 'ALREADY_ON_CALL'
+  | 'CALL_SPACING'
+  | 'MONTHLY_LIMIT'
+
+export const CALL_INELIGIBILITY_MESSAGES: Record<CallIneligibility, string> = {
+  PGY_LEVEL: 'below the minimum PGY level for call',
+  ORIENTATION: 'still in PGY-1 orientation',
+  NOT_ON_ROTATION: 'not on the rotation that night',
+  ON_LEAVE: 'on approved leave',
+  ALREADY_ON_CALL: 'already on call that night',
+  CALL_SPACING: 'too close to another call or post-call day',
+  MONTHLY_LIMIT: 'at the monthly call limit'
+}
+
+export interface CallResident {
+  id: string
+  name?: string
+  pgyLevel?: PGYLevel
+}
+
+export interface CallEligibilityInput {
+  residents: CallResident[]
+  rotations: Rotation[]
+  schedules: Schedule[] // Published rotation schedules: who is on service when
+  approvedLeave: Pick<LeaveRequest, 'residentId' | 'startDate' | 'endDate'>[]
+  pgyRules?: Partial<CallPgyRules>
+}
+
+export interface CallSchedulerInput extends CallEligibilityInput {
+  startDate: Date
+  endDate: Date
+  holidays?: string[] // ISO dates; defaults to US federal holidays in the range
+  existingCalls?: ExistingCall[] // Published calls outside the range, counted toward spacing and monthly limits
+}
+
+export interface ExistingCall {
+  residentId: string
+  date: string // ISO date the call starts
+}
+
+export interface CallShift {
+  residentId: string
+  rotationId: string
+  date: string // ISO date the call starts
+  callType: CallType
+  startDate: Date
+  endDate: Date
+}
+
+export interface CallShiftChange {
+  rotationId: string
+  date: string // ISO date of the call shift
+  residentId: string // Resident taking the shift
+}
+
+export interface UnfilledCallNight {
+  rotationId: string
+  date: string
+  reason: string
+}
+
+export interface CallDistributionEntry {
+  residentId: string
+  total: number
+  weekend: number
+  holiday: number
+}
+
+export interface CallRosterResult {
+  shifts: CallShift[] // Chronological
+  unfilledNights: UnfilledCallNight[]
+  distribution: CallDistributionEntry[]
+  holidays: string[]
+  stats: {
+    filledNights: number
+    totalNights: number
+  }
+}
+
+interface ServiceInterval {
+  rotationId: string
+  start: Date
+  end: Date
+}
+
+const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd')
+
+const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  const first = new Date(year, month, 1)
+  return new Date(year, month, 1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7)
+}
+
+const lastWeekday = (year: number, month: number, weekday: number): Date => {
+  const last = new Date(year, month + 1, 0)
+  return new Date(year, month, last.getDate() - ((last.getDay() - weekday + 7) % 7))
+}
+
+/**
+ * US federal holidays that usually carry holiday call, within a date range
+ */
+export function getDefaultHolidays(startDate: Date, endDate: Date): string[] {
+  const holidays: Date[] = []
+
+  for (let year = startDate.getFullYear(); year <= endDate.getFullYear(); year++) {
+    holidays.push(
+      new Date(year, 0, 1), // New Year's Day
+      lastWeekday(year, 4, 1), // Memorial Day
+      new Date(year, 6, 4), // Independence Day
+      nthWeekday(year, 8, 1, 1), // Labor Day
+      nthWeekday(year, 10, 4, 4), // Thanksgiving
+      new Date(year, 11, 25) // Christmas Day
+    )
+  }
+
+  return holidays
+    .filter(day => day >= startOfDay(startDate) && day <= endDate)
+    .map(toIsoDate)
+    .sort()
+}
+
+/**
+ * Night, weekend or holiday call for a calendar day
+ */
+export function getCallType(day: Date, holidays: Set<string>): CallType {
+  if (holidays.has(toIsoDate(day))) return 'HOLIDAY'
+  return isWeekend(day) ? 'WEEKEND' : 'NIGHT'
+}
+
+/**
+ * Whether the scheduler rosters call for a rotation
+ */
+export function takesRosteredCall(rotation: Rotation): boolean {
+  const frequency = rotation.schedule.callSchedule?.frequency
+  return rotation.status === 'ACTIVE' && (frequency === 'WEEKLY' || frequency === 'MONTHLY')
+}
+
+/**
+ * Call shift window: 24 hours from the rotation's normal start time, as
+ * planned duty hours assume
+ */
+export function getCallShiftWindow(rotation: Rotation, day: Date): { startDate: Date; endDate: Date } {
+  const [hours, minutes] = (rotation.schedule.startTime || '08:00').split(':').map(Number)
+  const startDate = new Date(day)
+  startDate.setHours(hours || 0, minutes || 0, 0, 0)
+  return { startDate, endDate: addHours(startDate, ACGME_DUTY_LIMITS.continuousHours) }
+}
+
+const getMonthlyCallLimit = (rotation: Rotation): number => {
+  const callSchedule = rotation.schedule.callSchedule
+  if (callSchedule?.maxCallsPerMonth !== undefined) return callSchedule.maxCallsPerMonth
+  return callSchedule?.frequency === 'WEEKLY' ? DEFAULT_MAX_CALLS_PER_MONTH.WEEKLY : DEFAULT_MAX_CALLS_PER_MONTH.MONTHLY
+}
+
+/**
+ * Who is on service and on leave, and the rules for who may take call
+ */
+class CallEligibility {
+  readonly residents: Map<string, CallResident>
+  readonly rotations: Map<string, Rotation>
+  private readonly rules: CallPgyRules
+  private readonly service = new Map<string, ServiceInterval[]>()
+  private readonly leave = new Map<string, { start: Date; end: Date }[]>()
+
+  constructor(input: CallEligibilityInput) {
+    this.residents = new Map(input.residents.map(resident => [resident.id, resident]))
+    this.rotations = new Map(input.rotations.map(rotation => [rotation.id, rotation]))
+    this.rules = { ...DEFAULT_CALL_PGY_RULES, ...input.pgyRules }
+
+    input.schedules
+      .filter(schedule => schedule.status === 'PUBLISHED' && schedule.type === 'ROTATION')
+      .forEach(schedule => {
+        schedule.assignments.forEach(assignment => {
+          const start = toDate(assignment.startDate ?? schedule.startDate)
+          const end = toDate(assignment.endDate ?? schedule.endDate)
+          if (!assignment.rotationId || !start || !end) return
+
+          const intervals = this.service.get(assignment.residentId) ?? []
+          intervals.push({ rotationId: assignment.rotationId, start: startOfDay(start), end })
+          this.service.set(assignment.residentId, intervals)
+        })
+      })
+
+    input.approvedLeave.forEach(leave => {
+      const start = toDate(leave.startDate)
+      const end = toDate(leave.endDate)
+      if (!start || !end) return
+
+      const intervals = this.leave.get(leave.residentId) ?? []
+      intervals.push({ start: startOfDay(start), end: addHours(startOfDay(end), 24) })
+      this.leave.set(leave.residentId, intervals)
+    })
+  }
+
+  /**
+   * Residents on a rotation on a given day
+   */
+  residentsOn(rotationId: string, day: Date): string[] {
+    const residentIds: string[] = []
+    this.service.forEach((intervals, residentId) => {
+      if (intervals.some(interval => interval.rotationId === rotationId && interval.start <= day && interval.end >= day)) {
+        residentIds.push(residentId)
+      }
+    })
+    return residentIds.sort()
+  }
+
+  /**
+   * Why a resident cannot take a call, or null if they can. `otherCalls`
+   * are the ISO dates of the resident's other call shifts.
+   */
+  check(residentId: string, rotation: Rotation, day: Date, otherCalls: string[]): CallIneligibility | null {
+    const pgyLevel = this.residents.get(residentId)?.pgyLevel
+    if (!pgyLevel || pgyLevel < this.rules.minimumPgyLevel) return 'PGY_LEVEL'
+
+    if (pgyLevel === 1) {
+      const yearStart = getAcademicYearRange(getAcademicYear(day))?.startDate
+      if (yearStart && differenceInCalendarDays(day, yearStart) < this.rules.internOrientationDays) return 'ORIENTATION'
+    }
+
+    const onService = (this.service.get(residentId) ?? []).some(interval =>
+      interval.rotationId === rotation.id && interval.start <= day && interval.end >= day
+    )
+    if (!onService) return 'NOT_ON_ROTATION'
+
+    if ((this.leave.get(residentId) ?? []).some(interval => interval.start <= day && interval.end > day)) {
+      return 'ON_LEAVE'
+    }
+
+    const isoDay = toIsoDate(day)
+    if (otherCalls.includes(isoDay)) return 'ALREADY_ON_CALL'
+
+    // No more often than every third night, which also keeps the post-call day free
+    const spacing = ACGME_DUTY_LIMITS.callEveryNthNight
+    if (otherCalls.some(call => Math.abs(differenceInCalendarDays(toDate(call)!, day)) < spacing)) {
+      return 'CALL_SPACING'
+    }
+
+    const month = isoDay.slice(0, 7)
+    if (otherCalls.filter(call => call.startsWith(month)).length >= getMonthlyCallLimit(rotation)) {
+      return 'MONTHLY_LIMIT'
+    }
+
+    return null
+  }
+}
+
+/**
+ * Build the call roster for every call-taking rotation over a date range
+ */
+export function generateCallSchedule(input: CallSchedulerInput): CallRosterResult {
+  const eligibility = new CallEligibility(input)
+  const holidays = input.holidays ?? getDefaultHolidays(input.startDate, input.endDate)
+  const holidaySet = new Set(holidays)
+  const rotations = input.rotations.filter(takesRosteredCall).sort((a, b) => a.id.localeCompare(b.id))
+
+  // Nights with at least one resident on service need call cover
+  const nights: { rotation: Rotation; day: Date; date: string; callType: CallType; residentIds: string[] }[] = []
+  eachDayOfInterval({ start: startOfDay(input.startDate), end: startOfDay(input.endDate) }).forEach(day => {
+    rotations.forEach(rotation => {
+      const residentIds = eligibility.residentsOn(rotation.id, day)
+      if (residentIds.length === 0) return
+      nights.push({ rotation, day, date: toIsoDate(day), callType: getCallType(day, holidaySet), residentIds })
+    })
+  })
+
+  nights.sort((a, b) =>
+    CALL_TYPE_PRIORITY.indexOf(a.callType) - CALL_TYPE_PRIORITY.indexOf(b.callType) ||
+    a.day.getTime() - b.day.getTime() ||
+    a.rotation.id.localeCompare(b.rotation.id)
+  )
+
+  const calls = new Map<string, string[]>() // residentId -> ISO dates
+  input.existingCalls?.forEach(call => {
+    calls.set(call.residentId, [...(calls.get(call.residentId) ?? []), call.date])
+  })
+  const distribution = new Map<string, CallDistributionEntry>()
+  const entryFor = (residentId: string): CallDistributionEntry => {
+    let entry = distribution.get(residentId)
+    if (!entry) {
+      entry = { residentId, total: 0, weekend: 0, holiday: 0 }
+      distribution.set(residentId, entry)
+    }
+    return entry
+  }
+
+  const shifts: CallShift[] = []
+  const unfilledNights: UnfilledCallNight[] = []
+
+  nights.forEach(night => {
+    const rejections = new Map<CallIneligibility, number>()
+    const candidates = night.residentIds.filter(residentId => {
+      entryFor(residentId)
+      const reason = eligibility.check(residentId, night.rotation, night.day, calls.get(residentId) ?? [])
+      if (reason) rejections.set(reason, (rejections.get(reason) ?? 0) + 1)
+      return !reason
+    })
+
+    if (candidates.length === 0) {
+      const reasons = Array.from(rejections.entries())
+        .map(([reason, count]) => `${count} ${CALL_INELIGIBILITY_MESSAGES[reason]}`)
+        .join(', ')
+      unfilledNights.push({
+        rotationId: night.rotation.id,
+        date: night.date,
+        reason: `No eligible resident on ${night.rotation.name}: ${reasons}`
+      })
+      return
+    }
+
+    const kindCount = (entry: CallDistributionEntry): number =>
+      night.callType === 'HOLIDAY' ? entry.holiday : night.callType === 'WEEKEND' ? entry.weekend : entry.total
+
+    const residentId = candidates.sort((a, b) => {
+      const entryA = entryFor(a)
+      const entryB = entryFor(b)
+      return kindCount(entryA) - kindCount(entryB) || entryA.total - entryB.total || a.localeCompare(b)
+    })[0]
+
+    const entry = entryFor(residentId)
+    entry.total += 1
+    if (night.callType === 'WEEKEND') entry.weekend += 1
+    if (night.callType === 'HOLIDAY') entry.holiday += 1
+    calls.set(residentId, [...(calls.get(residentId) ?? []), night.date])
+
+    shifts.push({
+      residentId,
+      rotationId: night.rotation.id,
+      date: night.date,
+      callType: night.callType,
+      ...getCallShiftWindow(night.rotation, night.day)
+    })
+  })
+
+  shifts.sort((a, b) => a.startDate.getTime() - b.startDate.getTime() || a.rotationId.localeCompare(b.rotationId))
+  unfilledNights.sort((a, b) => a.date.localeCompare(b.date) || a.rotationId.localeCompare(b.rotationId))
+
+  return {
+    shifts,
+    unfilledNights,
+    distribution: Array.from(distribution.values()).sort((a, b) => b.total - a.total || a.residentId.localeCompare(b.residentId)),
+    holidays,
+    stats: {
+      filledNights: shifts.length,
+      totalNights: nights.length
+    }
+  }
+}
+
+/**
+ * Published call shifts outside a date range that still limit who can take
+ * call inside it: the rest of the range's first and last months, and the
+ * nights within call spacing of either end
+ */
+export function getCallsAround(schedules: Schedule[], startDate: Date, endDate: Date): ExistingCall[] {
+  const spacing = ACGME_DUTY_LIMITS.callEveryNthNight
+  const rangeStart = toIsoDate(startDate)
+  const rangeEnd = toIsoDate(endDate)
+  const windowStart = toIsoDate(min([startOfMonth(startDate), subDays(startDate, spacing)]))
+  const windowEnd = toIsoDate(max([endOfMonth(endDate), addDays(endDate, spacing)]))
+  const existingCalls: ExistingCall[] = []
+
+  schedules
+    .filter(schedule => schedule.status === 'PUBLISHED' && schedule.type === 'CALL')
+    .forEach(schedule => {
+      schedule.assignments.forEach(assignment => {
+        const date = getCallShiftDate(assignment)
+        if (!date || date < windowStart || date > windowEnd || (date >= rangeStart && date <= rangeEnd)) return
+        existingCalls.push({ residentId: assignment.residentId, date })
+      })
+    })
+
+  return existingCalls
+}
+
+/**
+ * Recount call totals per resident after shifts change hands. Residents in
+ * `previous` keep their entry even if they no longer hold any call.
+ */
+export function summarizeCallDistribution(
+  assignments: ScheduleAssignment[],
+  previous: CallDistributionEntry[] = []
+): CallDistributionEntry[] {
+  const distribution = new Map<string, CallDistributionEntry>(
+    previous.map(entry => [entry.residentId, { residentId: entry.residentId, total: 0, weekend: 0, holiday: 0 }])
+  )
+
+  assignments.forEach(assignment => {
+    const entry = distribution.get(assignment.residentId) ?? { residentId: assignment.residentId, total: 0, weekend: 0, holiday: 0 }
+    entry.total += 1
+    if (assignment.callType === 'WEEKEND') entry.weekend += 1
+    if (assignment.callType === 'HOLIDAY') entry.holiday += 1
+    distribution.set(assignment.residentId, entry)
+  })
+
+  return Array.from(distribution.values()).sort((a, b) => b.total - a.total || a.residentId.localeCompare(b.residentId))
+}
+
+/**
+ * ISO date a call assignment starts on
+ */
+export function getCallShiftDate(assignment: ScheduleAssignment): string | null {
+  const startDate = toDate(assignment.startDate)
+  return startDate ? toIsoDate(startDate) : null
+}
+
+/**
+ * Reassign call shifts on a CALL schedule and check every changed shift
+ * against the same rules as the generator. Two changes that trade residents
+ * between shifts make a swap.
+ */
+export function applyCallShiftChanges(
+  assignments: ScheduleAssignment[],
+  changes: CallShiftChange[],
+  input: CallEligibilityInput
+): { assignments: ScheduleAssignment[]; error: string | null } {
+  const eligibility = new CallEligibility(input)
+  const updated = assignments.map(assignment => ({ ...assignment }))
+  const changedIndexes: number[] = []
+
+  for (const change of changes) {
+    const index = updated.findIndex(assignment =>
+      assignment.rotationId === change.rotationId && getCallShiftDate(assignment) === change.date
+    )
+    if (index === -1) {
+      return { assignments, error: `No call shift on ${change.date} for that rotation` }
+    }
+    updated[index].residentId = change.residentId
+    changedIndexes.push(index)
+  }
+
+  for (const index of changedIndexes) {
+    const assignment = updated[index]
+    const rotation = eligibility.rotations.get(assignment.rotationId!)
+    const date = getCallShiftDate(assignment)!
+    if (!rotation) {
+      return { assignments, error: `Rotation for the ${date} call no longer exists` }
+    }
+
+    const otherCalls = updated
+      .filter((other, otherIndex) => otherIndex !== index && other.residentId === assignment.residentId)
+      .map(other => getCallShiftDate(other))
+      .filter((otherDate): otherDate is string => !!otherDate)
+
+    const reason = eligibility.check(assignment.residentId, rotation, toDate(date)!, otherCalls)
+    if (reason) {
+      const name = eligibility.residents.get(assignment.residentId)?.name || 'The resident'
+      return { assignments, error: `${name} cannot take the ${date} ${rotation.name} call: ${CALL_INELIGIBILITY_MESSAGES[reason]}` }
+    }
+  }
+
+  return { assignments: updated, error: null }
+}
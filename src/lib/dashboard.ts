@@ -0,0 +1,101 @@
+/**
+ * EMMA Healthcare Dashboard Summary
+ *
+ * Headline figures for the dashboard overview, computed from resident
+ * records, published schedules and the evaluations the viewer is
+ * responsible for.
+ */
+
+import { startOfMonth } from 'date-fns'
+import { Evaluation, Schedule } from '@/types/database'
+import { UserRole } from '@/types/user'
+import { getAcademicYear, getAcademicYearRange, TimestampLike, toDate } from './date-utils'
+
+export interface DashboardSummary {
+  totalResidents: number
+  newResidentsThisMonth: number
+  activeRotations: number // Rotations with a resident assigned today
+  activeAssignments: number
+  pendingEvaluations: number
+  overdueEvaluations: number
+  completionRate: number | null // Percent of evaluations due this academic year that are completed; null for residents
+  evaluationScope: 'INSTITUTION' | 'EVALUATOR' | 'RESIDENT'
+  generatedAt: string
+}
+
+export interface DashboardSummaryInput {
+  viewerRole: UserRole
+  residents: { createdAt?: TimestampLike }[]
+  schedules: Schedule[] // Published schedules
+  evaluations: Evaluation[] // Already scoped to the viewer
+  now?: Date
+}
+
+/**
+ * Which evaluations count towards a viewer's pending figure: coordinators
+ * and admins track the whole program, faculty their own drafts, and
+ * residents approved evaluations still waiting for their acknowledgement
+ */
+export function getEvaluationScope(role: UserRole): DashboardSummary['evaluationScope'] {
+  if (role === 'RESIDENT') return 'RESIDENT'
+  if (role === 'FACULTY') return 'EVALUATOR'
+  return 'INSTITUTION'
+}
+
+const isPending = (evaluation: Evaluation, scope: DashboardSummary['evaluationScope']): boolean => {
+  switch (scope) {
+    case 'RESIDENT':
+      return evaluation.status === 'APPROVED' && !evaluation.residentFeedback?.acknowledgedDate
+    case 'EVALUATOR':
+      return evaluation.status === 'DRAFT'
+    case 'INSTITUTION':
+      return evaluation.status === 'DRAFT' || evaluation.status === 'SUBMITTED' || evaluation.status === 'REVIEWED'
+  }
+}
+
+/**
+ * Compute the dashboard summary figures
+ */
+export function buildDashboardSummary(input: DashboardSummaryInput): DashboardSummary {
+  const now = input.now ?? new Date()
+  const scope = getEvaluationScope(input.viewerRole)
+  const monthStart = startOfMonth(now)
+
+  const activeRotationIds = new Set<string>()
+  let activeAssignments = 0
+  input.schedules
+    .filter(schedule => schedule.type === 'ROTATION')
+    .forEach(schedule => {
+      schedule.assignments.forEach(assignment => {
+        const start = toDate(assignment.startDate ?? schedule.startDate)
+        const end = toDate(assignment.endDate ?? schedule.endDate)
+        if (!start || !end || start > now || end < now) return
+
+        activeAssignments += 1
+        if (assignment.rotationId) activeRotationIds.add(assignment.rotationId)
+      })
+    })
+
+  // Completion covers evaluations due so far this academic year
+  const academicYear = getAcademicYearRange(getAcademicYear(now))!
+  const due = input.evaluations.filter(evaluation => {
+    const dueDate = toDate(evaluation.dueDate)
+    return !!dueDate && dueDate >= academicYear.startDate && dueDate <= now
+  })
+  const completed = due.filter(evaluation => evaluation.status !== 'DRAFT')
+
+  return {
+    totalResidents: input.residents.length,
+    newResidentsThisMonth: input.residents.filter(resident => {
+      const createdAt = toDate(resident.createdAt)
+      return !!createdAt && createdAt >= monthStart
+    }).length,
+    activeRotations: activeRotationIds.size,
+    activeAssignments,
+    pendingEvaluations: input.evaluations.filter(evaluation => isPending(evaluation, scope)).length,
+    overdueEvaluations: due.filter(evaluation => evaluation.status === 'DRAFT').length,
+    completionRate: scope !== 'RESIDENT' && due.length > 0 ? Math.round((completed.length / due.length) * 100) : null,
+    evaluationScope: scope,
+    generatedAt: now.toISOString(),
+  }
+}
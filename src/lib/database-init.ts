@@ -23,9 +23,15 @@ import {
   ResidentProfile
 } from '@/types/database'
 import { UserRole, Department, ROLE_PERMISSIONS } from '@/types/user'
+import { DEFAULT_AUTHENTICATION_SETTINGS } from './password-policy'
+import { DEFAULT_HIPAA_SETTINGS } from './session-policy'
+import { DEFAULT_LEAVE_SETTINGS } from './leave'
 
 // ===== DEFAULT INSTITUTION DATA =====
 
+// The institution created by initializeDatabase; others join through onboarding
+export const DEFAULT_INSTITUTION_ID = 'allegheny-general'
+
 export const DEFAULT_INSTITUTION: Omit<Institution, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'> = {
   name: 'Allegheny General Hospital',
   type: 'HOSPITAL',
@@ -63,30 +69,9 @@ export const DEFAULT_INSTITUTION: Omit<Institution, 'id' | 'createdAt' | 'update
 
 // ===== DEFAULT SYSTEM SETTINGS =====
 
-export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'> = {
-  institutionId: 'allegheny-general',
-  authentication: {
-    sessionTimeout: 480, // 8 hours
-    maxLoginAttempts: 5,
-    lockoutDuration: 30, // 30 minutes
-    requireMFA: false,
-    passwordPolicy: {
-      minLength: 8,
-      requireUppercase: true,
-      requireLowercase: true,
-      requireNumbers: true,
-      requireSpecialChars: false,
-      preventReuse: true,
-      reuseHistory: 3
-    }
-  },
-  hipaa: {
-    auditLogging: true,
-    dataRetentionDays: 2555, // 7 years
-    automaticLogout: true,
-    screenLockTimeout: 15, // 15 minutes
-    requireEncryption: true
-  },
+export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'institutionId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'> = {
+  authentication: DEFAULT_AUTHENTICATION_SETTINGS,
+  hipaa: DEFAULT_HIPAA_SETTINGS,
   academic: {
     academicYearStart: '2024-07-01',
     academicYearEnd: '2025-06-30',
@@ -94,6 +79,7 @@ export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'createdAt' |
     scheduleAdvanceNotice: 14, // 2 weeks
     allowSelfScheduling: false
   },
+  leave: DEFAULT_LEAVE_SETTINGS,
   notifications: {
     emailEnabled: true,
     smsEnabled: false,
@@ -104,13 +90,27 @@ export const DEFAULT_SYSTEM_SETTINGS: Omit<SystemSettings, 'id' | 'createdAt' |
   }
 }
 
+/**
+ * Default system settings document for an institution
+ */
+export const createInstitutionSettings = (
+  institutionId: string,
+  createdBy: string
+): Omit<SystemSettings, 'createdAt' | 'updatedAt'> => ({
+  ...DEFAULT_SYSTEM_SETTINGS,
+  id: `${institutionId}-settings`,
+  institutionId,
+  createdBy,
+  lastModifiedBy: createdBy
+})
+
 // ===== DEFAULT ADMIN USER =====
 
 export const createDefaultAdminUser = (
   email: string,
   firstName: string,
   lastName: string,
-  institutionId: string = 'allegheny-general'
+  institutionId: string = DEFAULT_INSTITUTION_ID
 ): Omit<ExtendedUser, 'id' | 'createdAt' | 'updatedAt'> => ({
   email,
   role: 'ADMIN',
@@ -158,12 +158,15 @@ export const createDefaultAdminUser = (
 // ===== INITIALIZATION FUNCTIONS =====
 
 /**
- * Initialize the database with default institution and settings
+ * Initialize the database with default institution and settings. Its first
+ * administrator is also the platform super admin who onboards further
+ * institutions.
  */
 export async function initializeDatabase(
   adminEmail: string,
   adminFirstName: string,
-  adminLastName: string
+  adminLastName: string,
+  institutionId: string = DEFAULT_INSTITUTION_ID
 ): Promise<{
   institution: Institution
   adminUser: ExtendedUser
@@ -174,7 +177,6 @@ export async function initializeDatabase(
   try {
     const batch = writeBatch(db)
     const timestamp = Timestamp.now()
-    const institutionId = 'allegheny-general'
     
     // Check if already initialized
     const institutionDoc = await getDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId))
@@ -196,6 +198,7 @@ export async function initializeDatabase(
     const adminUserData = createDefaultAdminUser(adminEmail, adminFirstName, adminLastName, institutionId)
     const adminUser: ExtendedUser = {
       ...adminUserData,
+      platformRole: 'SUPER_ADMIN',
       id: adminEmail.split('@')[0],
       createdAt: timestamp,
       updatedAt: timestamp
@@ -206,13 +209,9 @@ export async function initializeDatabase(
 
     // Create system settings
     const systemSettings: SystemSettings = {
-      ...DEFAULT_SYSTEM_SETTINGS,
-      id: `${institutionId}-settings`,
-      institutionId,
+      ...createInstitutionSettings(institutionId, 'SYSTEM_INIT'),
       createdAt: timestamp,
-      updatedAt: timestamp,
-      createdBy: 'SYSTEM_INIT',
-      lastModifiedBy: 'SYSTEM_INIT'
+      updatedAt: timestamp
     }
 
     // Add to batch
@@ -254,18 +253,26 @@ export async function initializeDatabase(
 /**
  * Seed database with sample data for development/testing
  */
-export async function seedDevelopmentData(institutionId: string = 'allegheny-general'): Promise<void> {
+export async function seedDevelopmentData(institutionId: string = DEFAULT_INSTITUTION_ID): Promise<void> {
   console.log('[EMMA] Seeding development data...')
   
   try {
     const batch = writeBatch(db)
     const timestamp = Timestamp.now()
 
+    // Namespace sample accounts outside the default institution so seeding
+    // several institutions never overwrites another's users
+    const isDefaultInstitution = institutionId === DEFAULT_INSTITUTION_ID
+    const emailDomain = isDefaultInstitution ? 'ahn.org' : `${institutionId}.example.org`
+    const seedUserId = (name: string) => isDefaultInstitution ? name : `${institutionId}.${name}`
+    const facultyId = seedUserId('john.attending')
+    const residentId = seedUserId('mike.resident')
+
     // Sample users
     const sampleUsers: Omit<ExtendedUser, 'id' | 'createdAt' | 'updatedAt'>[] = [
       // Faculty member
       {
-        email: 'john.attending@ahn.org',
+        email: `john.attending@${emailDomain}`,
         role: 'FACULTY',
         firstName: 'John',
         lastName: 'Attending',
@@ -301,7 +308,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
       
       // Program coordinator
       {
-        email: 'sarah.coordinator@ahn.org',
+        email: `sarah.coordinator@${emailDomain}`,
         role: 'COORDINATOR',
         firstName: 'Sarah',
         lastName: 'Coordinator',
@@ -329,7 +336,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
       
       // Resident physicians
       {
-        email: 'mike.resident@ahn.org',
+        email: `mike.resident@${emailDomain}`,
         role: 'RESIDENT',
         firstName: 'Mike',
         lastName: 'Resident',
@@ -337,7 +344,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
         pgyLevel: 2,
         status: 'ACTIVE',
         institutionId,
-        supervisingFacultyId: 'john.attending',
+        supervisingFacultyId: facultyId,
         isActive: true,
         emailVerified: true,
         createdBy: 'SEED_DATA',
@@ -358,7 +365,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
           startDate: Timestamp.fromDate(new Date('2023-07-01')),
           position: 'Resident Physician',
           department: 'EMERGENCY_MEDICINE',
-          supervisor: 'john.attending',
+          supervisor: facultyId,
           employmentType: 'FULL_TIME'
         }]
       }
@@ -366,7 +373,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
 
     // Add users to batch
     sampleUsers.forEach((userData) => {
-      const userId = userData.email.split('@')[0]
+      const userId = seedUserId(userData.email.split('@')[0])
       const user: ExtendedUser = {
         ...userData,
         id: userId,
@@ -378,8 +385,8 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
 
     // Create resident profile for the resident user
     const residentProfile: ResidentProfile = {
-      id: 'mike.resident',
-      userId: 'mike.resident',
+      id: residentId,
+      userId: residentId,
       institutionId,
       program: {
         name: 'Emergency Medicine Residency',
@@ -397,8 +404,8 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
         milestones: []
       },
       supervisingFaculty: {
-        primarySupervisorId: 'john.attending',
-        academicAdvisorId: 'john.attending'
+        primarySupervisorId: facultyId,
+        academicAdvisorId: facultyId
       },
       createdAt: timestamp,
       updatedAt: timestamp,
@@ -435,7 +442,7 @@ export async function seedDevelopmentData(institutionId: string = 'allegheny-gen
 /**
  * Check if database is initialized
  */
-export async function isDatabaseInitialized(institutionId: string = 'allegheny-general'): Promise<boolean> {
+export async function isDatabaseInitialized(institutionId: string = DEFAULT_INSTITUTION_ID): Promise<boolean> {
   try {
     const institutionDoc = await getDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId))
     return institutionDoc.exists()
@@ -448,7 +455,7 @@ export async function isDatabaseInitialized(institutionId: string = 'allegheny-g
 /**
  * Get initialization status and basic stats
  */
-export async function getDatabaseStats(institutionId: string = 'allegheny-general'): Promise<{
+export async function getDatabaseStats(institutionId: string = DEFAULT_INSTITUTION_ID): Promise<{
   initialized: boolean
   userCount?: number
   residentCount?: number
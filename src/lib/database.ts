@@ -19,12 +19,142 @@ import {
   limit, 
   Timestamp,
   writeBatch,
-  DocumentReference,
-  Query
+  DocumentReference
 } from 'firebase/firestore'
-import { FieldValue } from 'firebase-admin/firestore'
-import { db } from './firebase'
-import { adminDb, logAdminAction } from './firebase-admin'
+import { FieldValue, QueryDocumentSnapshot, Timestamp as AdminTimestamp, Transaction } from 'firebase-admin/firestore'
+import { addDays, eachDayOfInterval, format } from 'date-fns'
+import bcrypt from 'bcryptjs'
+import QRCode from 'qrcode'
+import { sendEmailVerification, sendPasswordResetEmail, signInWithCustomToken, signOut } from 'firebase/auth'
+import { auth, db } from './firebase'
+import { adminAuth, adminDb, logAdminAction } from './firebase-admin'
+import { detectScheduleConflicts } from './schedule-conflicts'
+import {
+  CallEligibilityInput,
+  CallShiftChange,
+  applyCallShiftChanges,
+  getCallShiftDate,
+  summarizeCallDistribution
+} from './call-scheduler'
+import {
+  ShiftSwapAction,
+  ShiftSwapAssessment,
+  ShiftSwapAssessmentInput,
+  SwapShiftOption,
+  assessShiftSwap,
+  checkSwapSchedule,
+  findCallShift,
+  getShiftSwapChanges
+} from './shift-swaps'
+import { DutyInterval, DutyHoursComplianceReport, buildDutyHoursReport, derivePlannedShifts } from './duty-hours'
+import { EvaluationAction, EVALUATION_TRANSITIONS } from './evaluation-workflow'
+import { EvaluationTemplateRequest, toTemplateKey } from './evaluation-templates'
+import {
+  CccHalf,
+  CccReport,
+  buildCccReport,
+  getCccPeriod,
+  getDefaultSubCompetencies,
+  mergeMilestoneLevels,
+  rollUpMilestoneLevels
+} from './milestones'
+import { AnalyticsPeriod, ClassAnalyticsReport, buildClassAnalytics } from './analytics'
+import { DashboardSummary, buildDashboardSummary, getEvaluationScope } from './dashboard'
+import {
+  ResidentPortal,
+  ResidentPortalProfile,
+  ResidentProfileUpdate,
+  ResidentRotationPreferences,
+  buildResidentPortal,
+  getRankableRotations,
+  normalizeResidentProfileUpdate,
+  toResidentPortalProfile
+} from './resident-portal'
+import { FacultyPortal, FacultyWorkloadEntry, buildFacultyPortal, buildFacultyWorkload } from './faculty-portal'
+import {
+  LeaveAction,
+  LeaveAssessment,
+  LeaveRequestInput,
+  ResidentLeaveSummary,
+  assessLeaveRequest,
+  calculateTrainingExtension,
+  countWorkingDays,
+  getLeaveBalances,
+  resolveLeaveSettings
+} from './leave'
+import { ResidentRequest } from './resident-validation'
+import { createInstitutionSettings } from './database-init'
+import {
+  InstitutionOnboardingRequest,
+  InstitutionOnboardingResult,
+  InstitutionSummary,
+  toInstitutionId,
+  toInstitutionSummary
+} from './institutions'
+import { UserListFilters, matchesUserSearch } from './user-management'
+import {
+  getPermissionClaims,
+  normalizeDepartmentPermissions,
+  normalizePermissionOverrides,
+  resolvePermissions
+} from './permissions'
+import { getAcademicYear, toDate } from './date-utils'
+import {
+  AuthenticationSettings,
+  DEFAULT_AUTHENTICATION_SETTINGS,
+  getLockoutExpiry,
+  isAccountLocked,
+  resolveAuthenticationSettings,
+  validatePassword
+} from './password-policy'
+import { MFA_ISSUER, MfaEnrollment, MfaMethod, MfaStatus, isMfaRequired } from './mfa'
+import { SessionPolicy, resolveHipaaSettings, resolveSessionPolicy } from './session-policy'
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotp
+} from './totp'
+import {
+  AUDIT_GENESIS_HASH,
+  AuditChainCursor,
+  AuditChainHead,
+  AuditChainIssue,
+  AuditChainVerification,
+  ChainedAuditEntry,
+  decryptAuditPhi,
+  verifyAuditChainHead,
+  verifyAuditChainSegment
+} from './audit-chain'
+import {
+  AUDIT_EXPORT_MAX_ROWS,
+  AuditExportFormat,
+  AuditLogEntry,
+  AuditLogFilters,
+  AuditLogPage,
+  categorizeAuditAction,
+  decodeAuditCursor,
+  describeAuditFilters,
+  encodeAuditCursor,
+  isAuditActionSuccess
+} from './audit-log'
+import {
+  ResidentImportResult,
+  ResidentImportRow,
+  ResidentImportRowResult,
+  RESIDENT_IMPORT_BATCH_SIZE
+} from './resident-import'
+import {
+  PromotionPlan,
+  PromotionResult,
+  PromotionResultRow,
+  ResolvedPromotion,
+  buildPromotionPlan,
+  getPromotionEffectiveDate,
+  isPromotionCompleted,
+  proposePromotion
+} from './promotion'
 
 // Helper function to recursively remove undefined values from objects
 function cleanUndefinedValues(obj: any): any {
@@ -55,14 +185,151 @@ import {
   ResidentProfile, 
   Rotation, 
   Schedule, 
+  ScheduleAssignment,
+  ScheduleConflict,
+  RotationPreference,
+  DutyShift,
   Evaluation,
+  EvaluationTemplate,
+  MilestoneSet,
+  MilestoneSubCompetency,
   HIPAAAuditLog,
+  LeaveRequest,
+  LeaveWarning,
+  ShiftSwapRequest,
+  ShiftSwapWarning,
+  SwapShift,
+  MfaSecret,
+  PasswordHistory,
   SystemSettings
 } from '@/types/database'
-import { UserRole, Department, PGYLevel, ROLE_PERMISSIONS } from '@/types/user'
+import {
+  UserRole,
+  Department,
+  PGYLevel,
+  ROLE_PERMISSIONS,
+  UserPermissions,
+  DepartmentPermissions,
+  InstitutionMembership
+} from '@/types/user'
 
 // ===== USER MANAGEMENT =====
 
+/**
+ * Apply account state to a user's Firebase Auth record: enable or disable
+ * sign-in and merge custom claims. Returns false when the user has no Auth
+ * account yet (e.g. residents created by an administrator who have not
+ * completed their account setup).
+ */
+async function syncAuthAccount(
+  userId: string,
+  state: { disabled?: boolean; claims?: Record<string, unknown> }
+): Promise<boolean> {
+  try {
+    const authUser = await adminAuth.getUser(userId)
+
+    if (state.disabled !== undefined) {
+      await adminAuth.updateUser(userId, { disabled: state.disabled })
+
+      // Disabling alone does not end existing sessions
+      if (state.disabled) {
+        await adminAuth.revokeRefreshTokens(userId)
+      }
+    }
+
+    if (state.claims) {
+      await adminAuth.setCustomUserClaims(userId, { ...authUser.customClaims, ...state.claims })
+    }
+
+    return true
+  } catch (error) {
+    if ((error as { code?: string })?.code === 'auth/user-not-found') {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Refuse to demote or suspend an institution's only active administrator
+ */
+async function assertOtherActiveAdmin(user: ExtendedUser): Promise<void> {
+  const admins = await adminDb.collection(COLLECTIONS.USERS)
+    .where('institutionId', '==', user.institutionId)
+    .where('role', '==', 'ADMIN')
+    .where('isActive', '==', true)
+    .get()
+
+  if (!admins.docs.some(doc => doc.id !== user.id)) {
+    throw new Error('Cannot remove the last active administrator')
+  }
+}
+
+/**
+ * Build a resident physician user document. The employment entry with
+ * position 'Resident Physician' is what resident listings filter on.
+ */
+function buildResidentPhysicianRecord(
+  residentData: ResidentRequest & { institutionId: string },
+  account: {
+    id: string
+    createdBy: string
+    status: ExtendedUser['status']
+    isActive: boolean
+    timestamp: unknown // Server timestamp sentinel or Timestamp
+  }
+): ExtendedUser {
+  return {
+    id: account.id,
+    email: residentData.email,
+    role: 'RESIDENT',
+    firstName: residentData.firstName,
+    lastName: residentData.lastName,
+    department: residentData.department,
+    pgyLevel: residentData.pgyLevel,
+    status: account.status,
+    institutionId: residentData.institutionId,
+    medicalLicenseNumber: residentData.medicalLicenseNumber,
+    supervisingFacultyId: residentData.supervisingFacultyId,
+    isActive: account.isActive,
+    emailVerified: false,
+    phoneNumber: residentData.phoneNumber,
+    createdBy: account.createdBy,
+    lastModifiedBy: account.createdBy,
+    permissions: ROLE_PERMISSIONS.RESIDENT,
+    createdAt: account.timestamp as any,
+    updatedAt: account.timestamp as any,
+
+    // Extended profile
+    profile: {
+      title: residentData.profile?.title || 'Dr.',
+      middleName: residentData.profile?.middleName,
+      preferredName: residentData.profile?.preferredName || residentData.firstName,
+      bio: '',
+    },
+
+    // Professional credentials (empty initially)
+    credentials: {
+      boardCertifications: []
+    },
+
+    // Education information
+    education: residentData.education || {
+      medicalSchool: '',
+      graduationYear: new Date().getFullYear()
+    },
+
+    // Employment as resident physician - KEY FIELD FOR FILTERING
+    employment: [{
+      startDate: account.timestamp as any,
+      position: 'Resident Physician',
+      department: residentData.department,
+      supervisor: residentData.supervisingFacultyId,
+      employmentType: 'FULL_TIME'
+    }]
+  }
+}
+
 export class UserService {
   /**
    * Create a new user profile using Firebase Admin SDK (Server-side only)
@@ -170,6 +437,37 @@ export class UserService {
     }
   }
 
+  /**
+   * Get a user document by ID without client-side rules (Server-side only).
+   * Used by API routes for ownership and institution checks.
+   */
+  static async getUserRecord(userId: string): Promise<ExtendedUser | null> {
+    try {
+      const userDoc = await adminDb.collection(COLLECTIONS.USERS).doc(userId).get()
+      return userDoc.exists ? { id: userDoc.id, ...userDoc.data() } as ExtendedUser : null
+    } catch (error) {
+      console.error('[EMMA] User fetch failed:', error)
+      throw new Error('Failed to retrieve user')
+    }
+  }
+
+  /**
+   * Get the user document for a Firebase Auth email (Server-side only).
+   * Returns null when no account uses the email.
+   */
+  static async getUserRecordByEmail(email: string): Promise<ExtendedUser | null> {
+    try {
+      const authUser = await adminAuth.getUserByEmail(email)
+      return await UserService.getUserRecord(authUser.uid)
+    } catch (error) {
+      if ((error as { code?: string })?.code === 'auth/user-not-found') {
+        return null
+      }
+      console.error('[EMMA] User fetch by email failed:', error)
+      throw new Error('Failed to retrieve user')
+    }
+  }
+
   /**
    * Get user by ID with HIPAA audit logging
    */
@@ -237,29 +535,41 @@ export class UserService {
   }
 
   /**
-   * Get users by institution with role-based filtering
+   * Get an institution's users of every role, with role, status and search
+   * filtering (Server-side only). Sorted by last name, first name.
    */
   static async getUsersByInstitution(
     institutionId: string,
     requestedBy: string,
-    role?: UserRole
+    filters: UserListFilters = {}
   ): Promise<ExtendedUser[]> {
     try {
-      let q: Query = query(
-        collection(db, COLLECTIONS.USERS),
-        where('institutionId', '==', institutionId),
-        where('isActive', '==', true)
-      )
+      let q = adminDb.collection(COLLECTIONS.USERS)
+        .where('institutionId', '==', institutionId)
 
-      if (role) {
-        q = query(q, where('role', '==', role))
+      if (filters.role) {
+        q = q.where('role', '==', filters.role)
       }
 
-      const querySnapshot = await getDocs(q)
-      const users: ExtendedUser[] = []
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      }
 
-      querySnapshot.forEach((doc) => {
-        users.push(doc.data() as ExtendedUser)
+      const querySnapshot = await q.get()
+      let users = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as ExtendedUser)
+
+      if (filters.departments) {
+        users = users.filter(user => !!user.department && filters.departments!.includes(user.department))
+      }
+
+      if (filters.search) {
+        users = users.filter(user => matchesUserSearch(user, filters.search!))
+      }
+
+      users.sort((a, b) => {
+        const lastNameCompare = a.lastName.localeCompare(b.lastName)
+        if (lastNameCompare !== 0) return lastNameCompare
+        return a.firstName.localeCompare(b.firstName)
       })
 
       // HIPAA Audit logging
@@ -270,7 +580,12 @@ export class UserService {
         institutionId,
         {
           userCount: users.length,
-          roleFilter: role,
+          filters: {
+            role: filters.role,
+            status: filters.status,
+            departments: filters.departments,
+            hasSearch: !!filters.search
+          },
           institutionId
         }
       )
@@ -427,55 +742,13 @@ export class UserService {
         (await import('firebase-admin/firestore')).FieldValue.serverTimestamp() :
         Timestamp.now()
 
-      const newResident: ExtendedUser = {
+      const newResident = buildResidentPhysicianRecord(residentData, {
         id: userId,
-        email: residentData.email,
-        role: 'RESIDENT',
-        firstName: residentData.firstName,
-        lastName: residentData.lastName,
-        department: residentData.department,
-        pgyLevel: residentData.pgyLevel,
+        createdBy,
         status: 'PENDING_VERIFICATION',
-        institutionId: residentData.institutionId,
-        medicalLicenseNumber: residentData.medicalLicenseNumber,
-        supervisingFacultyId: residentData.supervisingFacultyId,
         isActive: false, // Will be activated when Firebase Auth user is created
-        emailVerified: false,
-        phoneNumber: residentData.phoneNumber,
-        createdBy,
-        lastModifiedBy: createdBy,
-        permissions: ROLE_PERMISSIONS.RESIDENT,
-        createdAt: timestamp as any,
-        updatedAt: timestamp as any,
-        
-        // Extended profile
-        profile: {
-          title: residentData.profile?.title || 'Dr.',
-          middleName: residentData.profile?.middleName,
-          preferredName: residentData.profile?.preferredName || residentData.firstName,
-          bio: '',
-        },
-        
-        // Professional credentials (empty initially)
-        credentials: {
-          boardCertifications: []
-        },
-        
-        // Education information
-        education: residentData.education || {
-          medicalSchool: '',
-          graduationYear: new Date().getFullYear()
-        },
-        
-        // Employment as resident physician - KEY FIELD FOR FILTERING
-        employment: [{
-          startDate: timestamp as any,
-          position: 'Resident Physician',
-          department: residentData.department,
-          supervisor: residentData.supervisingFacultyId,
-          employmentType: 'FULL_TIME'
-        }]
-      }
+        timestamp
+      })
 
       // Clean up undefined values for Firestore
       const cleanedResident = cleanUndefinedValues(newResident)
@@ -516,304 +789,5083 @@ export class UserService {
       throw new Error('Failed to create resident physician profile')
     }
   }
-}
-
-// ===== INSTITUTION MANAGEMENT =====
-
-export class InstitutionService {
-  static async createInstitution(
-    institutionData: Omit<Institution, 'id' | 'createdAt' | 'updatedAt'>,
-    createdBy: string
-  ): Promise<Institution> {
+  /**
+   * Update a resident physician's profile (Server-side only). Department
+   * changes are mirrored to the employment record and Auth custom claims.
+   */
+  static async updateResidentPhysician(
+    resident: ExtendedUser,
+    updates: Partial<ExtendedUser>,
+    updatedBy: string
+  ): Promise<ExtendedUser> {
     try {
-      const institutionId = institutionData.name.toLowerCase().replace(/\s+/g, '-')
-      const timestamp = Timestamp.now()
+      if (typeof window !== 'undefined') {
+        throw new Error('updateResidentPhysician must only be called server-side')
+      }
 
-      const newInstitution: Institution = {
-        ...institutionData,
-        id: institutionId,
-        createdAt: timestamp,
-        updatedAt: timestamp,
-        createdBy,
-        lastModifiedBy: createdBy
+      const updateData: Record<string, any> = {
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: updatedBy
       }
 
-      await setDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId), newInstitution)
+      const departmentChanged = !!updates.department && updates.department !== resident.department
+      if (departmentChanged && resident.employment?.length) {
+        updateData.employment = resident.employment.map(entry =>
+          entry.position === 'Resident Physician' && !entry.endDate
+            ? { ...entry, department: updates.department }
+            : entry
+        )
+      }
+
+      const residentRef = adminDb.collection(COLLECTIONS.USERS).doc(resident.id)
+      await residentRef.update(cleanUndefinedValues(updateData))
 
+      if (departmentChanged) {
+        await syncAuthAccount(resident.id, { claims: { department: updates.department } })
+      }
+
+      // HIPAA Audit logging - field names only, values may contain PHI
       await logAdminAction(
-        'INSTITUTION_CREATED',
-        createdBy,
-        'INSTITUTION',
-        institutionId,
+        'RESIDENT_PHYSICIAN_UPDATED',
+        updatedBy,
+        'USER',
+        resident.id,
         {
-          name: institutionData.name,
-          type: institutionData.type
+          updatedFields: Object.keys(updates),
+          department: updates.department,
+          pgyLevel: updates.pgyLevel,
+          institutionId: resident.institutionId
         }
       )
 
-      return newInstitution
+      const updatedDoc = await residentRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
     } catch (error) {
-      console.error('[EMMA] Institution creation failed:', error)
-      throw new Error('Failed to create institution')
+      console.error('[EMMA] Resident physician update failed:', error)
+      throw new Error('Failed to update resident physician')
     }
   }
 
-  static async getInstitutionById(institutionId: string): Promise<Institution | null> {
+  /**
+   * Deactivate a resident physician (soft delete). The profile is kept for
+   * schedules, evaluations and audit history; sign-in is blocked by
+   * disabling the Firebase Auth account and revoking its sessions.
+   */
+  static async deactivateResidentPhysician(
+    resident: ExtendedUser,
+    deactivatedBy: string,
+    reason?: string
+  ): Promise<void> {
     try {
-      const institutionDoc = await getDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId))
-      return institutionDoc.exists() ? institutionDoc.data() as Institution : null
+      if (typeof window !== 'undefined') {
+        throw new Error('deactivateResidentPhysician must only be called server-side')
+      }
+
+      const hasAuthAccount = await syncAuthAccount(resident.id, {
+        disabled: true,
+        claims: { isActive: false }
+      })
+
+      try {
+        await adminDb.collection(COLLECTIONS.USERS).doc(resident.id).update({
+          isActive: false,
+          status: 'INACTIVE',
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: deactivatedBy
+        })
+      } catch (firestoreError) {
+        // Do not leave the Auth account disabled for a resident still shown as active
+        if (hasAuthAccount) {
+          await syncAuthAccount(resident.id, { disabled: false, claims: { isActive: resident.isActive } })
+        }
+        throw firestoreError
+      }
+
+      await logAdminAction(
+        'RESIDENT_PHYSICIAN_DEACTIVATED',
+        deactivatedBy,
+        'USER',
+        resident.id,
+        {
+          previousStatus: resident.status,
+          reason,
+          authAccountDisabled: hasAuthAccount,
+          institutionId: resident.institutionId
+        }
+      )
     } catch (error) {
-      console.error('[EMMA] Institution fetch failed:', error)
-      return null
+      console.error('[EMMA] Resident physician deactivation failed:', error)
+      throw new Error('Failed to deactivate resident physician')
     }
   }
 
-  static async updateInstitution(
-    institutionId: string,
-    updateData: Partial<Institution>,
-    updatedBy: string
-  ): Promise<void> {
+  /**
+   * Reactivate a deactivated resident physician, re-enabling the Firebase
+   * Auth account and restoring the isActive flag. Residents who never
+   * verified their email return to PENDING_VERIFICATION.
+   */
+  static async reactivateResidentPhysician(
+    resident: ExtendedUser,
+    reactivatedBy: string
+  ): Promise<ExtendedUser> {
     try {
-      const updatePayload = {
-        ...updateData,
-        updatedAt: Timestamp.now(),
-        lastModifiedBy: updatedBy
+      if (typeof window !== 'undefined') {
+        throw new Error('reactivateResidentPhysician must only be called server-side')
       }
-      
-      await updateDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId), updatePayload)
-      
+
+      const status: ExtendedUser['status'] = resident.emailVerified ? 'ACTIVE' : 'PENDING_VERIFICATION'
+
+      // Sign-in stays blocked by the INACTIVE status until the profile is updated
+      const hasAuthAccount = await syncAuthAccount(resident.id, {
+        disabled: false,
+        claims: { isActive: true }
+      })
+
+      const residentRef = adminDb.collection(COLLECTIONS.USERS).doc(resident.id)
+      await residentRef.update({
+        isActive: true,
+        status,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: reactivatedBy
+      })
+
       await logAdminAction(
-        'INSTITUTION_UPDATED',
-        updatedBy,
-        'INSTITUTION',
-        institutionId,
-        updatePayload
+        'RESIDENT_PHYSICIAN_REACTIVATED',
+        reactivatedBy,
+        'USER',
+        resident.id,
+        {
+          status,
+          authAccountEnabled: hasAuthAccount,
+          institutionId: resident.institutionId
+        }
       )
+
+      const updatedDoc = await residentRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
     } catch (error) {
-      console.error('[EMMA] Institution update failed:', error)
-      throw error
+      console.error('[EMMA] Resident physician reactivation failed:', error)
+      throw new Error('Failed to reactivate resident physician')
     }
   }
-}
-
-// ===== RESIDENT MANAGEMENT =====
+  /**
+   * Move a user to a new role (Server-side only): permissions are reset to
+   * ROLE_PERMISSIONS, clearing any overrides and department grants, and the
+   * Firebase custom claims re-issued. Existing Firebase sessions are revoked
+   * so the new claims take effect.
+   */
+  static async changeUserRole(
+    user: ExtendedUser,
+    role: UserRole,
+    changedBy: string
+  ): Promise<ExtendedUser> {
+    if (user.role === 'ADMIN' && role !== 'ADMIN') {
+      await assertOtherActiveAdmin(user)
+    }
 
-export class ResidentService {
-  static async createResidentProfile(
-    residentData: Omit<ResidentProfile, 'id' | 'createdAt' | 'updatedAt'>,
-    createdBy: string
-  ): Promise<ResidentProfile> {
     try {
-      const timestamp = Timestamp.now()
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        role,
+        permissions: ROLE_PERMISSIONS[role],
+        permissionOverrides: FieldValue.delete(),
+        departmentPermissions: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: changedBy
+      })
 
-      const newResident: ResidentProfile = {
-        ...residentData,
-        id: residentData.userId,
-        createdAt: timestamp,
-        updatedAt: timestamp,
-        createdBy,
-        lastModifiedBy: createdBy
+      const hasAuthAccount = await syncAuthAccount(user.id, {
+        claims: { role, ...getPermissionClaims({ role }) }
+      })
+      if (hasAuthAccount) {
+        await adminAuth.revokeRefreshTokens(user.id)
       }
 
-      await setDoc(doc(db, COLLECTIONS.RESIDENTS, residentData.userId), newResident)
-
       await logAdminAction(
-        'RESIDENT_PROFILE_CREATED',
-        createdBy,
-        'RESIDENT',
-        residentData.userId,
+        'USER_ROLE_CHANGED',
+        changedBy,
+        'USER',
+        user.id,
         {
-          program: residentData.program.name,
-          department: residentData.program.department,
-          pgyLevel: residentData.program.currentPGYLevel
+          previousRole: user.role,
+          role,
+          clearedOverrides: !!user.permissionOverrides || !!user.departmentPermissions,
+          claimsUpdated: hasAuthAccount,
+          institutionId: user.institutionId
         }
       )
 
-      return newResident
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
     } catch (error) {
-      console.error('[EMMA] Resident profile creation failed:', error)
-      throw new Error('Failed to create resident profile')
+      console.error('[EMMA] User role change failed:', error)
+      throw new Error('Failed to change user role')
     }
   }
 
-  static async getResidentsByInstitution(
-    institutionId: string,
-    requestedBy: string
-  ): Promise<ResidentProfile[]> {
-    try {
-      const q = query(
-        collection(db, COLLECTIONS.RESIDENTS),
-        where('institutionId', '==', institutionId)
-      )
+  /**
+   * Replace a user's permission overrides and department grants (Server-side
+   * only). The effective permissions are stored alongside them and mirrored
+   * to the Firebase custom claims for firestore.rules.
+   */
+  static async updateUserPermissions(
+    user: ExtendedUser,
+    changes: { permissionOverrides: Partial<UserPermissions>; departmentPermissions: DepartmentPermissions },
+    updatedBy: string
+  ): Promise<ExtendedUser> {
+    const permissionOverrides = normalizePermissionOverrides(user.role, changes.permissionOverrides)
+    const departmentPermissions = normalizeDepartmentPermissions(changes.departmentPermissions)
 
-      const querySnapshot = await getDocs(q)
-      const residents: ResidentProfile[] = []
+    try {
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        permissions: resolvePermissions(user.role, permissionOverrides),
+        permissionOverrides: Object.keys(permissionOverrides).length > 0 ? permissionOverrides : FieldValue.delete(),
+        departmentPermissions: Object.keys(departmentPermissions).length > 0 ? departmentPermissions : FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: updatedBy
+      })
 
-      querySnapshot.forEach((doc) => {
-        residents.push(doc.data() as ResidentProfile)
+      const hasAuthAccount = await syncAuthAccount(user.id, {
+        claims: getPermissionClaims({ role: user.role, permissionOverrides, departmentPermissions })
       })
 
       await logAdminAction(
-        'RESIDENT_BULK_ACCESS',
-        requestedBy,
-        'RESIDENT_COLLECTION',
-        institutionId,
+        'USER_PERMISSIONS_CHANGED',
+        updatedBy,
+        'USER',
+        user.id,
         {
-          residentCount: residents.length,
-          institutionId
+          role: user.role,
+          previousOverrides: user.permissionOverrides ?? {},
+          permissionOverrides,
+          previousDepartmentPermissions: user.departmentPermissions ?? {},
+          departmentPermissions,
+          claimsUpdated: hasAuthAccount,
+          institutionId: user.institutionId
         }
       )
 
-      return residents
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
     } catch (error) {
-      console.error('[EMMA] Resident bulk fetch failed:', error)
-      throw new Error('Failed to retrieve residents')
+      console.error('[EMMA] User permissions update failed:', error)
+      throw new Error('Failed to update user permissions')
     }
   }
-}
 
-// ===== ROTATION MANAGEMENT =====
+  /**
+   * Suspend a user (Server-side only): sign-in is disabled and existing
+   * sessions revoked until the user is reinstated
+   */
+  static async suspendUser(
+    user: ExtendedUser,
+    suspendedBy: string,
+    reason?: string
+  ): Promise<ExtendedUser> {
+    if (user.role === 'ADMIN') {
+      await assertOtherActiveAdmin(user)
+    }
 
-export class RotationService {
-  static async createRotation(
-    rotationData: Omit<Rotation, 'id' | 'createdAt' | 'updatedAt'>,
-    createdBy: string
-  ): Promise<Rotation> {
     try {
-      const rotationId = `${rotationData.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`
-      const timestamp = Timestamp.now()
+      const hasAuthAccount = await syncAuthAccount(user.id, {
+        disabled: true,
+        claims: { isActive: false }
+      })
 
-      const newRotation: Rotation = {
-        ...rotationData,
-        id: rotationId,
-        createdAt: timestamp,
-        updatedAt: timestamp,
-        createdBy,
-        lastModifiedBy: createdBy
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      try {
+        await userRef.update(cleanUndefinedValues({
+          status: 'SUSPENDED',
+          isActive: false,
+          suspension: {
+            reason,
+            suspendedAt: AdminTimestamp.now(),
+            suspendedBy
+          },
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: suspendedBy
+        }))
+      } catch (firestoreError) {
+        // Do not leave the Auth account disabled for a user still shown as active
+        if (hasAuthAccount) {
+          await syncAuthAccount(user.id, { disabled: false, claims: { isActive: user.isActive } })
+        }
+        throw firestoreError
       }
 
-      await setDoc(doc(db, COLLECTIONS.ROTATIONS, rotationId), newRotation)
+      await logAdminAction(
+        'USER_SUSPENDED',
+        suspendedBy,
+        'USER',
+        user.id,
+        {
+          previousStatus: user.status,
+          reason,
+          authAccountDisabled: hasAuthAccount,
+          institutionId: user.institutionId
+        }
+      )
+
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] User suspension failed:', error)
+      throw new Error('Failed to suspend user')
+    }
+  }
+
+  /**
+   * Lift a suspension (Server-side only). Users who never verified their
+   * email return to PENDING_VERIFICATION.
+   */
+  static async reinstateUser(user: ExtendedUser, reinstatedBy: string): Promise<ExtendedUser> {
+    try {
+      const status: ExtendedUser['status'] = user.emailVerified ? 'ACTIVE' : 'PENDING_VERIFICATION'
+
+      const hasAuthAccount = await syncAuthAccount(user.id, {
+        disabled: false,
+        claims: { isActive: true }
+      })
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        status,
+        isActive: true,
+        suspension: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: reinstatedBy
+      })
 
       await logAdminAction(
-        'ROTATION_CREATED',
-        createdBy,
-        'ROTATION',
-        rotationId,
+        'USER_REINSTATED',
+        reinstatedBy,
+        'USER',
+        user.id,
         {
-          name: rotationData.name,
-          department: rotationData.department,
-          duration: rotationData.duration
+          status,
+          authAccountEnabled: hasAuthAccount,
+          institutionId: user.institutionId
         }
       )
 
-      return newRotation
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
     } catch (error) {
-      console.error('[EMMA] Rotation creation failed:', error)
-      throw new Error('Failed to create rotation')
+      console.error('[EMMA] User reinstatement failed:', error)
+      throw new Error('Failed to reinstate user')
     }
   }
 
-  static async getRotationsByDepartment(
-    institutionId: string,
-    department: Department
-  ): Promise<Rotation[]> {
+  /**
+   * Approve a self-registered account (Server-side only). Users who have not
+   * verified their email yet move on to PENDING_VERIFICATION.
+   */
+  static async approveUser(user: ExtendedUser, approvedBy: string): Promise<ExtendedUser> {
     try {
-      const q = query(
-        collection(db, COLLECTIONS.ROTATIONS),
-        where('institutionId', '==', institutionId),
-        where('department', '==', department),
-        where('status', '==', 'ACTIVE')
+      const status: ExtendedUser['status'] = user.emailVerified ? 'ACTIVE' : 'PENDING_VERIFICATION'
+
+      const hasAuthAccount = await syncAuthAccount(user.id, {
+        claims: { isActive: true }
+      })
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        status,
+        isActive: true,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: approvedBy
+      })
+
+      await logAdminAction(
+        'USER_APPROVED',
+        approvedBy,
+        'USER',
+        user.id,
+        {
+          status,
+          role: user.role,
+          authAccountUpdated: hasAuthAccount,
+          institutionId: user.institutionId
+        }
       )
 
-      const querySnapshot = await getDocs(q)
-      const rotations: Rotation[] = []
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] User approval failed:', error)
+      throw new Error('Failed to approve user')
+    }
+  }
 
-      querySnapshot.forEach((doc) => {
-        rotations.push(doc.data() as Rotation)
+  /**
+   * Send the user another email verification link (Server-side only). The
+   * link is sent by Firebase Auth as the user, via a short-lived custom
+   * token sign-in.
+   */
+  static async resendVerificationEmail(user: ExtendedUser, requestedBy: string): Promise<void> {
+    try {
+      const customToken = await adminAuth.createCustomToken(user.id)
+      const credential = await signInWithCustomToken(auth, customToken)
+
+      try {
+        await sendEmailVerification(credential.user, {
+          url: `${process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'}/`
+        })
+      } finally {
+        await signOut(auth)
+      }
+
+      await logAdminAction(
+        'USER_VERIFICATION_EMAIL_SENT',
+        requestedBy,
+        'USER',
+        user.id,
+        {
+          institutionId: user.institutionId
+        }
+      )
+    } catch (error) {
+      console.error('[EMMA] Verification email failed:', error)
+      throw new Error('Failed to send verification email')
+    }
+  }
+
+  /**
+   * Bulk-create resident physicians from validated import rows (Server-side
+   * only). Emails already registered are rejected per row. Unless this is a
+   * dry run, valid rows are created in batches: each resident gets a
+   * Firebase Auth account, a user document keyed by the Auth UID, custom
+   * claims and an invitation email to set their password.
+   */
+  static async importResidentPhysicians(
+    rows: ResidentImportRow[],
+    institutionId: string,
+    importedBy: string,
+    dryRun: boolean
+  ): Promise<ResidentImportResult> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('importResidentPhysicians must only be called server-side')
+      }
+
+      const results: ResidentImportRowResult[] = rows.map(row => ({
+        rowNumber: row.rowNumber,
+        email: row.email,
+        name: row.name,
+        status: row.request ? 'VALID' : 'INVALID',
+        errors: [...row.errors]
+      }))
+
+      // Reject emails that already have a profile or an Auth account
+      const candidateEmails = rows.filter(row => row.request).map(row => row.email)
+      const existingEmails = new Set<string>()
+
+      for (let i = 0; i < candidateEmails.length; i += 30) {
+        const snapshot = await adminDb.collection(COLLECTIONS.USERS)
+          .where('email', 'in', candidateEmails.slice(i, i + 30))
+          .get()
+        snapshot.forEach(userDoc => existingEmails.add(String(userDoc.data().email).toLowerCase()))
+      }
+
+      for (let i = 0; i < candidateEmails.length; i += 100) {
+        const { users } = await adminAuth.getUsers(candidateEmails.slice(i, i + 100).map(email => ({ email })))
+        users.forEach(user => user.email && existingEmails.add(user.email.toLowerCase()))
+      }
+
+      results.forEach(result => {
+        if (result.status === 'VALID' && existingEmails.has(result.email)) {
+          result.status = 'INVALID'
+          result.errors.push('A user with this email address already exists')
+        }
       })
 
-      return rotations
+      const validResults = results.filter(result => result.status === 'VALID')
+      const summarize = (): ResidentImportResult => ({
+        dryRun,
+        totalRows: results.length,
+        validRows: dryRun ? validResults.length : results.filter(result => result.status !== 'INVALID').length,
+        invalidRows: results.filter(result => result.status === 'INVALID').length,
+        created: results.filter(result => result.status === 'CREATED').length,
+        failed: results.filter(result => result.status === 'FAILED').length,
+        invitationsSent: results.filter(result => result.invitationSent).length,
+        rows: results
+      })
+
+      if (dryRun) {
+        return summarize()
+      }
+
+      // Same activation rules as self-registration
+      const requireEmailVerification = process.env.NEXT_PUBLIC_REQUIRE_EMAIL_VERIFICATION === 'true'
+      const requestsByRow = new Map(rows.map(row => [row.rowNumber, row.request]))
+
+      for (let i = 0; i < validResults.length; i += RESIDENT_IMPORT_BATCH_SIZE) {
+        const batchResults = validResults.slice(i, i + RESIDENT_IMPORT_BATCH_SIZE)
+        const batch = adminDb.batch()
+        const created: { result: ResidentImportRowResult; uid: string }[] = []
+
+        for (const result of batchResults) {
+          const request = requestsByRow.get(result.rowNumber)!
+
+          try {
+            const authUser = await adminAuth.createUser({
+              email: request.email,
+              displayName: `${request.firstName} ${request.lastName}`,
+              emailVerified: false
+            })
+
+            await adminAuth.setCustomUserClaims(authUser.uid, {
+              role: 'RESIDENT',
+              department: request.department,
+              institutionId,
+              emailVerified: !requireEmailVerification,
+              isActive: !requireEmailVerification
+            })
+
+            const resident = buildResidentPhysicianRecord({ ...request, institutionId }, {
+              id: authUser.uid,
+              createdBy: importedBy,
+              status: requireEmailVerification ? 'PENDING_VERIFICATION' : 'ACTIVE',
+              isActive: !requireEmailVerification,
+              timestamp: FieldValue.serverTimestamp()
+            })
+
+            batch.set(adminDb.collection(COLLECTIONS.USERS).doc(authUser.uid), cleanUndefinedValues(resident))
+            created.push({ result, uid: authUser.uid })
+          } catch (authError) {
+            result.status = 'FAILED'
+            result.errors.push(authError instanceof Error ? authError.message : 'Failed to create sign-in account')
+          }
+        }
+
+        if (created.length === 0) continue
+
+        try {
+          await batch.commit()
+        } catch (batchError) {
+          console.error('[EMMA] Resident import batch failed:', batchError)
+
+          // Remove the Auth accounts so the rows can be imported again
+          await adminAuth.deleteUsers(created.map(({ uid }) => uid)).catch(cleanupError =>
+            console.error('[EMMA] Failed to clean up Auth accounts after import batch failure:', cleanupError)
+          )
+          created.forEach(({ result }) => {
+            result.status = 'FAILED'
+            result.errors.push('Failed to save resident profile')
+          })
+          continue
+        }
+
+        for (const { result, uid } of created) {
+          result.status = 'CREATED'
+          result.residentId = uid
+
+          // The password reset email doubles as the invitation to set a password
+          try {
+            await sendPasswordResetEmail(auth, result.email, {
+              url: `${process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'}/`
+            })
+            result.invitationSent = true
+          } catch (inviteError) {
+            console.error('[EMMA] Resident invitation email failed:', inviteError)
+            result.invitationSent = false
+          }
+        }
+      }
+
+      const summary = summarize()
+
+      // One summary entry for the whole import - row details stay out of the audit log
+      await logAdminAction(
+        'RESIDENTS_BULK_IMPORTED',
+        importedBy,
+        'RESIDENT_COLLECTION',
+        institutionId,
+        {
+          totalRows: summary.totalRows,
+          invalidRows: summary.invalidRows,
+          created: summary.created,
+          failed: summary.failed,
+          invitationsSent: summary.invitationsSent,
+          residentIds: results.filter(result => result.residentId).map(result => result.residentId),
+          institutionId
+        }
+      )
+
+      return summary
     } catch (error) {
-      console.error('[EMMA] Rotation fetch failed:', error)
-      throw new Error('Failed to retrieve rotations')
+      console.error('[EMMA] Resident import failed:', error)
+      throw new Error('Failed to import residents')
     }
   }
 }
 
-// ===== EVALUATION MANAGEMENT =====
+// ===== INSTITUTION MANAGEMENT =====
 
-export class EvaluationService {
-  static async createEvaluation(
-    evaluationData: Omit<Evaluation, 'id' | 'createdAt' | 'updatedAt'>,
+/**
+ * Academic year (July 1 - June 30) an institution onboarded today starts in
+ */
+function getCurrentAcademicYear(now: Date = new Date()): { start: Date; end: Date } {
+  const startYear = now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1
+  return {
+    start: new Date(startYear, 6, 1),
+    end: new Date(startYear + 1, 5, 30)
+  }
+}
+
+export class InstitutionService {
+  static async createInstitution(
+    institutionData: Omit<Institution, 'id' | 'createdAt' | 'updatedAt'>,
     createdBy: string
-  ): Promise<Evaluation> {
+  ): Promise<Institution> {
     try {
-      const evaluationId = `eval-${evaluationData.evaluateeId}-${Date.now()}`
+      const institutionId = toInstitutionId(institutionData.name)
       const timestamp = Timestamp.now()
 
-      const newEvaluation: Evaluation = {
-        ...evaluationData,
-        id: evaluationId,
+      const newInstitution: Institution = {
+        ...institutionData,
+        id: institutionId,
         createdAt: timestamp,
         updatedAt: timestamp,
         createdBy,
         lastModifiedBy: createdBy
       }
 
-      await setDoc(doc(db, COLLECTIONS.EVALUATIONS, evaluationId), newEvaluation)
+      await setDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId), newInstitution)
 
       await logAdminAction(
-        'EVALUATION_CREATED',
+        'INSTITUTION_CREATED',
         createdBy,
-        'EVALUATION',
-        evaluationId,
+        'INSTITUTION',
+        institutionId,
         {
-          evaluateeId: evaluationData.evaluateeId,
-          evaluatorId: evaluationData.evaluatorId,
-          type: evaluationData.type
+          name: institutionData.name,
+          type: institutionData.type
         }
       )
 
-      return newEvaluation
+      return newInstitution
     } catch (error) {
-      console.error('[EMMA] Evaluation creation failed:', error)
-      throw new Error('Failed to create evaluation')
+      console.error('[EMMA] Institution creation failed:', error)
+      throw new Error('Failed to create institution')
     }
   }
 
-  static async getEvaluationsByResident(
-    residentId: string,
-    requestedBy: string
-  ): Promise<Evaluation[]> {
+  static async getInstitutionById(institutionId: string): Promise<Institution | null> {
     try {
-      const q = query(
-        collection(db, COLLECTIONS.EVALUATIONS),
-        where('evaluateeId', '==', residentId),
-        orderBy('createdAt', 'desc')
-      )
+      const institutionDoc = await getDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId))
+      return institutionDoc.exists() ? institutionDoc.data() as Institution : null
+    } catch (error) {
+      console.error('[EMMA] Institution fetch failed:', error)
+      return null
+    }
+  }
 
-      const querySnapshot = await getDocs(q)
-      const evaluations: Evaluation[] = []
+  /**
+   * Fetch an institution with the Admin SDK (Server-side only)
+   */
+  static async getInstitutionRecord(institutionId: string): Promise<Institution | null> {
+    try {
+      const institutionDoc = await adminDb.collection(COLLECTIONS.INSTITUTIONS).doc(institutionId).get()
+      return institutionDoc.exists ? { ...institutionDoc.data(), id: institutionDoc.id } as Institution : null
+    } catch (error) {
+      console.error('[EMMA] Institution fetch failed:', error)
+      return null
+    }
+  }
 
-      querySnapshot.forEach((doc) => {
-        evaluations.push(doc.data() as Evaluation)
-      })
+  /**
+   * Every institution on the platform, for super admins (Server-side only)
+   */
+  static async listInstitutions(status?: Institution['status']): Promise<InstitutionSummary[]> {
+    try {
+      const snapshot = await adminDb.collection(COLLECTIONS.INSTITUTIONS).get()
 
-      await logAdminAction(
-        'EVALUATION_BULK_ACCESS',
-        requestedBy,
-        'EVALUATION_COLLECTION',
-        residentId,
-        {
-          evaluationCount: evaluations.length,
-          residentId
-        }
+      return snapshot.docs
+        .map(institutionDoc => toInstitutionSummary({ ...institutionDoc.data(), id: institutionDoc.id } as Institution))
+        .filter(institution => !status || institution.status === status)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    } catch (error) {
+      console.error('[EMMA] Institution list failed:', error)
+      throw new Error('Failed to retrieve institutions')
+    }
+  }
+
+  /**
+   * Summaries of the given institutions in the order requested, skipping
+   * any that no longer exist (Server-side only)
+   */
+  static async getInstitutionSummaries(institutionIds: string[]): Promise<InstitutionSummary[]> {
+    try {
+      const uniqueIds = Array.from(new Set(institutionIds))
+      if (uniqueIds.length === 0) return []
+
+      const snapshots = await adminDb.getAll(
+        ...uniqueIds.map(institutionId => adminDb.collection(COLLECTIONS.INSTITUTIONS).doc(institutionId))
       )
 
-      return evaluations
+      return snapshots
+        .filter(snapshot => snapshot.exists)
+        .map(snapshot => toInstitutionSummary({ ...snapshot.data(), id: snapshot.id } as Institution))
     } catch (error) {
-      console.error('[EMMA] Evaluation fetch failed:', error)
-      throw new Error('Failed to retrieve evaluations')
+      console.error('[EMMA] Institution summaries fetch failed:', error)
+      throw new Error('Failed to retrieve institutions')
+    }
+  }
+
+  /**
+   * Onboard a new institution (Server-side only): the institution, its
+   * system settings and its first administrator are written together. The
+   * administrator is invited to set a password by email, the same way as
+   * bulk-imported residents.
+   */
+  static async onboardInstitution(
+    request: InstitutionOnboardingRequest,
+    createdBy: string
+  ): Promise<InstitutionOnboardingResult> {
+    const institutionId = toInstitutionId(request.name)
+    const adminEmail = request.admin.email.trim().toLowerCase()
+    const department = request.activePrograms[0]
+    let adminUserId: string | null = null
+
+    try {
+      const authUser = await adminAuth.createUser({
+        email: adminEmail,
+        displayName: `${request.admin.firstName} ${request.admin.lastName}`,
+        emailVerified: false
+      })
+      adminUserId = authUser.uid
+
+      await adminAuth.setCustomUserClaims(authUser.uid, {
+        role: 'ADMIN',
+        department,
+        institutionId,
+        emailVerified: true,
+        isActive: true
+      })
+
+      const timestamp = FieldValue.serverTimestamp()
+      const academicYear = getCurrentAcademicYear()
+      const settings = createInstitutionSettings(institutionId, createdBy)
+
+      const institution = {
+        id: institutionId,
+        name: request.name.trim(),
+        type: request.type,
+        address: request.address,
+        contactInfo: request.contactInfo,
+        accreditation: [],
+        activePrograms: request.activePrograms,
+        adminUserIds: [authUser.uid],
+        settings: {
+          timezone: request.timezone,
+          academicYearStart: AdminTimestamp.fromDate(academicYear.start),
+          academicYearEnd: AdminTimestamp.fromDate(academicYear.end),
+          evaluationDeadlineDays: settings.academic.evaluationDeadlineDays,
+          enableHIPAAAudit: true,
+          enableRealTimeUpdates: true
+        },
+        status: 'ACTIVE',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      }
+
+      const adminUser = {
+        id: authUser.uid,
+        email: adminEmail,
+        role: 'ADMIN',
+        firstName: request.admin.firstName.trim(),
+        lastName: request.admin.lastName.trim(),
+        department,
+        status: 'ACTIVE',
+        institutionId,
+        isActive: true,
+        emailVerified: true,
+        createdBy,
+        lastModifiedBy: createdBy,
+        permissions: ROLE_PERMISSIONS.ADMIN,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        profile: {
+          preferredName: request.admin.firstName.trim(),
+          bio: 'System Administrator'
+        },
+        credentials: {
+          boardCertifications: []
+        },
+        employment: [{
+          startDate: timestamp,
+          position: 'System Administrator',
+          department,
+          employmentType: 'FULL_TIME'
+        }]
+      }
+
+      const batch = adminDb.batch()
+      batch.set(adminDb.collection(COLLECTIONS.INSTITUTIONS).doc(institutionId), cleanUndefinedValues(institution))
+      batch.set(adminDb.collection(COLLECTIONS.SYSTEM_SETTINGS).doc(settings.id), cleanUndefinedValues({
+        ...settings,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      }))
+      batch.set(adminDb.collection(COLLECTIONS.USERS).doc(authUser.uid), cleanUndefinedValues(adminUser))
+      await batch.commit()
+    } catch (error) {
+      console.error('[EMMA] Institution onboarding failed:', error)
+
+      // Remove the Auth account so the administrator's email can be used again
+      if (adminUserId) {
+        await adminAuth.deleteUser(adminUserId).catch(cleanupError =>
+          console.error('[EMMA] Failed to clean up Auth account after onboarding failure:', cleanupError)
+        )
+      }
+      throw new Error('Failed to onboard institution')
+    }
+
+    // The password reset email doubles as the invitation to set a password
+    let invitationSent = true
+    try {
+      await sendPasswordResetEmail(auth, adminEmail, {
+        url: `${process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'}/`
+      })
+    } catch (inviteError) {
+      console.error('[EMMA] Institution administrator invitation email failed:', inviteError)
+      invitationSent = false
+    }
+
+    await logAdminAction(
+      'INSTITUTION_ONBOARDED',
+      createdBy,
+      'INSTITUTION',
+      institutionId,
+      {
+        name: request.name.trim(),
+        type: request.type,
+        activePrograms: request.activePrograms,
+        adminUserId,
+        invitationSent,
+        institutionId
+      }
+    )
+
+    return {
+      institution: {
+        id: institutionId,
+        name: request.name.trim(),
+        type: request.type,
+        status: 'ACTIVE',
+        city: request.address.city,
+        state: request.address.state,
+        activePrograms: request.activePrograms
+      },
+      adminUserId: adminUserId!,
+      invitationSent
+    }
+  }
+
+  /**
+   * Users from other institutions given access to this one (Server-side only)
+   */
+  static async getInstitutionMembers(institutionId: string): Promise<ExtendedUser[]> {
+    try {
+      const snapshot = await adminDb.collection(COLLECTIONS.USERS)
+        .where('memberInstitutionIds', 'array-contains', institutionId)
+        .get()
+
+      return snapshot.docs
+        .map(userDoc => ({ id: userDoc.id, ...userDoc.data() }) as ExtendedUser)
+        .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName))
+    } catch (error) {
+      console.error('[EMMA] Institution members fetch failed:', error)
+      throw new Error('Failed to retrieve institution members')
+    }
+  }
+
+  /**
+   * Give a user a role in an institution other than their own, or change
+   * the role they already hold there (Server-side only)
+   */
+  static async addInstitutionMember(
+    user: ExtendedUser,
+    membership: InstitutionMembership,
+    addedBy: string
+  ): Promise<ExtendedUser> {
+    try {
+      const previous = user.institutionMemberships?.find(entry => entry.institutionId === membership.institutionId)
+      const institutionMemberships = [
+        ...(user.institutionMemberships ?? []).filter(entry => entry.institutionId !== membership.institutionId),
+        cleanUndefinedValues({ ...membership }) as InstitutionMembership
+      ]
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        institutionMemberships,
+        memberInstitutionIds: institutionMemberships.map(entry => entry.institutionId),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: addedBy
+      })
+
+      await logAdminAction(
+        previous ? 'INSTITUTION_MEMBER_UPDATED' : 'INSTITUTION_MEMBER_ADDED',
+        addedBy,
+        'USER',
+        user.id,
+        {
+          previousRole: previous?.role,
+          role: membership.role,
+          department: membership.department,
+          homeInstitutionId: user.institutionId,
+          institutionId: membership.institutionId
+        }
+      )
+
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] Institution member update failed:', error)
+      throw new Error('Failed to update institution member')
+    }
+  }
+
+  /**
+   * Remove a user's access to another institution (Server-side only).
+   * Sessions switched into it end on their next revalidation, and Firebase
+   * sessions are revoked as their claims may name it.
+   */
+  static async removeInstitutionMember(
+    user: ExtendedUser,
+    institutionId: string,
+    removedBy: string
+  ): Promise<ExtendedUser> {
+    try {
+      const institutionMemberships = (user.institutionMemberships ?? [])
+        .filter(entry => entry.institutionId !== institutionId)
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        institutionMemberships: institutionMemberships.length > 0 ? institutionMemberships : FieldValue.delete(),
+        memberInstitutionIds: institutionMemberships.length > 0
+          ? institutionMemberships.map(entry => entry.institutionId)
+          : FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: removedBy
+      })
+
+      const hasAuthAccount = await syncAuthAccount(user.id, {})
+      if (hasAuthAccount) {
+        await adminAuth.revokeRefreshTokens(user.id)
+      }
+
+      await logAdminAction(
+        'INSTITUTION_MEMBER_REMOVED',
+        removedBy,
+        'USER',
+        user.id,
+        {
+          homeInstitutionId: user.institutionId,
+          institutionId
+        }
+      )
+
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] Institution member removal failed:', error)
+      throw new Error('Failed to remove institution member')
+    }
+  }
+
+  static async updateInstitution(
+    institutionId: string,
+    updateData: Partial<Institution>,
+    updatedBy: string
+  ): Promise<void> {
+    try {
+      const updatePayload = {
+        ...updateData,
+        updatedAt: Timestamp.now(),
+        lastModifiedBy: updatedBy
+      }
+      
+      await updateDoc(doc(db, COLLECTIONS.INSTITUTIONS, institutionId), updatePayload)
+      
+      await logAdminAction(
+        'INSTITUTION_UPDATED',
+        updatedBy,
+        'INSTITUTION',
+        institutionId,
+        updatePayload
+      )
+    } catch (error) {
+      console.error('[EMMA] Institution update failed:', error)
+      throw error
+    }
+  }
+}
+
+// ===== RESIDENT MANAGEMENT =====
+
+export class ResidentService {
+  static async createResidentProfile(
+    residentData: Omit<ResidentProfile, 'id' | 'createdAt' | 'updatedAt'>,
+    createdBy: string
+  ): Promise<ResidentProfile> {
+    try {
+      const timestamp = Timestamp.now()
+
+      const newResident: ResidentProfile = {
+        ...residentData,
+        id: residentData.userId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      }
+
+      await setDoc(doc(db, COLLECTIONS.RESIDENTS, residentData.userId), newResident)
+
+      await logAdminAction(
+        'RESIDENT_PROFILE_CREATED',
+        createdBy,
+        'RESIDENT',
+        residentData.userId,
+        {
+          program: residentData.program.name,
+          department: residentData.program.department,
+          pgyLevel: residentData.program.currentPGYLevel
+        }
+      )
+
+      return newResident
+    } catch (error) {
+      console.error('[EMMA] Resident profile creation failed:', error)
+      throw new Error('Failed to create resident profile')
+    }
+  }
+
+  static async getResidentsByInstitution(
+    institutionId: string,
+    requestedBy: string
+  ): Promise<ResidentProfile[]> {
+    try {
+      const q = query(
+        collection(db, COLLECTIONS.RESIDENTS),
+        where('institutionId', '==', institutionId)
+      )
+
+      const querySnapshot = await getDocs(q)
+      const residents: ResidentProfile[] = []
+
+      querySnapshot.forEach((doc) => {
+        residents.push(doc.data() as ResidentProfile)
+      })
+
+      await logAdminAction(
+        'RESIDENT_BULK_ACCESS',
+        requestedBy,
+        'RESIDENT_COLLECTION',
+        institutionId,
+        {
+          residentCount: residents.length,
+          institutionId
+        }
+      )
+
+      return residents
+    } catch (error) {
+      console.error('[EMMA] Resident bulk fetch failed:', error)
+      throw new Error('Failed to retrieve residents')
+    }
+  }
+}
+
+// ===== ROTATION MANAGEMENT =====
+
+export interface RotationFilters {
+  department?: Department
+  pgyLevel?: PGYLevel
+  status?: Rotation['status']
+}
+
+export interface RotationCapacity {
+  rotationId: string
+  capacity: number
+  assigned: number
+  available: number
+  utilization: number // percentage 0-100
+  residentIds: string[]
+}
+
+export class RotationService {
+  /**
+   * Create a new rotation using Firebase Admin SDK (Server-side only)
+   * HIPAA-compliant with audit logging - bypasses Firestore rules
+   */
+  static async createRotation(
+    rotationData: Omit<Rotation, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'>,
+    createdBy: string
+  ): Promise<Rotation> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('RotationService.createRotation must only be called server-side')
+      }
+
+      const rotationId = `${rotationData.name.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}`
+      const timestamp = FieldValue.serverTimestamp()
+
+      const newRotation = cleanUndefinedValues({
+        ...rotationData,
+        id: rotationId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      })
+
+      await adminDb.collection(COLLECTIONS.ROTATIONS).doc(rotationId).set(newRotation)
+
+      await logAdminAction(
+        'ROTATION_CREATED',
+        createdBy,
+        'ROTATION',
+        rotationId,
+        {
+          name: rotationData.name,
+          department: rotationData.department,
+          duration: rotationData.duration,
+          capacity: rotationData.capacity,
+          pgyLevels: rotationData.pgyLevels,
+          institutionId: rotationData.institutionId
+        }
+      )
+
+      const createdRotationDoc = await adminDb.collection(COLLECTIONS.ROTATIONS).doc(rotationId).get()
+      return { id: rotationId, ...createdRotationDoc.data() } as Rotation
+    } catch (error) {
+      console.error('[EMMA] Rotation creation failed:', error)
+      throw new Error('Failed to create rotation')
+    }
+  }
+
+  static async getRotationsByDepartment(
+    institutionId: string,
+    department: Department
+  ): Promise<Rotation[]> {
+    try {
+      const q = query(
+        collection(db, COLLECTIONS.ROTATIONS),
+        where('institutionId', '==', institutionId),
+        where('department', '==', department),
+        where('status', '==', 'ACTIVE')
+      )
+
+      const querySnapshot = await getDocs(q)
+      const rotations: Rotation[] = []
+
+      querySnapshot.forEach((doc) => {
+        rotations.push(doc.data() as Rotation)
+      })
+
+      return rotations
+    } catch (error) {
+      console.error('[EMMA] Rotation fetch failed:', error)
+      throw new Error('Failed to retrieve rotations')
+    }
+  }
+
+  /**
+   * Get rotations by institution with department, PGY level and status filtering
+   * Server-side only operation using Firebase Admin SDK
+   */
+  static async getRotations(
+    institutionId: string,
+    requestedBy: string,
+    filters: RotationFilters = {}
+  ): Promise<Rotation[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.ROTATIONS)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.department) {
+        q = q.where('department', '==', filters.department)
+      }
+
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      }
+
+      // Firestore allows a single array-contains clause per query
+      if (filters.pgyLevel) {
+        q = q.where('pgyLevels', 'array-contains', filters.pgyLevel)
+      }
+
+      const querySnapshot = await q.get()
+      const rotations: Rotation[] = []
+
+      querySnapshot.forEach((doc) => {
+        rotations.push({ id: doc.id, ...doc.data() } as Rotation)
+      })
+
+      rotations.sort((a, b) => a.name.localeCompare(b.name))
+
+      await logAdminAction(
+        'ROTATIONS_ACCESSED',
+        requestedBy,
+        'ROTATION_COLLECTION',
+        institutionId,
+        {
+          rotationCount: rotations.length,
+          filters,
+          institutionId
+        }
+      )
+
+      return rotations
+    } catch (error) {
+      console.error('[EMMA] Rotation fetch failed:', error)
+      throw new Error('Failed to retrieve rotations')
+    }
+  }
+
+  /**
+   * Get a single rotation by ID (Server-side only)
+   */
+  static async getRotationById(rotationId: string): Promise<Rotation | null> {
+    try {
+      const rotationDoc = await adminDb.collection(COLLECTIONS.ROTATIONS).doc(rotationId).get()
+      return rotationDoc.exists ? { id: rotationDoc.id, ...rotationDoc.data() } as Rotation : null
+    } catch (error) {
+      console.error('[EMMA] Rotation fetch failed:', error)
+      throw new Error('Failed to retrieve rotation')
+    }
+  }
+
+  /**
+   * Update rotation details with audit logging (Server-side only)
+   */
+  static async updateRotation(
+    rotationId: string,
+    updates: Partial<Omit<Rotation, 'id' | 'institutionId' | 'createdAt' | 'createdBy'>>,
+    updatedBy: string
+  ): Promise<Rotation> {
+    try {
+      const updateData = cleanUndefinedValues({
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: updatedBy
+      })
+
+      await adminDb.collection(COLLECTIONS.ROTATIONS).doc(rotationId).update(updateData)
+
+      await logAdminAction(
+        'ROTATION_UPDATED',
+        updatedBy,
+        'ROTATION',
+        rotationId,
+        {
+          updatedFields: Object.keys(updateData).filter(key => key !== 'updatedAt' && key !== 'lastModifiedBy'),
+          status: updates.status
+        }
+      )
+
+      const updatedRotation = await RotationService.getRotationById(rotationId)
+      return updatedRotation as Rotation
+    } catch (error) {
+      console.error('[EMMA] Rotation update failed:', error)
+      throw new Error('Failed to update rotation')
+    }
+  }
+
+  /**
+   * Archive a rotation (soft delete) - rotations are never removed so that
+   * historical schedules and evaluations keep their references
+   */
+  static async archiveRotation(rotationId: string, archivedBy: string): Promise<void> {
+    try {
+      await adminDb.collection(COLLECTIONS.ROTATIONS).doc(rotationId).update({
+        status: 'ARCHIVED',
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: archivedBy
+      })
+
+      await logAdminAction(
+        'ROTATION_ARCHIVED',
+        archivedBy,
+        'ROTATION',
+        rotationId,
+        {
+          status: 'ARCHIVED'
+        }
+      )
+    } catch (error) {
+      console.error('[EMMA] Rotation archive failed:', error)
+      throw new Error('Failed to archive rotation')
+    }
+  }
+
+  /**
+   * Calculate filled and available seats for a rotation from published
+   * ROTATION schedules that overlap the rotation's scheduling window
+   */
+  static async getRotationCapacity(rotation: Rotation): Promise<RotationCapacity> {
+    try {
+      const windowStart = rotation.schedule.startDate.toMillis()
+      const windowEnd = rotation.schedule.endDate.toMillis()
+
+      const schedulesSnapshot = await adminDb.collection(COLLECTIONS.SCHEDULES)
+        .where('institutionId', '==', rotation.institutionId)
+        .where('type', '==', 'ROTATION')
+        .where('status', '==', 'PUBLISHED')
+        .get()
+
+      const residentIds = new Set<string>()
+
+      schedulesSnapshot.forEach((doc) => {
+        const schedule = doc.data() as Schedule
+        const overlaps = schedule.startDate.toMillis() <= windowEnd &&
+          schedule.endDate.toMillis() >= windowStart
+
+        if (!overlaps) return
+
+        schedule.assignments
+          .filter(assignment => assignment.rotationId === rotation.id)
+          .forEach(assignment => residentIds.add(assignment.residentId))
+      })
+
+      const assigned = residentIds.size
+
+      return {
+        rotationId: rotation.id,
+        capacity: rotation.capacity,
+        assigned,
+        available: Math.max(rotation.capacity - assigned, 0),
+        utilization: rotation.capacity > 0 ? Math.round((assigned / rotation.capacity) * 100) : 0,
+        residentIds: Array.from(residentIds)
+      }
+    } catch (error) {
+      console.error('[EMMA] Rotation capacity calculation failed:', error)
+      throw new Error('Failed to calculate rotation capacity')
+    }
+  }
+}
+
+// ===== SCHEDULE MANAGEMENT =====
+
+export interface ScheduleFilters {
+  academicYear?: string
+  type?: Schedule['type']
+  status?: Schedule['status']
+}
+
+export interface CallShiftReassignment {
+  schedule?: Schedule
+  error?: string // Why the shifts cannot move on the schedule as stored; nothing was written
+}
+
+/**
+ * Mark the shifts a set of changes moved: with the swap that moved them, or
+ * unmarked when a coordinator reassigns them directly
+ */
+function markCallShifts(
+  assignments: ScheduleAssignment[],
+  changes: CallShiftChange[],
+  swapRequestId?: string
+): ScheduleAssignment[] {
+  const moved = changes.map(change => findCallShift(assignments, change))
+
+  return assignments.map(assignment => {
+    if (!moved.includes(assignment)) return assignment
+
+    const marked = { ...assignment }
+    delete marked.swapRequestId
+    return swapRequestId ? { ...marked, swapRequestId } : marked
+  })
+}
+
+/**
+ * Write new call assignments and the recounted call distribution within a
+ * transaction. The published date and approver stay those of the publication.
+ */
+function stageCallAssignments(
+  transaction: Transaction,
+  schedule: Schedule,
+  assignments: ScheduleAssignment[],
+  updatedBy: string
+): void {
+  transaction.update(adminDb.collection(COLLECTIONS.SCHEDULES).doc(schedule.id), {
+    assignments,
+    ...(schedule.callReport ? {
+      'callReport.distribution': summarizeCallDistribution(assignments, schedule.callReport.distribution)
+    } : {}),
+    updatedAt: FieldValue.serverTimestamp(),
+    lastModifiedBy: updatedBy
+  })
+}
+
+/**
+ * Audit call shifts changing hands, with who held each shift before
+ */
+async function logCallShiftsReassigned(
+  schedule: Schedule,
+  changes: CallShiftChange[],
+  reassignedBy: string,
+  swapRequestId?: string
+): Promise<void> {
+  await logAdminAction(
+    'CALL_SHIFTS_REASSIGNED',
+    reassignedBy,
+    'SCHEDULE',
+    schedule.id,
+    {
+      changes: changes.map(change => ({
+        ...change,
+        previousResidentId: findCallShift(schedule.assignments, change)?.residentId
+      })),
+      ...(swapRequestId ? { swapRequestId } : {}),
+      institutionId: schedule.institutionId
+    }
+  )
+}
+
+export class ScheduleService {
+  /**
+   * Create a schedule using Firebase Admin SDK (Server-side only)
+   * HIPAA-compliant with audit logging - bypasses Firestore rules
+   */
+  static async createSchedule(
+    scheduleData: Omit<Schedule, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'>,
+    createdBy: string
+  ): Promise<Schedule> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('ScheduleService.createSchedule must only be called server-side')
+      }
+
+      const scheduleRef = adminDb.collection(COLLECTIONS.SCHEDULES).doc()
+      const timestamp = FieldValue.serverTimestamp()
+
+      await scheduleRef.set(cleanUndefinedValues({
+        ...scheduleData,
+        id: scheduleRef.id,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      }))
+
+      await logAdminAction(
+        'SCHEDULE_CREATED',
+        createdBy,
+        'SCHEDULE',
+        scheduleRef.id,
+        {
+          name: scheduleData.name,
+          type: scheduleData.type,
+          status: scheduleData.status,
+          academicYear: scheduleData.academicYear,
+          assignmentCount: scheduleData.assignments.length,
+          generatedBySolver: !!scheduleData.solverReport,
+          institutionId: scheduleData.institutionId
+        }
+      )
+
+      await ScheduleService.refreshScheduleConflicts(scheduleRef.id, createdBy)
+
+      const createdScheduleDoc = await scheduleRef.get()
+      return { id: scheduleRef.id, ...createdScheduleDoc.data() } as Schedule
+    } catch (error) {
+      console.error('[EMMA] Schedule creation failed:', error)
+      throw new Error('Failed to create schedule')
+    }
+  }
+
+  /**
+   * Get schedules by institution with academic year, type and status filtering
+   * Server-side only operation using Firebase Admin SDK
+   */
+  static async getSchedules(
+    institutionId: string,
+    requestedBy: string,
+    filters: ScheduleFilters = {}
+  ): Promise<Schedule[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.SCHEDULES)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.academicYear) {
+        q = q.where('academicYear', '==', filters.academicYear)
+      }
+
+      if (filters.type) {
+        q = q.where('type', '==', filters.type)
+      }
+
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      }
+
+      const querySnapshot = await q.get()
+      const schedules: Schedule[] = []
+
+      querySnapshot.forEach((doc) => {
+        schedules.push({ id: doc.id, ...doc.data() } as Schedule)
+      })
+
+      // Newest first
+      schedules.sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0))
+
+      await logAdminAction(
+        'SCHEDULES_ACCESSED',
+        requestedBy,
+        'SCHEDULE_COLLECTION',
+        institutionId,
+        {
+          scheduleCount: schedules.length,
+          filters,
+          institutionId
+        }
+      )
+
+      return schedules
+    } catch (error) {
+      console.error('[EMMA] Schedule fetch failed:', error)
+      throw new Error('Failed to retrieve schedules')
+    }
+  }
+
+  /**
+   * Get a single schedule by ID (Server-side only)
+   */
+  static async getScheduleById(scheduleId: string): Promise<Schedule | null> {
+    try {
+      const scheduleDoc = await adminDb.collection(COLLECTIONS.SCHEDULES).doc(scheduleId).get()
+      return scheduleDoc.exists ? { id: scheduleDoc.id, ...scheduleDoc.data() } as Schedule : null
+    } catch (error) {
+      console.error('[EMMA] Schedule fetch failed:', error)
+      throw new Error('Failed to retrieve schedule')
+    }
+  }
+
+  /**
+   * Update a schedule with audit logging (Server-side only)
+   */
+  static async updateSchedule(
+    scheduleId: string,
+    updates: Partial<Omit<Schedule, 'id' | 'institutionId' | 'createdAt' | 'createdBy'>>,
+    updatedBy: string
+  ): Promise<Schedule> {
+    try {
+      const updateData = cleanUndefinedValues({
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: updatedBy
+      })
+
+      await adminDb.collection(COLLECTIONS.SCHEDULES).doc(scheduleId).update(updateData)
+
+      await logAdminAction(
+        'SCHEDULE_UPDATED',
+        updatedBy,
+        'SCHEDULE',
+        scheduleId,
+        {
+          updatedFields: Object.keys(updateData).filter(key => key !== 'updatedAt' && key !== 'lastModifiedBy'),
+          status: updates.status
+        }
+      )
+
+      await ScheduleService.refreshScheduleConflicts(scheduleId, updatedBy)
+
+      const updatedSchedule = await ScheduleService.getScheduleById(scheduleId)
+      return updatedSchedule as Schedule
+    } catch (error) {
+      console.error('[EMMA] Schedule update failed:', error)
+      throw new Error('Failed to update schedule')
+    }
+  }
+
+  /**
+   * Publish a schedule, archiving the schedule it replaces. Only one rotation
+   * or call schedule is live per academic year; leave schedules stack.
+   */
+  static async publishSchedule(schedule: Schedule, publishedBy: string): Promise<Schedule> {
+    try {
+      const batch = adminDb.batch()
+      const now = AdminTimestamp.now()
+      let archivedIds: string[] = []
+
+      if (schedule.type !== 'VACATION') {
+        const publishedSnapshot = await adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', schedule.institutionId)
+          .where('academicYear', '==', schedule.academicYear)
+          .where('type', '==', schedule.type)
+          .where('status', '==', 'PUBLISHED')
+          .get()
+
+        archivedIds = publishedSnapshot.docs.map(doc => doc.id).filter(id => id !== schedule.id)
+        archivedIds.forEach(id => {
+          batch.update(adminDb.collection(COLLECTIONS.SCHEDULES).doc(id), {
+            status: 'ARCHIVED',
+            updatedAt: FieldValue.serverTimestamp(),
+            lastModifiedBy: publishedBy
+          })
+        })
+      }
+
+      batch.update(adminDb.collection(COLLECTIONS.SCHEDULES).doc(schedule.id), {
+        status: 'PUBLISHED',
+        publishedDate: now,
+        approvedBy: publishedBy,
+        approvalDate: now,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: publishedBy
+      })
+
+      await batch.commit()
+
+      await logAdminAction(
+        'SCHEDULE_PUBLISHED',
+        publishedBy,
+        'SCHEDULE',
+        schedule.id,
+        {
+          type: schedule.type,
+          academicYear: schedule.academicYear,
+          archivedScheduleIds: archivedIds,
+          institutionId: schedule.institutionId
+        }
+      )
+
+      await ScheduleService.refreshScheduleConflicts(schedule.id, publishedBy)
+
+      const publishedSchedule = await ScheduleService.getScheduleById(schedule.id)
+      return publishedSchedule as Schedule
+    } catch (error) {
+      console.error('[EMMA] Schedule publish failed:', error)
+      throw new Error('Failed to publish schedule')
+    }
+  }
+
+  /**
+   * Load who may take call in an academic year: residents, rotations, the
+   * published rotation schedule and approved leave (Server-side only)
+   */
+  static async getCallEligibilityInput(
+    institutionId: string,
+    academicYear: string,
+    requestedBy: string
+  ): Promise<CallEligibilityInput> {
+    try {
+      const [residents, rotations, schedules, approvedLeave] = await Promise.all([
+        UserService.getResidentPhysicians(institutionId, requestedBy),
+        RotationService.getRotations(institutionId, requestedBy),
+        ScheduleService.getSchedules(institutionId, requestedBy, {
+          academicYear,
+          type: 'ROTATION',
+          status: 'PUBLISHED'
+        }),
+        LeaveService.getRequests(institutionId, requestedBy, { status: 'APPROVED' })
+      ])
+
+      return {
+        residents: residents.map(resident => ({
+          id: resident.id,
+          name: `${resident.firstName} ${resident.lastName}`,
+          pgyLevel: resident.pgyLevel
+        })),
+        rotations,
+        schedules,
+        approvedLeave
+      }
+    } catch (error) {
+      console.error('[EMMA] Call eligibility load failed:', error)
+      throw new Error('Failed to load call eligibility')
+    }
+  }
+
+  /**
+   * Reassign call shifts on a draft or published CALL schedule. The changes
+   * are checked with applyCallShiftChanges against the schedule as stored,
+   * inside a transaction, so concurrent edits cannot overwrite each other.
+   * Publication details are left as they were.
+   */
+  static async reassignCallShifts(
+    scheduleId: string,
+    changes: CallShiftChange[],
+    eligibility: CallEligibilityInput,
+    reassignedBy: string
+  ): Promise<CallShiftReassignment> {
+    try {
+      const scheduleRef = adminDb.collection(COLLECTIONS.SCHEDULES).doc(scheduleId)
+
+      const result = await adminDb.runTransaction(async (transaction) => {
+        const scheduleDoc = await transaction.get(scheduleRef)
+        const schedule = scheduleDoc.exists ? { id: scheduleDoc.id, ...scheduleDoc.data() } as Schedule : null
+
+        if (!schedule || schedule.type !== 'CALL' || schedule.status === 'ARCHIVED') {
+          return { error: 'Only draft or published call schedules can be reassigned' }
+        }
+
+        const { assignments, error } = applyCallShiftChanges(schedule.assignments, changes, eligibility)
+        if (error) return { error }
+
+        stageCallAssignments(transaction, schedule, markCallShifts(assignments, changes), reassignedBy)
+        return { previous: schedule }
+      })
+
+      if (!result.previous) {
+        return { error: result.error }
+      }
+
+      await logCallShiftsReassigned(result.previous, changes, reassignedBy)
+      await ScheduleService.refreshScheduleConflicts(scheduleId, reassignedBy)
+
+      const updatedSchedule = await ScheduleService.getScheduleById(scheduleId)
+      return { schedule: updatedSchedule as Schedule }
+    } catch (error) {
+      console.error('[EMMA] Call shift reassignment failed:', error)
+      throw new Error('Failed to reassign call shifts')
+    }
+  }
+
+  /**
+   * Scan schedules for conflicts. Without a scheduleId every published schedule
+   * in the institution is checked. With a scheduleId only conflicts involving
+   * that schedule are returned; a DRAFT is checked against published schedules
+   * of other types and years, since it will replace its own type and year.
+   */
+  static async detectConflicts(
+    institutionId: string,
+    requestedBy: string,
+    options: { scheduleId?: string } = {}
+  ): Promise<ScheduleConflict[]> {
+    try {
+      const [schedulesSnapshot, rotationsSnapshot, residentsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.SCHEDULES).where('institutionId', '==', institutionId).get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS).where('institutionId', '==', institutionId).get(),
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'RESIDENT')
+          .get()
+      ])
+
+      const allSchedules = schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule))
+      const target = options.scheduleId ? allSchedules.find(schedule => schedule.id === options.scheduleId) : undefined
+
+      let schedules = allSchedules.filter(schedule => schedule.status === 'PUBLISHED')
+      if (target?.status === 'DRAFT') {
+        schedules = schedules
+          .filter(schedule => schedule.type !== target.type || schedule.academicYear !== target.academicYear)
+          .concat(target)
+      }
+
+      let conflicts = detectScheduleConflicts({
+        schedules,
+        rotations: rotationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Rotation)),
+        residents: residentsSnapshot.docs.map(doc => {
+          const resident = doc.data() as ExtendedUser
+          return {
+            id: doc.id,
+            name: `${resident.firstName} ${resident.lastName}`,
+            pgyLevel: resident.pgyLevel
+          }
+        })
+      })
+
+      if (options.scheduleId) {
+        conflicts = conflicts.filter(conflict => conflict.scheduleIds.includes(options.scheduleId!))
+      }
+
+      await logAdminAction(
+        'SCHEDULE_CONFLICTS_SCANNED',
+        requestedBy,
+        'SCHEDULE_COLLECTION',
+        options.scheduleId || institutionId,
+        {
+          scheduleCount: schedules.length,
+          conflictCount: conflicts.length,
+          scheduleId: options.scheduleId,
+          institutionId
+        }
+      )
+
+      return conflicts
+    } catch (error) {
+      console.error('[EMMA] Schedule conflict scan failed:', error)
+      throw new Error('Failed to scan schedule conflicts')
+    }
+  }
+
+  /**
+   * Re-run the conflict scan for a schedule and record the result on it.
+   * Called on every save; a failed scan is logged but never blocks the save.
+   */
+  static async refreshScheduleConflicts(scheduleId: string, checkedBy: string): Promise<void> {
+    try {
+      const scheduleDoc = await adminDb.collection(COLLECTIONS.SCHEDULES).doc(scheduleId).get()
+      if (!scheduleDoc.exists) return
+
+      const schedule = scheduleDoc.data() as Schedule
+      const conflicts = await ScheduleService.detectConflicts(schedule.institutionId, checkedBy, { scheduleId })
+
+      await scheduleDoc.ref.update({
+        conflicts: cleanUndefinedValues(conflicts),
+        conflictsCheckedAt: FieldValue.serverTimestamp()
+      })
+    } catch (error) {
+      console.error('[EMMA] Schedule conflict refresh failed:', error)
+    }
+  }
+
+  /**
+   * Load resident rotation rankings for an academic year, keyed by resident ID
+   */
+  static async getRotationPreferences(
+    institutionId: string,
+    academicYear: string
+  ): Promise<Record<string, string[]>> {
+    try {
+      const querySnapshot = await adminDb.collection(COLLECTIONS.ROTATION_PREFERENCES)
+        .where('institutionId', '==', institutionId)
+        .where('academicYear', '==', academicYear)
+        .get()
+
+      const preferences: Record<string, string[]> = {}
+
+      querySnapshot.forEach((doc) => {
+        const preference = doc.data() as RotationPreference
+        preferences[preference.residentId] = preference.rankings || []
+      })
+
+      return preferences
+    } catch (error) {
+      console.error('[EMMA] Rotation preference fetch failed:', error)
+      throw new Error('Failed to retrieve rotation preferences')
+    }
+  }
+}
+
+// ===== DUTY HOURS =====
+
+export interface DutyShiftFilters {
+  residentId?: string
+  from?: Date
+  to?: Date
+}
+
+export class DutyHoursService {
+  /**
+   * Record an actual worked shift (Server-side only)
+   */
+  static async logShift(
+    shiftData: Omit<DutyShift, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'>,
+    loggedBy: string
+  ): Promise<DutyShift> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('DutyHoursService.logShift must only be called server-side')
+      }
+
+      const shiftRef = adminDb.collection(COLLECTIONS.DUTY_SHIFTS).doc()
+      const timestamp = FieldValue.serverTimestamp()
+
+      await shiftRef.set(cleanUndefinedValues({
+        ...shiftData,
+        id: shiftRef.id,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy: loggedBy,
+        lastModifiedBy: loggedBy
+      }))
+
+      await logAdminAction(
+        'DUTY_SHIFT_LOGGED',
+        loggedBy,
+        'DUTY_SHIFT',
+        shiftRef.id,
+        {
+          residentId: shiftData.residentId,
+          type: shiftData.type,
+          loggedForSelf: shiftData.residentId === loggedBy,
+          institutionId: shiftData.institutionId
+        }
+      )
+
+      const createdShiftDoc = await shiftRef.get()
+      return { id: shiftRef.id, ...createdShiftDoc.data() } as DutyShift
+    } catch (error) {
+      console.error('[EMMA] Duty shift logging failed:', error)
+      throw new Error('Failed to log duty shift')
+    }
+  }
+
+  /**
+   * Get logged shifts for an institution, optionally for one resident and date range
+   */
+  static async getShifts(
+    institutionId: string,
+    requestedBy: string,
+    filters: DutyShiftFilters = {}
+  ): Promise<DutyShift[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.DUTY_SHIFTS)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.residentId) {
+        q = q.where('residentId', '==', filters.residentId)
+      }
+
+      if (filters.from) {
+        q = q.where('startTime', '>=', filters.from)
+      }
+
+      if (filters.to) {
+        q = q.where('startTime', '<=', filters.to)
+      }
+
+      const querySnapshot = await q.get()
+      const shifts: DutyShift[] = []
+
+      querySnapshot.forEach((doc) => {
+        shifts.push({ id: doc.id, ...doc.data() } as DutyShift)
+      })
+
+      shifts.sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis())
+
+      await logAdminAction(
+        'DUTY_SHIFTS_ACCESSED',
+        requestedBy,
+        'DUTY_SHIFT_COLLECTION',
+        filters.residentId || institutionId,
+        {
+          shiftCount: shifts.length,
+          residentId: filters.residentId,
+          institutionId
+        }
+      )
+
+      return shifts
+    } catch (error) {
+      console.error('[EMMA] Duty shift fetch failed:', error)
+      throw new Error('Failed to retrieve duty shifts')
+    }
+  }
+
+  /**
+   * Build the ACGME compliance report for a period. Planned hours come from
+   * published ROTATION schedules (minus published VACATION days); actual hours
+   * come from logged shifts.
+   */
+  static async getComplianceReport(
+    institutionId: string,
+    requestedBy: string,
+    options: { from: Date; to: Date; residentId?: string; department?: Department }
+  ): Promise<DutyHoursComplianceReport> {
+    try {
+      let residentsQuery = adminDb.collection(COLLECTIONS.USERS)
+        .where('institutionId', '==', institutionId)
+        .where('role', '==', 'RESIDENT')
+        .where('isActive', '==', true)
+
+      if (options.department) {
+        residentsQuery = residentsQuery.where('department', '==', options.department)
+      }
+
+      const [residentsSnapshot, schedulesSnapshot, rotationsSnapshot, shiftsSnapshot] = await Promise.all([
+        residentsQuery.get(),
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'PUBLISHED')
+          .get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS).where('institutionId', '==', institutionId).get(),
+        adminDb.collection(COLLECTIONS.DUTY_SHIFTS)
+          .where('institutionId', '==', institutionId)
+          .where('startTime', '>=', addDays(options.from, -1))
+          .where('startTime', '<=', options.to)
+          .get()
+      ])
+
+      const residents = residentsSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser))
+        .filter(resident => !options.residentId || resident.id === options.residentId)
+      const residentIds = new Set(residents.map(resident => resident.id))
+      const rotations = new Map(rotationsSnapshot.docs.map(doc => [doc.id, { id: doc.id, ...doc.data() } as Rotation]))
+      const schedules = schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule))
+
+      // Vacation days are excluded from planned hours
+      const vacationDays = new Map<string, Set<string>>()
+      schedules
+        .filter(schedule => schedule.type === 'VACATION')
+        .forEach(schedule => {
+          schedule.assignments.forEach(assignment => {
+            const start = (assignment.startDate ?? schedule.startDate).toDate()
+            const end = (assignment.endDate ?? schedule.endDate).toDate()
+            if (end < options.from || start > options.to) return
+
+            const days = vacationDays.get(assignment.residentId) ?? new Set<string>()
+            eachDayOfInterval({ start, end }).forEach(day => days.add(format(day, 'yyyy-MM-dd')))
+            vacationDays.set(assignment.residentId, days)
+          })
+        })
+
+      const planned: DutyInterval[] = []
+      schedules
+        .filter(schedule => schedule.type === 'ROTATION')
+        .forEach(schedule => {
+          schedule.assignments.forEach(assignment => {
+            const rotation = assignment.rotationId ? rotations.get(assignment.rotationId) : undefined
+            if (!rotation || !residentIds.has(assignment.residentId)) return
+
+            const start = (assignment.startDate ?? schedule.startDate).toDate()
+            const end = (assignment.endDate ?? schedule.endDate).toDate()
+            if (end < options.from || start > options.to) return
+
+            planned.push(...derivePlannedShifts({
+              residentId: assignment.residentId,
+              rotation,
+              startDate: start < options.from ? options.from : start,
+              endDate: end > options.to ? options.to : end,
+              excludedDays: vacationDays.get(assignment.residentId)
+            }))
+          })
+        })
+
+      const logged: DutyInterval[] = shiftsSnapshot.docs
+        .map(doc => doc.data() as DutyShift)
+        .filter(shift => residentIds.has(shift.residentId))
+        .map(shift => ({
+          residentId: shift.residentId,
+          rotationId: shift.rotationId,
+          type: shift.type,
+          start: shift.startTime.toDate(),
+          end: shift.endTime.toDate()
+        }))
+
+      const report = buildDutyHoursReport({
+        residents: residents.map(resident => ({
+          id: resident.id,
+          name: `${resident.firstName} ${resident.lastName}`,
+          department: resident.department,
+          pgyLevel: resident.pgyLevel
+        })),
+        planned,
+        logged,
+        periodStart: options.from,
+        periodEnd: options.to
+      })
+
+      await logAdminAction(
+        'DUTY_HOURS_REPORT_GENERATED',
+        requestedBy,
+        'DUTY_SHIFT_COLLECTION',
+        options.residentId || institutionId,
+        {
+          residentCount: report.residentCount,
+          compliantResidents: report.compliantResidents,
+          periodStart: report.periodStart,
+          periodEnd: report.periodEnd,
+          department: options.department,
+          institutionId
+        }
+      )
+
+      return report
+    } catch (error) {
+      console.error('[EMMA] Duty hours report failed:', error)
+      throw new Error('Failed to generate duty hours report')
+    }
+  }
+}
+
+// ===== EVALUATION MANAGEMENT =====
+
+export interface EvaluationFilters {
+  evaluateeId?: string
+  evaluatorId?: string
+  status?: Evaluation['status']
+  statuses?: Evaluation['status'][]
+  type?: Evaluation['type']
+}
+
+export interface EvaluationTransitionResult {
+  evaluation?: Evaluation
+  error?: string // Why the step could not be taken; nothing was written
+}
+
+// Fallback when the institution has no evaluation deadline configured
+const DEFAULT_EVALUATION_DEADLINE_DAYS = 14
+
+export class EvaluationService {
+  /**
+   * Create an evaluation using Firebase Admin SDK (Server-side only)
+   * HIPAA-compliant with audit logging - bypasses Firestore rules
+   */
+  static async createEvaluation(
+    evaluationData: Omit<Evaluation, 'id' | 'createdAt' | 'updatedAt' | 'createdBy' | 'lastModifiedBy'>,
+    createdBy: string
+  ): Promise<Evaluation> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('EvaluationService.createEvaluation must only be called server-side')
+      }
+
+      const evaluationId = `eval-${evaluationData.evaluateeId}-${Date.now()}`
+      const timestamp = FieldValue.serverTimestamp()
+
+      await adminDb.collection(COLLECTIONS.EVALUATIONS).doc(evaluationId).set(cleanUndefinedValues({
+        ...evaluationData,
+        id: evaluationId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      }))
+
+      await logAdminAction(
+        'EVALUATION_CREATED',
+        createdBy,
+        'EVALUATION',
+        evaluationId,
+        {
+          evaluateeId: evaluationData.evaluateeId,
+          evaluatorId: evaluationData.evaluatorId,
+          type: evaluationData.type
+        }
+      )
+
+      return await EvaluationService.getEvaluationById(evaluationId) as Evaluation
+    } catch (error) {
+      console.error('[EMMA] Evaluation creation failed:', error)
+      throw new Error('Failed to create evaluation')
+    }
+  }
+
+  static async getEvaluationsByResident(
+    residentId: string,
+    requestedBy: string
+  ): Promise<Evaluation[]> {
+    try {
+      const q = query(
+        collection(db, COLLECTIONS.EVALUATIONS),
+        where('evaluateeId', '==', residentId),
+        orderBy('createdAt', 'desc')
+      )
+
+      const querySnapshot = await getDocs(q)
+      const evaluations: Evaluation[] = []
+
+      querySnapshot.forEach((doc) => {
+        evaluations.push(doc.data() as Evaluation)
+      })
+
+      await logAdminAction(
+        'EVALUATION_BULK_ACCESS',
+        requestedBy,
+        'EVALUATION_COLLECTION',
+        residentId,
+        {
+          evaluationCount: evaluations.length,
+          residentId
+        }
+      )
+
+      return evaluations
+    } catch (error) {
+      console.error('[EMMA] Evaluation fetch failed:', error)
+      throw new Error('Failed to retrieve evaluations')
+    }
+  }
+
+  /**
+   * Get evaluations by institution with participant, status and type filtering
+   * Server-side only operation using Firebase Admin SDK
+   */
+  static async getEvaluations(
+    institutionId: string,
+    requestedBy: string,
+    filters: EvaluationFilters = {}
+  ): Promise<Evaluation[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.EVALUATIONS)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.evaluateeId) {
+        q = q.where('evaluateeId', '==', filters.evaluateeId)
+      }
+
+      if (filters.evaluatorId) {
+        q = q.where('evaluatorId', '==', filters.evaluatorId)
+      }
+
+      if (filters.type) {
+        q = q.where('type', '==', filters.type)
+      }
+
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      } else if (filters.statuses?.length) {
+        q = q.where('status', 'in', filters.statuses)
+      }
+
+      const querySnapshot = await q.get()
+      const evaluations: Evaluation[] = []
+
+      querySnapshot.forEach((doc) => {
+        evaluations.push({ id: doc.id, ...doc.data() } as Evaluation)
+      })
+
+      // Soonest due first
+      evaluations.sort((a, b) => (a.dueDate?.toMillis() ?? 0) - (b.dueDate?.toMillis() ?? 0))
+
+      await logAdminAction(
+        'EVALUATION_BULK_ACCESS',
+        requestedBy,
+        'EVALUATION_COLLECTION',
+        filters.evaluateeId || institutionId,
+        {
+          evaluationCount: evaluations.length,
+          filters,
+          institutionId
+        }
+      )
+
+      return evaluations
+    } catch (error) {
+      console.error('[EMMA] Evaluation fetch failed:', error)
+      throw new Error('Failed to retrieve evaluations')
+    }
+  }
+
+  /**
+   * Get a single evaluation by ID (Server-side only)
+   */
+  static async getEvaluationById(evaluationId: string): Promise<Evaluation | null> {
+    try {
+      const evaluationDoc = await adminDb.collection(COLLECTIONS.EVALUATIONS).doc(evaluationId).get()
+      return evaluationDoc.exists ? { id: evaluationDoc.id, ...evaluationDoc.data() } as Evaluation : null
+    } catch (error) {
+      console.error('[EMMA] Evaluation fetch failed:', error)
+      throw new Error('Failed to retrieve evaluation')
+    }
+  }
+
+  /**
+   * Update evaluation content with audit logging (Server-side only)
+   */
+  static async updateEvaluation(
+    evaluationId: string,
+    updates: Partial<Omit<Evaluation, 'id' | 'institutionId' | 'createdAt' | 'createdBy'>>,
+    updatedBy: string
+  ): Promise<Evaluation> {
+    try {
+      const updateData = cleanUndefinedValues({
+        ...updates,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: updatedBy
+      })
+
+      await adminDb.collection(COLLECTIONS.EVALUATIONS).doc(evaluationId).update(updateData)
+
+      await logAdminAction(
+        'EVALUATION_UPDATED',
+        updatedBy,
+        'EVALUATION',
+        evaluationId,
+        {
+          updatedFields: Object.keys(updateData).filter(key => key !== 'updatedAt' && key !== 'lastModifiedBy')
+        }
+      )
+
+      return await EvaluationService.getEvaluationById(evaluationId) as Evaluation
+    } catch (error) {
+      console.error('[EMMA] Evaluation update failed:', error)
+      throw new Error('Failed to update evaluation')
+    }
+  }
+
+  /**
+   * Move an evaluation to its next workflow status. Callers must check the
+   * transition with checkEvaluationTransition first; the status it moves
+   * from is checked again in the transaction that writes it, so concurrent
+   * calls take the step once and only that call rolls up milestones.
+   */
+  static async transitionEvaluation(
+    evaluation: Evaluation,
+    action: EvaluationAction,
+    actorId: string
+  ): Promise<EvaluationTransitionResult> {
+    try {
+      const { from, to: nextStatus } = EVALUATION_TRANSITIONS[action]
+      const evaluationRef = adminDb.collection(COLLECTIONS.EVALUATIONS).doc(evaluation.id)
+
+      const previousStatus = await adminDb.runTransaction(async (transaction) => {
+        const evaluationDoc = await transaction.get(evaluationRef)
+        const current = evaluationDoc.data() as Evaluation | undefined
+        if (!current || !from.includes(current.status)) {
+          return null
+        }
+
+        const now = FieldValue.serverTimestamp()
+        transaction.update(evaluationRef, {
+          status: nextStatus,
+          ...(action === 'SUBMIT' ? { submittedDate: now } : {}),
+          ...(action === 'REVIEW' || action === 'APPROVE' ? {
+            reviewedDate: now,
+            reviewedBy: FieldValue.arrayUnion(actorId)
+          } : {}),
+          updatedAt: now,
+          lastModifiedBy: actorId
+        })
+        return current.status
+      })
+
+      if (!previousStatus) {
+        return { error: `This evaluation is no longer ${from.map(status => status.toLowerCase()).join(' or ')}` }
+      }
+
+      await logAdminAction(
+        'EVALUATION_STATUS_CHANGED',
+        actorId,
+        'EVALUATION',
+        evaluation.id,
+        {
+          action,
+          fromStatus: previousStatus,
+          toStatus: nextStatus,
+          evaluateeId: evaluation.evaluateeId
+        }
+      )
+
+      const updated = await EvaluationService.getEvaluationById(evaluation.id) as Evaluation
+
+      if (action === 'APPROVE') {
+        await MilestoneService.rollUpEvaluation(updated, actorId)
+      }
+
+      return { evaluation: updated }
+    } catch (error) {
+      console.error('[EMMA] Evaluation status change failed:', error)
+      throw new Error('Failed to update evaluation status')
+    }
+  }
+
+  /**
+   * Record the resident's acknowledgement and comments (Server-side only)
+   */
+  static async acknowledgeEvaluation(
+    evaluationId: string,
+    residentId: string,
+    comments: string
+  ): Promise<Evaluation> {
+    try {
+      await adminDb.collection(COLLECTIONS.EVALUATIONS).doc(evaluationId).update({
+        residentFeedback: {
+          comments,
+          acknowledgedDate: FieldValue.serverTimestamp()
+        },
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: residentId
+      })
+
+      await logAdminAction(
+        'EVALUATION_ACKNOWLEDGED',
+        residentId,
+        'EVALUATION',
+        evaluationId,
+        {
+          hasComments: comments.length > 0
+        }
+      )
+
+      return await EvaluationService.getEvaluationById(evaluationId) as Evaluation
+    } catch (error) {
+      console.error('[EMMA] Evaluation acknowledgement failed:', error)
+      throw new Error('Failed to acknowledge evaluation')
+    }
+  }
+
+  /**
+   * Default due date: the end of the evaluation period plus the institution's
+   * configured evaluation deadline
+   */
+  static async getDefaultDueDate(institutionId: string, periodEnd: Date): Promise<Date> {
+    const institutionDoc = await adminDb.collection(COLLECTIONS.INSTITUTIONS).doc(institutionId).get()
+    const deadlineDays = (institutionDoc.data() as Institution | undefined)?.settings?.evaluationDeadlineDays
+      ?? DEFAULT_EVALUATION_DEADLINE_DAYS
+
+    return addDays(periodEnd, deadlineDays)
+  }
+}
+
+// ===== EVALUATION TEMPLATES =====
+
+export class EvaluationTemplateService {
+  /**
+   * Get an institution's evaluation templates, newest version first
+   * Server-side only operation using Firebase Admin SDK
+   */
+  static async getTemplates(
+    institutionId: string,
+    filters: { evaluationType?: Evaluation['type']; templateKey?: string; includeRetired?: boolean } = {}
+  ): Promise<EvaluationTemplate[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.EVALUATION_TEMPLATES)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.evaluationType) {
+        q = q.where('evaluationType', '==', filters.evaluationType)
+      }
+
+      if (filters.templateKey) {
+        q = q.where('templateKey', '==', filters.templateKey)
+      }
+
+      if (!filters.includeRetired) {
+        q = q.where('status', '==', 'ACTIVE')
+      }
+
+      const querySnapshot = await q.get()
+      const templates: EvaluationTemplate[] = []
+
+      querySnapshot.forEach((doc) => {
+        templates.push({ id: doc.id, ...doc.data() } as EvaluationTemplate)
+      })
+
+      return templates.sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version)
+    } catch (error) {
+      console.error('[EMMA] Evaluation template fetch failed:', error)
+      throw new Error('Failed to retrieve evaluation templates')
+    }
+  }
+
+  /**
+   * Get a single template version by ID (Server-side only)
+   */
+  static async getTemplateById(templateId: string): Promise<EvaluationTemplate | null> {
+    try {
+      const templateDoc = await adminDb.collection(COLLECTIONS.EVALUATION_TEMPLATES).doc(templateId).get()
+      return templateDoc.exists ? { id: templateDoc.id, ...templateDoc.data() } as EvaluationTemplate : null
+    } catch (error) {
+      console.error('[EMMA] Evaluation template fetch failed:', error)
+      throw new Error('Failed to retrieve evaluation template')
+    }
+  }
+
+  /**
+   * Publish a template version. Versions are immutable: the new version
+   * becomes ACTIVE and any previously active version of the same template is
+   * retired in the same transaction, while evaluations keep pointing at the
+   * version they were created from.
+   */
+  static async createTemplateVersion(
+    institutionId: string,
+    templateData: EvaluationTemplateRequest,
+    createdBy: string
+  ): Promise<EvaluationTemplate> {
+    if (typeof window !== 'undefined') {
+      throw new Error('EvaluationTemplateService.createTemplateVersion must only be called server-side')
+    }
+
+    try {
+      const templateKey = templateData.templateKey || toTemplateKey(templateData.name)
+      const templatesRef = adminDb.collection(COLLECTIONS.EVALUATION_TEMPLATES)
+
+      const { templateId, version, retiredIds } = await adminDb.runTransaction(async (transaction) => {
+        const existing = await transaction.get(
+          templatesRef
+            .where('institutionId', '==', institutionId)
+            .where('templateKey', '==', templateKey)
+        )
+
+        const versions = existing.docs.map(doc => doc.data() as EvaluationTemplate)
+        const nextVersion = versions.reduce((max, template) => Math.max(max, template.version), 0) + 1
+        const nextId = `tmpl-${institutionId}-${templateKey}-v${nextVersion}`
+        const timestamp = FieldValue.serverTimestamp()
+
+        const activeDocs = existing.docs.filter(doc => doc.data().status === 'ACTIVE')
+        activeDocs.forEach(doc => {
+          transaction.update(doc.ref, {
+            status: 'RETIRED',
+            retiredAt: timestamp,
+            updatedAt: timestamp,
+            lastModifiedBy: createdBy
+          })
+        })
+
+        transaction.set(templatesRef.doc(nextId), cleanUndefinedValues({
+          id: nextId,
+          institutionId,
+          templateKey,
+          version: nextVersion,
+          name: templateData.name.trim(),
+          description: templateData.description,
+          evaluationType: templateData.evaluationType,
+          departments: templateData.departments || [],
+          status: 'ACTIVE',
+          sections: templateData.sections,
+          overallScale: templateData.overallScale,
+          summaryCommentsRequired: templateData.summaryCommentsRequired ?? true,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          createdBy,
+          lastModifiedBy: createdBy
+        }))
+
+        return { templateId: nextId, version: nextVersion, retiredIds: activeDocs.map(doc => doc.id) }
+      })
+
+      await logAdminAction(
+        'EVALUATION_TEMPLATE_VERSION_CREATED',
+        createdBy,
+        'EVALUATION_TEMPLATE',
+        templateId,
+        {
+          templateKey,
+          version,
+          evaluationType: templateData.evaluationType,
+          retiredVersions: retiredIds
+        }
+      )
+
+      return await EvaluationTemplateService.getTemplateById(templateId) as EvaluationTemplate
+    } catch (error) {
+      console.error('[EMMA] Evaluation template creation failed:', error)
+      throw new Error('Failed to create evaluation template')
+    }
+  }
+
+  /**
+   * Retire a template version so it is no longer offered for new evaluations
+   */
+  static async retireTemplate(templateId: string, retiredBy: string): Promise<void> {
+    try {
+      await adminDb.collection(COLLECTIONS.EVALUATION_TEMPLATES).doc(templateId).update({
+        status: 'RETIRED',
+        retiredAt: FieldValue.serverTimestamp(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: retiredBy
+      })
+
+      await logAdminAction(
+        'EVALUATION_TEMPLATE_RETIRED',
+        retiredBy,
+        'EVALUATION_TEMPLATE',
+        templateId,
+        {
+          status: 'RETIRED'
+        }
+      )
+    } catch (error) {
+      console.error('[EMMA] Evaluation template retire failed:', error)
+      throw new Error('Failed to retire evaluation template')
+    }
+  }
+}
+
+// ===== ACGME MILESTONES =====
+
+export class MilestoneService {
+  /**
+   * Get a department's milestone set, falling back to the built-in
+   * sub-competencies until the institution saves its own
+   */
+  static async getMilestoneSet(institutionId: string, department: Department): Promise<MilestoneSet> {
+    try {
+      const milestoneSetDoc = await adminDb.collection(COLLECTIONS.MILESTONE_SETS).doc(`${institutionId}-${department}`).get()
+      if (milestoneSetDoc.exists) {
+        return { id: milestoneSetDoc.id, ...milestoneSetDoc.data() } as MilestoneSet
+      }
+
+      return {
+        id: `${institutionId}-${department}`,
+        institutionId,
+        department,
+        name: `${department.replace(/_/g, ' ')} Milestones`,
+        subCompetencies: getDefaultSubCompetencies(department),
+        createdAt: null as any,
+        updatedAt: null as any,
+        createdBy: 'system',
+        lastModifiedBy: 'system'
+      }
+    } catch (error) {
+      console.error('[EMMA] Milestone set fetch failed:', error)
+      throw new Error('Failed to retrieve milestone set')
+    }
+  }
+
+  /**
+   * Save a department's custom milestone set (Server-side only)
+   */
+  static async saveMilestoneSet(
+    institutionId: string,
+    department: Department,
+    data: { name: string; subCompetencies: MilestoneSubCompetency[] },
+    savedBy: string
+  ): Promise<MilestoneSet> {
+    if (typeof window !== 'undefined') {
+      throw new Error('MilestoneService.saveMilestoneSet must only be called server-side')
+    }
+
+    try {
+      const setId = `${institutionId}-${department}`
+      const setRef = adminDb.collection(COLLECTIONS.MILESTONE_SETS).doc(setId)
+      const existing = await setRef.get()
+
+      await setRef.set(cleanUndefinedValues({
+        id: setId,
+        institutionId,
+        department,
+        name: data.name.trim(),
+        subCompetencies: data.subCompetencies,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: savedBy,
+        ...(existing.exists ? {} : { createdAt: FieldValue.serverTimestamp(), createdBy: savedBy })
+      }), { merge: true })
+
+      await logAdminAction(
+        'MILESTONE_SET_SAVED',
+        savedBy,
+        'MILESTONE_SET',
+        setId,
+        {
+          department,
+          subCompetencyCount: data.subCompetencies.length,
+          institutionId
+        }
+      )
+
+      return await MilestoneService.getMilestoneSet(institutionId, department)
+    } catch (error) {
+      console.error('[EMMA] Milestone set save failed:', error)
+      throw new Error('Failed to save milestone set')
+    }
+  }
+
+  /**
+   * Roll an approved evaluation's milestone levels up into the resident's
+   * milestone record, dated by the end of the evaluation period. Levels from
+   * newer evaluations are kept. Runs after approval, so failures are logged
+   * rather than undoing the approval.
+   */
+  static async rollUpEvaluation(evaluation: Evaluation, actorId: string): Promise<void> {
+    try {
+      const userDoc = await adminDb.collection(COLLECTIONS.USERS).doc(evaluation.evaluateeId).get()
+
+      const department = (userDoc.data() as ExtendedUser | undefined)?.department
+      const subCompetencies = department
+        ? (await MilestoneService.getMilestoneSet(evaluation.institutionId, department)).subCompetencies
+        : getDefaultSubCompetencies()
+
+      const levels = rollUpMilestoneLevels(evaluation.ratings, subCompetencies)
+      if (levels.size === 0) return
+
+      const assessedOn = toDate(evaluation.evaluationPeriod?.endDate) ?? toDate(evaluation.submittedDate) ?? new Date()
+      const profileRef = adminDb.collection(COLLECTIONS.RESIDENTS).doc(evaluation.evaluateeId)
+
+      const updatedIds = await adminDb.runTransaction(async (transaction) => {
+        const profileDoc = await transaction.get(profileRef)
+
+        // Residents without a profile have their milestones derived from evaluations in the CCC report
+        if (!profileDoc.exists) return []
+
+        const profile = profileDoc.data() as ResidentProfile
+        const merged = mergeMilestoneLevels(profile.academicStatus?.milestones ?? [], levels, {
+          evaluationId: evaluation.id,
+          assessmentDate: AdminTimestamp.fromDate(assessedOn) as any,
+          assessorId: evaluation.evaluatorId
+        })
+        if (merged.updatedIds.length === 0) return []
+
+        transaction.update(profileRef, {
+          'academicStatus.milestones': merged.milestones,
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: actorId
+        })
+        return merged.updatedIds
+      })
+
+      if (updatedIds.length === 0) return
+
+      await logAdminAction(
+        'RESIDENT_MILESTONES_UPDATED',
+        actorId,
+        'RESIDENT',
+        evaluation.evaluateeId,
+        {
+          evaluationId: evaluation.id,
+          milestoneIds: updatedIds
+        }
+      )
+    } catch (error) {
+      console.error('[EMMA] Milestone roll-up failed:', error)
+    }
+  }
+
+  /**
+   * Build the semi-annual Clinical Competency Committee report from approved
+   * evaluations (Server-side only)
+   */
+  static async getCccReport(
+    institutionId: string,
+    requestedBy: string,
+    options: { academicYear: string; half: CccHalf; department?: Department }
+  ): Promise<CccReport> {
+    const period = getCccPeriod(options.academicYear, options.half)
+    if (!period) {
+      throw new Error('Invalid academic year')
+    }
+
+    try {
+      let residentsQuery = adminDb.collection(COLLECTIONS.USERS)
+        .where('institutionId', '==', institutionId)
+        .where('role', '==', 'RESIDENT')
+        .where('isActive', '==', true)
+
+      if (options.department) {
+        residentsQuery = residentsQuery.where('department', '==', options.department)
+      }
+
+      const [residentsSnapshot, evaluationsSnapshot, setsSnapshot] = await Promise.all([
+        residentsQuery.get(),
+        adminDb.collection(COLLECTIONS.EVALUATIONS)
+          .where('institutionId', '==', institutionId)
+          .where('status', 'in', ['APPROVED', 'ARCHIVED'])
+          .get(),
+        adminDb.collection(COLLECTIONS.MILESTONE_SETS)
+          .where('institutionId', '==', institutionId)
+          .get()
+      ])
+
+      const residents = residentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser))
+      const residentIds = new Set(residents.map(resident => resident.id))
+      const evaluations = evaluationsSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as Evaluation))
+        .filter(evaluation => residentIds.has(evaluation.evaluateeId))
+      const subCompetenciesByDepartment: Partial<Record<Department, MilestoneSubCompetency[]>> = {}
+      setsSnapshot.docs.forEach(doc => {
+        const milestoneSet = doc.data() as MilestoneSet
+        subCompetenciesByDepartment[milestoneSet.department] = milestoneSet.subCompetencies
+      })
+
+      const report = buildCccReport({
+        period,
+        residents: residents.map(resident => ({
+          id: resident.id,
+          name: `${resident.firstName} ${resident.lastName}`,
+          department: resident.department,
+          pgyLevel: resident.pgyLevel
+        })),
+        evaluations,
+        subCompetenciesByDepartment
+      })
+
+      await logAdminAction(
+        'CCC_REPORT_GENERATED',
+        requestedBy,
+        'RESIDENT_COLLECTION',
+        institutionId,
+        {
+          period: period.key,
+          department: options.department,
+          residentCount: report.residentCount,
+          notProgressingCount: report.notProgressingCount,
+          institutionId
+        }
+      )
+
+      return report
+    } catch (error) {
+      console.error('[EMMA] CCC report failed:', error)
+      throw new Error('Failed to generate CCC report')
+    }
+  }
+}
+
+// ===== ANALYTICS =====
+
+export class AnalyticsService {
+  /**
+   * Compute class analytics for a period from evaluations and resident
+   * records (Server-side only)
+   */
+  static async getClassAnalytics(
+    institutionId: string,
+    requestedBy: string,
+    period: AnalyticsPeriod
+  ): Promise<ClassAnalyticsReport> {
+    try {
+      const [residentsSnapshot, evaluationsSnapshot] = await Promise.all([
+        // Inactive residents are kept so graduates still count towards earlier periods
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'RESIDENT')
+          .get(),
+        adminDb.collection(COLLECTIONS.EVALUATIONS)
+          .where('institutionId', '==', institutionId)
+          .get()
+      ])
+
+      const report = buildClassAnalytics({
+        period,
+        residents: residentsSnapshot.docs.map(doc => {
+          const resident = doc.data() as ExtendedUser
+          return { id: doc.id, department: resident.department, pgyLevel: resident.pgyLevel }
+        }),
+        evaluations: evaluationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Evaluation))
+      })
+
+      await logAdminAction(
+        'CLASS_ANALYTICS_GENERATED',
+        requestedBy,
+        'EVALUATION_COLLECTION',
+        institutionId,
+        {
+          range: period.range,
+          periodStart: report.periodStart,
+          periodEnd: report.periodEnd,
+          evaluationCount: report.summary.totalEvaluations,
+          institutionId
+        }
+      )
+
+      return report
+    } catch (error) {
+      console.error('[EMMA] Class analytics failed:', error)
+      throw new Error('Failed to generate class analytics')
+    }
+  }
+}
+
+// ===== DASHBOARD =====
+
+export class DashboardService {
+  /**
+   * Compute the dashboard summary for a viewer. Evaluation figures cover
+   * only the evaluations the viewer is responsible for (Server-side only).
+   */
+  static async getSummary(
+    institutionId: string,
+    viewer: { id: string; role: UserRole }
+  ): Promise<DashboardSummary> {
+    try {
+      const scope = getEvaluationScope(viewer.role)
+
+      let evaluationsQuery = adminDb.collection(COLLECTIONS.EVALUATIONS)
+        .where('institutionId', '==', institutionId)
+
+      if (scope === 'EVALUATOR') {
+        evaluationsQuery = evaluationsQuery.where('evaluatorId', '==', viewer.id)
+      } else if (scope === 'RESIDENT') {
+        evaluationsQuery = evaluationsQuery
+          .where('evaluateeId', '==', viewer.id)
+          .where('status', 'in', ['APPROVED', 'ARCHIVED'])
+      }
+
+      const [residentsSnapshot, schedulesSnapshot, evaluationsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'RESIDENT')
+          .where('isActive', '==', true)
+          .get(),
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'PUBLISHED')
+          .get(),
+        evaluationsQuery.get()
+      ])
+
+      return buildDashboardSummary({
+        viewerRole: viewer.role,
+        residents: residentsSnapshot.docs.map(doc => ({ createdAt: (doc.data() as ExtendedUser).createdAt })),
+        schedules: schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule)),
+        evaluations: evaluationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Evaluation))
+      })
+    } catch (error) {
+      console.error('[EMMA] Dashboard summary failed:', error)
+      throw new Error('Failed to load dashboard summary')
+    }
+  }
+}
+
+// ===== RESIDENT PORTAL =====
+
+// One preference document per resident and academic year
+const getRotationPreferenceId = (residentId: string, academicYear: string): string => `${residentId}-${academicYear}`
+
+export class ResidentPortalService {
+  /**
+   * Assemble a resident's own portal: current rotation, upcoming published
+   * assignments and milestone progress for the current CCC period
+   * (Server-side only)
+   */
+  static async getPortal(institutionId: string, residentId: string): Promise<ResidentPortal> {
+    const now = new Date()
+    const period = getCccPeriod(getAcademicYear(now), now.getMonth() >= 6 ? 'MID' : 'END')!
+
+    try {
+      const [userDoc, residentDoc, schedulesSnapshot, evaluationsSnapshot, rotationsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.USERS).doc(residentId).get(),
+        adminDb.collection(COLLECTIONS.RESIDENTS).doc(residentId).get(),
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'PUBLISHED')
+          .get(),
+        adminDb.collection(COLLECTIONS.EVALUATIONS)
+          .where('institutionId', '==', institutionId)
+          .where('evaluateeId', '==', residentId)
+          .where('status', 'in', ['APPROVED', 'ARCHIVED'])
+          .get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS)
+          .where('institutionId', '==', institutionId)
+          .get()
+      ])
+
+      if (!userDoc.exists) {
+        throw new Error('Resident not found')
+      }
+
+      const user = { id: userDoc.id, ...userDoc.data() } as ExtendedUser
+      const rotationNames: Record<string, string> = {}
+      rotationsSnapshot.docs.forEach(doc => {
+        rotationNames[doc.id] = (doc.data() as Rotation).name
+      })
+
+      const subCompetenciesByDepartment: Partial<Record<Department, MilestoneSubCompetency[]>> = {}
+      if (user.department) {
+        const milestoneSet = await MilestoneService.getMilestoneSet(institutionId, user.department)
+        subCompetenciesByDepartment[user.department] = milestoneSet.subCompetencies
+      }
+
+      const milestoneReport = buildCccReport({
+        period,
+        residents: [{
+          id: user.id,
+          name: `${user.firstName} ${user.lastName}`,
+          department: user.department,
+          pgyLevel: user.pgyLevel
+        }],
+        evaluations: evaluationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Evaluation)),
+        subCompetenciesByDepartment
+      })
+
+      const portal = buildResidentPortal({
+        user,
+        residentProfile: residentDoc.exists ? residentDoc.data() as ResidentProfile : null,
+        schedules: schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule)),
+        rotationNames,
+        milestones: milestoneReport.residents[0] ?? null,
+        milestonePeriod: period.label,
+        now
+      })
+
+      await logAdminAction(
+        'RESIDENT_PORTAL_ACCESSED',
+        residentId,
+        'RESIDENT',
+        residentId,
+        {
+          upcomingAssignmentCount: portal.upcomingAssignments.length,
+          institutionId
+        }
+      )
+
+      return portal
+    } catch (error) {
+      console.error('[EMMA] Resident portal fetch failed:', error)
+      throw new Error('Failed to load resident portal')
+    }
+  }
+
+  /**
+   * Apply a resident's change to their own preferred name, phone number or
+   * emergency contact (Server-side only). Validate with
+   * validateResidentProfileUpdate first.
+   */
+  static async updateOwnProfile(
+    residentId: string,
+    institutionId: string,
+    changes: ResidentProfileUpdate
+  ): Promise<ResidentPortalProfile> {
+    try {
+      const update = normalizeResidentProfileUpdate(changes)
+      const updateData: Record<string, unknown> = {
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: residentId
+      }
+
+      if (update.preferredName !== undefined) {
+        updateData['profile.preferredName'] = update.preferredName || FieldValue.delete()
+      }
+      if (update.phoneNumber !== undefined) {
+        updateData.phoneNumber = update.phoneNumber || FieldValue.delete()
+      }
+      if (update.emergencyContact !== undefined) {
+        updateData['profile.emergencyContact'] = update.emergencyContact ?? FieldValue.delete()
+      }
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(residentId)
+      await userRef.update(updateData)
+
+      // Field names only - contact details are PHI
+      await logAdminAction(
+        'RESIDENT_PROFILE_SELF_UPDATED',
+        residentId,
+        'USER',
+        residentId,
+        {
+          updatedFields: Object.keys(update),
+          institutionId
+        }
+      )
+
+      const userDoc = await userRef.get()
+      return toResidentPortalProfile({ id: userDoc.id, ...userDoc.data() } as ExtendedUser)
+    } catch (error) {
+      console.error('[EMMA] Resident profile update failed:', error)
+      throw new Error('Failed to update profile')
+    }
+  }
+
+  /**
+   * A resident's rotation rankings for an academic year and the rotations
+   * they can rank (Server-side only)
+   */
+  static async getRotationPreferences(
+    institutionId: string,
+    residentId: string,
+    academicYear: string
+  ): Promise<ResidentRotationPreferences> {
+    try {
+      const [userDoc, preferenceDoc, rotations] = await Promise.all([
+        adminDb.collection(COLLECTIONS.USERS).doc(residentId).get(),
+        adminDb.collection(COLLECTIONS.ROTATION_PREFERENCES).doc(getRotationPreferenceId(residentId, academicYear)).get(),
+        RotationService.getRotations(institutionId, residentId)
+      ])
+
+      const user = userDoc.data() as ExtendedUser | undefined
+      const preference = preferenceDoc.data() as RotationPreference | undefined
+
+      return {
+        academicYear,
+        rankings: preference?.institutionId === institutionId ? preference.rankings : [],
+        submittedAt: preference?.institutionId === institutionId ? toDate(preference.submittedAt)?.toISOString() ?? null : null,
+        rotations: getRankableRotations(rotations, user?.pgyLevel)
+      }
+    } catch (error) {
+      console.error('[EMMA] Rotation preference fetch failed:', error)
+      throw new Error('Failed to retrieve rotation preferences')
+    }
+  }
+
+  /**
+   * Save a resident's rotation rankings for an academic year, replacing any
+   * earlier submission. Validate with validateRotationRankings first
+   * (Server-side only)
+   */
+  static async saveRotationPreferences(
+    institutionId: string,
+    residentId: string,
+    academicYear: string,
+    rankings: string[]
+  ): Promise<void> {
+    try {
+      const preferenceRef = adminDb.collection(COLLECTIONS.ROTATION_PREFERENCES).doc(getRotationPreferenceId(residentId, academicYear))
+      const timestamp = FieldValue.serverTimestamp()
+
+      await adminDb.runTransaction(async (transaction) => {
+        const preferenceDoc = await transaction.get(preferenceRef)
+
+        transaction.set(preferenceRef, {
+          id: preferenceRef.id,
+          institutionId,
+          residentId,
+          academicYear,
+          rankings,
+          submittedAt: timestamp,
+          updatedAt: timestamp,
+          lastModifiedBy: residentId,
+          ...(preferenceDoc.exists ? {} : { createdAt: timestamp, createdBy: residentId })
+        }, { merge: true })
+      })
+
+      await logAdminAction(
+        'ROTATION_PREFERENCES_SUBMITTED',
+        residentId,
+        'RESIDENT',
+        residentId,
+        {
+          academicYear,
+          rankingCount: rankings.length,
+          institutionId
+        }
+      )
+    } catch (error) {
+      console.error('[EMMA] Rotation preference save failed:', error)
+      throw new Error('Failed to save rotation preferences')
+    }
+  }
+}
+
+// ===== FACULTY PORTAL =====
+
+export class FacultyPortalService {
+  /**
+   * Assemble a faculty member's portal: residents they supervise, advise or
+   * attend this block, and the evaluations they still owe (Server-side only)
+   */
+  static async getPortal(institutionId: string, facultyId: string): Promise<FacultyPortal> {
+    try {
+      const [residentsSnapshot, schedulesSnapshot, rotationsSnapshot, evaluationsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'RESIDENT')
+          .where('isActive', '==', true)
+          .get(),
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'PUBLISHED')
+          .get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS)
+          .where('institutionId', '==', institutionId)
+          .get(),
+        adminDb.collection(COLLECTIONS.EVALUATIONS)
+          .where('institutionId', '==', institutionId)
+          .where('evaluatorId', '==', facultyId)
+          .get()
+      ])
+
+      const residents = residentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser))
+      const profileDocs = residents.length > 0
+        ? await adminDb.getAll(...residents.map(resident => adminDb.collection(COLLECTIONS.RESIDENTS).doc(resident.id)))
+        : []
+
+      const portal = buildFacultyPortal({
+        facultyId,
+        residents,
+        residentProfiles: profileDocs
+          .filter(doc => doc.exists)
+          .map(doc => ({ id: doc.id, ...doc.data() } as ResidentProfile)),
+        schedules: schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule)),
+        rotations: rotationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Rotation)),
+        evaluations: evaluationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Evaluation))
+      })
+
+      await logAdminAction(
+        'FACULTY_PORTAL_ACCESSED',
+        facultyId,
+        'RESIDENT_COLLECTION',
+        institutionId,
+        {
+          residentCount: portal.residents.length,
+          pendingEvaluationCount: portal.pendingEvaluations.length,
+          institutionId
+        }
+      )
+
+      return portal
+    } catch (error) {
+      console.error('[EMMA] Faculty portal fetch failed:', error)
+      throw new Error('Failed to load faculty portal')
+    }
+  }
+
+  /**
+   * Open evaluations per evaluator across the institution (Server-side only)
+   */
+  static async getWorkload(institutionId: string, requestedBy: string): Promise<FacultyWorkloadEntry[]> {
+    try {
+      const [facultySnapshot, evaluationsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'FACULTY')
+          .where('isActive', '==', true)
+          .get(),
+        adminDb.collection(COLLECTIONS.EVALUATIONS)
+          .where('institutionId', '==', institutionId)
+          .where('status', 'in', ['DRAFT', 'SUBMITTED', 'REVIEWED'])
+          .get()
+      ])
+
+      const faculty = facultySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser))
+      const evaluations = evaluationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Evaluation))
+
+      // Coordinators and admins who write evaluations too
+      const facultyIds = new Set(faculty.map(member => member.id))
+      const otherEvaluatorIds = Array.from(new Set(evaluations.map(evaluation => evaluation.evaluatorId)))
+        .filter(evaluatorId => !facultyIds.has(evaluatorId))
+      const evaluatorDocs = otherEvaluatorIds.length > 0
+        ? await adminDb.getAll(...otherEvaluatorIds.map(evaluatorId => adminDb.collection(COLLECTIONS.USERS).doc(evaluatorId)))
+        : []
+
+      const workload = buildFacultyWorkload({
+        faculty,
+        evaluators: evaluatorDocs
+          .filter(doc => doc.exists)
+          .map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser)),
+        evaluations
+      })
+
+      await logAdminAction(
+        'FACULTY_WORKLOAD_GENERATED',
+        requestedBy,
+        'EVALUATION_COLLECTION',
+        institutionId,
+        {
+          evaluatorCount: workload.length,
+          openEvaluationCount: workload.reduce((total, entry) => total + entry.open, 0),
+          institutionId
+        }
+      )
+
+      return workload
+    } catch (error) {
+      console.error('[EMMA] Faculty workload failed:', error)
+      throw new Error('Failed to load faculty workload')
+    }
+  }
+}
+
+// ===== LEAVE =====
+
+const LEAVE_ACTION_STATUS: Record<LeaveAction, LeaveRequest['status']> = {
+  APPROVE: 'APPROVED',
+  DENY: 'DENIED',
+  CANCEL: 'CANCELLED'
+}
+
+const LEAVE_ACTION_AUDIT: Record<LeaveAction, string> = {
+  APPROVE: 'LEAVE_APPROVED',
+  DENY: 'LEAVE_DENIED',
+  CANCEL: 'LEAVE_CANCELLED'
+}
+
+export interface LeaveUpdate {
+  request?: LeaveRequest
+  error?: string // Why the request could not be decided as asked
+}
+
+export class LeaveService {
+  /**
+   * Leave requests in an institution, newest first. Filter by resident for
+   * a resident's own requests (Server-side only)
+   */
+  static async getRequests(
+    institutionId: string,
+    requestedBy: string,
+    filters: { residentId?: string; status?: LeaveRequest['status'] } = {}
+  ): Promise<LeaveRequest[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.LEAVE_REQUESTS)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.residentId) {
+        q = q.where('residentId', '==', filters.residentId)
+      }
+
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      }
+
+      const snapshot = await q.get()
+      const requests = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaveRequest))
+      requests.sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0))
+
+      await logAdminAction(
+        'LEAVE_REQUESTS_ACCESSED',
+        requestedBy,
+        'LEAVE_REQUEST_COLLECTION',
+        institutionId,
+        {
+          requestCount: requests.length,
+          filters,
+          institutionId
+        }
+      )
+
+      return requests
+    } catch (error) {
+      console.error('[EMMA] Leave request fetch failed:', error)
+      throw new Error('Failed to retrieve leave requests')
+    }
+  }
+
+  /**
+   * Get a single leave request by ID (Server-side only)
+   */
+  static async getRequestById(requestId: string): Promise<LeaveRequest | null> {
+    try {
+      const requestDoc = await adminDb.collection(COLLECTIONS.LEAVE_REQUESTS).doc(requestId).get()
+      return requestDoc.exists ? { id: requestDoc.id, ...requestDoc.data() } as LeaveRequest : null
+    } catch (error) {
+      console.error('[EMMA] Leave request fetch failed:', error)
+      throw new Error('Failed to retrieve leave request')
+    }
+  }
+
+  /**
+   * Check a request against the resident's balance, their other requests,
+   * rotation minimum staffing and the board eligibility allowance. When a
+   * pending request is being approved, pass its ID: it is left out of the
+   * resident's requests, and so are their other pending requests, which are
+   * checked again when they are approved (Server-side only)
+   */
+  static async assessRequest(
+    institutionId: string,
+    residentId: string,
+    input: LeaveRequestInput,
+    approvingRequestId?: string
+  ): Promise<LeaveAssessment> {
+    try {
+      const [existingSnapshot, approvedSnapshot, schedulesSnapshot, rotationsSnapshot, settings] = await Promise.all([
+        adminDb.collection(COLLECTIONS.LEAVE_REQUESTS)
+          .where('institutionId', '==', institutionId)
+          .where('residentId', '==', residentId)
+          .get(),
+        adminDb.collection(COLLECTIONS.LEAVE_REQUESTS)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'APPROVED')
+          .get(),
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('status', '==', 'PUBLISHED')
+          .where('type', '==', 'ROTATION')
+          .get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS)
+          .where('institutionId', '==', institutionId)
+          .get(),
+        fetchSystemSettings(institutionId)
+      ])
+
+      return assessLeaveRequest({
+        residentId,
+        request: input,
+        existingRequests: existingSnapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() } as LeaveRequest))
+          .filter(existing => !approvingRequestId || (existing.id !== approvingRequestId && existing.status === 'APPROVED')),
+        approvedLeave: approvedSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as LeaveRequest)),
+        schedules: schedulesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Schedule)),
+        rotations: rotationsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Rotation)),
+        settings: resolveLeaveSettings(settings?.leave)
+      })
+    } catch (error) {
+      console.error('[EMMA] Leave request check failed:', error)
+      throw new Error('Failed to check leave request')
+    }
+  }
+
+  /**
+   * Create a PENDING leave request for the coordinator queue, recording the
+   * warnings from assessRequest (Server-side only)
+   */
+  static async createRequest(
+    resident: ExtendedUser,
+    input: LeaveRequestInput,
+    warnings: LeaveWarning[],
+    createdBy: string
+  ): Promise<LeaveRequest> {
+    try {
+      const startDate = toDate(input.startDate)!
+      const endDate = toDate(input.endDate)!
+      const requestRef = adminDb.collection(COLLECTIONS.LEAVE_REQUESTS).doc()
+      const timestamp = FieldValue.serverTimestamp()
+
+      const reason = input.reason?.trim()
+
+      await requestRef.set({
+        id: requestRef.id,
+        institutionId: resident.institutionId,
+        residentId: resident.id,
+        residentName: `${resident.firstName} ${resident.lastName}`,
+        ...(resident.department ? { department: resident.department } : {}),
+        type: input.type,
+        startDate: AdminTimestamp.fromDate(startDate),
+        endDate: AdminTimestamp.fromDate(endDate),
+        workingDays: countWorkingDays(startDate, endDate),
+        academicYear: getAcademicYear(startDate),
+        ...(reason ? { reason } : {}),
+        status: 'PENDING',
+        warnings: warnings.map(warning => cleanUndefinedValues(warning)),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy,
+        lastModifiedBy: createdBy
+      })
+
+      // Leave type and reason stay out of the audit log - they can reveal health information
+      await logAdminAction(
+        'LEAVE_REQUESTED',
+        createdBy,
+        'LEAVE_REQUEST',
+        requestRef.id,
+        {
+          residentId: resident.id,
+          warningTypes: warnings.map(warning => warning.type),
+          institutionId: resident.institutionId
+        }
+      )
+
+      const createdDoc = await requestRef.get()
+      return { id: requestRef.id, ...createdDoc.data() } as LeaveRequest
+    } catch (error) {
+      console.error('[EMMA] Leave request creation failed:', error)
+      throw new Error('Failed to create leave request')
+    }
+  }
+
+  /**
+   * Approve, deny or cancel a request. The request's status is checked and
+   * the decision written in one transaction, so a request is only decided
+   * once. Approval is checked again with assessRequest: it fails if the leave
+   * can no longer be taken, and warnings that have appeared since the request
+   * was made are recorded for the coordinator to review before approving
+   * again. Approval publishes a VACATION schedule for the leave; cancelling
+   * approved leave archives it (Server-side only)
+   */
+  static async applyAction(
+    request: LeaveRequest,
+    action: LeaveAction,
+    actorId: string,
+    comments?: string
+  ): Promise<LeaveUpdate> {
+    try {
+      const requestRef = adminDb.collection(COLLECTIONS.LEAVE_REQUESTS).doc(request.id)
+      const schedulesRef = adminDb.collection(COLLECTIONS.SCHEDULES)
+      const scheduleRef = action === 'APPROVE' ? schedulesRef.doc() : null
+
+      const assessment = action === 'APPROVE'
+        ? await LeaveService.assessRequest(request.institutionId, request.residentId, {
+          type: request.type,
+          startDate: format(toDate(request.startDate)!, 'yyyy-MM-dd'),
+          endDate: format(toDate(request.endDate)!, 'yyyy-MM-dd')
+        }, request.id)
+        : null
+
+      if (assessment?.error) {
+        return { error: `This leave can no longer be approved: ${assessment.error}` }
+      }
+
+      const result = await adminDb.runTransaction(async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        const current = requestDoc.exists ? { id: requestDoc.id, ...requestDoc.data() } as LeaveRequest : null
+        const allowedStatuses: LeaveRequest['status'][] = action === 'CANCEL' ? ['PENDING', 'APPROVED'] : ['PENDING']
+
+        if (!current || !allowedStatuses.includes(current.status)) {
+          return { error: `This leave request is already ${current?.status ?? 'gone'}` }
+        }
+
+        if (assessment) {
+          const recorded = new Set((current.warnings ?? []).map(warning => warning.message))
+          const newWarnings = assessment.warnings.filter(warning => !recorded.has(warning.message))
+
+          if (newWarnings.length > 0) {
+            transaction.update(requestRef, {
+              warnings: assessment.warnings.map(warning => cleanUndefinedValues(warning)),
+              updatedAt: FieldValue.serverTimestamp()
+            })
+            return {
+              error: `New issues since this leave was requested: ${newWarnings.map(warning => warning.message).join('; ')}. Review them and approve again.`
+            }
+          }
+        }
+
+        if (scheduleRef) {
+          // Named neutrally - the schedule is visible to anyone who can see schedules
+          const timestamp = FieldValue.serverTimestamp()
+          transaction.set(scheduleRef, {
+            id: scheduleRef.id,
+            institutionId: current.institutionId,
+            academicYear: current.academicYear,
+            name: `Leave: ${current.residentName}`,
+            type: 'VACATION',
+            status: 'PUBLISHED',
+            startDate: current.startDate,
+            endDate: current.endDate,
+            assignments: [{
+              residentId: current.residentId,
+              startDate: current.startDate,
+              endDate: current.endDate,
+              notes: 'Approved leave'
+            }],
+            publishedDate: AdminTimestamp.now(),
+            approvedBy: actorId,
+            approvalDate: AdminTimestamp.now(),
+            createdAt: timestamp,
+            updatedAt: timestamp,
+            createdBy: actorId,
+            lastModifiedBy: actorId
+          })
+        }
+
+        if (action === 'CANCEL' && current.scheduleId) {
+          transaction.update(schedulesRef.doc(current.scheduleId), {
+            status: 'ARCHIVED',
+            updatedAt: FieldValue.serverTimestamp(),
+            lastModifiedBy: actorId
+          })
+        }
+
+        transaction.update(requestRef, {
+          status: LEAVE_ACTION_STATUS[action],
+          ...(action === 'APPROVE' || action === 'DENY' ? {
+            decision: {
+              decidedBy: actorId,
+              decidedAt: FieldValue.serverTimestamp(),
+              ...(comments?.trim() ? { comments: comments.trim() } : {})
+            }
+          } : {}),
+          ...(scheduleRef ? { scheduleId: scheduleRef.id } : {}),
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: actorId
+        })
+        return { current }
+      })
+
+      if (!result.current) {
+        return { error: result.error }
+      }
+
+      const scheduleId = scheduleRef?.id ?? result.current.scheduleId
+      if (scheduleRef) {
+        await logAdminAction(
+          'SCHEDULE_CREATED',
+          actorId,
+          'SCHEDULE',
+          scheduleRef.id,
+          {
+            type: 'VACATION',
+            status: 'PUBLISHED',
+            academicYear: result.current.academicYear,
+            assignmentCount: 1,
+            institutionId: result.current.institutionId
+          }
+        )
+      } else if (action === 'CANCEL' && scheduleId) {
+        await logAdminAction(
+          'SCHEDULE_UPDATED',
+          actorId,
+          'SCHEDULE',
+          scheduleId,
+          {
+            updatedFields: ['status'],
+            status: 'ARCHIVED'
+          }
+        )
+      }
+
+      if (scheduleId) {
+        await ScheduleService.refreshScheduleConflicts(scheduleId, actorId)
+      }
+
+      await logAdminAction(
+        LEAVE_ACTION_AUDIT[action],
+        actorId,
+        'LEAVE_REQUEST',
+        request.id,
+        {
+          residentId: result.current.residentId,
+          previousStatus: result.current.status,
+          scheduleId,
+          institutionId: result.current.institutionId
+        }
+      )
+
+      if (action === 'APPROVE' || result.current.status === 'APPROVED') {
+        await LeaveService.refreshLeaveSummary(result.current.institutionId, result.current.residentId)
+      }
+
+      const updatedDoc = await requestRef.get()
+      return { request: { id: updatedDoc.id, ...updatedDoc.data() } as LeaveRequest }
+    } catch (error) {
+      console.error('[EMMA] Leave request update failed:', error)
+      throw new Error('Failed to update leave request')
+    }
+  }
+
+  /**
+   * A resident's balances for the current academic year and the training
+   * extension from their approved leave (Server-side only)
+   */
+  static async getSummary(institutionId: string, residentId: string, requestedBy: string): Promise<ResidentLeaveSummary> {
+    try {
+      const summary = await LeaveService.buildSummary(institutionId, residentId)
+
+      await logAdminAction(
+        'LEAVE_SUMMARY_ACCESSED',
+        requestedBy,
+        'RESIDENT',
+        residentId,
+        {
+          extensionDays: summary.extension.extensionDays,
+          institutionId
+        }
+      )
+
+      return summary
+    } catch (error) {
+      console.error('[EMMA] Leave summary failed:', error)
+      throw new Error('Failed to load leave summary')
+    }
+  }
+
+  private static async buildSummary(institutionId: string, residentId: string): Promise<ResidentLeaveSummary> {
+    const [requestsSnapshot, profileDoc, settings] = await Promise.all([
+      adminDb.collection(COLLECTIONS.LEAVE_REQUESTS)
+        .where('institutionId', '==', institutionId)
+        .where('residentId', '==', residentId)
+        .get(),
+      adminDb.collection(COLLECTIONS.RESIDENTS).doc(residentId).get(),
+      fetchSystemSettings(institutionId)
+    ])
+
+    const requests = requestsSnapshot.docs.map(doc => doc.data() as LeaveRequest)
+    const profile = profileDoc.exists ? profileDoc.data() as ResidentProfile : null
+    const graduationDate = profile?.institutionId === institutionId ? toDate(profile.program?.expectedGraduationDate) : null
+    const leaveSettings = resolveLeaveSettings(settings?.leave)
+    const academicYear = getAcademicYear()
+
+    return {
+      residentId,
+      academicYear,
+      balances: getLeaveBalances(requests, academicYear, leaveSettings),
+      extension: calculateTrainingExtension(requests, leaveSettings, graduationDate),
+      settings: leaveSettings
+    }
+  }
+
+  /**
+   * Record cumulative board-counted leave on the resident profile after an
+   * approval or a cancelled approval
+   */
+  private static async refreshLeaveSummary(institutionId: string, residentId: string): Promise<void> {
+    const profileRef = adminDb.collection(COLLECTIONS.RESIDENTS).doc(residentId)
+    const profileDoc = await profileRef.get()
+    if (!profileDoc.exists) return
+
+    const { extension } = await LeaveService.buildSummary(institutionId, residentId)
+    const extendedGraduationDate = toDate(extension.extendedGraduationDate)
+
+    await profileRef.update({
+      leaveSummary: {
+        boardLeaveDays: extension.boardLeaveDays,
+        extensionDays: extension.extensionDays,
+        ...(extendedGraduationDate ? { extendedGraduationDate: AdminTimestamp.fromDate(extendedGraduationDate) } : {}),
+        updatedAt: FieldValue.serverTimestamp()
+      }
+    })
+  }
+}
+
+// ===== SHIFT SWAPS =====
+
+type ShiftSwapDecision = Exclude<ShiftSwapAction, 'ACCEPT'>
+
+const SHIFT_SWAP_ACTION_STATUS: Record<ShiftSwapDecision, ShiftSwapRequest['status']> = {
+  APPROVE: 'APPROVED',
+  DENY: 'DENIED',
+  CANCEL: 'CANCELLED'
+}
+
+// Statuses a swap must still be in when the decision is written
+const SHIFT_SWAP_ACTION_FROM: Record<ShiftSwapDecision, ShiftSwapRequest['status'][]> = {
+  APPROVE: ['PENDING_APPROVAL'],
+  DENY: ['PENDING_APPROVAL'],
+  CANCEL: ['OPEN', 'PENDING_APPROVAL']
+}
+
+const SHIFT_SWAP_ACTION_AUDIT: Record<ShiftSwapDecision, string> = {
+  APPROVE: 'SHIFT_SWAP_APPROVED',
+  DENY: 'SHIFT_SWAP_DENIED',
+  CANCEL: 'SHIFT_SWAP_CANCELLED'
+}
+
+const toSwapShift = (shift: SwapShift): SwapShift => ({
+  rotationId: shift.rotationId,
+  rotationName: shift.rotationName,
+  date: shift.date,
+  ...(shift.callType ? { callType: shift.callType } : {})
+})
+
+export interface ShiftSwapUpdate {
+  request?: ShiftSwapRequest
+  error?: string // Why the swap changed before the update could be written; nothing was written
+}
+
+type ShiftSwapAssessmentContext = Omit<ShiftSwapAssessmentInput, 'callSchedule' | 'changes'>
+
+export class ShiftSwapService {
+  /**
+   * Swap requests in an institution, newest first. With a participant, only
+   * the swaps they offered or accepted plus every open offer (Server-side only)
+   */
+  static async getRequests(
+    institutionId: string,
+    requestedBy: string,
+    filters: { participantId?: string; status?: ShiftSwapRequest['status'] } = {}
+  ): Promise<ShiftSwapRequest[]> {
+    try {
+      let q = adminDb.collection(COLLECTIONS.SHIFT_SWAP_REQUESTS)
+        .where('institutionId', '==', institutionId)
+
+      if (filters.status) {
+        q = q.where('status', '==', filters.status)
+      }
+
+      const snapshot = await q.get()
+      const requests = snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as ShiftSwapRequest))
+        .filter(request => !filters.participantId ||
+          request.status === 'OPEN' ||
+          request.offeredBy === filters.participantId ||
+          request.acceptedBy === filters.participantId
+        )
+      requests.sort((a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0))
+
+      await logAdminAction(
+        'SHIFT_SWAPS_ACCESSED',
+        requestedBy,
+        'SHIFT_SWAP_COLLECTION',
+        institutionId,
+        {
+          requestCount: requests.length,
+          filters,
+          institutionId
+        }
+      )
+
+      return requests
+    } catch (error) {
+      console.error('[EMMA] Shift swap fetch failed:', error)
+      throw new Error('Failed to retrieve shift swaps')
+    }
+  }
+
+  /**
+   * Get a single swap request by ID (Server-side only)
+   */
+  static async getRequestById(requestId: string): Promise<ShiftSwapRequest | null> {
+    try {
+      const requestDoc = await adminDb.collection(COLLECTIONS.SHIFT_SWAP_REQUESTS).doc(requestId).get()
+      return requestDoc.exists ? { id: requestDoc.id, ...requestDoc.data() } as ShiftSwapRequest : null
+    } catch (error) {
+      console.error('[EMMA] Shift swap fetch failed:', error)
+      throw new Error('Failed to retrieve shift swap')
+    }
+  }
+
+  /**
+   * A resident's upcoming call shifts on published call schedules - the
+   * shifts they can offer or give in return (Server-side only)
+   */
+  static async getCallShifts(institutionId: string, residentId: string, requestedBy: string): Promise<SwapShiftOption[]> {
+    try {
+      const [schedulesSnapshot, rotationsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.SCHEDULES)
+          .where('institutionId', '==', institutionId)
+          .where('type', '==', 'CALL')
+          .where('status', '==', 'PUBLISHED')
+          .get(),
+        adminDb.collection(COLLECTIONS.ROTATIONS).where('institutionId', '==', institutionId).get()
+      ])
+
+      const rotationNames = new Map(rotationsSnapshot.docs.map(doc => [doc.id, (doc.data() as Rotation).name]))
+      const today = format(new Date(), 'yyyy-MM-dd')
+      const shifts: SwapShiftOption[] = []
+
+      schedulesSnapshot.docs.forEach(doc => {
+        const schedule = { id: doc.id, ...doc.data() } as Schedule
+        schedule.assignments
+          .filter(assignment => assignment.residentId === residentId && assignment.rotationId)
+          .forEach(assignment => {
+            const date = getCallShiftDate(assignment)
+            if (!date || date < today) return
+
+            shifts.push({
+              scheduleId: schedule.id,
+              rotationId: assignment.rotationId!,
+              rotationName: rotationNames.get(assignment.rotationId!) ?? assignment.rotationId!,
+              date,
+              ...(assignment.callType ? { callType: assignment.callType } : {})
+            })
+          })
+      })
+
+      shifts.sort((a, b) => a.date.localeCompare(b.date) || a.rotationName.localeCompare(b.rotationName))
+
+      await logAdminAction(
+        'CALL_SHIFTS_ACCESSED',
+        requestedBy,
+        'RESIDENT',
+        residentId,
+        {
+          shiftCount: shifts.length,
+          institutionId
+        }
+      )
+
+      return shifts
+    } catch (error) {
+      console.error('[EMMA] Call shift fetch failed:', error)
+      throw new Error('Failed to retrieve call shifts')
+    }
+  }
+
+  /**
+   * Load what a swap is checked against: call eligibility for the schedule's
+   * academic year and every published schedule (Server-side only)
+   */
+  static async getAssessmentContext(schedule: Schedule, requestedBy: string): Promise<ShiftSwapAssessmentContext> {
+    const [eligibility, publishedSchedules] = await Promise.all([
+      ScheduleService.getCallEligibilityInput(schedule.institutionId, schedule.academicYear, requestedBy),
+      ScheduleService.getSchedules(schedule.institutionId, requestedBy, { status: 'PUBLISHED' })
+    ])
+
+    return { ...eligibility, publishedSchedules }
+  }
+
+  /**
+   * Check a swap against call eligibility, duty hours and schedule conflicts
+   * (Server-side only)
+   */
+  static async assessSwap(
+    schedule: Schedule,
+    request: Pick<ShiftSwapRequest, 'offeredBy' | 'offeredShift' | 'returnShift'>,
+    acceptedBy: string,
+    requestedBy: string
+  ): Promise<ShiftSwapAssessment> {
+    try {
+      const context = await ShiftSwapService.getAssessmentContext(schedule, requestedBy)
+
+      return assessShiftSwap({
+        ...context,
+        callSchedule: schedule,
+        changes: getShiftSwapChanges(request, acceptedBy)
+      })
+    } catch (error) {
+      console.error('[EMMA] Shift swap check failed:', error)
+      throw new Error('Failed to check shift swap')
+    }
+  }
+
+  /**
+   * Offer one of a resident's call shifts to their colleagues (Server-side only)
+   */
+  static async createOffer(
+    resident: ExtendedUser,
+    schedule: Schedule,
+    shift: SwapShift,
+    note?: string
+  ): Promise<ShiftSwapRequest> {
+    try {
+      const requestRef = adminDb.collection(COLLECTIONS.SHIFT_SWAP_REQUESTS).doc()
+      const timestamp = FieldValue.serverTimestamp()
+      const trimmedNote = note?.trim()
+
+      await requestRef.set({
+        id: requestRef.id,
+        institutionId: schedule.institutionId,
+        scheduleId: schedule.id,
+        academicYear: schedule.academicYear,
+        offeredBy: resident.id,
+        offeredByName: `${resident.firstName} ${resident.lastName}`,
+        offeredShift: toSwapShift(shift),
+        ...(trimmedNote ? { note: trimmedNote } : {}),
+        status: 'OPEN',
+        warnings: [],
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        createdBy: resident.id,
+        lastModifiedBy: resident.id
+      })
+
+      await logAdminAction(
+        'SHIFT_SWAP_OFFERED',
+        resident.id,
+        'SHIFT_SWAP',
+        requestRef.id,
+        {
+          scheduleId: schedule.id,
+          rotationId: shift.rotationId,
+          date: shift.date,
+          institutionId: schedule.institutionId
+        }
+      )
+
+      const createdDoc = await requestRef.get()
+      return { id: requestRef.id, ...createdDoc.data() } as ShiftSwapRequest
+    } catch (error) {
+      console.error('[EMMA] Shift swap offer failed:', error)
+      throw new Error('Failed to offer shift')
+    }
+  }
+
+  /**
+   * Accept an open offer, optionally giving a shift in return, and send it
+   * to the coordinator with the warnings from assessSwap. The offer must still
+   * be open when the acceptance is written (Server-side only)
+   */
+  static async acceptOffer(
+    request: ShiftSwapRequest,
+    resident: ExtendedUser,
+    returnShift: SwapShift | undefined,
+    warnings: ShiftSwapWarning[]
+  ): Promise<ShiftSwapUpdate> {
+    try {
+      const requestRef = adminDb.collection(COLLECTIONS.SHIFT_SWAP_REQUESTS).doc(request.id)
+
+      const error = await adminDb.runTransaction(async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        if ((requestDoc.data() as ShiftSwapRequest | undefined)?.status !== 'OPEN') {
+          return 'This shift is no longer on offer'
+        }
+
+        transaction.update(requestRef, {
+          acceptedBy: resident.id,
+          acceptedByName: `${resident.firstName} ${resident.lastName}`,
+          acceptedAt: FieldValue.serverTimestamp(),
+          ...(returnShift ? { returnShift: toSwapShift(returnShift) } : {}),
+          status: 'PENDING_APPROVAL',
+          warnings: warnings.map(warning => cleanUndefinedValues(warning)),
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: resident.id
+        })
+        return null
+      })
+
+      if (error) {
+        return { error }
+      }
+
+      await logAdminAction(
+        'SHIFT_SWAP_ACCEPTED',
+        resident.id,
+        'SHIFT_SWAP',
+        request.id,
+        {
+          offeredBy: request.offeredBy,
+          returnShift: returnShift ? { rotationId: returnShift.rotationId, date: returnShift.date } : null,
+          warningTypes: warnings.map(warning => warning.type),
+          institutionId: request.institutionId
+        }
+      )
+
+      const updatedDoc = await requestRef.get()
+      return { request: { id: updatedDoc.id, ...updatedDoc.data() } as ShiftSwapRequest }
+    } catch (error) {
+      console.error('[EMMA] Shift swap acceptance failed:', error)
+      throw new Error('Failed to accept shift swap')
+    }
+  }
+
+  /**
+   * Approve, deny or cancel a swap. The swap's status is checked and the
+   * decision written in one transaction. Approval re-reads the call schedule,
+   * re-checks the swap against it and writes the new assignments in the same
+   * transaction, marking the moved shifts with the swap so the schedule
+   * records who works each shift and why (Server-side only)
+   */
+  static async applyAction(
+    request: ShiftSwapRequest,
+    action: ShiftSwapDecision,
+    actorId: string,
+    comments?: string
+  ): Promise<ShiftSwapUpdate> {
+    try {
+      const requestRef = adminDb.collection(COLLECTIONS.SHIFT_SWAP_REQUESTS).doc(request.id)
+      const scheduleRef = adminDb.collection(COLLECTIONS.SCHEDULES).doc(request.scheduleId)
+
+      // Eligibility and the other published schedules are read up front; the
+      // call schedule itself is re-read inside the transaction
+      let context: ShiftSwapAssessmentContext | null = null
+      if (action === 'APPROVE') {
+        const schedule = await ScheduleService.getScheduleById(request.scheduleId)
+        if (!schedule) {
+          return { error: 'The call schedule for this shift has been replaced' }
+        }
+        context = await ShiftSwapService.getAssessmentContext(schedule, actorId)
+      }
+
+      const result = await adminDb.runTransaction(async (transaction) => {
+        const requestDoc = await transaction.get(requestRef)
+        const current = requestDoc.exists ? { id: requestDoc.id, ...requestDoc.data() } as ShiftSwapRequest : null
+
+        if (!current || !SHIFT_SWAP_ACTION_FROM[action].includes(current.status)) {
+          return { error: `This swap is already ${current?.status ?? 'gone'}` }
+        }
+
+        let schedule: Schedule | null = null
+        let changes: CallShiftChange[] = []
+
+        if (context) {
+          const scheduleDoc = await transaction.get(scheduleRef)
+          schedule = scheduleDoc.exists ? { id: scheduleDoc.id, ...scheduleDoc.data() } as Schedule : null
+
+          const scheduleError = checkSwapSchedule(current, schedule, current.acceptedBy!, current.returnShift)
+          if (scheduleError || !schedule) {
+            return { error: scheduleError ?? 'The call schedule for this shift has been replaced' }
+          }
+
+          changes = getShiftSwapChanges(current, current.acceptedBy!)
+          const assessment = assessShiftSwap({ ...context, callSchedule: schedule, changes })
+          if (assessment.error) {
+            return { error: `This swap can no longer be made: ${assessment.error}` }
+          }
+
+          stageCallAssignments(transaction, schedule, markCallShifts(assessment.assignments, changes, current.id), actorId)
+        }
+
+        transaction.update(requestRef, {
+          status: SHIFT_SWAP_ACTION_STATUS[action],
+          ...(action === 'APPROVE' || action === 'DENY' ? {
+            decision: {
+              decidedBy: actorId,
+              decidedAt: FieldValue.serverTimestamp(),
+              ...(comments?.trim() ? { comments: comments.trim() } : {})
+            }
+          } : {}),
+          updatedAt: FieldValue.serverTimestamp(),
+          lastModifiedBy: actorId
+        })
+        return { current, schedule, changes }
+      })
+
+      if (!result.current) {
+        return { error: result.error }
+      }
+
+      if (result.schedule) {
+        await logCallShiftsReassigned(result.schedule, result.changes, actorId, request.id)
+        await ScheduleService.refreshScheduleConflicts(result.schedule.id, actorId)
+      }
+
+      await logAdminAction(
+        SHIFT_SWAP_ACTION_AUDIT[action],
+        actorId,
+        'SHIFT_SWAP',
+        request.id,
+        {
+          scheduleId: result.current.scheduleId,
+          offeredBy: result.current.offeredBy,
+          acceptedBy: result.current.acceptedBy,
+          offeredShift: { rotationId: result.current.offeredShift.rotationId, date: result.current.offeredShift.date },
+          returnShift: result.current.returnShift
+            ? { rotationId: result.current.returnShift.rotationId, date: result.current.returnShift.date }
+            : null,
+          previousStatus: result.current.status,
+          institutionId: result.current.institutionId
+        }
+      )
+
+      const updatedDoc = await requestRef.get()
+      return { request: { id: updatedDoc.id, ...updatedDoc.data() } as ShiftSwapRequest }
+    } catch (error) {
+      console.error('[EMMA] Shift swap update failed:', error)
+      throw new Error('Failed to update shift swap')
+    }
+  }
+}
+
+// ===== YEAR-END PROMOTION =====
+
+const PROMOTION_AUDIT_ACTIONS: Record<ResolvedPromotion['action'], string> = {
+  PROMOTE: 'RESIDENT_PROMOTED',
+  GRADUATE: 'RESIDENT_GRADUATED',
+  HOLD: 'RESIDENT_PROMOTION_HELD'
+}
+
+export class PromotionService {
+  /**
+   * Build the year-end promotion plan for an institution's active residents
+   * (Server-side only). Program length and academic standing come from the
+   * resident profile where one exists.
+   */
+  static async getPromotionPlan(
+    institutionId: string,
+    requestedBy: string,
+    academicYear: string
+  ): Promise<PromotionPlan> {
+    if (typeof window !== 'undefined') {
+      throw new Error('PromotionService.getPromotionPlan must only be called server-side')
+    }
+
+    try {
+      const [institutionDoc, residentsSnapshot] = await Promise.all([
+        adminDb.collection(COLLECTIONS.INSTITUTIONS).doc(institutionId).get(),
+        adminDb.collection(COLLECTIONS.USERS)
+          .where('institutionId', '==', institutionId)
+          .where('role', '==', 'RESIDENT')
+          .where('isActive', '==', true)
+          .get()
+      ])
+
+      const residents = residentsSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as ExtendedUser))
+        .filter(resident => resident.employment?.some(entry => entry.position === 'Resident Physician'))
+        .sort((a, b) => a.lastName.localeCompare(b.lastName) || a.firstName.localeCompare(b.firstName))
+
+      const profileDocs = residents.length > 0
+        ? await adminDb.getAll(...residents.map(resident => adminDb.collection(COLLECTIONS.RESIDENTS).doc(resident.id)))
+        : []
+
+      const profiles = new Map<string, ResidentProfile>()
+      profileDocs.forEach(profileDoc => {
+        if (profileDoc.exists) profiles.set(profileDoc.id, profileDoc.data() as ResidentProfile)
+      })
+
+      const settings = (institutionDoc.data() as Institution | undefined)?.settings
+      const effectiveDate = getPromotionEffectiveDate(academicYear, settings)
+      if (!effectiveDate) {
+        throw new Error(`Invalid academic year: ${academicYear}`)
+      }
+
+      const plan = buildPromotionPlan(residents, profiles, academicYear, effectiveDate)
+
+      await logAdminAction(
+        'RESIDENT_PROMOTION_PLAN_ACCESSED',
+        requestedBy,
+        'RESIDENT_COLLECTION',
+        institutionId,
+        {
+          academicYear,
+          residentCount: plan.proposals.length,
+          alreadyProcessed: plan.completedResidentIds.length,
+          institutionId
+        }
+      )
+
+      return plan
+    } catch (error) {
+      console.error('[EMMA] Promotion plan failed:', error)
+      throw new Error('Failed to build promotion plan')
+    }
+  }
+
+  /**
+   * Apply resolved year-end decisions (Server-side only). All user documents
+   * and resident profiles are written in one transaction, which fails if any
+   * resident changed since the plan was built. Auth custom claims are updated
+   * afterwards and one audit entry is written per resident.
+   */
+  static async applyPromotions(
+    institutionId: string,
+    plan: PromotionPlan,
+    promotions: ResolvedPromotion[],
+    appliedBy: string
+  ): Promise<PromotionResult> {
+    if (typeof window !== 'undefined') {
+      throw new Error('PromotionService.applyPromotions must only be called server-side')
+    }
+
+    try {
+      const usersRef = adminDb.collection(COLLECTIONS.USERS)
+      const profilesRef = adminDb.collection(COLLECTIONS.RESIDENTS)
+      // Graduates finish on the last day of the closing academic year
+      const graduationDate = addDays(toDate(plan.effectiveDate) as Date, -1)
+
+      await adminDb.runTransaction(async (transaction) => {
+        const userRefs = promotions.map(promotion => usersRef.doc(promotion.residentId))
+        const profileRefs = promotions.map(promotion => profilesRef.doc(promotion.residentId))
+        const snapshots = await transaction.getAll(...userRefs, ...profileRefs)
+        const userDocs = snapshots.slice(0, promotions.length)
+        const profileDocs = snapshots.slice(promotions.length)
+
+        const decidedAt = AdminTimestamp.now()
+        const timestamp = FieldValue.serverTimestamp()
+
+        promotions.forEach((promotion, index) => {
+          const userDoc = userDocs[index]
+          const profileDoc = profileDocs[index]
+          const resident = userDoc.exists ? { id: userDoc.id, ...userDoc.data() } as ExtendedUser : null
+          const profile = profileDoc.exists ? profileDoc.data() as ResidentProfile : null
+          const current = resident ? proposePromotion(resident, profile) : null
+
+          if (
+            !resident ||
+            !current ||
+            resident.institutionId !== institutionId ||
+            !resident.isActive ||
+            isPromotionCompleted(resident, plan.academicYear) ||
+            current.currentPGYLevel !== promotion.currentPGYLevel ||
+            current.standing !== promotion.standing
+          ) {
+            throw new Error(`${promotion.name} changed since the promotion plan was prepared. Reload the plan and try again.`)
+          }
+
+          const historyEntry = cleanUndefinedValues({
+            academicYear: plan.academicYear,
+            action: promotion.action,
+            fromPGYLevel: promotion.currentPGYLevel,
+            toPGYLevel: promotion.nextPGYLevel ?? undefined,
+            note: promotion.note,
+            decidedBy: appliedBy,
+            decidedAt
+          })
+
+          const userUpdate: Record<string, any> = {
+            promotionHistory: FieldValue.arrayUnion(historyEntry),
+            updatedAt: timestamp,
+            lastModifiedBy: appliedBy
+          }
+
+          if (promotion.action === 'PROMOTE') {
+            userUpdate.pgyLevel = promotion.nextPGYLevel
+
+            if (profile) {
+              transaction.update(profileDoc.ref, {
+                'program.currentPGYLevel': promotion.nextPGYLevel,
+                updatedAt: timestamp,
+                lastModifiedBy: appliedBy
+              })
+            }
+          } else if (promotion.action === 'GRADUATE') {
+            userUpdate.isActive = false
+            userUpdate.status = 'INACTIVE'
+            userUpdate.graduatedAt = AdminTimestamp.fromDate(graduationDate)
+            userUpdate.employment = (resident.employment ?? []).map(entry =>
+              entry.position === 'Resident Physician' && !entry.endDate
+                ? { ...entry, endDate: AdminTimestamp.fromDate(graduationDate) }
+                : entry
+            )
+
+            if (profile) {
+              transaction.update(profileDoc.ref, {
+                'program.expectedGraduationDate': AdminTimestamp.fromDate(graduationDate),
+                updatedAt: timestamp,
+                lastModifiedBy: appliedBy
+              })
+            }
+          }
+
+          transaction.update(userDoc.ref, userUpdate)
+        })
+      })
+
+      const rows: PromotionResultRow[] = []
+
+      for (const promotion of promotions) {
+        let claimsSynced = true
+
+        try {
+          if (promotion.action === 'PROMOTE') {
+            await syncAuthAccount(promotion.residentId, { claims: { pgyLevel: promotion.nextPGYLevel } })
+          } else if (promotion.action === 'GRADUATE') {
+            // Graduates keep their history but can no longer sign in as residents
+            await syncAuthAccount(promotion.residentId, { disabled: true, claims: { isActive: false } })
+          }
+        } catch (claimsError) {
+          console.error(`[EMMA] Promotion claims update failed for ${promotion.residentId}:`, claimsError)
+          claimsSynced = false
+        }
+
+        await logAdminAction(
+          PROMOTION_AUDIT_ACTIONS[promotion.action],
+          appliedBy,
+          'USER',
+          promotion.residentId,
+          {
+            academicYear: plan.academicYear,
+            fromPGYLevel: promotion.currentPGYLevel,
+            toPGYLevel: promotion.nextPGYLevel,
+            proposedAction: promotion.proposedAction,
+            overridden: promotion.action !== promotion.proposedAction,
+            standing: promotion.standing,
+            hasNote: !!promotion.note,
+            claimsSynced,
+            institutionId
+          }
+        )
+
+        rows.push({
+          residentId: promotion.residentId,
+          name: promotion.name,
+          action: promotion.action,
+          fromPGYLevel: promotion.currentPGYLevel,
+          toPGYLevel: promotion.nextPGYLevel,
+          claimsSynced
+        })
+      }
+
+      return {
+        academicYear: plan.academicYear,
+        promoted: rows.filter(row => row.action === 'PROMOTE').length,
+        graduated: rows.filter(row => row.action === 'GRADUATE').length,
+        held: rows.filter(row => row.action === 'HOLD').length,
+        rows
+      }
+    } catch (error) {
+      console.error('[EMMA] Applying promotions failed:', error)
+
+      if (error instanceof Error && error.message.includes('changed since the promotion plan')) {
+        throw error
+      }
+      throw new Error('Failed to apply promotions')
+    }
+  }
+}
+
+// ===== AUDIT LOG =====
+
+// Entries read per page while walking an audit chain or building an export
+const AUDIT_VERIFY_PAGE_SIZE = 500
+
+/**
+ * Audit log query for an institution, newest first. Date bounds are whole
+ * days in server time.
+ */
+function buildAuditLogQuery(institutionId: string, filters: AuditLogFilters) {
+  let q = adminDb.collection(COLLECTIONS.HIPAA_AUDIT_LOGS)
+    .where('institutionId', '==', institutionId)
+
+  if (filters.userId) q = q.where('userId', '==', filters.userId)
+  if (filters.action) q = q.where('action', '==', filters.action)
+  if (filters.actionCategory) q = q.where('actionCategory', '==', filters.actionCategory)
+  if (filters.resourceType) q = q.where('resourceType', '==', filters.resourceType)
+  if (filters.resourceId) q = q.where('resourceId', '==', filters.resourceId)
+  if (filters.success !== undefined) q = q.where('success', '==', filters.success)
+
+  const from = filters.from ? toDate(filters.from) : null
+  const to = filters.to ? toDate(filters.to) : null
+  if (from) q = q.where('timestamp', '>=', from.toISOString())
+  if (to) q = q.where('timestamp', '<', addDays(to, 1).toISOString())
+
+  return q.orderBy('timestamp', 'desc').orderBy('sequence', 'desc')
+}
+
+/**
+ * Shape a stored audit entry for display. PHI is only decrypted on request.
+ */
+function toAuditLogEntry(entry: ChainedAuditEntry, includePhi: boolean): AuditLogEntry {
+  return {
+    id: entry.id,
+    institutionId: entry.institutionId,
+    sequence: entry.sequence,
+    timestamp: entry.timestamp,
+    action: entry.action,
+    actionCategory: (entry.actionCategory as AuditLogEntry['actionCategory']) ?? categorizeAuditAction(entry.action),
+    success: entry.success ?? isAuditActionSuccess(entry.action),
+    userId: entry.userId,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    details: entry.details,
+    encrypted: !!entry.phi,
+    phiDetails: includePhi && entry.phi ? decryptAuditPhi(entry.phi) : undefined,
+    hash: entry.hash
+  }
+}
+
+export class AuditService {
+  /**
+   * Get one page of an institution's audit log (Server-side only). Viewing
+   * the log is itself audited.
+   */
+  static async getAuditLogs(
+    institutionId: string,
+    requestedBy: string,
+    filters: AuditLogFilters,
+    options: { cursor?: string; pageSize: number; includePhi: boolean }
+  ): Promise<AuditLogPage> {
+    if (typeof window !== 'undefined') {
+      throw new Error('AuditService.getAuditLogs must only be called server-side')
+    }
+
+    try {
+      let q = buildAuditLogQuery(institutionId, filters)
+
+      const cursor = options.cursor ? decodeAuditCursor(options.cursor) : null
+      if (cursor) q = q.startAfter(cursor.timestamp, cursor.sequence)
+
+      const snapshot = await q.limit(options.pageSize).get()
+      const entries = snapshot.docs.map(doc => toAuditLogEntry(doc.data() as ChainedAuditEntry, options.includePhi))
+
+      await logAdminAction(
+        'AUDIT_LOG_VIEWED',
+        requestedBy,
+        'AUDIT_LOG',
+        institutionId,
+        {
+          filters: describeAuditFilters(filters),
+          resultCount: entries.length,
+          nextPage: !!cursor,
+          includePhi: options.includePhi,
+          institutionId
+        }
+      )
+
+      return {
+        entries,
+        nextCursor: entries.length === options.pageSize ? encodeAuditCursor(entries[entries.length - 1]) : null
+      }
+    } catch (error) {
+      console.error('[EMMA] Audit log fetch failed:', error)
+      throw new Error('Failed to retrieve audit logs')
+    }
+  }
+
+  /**
+   * Collect the audit entries matching the filters for a compliance export,
+   * up to AUDIT_EXPORT_MAX_ROWS (Server-side only). The export is audited.
+   */
+  static async exportAuditLogs(
+    institutionId: string,
+    exportedBy: string,
+    filters: AuditLogFilters,
+    options: { format: AuditExportFormat; includePhi: boolean }
+  ): Promise<{ entries: AuditLogEntry[]; truncated: boolean }> {
+    if (typeof window !== 'undefined') {
+      throw new Error('AuditService.exportAuditLogs must only be called server-side')
+    }
+
+    try {
+      const baseQuery = buildAuditLogQuery(institutionId, filters)
+      const entries: AuditLogEntry[] = []
+      let lastDoc: QueryDocumentSnapshot | undefined
+      let truncated = false
+
+      do {
+        const pageSize = Math.min(AUDIT_VERIFY_PAGE_SIZE, AUDIT_EXPORT_MAX_ROWS + 1 - entries.length)
+        const snapshot = await (lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery).limit(pageSize).get()
+
+        snapshot.docs.forEach(doc => {
+          entries.push(toAuditLogEntry(doc.data() as ChainedAuditEntry, options.includePhi))
+        })
+
+        lastDoc = snapshot.docs.length === pageSize ? snapshot.docs[snapshot.docs.length - 1] : undefined
+      } while (lastDoc && entries.length <= AUDIT_EXPORT_MAX_ROWS)
+
+      // One extra row is read to tell whether the export was cut off
+      if (entries.length > AUDIT_EXPORT_MAX_ROWS) {
+        entries.length = AUDIT_EXPORT_MAX_ROWS
+        truncated = true
+      }
+
+      await logAdminAction(
+        'AUDIT_LOG_EXPORTED',
+        exportedBy,
+        'AUDIT_LOG',
+        institutionId,
+        {
+          format: options.format,
+          filters: describeAuditFilters(filters),
+          rowCount: entries.length,
+          truncated,
+          includePhi: options.includePhi,
+          institutionId
+        }
+      )
+
+      return { entries, truncated }
+    } catch (error) {
+      console.error('[EMMA] Audit log export failed:', error)
+      throw new Error('Failed to export audit logs')
+    }
+  }
+
+  /**
+   * Walk an institution's audit chain in sequence order, recomputing every
+   * hash and link, and report gaps, modified records and truncation
+   * (Server-side only). Entries appended while the walk runs are left for
+   * the next verification.
+   */
+  static async verifyAuditChain(institutionId: string, verifiedBy: string): Promise<AuditChainVerification> {
+    if (typeof window !== 'undefined') {
+      throw new Error('AuditService.verifyAuditChain must only be called server-side')
+    }
+
+    try {
+      const headDoc = await adminDb.collection(COLLECTIONS.AUDIT_CHAIN_HEADS).doc(institutionId).get()
+      const head = headDoc.exists ? headDoc.data() as AuditChainHead : null
+
+      const issues: AuditChainIssue[] = []
+      let cursor: AuditChainCursor = { sequence: 1, previousHash: AUDIT_GENESIS_HASH }
+      let entriesChecked = 0
+
+      if (head) {
+        const baseQuery = adminDb.collection(COLLECTIONS.HIPAA_AUDIT_LOGS)
+          .where('institutionId', '==', institutionId)
+          .where('sequence', '<=', head.sequence)
+          .orderBy('sequence')
+          .limit(AUDIT_VERIFY_PAGE_SIZE)
+
+        let lastDoc: QueryDocumentSnapshot | undefined
+
+        do {
+          const snapshot = await (lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery).get()
+          const entries = snapshot.docs.map(doc => doc.data() as ChainedAuditEntry)
+
+          const segment = verifyAuditChainSegment(entries, cursor)
+          issues.push(...segment.issues)
+          cursor = segment.cursor
+          entriesChecked += entries.length
+          lastDoc = snapshot.docs.length === AUDIT_VERIFY_PAGE_SIZE ? snapshot.docs[snapshot.docs.length - 1] : undefined
+        } while (lastDoc)
+
+        issues.push(...verifyAuditChainHead(head, cursor))
+      }
+
+      const verification: AuditChainVerification = {
+        institutionId,
+        verifiedAt: new Date().toISOString(),
+        entriesChecked,
+        headSequence: head?.sequence ?? 0,
+        valid: issues.length === 0,
+        issues
+      }
+
+      await logAdminAction(
+        'AUDIT_CHAIN_VERIFIED',
+        verifiedBy,
+        'AUDIT_LOG',
+        institutionId,
+        {
+          entriesChecked,
+          headSequence: verification.headSequence,
+          valid: verification.valid,
+          issueCount: issues.length,
+          institutionId
+        }
+      )
+
+      return verification
+    } catch (error) {
+      console.error('[EMMA] Audit chain verification failed:', error)
+      throw new Error('Failed to verify audit chain')
+    }
+  }
+}
+
+// ===== ACCOUNT SECURITY =====
+
+// bcrypt cost for stored password history and MFA recovery code hashes
+const BCRYPT_ROUNDS = 10
+
+async function fetchSystemSettings(institutionId: string): Promise<SystemSettings | null> {
+  const snapshot = await adminDb.collection(COLLECTIONS.SYSTEM_SETTINGS)
+    .where('institutionId', '==', institutionId)
+    .limit(1)
+    .get()
+
+  return snapshot.empty ? null : snapshot.docs[0].data() as SystemSettings
+}
+
+export class AccountSecurityService {
+  /**
+   * Authentication settings for an institution (Server-side only). Settings
+   * missing from the institution's SystemSettings fall back to the defaults.
+   */
+  static async getAuthenticationSettings(institutionId: string): Promise<AuthenticationSettings> {
+    try {
+      const settings = await fetchSystemSettings(institutionId)
+      return resolveAuthenticationSettings(settings?.authentication)
+    } catch (error) {
+      console.error('[EMMA] Authentication settings fetch failed:', error)
+      return resolveAuthenticationSettings(null)
+    }
+  }
+
+  /**
+   * Inactivity limits for an institution's sessions (Server-side only),
+   * from its authentication and HIPAA settings
+   */
+  static async getSessionPolicy(institutionId: string): Promise<SessionPolicy> {
+    try {
+      const settings = await fetchSystemSettings(institutionId)
+      return resolveSessionPolicy(
+        resolveAuthenticationSettings(settings?.authentication),
+        resolveHipaaSettings(settings?.hipaa)
+      )
+    } catch (error) {
+      console.error('[EMMA] Session policy fetch failed:', error)
+      return resolveSessionPolicy(resolveAuthenticationSettings(null), resolveHipaaSettings(null))
+    }
+  }
+
+  /**
+   * End of the current lockout for the account with this email, or null
+   * when the account may attempt to sign in
+   */
+  static async getActiveLockout(email: string): Promise<Date | null> {
+    try {
+      const user = await UserService.getUserRecordByEmail(email)
+      return user && isAccountLocked(user) ? toDate(user.security?.lockedUntil) : null
+    } catch (error) {
+      console.error('[EMMA] Lockout check failed:', error)
+      throw new Error('Failed to check account lockout')
+    }
+  }
+
+  /**
+   * Count a failed sign-in against the account with this email and lock it
+   * for the institution's lockoutDuration once maxLoginAttempts is reached.
+   * A lockout that has expired starts a new count.
+   */
+  static async recordFailedLogin(email: string): Promise<{ locked: boolean; attempts: number }> {
+    try {
+      const user = await UserService.getUserRecordByEmail(email)
+      if (!user) {
+        return { locked: false, attempts: 0 }
+      }
+
+      const settings = await AccountSecurityService.getAuthenticationSettings(user.institutionId)
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+
+      const result = await adminDb.runTransaction(async (transaction) => {
+        const userDoc = await transaction.get(userRef)
+        const security = (userDoc.data() as ExtendedUser | undefined)?.security
+        const now = new Date()
+        const lockedUntil = toDate(security?.lockedUntil)
+
+        const previousAttempts = lockedUntil && lockedUntil <= now ? 0 : security?.failedLoginAttempts ?? 0
+        const attempts = previousAttempts + 1
+        const newLockout = attempts >= settings.maxLoginAttempts && !(lockedUntil && lockedUntil > now)
+          ? getLockoutExpiry(settings, now)
+          : null
+
+        transaction.update(userRef, {
+          'security.failedLoginAttempts': attempts,
+          'security.lastFailedLoginAt': FieldValue.serverTimestamp(),
+          ...(newLockout ? { 'security.lockedUntil': AdminTimestamp.fromDate(newLockout) } : {})
+        })
+
+        return { attempts, newLockout, locked: !!newLockout || !!(lockedUntil && lockedUntil > now) }
+      })
+
+      if (result.newLockout) {
+        await logAdminAction(
+          'ACCOUNT_LOCKED',
+          undefined,
+          'USER',
+          user.id,
+          {
+            failedLoginAttempts: result.attempts,
+            lockedUntil: result.newLockout.toISOString(),
+            lockoutDuration: settings.lockoutDuration,
+            institutionId: user.institutionId
+          }
+        )
+      }
+
+      return { locked: result.locked, attempts: result.attempts }
+    } catch (error) {
+      console.error('[EMMA] Failed login tracking failed:', error)
+      throw new Error('Failed to record failed login')
+    }
+  }
+
+  /**
+   * Reset the failed sign-in count after a successful sign-in
+   */
+  static async recordSuccessfulLogin(user: ExtendedUser): Promise<void> {
+    if (!user.security?.failedLoginAttempts && !user.security?.lockedUntil) {
+      return
+    }
+
+    try {
+      await adminDb.collection(COLLECTIONS.USERS).doc(user.id).update({
+        'security.failedLoginAttempts': 0,
+        'security.lockedUntil': FieldValue.delete()
+      })
+    } catch (error) {
+      console.error('[EMMA] Failed login reset failed:', error)
+      throw new Error('Failed to reset failed logins')
+    }
+  }
+
+  /**
+   * Check a new password against the institution's password policy and,
+   * when reuse is prevented, the user's recent passwords. Returns an error
+   * message, or null when the password is acceptable.
+   */
+  static async checkNewPassword(
+    institutionId: string,
+    password: string,
+    userId?: string
+  ): Promise<string | null> {
+    const { passwordPolicy } = await AccountSecurityService.getAuthenticationSettings(institutionId)
+
+    const policyError = validatePassword(password, passwordPolicy)
+    if (policyError) return policyError
+
+    if (!userId || !passwordPolicy.preventReuse || passwordPolicy.reuseHistory <= 0) {
+      return null
+    }
+
+    try {
+      const historyDoc = await adminDb.collection(COLLECTIONS.PASSWORD_HISTORY).doc(userId).get()
+      const entries = (historyDoc.data() as PasswordHistory | undefined)?.entries ?? []
+
+      const matches = await Promise.all(
+        entries.slice(0, passwordPolicy.reuseHistory).map(entry => bcrypt.compare(password, entry.hash))
+      )
+      const reused = matches.some(Boolean)
+
+      return reused
+        ? `Password must not match any of your last ${passwordPolicy.reuseHistory} passwords`
+        : null
+    } catch (error) {
+      console.error('[EMMA] Password history check failed:', error)
+      throw new Error('Failed to check password history')
+    }
+  }
+
+  /**
+   * Whether a password Firebase accepted is the one EMMA last recorded
+   * (Server-side only). A mismatch means it was set outside the password
+   * reset route, through Firebase's hosted action page or the client SDK,
+   * and skipped the policy and reuse checks. Accounts without a recorded
+   * password are not checked.
+   */
+  static async isRecordedPassword(userId: string, password: string): Promise<boolean> {
+    try {
+      const historyDoc = await adminDb.collection(COLLECTIONS.PASSWORD_HISTORY).doc(userId).get()
+      const latest = (historyDoc.data() as PasswordHistory | undefined)?.entries?.[0]
+
+      return !latest || await bcrypt.compare(password, latest.hash)
+    } catch (error) {
+      console.error('[EMMA] Password history check failed:', error)
+      throw new Error('Failed to check password history')
+    }
+  }
+
+  /**
+   * Record a password set at registration or reset (Server-side only): the
+   * hash joins the reuse history and any lockout is cleared.
+   */
+  static async recordPasswordChange(userId: string, institutionId: string, password: string): Promise<void> {
+    try {
+      const { passwordPolicy } = await AccountSecurityService.getAuthenticationSettings(institutionId)
+      // Keep the default depth even when reuse is allowed, so enabling it later has a history
+      const historyLength = Math.max(passwordPolicy.reuseHistory, DEFAULT_AUTHENTICATION_SETTINGS.passwordPolicy.reuseHistory)
+      const hash = await bcrypt.hash(password, BCRYPT_ROUNDS)
+      const historyRef = adminDb.collection(COLLECTIONS.PASSWORD_HISTORY).doc(userId)
+
+      await adminDb.runTransaction(async (transaction) => {
+        const historyDoc = await transaction.get(historyRef)
+        const entries = (historyDoc.data() as PasswordHistory | undefined)?.entries ?? []
+
+        transaction.set(historyRef, {
+          id: userId,
+          userId,
+          institutionId,
+          entries: [
+            { hash, createdAt: AdminTimestamp.now() },
+            ...entries
+          ].slice(0, historyLength),
+          updatedAt: FieldValue.serverTimestamp()
+        })
+
+        transaction.update(adminDb.collection(COLLECTIONS.USERS).doc(userId), {
+          'security.failedLoginAttempts': 0,
+          'security.lockedUntil': FieldValue.delete(),
+          'security.passwordChangedAt': FieldValue.serverTimestamp(),
+          'security.passwordResetRequired': FieldValue.delete()
+        })
+      })
+    } catch (error) {
+      console.error('[EMMA] Password change recording failed:', error)
+      throw new Error('Failed to record password change')
+    }
+  }
+
+  /**
+   * Require a user to choose a new password (Server-side only): sign-in is
+   * refused and existing sessions revoked until they complete the reset
+   * link sent to their email.
+   */
+  static async requirePasswordReset(user: ExtendedUser, requestedBy: string): Promise<{ emailSent: boolean }> {
+    try {
+      await adminDb.collection(COLLECTIONS.USERS).doc(user.id).update({
+        'security.passwordResetRequired': true,
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: requestedBy
+      })
+
+      // Users without an Auth account have no sessions to revoke
+      const hasAuthAccount = await syncAuthAccount(user.id, {})
+      if (hasAuthAccount) {
+        await adminAuth.revokeRefreshTokens(user.id)
+      }
+
+      let emailSent = false
+      try {
+        await sendPasswordResetEmail(auth, user.email, {
+          url: `${process.env.NEXT_PUBLIC_APP_URL || process.env.NEXTAUTH_URL || 'http://localhost:3000'}/`
+        })
+        emailSent = true
+      } catch (emailError) {
+        console.error('[EMMA] Password reset email failed:', emailError)
+      }
+
+      await logAdminAction(
+        'PASSWORD_RESET_REQUIRED',
+        requestedBy,
+        'USER',
+        user.id,
+        {
+          emailSent,
+          sessionsRevoked: hasAuthAccount,
+          institutionId: user.institutionId
+        }
+      )
+
+      return { emailSent }
+    } catch (error) {
+      console.error('[EMMA] Forced password reset failed:', error)
+      throw new Error('Failed to require password reset')
+    }
+  }
+
+  /**
+   * Lift a sign-in lockout before it expires (Server-side only)
+   */
+  static async unlockAccount(user: ExtendedUser, unlockedBy: string): Promise<ExtendedUser> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('unlockAccount must only be called server-side')
+      }
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      await userRef.update({
+        'security.failedLoginAttempts': 0,
+        'security.lockedUntil': FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: unlockedBy
+      })
+
+      await logAdminAction(
+        'ACCOUNT_UNLOCKED',
+        unlockedBy,
+        'USER',
+        user.id,
+        {
+          failedLoginAttempts: user.security?.failedLoginAttempts ?? 0,
+          lockedUntil: toDate(user.security?.lockedUntil)?.toISOString(),
+          institutionId: user.institutionId
+        }
+      )
+
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] Account unlock failed:', error)
+      throw new Error('Failed to unlock account')
+    }
+  }
+}
+
+// ===== MULTI-FACTOR AUTHENTICATION =====
+
+export class MfaService {
+  /**
+   * MFA state for a user, including whether the institution requires it
+   * for their role
+   */
+  static async getMfaStatus(user: ExtendedUser): Promise<MfaStatus> {
+    const settings = await AccountSecurityService.getAuthenticationSettings(user.institutionId)
+
+    return {
+      enabled: !!user.mfa?.enabled,
+      required: isMfaRequired(user.role, settings),
+      enrolledAt: toDate(user.mfa?.enrolledAt)?.toISOString(),
+      recoveryCodesRemaining: user.mfa?.recoveryCodesRemaining ?? 0
+    }
+  }
+
+  /**
+   * Issue a new TOTP secret for enrolment (Server-side only). MFA is not
+   * enabled until a code from the authenticator app is verified.
+   */
+  static async startEnrollment(user: ExtendedUser): Promise<MfaEnrollment> {
+    if (user.mfa?.enabled) {
+      throw new Error('MFA is already enabled for this account')
+    }
+
+    try {
+      const secret = generateTotpSecret()
+      const otpauthUrl = buildOtpauthUrl(secret, user.email, MFA_ISSUER)
+
+      await adminDb.collection(COLLECTIONS.MFA_SECRETS).doc(user.id).set({
+        id: user.id,
+        userId: user.id,
+        institutionId: user.institutionId,
+        pendingSecret: secret,
+        recoveryCodeHashes: [],
+        updatedAt: FieldValue.serverTimestamp()
+      })
+
+      await logAdminAction(
+        'MFA_ENROLLMENT_STARTED',
+        user.id,
+        'USER',
+        user.id,
+        {
+          institutionId: user.institutionId
+        }
+      )
+
+      return {
+        secret,
+        otpauthUrl,
+        qrCodeDataUrl: await QRCode.toDataURL(otpauthUrl)
+      }
+    } catch (error) {
+      console.error('[EMMA] MFA enrolment start failed:', error)
+      throw new Error('Failed to start MFA enrolment')
+    }
+  }
+
+  /**
+   * Verify the first code from the authenticator app and turn MFA on.
+   * Returns the recovery codes, which are shown to the user only once.
+   */
+  static async completeEnrollment(user: ExtendedUser, code: string): Promise<string[]> {
+    const secretRef = adminDb.collection(COLLECTIONS.MFA_SECRETS).doc(user.id)
+    const secretDoc = await secretRef.get()
+    const pendingSecret = (secretDoc.data() as MfaSecret | undefined)?.pendingSecret
+
+    if (!pendingSecret) {
+      throw new Error('No MFA enrolment in progress')
+    }
+
+    const step = verifyTotp(pendingSecret, code)
+    if (step === null) {
+      throw new Error('Invalid verification code')
+    }
+
+    try {
+      const recoveryCodes = generateRecoveryCodes()
+      const recoveryCodeHashes = await Promise.all(
+        recoveryCodes.map(recoveryCode => bcrypt.hash(normalizeRecoveryCode(recoveryCode), BCRYPT_ROUNDS))
+      )
+
+      const batch = adminDb.batch()
+      batch.update(secretRef, {
+        secret: pendingSecret,
+        pendingSecret: FieldValue.delete(),
+        recoveryCodeHashes,
+        lastUsedStep: step,
+        updatedAt: FieldValue.serverTimestamp()
+      })
+      batch.update(adminDb.collection(COLLECTIONS.USERS).doc(user.id), {
+        mfa: {
+          enabled: true,
+          enrolledAt: FieldValue.serverTimestamp(),
+          recoveryCodesRemaining: recoveryCodes.length
+        },
+        updatedAt: FieldValue.serverTimestamp()
+      })
+      await batch.commit()
+
+      await logAdminAction(
+        'MFA_ENROLLED',
+        user.id,
+        'USER',
+        user.id,
+        {
+          method: 'TOTP',
+          institutionId: user.institutionId
+        }
+      )
+
+      return recoveryCodes
+    } catch (error) {
+      console.error('[EMMA] MFA enrolment failed:', error)
+      throw new Error('Failed to complete MFA enrolment')
+    }
+  }
+
+  /**
+   * Check the second factor at sign-in: a TOTP code, or a recovery code
+   * which is used up. Returns the method that matched, or null.
+   */
+  static async verifyChallenge(user: ExtendedUser, code: string): Promise<MfaMethod | null> {
+    const secretRef = adminDb.collection(COLLECTIONS.MFA_SECRETS).doc(user.id)
+
+    try {
+      const result = await adminDb.runTransaction(async (transaction) => {
+        const secretDoc = await transaction.get(secretRef)
+        const mfaSecret = secretDoc.data() as MfaSecret | undefined
+        if (!mfaSecret?.secret) return null
+
+        const step = verifyTotp(mfaSecret.secret, code, { lastUsedStep: mfaSecret.lastUsedStep })
+        if (step !== null) {
+          transaction.update(secretRef, { lastUsedStep: step, updatedAt: FieldValue.serverTimestamp() })
+          return { method: 'TOTP' as MfaMethod }
+        }
+
+        const normalized = normalizeRecoveryCode(code)
+        const matches = await Promise.all(
+          mfaSecret.recoveryCodeHashes.map(hash => bcrypt.compare(normalized, hash))
+        )
+        const matchIndex = matches.indexOf(true)
+        if (matchIndex === -1) return null
+
+        const recoveryCodeHashes = mfaSecret.recoveryCodeHashes.filter((_, index) => index !== matchIndex)
+        transaction.update(secretRef, { recoveryCodeHashes, updatedAt: FieldValue.serverTimestamp() })
+        transaction.update(adminDb.collection(COLLECTIONS.USERS).doc(user.id), {
+          'mfa.recoveryCodesRemaining': recoveryCodeHashes.length
+        })
+        return { method: 'RECOVERY_CODE' as MfaMethod, recoveryCodesRemaining: recoveryCodeHashes.length }
+      })
+
+      if (result?.method === 'RECOVERY_CODE') {
+        await logAdminAction(
+          'MFA_RECOVERY_CODE_USED',
+          user.id,
+          'USER',
+          user.id,
+          {
+            recoveryCodesRemaining: result.recoveryCodesRemaining,
+            institutionId: user.institutionId
+          }
+        )
+      }
+
+      return result?.method ?? null
+    } catch (error) {
+      console.error('[EMMA] MFA verification failed:', error)
+      throw new Error('Failed to verify MFA code')
+    }
+  }
+
+  /**
+   * Remove a user's MFA so they can enrol a new device (Server-side only).
+   * If their role requires MFA they must enrol again at their next sign-in.
+   */
+  static async resetMfa(user: ExtendedUser, resetBy: string): Promise<ExtendedUser> {
+    try {
+      if (typeof window !== 'undefined') {
+        throw new Error('resetMfa must only be called server-side')
+      }
+
+      const userRef = adminDb.collection(COLLECTIONS.USERS).doc(user.id)
+      const batch = adminDb.batch()
+      batch.delete(adminDb.collection(COLLECTIONS.MFA_SECRETS).doc(user.id))
+      batch.update(userRef, {
+        mfa: FieldValue.delete(),
+        updatedAt: FieldValue.serverTimestamp(),
+        lastModifiedBy: resetBy
+      })
+      await batch.commit()
+
+      await logAdminAction(
+        'MFA_RESET',
+        resetBy,
+        'USER',
+        user.id,
+        {
+          wasEnabled: !!user.mfa?.enabled,
+          institutionId: user.institutionId
+        }
+      )
+
+      const updatedDoc = await userRef.get()
+      return { id: updatedDoc.id, ...updatedDoc.data() } as ExtendedUser
+    } catch (error) {
+      console.error('[EMMA] MFA reset failed:', error)
+      throw new Error('Failed to reset MFA')
     }
   }
 }
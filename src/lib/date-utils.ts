@@ -0,0 +1,82 @@
+/**
+ * EMMA Healthcare Date Utilities
+ *
+ * Helpers for working with Firestore timestamps after they have been
+ * serialized through the API (Admin SDK Timestamps arrive as
+ * `{ _seconds, _nanoseconds }` objects on the client).
+ */
+
+export type TimestampLike =
+  | Date
+  | string
+  | number
+  | { toDate: () => Date }
+  | { seconds: number; nanoseconds?: number }
+  | { _seconds: number; _nanoseconds?: number }
+  | null
+  | undefined
+
+/**
+ * Convert any timestamp representation into a Date (or null if missing/invalid)
+ */
+export function toDate(value: TimestampLike): Date | null {
+  if (value === null || value === undefined) return null
+
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+
+  // Date-only strings ("2025-07-01") are calendar dates, not UTC midnight
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(year, month - 1, day)
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  if ('toDate' in value && typeof value.toDate === 'function') return value.toDate()
+  if ('seconds' in value) return new Date(value.seconds * 1000)
+  if ('_seconds' in value) return new Date(value._seconds * 1000)
+
+  return null
+}
+
+/**
+ * Format a timestamp for display, e.g. "Mar 1, 2025"
+ */
+export function formatDate(value: TimestampLike, fallback = '—'): string {
+  const date = toDate(value)
+  if (!date) return fallback
+
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+/**
+ * Resolve an academic year label ("2025-2026") to its July 1 - June 30 range
+ */
+export function getAcademicYearRange(academicYear: string): { startDate: Date; endDate: Date } | null {
+  const match = /^(\d{4})-(\d{4})$/.exec(academicYear)
+  if (!match) return null
+
+  const startYear = parseInt(match[1])
+  const endYear = parseInt(match[2])
+  if (endYear !== startYear + 1) return null
+
+  return {
+    startDate: new Date(startYear, 6, 1),
+    endDate: new Date(endYear, 5, 30, 23, 59, 59, 999),
+  }
+}
+
+/**
+ * Academic year label containing the given date (years start July 1)
+ */
+export function getAcademicYear(date: Date = new Date()): string {
+  const startYear = date.getMonth() >= 6 ? date.getFullYear() : date.getFullYear() - 1
+  return `${startYear}-${startYear + 1}`
+}
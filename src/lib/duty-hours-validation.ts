@@ -0,0 +1,59 @@
+/**
+ * EMMA Healthcare Duty Hours Validation
+ *
+ * Request shape and validation rules for logging actual worked shifts.
+ */
+
+import { DutyShift } from '@/types/database'
+
+export const DUTY_SHIFT_TYPES: DutyShift['type'][] = ['REGULAR', 'CALL', 'NIGHT_FLOAT', 'MOONLIGHTING', 'CONFERENCE']
+
+// Longest single shift accepted - anything longer is almost certainly a typo
+const MAX_SHIFT_HOURS = 36
+
+export interface DutyShiftRequest {
+  residentId?: string // Defaults to the logged-in user
+  rotationId?: string
+  type: DutyShift['type']
+  startTime: string // ISO date-time
+  endTime: string // ISO date-time
+  notes?: string
+}
+
+/**
+ * Validate a logged shift
+ */
+export function validateDutyShiftData(data: Partial<DutyShiftRequest>): string | null {
+  if (!data.type || !data.startTime || !data.endTime) {
+    return 'Missing required fields: type, startTime, endTime'
+  }
+
+  if (!DUTY_SHIFT_TYPES.includes(data.type)) {
+    return `Invalid shift type. Expected one of: ${DUTY_SHIFT_TYPES.join(', ')}`
+  }
+
+  const start = new Date(data.startTime)
+  const end = new Date(data.endTime)
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return 'Invalid shift start or end time'
+  }
+
+  if (end <= start) {
+    return 'Shift end time must be after start time'
+  }
+
+  if ((end.getTime() - start.getTime()) / (60 * 60 * 1000) > MAX_SHIFT_HOURS) {
+    return `A single shift cannot exceed ${MAX_SHIFT_HOURS} hours`
+  }
+
+  if (start > new Date()) {
+    return 'Shifts can only be logged once they have started'
+  }
+
+  if (data.notes && data.notes.length > 500) {
+    return 'Notes must be 500 characters or fewer'
+  }
+
+  return null
+}
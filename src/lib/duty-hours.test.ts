@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, addHours } from 'date-fns'
+import { Rotation } from '@/types/database'
+import { ACGME_DUTY_LIMITS, DutyInterval, derivePlannedShifts, evaluateDutyHours } from './duty-hours'
+
+const PERIOD_START = new Date(2025, 6, 7) // Monday
+const PERIOD_END = new Date(2025, 7, 3, 23, 59) // 28 days later
+
+/**
+ * One shift a day for four weeks, starting at 06:00, skipping `offDays`
+ */
+const dailyShifts = (hours: number, offDays: number[] = [], type: DutyInterval['type'] = 'REGULAR'): DutyInterval[] =>
+  Array.from({ length: ACGME_DUTY_LIMITS.averagingDays }, (_, index) => index)
+    .filter(index => !offDays.includes(index))
+    .map(index => {
+      const start = addHours(addDays(PERIOD_START, index), 6)
+      return { residentId: 'res-a', type, start, end: addHours(start, hours) }
+    })
+
+const violationTypes = (intervals: DutyInterval[]) =>
+  evaluateDutyHours('res-a', intervals, 'LOGGED', PERIOD_START, PERIOD_END).map(violation => violation.type)
+
+// One day off each week
+const WEEKLY_DAYS_OFF = [6, 13, 20, 27]
+
+describe('evaluateDutyHours', () => {
+  it('accepts 72 hours a week with a day off in seven', () => {
+    expect(violationTypes(dailyShifts(12, WEEKLY_DAYS_OFF))).toEqual([])
+  })
+
+  it('flags more than 80 hours a week averaged over four weeks', () => {
+    const violations = evaluateDutyHours('res-a', dailyShifts(14, WEEKLY_DAYS_OFF), 'LOGGED', PERIOD_START, PERIOD_END)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({
+      type: 'WEEKLY_HOURS_AVERAGE',
+      actual: 84,
+      limit: 80,
+      periodStart: '2025-07-07',
+      periodEnd: '2025-08-03',
+    })
+  })
+
+  it('allows exactly 80 hours a week', () => {
+    // 20 days of 16 hours = 320 hours over four weeks
+    expect(violationTypes(dailyShifts(16, [...WEEKLY_DAYS_OFF, 0, 1, 2, 3]))).toEqual([])
+  })
+
+  it('flags fewer than one day off in seven averaged over four weeks', () => {
+    const violations = evaluateDutyHours('res-a', dailyShifts(10), 'LOGGED', PERIOD_START, PERIOD_END)
+
+    expect(violations).toEqual([expect.objectContaining({ type: 'DAY_OFF_IN_SEVEN', actual: 0, limit: 4 })])
+  })
+
+  it('averages days off rather than requiring one in every calendar week', () => {
+    // All four days off in the final week
+    expect(violationTypes(dailyShifts(10, [24, 25, 26, 27]))).toEqual([])
+  })
+
+  it('flags continuous duty beyond 24 hours plus 4 transition hours', () => {
+    const start = addHours(PERIOD_START, 6)
+    const shifts: DutyInterval[] = [
+      { residentId: 'res-a', type: 'CALL', start, end: addHours(start, 24) },
+      { residentId: 'res-a', type: 'REGULAR', start: addHours(start, 24), end: addHours(start, 30) },
+    ]
+
+    const violations = evaluateDutyHours('res-a', shifts, 'LOGGED', PERIOD_START, PERIOD_END)
+    expect(violations).toEqual([expect.objectContaining({ type: 'CONTINUOUS_DUTY', actual: 30, limit: 28 })])
+    expect(violationTypes([{ ...shifts[0], end: addHours(start, 28) }])).toEqual([])
+  })
+
+  it('flags in-house call more often than every third night', () => {
+    const calls = dailyShifts(12, [], 'CALL').filter((_, index) => index % 2 === 0)
+
+    const violations = evaluateDutyHours('res-a', calls, 'PLANNED', PERIOD_START, PERIOD_END)
+    expect(violations).toEqual([expect.objectContaining({ type: 'CALL_FREQUENCY', actual: 14, limit: 9, source: 'PLANNED' })])
+  })
+})
+
+describe('derivePlannedShifts', () => {
+  const makeRotation = (overrides: Partial<Rotation['schedule']> = {}): Rotation => ({
+    id: 'icu',
+    schedule: { daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '17:00', ...overrides },
+  }) as Rotation
+
+  it('plans one shift per working day in rotation hours', () => {
+    const shifts = derivePlannedShifts({
+      residentId: 'res-a',
+      rotation: makeRotation(),
+      startDate: PERIOD_START,
+      endDate: addDays(PERIOD_START, 13),
+    })
+
+    expect(shifts).toHaveLength(10)
+    shifts.forEach(shift => {
+      expect(shift.type).toBe('REGULAR')
+      expect(shift.end.getTime() - shift.start.getTime()).toBe(9 * 60 * 60 * 1000)
+    })
+  })
+
+  it('plans weekly 24-hour calls followed by a post-call day off', () => {
+    const shifts = derivePlannedShifts({
+      residentId: 'res-a',
+      rotation: makeRotation({ daysOfWeek: [0, 1, 2, 3, 4, 5, 6], callSchedule: { frequency: 'WEEKLY' } }),
+      startDate: PERIOD_START,
+      endDate: addDays(PERIOD_START, 13),
+    })
+
+    const calls = shifts.filter(shift => shift.type === 'CALL')
+    expect(calls.map(call => call.start.getDate())).toEqual([13, 20])
+    calls.forEach(call => {
+      expect(call.end.getTime() - call.start.getTime()).toBe(24 * 60 * 60 * 1000)
+      expect(shifts.some(shift => shift.start.getDate() === call.start.getDate() + 1)).toBe(false)
+    })
+  })
+
+  it('skips excluded days and runs overnight shifts into the next morning', () => {
+    const shifts = derivePlannedShifts({
+      residentId: 'res-a',
+      rotation: makeRotation({ startTime: '19:00', endTime: '07:00' }),
+      startDate: PERIOD_START,
+      endDate: addDays(PERIOD_START, 4),
+      excludedDays: new Set(['2025-07-08']),
+    })
+
+    expect(shifts).toHaveLength(4)
+    expect(shifts[0].end).toEqual(new Date(2025, 6, 8, 7))
+  })
+})
@@ -0,0 +1,332 @@
+/**
+ * EMMA Healthcare ACGME Duty Hours
+ *
+ * Derives planned duty periods from rotation assignments and checks planned
+ * and logged shifts against the ACGME Common Program Requirements.
+ */
+
+import { addDays, addHours, differenceInCalendarDays, eachDayOfInterval, format, startOfDay } from 'date-fns'
+import { DutyHourViolation, DutyHourViolationType, DutyShift, Rotation } from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+
+export const ACGME_DUTY_LIMITS = {
+  weeklyHours: 80, // averaged over the averaging period
+  averagingDays: 28,
+  continuousHours: 24,
+  transitionHours: 4, // allowed on top of continuousHours for hand-offs
+  daysOffPerWeek: 1, // averaged over the averaging period
+  callEveryNthNight: 3, // in-house call no more often than every third night
+} as const
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface DutyInterval {
+  residentId: string
+  rotationId?: string
+  type: DutyShift['type']
+  start: Date
+  end: Date
+}
+
+export interface ResidentDutyHoursSummary {
+  residentId: string
+  name: string
+  department?: Department
+  pgyLevel?: PGYLevel
+  plannedHours: number
+  loggedHours: number
+  averageWeeklyHours: number // From logged shifts when any exist, otherwise planned
+  violations: DutyHourViolation[]
+}
+
+export interface DutyHoursComplianceReport {
+  periodStart: string
+  periodEnd: string
+  generatedAt: string
+  residentCount: number
+  compliantResidents: number
+  complianceRate: number // percentage 0-100
+  violationCounts: Record<DutyHourViolationType, number>
+  residents: ResidentDutyHoursSummary[]
+}
+
+const toIsoDate = (date: Date): string => format(date, 'yyyy-MM-dd')
+
+const round1 = (value: number): number => Math.round(value * 10) / 10
+
+/**
+ * Combine a calendar day with an "HH:MM" time string
+ */
+function atTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const result = new Date(day)
+  result.setHours(hours || 0, minutes || 0, 0, 0)
+  return result
+}
+
+/**
+ * Days between planned in-house calls for a rotation, or null if it has none
+ */
+function getCallIntervalDays(rotation: Rotation): number | null {
+  const callSchedule = rotation.schedule.callSchedule
+  if (!callSchedule) return null
+
+  switch (callSchedule.frequency) {
+    case 'WEEKLY':
+      return 7
+    case 'MONTHLY':
+      return callSchedule.maxCallsPerMonth
+        ? Math.max(1, Math.floor(ACGME_DUTY_LIMITS.averagingDays / callSchedule.maxCallsPerMonth))
+        : ACGME_DUTY_LIMITS.averagingDays
+    default:
+      // NONE and AS_NEEDED calls are not planned ahead
+      return null
+  }
+}
+
+/**
+ * Expand a rotation assignment into planned duty periods using the rotation's
+ * working days and hours. Planned call days run 24 hours from the normal start
+ * time and the following day is left free as a post-call day.
+ */
+export function derivePlannedShifts(params: {
+  residentId: string
+  rotation: Rotation
+  startDate: Date
+  endDate: Date
+  excludedDays?: Set<string> // ISO dates, e.g. approved vacation
+}): DutyInterval[] {
+  const { residentId, rotation, startDate, endDate, excludedDays } = params
+  const { daysOfWeek, startTime, endTime } = rotation.schedule
+  if (!startTime || !endTime || !daysOfWeek?.length) return []
+
+  const callInterval = getCallIntervalDays(rotation)
+  const shifts: DutyInterval[] = []
+  let postCall = false
+
+  eachDayOfInterval({ start: startOfDay(startDate), end: startOfDay(endDate) }).forEach((day, index) => {
+    if (postCall) {
+      postCall = false
+      return
+    }
+
+    if (excludedDays?.has(toIsoDate(day)) || !daysOfWeek.includes(day.getDay())) return
+
+    const shiftStart = atTime(day, startTime)
+    const isCallDay = callInterval !== null && index % callInterval === callInterval - 1
+
+    if (isCallDay) {
+      shifts.push({
+        residentId,
+        rotationId: rotation.id,
+        type: 'CALL',
+        start: shiftStart,
+        end: addHours(shiftStart, ACGME_DUTY_LIMITS.continuousHours),
+      })
+      postCall = true
+      return
+    }
+
+    let shiftEnd = atTime(day, endTime)
+    // Overnight shifts (e.g. 19:00-07:00) finish the next morning
+    if (shiftEnd <= shiftStart) shiftEnd = addDays(shiftEnd, 1)
+
+    shifts.push({
+      residentId,
+      rotationId: rotation.id,
+      type: 'REGULAR',
+      start: shiftStart,
+      end: shiftEnd,
+    })
+  })
+
+  return shifts
+}
+
+/**
+ * Hours of an interval that fall inside [windowStart, windowEnd)
+ */
+function overlapHours(interval: DutyInterval, windowStart: Date, windowEnd: Date): number {
+  const start = Math.max(interval.start.getTime(), windowStart.getTime())
+  const end = Math.min(interval.end.getTime(), windowEnd.getTime())
+  return end > start ? (end - start) / HOUR_MS : 0
+}
+
+/**
+ * Check one resident's duty periods against every ACGME limit. Averages are
+ * evaluated over consecutive 4-week windows starting at periodStart; a final
+ * window shorter than a week is not averaged.
+ */
+export function evaluateDutyHours(
+  residentId: string,
+  intervals: DutyInterval[],
+  source: DutyHourViolation['source'],
+  periodStart: Date,
+  periodEnd: Date
+): DutyHourViolation[] {
+  const violations: DutyHourViolation[] = []
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const addViolation = (
+    type: DutyHourViolationType,
+    start: Date,
+    end: Date,
+    actual: number,
+    limit: number,
+    message: string
+  ) => {
+    violations.push({
+      id: `${source}:${type}:${residentId}:${start.getTime()}`,
+      type,
+      residentId,
+      source,
+      message,
+      periodStart: toIsoDate(start),
+      periodEnd: toIsoDate(end),
+      actual,
+      limit,
+    })
+  }
+
+  // Averaged limits, one 4-week window at a time
+  for (
+    let windowStart = startOfDay(periodStart);
+    windowStart <= periodEnd;
+    windowStart = addDays(windowStart, ACGME_DUTY_LIMITS.averagingDays)
+  ) {
+    const fullWindowEnd = addDays(windowStart, ACGME_DUTY_LIMITS.averagingDays)
+    const windowEnd = fullWindowEnd > periodEnd ? addDays(startOfDay(periodEnd), 1) : fullWindowEnd
+    const windowDays = differenceInCalendarDays(windowEnd, windowStart)
+    if (windowDays < 7) continue
+
+    const weeks = windowDays / 7
+    const lastDay = addDays(windowEnd, -1)
+    const windowIntervals = sorted.filter(interval => interval.start < windowEnd && interval.end > windowStart)
+
+    const totalHours = windowIntervals.reduce((sum, interval) => sum + overlapHours(interval, windowStart, windowEnd), 0)
+    const weeklyAverage = round1(totalHours / weeks)
+    if (weeklyAverage > ACGME_DUTY_LIMITS.weeklyHours) {
+      addViolation(
+        'WEEKLY_HOURS_AVERAGE', windowStart, lastDay, weeklyAverage, ACGME_DUTY_LIMITS.weeklyHours,
+        `Averaged ${weeklyAverage} hours/week over ${Math.round(weeks)} weeks (limit ${ACGME_DUTY_LIMITS.weeklyHours})`
+      )
+    }
+
+    const daysOff = eachDayOfInterval({ start: windowStart, end: lastDay })
+      .filter(day => !windowIntervals.some(interval => overlapHours(interval, day, addDays(day, 1)) > 0))
+      .length
+    const requiredDaysOff = Math.floor(weeks) * ACGME_DUTY_LIMITS.daysOffPerWeek
+    if (daysOff < requiredDaysOff) {
+      addViolation(
+        'DAY_OFF_IN_SEVEN', windowStart, lastDay, daysOff, requiredDaysOff,
+        `Only ${daysOff} duty-free days in ${windowDays} days (at least ${requiredDaysOff} required)`
+      )
+    }
+
+    const callNights = new Set(
+      windowIntervals
+        .filter(interval => interval.type === 'CALL' && interval.start >= windowStart)
+        .map(interval => toIsoDate(interval.start))
+    ).size
+    const maxCallNights = Math.floor(windowDays / ACGME_DUTY_LIMITS.callEveryNthNight)
+    if (callNights > maxCallNights) {
+      addViolation(
+        'CALL_FREQUENCY', windowStart, lastDay, callNights, maxCallNights,
+        `${callNights} in-house call nights in ${windowDays} days (no more than every third night allows ${maxCallNights})`
+      )
+    }
+  }
+
+  // Continuous duty: back-to-back or overlapping periods count as one stretch
+  const maxContinuous = ACGME_DUTY_LIMITS.continuousHours + ACGME_DUTY_LIMITS.transitionHours
+  let stretch: { start: Date; end: Date } | null = null
+
+  const checkStretch = () => {
+    if (!stretch) return
+    const hours = round1((stretch.end.getTime() - stretch.start.getTime()) / HOUR_MS)
+    if (hours > maxContinuous) {
+      addViolation(
+        'CONTINUOUS_DUTY', stretch.start, stretch.end, hours, maxContinuous,
+        `${hours} continuous duty hours (limit ${ACGME_DUTY_LIMITS.continuousHours} + ${ACGME_DUTY_LIMITS.transitionHours} transition)`
+      )
+    }
+  }
+
+  sorted.forEach(interval => {
+    if (stretch && interval.start <= stretch.end) {
+      if (interval.end > stretch.end) stretch.end = interval.end
+      return
+    }
+    checkStretch()
+    stretch = { start: interval.start, end: interval.end }
+  })
+  checkStretch()
+
+  return violations
+}
+
+/**
+ * Build the program-level compliance report from planned and logged duty
+ * periods. A resident is compliant when neither source has a violation.
+ */
+export function buildDutyHoursReport(input: {
+  residents: { id: string; name: string; department?: Department; pgyLevel?: PGYLevel }[]
+  planned: DutyInterval[]
+  logged: DutyInterval[]
+  periodStart: Date
+  periodEnd: Date
+}): DutyHoursComplianceReport {
+  const { residents, planned, logged, periodStart, periodEnd } = input
+  const rangeEnd = addDays(startOfDay(periodEnd), 1)
+  const weeks = Math.max(differenceInCalendarDays(rangeEnd, startOfDay(periodStart)) / 7, 1)
+
+  const violationCounts: Record<DutyHourViolationType, number> = {
+    WEEKLY_HOURS_AVERAGE: 0,
+    CONTINUOUS_DUTY: 0,
+    DAY_OFF_IN_SEVEN: 0,
+    CALL_FREQUENCY: 0,
+  }
+
+  const sumHours = (intervals: DutyInterval[]) =>
+    intervals.reduce((sum, interval) => sum + overlapHours(interval, startOfDay(periodStart), rangeEnd), 0)
+
+  const summaries: ResidentDutyHoursSummary[] = residents.map(resident => {
+    const residentPlanned = planned.filter(interval => interval.residentId === resident.id)
+    const residentLogged = logged.filter(interval => interval.residentId === resident.id)
+
+    const violations = [
+      ...evaluateDutyHours(resident.id, residentLogged, 'LOGGED', periodStart, periodEnd),
+      ...evaluateDutyHours(resident.id, residentPlanned, 'PLANNED', periodStart, periodEnd),
+    ]
+    violations.forEach(violation => {
+      violationCounts[violation.type] += 1
+    })
+
+    const plannedHours = round1(sumHours(residentPlanned))
+    const loggedHours = round1(sumHours(residentLogged))
+
+    return {
+      residentId: resident.id,
+      name: resident.name,
+      department: resident.department,
+      pgyLevel: resident.pgyLevel,
+      plannedHours,
+      loggedHours,
+      averageWeeklyHours: round1((residentLogged.length > 0 ? loggedHours : plannedHours) / weeks),
+      violations,
+    }
+  })
+
+  const compliantResidents = summaries.filter(summary => summary.violations.length === 0).length
+
+  return {
+    periodStart: toIsoDate(periodStart),
+    periodEnd: toIsoDate(periodEnd),
+    generatedAt: new Date().toISOString(),
+    residentCount: summaries.length,
+    compliantResidents,
+    complianceRate: summaries.length > 0 ? Math.round((compliantResidents / summaries.length) * 100) : 100,
+    violationCounts,
+    residents: summaries.sort((a, b) => b.violations.length - a.violations.length || a.name.localeCompare(b.name)),
+  }
+}
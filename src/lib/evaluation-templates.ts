@@ -0,0 +1,286 @@
+/**
+ * EMMA Healthcare Evaluation Templates
+ *
+ * Validation for versioned evaluation form templates, template selection by
+ * evaluation type and department, and checking a completed evaluation
+ * against the template version it was created from.
+ */
+
+import {
+  Evaluation,
+  EvaluationQuestionCondition,
+  EvaluationScale,
+  EvaluationTemplate,
+  EvaluationTemplateQuestion,
+} from '@/types/database'
+import { Department, UserRole } from '@/types/user'
+import { EVALUATION_TYPES } from './evaluation-workflow'
+
+// Template scores are stored in Evaluation.ratings, which accept 1-9
+const SCALE_BOUNDS = { min: 1, max: 9 }
+
+const CONDITION_OPERATORS: EvaluationQuestionCondition['operator'][] = ['LT', 'LTE', 'EQ', 'GTE', 'GT']
+
+// Roles that maintain the program's evaluation forms
+const TEMPLATE_MANAGER_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+
+export interface EvaluationTemplateRequest {
+  templateKey?: string // Omit to start a new template; set to publish a new version
+  name: string
+  description?: string
+  evaluationType: Evaluation['type']
+  departments?: Department[]
+  sections: EvaluationTemplate['sections']
+  overallScale: EvaluationScale
+  summaryCommentsRequired?: boolean
+}
+
+/**
+ * Whether a user may create, version and retire evaluation templates
+ */
+export function canManageEvaluationTemplates(user: { role?: UserRole; permissions?: { canEditEvaluations?: boolean } }): boolean {
+  return !!user.role && TEMPLATE_MANAGER_ROLES.includes(user.role) && !!user.permissions?.canEditEvaluations
+}
+
+/**
+ * Derive a stable template key from its name, e.g. "EM Rotation Eval" -> "em-rotation-eval"
+ */
+export function toTemplateKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+const validateScale = (scale: EvaluationScale | undefined, label: string): string | null => {
+  if (!scale || !Number.isInteger(scale.min) || !Number.isInteger(scale.max)) {
+    return `${label} must have whole-number min and max values`
+  }
+
+  if (scale.min < SCALE_BOUNDS.min || scale.max > SCALE_BOUNDS.max || scale.min >= scale.max) {
+    return `${label} must run from low to high within ${SCALE_BOUNDS.min}-${SCALE_BOUNDS.max}`
+  }
+
+  return null
+}
+
+/**
+ * Validate a template definition before it is saved as a new version
+ */
+export function validateTemplateData(data: Partial<EvaluationTemplateRequest>): string | null {
+  if (!data.name?.trim() || !data.evaluationType || !data.sections || !data.overallScale) {
+    return 'Missing required fields: name, evaluationType, sections, overallScale'
+  }
+
+  if (!EVALUATION_TYPES.includes(data.evaluationType)) {
+    return `Invalid evaluation type. Expected one of: ${EVALUATION_TYPES.join(', ')}`
+  }
+
+  if (data.templateKey !== undefined && !/^[a-z0-9-]+$/.test(data.templateKey)) {
+    return 'Template key may only contain lowercase letters, numbers and dashes'
+  }
+
+  const overallScaleError = validateScale(data.overallScale, 'Overall scale')
+  if (overallScaleError) return overallScaleError
+
+  if (data.sections.length === 0) {
+    return 'Template must have at least one section'
+  }
+
+  // Questions seen so far, so conditions can only point backwards
+  const seenQuestions = new Map<string, EvaluationTemplateQuestion>()
+
+  for (const section of data.sections) {
+    if (!section.id?.trim() || !section.title?.trim()) {
+      return 'Each section must have an id and title'
+    }
+
+    if (!section.questions?.length) {
+      return `Section "${section.title}" must have at least one question`
+    }
+
+    for (const question of section.questions) {
+      if (!question.id?.trim() || !question.category?.trim() || !question.prompt?.trim()) {
+        return `Each question in "${section.title}" must have an id, category and prompt`
+      }
+
+      if (seenQuestions.has(question.id)) {
+        return `Duplicate question id: ${question.id}`
+      }
+
+      const scaleError = validateScale(question.scale, `Scale for question ${question.id}`)
+      if (scaleError) return scaleError
+
+      if (
+        question.commentRequiredBelow !== undefined &&
+        (question.commentRequiredBelow <= question.scale.min || question.commentRequiredBelow > question.scale.max)
+      ) {
+        return `Comment threshold for question ${question.id} must fall within its scale`
+      }
+
+      if (question.condition) {
+        const controlling = seenQuestions.get(question.condition.questionId)
+        if (!controlling) {
+          return `Question ${question.id} can only depend on an earlier question`
+        }
+
+        if (!CONDITION_OPERATORS.includes(question.condition.operator)) {
+          return `Invalid condition operator for question ${question.id}`
+        }
+
+        if (question.required && !controlling.required) {
+          return `Required question ${question.id} cannot depend on optional question ${controlling.id}`
+        }
+      }
+
+      seenQuestions.set(question.id, question)
+    }
+  }
+
+  return null
+}
+
+const compare = (score: number, condition: EvaluationQuestionCondition): boolean => {
+  switch (condition.operator) {
+    case 'LT':
+      return score < condition.value
+    case 'LTE':
+      return score <= condition.value
+    case 'EQ':
+      return score === condition.value
+    case 'GTE':
+      return score >= condition.value
+    case 'GT':
+      return score > condition.value
+  }
+}
+
+/**
+ * Whether a question applies given the scores entered so far. Conditional
+ * questions are skipped until their controlling question is answered.
+ */
+export function isQuestionActive(
+  question: EvaluationTemplateQuestion,
+  scores: Map<string, number>
+): boolean {
+  if (!question.condition) return true
+  const score = scores.get(question.condition.questionId)
+  return score !== undefined && compare(score, question.condition)
+}
+
+/**
+ * Whether a question needs a comment for the given score
+ */
+export function isCommentRequired(question: EvaluationTemplateQuestion, score?: number): boolean {
+  if (question.commentRequired) return true
+  return question.commentRequiredBelow !== undefined && score !== undefined && score < question.commentRequiredBelow
+}
+
+/**
+ * Pick the active template for an evaluation type, preferring one written
+ * for the resident's department over the program-wide template
+ */
+export function selectTemplate(
+  templates: EvaluationTemplate[],
+  evaluationType: Evaluation['type'],
+  department?: Department
+): EvaluationTemplate | null {
+  const candidates = templates.filter(template =>
+    template.status === 'ACTIVE' && template.evaluationType === evaluationType
+  )
+
+  return (
+    (department && candidates.find(template => template.departments.includes(department))) ||
+    candidates.find(template => template.departments.length === 0) ||
+    null
+  )
+}
+
+/**
+ * Check draft ratings reference the template's questions and use their
+ * scales. Completeness is only enforced on submit.
+ */
+export function validateDraftRatings(
+  ratings: Evaluation['ratings'],
+  template: EvaluationTemplate
+): string | null {
+  const questionsById = new Map(
+    template.sections.flatMap(section => section.questions).map(question => [question.id, question])
+  )
+
+  for (const rating of ratings) {
+    const question = rating.questionId ? questionsById.get(rating.questionId) : undefined
+    if (!question) {
+      return `Rating for ${rating.category} does not match a question on ${template.name}`
+    }
+
+    if (rating.score < question.scale.min || rating.score > question.scale.max) {
+      return `"${question.prompt}" must be scored from ${question.scale.min} to ${question.scale.max}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check a completed evaluation against its template version. Returns the
+ * first problem found, or null when the evaluation can be submitted.
+ */
+export function validateEvaluationAgainstTemplate(
+  evaluation: Pick<Evaluation, 'ratings' | 'overallRating' | 'summaryComments'>,
+  template: EvaluationTemplate
+): string | null {
+  const questions = template.sections.flatMap(section => section.questions)
+  const questionsById = new Map(questions.map(question => [question.id, question]))
+  const ratingsByQuestion = new Map<string, Evaluation['ratings'][number]>()
+
+  for (const rating of evaluation.ratings) {
+    if (!rating.questionId || !questionsById.has(rating.questionId)) {
+      return `Rating for ${rating.category} does not match a question on ${template.name}`
+    }
+
+    if (ratingsByQuestion.has(rating.questionId)) {
+      return `Question ${rating.questionId} has been answered more than once`
+    }
+
+    ratingsByQuestion.set(rating.questionId, rating)
+  }
+
+  const scores = new Map(
+    Array.from(ratingsByQuestion.entries()).map(([questionId, rating]) => [questionId, rating.score])
+  )
+
+  for (const question of questions) {
+    const rating = ratingsByQuestion.get(question.id)
+    const active = isQuestionActive(question, scores)
+
+    if (!active) {
+      if (rating) return `"${question.prompt}" does not apply and should be left blank`
+      continue
+    }
+
+    if (!rating) {
+      if (question.required) return `"${question.prompt}" is required`
+      continue
+    }
+
+    if (!Number.isInteger(rating.score) || rating.score < question.scale.min || rating.score > question.scale.max) {
+      return `"${question.prompt}" must be scored from ${question.scale.min} to ${question.scale.max}`
+    }
+
+    if (isCommentRequired(question, rating.score) && !rating.comments?.trim()) {
+      return `A comment is required for "${question.prompt}"`
+    }
+
+    if (question.milestoneLevelRequired && rating.milestoneLevel === undefined) {
+      return `A milestone level is required for "${question.prompt}"`
+    }
+  }
+
+  if (evaluation.overallRating < template.overallScale.min || evaluation.overallRating > template.overallScale.max) {
+    return `Overall rating must be from ${template.overallScale.min} to ${template.overallScale.max}`
+  }
+
+  if (template.summaryCommentsRequired && !evaluation.summaryComments?.trim()) {
+    return 'Summary comments are required before submitting'
+  }
+
+  return null
+}
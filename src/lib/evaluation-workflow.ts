@@ -0,0 +1,225 @@
+/**
+ * EMMA Healthcare Evaluation Workflow
+ *
+ * Request validation, status transitions and overdue rules for evaluations.
+ * Shared by the evaluations API routes and the evaluation screens so both
+ * agree on which actions a user may take.
+ */
+
+import { Evaluation } from '@/types/database'
+import { UserPermissions } from '@/types/user'
+import { toDate } from './date-utils'
+
+export const EVALUATION_TYPES: Evaluation['type'][] = ['ROTATION', 'MILESTONE', 'ANNUAL', 'COMPETENCY', 'RESEARCH']
+export const EVALUATION_STATUSES: Evaluation['status'][] = ['DRAFT', 'SUBMITTED', 'REVIEWED', 'APPROVED', 'ARCHIVED']
+
+export type EvaluationAction = 'SUBMIT' | 'RETURN' | 'REVIEW' | 'APPROVE' | 'ARCHIVE'
+
+export const EVALUATION_ACTIONS: EvaluationAction[] = ['SUBMIT', 'RETURN', 'REVIEW', 'APPROVE', 'ARCHIVE']
+
+interface EvaluationTransition {
+  from: Evaluation['status'][]
+  to: Evaluation['status']
+  permission: keyof UserPermissions
+  evaluatorOnly?: boolean // Only the evaluation's author may take this action
+  excludeEvaluator?: boolean // The author may not take this action on their own evaluation
+}
+
+export const EVALUATION_TRANSITIONS: Record<EvaluationAction, EvaluationTransition> = {
+  SUBMIT: { from: ['DRAFT'], to: 'SUBMITTED', permission: 'canCreateEvaluations', evaluatorOnly: true },
+  RETURN: { from: ['SUBMITTED', 'REVIEWED'], to: 'DRAFT', permission: 'canEditEvaluations', excludeEvaluator: true },
+  REVIEW: { from: ['SUBMITTED'], to: 'REVIEWED', permission: 'canEditEvaluations', excludeEvaluator: true },
+  APPROVE: { from: ['REVIEWED'], to: 'APPROVED', permission: 'canEditEvaluations', excludeEvaluator: true },
+  ARCHIVE: { from: ['APPROVED'], to: 'ARCHIVED', permission: 'canEditEvaluations' },
+}
+
+// Statuses in which the evaluator still owes work, so a past due date makes them overdue
+export const OPEN_STATUSES: Evaluation['status'][] = ['DRAFT']
+
+// Statuses a resident can see for their own evaluations
+export const RESIDENT_VISIBLE_STATUSES: Evaluation['status'][] = ['APPROVED', 'ARCHIVED']
+
+export type EvaluationWithStatus = Evaluation & { isOverdue: boolean }
+
+export interface EvaluationActor {
+  id: string
+  permissions?: Partial<UserPermissions>
+}
+
+export interface EvaluationTransitionError {
+  status: 403 | 409
+  error: string
+}
+
+export interface EvaluationRequest {
+  type: Evaluation['type']
+  evaluateeId: string
+  evaluatorId?: string // Defaults to the logged-in user
+  rotationId?: string
+  templateId?: string // Defaults to the active template for the type and resident's department
+  evaluationPeriod: {
+    startDate: string // ISO date
+    endDate: string // ISO date
+    rotationName?: string
+  }
+  dueDate?: string // ISO date - defaults to the institution's evaluation deadline
+  ratings?: Evaluation['ratings']
+  overallRating?: number
+  strengths?: string[]
+  areasForImprovement?: string[]
+  goals?: string[]
+  summaryComments?: string
+}
+
+/**
+ * Whether an evaluation is past its due date while still open
+ */
+export function isEvaluationOverdue(evaluation: Pick<Evaluation, 'status' | 'dueDate'>, now: Date = new Date()): boolean {
+  const dueDate = toDate(evaluation.dueDate)
+  return !!dueDate && OPEN_STATUSES.includes(evaluation.status) && dueDate < now
+}
+
+/**
+ * Attach the derived overdue flag
+ */
+export function withOverdueStatus(evaluation: Evaluation, now: Date = new Date()): EvaluationWithStatus {
+  return { ...evaluation, isOverdue: isEvaluationOverdue(evaluation, now) }
+}
+
+/**
+ * Whether an actor may read an evaluation: staff with evaluation access see
+ * everything, evaluators see their own, residents see their finalized ones
+ */
+export function canViewEvaluation(
+  evaluation: Pick<Evaluation, 'status' | 'evaluatorId' | 'evaluateeId'>,
+  actor: EvaluationActor
+): boolean {
+  if (actor.permissions?.canViewAllEvaluations) return true
+  if (evaluation.evaluatorId === actor.id) return true
+  return evaluation.evaluateeId === actor.id && RESIDENT_VISIBLE_STATUSES.includes(evaluation.status)
+}
+
+/**
+ * Check whether an actor may apply an action to an evaluation.
+ * Returns null when allowed, otherwise the HTTP status and reason.
+ */
+export function checkEvaluationTransition(
+  evaluation: Pick<Evaluation, 'status' | 'evaluatorId'>,
+  action: EvaluationAction,
+  actor: EvaluationActor
+): EvaluationTransitionError | null {
+  const transition = EVALUATION_TRANSITIONS[action]
+
+  if (!actor.permissions?.[transition.permission]) {
+    return { status: 403, error: `Insufficient permissions to ${action.toLowerCase()} evaluations` }
+  }
+
+  if (transition.evaluatorOnly && evaluation.evaluatorId !== actor.id) {
+    return { status: 403, error: 'Only the evaluator can submit this evaluation' }
+  }
+
+  if (transition.excludeEvaluator && evaluation.evaluatorId === actor.id) {
+    return { status: 403, error: `Evaluators cannot ${action.toLowerCase()} their own evaluations` }
+  }
+
+  if (!transition.from.includes(evaluation.status)) {
+    return { status: 409, error: `Cannot ${action.toLowerCase()} an evaluation that is ${evaluation.status}` }
+  }
+
+  return null
+}
+
+/**
+ * Actions the actor can currently take on an evaluation
+ */
+export function getAvailableEvaluationActions(
+  evaluation: Pick<Evaluation, 'status' | 'evaluatorId'>,
+  actor: EvaluationActor
+): EvaluationAction[] {
+  return (Object.keys(EVALUATION_TRANSITIONS) as EvaluationAction[])
+    .filter(action => checkEvaluationTransition(evaluation, action, actor) === null)
+}
+
+const validateRatings = (ratings: Evaluation['ratings']): string | null => {
+  for (const rating of ratings) {
+    if (!rating.category?.trim()) {
+      return 'Each rating must have a category'
+    }
+
+    if (typeof rating.score !== 'number' || rating.score < 1 || rating.score > 9) {
+      return `Rating score for ${rating.category} must be between 1 and 9`
+    }
+
+    if (rating.milestoneLevel !== undefined && (rating.milestoneLevel < 1 || rating.milestoneLevel > 5)) {
+      return `Milestone level for ${rating.category} must be between 1 and 5`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Validate evaluation data. With `partial` set, only fields present in the
+ * payload are checked (used by PATCH /api/evaluations/[id]).
+ */
+export function validateEvaluationData(data: Partial<EvaluationRequest>, partial = false): string | null {
+  if (!partial && (!data.type || !data.evaluateeId || !data.evaluationPeriod)) {
+    return 'Missing required fields: type, evaluateeId, evaluationPeriod'
+  }
+
+  if (data.type !== undefined && !EVALUATION_TYPES.includes(data.type)) {
+    return `Invalid evaluation type. Expected one of: ${EVALUATION_TYPES.join(', ')}`
+  }
+
+  if (data.evaluationPeriod) {
+    const start = new Date(data.evaluationPeriod.startDate)
+    const end = new Date(data.evaluationPeriod.endDate)
+
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      return 'Invalid evaluation period dates'
+    }
+
+    if (end < start) {
+      return 'Evaluation period end date must be after start date'
+    }
+  }
+
+  if (data.dueDate !== undefined && isNaN(new Date(data.dueDate).getTime())) {
+    return 'Invalid due date'
+  }
+
+  if (data.ratings) {
+    const ratingsError = validateRatings(data.ratings)
+    if (ratingsError) return ratingsError
+  }
+
+  if (data.overallRating !== undefined && (data.overallRating < 1 || data.overallRating > 9)) {
+    return 'Overall rating must be between 1 and 9'
+  }
+
+  if (data.summaryComments !== undefined && data.summaryComments.length > 5000) {
+    return 'Summary comments must be 5000 characters or fewer'
+  }
+
+  return null
+}
+
+/**
+ * Check an evaluation without a template is complete enough to submit.
+ * Templated evaluations are checked with validateEvaluationAgainstTemplate.
+ */
+export function validateEvaluationForSubmission(evaluation: Evaluation): string | null {
+  if (!evaluation.ratings || evaluation.ratings.length === 0) {
+    return 'At least one rating is required before submitting'
+  }
+
+  if (!evaluation.overallRating) {
+    return 'An overall rating is required before submitting'
+  }
+
+  if (!evaluation.summaryComments?.trim()) {
+    return 'Summary comments are required before submitting'
+  }
+
+  return null
+}
@@ -0,0 +1,209 @@
+/**
+ * EMMA Healthcare Faculty Portal
+ *
+ * The residents a faculty member is responsible for - as supervisor or
+ * advisor on the resident record, or as attending on this block's
+ * rotations - with the evaluations they still owe, and the open evaluation
+ * workload per evaluator that coordinators balance across the faculty.
+ */
+
+import { Evaluation, ExtendedUser, ResidentProfile, Rotation, Schedule } from '@/types/database'
+import { Department, PGYLevel, UserRole } from '@/types/user'
+import { toDate } from './date-utils'
+import { EvaluationWithStatus, OPEN_STATUSES, isEvaluationOverdue, withOverdueStatus } from './evaluation-workflow'
+
+export type FacultyRelationship = 'SUPERVISOR' | 'ADVISOR' | 'MENTOR' | 'ATTENDING'
+
+export const FACULTY_RELATIONSHIP_LABELS: Record<FacultyRelationship, string> = {
+  SUPERVISOR: 'Supervisor',
+  ADVISOR: 'Advisor',
+  MENTOR: 'Research mentor',
+  ATTENDING: 'Attending'
+}
+
+const WORKLOAD_VIEWER_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+
+export interface FacultyResident {
+  id: string
+  name: string
+  department?: Department
+  pgyLevel?: PGYLevel
+  relationships: FacultyRelationship[]
+  rotationName?: string // This block's rotation, when attending
+  blockEndDate?: string
+  openEvaluationCount: number // Drafts this faculty member owes the resident
+}
+
+export interface FacultyPortal {
+  residents: FacultyResident[]
+  pendingEvaluations: EvaluationWithStatus[] // Soonest due first
+  overdueCount: number
+  generatedAt: string
+}
+
+export interface FacultyPortalInput {
+  facultyId: string
+  residents: ExtendedUser[] // Active residents
+  residentProfiles: ResidentProfile[]
+  schedules: Schedule[] // Published schedules
+  rotations: Rotation[]
+  evaluations: Evaluation[] // Written by this faculty member
+  now?: Date
+}
+
+export interface FacultyWorkloadEntry {
+  evaluatorId: string
+  name: string
+  role?: UserRole
+  department?: Department
+  open: number // Drafts still owed
+  overdue: number
+  awaitingReview: number // Submitted or reviewed, waiting on coordinators
+  nextDueDate: string | null
+}
+
+export interface FacultyWorkloadInput {
+  faculty: ExtendedUser[] // Active faculty, listed even with nothing open
+  evaluators: ExtendedUser[] // Anyone else with evaluations in the list
+  evaluations: Evaluation[]
+  now?: Date
+}
+
+/**
+ * Whether a user may see the faculty evaluation workload
+ */
+export function canViewFacultyWorkload(user: { role?: UserRole; permissions?: { canViewAllEvaluations?: boolean } }): boolean {
+  return !!user.role && WORKLOAD_VIEWER_ROLES.includes(user.role) && !!user.permissions?.canViewAllEvaluations
+}
+
+const byDueDate = (a: Evaluation, b: Evaluation): number =>
+  (toDate(a.dueDate)?.getTime() ?? Infinity) - (toDate(b.dueDate)?.getTime() ?? Infinity)
+
+/**
+ * Assemble a faculty member's portal. Attending covers a current published
+ * rotation assignment they supervise or whose rotation lists them as an
+ * attending, and a current rotation on the resident profile naming them.
+ */
+export function buildFacultyPortal(input: FacultyPortalInput): FacultyPortal {
+  const { facultyId } = input
+  const now = input.now ?? new Date()
+  const profiles = new Map(input.residentProfiles.map(profile => [profile.userId || profile.id, profile]))
+  const rotations = new Map(input.rotations.map(rotation => [rotation.id, rotation]))
+  const attending = new Map<string, { rotationName?: string; blockEndDate?: Date }>()
+
+  input.schedules
+    .filter(schedule => schedule.status === 'PUBLISHED' && schedule.type === 'ROTATION')
+    .forEach(schedule => {
+      schedule.assignments.forEach(assignment => {
+        const start = toDate(assignment.startDate ?? schedule.startDate)
+        const end = toDate(assignment.endDate ?? schedule.endDate)
+        if (!start || !end || start > now || end < now) return
+
+        const rotation = assignment.rotationId ? rotations.get(assignment.rotationId) : undefined
+        if (assignment.supervisorId === facultyId || rotation?.attendingPhysicians?.includes(facultyId)) {
+          attending.set(assignment.residentId, { rotationName: rotation?.name ?? schedule.name, blockEndDate: end })
+        }
+      })
+    })
+
+  const openEvaluations = input.evaluations.filter(evaluation =>
+    evaluation.evaluatorId === facultyId && OPEN_STATUSES.includes(evaluation.status)
+  )
+
+  const residents: FacultyResident[] = []
+  input.residents.forEach(resident => {
+    const profile = profiles.get(resident.id)
+    const relationships: FacultyRelationship[] = []
+
+    if (resident.supervisingFacultyId === facultyId || profile?.supervisingFaculty?.primarySupervisorId === facultyId) {
+      relationships.push('SUPERVISOR')
+    }
+    if (profile?.supervisingFaculty?.academicAdvisorId === facultyId) relationships.push('ADVISOR')
+    if (profile?.supervisingFaculty?.researchMentorId === facultyId) relationships.push('MENTOR')
+
+    let block = attending.get(resident.id)
+    const profileRotation = profile?.currentRotation
+    const profileRotationEnd = toDate(profileRotation?.endDate)
+    if (!block && profileRotation?.attendingId === facultyId && (!profileRotationEnd || profileRotationEnd >= now)) {
+      block = { rotationName: profileRotation.name, blockEndDate: profileRotationEnd ?? undefined }
+    }
+    if (block) relationships.push('ATTENDING')
+
+    if (relationships.length === 0) return
+
+    residents.push({
+      id: resident.id,
+      name: `${resident.firstName} ${resident.lastName}`,
+      department: resident.department,
+      pgyLevel: resident.pgyLevel,
+      relationships,
+      rotationName: block?.rotationName,
+      blockEndDate: block?.blockEndDate?.toISOString(),
+      openEvaluationCount: openEvaluations.filter(evaluation => evaluation.evaluateeId === resident.id).length
+    })
+  })
+
+  residents.sort((a, b) => a.name.localeCompare(b.name))
+
+  const pendingEvaluations = openEvaluations
+    .sort(byDueDate)
+    .map(evaluation => withOverdueStatus(evaluation, now))
+
+  return {
+    residents,
+    pendingEvaluations,
+    overdueCount: pendingEvaluations.filter(evaluation => evaluation.isOverdue).length,
+    generatedAt: now.toISOString()
+  }
+}
+
+/**
+ * Open evaluations per evaluator, busiest first
+ */
+export function buildFacultyWorkload(input: FacultyWorkloadInput): FacultyWorkloadEntry[] {
+  const now = input.now ?? new Date()
+  const entries = new Map<string, FacultyWorkloadEntry>()
+  const users = new Map([...input.evaluators, ...input.faculty].map(user => [user.id, user]))
+
+  const entryFor = (evaluatorId: string): FacultyWorkloadEntry => {
+    let entry = entries.get(evaluatorId)
+    if (!entry) {
+      const user = users.get(evaluatorId)
+      entry = {
+        evaluatorId,
+        name: user ? `${user.firstName} ${user.lastName}` : evaluatorId,
+        role: user?.role,
+        department: user?.department,
+        open: 0,
+        overdue: 0,
+        awaitingReview: 0,
+        nextDueDate: null
+      }
+      entries.set(evaluatorId, entry)
+    }
+    return entry
+  }
+
+  input.faculty.forEach(member => entryFor(member.id))
+
+  input.evaluations.forEach(evaluation => {
+    if (evaluation.status === 'SUBMITTED' || evaluation.status === 'REVIEWED') {
+      entryFor(evaluation.evaluatorId).awaitingReview += 1
+      return
+    }
+    if (!OPEN_STATUSES.includes(evaluation.status)) return
+
+    const entry = entryFor(evaluation.evaluatorId)
+    const dueDate = toDate(evaluation.dueDate)
+
+    entry.open += 1
+    if (isEvaluationOverdue(evaluation, now)) entry.overdue += 1
+    if (dueDate && (!entry.nextDueDate || dueDate.toISOString() < entry.nextDueDate)) {
+      entry.nextDueDate = dueDate.toISOString()
+    }
+  })
+
+  return Array.from(entries.values()).sort((a, b) =>
+    b.open - a.open || b.overdue - a.overdue || a.name.localeCompare(b.name)
+  )
+}
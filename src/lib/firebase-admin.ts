@@ -1,6 +1,16 @@
 import { initializeApp, getApps, cert } from 'firebase-admin/app'
-import { getFirestore } from 'firebase-admin/firestore'
+import { FieldValue, getFirestore } from 'firebase-admin/firestore'
 import { getAuth } from 'firebase-admin/auth'
+import { describeActivity, FeedContext, getFeedSource } from './activity-feed'
+import {
+  AUDIT_CHAIN_VERSION,
+  AUDIT_GENESIS_HASH,
+  AUDIT_SYSTEM_CHAIN,
+  AuditChainHead,
+  protectAuditDetails,
+  sealAuditEntry
+} from './audit-chain'
+import { categorizeAuditAction, isAuditActionSuccess } from './audit-log'
 
 // Server-side only validation
 if (typeof window !== 'undefined') {
@@ -32,7 +42,8 @@ const app = getApps().length === 0
 export const adminDb = getFirestore(app)
 export const adminAuth = getAuth(app)
 
-// HIPAA-compliant audit logging
+// HIPAA-compliant audit logging. Entries are appended to a per-institution
+// hash chain (see audit-chain.ts) with PHI details encrypted.
 export const logAdminAction = async (
   action: string,
   userId?: string,
@@ -41,40 +52,71 @@ export const logAdminAction = async (
   details?: Record<string, any>
 ) => {
   if (process.env.NEXT_PUBLIC_ENABLE_HIPAA_AUDIT === 'true') {
-    const auditLog = {
+    const protectedDetails = protectAuditDetails(details)
+    const auditLog = JSON.parse(JSON.stringify({
       timestamp: new Date().toISOString(),
       action,
+      actionCategory: categorizeAuditAction(action),
+      success: isAuditActionSuccess(action),
       userId,
       resourceType,
       resourceId,
-      details: details ? sanitizeForLogging(details) : undefined,
+      details: protectedDetails.details,
+      phi: protectedDetails.phi,
+      encrypted: !!protectedDetails.phi,
       source: 'EMMA_ADMIN_PANEL',
       environment: process.env.NODE_ENV,
-    }
+      version: AUDIT_CHAIN_VERSION,
+    }))
 
     // HIPAA-compliant audit logging - Never log to console in production
     if (process.env.NODE_ENV === 'development') {
       console.log(`[HIPAA_AUDIT] ${action}`, auditLog)
     }
 
-    // Always save to encrypted audit collection with error recovery
     try {
-      // Save to primary audit collection with encryption
-      await adminDb.collection('hipaa_audit_logs').add({
-        ...auditLog,
-        encrypted: true,
-        version: '1.0',
+      const institutionId = await resolveAuditInstitution(userId, details)
+      const auditRef = adminDb.collection('hipaa_audit_logs').doc()
+      const headRef = adminDb.collection('audit_chain_heads').doc(institutionId)
+
+      // The head is read and advanced in the same transaction so concurrent
+      // writers cannot fork the chain
+      const entry = await adminDb.runTransaction(async (transaction) => {
+        const head = (await transaction.get(headRef)).data() as AuditChainHead | undefined
+
+        const sealed = sealAuditEntry({
+          ...auditLog,
+          id: auditRef.id,
+          institutionId,
+          sequence: (head?.sequence ?? 0) + 1,
+          previousHash: head?.lastHash ?? AUDIT_GENESIS_HASH,
+        })
+
+        transaction.set(auditRef, sealed)
+        transaction.set(headRef, {
+          institutionId,
+          sequence: sealed.sequence,
+          lastHash: sealed.hash,
+          lastEntryId: sealed.id,
+          updatedAt: FieldValue.serverTimestamp(),
+        })
+
+        return sealed
       })
 
-      // Create backup audit entry for compliance
-      await adminDb.collection('audit_backup').add({
-        timestamp: auditLog.timestamp,
+      // Independent copy of the chain links for cross-checking
+      await adminDb.collection('audit_backup').doc(entry.id).set({
+        auditLogId: entry.id,
+        institutionId,
+        sequence: entry.sequence,
+        timestamp: entry.timestamp,
         action,
-        userId,
-        resourceType,
-        resourceId,
-        checksum: Buffer.from(JSON.stringify(auditLog)).toString('base64'),
+        previousHash: entry.previousHash,
+        hash: entry.hash,
       })
+
+      // The feed only reads non-PHI fields, so it gets the same protected details as the chain
+      await recordActivity(entry.id, action, userId, resourceType, resourceId, protectedDetails.details)
     } catch (error) {
       // Critical: Audit logging failure must be handled
       console.error('[CRITICAL] HIPAA audit log failure - immediate attention required')
@@ -104,18 +146,102 @@ export const logAdminAction = async (
   }
 }
 
-// Sanitize sensitive data for logging
-function sanitizeForLogging(data: Record<string, any>): Record<string, any> {
-  const sensitiveFields = ['password', 'ssn', 'dob', 'phoneNumber', 'address']
-  const sanitized = { ...data }
+// Pick the chain an entry belongs to: the institution named in the details,
+// otherwise the acting user's institution
+async function resolveAuditInstitution(userId?: string, details?: Record<string, any>): Promise<string> {
+  if (typeof details?.institutionId === 'string' && details.institutionId) {
+    return details.institutionId
+  }
+
+  if (userId) {
+    const userDoc = await adminDb.collection('users').doc(userId).get()
+    const institutionId = userDoc.data()?.institutionId
+    if (typeof institutionId === 'string' && institutionId) return institutionId
+  }
+
+  return AUDIT_SYSTEM_CHAIN
+}
+
+// Load a user's display details for the activity feed
+async function loadFeedPerson(userId?: string) {
+  if (!userId) return undefined
+  const userDoc = await adminDb.collection('users').doc(userId).get()
+  if (!userDoc.exists) return undefined
 
-  sensitiveFields.forEach((field) => {
-    if (field in sanitized) {
-      sanitized[field] = '[REDACTED]'
+  const user = userDoc.data()!
+  return {
+    id: userId,
+    name: `${user.firstName} ${user.lastName}`,
+    role: user.role,
+    pgyLevel: user.pgyLevel,
+    institutionId: user.institutionId as string | undefined,
+  }
+}
+
+// Project a feed-worthy audit entry into the activity feed. The feed is a
+// convenience view, so failures are logged without failing the audit write.
+async function recordActivity(
+  auditLogId: string,
+  action: string,
+  userId?: string,
+  resourceType?: string,
+  resourceId?: string,
+  details: Record<string, any> = {}
+) {
+  const source = getFeedSource(action, details)
+  if (!source || !resourceType || !resourceId) return
+
+  try {
+    const context: FeedContext = {}
+    let institutionId: string | undefined = details.institutionId
+
+    if (source === 'USER') {
+      const user = await loadFeedPerson(resourceId)
+      context.user = user
+      institutionId = institutionId || user?.institutionId
     }
-  })
 
-  return sanitized
+    if (source === 'EVALUATION') {
+      const evaluationDoc = await adminDb.collection('evaluations').doc(resourceId).get()
+      const evaluation = evaluationDoc.data()
+      if (evaluation) {
+        context.evaluation = evaluation as FeedContext['evaluation']
+        context.evaluator = await loadFeedPerson(evaluation.evaluatorId)
+        context.evaluatee = await loadFeedPerson(evaluation.evaluateeId)
+        institutionId = evaluation.institutionId
+      }
+    }
+
+    if (source === 'SCHEDULE') {
+      const scheduleDoc = await adminDb.collection('schedules').doc(resourceId).get()
+      const schedule = scheduleDoc.data()
+      if (schedule) {
+        context.schedule = schedule as FeedContext['schedule']
+        institutionId = schedule.institutionId
+      }
+    }
+
+    const activity = describeActivity(action, details, context)
+    if (!activity || !institutionId) return
+
+    // Firestore rejects undefined fields
+    const { pgyLevel, ...description } = activity
+    const activityRef = adminDb.collection('activity_feed').doc()
+    await activityRef.set({
+      ...description,
+      ...(pgyLevel ? { pgyLevel } : {}),
+      ...(userId ? { actorId: userId } : {}),
+      id: activityRef.id,
+      institutionId,
+      auditLogId,
+      action,
+      resourceType,
+      resourceId,
+      timestamp: FieldValue.serverTimestamp(),
+    })
+  } catch (error) {
+    console.error('[EMMA] Activity feed update failed:', error)
+  }
 }
 
 export default app
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * EMMA Healthcare Firebase Client Session
+ *
+ * Signs the browser into Firebase Auth with a custom token for the
+ * NextAuth user, so Firestore listeners run under the security rules.
+ */
+
+import { signInWithCustomToken, signOut } from 'firebase/auth'
+import { auth } from './firebase'
+
+// Shared so concurrent listeners only request one token
+let pendingSignIn: Promise<void> | null = null
+
+/**
+ * Make sure the Firebase client is signed in as the given user
+ */
+export async function ensureFirebaseSession(userId: string): Promise<void> {
+  await auth.authStateReady()
+  if (auth.currentUser?.uid === userId) return
+
+  if (!pendingSignIn) {
+    pendingSignIn = (async () => {
+      const response = await fetch('/api/auth/firebase-token', { method: 'POST' })
+      const data: { success: boolean; token?: string; error?: string } = await response.json()
+
+      if (!response.ok || !data.success || !data.token) {
+        throw new Error(data.error || 'Failed to start Firebase session')
+      }
+
+      await signInWithCustomToken(auth, data.token)
+    })().finally(() => {
+      pendingSignIn = null
+    })
+  }
+
+  return pendingSignIn
+}
+
+/**
+ * Sign the Firebase client out, alongside the NextAuth sign-out
+ */
+export async function endFirebaseSession(): Promise<void> {
+  if (auth.currentUser) {
+    await signOut(auth)
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * EMMA Healthcare Institutions
+ *
+ * Tenancy rules shared by the institution APIs, the NextAuth session and the
+ * dashboard: which institutions a user may switch into and with what role,
+ * and the request shape for onboarding a new institution. Every record stays
+ * scoped to one institution - firestore.rules enforces the same boundary
+ * with belongsToSameInstitution.
+ */
+
+import { ExtendedUser, Institution } from '@/types/database'
+import {
+  Department,
+  DepartmentPermissions,
+  ROLE_PERMISSIONS,
+  UserPermissions,
+  UserRole
+} from '@/types/user'
+import { resolvePermissions } from './permissions'
+import { RESIDENT_DEPARTMENTS } from './resident-validation'
+import { USER_ROLES } from './user-management'
+
+export type InstitutionType = Institution['type']
+
+export const INSTITUTION_TYPES: InstitutionType[] = ['HOSPITAL', 'CLINIC', 'UNIVERSITY', 'MEDICAL_CENTER']
+
+export const INSTITUTION_TYPE_LABELS: Record<InstitutionType, string> = {
+  HOSPITAL: 'Hospital',
+  CLINIC: 'Clinic',
+  UNIVERSITY: 'University',
+  MEDICAL_CENTER: 'Medical Center'
+}
+
+// What the dashboard needs to list or switch between institutions
+export interface InstitutionSummary {
+  id: string
+  name: string
+  type: InstitutionType
+  status: Institution['status']
+  city?: string
+  state?: string
+  activePrograms: string[]
+}
+
+// A user's role in one institution; home is the institution on their user record
+export interface InstitutionAccess {
+  institutionId: string
+  role: UserRole
+  department?: Department
+  home: boolean
+}
+
+export interface InstitutionOnboardingRequest {
+  name: string
+  type: InstitutionType
+  address: {
+    street: string
+    city: string
+    state: string
+    zipCode: string
+    country: string
+  }
+  contactInfo: {
+    phone: string
+    email: string
+    website?: string
+  }
+  timezone: string
+  activePrograms: Department[]
+  admin: {
+    email: string
+    firstName: string
+    lastName: string
+  }
+}
+
+export interface InstitutionOnboardingResult {
+  institution: InstitutionSummary
+  adminUserId: string
+  invitationSent: boolean
+}
+
+/**
+ * Institution document ID derived from its name
+ */
+export function toInstitutionId(name: string): string {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Validate an onboarding request from the Institutions console
+ */
+export function validateInstitutionOnboarding(data: Partial<InstitutionOnboardingRequest>): string | null {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+  if (!data.name?.trim() || !toInstitutionId(data.name)) {
+    return 'Institution name is required'
+  }
+
+  if (!data.type || !INSTITUTION_TYPES.includes(data.type)) {
+    return `Invalid institution type. Expected one of: ${INSTITUTION_TYPES.join(', ')}`
+  }
+
+  const address = data.address
+  if (!address?.street?.trim() || !address.city?.trim() || !address.state?.trim() ||
+    !address.zipCode?.trim() || !address.country?.trim()) {
+    return 'Missing required address fields: street, city, state, zipCode, country'
+  }
+
+  if (!data.contactInfo?.phone?.trim() || !data.contactInfo.email?.trim()) {
+    return 'Missing required contact fields: phone, email'
+  }
+
+  if (!emailRegex.test(data.contactInfo.email)) {
+    return 'Invalid contact email address'
+  }
+
+  if (!data.timezone?.trim()) {
+    return 'Timezone is required'
+  }
+
+  if (!Array.isArray(data.activePrograms) || data.activePrograms.length === 0) {
+    return 'At least one active program is required'
+  }
+
+  if (data.activePrograms.some(program => !RESIDENT_DEPARTMENTS.includes(program))) {
+    return `Invalid program. Expected any of: ${RESIDENT_DEPARTMENTS.join(', ')}`
+  }
+
+  if (!data.admin?.email?.trim() || !data.admin.firstName?.trim() || !data.admin.lastName?.trim()) {
+    return 'Missing required administrator fields: email, firstName, lastName'
+  }
+
+  if (!emailRegex.test(data.admin.email)) {
+    return 'Invalid administrator email address'
+  }
+
+  return null
+}
+
+/**
+ * Validate a role given to a user in another institution
+ */
+export function validateMembership(data: { role?: unknown; department?: unknown }): string | null {
+  if (!USER_ROLES.includes(data.role as UserRole)) {
+    return `Invalid role. Expected one of: ${USER_ROLES.join(', ')}`
+  }
+
+  if (data.department !== undefined && !RESIDENT_DEPARTMENTS.includes(data.department as Department)) {
+    return `Invalid department. Expected one of: ${RESIDENT_DEPARTMENTS.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Whether a user holds the platform super-admin role
+ */
+export function isSuperAdmin(user: Pick<ExtendedUser, 'platformRole'> | null | undefined): boolean {
+  return user?.platformRole === 'SUPER_ADMIN'
+}
+
+/**
+ * A user's role in an institution, or null when they have no access to it
+ */
+export function getInstitutionAccess(
+  user: Pick<ExtendedUser, 'institutionId' | 'role' | 'department' | 'institutionMemberships'>,
+  institutionId: string | undefined
+): InstitutionAccess | null {
+  if (!institutionId) return null
+
+  if (institutionId === user.institutionId) {
+    return { institutionId, role: user.role, department: user.department, home: true }
+  }
+
+  const membership = user.institutionMemberships?.find(entry => entry.institutionId === institutionId)
+  return membership
+    ? { institutionId, role: membership.role, department: membership.department, home: false }
+    : null
+}
+
+/**
+ * Every institution a user can switch into, their own first
+ */
+export function getAccessibleInstitutionIds(
+  user: Pick<ExtendedUser, 'institutionId' | 'institutionMemberships'>
+): string[] {
+  return [user.institutionId, ...(user.institutionMemberships ?? []).map(entry => entry.institutionId)]
+}
+
+/**
+ * Permissions for a user acting in an institution. Overrides and department
+ * grants are set by the home institution's administrators, so elsewhere the
+ * user gets the defaults for the role held there.
+ */
+export function resolveInstitutionPermissions(
+  user: Pick<ExtendedUser, 'permissionOverrides' | 'departmentPermissions'>,
+  access: InstitutionAccess
+): { permissions: UserPermissions; departmentPermissions?: DepartmentPermissions } {
+  if (!access.home) {
+    return { permissions: { ...ROLE_PERMISSIONS[access.role] } }
+  }
+
+  return {
+    permissions: resolvePermissions(access.role, user.permissionOverrides),
+    departmentPermissions: user.departmentPermissions
+  }
+}
+
+/**
+ * Summary of an institution document for lists and the switcher
+ */
+export function toInstitutionSummary(institution: Institution): InstitutionSummary {
+  return {
+    id: institution.id,
+    name: institution.name,
+    type: institution.type,
+    status: institution.status,
+    city: institution.address?.city,
+    state: institution.address?.state,
+    activePrograms: institution.activePrograms ?? []
+  }
+}
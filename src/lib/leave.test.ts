@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest'
+import { LeaveRequest, Rotation, Schedule } from '@/types/database'
+import {
+  DEFAULT_LEAVE_SETTINGS,
+  LeaveAssessmentInput,
+  assessLeaveRequest,
+  calculateTrainingExtension,
+  checkLeaveAction,
+  countWorkingDays,
+  findStaffingShortfalls,
+  getLeaveBalances,
+  resolveLeaveSettings,
+  validateLeaveRequest,
+} from './leave'
+
+const YEAR = '2025-2026'
+
+type LeaveFixture = Partial<Omit<LeaveRequest, 'startDate' | 'endDate'>> & { startDate?: Date; endDate?: Date }
+
+const makeLeave = (overrides: LeaveFixture): LeaveRequest => ({
+  id: 'leave-1',
+  residentId: 'res-a',
+  type: 'VACATION',
+  status: 'APPROVED',
+  workingDays: 5,
+  academicYear: YEAR,
+  startDate: new Date(2025, 7, 4),
+  endDate: new Date(2025, 7, 8),
+  ...overrides,
+}) as unknown as LeaveRequest
+
+const icu = { id: 'icu', name: 'ICU', minimumStaffing: 2 } as Rotation
+
+// res-a, res-b and res-c on ICU for July 2025
+const schedules = [{
+  id: 'sched-1',
+  type: 'ROTATION',
+  status: 'PUBLISHED',
+  startDate: new Date(2025, 6, 1),
+  endDate: new Date(2025, 6, 31),
+  assignments: ['res-a', 'res-b', 'res-c'].map(residentId => ({ residentId, rotationId: 'icu' })),
+}] as unknown as Schedule[]
+
+const assessment = (overrides: Partial<LeaveAssessmentInput> = {}) => assessLeaveRequest({
+  residentId: 'res-a',
+  request: { type: 'VACATION', startDate: '2025-07-07', endDate: '2025-07-11' },
+  existingRequests: [],
+  schedules,
+  rotations: [icu],
+  approvedLeave: [],
+  settings: DEFAULT_LEAVE_SETTINGS,
+  ...overrides,
+})
+
+describe('countWorkingDays', () => {
+  it('counts weekdays inclusively', () => {
+    expect(countWorkingDays(new Date(2025, 6, 7), new Date(2025, 6, 13))).toBe(5)
+    expect(countWorkingDays(new Date(2025, 6, 12), new Date(2025, 6, 13))).toBe(0)
+    expect(countWorkingDays(new Date(2025, 6, 13), new Date(2025, 6, 7))).toBe(0)
+  })
+})
+
+describe('validateLeaveRequest', () => {
+  it('accepts a well-formed request', () => {
+    expect(validateLeaveRequest({ type: 'SICK', startDate: '2025-07-07', endDate: '2025-07-07' })).toBeNull()
+  })
+
+  it('rejects bad types, reversed dates and weekend-only leave', () => {
+    expect(validateLeaveRequest({ type: 'SABBATICAL' as never, startDate: '2025-07-07', endDate: '2025-07-07' }))
+      .toMatch('Invalid leave type')
+    expect(validateLeaveRequest({ type: 'SICK', startDate: '2025-07-08', endDate: '2025-07-07' }))
+      .toBe('End date must be on or after the start date')
+    expect(validateLeaveRequest({ type: 'SICK', startDate: '2025-07-12', endDate: '2025-07-13' }))
+      .toBe('Leave must include at least one working day')
+  })
+})
+
+describe('checkLeaveAction', () => {
+  const coordinator = { id: 'coord-1', role: 'COORDINATOR' as const, permissions: { canEditSchedules: true } }
+  const resident = { id: 'res-a', role: 'RESIDENT' as const }
+  const pending = makeLeave({ status: 'PENDING' })
+
+  it('lets coordinators decide pending requests', () => {
+    expect(checkLeaveAction(pending, 'APPROVE', coordinator)).toBeNull()
+    expect(checkLeaveAction(makeLeave({ status: 'DENIED' }), 'APPROVE', coordinator)).toMatchObject({ status: 409 })
+  })
+
+  it('stops residents deciding leave', () => {
+    expect(checkLeaveAction(pending, 'APPROVE', resident)).toMatchObject({ status: 403 })
+    expect(checkLeaveAction(pending, 'APPROVE', { ...coordinator, id: 'res-a' })).toMatchObject({ status: 403 })
+  })
+
+  it('lets residents cancel approved leave only before it starts', () => {
+    expect(checkLeaveAction(makeLeave({}), 'CANCEL', resident, new Date(2025, 7, 1))).toBeNull()
+    expect(checkLeaveAction(makeLeave({}), 'CANCEL', resident, new Date(2025, 7, 5))).toMatchObject({ status: 409 })
+    expect(checkLeaveAction(makeLeave({}), 'CANCEL', coordinator, new Date(2025, 7, 5))).toBeNull()
+    expect(checkLeaveAction(makeLeave({ residentId: 'res-b' }), 'CANCEL', resident)).toMatchObject({ status: 403 })
+  })
+})
+
+describe('getLeaveBalances', () => {
+  it('holds pending requests against the allowance', () => {
+    const balances = getLeaveBalances([
+      makeLeave({ workingDays: 5 }),
+      makeLeave({ workingDays: 3, status: 'PENDING' }),
+      makeLeave({ workingDays: 4, status: 'DENIED' }),
+      makeLeave({ workingDays: 2, academicYear: '2024-2025' }),
+    ], YEAR, DEFAULT_LEAVE_SETTINGS)
+
+    expect(balances.find(balance => balance.type === 'VACATION')).toEqual({
+      type: 'VACATION',
+      allowance: 20,
+      used: 5,
+      pending: 3,
+      remaining: 12,
+    })
+  })
+})
+
+describe('calculateTrainingExtension', () => {
+  it('extends training by the days over the board allowance each year', () => {
+    const extension = calculateTrainingExtension([
+      makeLeave({ type: 'PARENTAL', workingDays: 30 }),
+      makeLeave({ type: 'SICK', workingDays: 4 }),
+      makeLeave({ type: 'CONFERENCE', workingDays: 5 }),
+      makeLeave({ type: 'VACATION', workingDays: 10, academicYear: '2024-2025' }),
+    ], DEFAULT_LEAVE_SETTINGS, new Date(2027, 5, 30))
+
+    expect(extension.boardLeaveDays).toBe(44)
+    expect(extension.extensionDays).toBe(4)
+    expect(extension.byYear).toEqual([
+      { academicYear: '2024-2025', days: 10, excessDays: 0 },
+      { academicYear: YEAR, days: 34, excessDays: 4 },
+    ])
+    expect(extension.extendedGraduationDate).toBe(new Date(2027, 6, 6).toISOString())
+  })
+
+  it('does not extend training within the allowance', () => {
+    expect(calculateTrainingExtension([makeLeave({})], DEFAULT_LEAVE_SETTINGS, new Date(2027, 5, 30)).extendedGraduationDate).toBeNull()
+  })
+})
+
+describe('findStaffingShortfalls', () => {
+  it('warns when the leave leaves a rotation below minimum staffing', () => {
+    const start = new Date(2025, 6, 7)
+    const end = new Date(2025, 6, 11)
+
+    expect(findStaffingShortfalls('res-a', start, end, schedules, [icu], [])).toEqual([])
+    expect(findStaffingShortfalls('res-a', start, end, schedules, [icu], [
+      makeLeave({ residentId: 'res-b', startDate: new Date(2025, 6, 10), endDate: new Date(2025, 6, 14) }),
+    ])).toEqual([expect.objectContaining({ type: 'BELOW_MINIMUM_STAFFING', rotationId: 'icu' })])
+  })
+})
+
+describe('assessLeaveRequest', () => {
+  it('accepts leave within balance and staffing', () => {
+    expect(assessment()).toEqual({ error: null, warnings: [] })
+  })
+
+  it('rejects leave overlapping an active request', () => {
+    const existing = makeLeave({ status: 'PENDING', startDate: new Date(2025, 6, 11), endDate: new Date(2025, 6, 15) })
+
+    expect(assessment({ existingRequests: [existing] }).error).toBe('Leave has already been requested for some of these dates')
+  })
+
+  it('rejects vacation beyond the balance but only warns for sick leave', () => {
+    const settings = resolveLeaveSettings({
+      annualAllowanceDays: { ...DEFAULT_LEAVE_SETTINGS.annualAllowanceDays, VACATION: 3, SICK: 3 },
+    })
+
+    expect(assessment({ settings }).error).toMatch('exceeds the 3 remaining for 2025-2026')
+    expect(assessment({ settings, request: { type: 'SICK', startDate: '2025-07-07', endDate: '2025-07-11' } })).toEqual({
+      error: null,
+      warnings: [expect.objectContaining({ type: 'BALANCE_EXCEEDED' })],
+    })
+  })
+
+  it('warns when the year goes over the board eligibility allowance', () => {
+    const existing = makeLeave({ type: 'PARENTAL', workingDays: 28 })
+
+    expect(assessment({ existingRequests: [existing] }).warnings).toEqual([
+      expect.objectContaining({ type: 'TRAINING_EXTENSION' }),
+    ])
+  })
+})
@@ -0,0 +1,381 @@
+/**
+ * EMMA Healthcare Leave
+ *
+ * Rules for resident leave requests: the working days a request uses, each
+ * resident's annual balance per leave type, minimum staffing on the
+ * rotations they would leave, and the cumulative time away that pushes
+ * training past board eligibility and extends the graduation date.
+ */
+
+import { addBusinessDays, eachDayOfInterval, isWeekend } from 'date-fns'
+import { LeaveRequest, LeaveType, LeaveWarning, Rotation, Schedule, SystemSettings } from '@/types/database'
+import { UserRole } from '@/types/user'
+import { getAcademicYear, toDate } from './date-utils'
+
+export type LeaveSettings = SystemSettings['leave']
+
+export type LeaveAction = 'APPROVE' | 'DENY' | 'CANCEL'
+
+export const LEAVE_ACTIONS: LeaveAction[] = ['APPROVE', 'DENY', 'CANCEL']
+
+export const LEAVE_TYPES: LeaveType[] = ['VACATION', 'SICK', 'PARENTAL', 'CONFERENCE']
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick',
+  PARENTAL: 'Parental',
+  CONFERENCE: 'Conference'
+}
+
+export const LEAVE_STATUSES: LeaveRequest['status'][] = ['PENDING', 'APPROVED', 'DENIED', 'CANCELLED']
+
+// Used when an institution has no leave settings
+export const DEFAULT_LEAVE_SETTINGS: LeaveSettings = {
+  annualAllowanceDays: {
+    VACATION: 20,
+    SICK: 10,
+    PARENTAL: 30, // 6 weeks
+    CONFERENCE: 5
+  },
+  boardEligibilityDays: 30 // 6 weeks away per year
+}
+
+// Conference leave is educational time, so it does not count as time away from training
+export const BOARD_COUNTED_LEAVE_TYPES: LeaveType[] = ['VACATION', 'SICK', 'PARENTAL']
+
+// Vacation and conference requests cannot go over the balance; sick and
+// parental leave can, and are flagged for the coordinator instead
+const BALANCE_ENFORCED_TYPES: LeaveType[] = ['VACATION', 'CONFERENCE']
+
+// Leave requests are routed to the program coordinator; admins can also decide them
+const LEAVE_APPROVER_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+
+const MAX_LEAVE_CALENDAR_DAYS = 366
+
+export interface LeaveRequestInput {
+  type: LeaveType
+  startDate: string // ISO date
+  endDate: string // ISO date
+  reason?: string
+}
+
+export interface LeaveBalance {
+  type: LeaveType
+  allowance: number
+  used: number // Approved
+  pending: number
+  remaining: number
+}
+
+export interface TrainingExtension {
+  boardLeaveDays: number
+  extensionDays: number
+  byYear: { academicYear: string; days: number; excessDays: number }[]
+  expectedGraduationDate: string | null
+  extendedGraduationDate: string | null // Null when training is not extended
+}
+
+export interface ResidentLeaveSummary {
+  residentId: string
+  academicYear: string
+  balances: LeaveBalance[]
+  extension: TrainingExtension
+  settings: LeaveSettings
+}
+
+export interface LeaveAssessment {
+  error: string | null // Reason the request cannot be made
+  warnings: LeaveWarning[] // Shown to the coordinator deciding it
+}
+
+export interface LeaveAssessmentInput {
+  residentId: string
+  request: LeaveRequestInput
+  existingRequests: LeaveRequest[] // The resident's own requests
+  schedules: Schedule[] // Published rotation schedules
+  rotations: Rotation[]
+  approvedLeave: LeaveRequest[] // Approved leave across the institution
+  settings: LeaveSettings
+}
+
+export interface LeaveActionError {
+  status: number
+  error: string
+}
+
+interface LeaveActor {
+  id: string
+  role?: UserRole
+  permissions?: { canEditSchedules?: boolean }
+}
+
+type CountedLeave = Pick<LeaveRequest, 'type' | 'status' | 'workingDays' | 'academicYear'>
+
+/**
+ * Whether a user may see the leave queue and approve or deny requests
+ */
+export function canDecideLeave(user: { role?: UserRole; permissions?: { canEditSchedules?: boolean } }): boolean {
+  return !!user.role && LEAVE_APPROVER_ROLES.includes(user.role) && !!user.permissions?.canEditSchedules
+}
+
+/**
+ * Check whether an actor may approve, deny or cancel a leave request.
+ * Returns null when allowed, otherwise the HTTP status and reason.
+ */
+export function checkLeaveAction(
+  request: Pick<LeaveRequest, 'status' | 'residentId' | 'startDate'>,
+  action: LeaveAction,
+  actor: LeaveActor,
+  now: Date = new Date()
+): LeaveActionError | null {
+  const isApprover = canDecideLeave(actor)
+
+  if (action === 'CANCEL') {
+    if (request.residentId !== actor.id && !isApprover) {
+      return { status: 403, error: 'You can only cancel your own leave requests' }
+    }
+    if (request.status === 'PENDING') return null
+
+    // Residents can withdraw approved leave until it starts; coordinators at any time
+    const startDate = toDate(request.startDate)
+    if (request.status === 'APPROVED' && (isApprover || (startDate && startDate > now))) return null
+
+    return {
+      status: 409,
+      error: request.status === 'APPROVED'
+        ? 'Leave that has started can only be cancelled by a coordinator'
+        : `Cannot cancel leave that is ${request.status}`
+    }
+  }
+
+  if (!isApprover) {
+    return { status: 403, error: 'Only program coordinators can approve or deny leave' }
+  }
+
+  if (request.residentId === actor.id) {
+    return { status: 403, error: 'You cannot decide your own leave request' }
+  }
+
+  if (request.status !== 'PENDING') {
+    return { status: 409, error: `Cannot ${action.toLowerCase()} leave that is ${request.status}` }
+  }
+
+  return null
+}
+
+/**
+ * Fill in any settings missing from a stored document with the defaults
+ */
+export function resolveLeaveSettings(settings?: Partial<LeaveSettings> | null): LeaveSettings {
+  return {
+    ...DEFAULT_LEAVE_SETTINGS,
+    ...settings,
+    annualAllowanceDays: { ...DEFAULT_LEAVE_SETTINGS.annualAllowanceDays, ...settings?.annualAllowanceDays }
+  }
+}
+
+/**
+ * Weekdays between two dates, inclusive
+ */
+export function countWorkingDays(startDate: Date, endDate: Date): number {
+  if (endDate < startDate) return 0
+  return eachDayOfInterval({ start: startDate, end: endDate }).filter(day => !isWeekend(day)).length
+}
+
+/**
+ * Validate a leave request from the Leave screen
+ */
+export function validateLeaveRequest(data: Partial<LeaveRequestInput>): string | null {
+  if (!data.type || !LEAVE_TYPES.includes(data.type)) {
+    return `Invalid leave type. Expected one of: ${LEAVE_TYPES.join(', ')}`
+  }
+
+  const startDate = toDate(data.startDate)
+  const endDate = toDate(data.endDate)
+  if (!startDate || !endDate) {
+    return 'Start and end dates must be valid dates'
+  }
+
+  if (endDate < startDate) {
+    return 'End date must be on or after the start date'
+  }
+
+  if ((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000) >= MAX_LEAVE_CALENDAR_DAYS) {
+    return 'Leave requests cannot be longer than a year'
+  }
+
+  if (countWorkingDays(startDate, endDate) === 0) {
+    return 'Leave must include at least one working day'
+  }
+
+  if (data.reason !== undefined && (typeof data.reason !== 'string' || data.reason.length > 1000)) {
+    return 'Reason must be 1000 characters or fewer'
+  }
+
+  return null
+}
+
+/**
+ * A resident's balance per leave type for an academic year. Pending
+ * requests are held against the balance until decided.
+ */
+export function getLeaveBalances(requests: CountedLeave[], academicYear: string, settings: LeaveSettings): LeaveBalance[] {
+  return LEAVE_TYPES.map(type => {
+    const sameType = requests.filter(request => request.type === type && request.academicYear === academicYear)
+    const used = sameType
+      .filter(request => request.status === 'APPROVED')
+      .reduce((total, request) => total + request.workingDays, 0)
+    const pending = sameType
+      .filter(request => request.status === 'PENDING')
+      .reduce((total, request) => total + request.workingDays, 0)
+    const allowance = settings.annualAllowanceDays[type]
+
+    return { type, allowance, used, pending, remaining: Math.max(allowance - used - pending, 0) }
+  })
+}
+
+/**
+ * Time away that counts against board eligibility, and how far it extends
+ * training: each academic year's days beyond the allowance are made up
+ * after the expected graduation date
+ */
+export function calculateTrainingExtension(
+  requests: CountedLeave[],
+  settings: LeaveSettings,
+  expectedGraduationDate?: Date | null
+): TrainingExtension {
+  const daysByYear = new Map<string, number>()
+  requests
+    .filter(request => request.status === 'APPROVED' && BOARD_COUNTED_LEAVE_TYPES.includes(request.type))
+    .forEach(request => {
+      daysByYear.set(request.academicYear, (daysByYear.get(request.academicYear) ?? 0) + request.workingDays)
+    })
+
+  const byYear = Array.from(daysByYear.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([academicYear, days]) => ({
+      academicYear,
+      days,
+      excessDays: Math.max(days - settings.boardEligibilityDays, 0)
+    }))
+
+  const extensionDays = byYear.reduce((total, year) => total + year.excessDays, 0)
+
+  return {
+    boardLeaveDays: byYear.reduce((total, year) => total + year.days, 0),
+    extensionDays,
+    byYear,
+    expectedGraduationDate: expectedGraduationDate?.toISOString() ?? null,
+    extendedGraduationDate: expectedGraduationDate && extensionDays > 0
+      ? addBusinessDays(expectedGraduationDate, extensionDays).toISOString()
+      : null
+  }
+}
+
+/**
+ * Rotations the resident is on during the leave that would drop below
+ * their minimum staffing. Residents already on approved leave for any part
+ * of the window are not counted as cover.
+ */
+export function findStaffingShortfalls(
+  residentId: string,
+  startDate: Date,
+  endDate: Date,
+  schedules: Schedule[],
+  rotations: Rotation[],
+  approvedLeave: LeaveRequest[]
+): LeaveWarning[] {
+  const overlaps = (start: Date | null, end: Date | null): boolean =>
+    !!start && !!end && start <= endDate && end >= startDate
+
+  const onLeave = new Set(approvedLeave
+    .filter(leave => leave.residentId !== residentId && overlaps(toDate(leave.startDate), toDate(leave.endDate)))
+    .map(leave => leave.residentId))
+
+  // Residents assigned to each rotation during the window
+  const assigned = new Map<string, Set<string>>()
+  schedules
+    .filter(schedule => schedule.status === 'PUBLISHED' && schedule.type === 'ROTATION')
+    .forEach(schedule => {
+      schedule.assignments.forEach(assignment => {
+        if (!assignment.rotationId) return
+        if (!overlaps(toDate(assignment.startDate ?? schedule.startDate), toDate(assignment.endDate ?? schedule.endDate))) return
+
+        const residents = assigned.get(assignment.rotationId) ?? new Set<string>()
+        residents.add(assignment.residentId)
+        assigned.set(assignment.rotationId, residents)
+      })
+    })
+
+  const warnings: LeaveWarning[] = []
+  rotations.forEach(rotation => {
+    const residents = assigned.get(rotation.id)
+    if (!rotation.minimumStaffing || !residents?.has(residentId)) return
+
+    const cover = Array.from(residents).filter(id => id !== residentId && !onLeave.has(id)).length
+    if (cover < rotation.minimumStaffing) {
+      warnings.push({
+        type: 'BELOW_MINIMUM_STAFFING',
+        rotationId: rotation.id,
+        message: `${rotation.name} would have ${cover} resident${cover === 1 ? '' : 's'} during this leave; minimum staffing is ${rotation.minimumStaffing}`
+      })
+    }
+  })
+
+  return warnings
+}
+
+/**
+ * Check a new request against the resident's other requests, their balance,
+ * rotation staffing and the board eligibility allowance
+ */
+export function assessLeaveRequest(input: LeaveAssessmentInput): LeaveAssessment {
+  const { request, settings } = input
+  const startDate = toDate(request.startDate)!
+  const endDate = toDate(request.endDate)!
+  const workingDays = countWorkingDays(startDate, endDate)
+  const academicYear = getAcademicYear(startDate)
+  const active = input.existingRequests.filter(existing => existing.status === 'PENDING' || existing.status === 'APPROVED')
+
+  const overlapping = active.find(existing => {
+    const existingStart = toDate(existing.startDate)
+    const existingEnd = toDate(existing.endDate)
+    return !!existingStart && !!existingEnd && existingStart <= endDate && existingEnd >= startDate
+  })
+  if (overlapping) {
+    return { error: 'Leave has already been requested for some of these dates', warnings: [] }
+  }
+
+  const warnings: LeaveWarning[] = []
+  const balance = getLeaveBalances(active, academicYear, settings).find(entry => entry.type === request.type)!
+  if (workingDays > balance.remaining) {
+    const message = `${LEAVE_TYPE_LABELS[request.type]} leave of ${workingDays} working days exceeds the ${balance.remaining} remaining for ${academicYear}`
+    if (BALANCE_ENFORCED_TYPES.includes(request.type)) {
+      return { error: message, warnings: [] }
+    }
+    warnings.push({ type: 'BALANCE_EXCEEDED', message })
+  }
+
+  warnings.push(...findStaffingShortfalls(
+    input.residentId,
+    startDate,
+    endDate,
+    input.schedules,
+    input.rotations,
+    input.approvedLeave
+  ))
+
+  if (BOARD_COUNTED_LEAVE_TYPES.includes(request.type)) {
+    const yearDays = active
+      .filter(existing => existing.academicYear === academicYear && BOARD_COUNTED_LEAVE_TYPES.includes(existing.type))
+      .reduce((total, existing) => total + existing.workingDays, workingDays)
+    if (yearDays > settings.boardEligibilityDays) {
+      warnings.push({
+        type: 'TRAINING_EXTENSION',
+        message: `Time away in ${academicYear} would reach ${yearDays} working days, over the ${settings.boardEligibilityDays}-day board eligibility allowance; training would be extended by ${yearDays - settings.boardEligibilityDays} working days`
+      })
+    }
+  }
+
+  return { error: null, warnings }
+}
@@ -0,0 +1,45 @@
+/**
+ * EMMA Healthcare Multi-Factor Authentication
+ *
+ * Which accounts must use TOTP multi-factor authentication, and the shapes
+ * shared by the MFA API routes, the sign-in form and the enrolment dialog.
+ */
+
+import { ROLE_PERMISSIONS, UserPermissions, UserRole } from '@/types/user'
+import { AuthenticationSettings } from './password-policy'
+
+// Roles that must enrol when the institution turns on requireMFA
+export const MFA_REQUIRED_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+
+// Errors passed from the NextAuth authorize callback to the sign-in form
+export const MFA_REQUIRED_ERROR = 'MfaRequired'
+export const MFA_INVALID_ERROR = 'MfaInvalid'
+
+export const MFA_ISSUER = 'EMMA Healthcare'
+
+// Session permissions until a user who must enrol has done so - every API route is closed to them
+export const MFA_ENROLLMENT_PERMISSIONS = Object.fromEntries(
+  Object.keys(ROLE_PERMISSIONS.ADMIN).map(permission => [permission, false])
+) as unknown as UserPermissions
+
+export interface MfaStatus {
+  enabled: boolean
+  required: boolean // Enforced for this user's role by the institution
+  enrolledAt?: string
+  recoveryCodesRemaining: number
+}
+
+export interface MfaEnrollment {
+  secret: string // For manual entry when the QR code cannot be scanned
+  otpauthUrl: string
+  qrCodeDataUrl: string
+}
+
+export type MfaMethod = 'TOTP' | 'RECOVERY_CODE'
+
+/**
+ * Whether the institution requires MFA for a role
+ */
+export function isMfaRequired(role: UserRole, settings: Pick<AuthenticationSettings, 'requireMFA'>): boolean {
+  return settings.requireMFA && MFA_REQUIRED_ROLES.includes(role)
+}
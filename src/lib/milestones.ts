@@ -0,0 +1,478 @@
+/**
+ * EMMA Healthcare ACGME Milestones
+ *
+ * Default milestone catalogue per department, roll-up of evaluation
+ * milestone levels into sub-competency levels, and the semi-annual Clinical
+ * Competency Committee (CCC) report with progression flags.
+ */
+
+import {
+  CoreCompetency,
+  Evaluation,
+  MilestoneSubCompetency,
+  ResidentProfile,
+} from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+import { getAcademicYearRange, toDate } from './date-utils'
+
+export const CORE_COMPETENCY_LABELS: Record<CoreCompetency, string> = {
+  PC: 'Patient Care',
+  MK: 'Medical Knowledge',
+  SBP: 'Systems-Based Practice',
+  PBLI: 'Practice-Based Learning and Improvement',
+  PROF: 'Professionalism',
+  ICS: 'Interpersonal and Communication Skills',
+}
+
+export const MILESTONE_LEVEL_RANGE = { min: 1, max: 5 }
+
+// Level 4 is the ACGME graduation target
+const GRADUATION_TARGET_LEVEL = 4
+
+// How far below the expected level a sub-competency may sit before it is flagged
+const EXPECTED_LEVEL_TOLERANCE = 0.5
+
+// Trajectories cover the report period and the three before it (two academic years)
+const TRAJECTORY_PERIODS = 4
+
+type MilestoneRecord = NonNullable<ResidentProfile['academicStatus']['milestones']>[number]
+type MilestoneStatus = MilestoneRecord['status']
+
+const sub = (id: string, competency: CoreCompetency, name: string): MilestoneSubCompetency => ({ id, competency, name })
+
+// Sub-competencies shared by every specialty (ACGME harmonized milestones)
+const HARMONIZED_SUB_COMPETENCIES: MilestoneSubCompetency[] = [
+  sub('SBP1', 'SBP', 'Patient Safety and Quality Improvement'),
+  sub('SBP2', 'SBP', 'System Navigation for Patient-Centered Care'),
+  sub('SBP3', 'SBP', 'Physician Role in Health Care Systems'),
+  sub('PBLI1', 'PBLI', 'Evidence-Based and Informed Practice'),
+  sub('PBLI2', 'PBLI', 'Reflective Practice and Commitment to Personal Growth'),
+  sub('PROF1', 'PROF', 'Professional Behavior and Ethical Principles'),
+  sub('PROF2', 'PROF', 'Accountability/Conscientiousness'),
+  sub('PROF3', 'PROF', 'Self-Awareness and Help-Seeking'),
+  sub('ICS1', 'ICS', 'Patient- and Family-Centered Communication'),
+  sub('ICS2', 'ICS', 'Interprofessional and Team Communication'),
+  sub('ICS3', 'ICS', 'Communication within Health Care Systems'),
+]
+
+// Specialty-specific Patient Care and Medical Knowledge sub-competencies
+const SPECIALTY_SUB_COMPETENCIES: Partial<Record<Department, MilestoneSubCompetency[]>> = {
+  EMERGENCY_MEDICINE: [
+    sub('PC1', 'PC', 'Emergency Stabilization'),
+    sub('PC2', 'PC', 'Performance of Focused History and Physical Exam'),
+    sub('PC3', 'PC', 'Diagnostic Studies'),
+    sub('PC4', 'PC', 'Diagnosis'),
+    sub('PC5', 'PC', 'Pharmacotherapy'),
+    sub('PC6', 'PC', 'Reassessment and Disposition'),
+    sub('PC7', 'PC', 'Multitasking (Task-Switching)'),
+    sub('PC8', 'PC', 'General Approach to Procedures'),
+    sub('MK1', 'MK', 'Scientific Knowledge'),
+    sub('MK2', 'MK', 'Treatment and Clinical Reasoning'),
+  ],
+  INTERNAL_MEDICINE: [
+    sub('PC1', 'PC', 'History'),
+    sub('PC2', 'PC', 'Physical Examination'),
+    sub('PC3', 'PC', 'Clinical Reasoning'),
+    sub('PC4', 'PC', 'Patient Management - Inpatient'),
+    sub('PC5', 'PC', 'Patient Management - Outpatient'),
+    sub('PC6', 'PC', 'Digital Health'),
+    sub('MK1', 'MK', 'Applied Foundational Sciences'),
+    sub('MK2', 'MK', 'Therapeutic Knowledge'),
+    sub('MK3', 'MK', 'Knowledge of Diagnostic Testing'),
+  ],
+  SURGERY: [
+    sub('PC1', 'PC', 'Evaluation and Management'),
+    sub('PC2', 'PC', 'Patient Management - Operative'),
+    sub('PC3', 'PC', 'Intra-Operative Patient Care'),
+    sub('PC4', 'PC', 'Post-Operative Patient Care'),
+    sub('MK1', 'MK', 'Pathophysiology and Treatment'),
+    sub('MK2', 'MK', 'Clinical Reasoning'),
+  ],
+  PEDIATRICS: [
+    sub('PC1', 'PC', 'History'),
+    sub('PC2', 'PC', 'Physical Examination'),
+    sub('PC3', 'PC', 'Organize and Prioritize Patient Care'),
+    sub('PC4', 'PC', 'Transfer of Care'),
+    sub('PC5', 'PC', 'Make Informed Diagnostic and Therapeutic Decisions'),
+    sub('MK1', 'MK', 'Clinical Reasoning'),
+  ],
+  FAMILY_MEDICINE: [
+    sub('PC1', 'PC', 'Care of the Acutely Ill Patient'),
+    sub('PC2', 'PC', 'Care of Patients with Chronic Conditions'),
+    sub('PC3', 'PC', 'Health Promotion and Wellness'),
+    sub('PC4', 'PC', 'Ongoing Care of Patients with Undifferentiated Signs, Symptoms, or Health Concerns'),
+    sub('PC5', 'PC', 'Management of Procedural Care'),
+    sub('MK1', 'MK', 'Demonstrates Medical Knowledge of Sufficient Breadth and Depth'),
+    sub('MK2', 'MK', 'Critical Thinking and Decision Making'),
+  ],
+}
+
+// Used for departments without specialty-specific sub-competencies
+const GENERIC_SUB_COMPETENCIES: MilestoneSubCompetency[] = [
+  sub('PC1', 'PC', 'Patient Evaluation'),
+  sub('PC2', 'PC', 'Patient Management'),
+  sub('PC3', 'PC', 'Procedures'),
+  sub('MK1', 'MK', 'Clinical Knowledge'),
+  sub('MK2', 'MK', 'Clinical Reasoning'),
+]
+
+/**
+ * Built-in milestone sub-competencies for a department, used until the
+ * institution saves its own milestone set
+ */
+export function getDefaultSubCompetencies(department?: Department): MilestoneSubCompetency[] {
+  const specialty = (department && SPECIALTY_SUB_COMPETENCIES[department]) || GENERIC_SUB_COMPETENCIES
+  return [...specialty, ...HARMONIZED_SUB_COMPETENCIES]
+}
+
+/**
+ * Validate a custom milestone set before it is saved
+ */
+export function validateMilestoneSet(data: { name?: string; subCompetencies?: MilestoneSubCompetency[] }): string | null {
+  if (!data.name?.trim() || !data.subCompetencies) {
+    return 'Missing required fields: name, subCompetencies'
+  }
+
+  if (data.subCompetencies.length === 0) {
+    return 'Milestone set must have at least one sub-competency'
+  }
+
+  const ids = new Set<string>()
+  for (const subCompetency of data.subCompetencies) {
+    if (!subCompetency.id?.trim() || !subCompetency.name?.trim()) {
+      return 'Each sub-competency must have an id and name'
+    }
+
+    if (!(subCompetency.competency in CORE_COMPETENCY_LABELS)) {
+      return `Invalid competency for ${subCompetency.id}. Expected one of: ${Object.keys(CORE_COMPETENCY_LABELS).join(', ')}`
+    }
+
+    if (ids.has(subCompetency.id)) {
+      return `Duplicate sub-competency id: ${subCompetency.id}`
+    }
+
+    if (subCompetency.levelDescriptions && subCompetency.levelDescriptions.length !== MILESTONE_LEVEL_RANGE.max) {
+      return `Sub-competency ${subCompetency.id} must describe all ${MILESTONE_LEVEL_RANGE.max} levels`
+    }
+
+    ids.add(subCompetency.id)
+  }
+
+  return null
+}
+
+/**
+ * Map a milestone level to the status stored on the resident profile
+ */
+export function levelToMilestoneStatus(level: number): MilestoneStatus {
+  if (level >= 5) return 'ADVANCED'
+  if (level >= 3) return 'PROFICIENT'
+  return 'DEVELOPING'
+}
+
+// Milestone levels are reported in half-level steps
+const roundToHalf = (value: number): number => Math.round(value * 2) / 2
+
+/**
+ * Resolve the sub-competency a rating reports on: its explicit milestoneId,
+ * otherwise a subcategory matching a sub-competency id or name
+ */
+function resolveMilestoneId(
+  rating: Evaluation['ratings'][number],
+  subCompetencies: MilestoneSubCompetency[]
+): string | null {
+  if (rating.milestoneId) {
+    return subCompetencies.some(subCompetency => subCompetency.id === rating.milestoneId) ? rating.milestoneId : null
+  }
+
+  const subcategory = rating.subcategory?.trim().toLowerCase()
+  if (!subcategory) return null
+
+  const match = subCompetencies.find(subCompetency =>
+    subCompetency.id.toLowerCase() === subcategory || subCompetency.name.toLowerCase() === subcategory
+  )
+  return match?.id ?? null
+}
+
+/**
+ * Average the milestone levels in a set of ratings per sub-competency.
+ * Ratings without a milestone level or a matching sub-competency are ignored.
+ */
+export function rollUpMilestoneLevels(
+  ratings: Evaluation['ratings'],
+  subCompetencies: MilestoneSubCompetency[]
+): Map<string, number> {
+  const levels = new Map<string, number[]>()
+
+  ratings.forEach(rating => {
+    if (rating.milestoneLevel === undefined || rating.milestoneLevel === null) return
+    const milestoneId = resolveMilestoneId(rating, subCompetencies)
+    if (!milestoneId) return
+    levels.set(milestoneId, [...(levels.get(milestoneId) ?? []), rating.milestoneLevel])
+  })
+
+  return new Map(
+    Array.from(levels.entries()).map(([milestoneId, values]) => [
+      milestoneId,
+      roundToHalf(values.reduce((sum, value) => sum + value, 0) / values.length),
+    ])
+  )
+}
+
+/**
+ * Merge an approved evaluation's rolled-up levels into a resident's
+ * milestone record. A sub-competency's entry is only replaced by an
+ * evaluation assessed on or after it, so an older evaluation approved late
+ * leaves newer levels in place. Returns the merged record and the
+ * sub-competencies that changed.
+ */
+export function mergeMilestoneLevels(
+  milestones: MilestoneRecord[],
+  levels: Map<string, number>,
+  assessment: Pick<MilestoneRecord, 'evaluationId' | 'assessmentDate' | 'assessorId'>
+): { milestones: MilestoneRecord[]; updatedIds: string[] } {
+  const assessedAt = toDate(assessment.assessmentDate)?.getTime() ?? 0
+  const existing = new Map(milestones.map(milestone => [milestone.milestoneId, milestone]))
+
+  const updatedIds = Array.from(levels.keys()).filter(milestoneId => {
+    const current = existing.get(milestoneId)
+    return !current || (toDate(current.assessmentDate)?.getTime() ?? 0) <= assessedAt
+  })
+
+  const merged = milestones.filter(milestone => !updatedIds.includes(milestone.milestoneId))
+  levels.forEach((level, milestoneId) => {
+    if (!updatedIds.includes(milestoneId)) return
+    merged.push({
+      milestoneId,
+      status: levelToMilestoneStatus(level),
+      level,
+      ...assessment
+    })
+  })
+
+  return { milestones: merged, updatedIds }
+}
+
+// ===== CCC REPORT =====
+
+export type CccHalf = 'MID' | 'END'
+
+export interface CccPeriod {
+  key: string // e.g. "2025-2026-MID"
+  academicYear: string
+  half: CccHalf
+  label: string
+  start: Date
+  end: Date
+}
+
+/**
+ * Resolve a semi-annual CCC review period: MID covers July-December and END
+ * covers January-June of the academic year
+ */
+export function getCccPeriod(academicYear: string, half: CccHalf): CccPeriod | null {
+  const range = getAcademicYearRange(academicYear)
+  if (!range) return null
+
+  const midYearEnd = new Date(range.startDate.getFullYear(), 11, 31, 23, 59, 59, 999)
+  const yearEndStart = new Date(range.endDate.getFullYear(), 0, 1)
+
+  return {
+    key: `${academicYear}-${half}`,
+    academicYear,
+    half,
+    label: `${academicYear} ${half === 'MID' ? 'Mid-Year' : 'Year-End'}`,
+    start: half === 'MID' ? range.startDate : yearEndStart,
+    end: half === 'MID' ? midYearEnd : range.endDate,
+  }
+}
+
+/**
+ * The CCC period immediately before the given one
+ */
+export function getPreviousCccPeriod(period: CccPeriod): CccPeriod {
+  if (period.half === 'END') {
+    return getCccPeriod(period.academicYear, 'MID')!
+  }
+
+  const startYear = period.start.getFullYear() - 1
+  return getCccPeriod(`${startYear}-${startYear + 1}`, 'END')!
+}
+
+/**
+ * Level a resident is expected to have reached by the end of a review period:
+ * half a level per period, reaching the graduation target of Level 4 at the
+ * end of PGY-3
+ */
+export function getExpectedMilestoneLevel(pgyLevel: PGYLevel, half: CccHalf): number {
+  return Math.min(pgyLevel + (half === 'END' ? 1 : 0.5), GRADUATION_TARGET_LEVEL)
+}
+
+export type MilestoneProgressFlag = 'BELOW_EXPECTED' | 'REGRESSION' | 'NO_PROGRESS' | 'NOT_ASSESSED'
+
+export interface MilestoneTrajectoryPoint {
+  periodKey: string
+  label: string
+  level: number | null
+}
+
+export interface SubCompetencyProgress {
+  milestoneId: string
+  competency: CoreCompetency
+  name: string
+  trajectory: MilestoneTrajectoryPoint[] // Oldest period first
+  currentLevel: number | null
+  previousLevel: number | null
+  flags: MilestoneProgressFlag[]
+}
+
+export interface ResidentMilestoneReport {
+  residentId: string
+  name: string
+  department?: Department
+  pgyLevel?: PGYLevel
+  expectedLevel: number | null
+  evaluationCount: number // Evaluations with milestone levels in the report period
+  subCompetencies: SubCompetencyProgress[]
+  notProgressing: boolean
+  flagCounts: Record<MilestoneProgressFlag, number>
+}
+
+export interface CccReport {
+  academicYear: string
+  half: CccHalf
+  periodLabel: string
+  periodStart: string
+  periodEnd: string
+  generatedAt: string
+  residentCount: number
+  notProgressingCount: number
+  residents: ResidentMilestoneReport[]
+}
+
+export interface CccReportInput {
+  period: CccPeriod
+  residents: { id: string; name: string; department?: Department; pgyLevel?: PGYLevel }[]
+  evaluations: Evaluation[] // Approved and archived evaluations
+  subCompetenciesByDepartment: Partial<Record<Department, MilestoneSubCompetency[]>> // Custom sets; others use the defaults
+}
+
+/**
+ * Build the CCC report: each resident's level per sub-competency for the
+ * report period and the periods before it, flagged when a level falls below
+ * what is expected for their PGY level or drops from the previous period
+ */
+export function buildCccReport(input: CccReportInput): CccReport {
+  const { period, residents, evaluations, subCompetenciesByDepartment } = input
+
+  const periods: CccPeriod[] = [period]
+  while (periods.length < TRAJECTORY_PERIODS) {
+    periods.unshift(getPreviousCccPeriod(periods[0]))
+  }
+
+  const periodFor = (date: Date | null): CccPeriod | undefined =>
+    date ? periods.find(candidate => date >= candidate.start && date <= candidate.end) : undefined
+
+  const reports: ResidentMilestoneReport[] = residents.map(resident => {
+    const subCompetencies = (resident.department && subCompetenciesByDepartment[resident.department])
+      || getDefaultSubCompetencies(resident.department)
+    const residentEvaluations = evaluations.filter(evaluation => evaluation.evaluateeId === resident.id)
+
+    // Ratings from every evaluation whose period ends inside each review period
+    const ratingsByPeriod = new Map<string, Evaluation['ratings']>()
+    let evaluationCount = 0
+    residentEvaluations.forEach(evaluation => {
+      const evaluationPeriod = periodFor(toDate(evaluation.evaluationPeriod.endDate))
+      if (!evaluationPeriod) return
+
+      const milestoneRatings = evaluation.ratings.filter(rating => rating.milestoneLevel !== undefined)
+      if (milestoneRatings.length === 0) return
+
+      if (evaluationPeriod.key === period.key) evaluationCount += 1
+      ratingsByPeriod.set(evaluationPeriod.key, [...(ratingsByPeriod.get(evaluationPeriod.key) ?? []), ...milestoneRatings])
+    })
+
+    const levelsByPeriod = new Map(
+      periods.map(candidate => [candidate.key, rollUpMilestoneLevels(ratingsByPeriod.get(candidate.key) ?? [], subCompetencies)])
+    )
+
+    const expectedLevel = resident.pgyLevel ? getExpectedMilestoneLevel(resident.pgyLevel, period.half) : null
+
+    const progress: SubCompetencyProgress[] = subCompetencies.map(subCompetency => {
+      const trajectory = periods.map(candidate => ({
+        periodKey: candidate.key,
+        label: candidate.label,
+        level: levelsByPeriod.get(candidate.key)?.get(subCompetency.id) ?? null,
+      }))
+
+      const currentLevel = trajectory[trajectory.length - 1].level
+      // Most recent earlier period with an assessment
+      const previousLevel = trajectory
+        .slice(0, -1)
+        .reverse()
+        .find(point => point.level !== null)?.level ?? null
+
+      const flags: MilestoneProgressFlag[] = []
+      if (currentLevel === null) {
+        flags.push('NOT_ASSESSED')
+      } else {
+        if (expectedLevel !== null && currentLevel < expectedLevel - EXPECTED_LEVEL_TOLERANCE) {
+          flags.push('BELOW_EXPECTED')
+        }
+        if (previousLevel !== null && currentLevel < previousLevel) {
+          flags.push('REGRESSION')
+        } else if (previousLevel !== null && currentLevel === previousLevel && currentLevel < GRADUATION_TARGET_LEVEL) {
+          flags.push('NO_PROGRESS')
+        }
+      }
+
+      return {
+        milestoneId: subCompetency.id,
+        competency: subCompetency.competency,
+        name: subCompetency.name,
+        trajectory,
+        currentLevel,
+        previousLevel,
+        flags,
+      }
+    })
+
+    const flagCounts: Record<MilestoneProgressFlag, number> = {
+      BELOW_EXPECTED: 0,
+      REGRESSION: 0,
+      NO_PROGRESS: 0,
+      NOT_ASSESSED: 0,
+    }
+    progress.forEach(item => item.flags.forEach(flag => {
+      flagCounts[flag] += 1
+    }))
+
+    return {
+      residentId: resident.id,
+      name: resident.name,
+      department: resident.department,
+      pgyLevel: resident.pgyLevel,
+      expectedLevel,
+      evaluationCount,
+      subCompetencies: progress,
+      notProgressing: flagCounts.BELOW_EXPECTED > 0 || flagCounts.REGRESSION > 0,
+      flagCounts,
+    }
+  })
+
+  return {
+    academicYear: period.academicYear,
+    half: period.half,
+    periodLabel: period.label,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    generatedAt: new Date().toISOString(),
+    residentCount: reports.length,
+    notProgressingCount: reports.filter(report => report.notProgressing).length,
+    residents: reports.sort((a, b) =>
+      Number(b.notProgressing) - Number(a.notProgressing) ||
+      (b.flagCounts.BELOW_EXPECTED + b.flagCounts.REGRESSION) - (a.flagCounts.BELOW_EXPECTED + a.flagCounts.REGRESSION) ||
+      a.name.localeCompare(b.name)
+    ),
+  }
+}
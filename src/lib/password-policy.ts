@@ -0,0 +1,106 @@
+/**
+ * EMMA Healthcare Password Policy
+ *
+ * Password complexity and account lockout rules from an institution's
+ * SystemSettings. Shared by registration, password reset and sign-in.
+ */
+
+import { ExtendedUser, SystemSettings } from '@/types/database'
+import { toDate } from './date-utils'
+
+export type AuthenticationSettings = SystemSettings['authentication']
+
+export type PasswordPolicy = AuthenticationSettings['passwordPolicy']
+
+// Used when an institution has no system settings document
+export const DEFAULT_AUTHENTICATION_SETTINGS: AuthenticationSettings = {
+  sessionTimeout: 480, // 8 hours
+  maxLoginAttempts: 5,
+  lockoutDuration: 30, // 30 minutes
+  requireMFA: false,
+  passwordPolicy: {
+    minLength: 8,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumbers: true,
+    requireSpecialChars: false,
+    preventReuse: true,
+    reuseHistory: 3
+  }
+}
+
+// Errors passed from the NextAuth authorize callback to the sign-in form
+export const ACCOUNT_LOCKED_ERROR = 'AccountLocked'
+export const PASSWORD_RESET_REQUIRED_ERROR = 'PasswordResetRequired'
+export const PASSWORD_NOT_RECORDED_ERROR = 'PasswordNotRecorded'
+
+// Firebase sign-in errors that count towards an account lockout
+export const CREDENTIAL_ERROR_CODES = ['auth/wrong-password', 'auth/invalid-credential', 'auth/invalid-login-credentials']
+
+/**
+ * Fill in any settings missing from a stored document with the defaults
+ */
+export function resolveAuthenticationSettings(
+  settings?: Partial<AuthenticationSettings> | null
+): AuthenticationSettings {
+  return {
+    ...DEFAULT_AUTHENTICATION_SETTINGS,
+    ...settings,
+    passwordPolicy: {
+      ...DEFAULT_AUTHENTICATION_SETTINGS.passwordPolicy,
+      ...settings?.passwordPolicy
+    }
+  }
+}
+
+/**
+ * Check a password against the complexity rules. Returns an error message
+ * listing every unmet requirement, or null when the password is acceptable.
+ */
+export function validatePassword(password: string, policy: PasswordPolicy): string | null {
+  const missing: string[] = []
+
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) missing.push('one uppercase letter')
+  if (policy.requireLowercase && !/[a-z]/.test(password)) missing.push('one lowercase letter')
+  if (policy.requireNumbers && !/\d/.test(password)) missing.push('one number')
+  if (policy.requireSpecialChars && !/[^A-Za-z0-9]/.test(password)) missing.push('one special character')
+
+  if (password.length < policy.minLength) {
+    return missing.length > 0
+      ? `Password must be at least ${policy.minLength} characters long and contain at least ${missing.join(', ')}`
+      : `Password must be at least ${policy.minLength} characters long`
+  }
+
+  return missing.length > 0 ? `Password must contain at least ${missing.join(', ')}` : null
+}
+
+/**
+ * Short description of the complexity rules for form helper text
+ */
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const requirements = [
+    policy.requireUppercase && 'uppercase',
+    policy.requireLowercase && 'lowercase',
+    policy.requireNumbers && 'a number',
+    policy.requireSpecialChars && 'a special character',
+  ].filter(Boolean)
+
+  return requirements.length > 0
+    ? `At least ${policy.minLength} characters, including ${requirements.join(', ')}`
+    : `At least ${policy.minLength} characters`
+}
+
+/**
+ * When a lockout that starts now ends
+ */
+export function getLockoutExpiry(settings: AuthenticationSettings, now: Date = new Date()): Date {
+  return new Date(now.getTime() + settings.lockoutDuration * 60 * 1000)
+}
+
+/**
+ * Whether an account is currently locked out after failed sign-in attempts
+ */
+export function isAccountLocked(user: Pick<ExtendedUser, 'security'>, now: Date = new Date()): boolean {
+  const lockedUntil = toDate(user.security?.lockedUntil)
+  return !!lockedUntil && lockedUntil > now
+}
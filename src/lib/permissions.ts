@@ -0,0 +1,237 @@
+/**
+ * EMMA Healthcare Permissions
+ *
+ * Effective permissions for a user: the ROLE_PERMISSIONS defaults for their
+ * role, per-user overrides, and grants that only apply to users and residents
+ * in particular departments. Shared by the NextAuth session, the API routes
+ * and the Users console; firestore.rules mirrors the same checks from the
+ * Firebase custom claims.
+ */
+
+import {
+  Department,
+  DepartmentPermissions,
+  PermissionKey,
+  ROLE_PERMISSIONS,
+  UserPermissions,
+  UserRole
+} from '@/types/user'
+import { RESIDENT_DEPARTMENTS } from './resident-validation'
+
+export const PERMISSION_LABELS: Record<PermissionKey, string> = {
+  canViewAllUsers: 'View users',
+  canCreateUsers: 'Create users',
+  canEditUsers: 'Manage users',
+  canDeleteUsers: 'Delete users',
+  canViewAllResidents: 'View residents',
+  canEditResidents: 'Edit residents',
+  canViewAllSchedules: 'View schedules',
+  canCreateSchedules: 'Create schedules',
+  canEditSchedules: 'Edit schedules',
+  canDeleteSchedules: 'Delete schedules',
+  canViewAllEvaluations: 'View evaluations',
+  canCreateEvaluations: 'Create evaluations',
+  canEditEvaluations: 'Edit evaluations',
+  canAccessReports: 'Access reports',
+  canExportData: 'Export data',
+  canViewAuditLogs: 'View audit logs',
+  canManageSystem: 'Manage system'
+}
+
+export const PERMISSION_KEYS = Object.keys(PERMISSION_LABELS) as PermissionKey[]
+
+// System management comes only with the administrator role, so the
+// last-administrator guard on role changes and suspensions still holds
+export const OVERRIDABLE_PERMISSIONS: PermissionKey[] = PERMISSION_KEYS.filter(permission => permission !== 'canManageSystem')
+
+// Permissions that can be granted for particular departments - they act on
+// users and residents, which belong to a department
+export const DEPARTMENT_SCOPED_PERMISSIONS: PermissionKey[] = [
+  'canViewAllUsers',
+  'canCreateUsers',
+  'canEditUsers',
+  'canViewAllResidents',
+  'canEditResidents'
+]
+
+// Anything holding permissions: a session user, a user record or an actor in a rule check
+export interface PermissionHolder {
+  permissions?: Partial<UserPermissions>
+  departmentPermissions?: DepartmentPermissions
+}
+
+// Effective access to one permission: everywhere, or only in some departments
+export type PermissionScope = 'ALL' | Department[]
+
+export interface EffectivePermission {
+  permission: PermissionKey
+  label: string
+  roleDefault: boolean
+  override?: boolean // Present only when it differs from the role default
+  granted: boolean // Across every department
+  departments: Department[] // Extra departments granted when not granted everywhere
+}
+
+/**
+ * Role defaults with a user's overrides applied
+ */
+export function resolvePermissions(role: UserRole, overrides?: Partial<UserPermissions>): UserPermissions {
+  const permissions = { ...ROLE_PERMISSIONS[role] }
+
+  OVERRIDABLE_PERMISSIONS.forEach(permission => {
+    const override = overrides?.[permission]
+    if (typeof override === 'boolean') {
+      permissions[permission] = override
+    }
+  })
+
+  return permissions
+}
+
+/**
+ * Whether a holder has a permission - everywhere, or for the given department
+ */
+export function hasPermission(
+  holder: PermissionHolder | null | undefined,
+  permission: PermissionKey,
+  department?: string
+): boolean {
+  if (holder?.permissions?.[permission]) return true
+  if (!department) return false
+  return !!holder?.departmentPermissions?.[permission]?.includes(department as Department)
+}
+
+/**
+ * Where a holder may use a permission; an empty list means nowhere
+ */
+export function getPermissionScope(
+  holder: PermissionHolder | null | undefined,
+  permission: PermissionKey
+): PermissionScope {
+  if (holder?.permissions?.[permission]) return 'ALL'
+  return holder?.departmentPermissions?.[permission] ?? []
+}
+
+/**
+ * Whether a holder may use a permission anywhere at all, e.g. to show a
+ * screen whose contents are then filtered by department
+ */
+export function hasAnyPermissionScope(
+  holder: PermissionHolder | null | undefined,
+  permission: PermissionKey
+): boolean {
+  const scope = getPermissionScope(holder, permission)
+  return scope === 'ALL' || scope.length > 0
+}
+
+/**
+ * Keep only overrides that change a role default, so a later role change
+ * does not carry stale entries
+ */
+export function normalizePermissionOverrides(
+  role: UserRole,
+  overrides?: Partial<UserPermissions>
+): Partial<UserPermissions> {
+  const normalized: Partial<UserPermissions> = {}
+
+  OVERRIDABLE_PERMISSIONS.forEach(permission => {
+    const override = overrides?.[permission]
+    if (typeof override === 'boolean' && override !== ROLE_PERMISSIONS[role][permission]) {
+      normalized[permission] = override
+    }
+  })
+
+  return normalized
+}
+
+/**
+ * Drop empty and duplicate department grants
+ */
+export function normalizeDepartmentPermissions(departmentPermissions?: DepartmentPermissions): DepartmentPermissions {
+  const normalized: DepartmentPermissions = {}
+
+  DEPARTMENT_SCOPED_PERMISSIONS.forEach(permission => {
+    const departments = Array.from(new Set(departmentPermissions?.[permission] ?? []))
+    if (departments.length > 0) {
+      normalized[permission] = departments.sort()
+    }
+  })
+
+  return normalized
+}
+
+/**
+ * Validate a permissions update from the Users console
+ */
+export function validatePermissionChanges(data: {
+  permissionOverrides?: unknown
+  departmentPermissions?: unknown
+}): string | null {
+  const { permissionOverrides, departmentPermissions } = data
+
+  if (permissionOverrides !== undefined) {
+    if (typeof permissionOverrides !== 'object' || permissionOverrides === null || Array.isArray(permissionOverrides)) {
+      return 'permissionOverrides must be an object'
+    }
+    for (const [permission, value] of Object.entries(permissionOverrides)) {
+      if (!OVERRIDABLE_PERMISSIONS.includes(permission as PermissionKey)) {
+        return `Permission ${permission} cannot be overridden`
+      }
+      if (typeof value !== 'boolean') {
+        return `Override for ${permission} must be true or false`
+      }
+    }
+  }
+
+  if (departmentPermissions !== undefined) {
+    if (typeof departmentPermissions !== 'object' || departmentPermissions === null || Array.isArray(departmentPermissions)) {
+      return 'departmentPermissions must be an object'
+    }
+    for (const [permission, departments] of Object.entries(departmentPermissions)) {
+      if (!DEPARTMENT_SCOPED_PERMISSIONS.includes(permission as PermissionKey)) {
+        return `Permission ${permission} cannot be granted by department`
+      }
+      if (!Array.isArray(departments) || departments.some(department => !RESIDENT_DEPARTMENTS.includes(department))) {
+        return `Invalid departments for ${permission}. Expected any of: ${RESIDENT_DEPARTMENTS.join(', ')}`
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Every permission with where it comes from, for the effective permissions view
+ */
+export function describeEffectivePermissions(user: {
+  role: UserRole
+  permissionOverrides?: Partial<UserPermissions>
+  departmentPermissions?: DepartmentPermissions
+}): EffectivePermission[] {
+  const overrides = normalizePermissionOverrides(user.role, user.permissionOverrides)
+  const permissions = resolvePermissions(user.role, overrides)
+
+  return PERMISSION_KEYS.map(permission => ({
+    permission,
+    label: PERMISSION_LABELS[permission],
+    roleDefault: ROLE_PERMISSIONS[user.role][permission],
+    override: overrides[permission],
+    granted: permissions[permission],
+    departments: permissions[permission] ? [] : user.departmentPermissions?.[permission] ?? []
+  }))
+}
+
+/**
+ * Custom claims firestore.rules reads overrides and department grants from.
+ * Kept to the entries that differ from the role, as claims are size-limited.
+ */
+export function getPermissionClaims(user: {
+  role: UserRole
+  permissionOverrides?: Partial<UserPermissions>
+  departmentPermissions?: DepartmentPermissions
+}): { permissionOverrides: Partial<UserPermissions>; departmentPermissions: DepartmentPermissions } {
+  return {
+    permissionOverrides: normalizePermissionOverrides(user.role, user.permissionOverrides),
+    departmentPermissions: normalizeDepartmentPermissions(user.departmentPermissions)
+  }
+}
@@ -0,0 +1,280 @@
+/**
+ * EMMA Healthcare Year-End Promotion
+ *
+ * Proposes the academic-year rollover for each resident: promotion to the
+ * next PGY level, graduation on completing the program, or a hold for
+ * explicit review when the resident's academic standing is not GOOD.
+ */
+
+import { format } from 'date-fns'
+import { ExtendedUser, Institution, ResidentProfile } from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+import { getAcademicYearRange, toDate } from './date-utils'
+
+export type PromotionAction = 'PROMOTE' | 'GRADUATE' | 'HOLD'
+
+export type AcademicStanding = ResidentProfile['academicStatus']['standing']
+
+// Program length used when a resident has no resident profile
+export const DEFAULT_PROGRAM_LENGTHS: Record<Department, number> = {
+  EMERGENCY_MEDICINE: 3,
+  INTERNAL_MEDICINE: 3,
+  SURGERY: 5,
+  PEDIATRICS: 3,
+  FAMILY_MEDICINE: 3,
+  PSYCHIATRY: 4,
+  RADIOLOGY: 5,
+  ANESTHESIOLOGY: 4,
+  PATHOLOGY: 4,
+  NEUROLOGY: 4,
+  CARDIOLOGY: 3,
+  OTHER: 3,
+}
+
+// Standings that need a program director decision before the resident advances
+const REVIEW_STANDINGS: AcademicStanding[] = ['PROBATION', 'REMEDIATION']
+
+// Upper bound per run: each resident needs up to two writes in one transaction
+export const PROMOTION_MAX_RESIDENTS = 200
+
+export interface PromotionProposal {
+  residentId: string
+  name: string
+  email: string
+  department?: Department
+  currentPGYLevel: PGYLevel
+  totalPGYLevels: number
+  standing: AcademicStanding
+  hasProfile: boolean
+  proposedAction: PromotionAction
+  nextPGYLevel: PGYLevel | null // Null for graduation and holds
+  requiresReview: boolean // Probation/remediation - must be decided explicitly
+  reason: string
+}
+
+export interface PromotionPlan {
+  academicYear: string // The year being closed, e.g. "2025-2026"
+  nextAcademicYear: string
+  effectiveDate: string // Date the new PGY levels take effect (yyyy-MM-dd)
+  proposals: PromotionProposal[]
+  completedResidentIds: string[] // Already promoted or graduated for this year
+}
+
+export interface PromotionDecision {
+  residentId: string
+  action: PromotionAction
+  note?: string
+}
+
+export interface ResolvedPromotion extends PromotionProposal {
+  action: PromotionAction
+  note?: string
+}
+
+export interface PromotionResultRow {
+  residentId: string
+  name: string
+  action: PromotionAction
+  fromPGYLevel: PGYLevel
+  toPGYLevel: PGYLevel | null
+  claimsSynced: boolean
+}
+
+export interface PromotionResult {
+  academicYear: string
+  promoted: number
+  graduated: number
+  held: number
+  rows: PromotionResultRow[]
+}
+
+/**
+ * Academic year following the given one ("2025-2026" -> "2026-2027")
+ */
+export function getNextAcademicYear(academicYear: string): string | null {
+  const range = getAcademicYearRange(academicYear)
+  if (!range) return null
+
+  const startYear = range.startDate.getFullYear() + 1
+  return `${startYear}-${startYear + 1}`
+}
+
+/**
+ * Date the new PGY levels take effect. Uses the month and day of the
+ * institution's configured academic year start, falling back to July 1.
+ */
+export function getPromotionEffectiveDate(
+  academicYear: string,
+  settings?: Partial<Institution['settings']>
+): Date | null {
+  const range = getAcademicYearRange(academicYear)
+  if (!range) return null
+
+  const nextStartYear = range.startDate.getFullYear() + 1
+  const configuredStart = settings?.academicYearStart ? toDate(settings.academicYearStart) : null
+
+  return configuredStart
+    ? new Date(nextStartYear, configuredStart.getMonth(), configuredStart.getDate())
+    : new Date(nextStartYear, 6, 1)
+}
+
+/**
+ * Whether the resident was already promoted or graduated for an academic year
+ */
+export function isPromotionCompleted(resident: ExtendedUser, academicYear: string): boolean {
+  return (resident.promotionHistory ?? []).some(record =>
+    record.academicYear === academicYear && record.action !== 'HOLD'
+  )
+}
+
+/**
+ * Propose the year-end action for one resident
+ */
+export function proposePromotion(resident: ExtendedUser, profile?: ResidentProfile | null): PromotionProposal {
+  const currentPGYLevel = (profile?.program?.currentPGYLevel ?? resident.pgyLevel ?? 1) as PGYLevel
+  const totalPGYLevels = profile?.program?.totalPGYLevels
+    ?? DEFAULT_PROGRAM_LENGTHS[resident.department ?? 'OTHER']
+  const standing: AcademicStanding = profile?.academicStatus?.standing ?? 'GOOD'
+
+  const base = {
+    residentId: resident.id,
+    name: `${resident.firstName} ${resident.lastName}`,
+    email: resident.email,
+    department: resident.department,
+    currentPGYLevel,
+    totalPGYLevels,
+    standing,
+    hasProfile: !!profile,
+  }
+
+  if (standing === 'DISMISSED') {
+    return {
+      ...base,
+      proposedAction: 'HOLD',
+      nextPGYLevel: null,
+      requiresReview: false,
+      reason: 'Dismissed from the program',
+    }
+  }
+
+  if (REVIEW_STANDINGS.includes(standing)) {
+    return {
+      ...base,
+      proposedAction: 'HOLD',
+      nextPGYLevel: null,
+      requiresReview: true,
+      reason: `On ${standing.toLowerCase()} - requires review before advancing`,
+    }
+  }
+
+  if (currentPGYLevel >= totalPGYLevels) {
+    return {
+      ...base,
+      proposedAction: 'GRADUATE',
+      nextPGYLevel: null,
+      requiresReview: false,
+      reason: `Completes PGY-${totalPGYLevels} of a ${totalPGYLevels}-year program`,
+    }
+  }
+
+  return {
+    ...base,
+    proposedAction: 'PROMOTE',
+    nextPGYLevel: (currentPGYLevel + 1) as PGYLevel,
+    requiresReview: false,
+    reason: `Advances to PGY-${currentPGYLevel + 1}`,
+  }
+}
+
+/**
+ * Build the promotion plan for the active residents of an institution.
+ * Residents already promoted or graduated for the year are left out.
+ */
+export function buildPromotionPlan(
+  residents: ExtendedUser[],
+  profiles: Map<string, ResidentProfile>,
+  academicYear: string,
+  effectiveDate: Date
+): PromotionPlan {
+  const completedResidentIds: string[] = []
+  const proposals: PromotionProposal[] = []
+
+  residents.forEach(resident => {
+    if (isPromotionCompleted(resident, academicYear)) {
+      completedResidentIds.push(resident.id)
+      return
+    }
+
+    proposals.push(proposePromotion(resident, profiles.get(resident.id)))
+  })
+
+  return {
+    academicYear,
+    nextAcademicYear: getNextAcademicYear(academicYear) ?? academicYear,
+    effectiveDate: format(effectiveDate, 'yyyy-MM-dd'),
+    proposals,
+    completedResidentIds,
+  }
+}
+
+/**
+ * Combine the plan with the coordinator's decisions. Residents without a
+ * decision take the proposed action, so anyone held for review stays held
+ * unless explicitly promoted or graduated. Returns an error message when a
+ * decision is not allowed.
+ */
+export function resolvePromotionDecisions(
+  plan: PromotionPlan,
+  decisions: PromotionDecision[]
+): { promotions: ResolvedPromotion[]; error?: string } {
+  const proposals = new Map(plan.proposals.map(proposal => [proposal.residentId, proposal]))
+  const decided = new Map<string, PromotionDecision>()
+
+  for (const decision of decisions) {
+    const proposal = proposals.get(decision.residentId)
+
+    if (!proposal) {
+      return {
+        promotions: [],
+        error: plan.completedResidentIds.includes(decision.residentId)
+          ? `Resident ${decision.residentId} was already processed for ${plan.academicYear}`
+          : `Resident ${decision.residentId} is not part of this promotion plan`
+      }
+    }
+
+    if (decided.has(decision.residentId)) {
+      return { promotions: [], error: `Duplicate decision for ${proposal.name}` }
+    }
+
+    if (decision.action !== 'HOLD' && proposal.standing === 'DISMISSED') {
+      return { promotions: [], error: `${proposal.name} has been dismissed and cannot advance` }
+    }
+
+    if (decision.action === 'PROMOTE' && proposal.currentPGYLevel >= Math.min(proposal.totalPGYLevels, 7)) {
+      return { promotions: [], error: `${proposal.name} is in the final year of the program and can only graduate or be held` }
+    }
+
+    if (decision.action === 'GRADUATE' && proposal.currentPGYLevel < proposal.totalPGYLevels) {
+      return {
+        promotions: [],
+        error: `${proposal.name} has not completed PGY-${proposal.totalPGYLevels} and cannot graduate`
+      }
+    }
+
+    decided.set(decision.residentId, decision)
+  }
+
+  const promotions = plan.proposals.map(proposal => {
+    const decision = decided.get(proposal.residentId)
+    const action = decision?.action ?? proposal.proposedAction
+
+    return {
+      ...proposal,
+      action,
+      nextPGYLevel: action === 'PROMOTE' ? (proposal.currentPGYLevel + 1) as PGYLevel : null,
+      note: decision?.note?.trim() || undefined,
+    }
+  })
+
+  return { promotions }
+}
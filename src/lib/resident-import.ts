@@ -0,0 +1,261 @@
+/**
+ * EMMA Healthcare Resident CSV Import
+ *
+ * CSV template, parsing and per-row validation for bulk resident import.
+ * Rows are checked with the same rules as POST /api/residents plus the
+ * institutional email requirement from registration, since every imported
+ * resident receives a sign-in account.
+ */
+
+import { Department, PGYLevel } from '@/types/user'
+import { parseCsv, toCsv } from './csv'
+import {
+  ResidentRequest,
+  RESIDENT_DEPARTMENTS,
+  validateInstitutionalEmail,
+  validateResidentData
+} from './resident-validation'
+
+export const RESIDENT_IMPORT_COLUMNS = [
+  'email',
+  'firstName',
+  'lastName',
+  'middleName',
+  'preferredName',
+  'title',
+  'department',
+  'pgyLevel',
+  'phoneNumber',
+  'medicalLicenseNumber',
+  'supervisingFacultyId',
+  'medicalSchool',
+  'graduationYear',
+  'undergraduateInstitution',
+] as const
+
+export type ResidentImportColumn = typeof RESIDENT_IMPORT_COLUMNS[number]
+
+const REQUIRED_COLUMNS: ResidentImportColumn[] = ['email', 'firstName', 'lastName', 'department', 'pgyLevel']
+
+const RESIDENT_TITLES = ['Dr.', 'Mr.', 'Ms.', 'Mrs.']
+
+// Largest file accepted in one import - an intern class is well below this
+export const RESIDENT_IMPORT_MAX_ROWS = 500
+
+// Residents created per Firestore batch; each also needs an Auth account
+export const RESIDENT_IMPORT_BATCH_SIZE = 25
+
+export interface ResidentImportRow {
+  rowNumber: number // Line in the file; the header is line 1
+  email: string
+  name: string
+  request: ResidentRequest | null // Null when the row has errors
+  errors: string[]
+}
+
+export interface ParsedResidentImport {
+  rows: ResidentImportRow[]
+  error?: string // File-level problem, e.g. missing columns
+}
+
+export type ResidentImportRowStatus = 'VALID' | 'INVALID' | 'CREATED' | 'FAILED'
+
+export interface ResidentImportRowResult {
+  rowNumber: number
+  email: string
+  name: string
+  status: ResidentImportRowStatus
+  errors: string[]
+  residentId?: string
+  invitationSent?: boolean
+}
+
+export interface ResidentImportResult {
+  dryRun: boolean
+  totalRows: number
+  validRows: number
+  invalidRows: number
+  created: number
+  failed: number
+  invitationsSent: number
+  rows: ResidentImportRowResult[]
+}
+
+/**
+ * CSV template with the header row and one example resident
+ */
+export function buildResidentImportTemplate(): string {
+  const example: Record<ResidentImportColumn, string> = {
+    email: 'jane.doe@hospital.edu',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    middleName: '',
+    preferredName: 'Jane',
+    title: 'Dr.',
+    department: 'INTERNAL_MEDICINE',
+    pgyLevel: '1',
+    phoneNumber: '(555) 123-4567',
+    medicalLicenseNumber: '',
+    supervisingFacultyId: '',
+    medicalSchool: 'State University School of Medicine',
+    graduationYear: String(new Date().getFullYear()),
+    undergraduateInstitution: '',
+  }
+
+  return toCsv([
+    [...RESIDENT_IMPORT_COLUMNS],
+    RESIDENT_IMPORT_COLUMNS.map(column => example[column]),
+  ])
+}
+
+// Accept "INTERNAL_MEDICINE" as well as "Internal Medicine"
+const parseDepartment = (value: string): Department | undefined => {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_')
+  return RESIDENT_DEPARTMENTS.find(department => department === normalized)
+}
+
+// Accept "1" as well as "PGY-1"
+const parsePgyLevel = (value: string): number | undefined => {
+  const match = value.trim().match(/^(?:PGY-?\s*)?(\d+)$/i)
+  return match ? Number(match[1]) : undefined
+}
+
+/**
+ * Turn one CSV record into a resident request and collect its errors
+ */
+function parseImportRecord(record: Partial<Record<ResidentImportColumn, string>>): {
+  request: ResidentRequest
+  errors: string[]
+} {
+  const value = (column: ResidentImportColumn) => record[column]?.trim() || undefined
+  const errors: string[] = []
+
+  const rawDepartment = value('department')
+  const department = rawDepartment ? parseDepartment(rawDepartment) : undefined
+  if (rawDepartment && !department) {
+    errors.push(`Unknown department "${rawDepartment}"`)
+  }
+
+  const rawPgyLevel = value('pgyLevel')
+  const pgyLevel = rawPgyLevel ? parsePgyLevel(rawPgyLevel) : undefined
+  if (rawPgyLevel && pgyLevel === undefined) {
+    errors.push(`Invalid PGY level "${rawPgyLevel}"`)
+  }
+
+  const rawGraduationYear = value('graduationYear')
+  const graduationYear = rawGraduationYear ? Number(rawGraduationYear) : undefined
+  if (graduationYear !== undefined && !Number.isInteger(graduationYear)) {
+    errors.push(`Invalid graduation year "${rawGraduationYear}"`)
+  }
+
+  const title = value('title')
+  if (title && !RESIDENT_TITLES.includes(title)) {
+    errors.push(`Title must be one of: ${RESIDENT_TITLES.join(', ')}`)
+  }
+
+  const medicalSchool = value('medicalSchool')
+  const undergraduateInstitution = value('undergraduateInstitution')
+
+  const request: ResidentRequest = {
+    email: (value('email') ?? '').toLowerCase(),
+    firstName: value('firstName') ?? '',
+    lastName: value('lastName') ?? '',
+    department: department as Department,
+    pgyLevel: pgyLevel as PGYLevel,
+    phoneNumber: value('phoneNumber'),
+    medicalLicenseNumber: value('medicalLicenseNumber'),
+    supervisingFacultyId: value('supervisingFacultyId'),
+    profile: {
+      title,
+      middleName: value('middleName'),
+      preferredName: value('preferredName'),
+    },
+    education: medicalSchool || graduationYear || undergraduateInstitution ? {
+      medicalSchool: medicalSchool ?? '',
+      graduationYear: graduationYear ?? new Date().getFullYear(),
+      undergraduateInstitution,
+    } : undefined,
+  }
+
+  // The shared rules would repeat a department or PGY level that failed to parse as missing
+  const parseFailed = (!!rawDepartment && !department) || (!!rawPgyLevel && pgyLevel === undefined)
+  if (!parseFailed) {
+    const validationError = validateResidentData(request)
+    if (validationError) errors.push(validationError)
+  }
+
+  if (request.email) {
+    const institutionalEmailError = validateInstitutionalEmail(request.email)
+    if (institutionalEmailError) errors.push(institutionalEmailError)
+  }
+
+  return { request, errors }
+}
+
+/**
+ * Parse and validate a resident import file. Every data row is returned
+ * with its errors so the caller can show a dry-run preview.
+ */
+export function parseResidentImport(text: string): ParsedResidentImport {
+  const records = parseCsv(text)
+  const header = records[0]?.map(column => column.trim().toLowerCase())
+
+  if (!header || header.every(column => column === '')) {
+    return { rows: [], error: 'The file is empty' }
+  }
+
+  // Map header positions to known columns, ignoring case
+  const columnIndex = new Map<ResidentImportColumn, number>()
+  RESIDENT_IMPORT_COLUMNS.forEach(column => {
+    const index = header.indexOf(column.toLowerCase())
+    if (index !== -1) columnIndex.set(column, index)
+  })
+
+  const missing = REQUIRED_COLUMNS.filter(column => !columnIndex.has(column))
+  if (missing.length > 0) {
+    return { rows: [], error: `Missing required columns: ${missing.join(', ')}` }
+  }
+
+  const dataRows = records
+    .map((fields, index) => ({ fields, rowNumber: index + 1 }))
+    .slice(1)
+    .filter(({ fields }) => fields.some(field => field.trim() !== ''))
+
+  if (dataRows.length === 0) {
+    return { rows: [], error: 'The file has no resident rows' }
+  }
+
+  if (dataRows.length > RESIDENT_IMPORT_MAX_ROWS) {
+    return { rows: [], error: `A single import is limited to ${RESIDENT_IMPORT_MAX_ROWS} residents` }
+  }
+
+  const seenEmails = new Map<string, number>()
+
+  const rows = dataRows.map(({ fields, rowNumber }) => {
+    const record: Partial<Record<ResidentImportColumn, string>> = {}
+    columnIndex.forEach((index, column) => {
+      record[column] = fields[index]
+    })
+
+    const { request, errors } = parseImportRecord(record)
+
+    if (request.email) {
+      const firstRow = seenEmails.get(request.email)
+      if (firstRow !== undefined) {
+        errors.push(`Duplicate email address (also on row ${firstRow})`)
+      } else {
+        seenEmails.set(request.email, rowNumber)
+      }
+    }
+
+    return {
+      rowNumber,
+      email: request.email,
+      name: `${request.firstName} ${request.lastName}`.trim(),
+      request: errors.length === 0 ? request : null,
+      errors,
+    }
+  })
+
+  return { rows }
+}
@@ -0,0 +1,313 @@
+/**
+ * EMMA Healthcare Resident Portal
+ *
+ * What a resident sees about themselves - current rotation, upcoming
+ * published assignments and milestone progress - and the few profile fields
+ * they may change on their own record. Everything else on the user record
+ * stays with program administrators.
+ */
+
+import { ExtendedUser, ResidentProfile, Rotation, Schedule } from '@/types/database'
+import { Department, PGYLevel } from '@/types/user'
+import { TimestampLike, getAcademicYear, toDate } from './date-utils'
+import { ResidentMilestoneReport } from './milestones'
+
+export const RESIDENT_EDITABLE_FIELDS = ['preferredName', 'emergencyContact', 'phoneNumber'] as const
+
+export type ResidentEditableField = typeof RESIDENT_EDITABLE_FIELDS[number]
+
+export type EmergencyContact = NonNullable<ExtendedUser['profile']['emergencyContact']>
+
+// Empty strings and null clear a field
+export interface ResidentProfileUpdate {
+  preferredName?: string
+  phoneNumber?: string
+  emergencyContact?: EmergencyContact | null
+}
+
+export interface ResidentPortalProfile {
+  id: string
+  firstName: string
+  lastName: string
+  email: string
+  department?: Department
+  pgyLevel?: PGYLevel
+  preferredName?: string
+  phoneNumber?: string
+  emergencyContact?: EmergencyContact
+}
+
+export interface ResidentPortalRotation {
+  rotationId?: string
+  name: string
+  department?: Department
+  location?: string
+  startDate: string | null
+  endDate: string | null
+}
+
+export interface ResidentPortalAssignment {
+  scheduleId: string
+  scheduleName: string
+  type: Schedule['type']
+  rotationId?: string
+  rotationName?: string
+  location?: string
+  supervisorId?: string
+  notes?: string
+  startDate: string
+  endDate: string
+  current: boolean // Under way today
+}
+
+export interface ResidentPortal {
+  profile: ResidentPortalProfile
+  currentRotation: ResidentPortalRotation | null
+  upcomingAssignments: ResidentPortalAssignment[]
+  milestones: ResidentMilestoneReport | null
+  milestonePeriod: string
+  generatedAt: string
+}
+
+// A resident's rotation rankings for one academic year, read by the schedule solver
+export interface ResidentRotationPreferences {
+  academicYear: string
+  rankings: string[] // Rotation IDs, most preferred first
+  submittedAt: string | null
+  rotations: { id: string; name: string; department: Department }[] // Rotations the resident can rank
+}
+
+export interface ResidentPortalInput {
+  user: ExtendedUser
+  residentProfile?: Pick<ResidentProfile, 'currentRotation'> | null
+  schedules: Schedule[] // Published schedules
+  rotationNames: Record<string, string>
+  milestones: ResidentMilestoneReport | null
+  milestonePeriod: string
+  now?: Date
+}
+
+const MAX_UPCOMING_ASSIGNMENTS = 20
+
+const toIsoString = (value: TimestampLike): string | null => toDate(value)?.toISOString() ?? null
+
+/**
+ * Validate a resident's own profile update; only RESIDENT_EDITABLE_FIELDS
+ * may be sent
+ */
+export function validateResidentProfileUpdate(data: Record<string, unknown>): string | null {
+  const phoneRegex = /^\+?[\d\s\-\(\)]{10,}$/
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+  const fields = Object.keys(data)
+  if (fields.length === 0) {
+    return `No changes provided. Editable fields: ${RESIDENT_EDITABLE_FIELDS.join(', ')}`
+  }
+
+  const restricted = fields.find(field => !RESIDENT_EDITABLE_FIELDS.includes(field as ResidentEditableField))
+  if (restricted) {
+    return `${restricted} cannot be changed from the resident portal`
+  }
+
+  if (data.preferredName !== undefined) {
+    if (typeof data.preferredName !== 'string' || data.preferredName.trim().length > 100) {
+      return 'Preferred name must be 100 characters or fewer'
+    }
+  }
+
+  if (data.phoneNumber !== undefined) {
+    if (typeof data.phoneNumber !== 'string') {
+      return 'Please enter a valid phone number'
+    }
+    if (data.phoneNumber.trim() && !phoneRegex.test(data.phoneNumber.trim())) {
+      return 'Please enter a valid phone number'
+    }
+  }
+
+  if (data.emergencyContact !== undefined && data.emergencyContact !== null) {
+    const contact = data.emergencyContact as Partial<Record<keyof EmergencyContact, unknown>>
+    if (typeof contact !== 'object' || Array.isArray(contact)) {
+      return 'emergencyContact must be an object'
+    }
+    if (typeof contact.name !== 'string' || !contact.name.trim() ||
+      typeof contact.relationship !== 'string' || !contact.relationship.trim() ||
+      typeof contact.phone !== 'string' || !contact.phone.trim()) {
+      return 'Missing required emergency contact fields: name, relationship, phone'
+    }
+    if (!phoneRegex.test(contact.phone.trim())) {
+      return 'Please enter a valid emergency contact phone number'
+    }
+    if (contact.email !== undefined && contact.email !== '' &&
+      (typeof contact.email !== 'string' || !emailRegex.test(contact.email))) {
+      return 'Invalid emergency contact email address'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Trim a validated update, dropping an empty emergency contact email
+ */
+export function normalizeResidentProfileUpdate(data: ResidentProfileUpdate): ResidentProfileUpdate {
+  const update: ResidentProfileUpdate = {}
+
+  if (data.preferredName !== undefined) update.preferredName = data.preferredName.trim()
+  if (data.phoneNumber !== undefined) update.phoneNumber = data.phoneNumber.trim()
+  if (data.emergencyContact !== undefined) {
+    update.emergencyContact = data.emergencyContact && {
+      name: data.emergencyContact.name.trim(),
+      relationship: data.emergencyContact.relationship.trim(),
+      phone: data.emergencyContact.phone.trim(),
+      ...(data.emergencyContact.email?.trim() ? { email: data.emergencyContact.email.trim() } : {})
+    }
+  }
+
+  return update
+}
+
+/**
+ * Academic years a resident may rank rotations for: the current year and
+ * the next, which is the one usually being scheduled
+ */
+export function getPreferenceAcademicYears(now: Date = new Date()): string[] {
+  const current = getAcademicYear(now)
+  const next = getAcademicYear(new Date(now.getFullYear() + 1, now.getMonth(), now.getDate()))
+  return [current, next]
+}
+
+/**
+ * Active rotations open to a resident's PGY level, by name
+ */
+export function getRankableRotations(rotations: Rotation[], pgyLevel?: PGYLevel): ResidentRotationPreferences['rotations'] {
+  return rotations
+    .filter(rotation => rotation.status === 'ACTIVE' && (!pgyLevel || rotation.pgyLevels.includes(pgyLevel)))
+    .map(rotation => ({ id: rotation.id, name: rotation.name, department: rotation.department }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Validate a resident's rotation rankings: distinct IDs of rotations they
+ * can rank, most preferred first
+ */
+export function validateRotationRankings(rankings: unknown, rankableIds: string[]): string | null {
+  if (!Array.isArray(rankings) || !rankings.every(id => typeof id === 'string')) {
+    return 'rankings must be a list of rotation IDs'
+  }
+
+  if (new Set(rankings).size !== rankings.length) {
+    return 'Each rotation can only be ranked once'
+  }
+
+  const unknown = rankings.find(id => !rankableIds.includes(id))
+  if (unknown) {
+    return `Rotation ${unknown} is not open to you for ranking`
+  }
+
+  return null
+}
+
+/**
+ * The parts of a user record shown on the resident portal
+ */
+export function toResidentPortalProfile(user: ExtendedUser): ResidentPortalProfile {
+  return {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+    department: user.department,
+    pgyLevel: user.pgyLevel,
+    preferredName: user.profile?.preferredName,
+    phoneNumber: user.phoneNumber,
+    emergencyContact: user.profile?.emergencyContact
+  }
+}
+
+/**
+ * A resident's assignments on published schedules that have not yet ended,
+ * soonest first
+ */
+export function getUpcomingAssignments(
+  residentId: string,
+  schedules: Schedule[],
+  rotationNames: Record<string, string>,
+  now: Date = new Date()
+): ResidentPortalAssignment[] {
+  const assignments: ResidentPortalAssignment[] = []
+
+  schedules
+    .filter(schedule => schedule.status === 'PUBLISHED')
+    .forEach(schedule => {
+      schedule.assignments
+        .filter(assignment => assignment.residentId === residentId)
+        .forEach(assignment => {
+          const start = toDate(assignment.startDate ?? schedule.startDate)
+          const end = toDate(assignment.endDate ?? schedule.endDate)
+          if (!start || !end || end < now) return
+
+          assignments.push({
+            scheduleId: schedule.id,
+            scheduleName: schedule.name,
+            type: schedule.type,
+            rotationId: assignment.rotationId,
+            rotationName: assignment.rotationId ? rotationNames[assignment.rotationId] : undefined,
+            location: assignment.location,
+            supervisorId: assignment.supervisorId,
+            notes: assignment.notes,
+            startDate: start.toISOString(),
+            endDate: end.toISOString(),
+            current: start <= now
+          })
+        })
+    })
+
+  return assignments
+    .sort((a, b) => a.startDate.localeCompare(b.startDate))
+    .slice(0, MAX_UPCOMING_ASSIGNMENTS)
+}
+
+/**
+ * Assemble the resident portal. The rotation on the resident profile wins
+ * while it is under way; otherwise the current rotation assignment is used.
+ */
+export function buildResidentPortal(input: ResidentPortalInput): ResidentPortal {
+  const { user, residentProfile } = input
+  const now = input.now ?? new Date()
+  const upcomingAssignments = getUpcomingAssignments(user.id, input.schedules, input.rotationNames, now)
+
+  let currentRotation: ResidentPortalRotation | null = null
+  const profileRotation = residentProfile?.currentRotation
+  const profileRotationEnd = toDate(profileRotation?.endDate)
+
+  if (profileRotation && (!profileRotationEnd || profileRotationEnd >= now)) {
+    currentRotation = {
+      rotationId: profileRotation.rotationId,
+      name: profileRotation.name,
+      department: profileRotation.department,
+      location: profileRotation.location,
+      startDate: toIsoString(profileRotation.startDate),
+      endDate: toIsoString(profileRotation.endDate)
+    }
+  } else {
+    const assignment = upcomingAssignments.find(entry => entry.current && entry.type === 'ROTATION')
+    if (assignment) {
+      currentRotation = {
+        rotationId: assignment.rotationId,
+        name: assignment.rotationName ?? assignment.scheduleName,
+        location: assignment.location,
+        startDate: assignment.startDate,
+        endDate: assignment.endDate
+      }
+    }
+  }
+
+  return {
+    profile: toResidentPortalProfile(user),
+    currentRotation,
+    upcomingAssignments,
+    milestones: input.milestones,
+    milestonePeriod: input.milestonePeriod,
+    generatedAt: now.toISOString()
+  }
+}
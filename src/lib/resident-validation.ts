@@ -0,0 +1,137 @@
+/**
+ * EMMA Healthcare Resident Validation
+ *
+ * Request shape and validation rules shared by the resident API routes.
+ */
+
+import { Department, PGYLevel } from '@/types/user'
+
+export interface ResidentRequest {
+  // Core user information
+  email: string
+  firstName: string
+  lastName: string
+
+  // Resident-specific fields
+  pgyLevel: PGYLevel
+  department: Department
+  medicalLicenseNumber?: string
+  supervisingFacultyId?: string
+  phoneNumber?: string
+
+  // Professional information
+  profile?: {
+    title?: string
+    middleName?: string
+    preferredName?: string
+  }
+
+  // Education information
+  education?: {
+    medicalSchool: string
+    graduationYear: number
+    undergraduateInstitution?: string
+  }
+}
+
+export const RESIDENT_DEPARTMENTS: Department[] = [
+  'EMERGENCY_MEDICINE',
+  'INTERNAL_MEDICINE',
+  'SURGERY',
+  'PEDIATRICS',
+  'FAMILY_MEDICINE',
+  'PSYCHIATRY',
+  'RADIOLOGY',
+  'ANESTHESIOLOGY',
+  'PATHOLOGY',
+  'NEUROLOGY',
+  'CARDIOLOGY',
+  'OTHER'
+]
+
+// Email domains accepted for institutional accounts
+const INSTITUTIONAL_DOMAINS = ['.edu', '.org', '.gov', '.mil']
+
+// Listing filter for GET /api/residents
+export type ResidentStatusFilter = 'active' | 'inactive' | 'all'
+
+export const RESIDENT_STATUS_FILTERS: ResidentStatusFilter[] = ['active', 'inactive', 'all']
+
+/**
+ * Require an institutional email address for accounts that can sign in
+ * (self-registration and bulk-imported residents)
+ */
+export function validateInstitutionalEmail(email: string): string | null {
+  const hasInstitutionalDomain = INSTITUTIONAL_DOMAINS.some(domain =>
+    email.toLowerCase().includes(domain)
+  )
+
+  if (!hasInstitutionalDomain) {
+    return 'Please use your institutional email address (.edu, .org, .gov, or .mil)'
+  }
+
+  return null
+}
+
+/**
+ * Validate resident physician data. With `partial` set, only fields present
+ * in the payload are checked (used by PATCH /api/residents/[id]).
+ */
+export function validateResidentData(data: Partial<ResidentRequest>, partial = false): string | null {
+  // Required fields validation
+  if (!partial) {
+    if (!data.email || !data.firstName || !data.lastName) {
+      return 'Missing required fields: email, firstName, lastName'
+    }
+
+    if (!data.pgyLevel || !data.department) {
+      return 'Missing required fields: pgyLevel, department'
+    }
+  }
+
+  if (data.firstName !== undefined && data.firstName.trim().length < 2) {
+    return 'First name must be at least 2 characters'
+  }
+
+  if (data.lastName !== undefined && data.lastName.trim().length < 2) {
+    return 'Last name must be at least 2 characters'
+  }
+
+  // Email validation
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+  if (data.email !== undefined && !emailRegex.test(data.email)) {
+    return 'Please enter a valid email address'
+  }
+
+  if (data.department !== undefined && !RESIDENT_DEPARTMENTS.includes(data.department)) {
+    return `Invalid department. Expected one of: ${RESIDENT_DEPARTMENTS.join(', ')}`
+  }
+
+  // PGY level validation
+  if (data.pgyLevel !== undefined && (!Number.isInteger(data.pgyLevel) || data.pgyLevel < 1 || data.pgyLevel > 7)) {
+    return 'PGY level must be between 1 and 7'
+  }
+
+  // Medical license validation
+  if (data.medicalLicenseNumber && data.medicalLicenseNumber.length < 5) {
+    return 'Medical license number must be at least 5 characters'
+  }
+
+  // Phone number validation
+  if (data.phoneNumber) {
+    const phoneRegex = /^\+?[\d\s\-\(\)]{10,}$/
+    if (!phoneRegex.test(data.phoneNumber)) {
+      return 'Please enter a valid phone number'
+    }
+  }
+
+  // Education validation
+  if (data.education?.graduationYear) {
+    const currentYear = new Date().getFullYear()
+    if (data.education.graduationYear < 1950 || data.education.graduationYear > currentYear + 10) {
+      return 'Please enter a valid graduation year'
+    }
+  }
+
+  return null // No validation errors
+}
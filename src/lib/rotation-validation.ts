@@ -0,0 +1,126 @@
+/**
+ * EMMA Healthcare Rotation Validation
+ *
+ * Request shape and validation rules shared by the rotation API routes.
+ */
+
+import { Department, PGYLevel } from '@/types/user'
+import { Rotation } from '@/types/database'
+
+export const ROTATION_STATUSES: Rotation['status'][] = ['ACTIVE', 'INACTIVE', 'ARCHIVED']
+
+export interface RotationRequest {
+  name: string
+  department: Department
+  description?: string
+  objectives?: string[]
+  duration: number // weeks
+  capacity: number
+  minimumStaffing?: number // Residents needed on service; leave below this is flagged
+  isRequired?: boolean
+  pgyLevels: PGYLevel[]
+  schedule: {
+    startDate: string // ISO date
+    endDate: string // ISO date
+    daysOfWeek?: number[]
+    startTime?: string
+    endTime?: string
+    callSchedule?: {
+      frequency: 'NONE' | 'WEEKLY' | 'MONTHLY' | 'AS_NEEDED'
+      maxCallsPerMonth?: number
+    }
+  }
+  attendingPhysicians?: string[]
+  location?: {
+    building: string
+    floor?: string
+    room?: string
+    address?: string
+  }
+  resources?: Rotation['resources']
+  status?: Rotation['status']
+}
+
+/**
+ * Validate rotation data. With `partial` set, only fields present in the
+ * payload are checked (used by PATCH /api/rotations/[id]).
+ */
+export function validateRotationData(data: Partial<RotationRequest>, partial = false): string | null {
+  if (!partial) {
+    if (!data.name || !data.department || !data.schedule) {
+      return 'Missing required fields: name, department, schedule'
+    }
+
+    if (data.duration === undefined || data.capacity === undefined || !data.pgyLevels) {
+      return 'Missing required fields: duration, capacity, pgyLevels'
+    }
+  }
+
+  if (data.name !== undefined && data.name.trim().length < 2) {
+    return 'Rotation name must be at least 2 characters'
+  }
+
+  if (data.duration !== undefined && (!Number.isInteger(data.duration) || data.duration < 1 || data.duration > 52)) {
+    return 'Duration must be a whole number of weeks between 1 and 52'
+  }
+
+  if (data.capacity !== undefined && (!Number.isInteger(data.capacity) || data.capacity < 1)) {
+    return 'Capacity must be a positive whole number'
+  }
+
+  if (data.minimumStaffing !== undefined) {
+    if (!Number.isInteger(data.minimumStaffing) || data.minimumStaffing < 0) {
+      return 'Minimum staffing must be a whole number of residents'
+    }
+
+    if (data.capacity !== undefined && data.minimumStaffing > data.capacity) {
+      return 'Minimum staffing cannot be more than the rotation capacity'
+    }
+  }
+
+  if (data.pgyLevels !== undefined) {
+    if (!Array.isArray(data.pgyLevels) || data.pgyLevels.length === 0) {
+      return 'At least one PGY level is required'
+    }
+
+    if (data.pgyLevels.some(level => level < 1 || level > 7)) {
+      return 'PGY levels must be between 1 and 7'
+    }
+  }
+
+  if (data.status !== undefined && !ROTATION_STATUSES.includes(data.status)) {
+    return `Invalid status. Expected one of: ${ROTATION_STATUSES.join(', ')}`
+  }
+
+  if (data.schedule) {
+    const startDate = new Date(data.schedule.startDate)
+    const endDate = new Date(data.schedule.endDate)
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return 'Schedule start and end dates must be valid dates'
+    }
+
+    if (endDate <= startDate) {
+      return 'Schedule end date must be after the start date'
+    }
+
+    if (data.schedule.daysOfWeek?.some(day => day < 0 || day > 6)) {
+      return 'Days of week must be between 0 (Sunday) and 6 (Saturday)'
+    }
+
+    const timeRegex = /^([01]\d|2[0-3]):[0-5]\d$/
+    if (data.schedule.startTime && !timeRegex.test(data.schedule.startTime)) {
+      return 'Start time must use HH:MM format'
+    }
+    if (data.schedule.endTime && !timeRegex.test(data.schedule.endTime)) {
+      return 'End time must use HH:MM format'
+    }
+
+    const maxCalls = data.schedule.callSchedule?.maxCallsPerMonth
+    if (maxCalls !== undefined && (maxCalls < 0 || maxCalls > 31)) {
+      return 'Maximum calls per month must be between 0 and 31'
+    }
+  }
+
+  return null // No validation errors
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import { Rotation, Schedule } from '@/types/database'
+import { ConflictResident, detectScheduleConflicts } from './schedule-conflicts'
+
+interface AssignmentFixture {
+  residentId: string
+  rotationId?: string
+  start: string
+  end: string
+}
+
+const makeSchedule = (id: string, type: Schedule['type'], assignments: AssignmentFixture[], status: Schedule['status'] = 'PUBLISHED'): Schedule => ({
+  id,
+  type,
+  status,
+  assignments: assignments.map(({ residentId, rotationId, start, end }) => ({
+    residentId,
+    rotationId,
+    startDate: new Date(`${start}T00:00:00`),
+    endDate: new Date(`${end}T23:59:59`),
+  })),
+}) as unknown as Schedule
+
+const makeRotation = (id: string, overrides: Partial<Rotation> = {}): Rotation => ({
+  id,
+  name: id.toUpperCase(),
+  capacity: 2,
+  pgyLevels: [1, 2, 3],
+  ...overrides,
+}) as Rotation
+
+const residents: ConflictResident[] = [
+  { id: 'res-a', name: 'Ada', pgyLevel: 1 },
+  { id: 'res-b', name: 'Ben', pgyLevel: 2 },
+  { id: 'res-c', name: 'Cy', pgyLevel: 3 },
+]
+
+describe('detectScheduleConflicts', () => {
+  it('reports no conflicts for a clean schedule', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [makeSchedule('s1', 'ROTATION', [
+        { residentId: 'res-a', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' },
+        { residentId: 'res-a', rotationId: 'wards', start: '2025-07-29', end: '2025-08-25' },
+      ])],
+      rotations: [makeRotation('icu'), makeRotation('wards')],
+      residents,
+    })
+
+    expect(conflicts).toEqual([])
+  })
+
+  it('flags a resident booked on two rotations at once', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [
+        makeSchedule('s1', 'ROTATION', [{ residentId: 'res-a', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' }]),
+        makeSchedule('s2', 'RESEARCH', [{ residentId: 'res-a', start: '2025-07-20', end: '2025-08-10' }]),
+      ],
+      rotations: [makeRotation('icu')],
+      residents,
+    })
+
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]).toMatchObject({
+      type: 'DOUBLE_BOOKING',
+      severity: 'ERROR',
+      residentIds: ['res-a'],
+      scheduleIds: ['s1', 's2'],
+      overlapStart: '2025-07-20',
+      overlapEnd: '2025-07-28',
+    })
+  })
+
+  it('warns when vacation overlaps a rotation', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [
+        makeSchedule('s1', 'ROTATION', [{ residentId: 'res-b', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' }]),
+        makeSchedule('v1', 'VACATION', [{ residentId: 'res-b', start: '2025-07-14', end: '2025-07-18' }]),
+      ],
+      rotations: [makeRotation('icu')],
+      residents,
+    })
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'VACATION_OVERLAP',
+      severity: 'WARNING',
+      rotationId: 'icu',
+      overlapStart: '2025-07-14',
+      overlapEnd: '2025-07-18',
+    })])
+  })
+
+  it('flags residents assigned outside the rotation PGY levels', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [makeSchedule('s1', 'ROTATION', [{ residentId: 'res-a', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' }])],
+      rotations: [makeRotation('icu', { pgyLevels: [2, 3] })],
+      residents,
+    })
+
+    expect(conflicts).toEqual([expect.objectContaining({ type: 'PGY_INELIGIBLE', residentIds: ['res-a'], rotationId: 'icu' })])
+  })
+
+  it('flags the window where a rotation runs over capacity', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [makeSchedule('s1', 'ROTATION', [
+        { residentId: 'res-a', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' },
+        { residentId: 'res-b', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' },
+        { residentId: 'res-c', rotationId: 'icu', start: '2025-07-15', end: '2025-08-11' },
+      ])],
+      rotations: [makeRotation('icu')],
+      residents,
+    })
+
+    expect(conflicts).toEqual([expect.objectContaining({
+      type: 'OVER_CAPACITY',
+      residentIds: ['res-a', 'res-b', 'res-c'],
+      overlapStart: '2025-07-15',
+      overlapEnd: '2025-07-28',
+    })])
+  })
+
+  it('ignores archived schedules', () => {
+    const conflicts = detectScheduleConflicts({
+      schedules: [
+        makeSchedule('s1', 'ROTATION', [{ residentId: 'res-a', rotationId: 'icu', start: '2025-07-01', end: '2025-07-28' }]),
+        makeSchedule('s0', 'ROTATION', [{ residentId: 'res-a', rotationId: 'wards', start: '2025-07-01', end: '2025-07-28' }], 'ARCHIVED'),
+      ],
+      rotations: [makeRotation('icu'), makeRotation('wards')],
+      residents,
+    })
+
+    expect(conflicts).toEqual([])
+  })
+})
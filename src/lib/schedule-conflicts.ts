@@ -0,0 +1,228 @@
+/**
+ * EMMA Healthcare Schedule Conflict Engine
+ *
+ * Scans Schedule documents and reports typed conflicts: double bookings,
+ * rotations over capacity, PGY-ineligible assignments and vacations that
+ * overlap rotation assignments.
+ */
+
+import { format } from 'date-fns'
+import { Rotation, Schedule, ScheduleConflict } from '@/types/database'
+import { PGYLevel } from '@/types/user'
+import { toDate } from './date-utils'
+
+// Schedule types that occupy a resident full-time - two of these cannot overlap
+const BLOCKING_SCHEDULE_TYPES: Schedule['type'][] = ['ROTATION', 'RESEARCH']
+
+export interface ConflictResident {
+  id: string
+  name?: string
+  pgyLevel?: PGYLevel
+}
+
+export interface ConflictScanInput {
+  schedules: Schedule[]
+  rotations: Rotation[]
+  residents: ConflictResident[]
+}
+
+interface AssignmentInterval {
+  scheduleId: string
+  scheduleType: Schedule['type']
+  residentId: string
+  rotationId?: string
+  start: number
+  end: number
+}
+
+const toIsoDate = (millis: number): string => format(millis, 'yyyy-MM-dd')
+
+/**
+ * Flatten schedule assignments into dated intervals. Assignments without their
+ * own window inherit the schedule's start and end dates.
+ */
+function expandAssignments(schedules: Schedule[]): AssignmentInterval[] {
+  const intervals: AssignmentInterval[] = []
+
+  schedules
+    .filter(schedule => schedule.status !== 'ARCHIVED')
+    .forEach(schedule => {
+      (schedule.assignments || []).forEach(assignment => {
+        const start = toDate(assignment.startDate ?? schedule.startDate)
+        const end = toDate(assignment.endDate ?? schedule.endDate)
+        if (!start || !end) return
+
+        intervals.push({
+          scheduleId: schedule.id,
+          scheduleType: schedule.type,
+          residentId: assignment.residentId,
+          rotationId: assignment.rotationId,
+          start: start.getTime(),
+          end: end.getTime(),
+        })
+      })
+    })
+
+  return intervals
+}
+
+const overlaps = (a: AssignmentInterval, b: AssignmentInterval): boolean =>
+  a.start <= b.end && b.start <= a.end
+
+/**
+ * Detect every conflict across the given schedules
+ */
+export function detectScheduleConflicts(input: ConflictScanInput): ScheduleConflict[] {
+  const intervals = expandAssignments(input.schedules)
+  const rotationsById = new Map(input.rotations.map(rotation => [rotation.id, rotation]))
+  const residentsById = new Map(input.residents.map(resident => [resident.id, resident]))
+
+  const residentLabel = (residentId: string) => residentsById.get(residentId)?.name || residentId
+  const rotationLabel = (rotationId?: string) =>
+    (rotationId && rotationsById.get(rotationId)?.name) || rotationId || 'an unassigned block'
+
+  const conflicts: ScheduleConflict[] = []
+
+  // Resident-level checks: double booking and vacation overlap
+  const byResident = new Map<string, AssignmentInterval[]>()
+  intervals.forEach(interval => {
+    byResident.set(interval.residentId, [...(byResident.get(interval.residentId) ?? []), interval])
+  })
+
+  byResident.forEach((residentIntervals, residentId) => {
+    const sorted = [...residentIntervals].sort((a, b) => a.start - b.start)
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length && sorted[j].start <= sorted[i].end; j++) {
+        const a = sorted[i]
+        const b = sorted[j]
+        if (!overlaps(a, b)) continue
+
+        const overlapStart = toIsoDate(Math.max(a.start, b.start))
+        const overlapEnd = toIsoDate(Math.min(a.end, b.end))
+
+        if (BLOCKING_SCHEDULE_TYPES.includes(a.scheduleType) && BLOCKING_SCHEDULE_TYPES.includes(b.scheduleType)) {
+          conflicts.push({
+            id: `DOUBLE_BOOKING:${residentId}:${a.scheduleId}:${a.rotationId}:${b.scheduleId}:${b.rotationId}:${overlapStart}`,
+            type: 'DOUBLE_BOOKING',
+            severity: 'ERROR',
+            message: `${residentLabel(residentId)} is booked on ${rotationLabel(a.rotationId)} and ${rotationLabel(b.rotationId)} from ${overlapStart} to ${overlapEnd}`,
+            residentIds: [residentId],
+            rotationId: a.rotationId,
+            scheduleIds: Array.from(new Set([a.scheduleId, b.scheduleId])),
+            overlapStart,
+            overlapEnd,
+          })
+          continue
+        }
+
+        const vacation = a.scheduleType === 'VACATION' ? a : b.scheduleType === 'VACATION' ? b : null
+        const rotation = a.scheduleType === 'ROTATION' ? a : b.scheduleType === 'ROTATION' ? b : null
+
+        if (vacation && rotation) {
+          conflicts.push({
+            id: `VACATION_OVERLAP:${residentId}:${vacation.scheduleId}:${rotation.scheduleId}:${rotation.rotationId}:${overlapStart}`,
+            type: 'VACATION_OVERLAP',
+            severity: 'WARNING',
+            message: `${residentLabel(residentId)} has vacation from ${overlapStart} to ${overlapEnd} during ${rotationLabel(rotation.rotationId)}`,
+            residentIds: [residentId],
+            rotationId: rotation.rotationId,
+            scheduleIds: Array.from(new Set([vacation.scheduleId, rotation.scheduleId])),
+            overlapStart,
+            overlapEnd,
+          })
+        }
+      }
+    }
+  })
+
+  // Rotation-level checks: PGY eligibility and capacity
+  const byRotation = new Map<string, AssignmentInterval[]>()
+  intervals
+    .filter(interval => interval.rotationId && interval.scheduleType === 'ROTATION')
+    .forEach(interval => {
+      byRotation.set(interval.rotationId!, [...(byRotation.get(interval.rotationId!) ?? []), interval])
+    })
+
+  byRotation.forEach((rotationIntervals, rotationId) => {
+    const rotation = rotationsById.get(rotationId)
+    if (!rotation) return
+
+    const ineligible = new Map<string, Set<string>>()
+    rotationIntervals.forEach(interval => {
+      const pgyLevel = residentsById.get(interval.residentId)?.pgyLevel
+      if (pgyLevel && !rotation.pgyLevels.includes(pgyLevel)) {
+        ineligible.set(interval.residentId, (ineligible.get(interval.residentId) ?? new Set()).add(interval.scheduleId))
+      }
+    })
+
+    ineligible.forEach((scheduleIds, residentId) => {
+      conflicts.push({
+        id: `PGY_INELIGIBLE:${residentId}:${rotationId}`,
+        type: 'PGY_INELIGIBLE',
+        severity: 'ERROR',
+        message: `${residentLabel(residentId)} (PGY-${residentsById.get(residentId)!.pgyLevel}) is assigned to ${rotation.name}, which is limited to PGY-${rotation.pgyLevels.join('/')}`,
+        residentIds: [residentId],
+        rotationId,
+        scheduleIds: Array.from(scheduleIds),
+      })
+    })
+
+    const capacityConflict = findCapacityConflict(rotation, rotationIntervals)
+    if (capacityConflict) {
+      conflicts.push({
+        ...capacityConflict,
+        message: `${rotation.name} has ${capacityConflict.residentIds.length} residents assigned from ${capacityConflict.overlapStart} to ${capacityConflict.overlapEnd} (capacity ${rotation.capacity})`,
+      })
+    }
+  })
+
+  const severityOrder = { ERROR: 0, WARNING: 1 }
+  return conflicts.sort((a, b) =>
+    severityOrder[a.severity] - severityOrder[b.severity] ||
+    a.type.localeCompare(b.type) ||
+    a.id.localeCompare(b.id)
+  )
+}
+
+/**
+ * Sweep a rotation's assignments in date order and report the busiest window
+ * in which more distinct residents are assigned than the rotation's capacity
+ */
+function findCapacityConflict(
+  rotation: Rotation,
+  intervals: AssignmentInterval[]
+): Omit<ScheduleConflict, 'message'> | null {
+  const boundaries = Array.from(new Set(intervals.flatMap(interval => [interval.start, interval.end])))
+    .sort((a, b) => a - b)
+
+  let peak: { residentIds: string[]; scheduleIds: string[]; start: number; end: number } | null = null
+
+  for (const point of boundaries) {
+    const active = intervals.filter(interval => interval.start <= point && interval.end >= point)
+    const residentIds = Array.from(new Set(active.map(interval => interval.residentId)))
+
+    if (residentIds.length > rotation.capacity && (!peak || residentIds.length > peak.residentIds.length)) {
+      peak = {
+        residentIds,
+        scheduleIds: Array.from(new Set(active.map(interval => interval.scheduleId))),
+        start: Math.max(...active.map(interval => interval.start)),
+        end: Math.min(...active.map(interval => interval.end)),
+      }
+    }
+  }
+
+  if (!peak) return null
+  const { residentIds, scheduleIds, start, end } = peak
+
+  return {
+    id: `OVER_CAPACITY:${rotation.id}:${toIsoDate(start)}`,
+    type: 'OVER_CAPACITY',
+    severity: 'ERROR',
+    residentIds: residentIds.sort(),
+    rotationId: rotation.id,
+    scheduleIds,
+    overlapStart: toIsoDate(start),
+    overlapEnd: toIsoDate(end),
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { Rotation } from '@/types/database'
+import { buildBlocks, isEligibleForRotation, solveRotationSchedule, SolverResident } from './schedule-solver'
+
+const YEAR_START = new Date(2025, 6, 1)
+const YEAR_END = new Date(2026, 5, 30, 23, 59, 59, 999)
+
+const makeRotation = (overrides: Partial<Rotation> & Pick<Rotation, 'id'>): Rotation => ({
+  name: overrides.id.toUpperCase(),
+  duration: 4,
+  capacity: 1,
+  isRequired: false,
+  pgyLevels: [1, 2, 3],
+  status: 'ACTIVE',
+  attendingPhysicians: [],
+  schedule: { daysOfWeek: [1, 2, 3, 4, 5], startTime: '08:00', endTime: '17:00' },
+  ...overrides,
+}) as Rotation
+
+const residents: SolverResident[] = [
+  { id: 'res-a', pgyLevel: 1 },
+  { id: 'res-b', pgyLevel: 1 },
+]
+
+describe('buildBlocks', () => {
+  it('splits an academic year into 13 four-week blocks', () => {
+    const blocks = buildBlocks(YEAR_START, YEAR_END, 4)
+
+    expect(blocks).toHaveLength(13)
+    expect(blocks[0].startDate).toEqual(YEAR_START)
+    expect(blocks[12].endDate.getTime()).toBeLessThanOrEqual(YEAR_END.getTime())
+    blocks.slice(1).forEach((block, index) => {
+      expect(block.startDate.getTime()).toBeGreaterThan(blocks[index].endDate.getTime())
+    })
+  })
+
+  it('folds a short remainder into the last block', () => {
+    const blocks = buildBlocks(new Date(2025, 6, 1), new Date(2025, 7, 5), 4)
+
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0].endDate.getDate()).toBe(5)
+  })
+})
+
+describe('isEligibleForRotation', () => {
+  it('requires a recorded PGY level the rotation accepts', () => {
+    const rotation = makeRotation({ id: 'icu', pgyLevels: [2, 3] })
+
+    expect(isEligibleForRotation({ id: 'r', pgyLevel: 2 }, rotation)).toBe(true)
+    expect(isEligibleForRotation({ id: 'r', pgyLevel: 1 }, rotation)).toBe(false)
+    expect(isEligibleForRotation({ id: 'r' }, rotation)).toBe(false)
+  })
+})
+
+describe('solveRotationSchedule', () => {
+  it('never puts more residents on a rotation than its capacity', () => {
+    const rotations = [makeRotation({ id: 'icu' }), makeRotation({ id: 'wards', capacity: 2 })]
+    const result = solveRotationSchedule({ startDate: YEAR_START, endDate: YEAR_END, residents, rotations })
+
+    result.blocks.forEach(block => {
+      rotations.forEach(rotation => {
+        const placed = result.assignments.filter(assignment =>
+          assignment.rotationId === rotation.id && assignment.blockIndexes.includes(block.index)
+        )
+        expect(placed.length).toBeLessThanOrEqual(rotation.capacity)
+      })
+    })
+    expect(result.stats.filledBlocks).toBe(result.stats.totalBlocks)
+  })
+
+  it('gives every eligible resident each required rotation', () => {
+    const rotations = [makeRotation({ id: 'icu', isRequired: true }), makeRotation({ id: 'wards', capacity: 2 })]
+    const result = solveRotationSchedule({ startDate: YEAR_START, endDate: YEAR_END, residents, rotations })
+
+    residents.forEach(resident => {
+      expect(result.assignments.some(a => a.residentId === resident.id && a.rotationId === 'icu')).toBe(true)
+    })
+    expect(result.unmetConstraints.filter(constraint => constraint.severity === 'ERROR')).toEqual([])
+  })
+
+  it('honours first-choice rankings where capacity allows', () => {
+    const rotations = [makeRotation({ id: 'icu' }), makeRotation({ id: 'wards' })]
+    const result = solveRotationSchedule({
+      startDate: YEAR_START,
+      endDate: YEAR_END,
+      residents,
+      rotations,
+      preferences: { 'res-a': ['icu'], 'res-b': ['wards'] },
+    })
+
+    const firstBlock = result.assignments.filter(assignment => assignment.blockIndexes.includes(0))
+    expect(firstBlock.find(a => a.residentId === 'res-a')?.rotationId).toBe('icu')
+    expect(firstBlock.find(a => a.residentId === 'res-b')?.rotationId).toBe('wards')
+    expect(result.stats.preferenceSatisfaction).toBe(100)
+  })
+
+  it('reports residents no active rotation is open to', () => {
+    const result = solveRotationSchedule({
+      startDate: YEAR_START,
+      endDate: YEAR_END,
+      residents: [{ id: 'res-c', pgyLevel: 4 }],
+      rotations: [makeRotation({ id: 'icu', pgyLevels: [1] })],
+    })
+
+    expect(result.assignments).toEqual([])
+    expect(result.unmetConstraints).toContainEqual(expect.objectContaining({
+      type: 'NO_ELIGIBLE_ROTATIONS',
+      residentId: 'res-c',
+    }))
+  })
+
+  it('reports a required rotation it cannot seat', () => {
+    const result = solveRotationSchedule({
+      startDate: YEAR_START,
+      endDate: new Date(2025, 6, 28),
+      residents,
+      rotations: [makeRotation({ id: 'icu', isRequired: true })],
+    })
+
+    expect(result.unmetConstraints).toContainEqual(expect.objectContaining({
+      type: 'REQUIRED_ROTATION_UNPLACED',
+      rotationId: 'icu',
+    }))
+  })
+})
@@ -0,0 +1,440 @@
+/**
+ * EMMA Healthcare Rotation Schedule Solver
+ *
+ * Builds a draft block schedule for an academic year from the active residents
+ * and rotations. The solver is deterministic and greedy:
+ *   1. Required rotations are placed first, scarcest rotation first
+ *   2. Remaining blocks are filled from preference rankings, round-robin so the
+ *      residents with the fewest satisfied preferences choose next
+ * Capacity and PGY eligibility are hard constraints. Anything the solver could
+ * not satisfy is returned as an UnmetConstraint rather than silently dropped.
+ */
+
+import { addWeeks, subDays, startOfDay, endOfDay } from 'date-fns'
+import { Rotation, UnmetConstraint } from '@/types/database'
+import { PGYLevel } from '@/types/user'
+import { toDate } from './date-utils'
+
+export const DEFAULT_BLOCK_LENGTH_WEEKS = 4
+
+export interface SolverResident {
+  id: string
+  name?: string
+  pgyLevel?: PGYLevel
+  supervisingFacultyId?: string
+}
+
+export interface SolverInput {
+  startDate: Date
+  endDate: Date
+  residents: SolverResident[]
+  rotations: Rotation[]
+  preferences?: Record<string, string[]> // residentId -> rotation IDs, most preferred first
+  blockLengthWeeks?: number
+}
+
+export interface SolverBlock {
+  index: number
+  startDate: Date
+  endDate: Date
+}
+
+export interface SolverAssignment {
+  residentId: string
+  rotationId: string
+  supervisorId?: string
+  location?: string
+  startDate: Date
+  endDate: Date
+  blockIndexes: number[]
+  preferenceRank?: number // 1-based position in the resident's rankings
+}
+
+export interface SolverResult {
+  blocks: SolverBlock[]
+  assignments: SolverAssignment[]
+  unmetConstraints: UnmetConstraint[]
+  stats: {
+    filledBlocks: number
+    totalBlocks: number
+    preferenceSatisfaction: number // % of residents with rankings who got their first choice
+  }
+}
+
+/**
+ * Split an academic year into consecutive blocks of `blockLengthWeeks`
+ */
+export function buildBlocks(startDate: Date, endDate: Date, blockLengthWeeks: number): SolverBlock[] {
+  const blocks: SolverBlock[] = []
+  let cursor = startOfDay(startDate)
+
+  while (cursor <= endDate) {
+    let nextStart = addWeeks(cursor, blockLengthWeeks)
+
+    // Fold a trailing remainder shorter than half a block into the last block
+    const remainderEnd = addWeeks(nextStart, blockLengthWeeks / 2)
+    if (nextStart <= endDate && remainderEnd > endDate) {
+      nextStart = addWeeks(endDate, blockLengthWeeks)
+    }
+
+    const blockEnd = subDays(nextStart, 1)
+
+    blocks.push({
+      index: blocks.length,
+      startDate: cursor,
+      endDate: blockEnd > endDate ? endOfDay(endDate) : endOfDay(blockEnd),
+    })
+
+    cursor = nextStart
+  }
+
+  return blocks
+}
+
+/**
+ * Check whether a resident's PGY level allows them to take a rotation
+ */
+export function isEligibleForRotation(resident: SolverResident, rotation: Rotation): boolean {
+  return !!resident.pgyLevel && rotation.pgyLevels.includes(resident.pgyLevel)
+}
+
+class RotationScheduleSolver {
+  private readonly blocks: SolverBlock[]
+  private readonly blockLengthWeeks: number
+  private readonly residents: SolverResident[]
+  private readonly rotations: Rotation[]
+  private readonly preferences: Record<string, string[]>
+
+  // rotationId -> residents placed per block
+  private readonly occupancy = new Map<string, number[]>()
+  // residentId -> rotationId (or null) per block
+  private readonly calendar = new Map<string, (string | null)[]>()
+  // residentId -> number of ranked rotations received
+  private readonly satisfied = new Map<string, number>()
+
+  private readonly assignments: SolverAssignment[] = []
+  private readonly unmetConstraints: UnmetConstraint[] = []
+
+  constructor(input: SolverInput) {
+    this.blockLengthWeeks = input.blockLengthWeeks ?? DEFAULT_BLOCK_LENGTH_WEEKS
+    this.blocks = buildBlocks(input.startDate, input.endDate, this.blockLengthWeeks)
+    this.residents = [...input.residents].sort((a, b) => a.id.localeCompare(b.id))
+    this.rotations = input.rotations.filter(rotation => rotation.status === 'ACTIVE' && rotation.capacity > 0)
+    this.preferences = input.preferences ?? {}
+
+    this.rotations.forEach(rotation => {
+      this.occupancy.set(rotation.id, new Array(this.blocks.length).fill(0))
+    })
+    this.residents.forEach(resident => {
+      this.calendar.set(resident.id, new Array(this.blocks.length).fill(null))
+      this.satisfied.set(resident.id, 0)
+    })
+  }
+
+  solve(): SolverResult {
+    this.reportIneligibleResidents()
+    this.placeRequiredRotations()
+    this.fillRemainingBlocks()
+    this.reportPreferenceOutcomes()
+    this.reportEmptyRotations()
+
+    const totalBlocks = this.residents.length * this.blocks.length
+    const filledBlocks = Array.from(this.calendar.values())
+      .reduce((sum, slots) => sum + slots.filter(slot => slot !== null).length, 0)
+
+    const rankedResidents = this.residents.filter(resident => this.getRankings(resident.id).length > 0)
+    const firstChoiceResidents = rankedResidents.filter(resident =>
+      this.assignments.some(assignment =>
+        assignment.residentId === resident.id && assignment.preferenceRank === 1
+      )
+    )
+
+    return {
+      blocks: this.blocks,
+      assignments: this.assignments.sort((a, b) =>
+        a.residentId.localeCompare(b.residentId) || a.startDate.getTime() - b.startDate.getTime()
+      ),
+      unmetConstraints: this.unmetConstraints,
+      stats: {
+        filledBlocks,
+        totalBlocks,
+        preferenceSatisfaction: rankedResidents.length > 0
+          ? Math.round((firstChoiceResidents.length / rankedResidents.length) * 100)
+          : 100,
+      },
+    }
+  }
+
+  // ===== PHASES =====
+
+  private reportIneligibleResidents(): void {
+    this.residents.forEach(resident => {
+      if (!this.rotations.some(rotation => isEligibleForRotation(resident, rotation))) {
+        this.unmetConstraints.push({
+          type: 'NO_ELIGIBLE_ROTATIONS',
+          severity: 'ERROR',
+          residentId: resident.id,
+          message: resident.pgyLevel
+            ? `${this.residentLabel(resident)} (PGY-${resident.pgyLevel}) has no active rotation open to their PGY level`
+            : `${this.residentLabel(resident)} has no PGY level recorded and cannot be matched`,
+        })
+      }
+    })
+  }
+
+  private placeRequiredRotations(): void {
+    const requiredPairs: { resident: SolverResident; rotation: Rotation; scarcity: number }[] = []
+
+    this.rotations
+      .filter(rotation => rotation.isRequired)
+      .forEach(rotation => {
+        const eligibleResidents = this.residents.filter(resident => isEligibleForRotation(resident, rotation))
+        if (eligibleResidents.length === 0) return
+
+        const openBlocks = this.blocks.filter(block => this.isRotationOpen(rotation, block)).length
+        // Seats available per resident who needs this rotation - lower is scarcer
+        const scarcity = (rotation.capacity * openBlocks) / (this.span(rotation) * eligibleResidents.length)
+
+        eligibleResidents.forEach(resident => requiredPairs.push({ resident, rotation, scarcity }))
+      })
+
+    requiredPairs.sort((a, b) =>
+      a.scarcity - b.scarcity ||
+      a.rotation.id.localeCompare(b.rotation.id) ||
+      this.rankOf(a.resident.id, a.rotation.id) - this.rankOf(b.resident.id, b.rotation.id) ||
+      a.resident.id.localeCompare(b.resident.id)
+    )
+
+    requiredPairs.forEach(({ resident, rotation }) => {
+      const startBlock = this.findLeastLoadedStart(resident, rotation)
+
+      if (startBlock === null) {
+        const freeBlocks = this.calendar.get(resident.id)!.filter(slot => slot === null).length
+        this.unmetConstraints.push({
+          type: 'REQUIRED_ROTATION_UNPLACED',
+          severity: 'ERROR',
+          residentId: resident.id,
+          rotationId: rotation.id,
+          message: freeBlocks < this.span(rotation)
+            ? `${this.residentLabel(resident)} has no room left in their year for required rotation ${rotation.name}`
+            : `Required rotation ${rotation.name} has no free seat in any block open to ${this.residentLabel(resident)} (capacity ${rotation.capacity})`,
+        })
+        return
+      }
+
+      this.place(resident, rotation, startBlock)
+    })
+  }
+
+  private fillRemainingBlocks(): void {
+    const unassigned = new Map<string, number[]>()
+
+    this.blocks.forEach(block => {
+      const freeResidents = this.residents
+        .filter(resident => this.calendar.get(resident.id)![block.index] === null)
+        .sort((a, b) => this.satisfied.get(a.id)! - this.satisfied.get(b.id)! || a.id.localeCompare(b.id))
+
+      freeResidents.forEach(resident => {
+        // A multi-block rotation placed earlier in this pass may already cover this block
+        if (this.calendar.get(resident.id)![block.index] !== null) return
+
+        const rotation = this.chooseRotation(resident, block.index)
+
+        if (!rotation) {
+          unassigned.set(resident.id, [...(unassigned.get(resident.id) ?? []), block.index])
+          return
+        }
+
+        this.place(resident, rotation, block.index)
+      })
+    })
+
+    unassigned.forEach((blockIndexes, residentId) => {
+      const resident = this.residents.find(r => r.id === residentId)!
+      // Residents with no eligible rotations were already reported
+      if (!this.rotations.some(rotation => isEligibleForRotation(resident, rotation))) return
+
+      blockIndexes.forEach(blockIndex => {
+        this.unmetConstraints.push({
+          type: 'UNASSIGNED_BLOCK',
+          severity: 'WARNING',
+          residentId,
+          blockIndex,
+          message: `${this.residentLabel(resident)} could not be placed in block ${blockIndex + 1}: every eligible rotation is at capacity`,
+        })
+      })
+    })
+  }
+
+  private reportPreferenceOutcomes(): void {
+    this.residents.forEach(resident => {
+      const rankings = this.getRankings(resident.id)
+      if (rankings.length === 0) return
+
+      const received = this.assignments.some(assignment =>
+        assignment.residentId === resident.id && assignment.rotationId === rankings[0]
+      )
+
+      if (!received) {
+        const rotation = this.rotations.find(r => r.id === rankings[0])
+        this.unmetConstraints.push({
+          type: 'PREFERENCE_NOT_MET',
+          severity: 'INFO',
+          residentId: resident.id,
+          rotationId: rankings[0],
+          message: !rotation
+            ? `${this.residentLabel(resident)} ranked a rotation that is not active this year`
+            : !isEligibleForRotation(resident, rotation)
+              ? `${this.residentLabel(resident)} ranked ${rotation.name} first but is not eligible at their PGY level`
+              : `${this.residentLabel(resident)} did not receive their first choice (${rotation.name})`,
+        })
+      }
+    })
+  }
+
+  private reportEmptyRotations(): void {
+    this.rotations.forEach(rotation => {
+      const hasEligibleResidents = this.residents.some(resident => isEligibleForRotation(resident, rotation))
+      const isUsed = this.assignments.some(assignment => assignment.rotationId === rotation.id)
+
+      if (hasEligibleResidents && !isUsed) {
+        this.unmetConstraints.push({
+          type: 'ROTATION_UNDERFILLED',
+          severity: 'WARNING',
+          rotationId: rotation.id,
+          message: `${rotation.name} received no residents in the proposed schedule`,
+        })
+      }
+    })
+  }
+
+  // ===== PLACEMENT HELPERS =====
+
+  /**
+   * Pick the best rotation for a resident starting at a block: ranked rotations
+   * first (in rank order), then the least utilised eligible rotation. Repeating
+   * a rotation the resident already has is only allowed as a last resort.
+   */
+  private chooseRotation(resident: SolverResident, blockIndex: number): Rotation | null {
+    const candidates = this.rotations.filter(rotation =>
+      isEligibleForRotation(resident, rotation) && this.canPlace(resident, rotation, blockIndex)
+    )
+    if (candidates.length === 0) return null
+
+    const alreadyTaken = new Set(
+      this.assignments.filter(a => a.residentId === resident.id).map(a => a.rotationId)
+    )
+    const fresh = candidates.filter(rotation => !alreadyTaken.has(rotation.id))
+    const pool = fresh.length > 0 ? fresh : candidates
+
+    return [...pool].sort((a, b) =>
+      this.rankOf(resident.id, a.id) - this.rankOf(resident.id, b.id) ||
+      this.utilization(a) - this.utilization(b) ||
+      a.id.localeCompare(b.id)
+    )[0]
+  }
+
+  private findLeastLoadedStart(resident: SolverResident, rotation: Rotation): number | null {
+    let best: { start: number; load: number } | null = null
+
+    for (let start = 0; start < this.blocks.length; start++) {
+      if (!this.canPlace(resident, rotation, start)) continue
+
+      const occupancy = this.occupancy.get(rotation.id)!
+      const load = this.blockRange(rotation, start).reduce((sum, index) => sum + occupancy[index], 0)
+
+      if (!best || load < best.load) {
+        best = { start, load }
+      }
+    }
+
+    return best ? best.start : null
+  }
+
+  private canPlace(resident: SolverResident, rotation: Rotation, startBlock: number): boolean {
+    const range = this.blockRange(rotation, startBlock)
+    if (range.length < this.span(rotation)) return false
+
+    const slots = this.calendar.get(resident.id)!
+    const occupancy = this.occupancy.get(rotation.id)!
+
+    return range.every(index =>
+      slots[index] === null &&
+      occupancy[index] < rotation.capacity &&
+      this.isRotationOpen(rotation, this.blocks[index])
+    )
+  }
+
+  private place(resident: SolverResident, rotation: Rotation, startBlock: number): void {
+    const range = this.blockRange(rotation, startBlock)
+    const slots = this.calendar.get(resident.id)!
+    const occupancy = this.occupancy.get(rotation.id)!
+
+    range.forEach(index => {
+      slots[index] = rotation.id
+      occupancy[index] += 1
+    })
+
+    const rank = this.rankOf(resident.id, rotation.id)
+    if (rank !== Number.MAX_SAFE_INTEGER) {
+      this.satisfied.set(resident.id, this.satisfied.get(resident.id)! + 1)
+    }
+
+    this.assignments.push({
+      residentId: resident.id,
+      rotationId: rotation.id,
+      supervisorId: rotation.attendingPhysicians?.[0] ?? resident.supervisingFacultyId,
+      location: rotation.location?.building || undefined,
+      startDate: this.blocks[range[0]].startDate,
+      endDate: this.blocks[range[range.length - 1]].endDate,
+      blockIndexes: range,
+      preferenceRank: rank !== Number.MAX_SAFE_INTEGER ? rank : undefined,
+    })
+  }
+
+  private isRotationOpen(rotation: Rotation, block: SolverBlock): boolean {
+    const windowStart = toDate(rotation.schedule?.startDate)
+    const windowEnd = toDate(rotation.schedule?.endDate)
+
+    if (windowStart && block.startDate < startOfDay(windowStart)) return false
+    if (windowEnd && block.endDate > endOfDay(windowEnd)) return false
+    return true
+  }
+
+  private blockRange(rotation: Rotation, startBlock: number): number[] {
+    const end = Math.min(startBlock + this.span(rotation), this.blocks.length)
+    const range: number[] = []
+    for (let index = startBlock; index < end; index++) range.push(index)
+    return range
+  }
+
+  private span(rotation: Rotation): number {
+    return Math.max(1, Math.ceil(rotation.duration / this.blockLengthWeeks))
+  }
+
+  private utilization(rotation: Rotation): number {
+    const occupancy = this.occupancy.get(rotation.id)!
+    return occupancy.reduce((sum, count) => sum + count, 0) / (rotation.capacity * this.blocks.length)
+  }
+
+  private getRankings(residentId: string): string[] {
+    return this.preferences[residentId] ?? []
+  }
+
+  private rankOf(residentId: string, rotationId: string): number {
+    const index = this.getRankings(residentId).indexOf(rotationId)
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index + 1
+  }
+
+  private residentLabel(resident: SolverResident): string {
+    return resident.name || resident.id
+  }
+}
+
+/**
+ * Generate a draft rotation schedule. Pure function - persisting the result
+ * as a Schedule document is left to ScheduleService.
+ */
+export function solveRotationSchedule(input: SolverInput): SolverResult {
+  return new RotationScheduleSolver(input).solve()
+}
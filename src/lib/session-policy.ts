@@ -0,0 +1,87 @@
+/**
+ * EMMA Healthcare Session Policy
+ *
+ * Inactivity rules from an institution's SystemSettings: the screen lock
+ * shown in the dashboard after `hipaa.screenLockTimeout`, and the idle
+ * `authentication.sessionTimeout` after which the server rejects the session.
+ * Also decides when an account change ends sessions already signed in.
+ */
+
+import { ExtendedUser, SystemSettings } from '@/types/database'
+import { getInstitutionAccess } from './institutions'
+import { AuthenticationSettings } from './password-policy'
+
+export type HipaaSettings = SystemSettings['hipaa']
+
+// Used when an institution has no system settings document
+export const DEFAULT_HIPAA_SETTINGS: HipaaSettings = {
+  auditLogging: true,
+  dataRetentionDays: 2555, // 7 years
+  automaticLogout: true,
+  screenLockTimeout: 15, // 15 minutes
+  requireEncryption: true
+}
+
+// Errors thrown from the NextAuth jwt callback to end a session
+export const SESSION_IDLE_ERROR = 'SessionIdleTimeout'
+export const SESSION_REVOKED_ERROR = 'SessionRevoked'
+
+// How often a session re-reads its user, so role changes, suspensions and
+// forced password resets reach sessions that are already signed in
+export const SESSION_REVALIDATE_INTERVAL_MS = 5 * 60 * 1000
+
+// Minimum gap between activity reports from the browser to the server
+export const SESSION_ACTIVITY_INTERVAL_MS = 60 * 1000
+
+// Browser storage key holding the ID of the user whose screen is locked, so a reload stays locked
+export const SCREEN_LOCK_STORAGE_KEY = 'emma-screen-lock'
+
+export interface SessionPolicy {
+  idleTimeoutMinutes: number | null // Null when automatic logout is off
+  screenLockMinutes: number | null // Null when the screen lock is off
+}
+
+/**
+ * Fill in any settings missing from a stored document with the defaults
+ */
+export function resolveHipaaSettings(settings?: Partial<HipaaSettings> | null): HipaaSettings {
+  return { ...DEFAULT_HIPAA_SETTINGS, ...settings }
+}
+
+/**
+ * Inactivity limits for an institution's sessions
+ */
+export function resolveSessionPolicy(
+  authentication: Pick<AuthenticationSettings, 'sessionTimeout'>,
+  hipaa: Pick<HipaaSettings, 'automaticLogout' | 'screenLockTimeout'>
+): SessionPolicy {
+  return {
+    idleTimeoutMinutes: hipaa.automaticLogout && authentication.sessionTimeout > 0 ? authentication.sessionTimeout : null,
+    screenLockMinutes: hipaa.screenLockTimeout > 0 ? hipaa.screenLockTimeout : null
+  }
+}
+
+/**
+ * Whether a session last active at lastActivityAt (epoch ms) has passed its idle timeout
+ */
+export function isSessionIdle(
+  lastActivityAt: number | undefined,
+  idleTimeoutMinutes: number | null | undefined,
+  now: number = Date.now()
+): boolean {
+  if (!lastActivityAt || !idleTimeoutMinutes) return false
+  return now - lastActivityAt >= idleTimeoutMinutes * 60 * 1000
+}
+
+/**
+ * Why a signed-in session may no longer continue for this user record, or
+ * null when it may. Sessions switched into another institution also end
+ * when the user's access there is removed.
+ */
+export function getSessionRevocationReason(user: ExtendedUser | null, institutionId?: string): string | null {
+  if (!user) return 'USER_NOT_FOUND'
+  if (user.status === 'SUSPENDED' || user.status === 'INACTIVE') return user.status
+  if (user.security?.passwordResetRequired) return 'PASSWORD_RESET_REQUIRED'
+  if (institutionId && !getInstitutionAccess(user, institutionId)) return 'INSTITUTION_ACCESS_REMOVED'
+  return null
+}
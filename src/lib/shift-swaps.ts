@@ -0,0 +1,308 @@
+/**
+ * EMMA Healthcare Shift Swaps
+ *
+ * Rules for residents trading call shifts: who may accept, approve or cancel
+ * a swap, the schedule changes it makes, and the checks run before it goes to
+ * a coordinator - call eligibility (PGY rules, leave, spacing and monthly
+ * limits), duty-hour violations the swap would introduce for either resident,
+ * and new schedule conflicts.
+ */
+
+import { addDays, eachDayOfInterval, format, startOfDay } from 'date-fns'
+import { Schedule, ScheduleAssignment, ShiftSwapRequest, ShiftSwapWarning, SwapShift } from '@/types/database'
+import { UserRole } from '@/types/user'
+import { CallEligibilityInput, CallShiftChange, applyCallShiftChanges, getCallShiftDate } from './call-scheduler'
+import { getAcademicYearRange, toDate } from './date-utils'
+import { DutyInterval, derivePlannedShifts, evaluateDutyHours } from './duty-hours'
+import { detectScheduleConflicts } from './schedule-conflicts'
+
+export type ShiftSwapAction = 'ACCEPT' | 'APPROVE' | 'DENY' | 'CANCEL'
+
+export const SHIFT_SWAP_ACTIONS: ShiftSwapAction[] = ['ACCEPT', 'APPROVE', 'DENY', 'CANCEL']
+
+export const SHIFT_SWAP_STATUSES: ShiftSwapRequest['status'][] = ['OPEN', 'PENDING_APPROVAL', 'APPROVED', 'DENIED', 'CANCELLED']
+
+// Swaps are approved by the program coordinator, as leave is
+const SWAP_APPROVER_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR']
+
+// A resident's upcoming call shift, as offered or given in return
+export interface SwapShiftOption extends SwapShift {
+  scheduleId: string
+}
+
+export interface ShiftSwapActionError {
+  status: number
+  error: string
+}
+
+export interface ShiftSwapAssessmentInput extends CallEligibilityInput {
+  callSchedule: Schedule // The published CALL schedule the shifts belong to
+  publishedSchedules: Schedule[] // Every published schedule, for the conflict scan
+  changes: CallShiftChange[]
+}
+
+export interface ShiftSwapAssessment {
+  error: string | null // Reason the swap cannot be made
+  warnings: ShiftSwapWarning[] // Shown to the coordinator deciding it
+  assignments: ScheduleAssignment[] // The call schedule with the swap applied
+}
+
+interface SwapActor {
+  id: string
+  role?: UserRole
+  permissions?: { canEditSchedules?: boolean }
+}
+
+/**
+ * Whether a user may see every swap and approve or deny them
+ */
+export function canDecideShiftSwaps(user: { role?: UserRole; permissions?: { canEditSchedules?: boolean } }): boolean {
+  return !!user.role && SWAP_APPROVER_ROLES.includes(user.role) && !!user.permissions?.canEditSchedules
+}
+
+/**
+ * Check whether an actor may accept, approve, deny or cancel a swap.
+ * Returns null when allowed, otherwise the HTTP status and reason.
+ */
+export function checkShiftSwapAction(
+  request: Pick<ShiftSwapRequest, 'status' | 'offeredBy' | 'offeredShift'>,
+  action: ShiftSwapAction,
+  actor: SwapActor,
+  now: Date = new Date()
+): ShiftSwapActionError | null {
+  const isApprover = canDecideShiftSwaps(actor)
+
+  if (action === 'ACCEPT') {
+    if (actor.role !== 'RESIDENT') {
+      return { status: 403, error: 'Only residents can take a colleague\'s shift' }
+    }
+    if (request.offeredBy === actor.id) {
+      return { status: 400, error: 'You cannot accept your own offer' }
+    }
+    if (request.status !== 'OPEN') {
+      return { status: 409, error: 'This shift is no longer on offer' }
+    }
+    const shiftDate = toDate(request.offeredShift.date)
+    if (!shiftDate || shiftDate < startOfDay(now)) {
+      return { status: 409, error: 'This shift has already passed' }
+    }
+    return null
+  }
+
+  if (action === 'CANCEL') {
+    if (request.offeredBy !== actor.id && !isApprover) {
+      return { status: 403, error: 'You can only cancel your own offers' }
+    }
+    if (request.status !== 'OPEN' && request.status !== 'PENDING_APPROVAL') {
+      return { status: 409, error: `Cannot cancel a swap that is ${request.status}` }
+    }
+    return null
+  }
+
+  if (!isApprover) {
+    return { status: 403, error: 'Only program coordinators can approve or deny swaps' }
+  }
+
+  if (request.status !== 'PENDING_APPROVAL') {
+    return { status: 409, error: `Cannot ${action.toLowerCase()} a swap that is ${request.status}` }
+  }
+
+  return null
+}
+
+/**
+ * The call assignment for a shift, if the schedule has one
+ */
+export function findCallShift(
+  assignments: ScheduleAssignment[],
+  shift: Pick<SwapShift, 'rotationId' | 'date'>
+): ScheduleAssignment | undefined {
+  return assignments.find(assignment =>
+    assignment.rotationId === shift.rotationId && getCallShiftDate(assignment) === shift.date
+  )
+}
+
+/**
+ * Why the call schedule can no longer carry a swap, or null if it can:
+ * it must still be published and each resident must still hold the shift
+ * they are giving up
+ */
+export function checkSwapSchedule(
+  request: Pick<ShiftSwapRequest, 'offeredBy' | 'offeredByName' | 'offeredShift'>,
+  schedule: Schedule | null,
+  acceptedBy: string,
+  returnShift?: Pick<SwapShift, 'rotationId' | 'date'>
+): string | null {
+  if (!schedule || schedule.status !== 'PUBLISHED' || schedule.type !== 'CALL') {
+    return 'The call schedule for this shift has been replaced'
+  }
+
+  if (findCallShift(schedule.assignments, request.offeredShift)?.residentId !== request.offeredBy) {
+    return `${request.offeredByName} no longer holds this shift`
+  }
+
+  if (returnShift && findCallShift(schedule.assignments, returnShift)?.residentId !== acceptedBy) {
+    return 'The shift offered in return is no longer held by the accepting resident'
+  }
+
+  return null
+}
+
+/**
+ * Whether a shift is already offered, or promised in return, on a swap that
+ * is still open or waiting for approval
+ */
+export function isShiftInActiveSwap(
+  requests: ShiftSwapRequest[],
+  scheduleId: string,
+  shift: Pick<SwapShift, 'rotationId' | 'date'>,
+  excludeRequestId?: string
+): boolean {
+  const sameShift = (other?: SwapShift) => !!other && other.rotationId === shift.rotationId && other.date === shift.date
+
+  return requests.some(request =>
+    request.id !== excludeRequestId &&
+    request.scheduleId === scheduleId &&
+    (request.status === 'OPEN' || request.status === 'PENDING_APPROVAL') &&
+    (sameShift(request.offeredShift) || sameShift(request.returnShift))
+  )
+}
+
+/**
+ * Schedule changes a swap makes: the offered shift goes to the accepting
+ * resident, and any return shift goes to the offering resident
+ */
+export function getShiftSwapChanges(
+  request: Pick<ShiftSwapRequest, 'offeredBy' | 'offeredShift' | 'returnShift'>,
+  acceptedBy: string
+): CallShiftChange[] {
+  const changes: CallShiftChange[] = [
+    { rotationId: request.offeredShift.rotationId, date: request.offeredShift.date, residentId: acceptedBy }
+  ]
+
+  if (request.returnShift) {
+    changes.push({ rotationId: request.returnShift.rotationId, date: request.returnShift.date, residentId: request.offeredBy })
+  }
+
+  return changes
+}
+
+/**
+ * Planned duty for one resident: regular rotation days plus their rostered
+ * calls, with the call day and the post-call day taken up by the call
+ */
+function planResidentDuty(
+  residentId: string,
+  callAssignments: ScheduleAssignment[],
+  input: CallEligibilityInput,
+  periodStart: Date,
+  periodEnd: Date
+): DutyInterval[] {
+  const rotations = new Map(input.rotations.map(rotation => [rotation.id, rotation]))
+  const calls: DutyInterval[] = []
+  const excludedDays = new Set<string>()
+
+  callAssignments
+    .filter(assignment => assignment.residentId === residentId)
+    .forEach(assignment => {
+      const start = toDate(assignment.startDate)
+      const end = toDate(assignment.endDate)
+      if (!start || !end) return
+
+      calls.push({ residentId, rotationId: assignment.rotationId, type: 'CALL', start, end })
+      excludedDays.add(format(start, 'yyyy-MM-dd'))
+      excludedDays.add(format(addDays(start, 1), 'yyyy-MM-dd'))
+    })
+
+  input.approvedLeave
+    .filter(leave => leave.residentId === residentId)
+    .forEach(leave => {
+      const start = toDate(leave.startDate)
+      const end = toDate(leave.endDate)
+      if (!start || !end) return
+      eachDayOfInterval({ start: startOfDay(start), end: startOfDay(end) })
+        .forEach(day => excludedDays.add(format(day, 'yyyy-MM-dd')))
+    })
+
+  const regular: DutyInterval[] = []
+  input.schedules.forEach(schedule => {
+    schedule.assignments
+      .filter(assignment => assignment.residentId === residentId)
+      .forEach(assignment => {
+        const rotation = assignment.rotationId ? rotations.get(assignment.rotationId) : undefined
+        const start = toDate(assignment.startDate ?? schedule.startDate)
+        const end = toDate(assignment.endDate ?? schedule.endDate)
+        if (!rotation || !start || !end || end < periodStart || start > periodEnd) return
+
+        // Rostered calls replace the rotation's call cadence
+        regular.push(...derivePlannedShifts({
+          residentId,
+          rotation: { ...rotation, schedule: { ...rotation.schedule, callSchedule: undefined } },
+          startDate: start < periodStart ? periodStart : start,
+          endDate: end > periodEnd ? periodEnd : end,
+          excludedDays
+        }))
+      })
+  })
+
+  return [...regular, ...calls]
+}
+
+/**
+ * Check a swap before it goes to a coordinator. Call eligibility is a hard
+ * rule; duty-hour violations and schedule conflicts the swap would introduce
+ * are flagged as warnings for the coordinator.
+ */
+export function assessShiftSwap(input: ShiftSwapAssessmentInput): ShiftSwapAssessment {
+  const { callSchedule, publishedSchedules, changes } = input
+  const { assignments, error } = applyCallShiftChanges(callSchedule.assignments, changes, input)
+  if (error) return { error, warnings: [], assignments: callSchedule.assignments }
+
+  const warnings: ShiftSwapWarning[] = []
+  const residentNames = new Map(input.residents.map(resident => [resident.id, resident.name || resident.id]))
+
+  const yearRange = getAcademicYearRange(callSchedule.academicYear)
+  const periodStart = yearRange?.startDate ?? toDate(callSchedule.startDate)
+  const periodEnd = yearRange?.endDate ?? toDate(callSchedule.endDate)
+
+  if (periodStart && periodEnd) {
+    const residentIds = new Set(changes.flatMap(change => {
+      const previous = findCallShift(callSchedule.assignments, change)
+      return previous ? [change.residentId, previous.residentId] : [change.residentId]
+    }))
+
+    residentIds.forEach(residentId => {
+      const violationIds = (callAssignments: ScheduleAssignment[]) => evaluateDutyHours(
+        residentId,
+        planResidentDuty(residentId, callAssignments, input, periodStart, periodEnd),
+        'PLANNED',
+        periodStart,
+        periodEnd
+      )
+
+      const before = new Set(violationIds(callSchedule.assignments).map(violation => violation.id))
+      violationIds(assignments)
+        .filter(violation => !before.has(violation.id))
+        .forEach(violation => {
+          warnings.push({
+            type: 'DUTY_HOURS',
+            message: `${residentNames.get(residentId) ?? residentId}: ${violation.message}`,
+            residentId
+          })
+        })
+    })
+  }
+
+  const conflictInput = { rotations: input.rotations, residents: input.residents }
+  const otherSchedules = publishedSchedules.filter(schedule => schedule.id !== callSchedule.id)
+  const before = new Set(
+    detectScheduleConflicts({ ...conflictInput, schedules: [...otherSchedules, callSchedule] }).map(conflict => conflict.id)
+  )
+  detectScheduleConflicts({ ...conflictInput, schedules: [...otherSchedules, { ...callSchedule, assignments }] })
+    .filter(conflict => !before.has(conflict.id))
+    .forEach(conflict => {
+      warnings.push({ type: 'SCHEDULE_CONFLICT', message: conflict.message, residentId: conflict.residentIds[0] })
+    })
+
+  return { error: null, warnings, assignments }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import {
+  RECOVERY_CODE_COUNT,
+  buildOtpauthUrl,
+  decodeBase32,
+  encodeBase32,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotp,
+} from './totp'
+
+// RFC 6238 Appendix B: the SHA-1 seed is the ASCII string "12345678901234567890"
+const RFC_SECRET = encodeBase32(Buffer.from('12345678901234567890', 'ascii'))
+
+// Unix time and the 8-digit SHA-1 TOTP from RFC 6238 Appendix B; EMMA uses the last 6 digits
+const RFC_VECTORS: [number, string][] = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+]
+
+describe('base32', () => {
+  it('encodes the RFC 4648 test vectors', () => {
+    expect(encodeBase32(Buffer.from('foobar'))).toBe('MZXW6YTBOI')
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ')
+  })
+
+  it('round-trips, ignoring case, padding and spaces', () => {
+    expect(decodeBase32('mzxw 6ytb oi======').toString()).toBe('foobar')
+    const secret = generateTotpSecret()
+    expect(encodeBase32(decodeBase32(secret))).toBe(secret)
+    expect(decodeBase32(secret)).toHaveLength(20)
+  })
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => decodeBase32('MZXW1')).toThrow('Invalid base32 character')
+  })
+})
+
+describe('generateTotp', () => {
+  it.each(RFC_VECTORS)('matches RFC 6238 at T=%i', (seconds, expected) => {
+    const step = getTotpStep(new Date(seconds * 1000))
+    expect(generateTotp(RFC_SECRET, step)).toBe(expected.slice(-6))
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = new Date(1111111111 * 1000)
+  const step = getTotpStep(now)
+
+  it('accepts the current code and returns its step', () => {
+    expect(verifyTotp(RFC_SECRET, '050 471', { now })).toBe(step)
+  })
+
+  it('accepts one step of clock drift either way, but not two', () => {
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), { now })).toBe(step - 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now })).toBe(step + 1)
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), { now })).toBeNull()
+  })
+
+  it('rejects a code from a step already used', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', { now, lastUsedStep: step })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), { now, lastUsedStep: step })).toBe(step + 1)
+  })
+
+  it('rejects malformed and wrong codes', () => {
+    expect(verifyTotp(RFC_SECRET, '05047', { now })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeNull()
+    expect(verifyTotp(RFC_SECRET, '050472', { now })).toBeNull()
+  })
+})
+
+describe('buildOtpauthUrl', () => {
+  it('describes the secret for authenticator apps', () => {
+    const url = new URL(buildOtpauthUrl(RFC_SECRET, 'ada@example.org', 'EMMA'))
+
+    expect(url.protocol).toBe('otpauth:')
+    expect(url.host).toBe('totp')
+    expect(decodeURIComponent(url.pathname)).toBe('/EMMA:ada@example.org')
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET,
+      issuer: 'EMMA',
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    })
+  })
+})
+
+describe('recovery codes', () => {
+  it('generates distinct XXXX-XXXX codes without confusable characters', () => {
+    const codes = generateRecoveryCodes()
+
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT)
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT)
+    codes.forEach(code => expect(code).toMatch(/^[A-HJKMNP-Z2-9]{4}-[A-HJKMNP-Z2-9]{4}$/))
+  })
+
+  it('normalizes codes as typed', () => {
+    expect(normalizeRecoveryCode(' abcd-efgh ')).toBe('ABCDEFGH')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * EMMA Healthcare User Management
+ *
+ * Listing filters, labels and the rules for which accounts an administrator
+ * may manage. Shared by the Users API routes and the Users console.
+ */
+
+import { ExtendedUser } from '@/types/database'
+import { Department, UserRole, UserStatus } from '@/types/user'
+import { PermissionHolder, hasPermission } from './permissions'
+
+export const USER_ROLES: UserRole[] = ['ADMIN', 'COORDINATOR', 'FACULTY', 'RESIDENT']
+
+export const USER_STATUSES: UserStatus[] = ['ACTIVE', 'PENDING_APPROVAL', 'PENDING_VERIFICATION', 'SUSPENDED', 'INACTIVE']
+
+// Roles anyone can register for; elevated roles come from invitations or a role change
+export const SELF_REGISTRATION_ROLES: UserRole[] = ['RESIDENT', 'FACULTY']
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  ADMIN: 'Administrator',
+  COORDINATOR: 'Program Coordinator',
+  FACULTY: 'Faculty',
+  RESIDENT: 'Resident'
+}
+
+export const USER_STATUS_LABELS: Record<UserStatus, string> = {
+  ACTIVE: 'Active',
+  PENDING_VERIFICATION: 'Pending Verification',
+  PENDING_APPROVAL: 'Pending Approval',
+  SUSPENDED: 'Suspended',
+  INACTIVE: 'Inactive'
+}
+
+// Listing filter for GET /api/users
+export interface UserListFilters {
+  role?: UserRole
+  status?: UserStatus
+  search?: string
+  departments?: Department[] // Set for users whose access is granted by department
+}
+
+interface UserManager extends PermissionHolder {
+  id: string
+}
+
+/**
+ * Why an actor may not manage another user's account, or null when they
+ * may. Nobody manages their own account here, and only users who can
+ * manage the system may act on administrators.
+ */
+export function getUserManagementDenial(
+  actor: UserManager,
+  target: Pick<ExtendedUser, 'id' | 'role' | 'department'>
+): string | null {
+  if (!hasPermission(actor, 'canEditUsers', target.department)) {
+    return 'Insufficient permissions to manage users'
+  }
+  if (actor.id === target.id) {
+    return 'You cannot perform this action on your own account'
+  }
+  if (target.role === 'ADMIN' && !actor.permissions?.canManageSystem) {
+    return 'Only system administrators can manage administrator accounts'
+  }
+  return null
+}
+
+/**
+ * Why an actor may not move a user to a new role, or null when they may
+ */
+export function getRoleChangeDenial(
+  actor: UserManager,
+  target: Pick<ExtendedUser, 'id' | 'role' | 'department'>,
+  role: UserRole
+): string | null {
+  const denial = getUserManagementDenial(actor, target)
+  if (denial) return denial
+
+  if (role === 'ADMIN' && !actor.permissions?.canManageSystem) {
+    return 'Only system administrators can grant the administrator role'
+  }
+  return null
+}
+
+/**
+ * Whether a user matches a free-text search on name, email or department
+ */
+export function matchesUserSearch(user: ExtendedUser, search: string): boolean {
+  const searchLower = search.toLowerCase()
+  return user.firstName.toLowerCase().includes(searchLower) ||
+    user.lastName.toLowerCase().includes(searchLower) ||
+    user.email.toLowerCase().includes(searchLower) ||
+    !!user.department?.toLowerCase().includes(searchLower)
+}
+
+/**
+ * Why an actor may not change a user's permission overrides and department
+ * grants, or null when they may. Granting access is limited to system
+ * administrators.
+ */
+export function getPermissionChangeDenial(
+  actor: UserManager,
+  target: Pick<ExtendedUser, 'id' | 'role' | 'department'>
+): string | null {
+  const denial = getUserManagementDenial(actor, target)
+  if (denial) return denial
+
+  if (!actor.permissions?.canManageSystem) {
+    return 'Only system administrators can change user permissions'
+  }
+  return null
+}
@@ -6,7 +6,15 @@
  */
 
 import { Timestamp } from 'firebase/firestore'
-import { UserRole, Department, PGYLevel, UserPermissions } from './user'
+import {
+  UserRole,
+  Department,
+  PGYLevel,
+  UserPermissions,
+  DepartmentPermissions,
+  PlatformRole,
+  InstitutionMembership
+} from './user'
 
 // ===== CORE ENTITY TYPES =====
 
@@ -59,7 +67,7 @@ export interface ExtendedUser {
   lastName: string
   department?: Department
   pgyLevel?: PGYLevel
-  status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED' | 'PENDING_VERIFICATION'
+  status: 'ACTIVE' | 'INACTIVE' | 'SUSPENDED' | 'PENDING_VERIFICATION' | 'PENDING_APPROVAL'
   lastLogin?: Timestamp
   createdAt: Timestamp
   updatedAt: Timestamp
@@ -71,7 +79,12 @@ export interface ExtendedUser {
   phoneNumber?: string
   createdBy: string
   lastModifiedBy: string
-  permissions: UserPermissions
+  permissions: UserPermissions // Effective: role defaults with permissionOverrides applied
+  permissionOverrides?: Partial<UserPermissions> // Only entries that differ from the role defaults
+  departmentPermissions?: DepartmentPermissions
+  platformRole?: PlatformRole
+  institutionMemberships?: InstitutionMembership[] // Institutions other than institutionId this user can switch to
+  memberInstitutionIds?: string[] // institutionMemberships' IDs, for array-contains queries
   
   // Extended healthcare fields
   profile: {
@@ -118,6 +131,41 @@ export interface ExtendedUser {
     supervisor?: string
     employmentType: 'FULL_TIME' | 'PART_TIME' | 'CONTRACT' | 'FELLOWSHIP'
   }[]
+
+  // Year-end promotion decisions (residents)
+  promotionHistory?: {
+    academicYear: string
+    action: 'PROMOTE' | 'GRADUATE' | 'HOLD'
+    fromPGYLevel: PGYLevel
+    toPGYLevel?: PGYLevel
+    note?: string
+    decidedBy: string
+    decidedAt: Timestamp
+  }[]
+  graduatedAt?: Timestamp
+
+  // Sign-in protection (server-managed)
+  security?: {
+    failedLoginAttempts: number
+    lastFailedLoginAt?: Timestamp
+    lockedUntil?: Timestamp
+    passwordChangedAt?: Timestamp
+    passwordResetRequired?: boolean // Set by an administrator; sign-in blocked until reset
+  }
+
+  // Set while status is SUSPENDED
+  suspension?: {
+    reason?: string
+    suspendedAt: Timestamp
+    suspendedBy: string
+  }
+
+  // TOTP multi-factor authentication (server-managed; secrets live in mfa_secrets)
+  mfa?: {
+    enabled: boolean
+    enrolledAt?: Timestamp
+    recoveryCodesRemaining: number
+  }
 }
 
 export interface ResidentProfile {
@@ -149,6 +197,8 @@ export interface ResidentProfile {
     milestones?: {
       milestoneId: string
       status: 'NOT_STARTED' | 'DEVELOPING' | 'PROFICIENT' | 'ADVANCED'
+      level?: number // 1-5 in half-level steps, from the latest approved evaluation
+      evaluationId?: string
       assessmentDate: Timestamp
       assessorId: string
     }[]
@@ -171,6 +221,14 @@ export interface ResidentProfile {
     researchMentorId?: string
   }
   
+  // Approved leave that counts against board eligibility, recomputed on each leave decision
+  leaveSummary?: {
+    boardLeaveDays: number // Working days away across training
+    extensionDays: number // Working days beyond each year's board allowance
+    extendedGraduationDate?: Timestamp // Set when training is extended
+    updatedAt: Timestamp
+  }
+  
   createdAt: Timestamp
   updatedAt: Timestamp
   createdBy: string
@@ -188,6 +246,7 @@ export interface Rotation {
   objectives: string[]
   duration: number // weeks
   capacity: number // max residents
+  minimumStaffing?: number // Fewest residents who must stay on the rotation, checked against leave requests
   isRequired: boolean
   pgyLevels: PGYLevel[] // Which PGY levels can take this rotation
   
@@ -244,25 +303,236 @@ export interface Schedule {
   endDate: Timestamp
   
   // Assignments
-  assignments: {
-    residentId: string
-    rotationId?: string
-    supervisorId?: string
-    location?: string
-    notes?: string
-  }[]
+  assignments: ScheduleAssignment[]
   
   // Publishing and approval
   publishedDate?: Timestamp
   approvedBy?: string
   approvalDate?: Timestamp
   
+  // Automated matching (present on solver-generated drafts)
+  solverReport?: ScheduleSolverReport
+  
+  // Call roster generation (present on generated CALL schedules)
+  callReport?: CallScheduleReport
+  
+  // Conflict scan recorded on every save
+  conflicts?: ScheduleConflict[]
+  conflictsCheckedAt?: Timestamp
+  
   createdAt: Timestamp
   updatedAt: Timestamp
   createdBy: string
   lastModifiedBy: string
 }
 
+export interface ScheduleAssignment {
+  residentId: string
+  rotationId?: string
+  supervisorId?: string
+  location?: string
+  notes?: string
+  // Optional per-assignment window; falls back to the schedule's startDate/endDate
+  startDate?: Timestamp
+  endDate?: Timestamp
+  callType?: CallType // CALL schedules hold one assignment per call shift
+  swapRequestId?: string // Approved shift swap that last moved this shift to residentId
+}
+
+export type CallType = 'NIGHT' | 'WEEKEND' | 'HOLIDAY'
+
+export type UnmetConstraintType =
+  | 'NO_ELIGIBLE_ROTATIONS'
+  | 'REQUIRED_ROTATION_UNPLACED'
+  | 'UNASSIGNED_BLOCK'
+  | 'PREFERENCE_NOT_MET'
+  | 'ROTATION_UNDERFILLED'
+
+export interface UnmetConstraint {
+  type: UnmetConstraintType
+  severity: 'ERROR' | 'WARNING' | 'INFO'
+  message: string
+  residentId?: string
+  rotationId?: string
+  blockIndex?: number
+}
+
+export interface ScheduleSolverReport {
+  generatedAt: Timestamp
+  generatedBy: string
+  blockLengthWeeks: number
+  blockCount: number
+  residentCount: number
+  rotationCount: number
+  filledBlocks: number
+  totalBlocks: number
+  preferenceSatisfaction: number // percentage of residents who received their first choice
+  unmetConstraints: UnmetConstraint[]
+}
+
+export interface CallScheduleReport {
+  generatedAt: Timestamp
+  generatedBy: string
+  holidays: string[] // ISO dates rostered as holiday call
+  rotationCount: number
+  residentCount: number
+  filledNights: number
+  totalNights: number
+  unfilledNights: {
+    rotationId: string
+    date: string // ISO date
+    reason: string
+  }[]
+  distribution: {
+    residentId: string
+    total: number
+    weekend: number
+    holiday: number
+  }[]
+}
+
+export type ScheduleConflictType =
+  | 'DOUBLE_BOOKING'
+  | 'OVER_CAPACITY'
+  | 'PGY_INELIGIBLE'
+  | 'VACATION_OVERLAP'
+
+export interface ScheduleConflict {
+  id: string // Stable key derived from type and affected records
+  type: ScheduleConflictType
+  severity: 'ERROR' | 'WARNING'
+  message: string
+  residentIds: string[]
+  rotationId?: string
+  scheduleIds: string[]
+  overlapStart?: string // ISO date
+  overlapEnd?: string // ISO date
+}
+
+// Resident-submitted rotation rankings used by the schedule solver
+export interface RotationPreference {
+  id: string
+  institutionId: string
+  residentId: string
+  academicYear: string // "2024-2025"
+  rankings: string[] // Rotation IDs, most preferred first
+  submittedAt: Timestamp
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
+// Actual shift logged by or for a resident, used for ACGME duty-hour tracking
+export interface DutyShift {
+  id: string
+  institutionId: string
+  residentId: string
+  rotationId?: string
+  type: 'REGULAR' | 'CALL' | 'NIGHT_FLOAT' | 'MOONLIGHTING' | 'CONFERENCE'
+  startTime: Timestamp
+  endTime: Timestamp
+  notes?: string
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
+export type LeaveType = 'VACATION' | 'SICK' | 'PARENTAL' | 'CONFERENCE'
+
+// Time off requested by a resident and decided by a program coordinator
+export interface LeaveRequest {
+  id: string
+  institutionId: string
+  residentId: string
+  residentName: string
+  department?: Department
+  type: LeaveType
+  startDate: Timestamp
+  endDate: Timestamp
+  workingDays: number
+  academicYear: string // "2024-2025", from the start date
+  reason?: string
+  status: 'PENDING' | 'APPROVED' | 'DENIED' | 'CANCELLED'
+  warnings: LeaveWarning[] // Balance and staffing checks at the time of the request
+  decision?: {
+    decidedBy: string
+    decidedAt: Timestamp
+    comments?: string
+  }
+  scheduleId?: string // VACATION schedule created on approval
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
+export interface LeaveWarning {
+  type: 'BALANCE_EXCEEDED' | 'BELOW_MINIMUM_STAFFING' | 'TRAINING_EXTENSION'
+  message: string
+  rotationId?: string
+}
+
+// A call shift on a CALL schedule, identified by rotation and start date
+export interface SwapShift {
+  rotationId: string
+  rotationName: string
+  date: string // ISO date the call starts
+  callType?: CallType
+}
+
+// A resident's offer to give away or trade a call shift with a peer
+export interface ShiftSwapRequest {
+  id: string
+  institutionId: string
+  scheduleId: string // Published CALL schedule the shifts belong to
+  academicYear: string
+  offeredBy: string
+  offeredByName: string
+  offeredShift: SwapShift
+  note?: string // Shown to colleagues browsing open offers
+  acceptedBy?: string
+  acceptedByName?: string
+  acceptedAt?: Timestamp
+  returnShift?: SwapShift // Taken by the offering resident in exchange; a giveaway without one
+  status: 'OPEN' | 'PENDING_APPROVAL' | 'APPROVED' | 'DENIED' | 'CANCELLED'
+  warnings: ShiftSwapWarning[] // Duty-hour and conflict checks at the time of acceptance
+  decision?: {
+    decidedBy: string
+    decidedAt: Timestamp
+    comments?: string
+  }
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
+export interface ShiftSwapWarning {
+  type: 'DUTY_HOURS' | 'SCHEDULE_CONFLICT'
+  message: string
+  residentId?: string
+}
+
+export type DutyHourViolationType =
+  | 'WEEKLY_HOURS_AVERAGE' // > 80 hours/week averaged over 4 weeks
+  | 'CONTINUOUS_DUTY' // > 24 hours + 4 transition hours
+  | 'DAY_OFF_IN_SEVEN' // < 1 day off in 7, averaged over 4 weeks
+  | 'CALL_FREQUENCY' // in-house call more often than every third night
+
+export interface DutyHourViolation {
+  id: string
+  type: DutyHourViolationType
+  residentId: string
+  source: 'PLANNED' | 'LOGGED'
+  message: string
+  periodStart: string // ISO date
+  periodEnd: string // ISO date
+  actual: number
+  limit: number
+}
+
 export interface Evaluation {
   id: string
   institutionId: string
@@ -272,6 +542,8 @@ export interface Evaluation {
   evaluateeId: string // Resident being evaluated
   evaluatorId: string // Faculty doing evaluation
   rotationId?: string // If rotation evaluation
+  templateId?: string // Template version the evaluation was created from
+  templateVersion?: number
   
   // Evaluation period
   evaluationPeriod: {
@@ -282,6 +554,8 @@ export interface Evaluation {
   
   // Evaluation content
   ratings: {
+    questionId?: string // Template question answered by this rating
+    milestoneId?: string // Sub-competency the milestoneLevel rolls up to
     category: string
     subcategory?: string
     score: number // 1-5 or 1-9 scale
@@ -315,6 +589,86 @@ export interface Evaluation {
   lastModifiedBy: string
 }
 
+// ===== EVALUATION TEMPLATES =====
+
+export interface EvaluationScale {
+  min: number
+  max: number
+  labels?: Record<string, string> // Anchor text keyed by score, e.g. { '1': 'Novice' }
+}
+
+export interface EvaluationQuestionCondition {
+  questionId: string // Earlier question whose score controls this one
+  operator: 'LT' | 'LTE' | 'EQ' | 'GTE' | 'GT'
+  value: number
+}
+
+export interface EvaluationTemplateQuestion {
+  id: string // Unique within the template
+  category: string // Copied to the rating's category
+  subcategory?: string
+  prompt: string
+  description?: string
+  scale: EvaluationScale
+  required: boolean
+  commentRequired?: boolean // Always require a comment
+  commentRequiredBelow?: number // Require a comment when the score is below this value
+  milestoneLevelRequired?: boolean
+  milestoneId?: string // Sub-competency in the department's milestone set
+  condition?: EvaluationQuestionCondition // Only asked when the condition holds
+}
+
+export interface EvaluationTemplateSection {
+  id: string
+  title: string
+  description?: string
+  questions: EvaluationTemplateQuestion[]
+}
+
+export interface EvaluationTemplate {
+  id: string // `tmpl-${institutionId}-${templateKey}-v${version}`
+  institutionId: string
+  templateKey: string // Shared by every version of the template
+  version: number
+  name: string
+  description?: string
+  evaluationType: Evaluation['type']
+  departments: Department[] // Empty applies to every department
+  status: 'ACTIVE' | 'RETIRED'
+  sections: EvaluationTemplateSection[]
+  overallScale: EvaluationScale
+  summaryCommentsRequired: boolean
+
+  retiredAt?: Timestamp
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
+// ===== ACGME MILESTONES =====
+
+export type CoreCompetency = 'PC' | 'MK' | 'SBP' | 'PBLI' | 'PROF' | 'ICS'
+
+export interface MilestoneSubCompetency {
+  id: string // e.g. "PC1", "SBP2"
+  competency: CoreCompetency
+  name: string
+  levelDescriptions?: string[] // Levels 1-5, in order
+}
+
+export interface MilestoneSet {
+  id: string // `${institutionId}-${department}`
+  institutionId: string
+  department: Department
+  name: string
+  subCompetencies: MilestoneSubCompetency[]
+  createdAt: Timestamp
+  updatedAt: Timestamp
+  createdBy: string
+  lastModifiedBy: string
+}
+
 // ===== AUDIT AND COMPLIANCE =====
 
 export interface HIPAAAuditLog {
@@ -357,6 +711,23 @@ export interface HIPAAAuditLog {
   checksum?: string
 }
 
+// Dashboard feed entry projected from an audit log entry, without PHI details
+export interface ActivityFeedEntry {
+  id: string
+  institutionId: string
+  auditLogId: string
+  action: string
+  kind: 'resident' | 'user' | 'evaluation' | 'schedule'
+  title: string
+  description: string
+  audience: string[] // Roles, plus "user:<id>" for individual users
+  pgyLevel?: PGYLevel
+  resourceType: string
+  resourceId: string
+  actorId?: string
+  timestamp: Timestamp
+}
+
 // ===== SYSTEM CONFIGURATION =====
 
 export interface SystemSettings {
@@ -398,6 +769,12 @@ export interface SystemSettings {
     allowSelfScheduling: boolean
   }
   
+  // Leave allowances, in working days
+  leave: {
+    annualAllowanceDays: Record<LeaveType, number> // Per academic year
+    boardEligibilityDays: number // Time away per academic year before training is extended
+  }
+  
   // Notification settings
   notifications: {
     emailEnabled: boolean
@@ -414,6 +791,30 @@ export interface SystemSettings {
   lastModifiedBy: string
 }
 
+// Hashes of a user's recent passwords, for preventing reuse (server-only)
+export interface PasswordHistory {
+  id: string // Same as user ID
+  userId: string
+  institutionId: string
+  entries: {
+    hash: string // bcrypt
+    createdAt: Timestamp
+  }[] // Newest first
+  updatedAt: Timestamp
+}
+
+// TOTP secret and recovery codes for a user's MFA (server-only)
+export interface MfaSecret {
+  id: string // Same as user ID
+  userId: string
+  institutionId: string
+  secret?: string // Base32; set once enrolment is verified
+  pendingSecret?: string // Issued at enrolment, until the first code is verified
+  recoveryCodeHashes: string[] // bcrypt of unused recovery codes
+  lastUsedStep?: number // TOTP step of the last accepted code, to prevent replay
+  updatedAt: Timestamp
+}
+
 // ===== COLLECTION NAMES (Constants) =====
 
 export const COLLECTIONS = {
@@ -423,9 +824,19 @@ export const COLLECTIONS = {
   ROTATIONS: 'rotations',
   SCHEDULES: 'schedules',
   EVALUATIONS: 'evaluations',
+  EVALUATION_TEMPLATES: 'evaluation_templates',
+  MILESTONE_SETS: 'milestone_sets',
+  ROTATION_PREFERENCES: 'rotation_preferences',
+  DUTY_SHIFTS: 'duty_shifts',
+  LEAVE_REQUESTS: 'leave_requests',
+  SHIFT_SWAP_REQUESTS: 'shift_swap_requests',
   HIPAA_AUDIT_LOGS: 'hipaa_audit_logs',
+  ACTIVITY_FEED: 'activity_feed',
   AUDIT_BACKUP: 'audit_backup',
   AUDIT_EMERGENCY: 'audit_emergency',
+  AUDIT_CHAIN_HEADS: 'audit_chain_heads',
+  PASSWORD_HISTORY: 'password_history',
+  MFA_SECRETS: 'mfa_secrets',
   SYSTEM_SETTINGS: 'system_settings'
 } as const
 
@@ -99,12 +99,14 @@ export interface LoginFormData {
   email: string;
   password: string;
   rememberMe: boolean;
+  mfaCode?: string; // Authenticator or recovery code for the second sign-in step
 }
 
 export interface ValidationErrors {
   [key: string]: string | undefined;
   email?: string;
   password?: string;
+  mfaCode?: string;
 }
 
 export interface EMMALoginFormProps {
@@ -115,6 +117,8 @@ export interface EMMALoginFormProps {
   title?: string;
   subtitle?: string;
   onSwitchToRegister?: () => void;
+  mfaRequired?: boolean; // Show the authentication code step
+  onCancelMfa?: () => void;
 }
 
 // Healthcare Theme Extension Types (already defined in theme file)
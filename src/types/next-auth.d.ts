@@ -1,4 +1,5 @@
-import { UserRole, Department, PGYLevel, UserPermissions } from './user'
+import { UserRole, Department, PGYLevel, UserPermissions, DepartmentPermissions } from './user'
+import type { SessionPolicy } from '@/lib/session-policy'
 
 declare module 'next-auth' {
   interface User {
@@ -8,9 +9,14 @@ declare module 'next-auth' {
     department?: Department
     pgyLevel?: PGYLevel
     permissions: UserPermissions
+    departmentPermissions?: DepartmentPermissions // Grants limited to users and residents in these departments
+    mfaEnrollmentRequired?: boolean // Permissions withheld until MFA enrolment
     displayName: string
     institutionId?: string
+    homeInstitutionId?: string
+    isSuperAdmin?: boolean
     emailVerified: boolean
+    sessionPolicy?: SessionPolicy
   }
 
   interface Session {
@@ -23,10 +29,15 @@ declare module 'next-auth' {
       department?: Department
       pgyLevel?: PGYLevel
       permissions: UserPermissions
+      departmentPermissions?: DepartmentPermissions
+      mfaEnrollmentRequired?: boolean
       displayName: string
-      institutionId?: string
+      institutionId?: string // The active institution, switchable for users with access to several
+      homeInstitutionId?: string // The institution on the user's record
+      isSuperAdmin?: boolean // Platform super admin who onboards institutions
       emailVerified: boolean
     }
+    sessionPolicy?: SessionPolicy // Inactivity limits from the institution's settings
   }
 }
 
@@ -38,8 +49,15 @@ declare module 'next-auth/jwt' {
     department?: Department
     pgyLevel?: PGYLevel
     permissions: UserPermissions
+    departmentPermissions?: DepartmentPermissions
+    mfaEnrollmentRequired?: boolean // Permissions withheld until MFA enrolment
     displayName: string
     institutionId?: string
+    homeInstitutionId?: string
+    isSuperAdmin?: boolean
     emailVerified: boolean
+    sessionPolicy?: SessionPolicy
+    lastActivityAt?: number // Epoch ms of the last activity reported by the browser
+    userCheckedAt?: number // Epoch ms the user record was last re-read
   }
 }
\ No newline at end of file
@@ -18,7 +18,18 @@ export type Department =
 
 export type PGYLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7
 
-export type UserStatus = 'ACTIVE' | 'INACTIVE' | 'SUSPENDED' | 'PENDING_VERIFICATION'
+// PENDING_APPROVAL: self-registered, waiting for an institution administrator
+export type UserStatus = 'ACTIVE' | 'INACTIVE' | 'SUSPENDED' | 'PENDING_VERIFICATION' | 'PENDING_APPROVAL'
+
+// Platform-wide role held alongside the user's role in their own institution
+export type PlatformRole = 'SUPER_ADMIN'
+
+// Access to an institution other than the user's own, with the role held there
+export interface InstitutionMembership {
+  institutionId: string
+  role: UserRole
+  department?: Department
+}
 
 export interface User {
   id: string
@@ -40,7 +51,11 @@ export interface User {
   phoneNumber?: string
   createdBy: string
   lastModifiedBy: string
-  permissions: UserPermissions
+  permissions: UserPermissions // Effective: role defaults with permissionOverrides applied
+  permissionOverrides?: Partial<UserPermissions> // Only entries that differ from the role defaults
+  departmentPermissions?: DepartmentPermissions
+  platformRole?: PlatformRole
+  institutionMemberships?: InstitutionMembership[]
 }
 
 export interface UserPermissions {
@@ -63,6 +78,11 @@ export interface UserPermissions {
   canManageSystem: boolean
 }
 
+export type PermissionKey = keyof UserPermissions
+
+// Permissions granted only for users and residents in the listed departments
+export type DepartmentPermissions = Partial<Record<PermissionKey, Department[]>>
+
 // Role-based permissions
 export const ROLE_PERMISSIONS: Record<UserRole, UserPermissions> = {
   ADMIN: {